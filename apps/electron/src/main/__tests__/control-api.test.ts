@@ -0,0 +1,239 @@
+/**
+ * Tests for the local control API.
+ *
+ * Starts the real server on a loopback port and drives it through HTTP and
+ * WebSocket requests, with a fake SessionManager. The Electron logger and the
+ * config.json store are replaced so the test runs outside Electron and never
+ * touches the user's config.
+ */
+import { describe, it, expect, mock, beforeAll, afterAll, beforeEach } from 'bun:test'
+import { request } from 'http'
+import { WebSocket } from 'ws'
+import type { ControlApiConfig } from '@craft-agent/shared/config'
+import type { SessionManager } from '../sessions'
+import type { SessionEvent } from '../../shared/types'
+
+const realConfig = await import('@craft-agent/shared/config')
+let storedConfig: ControlApiConfig | null = null
+mock.module('@craft-agent/shared/config', () => ({
+  ...realConfig,
+  getControlApiConfig: () => storedConfig,
+  setControlApiConfig: (config: ControlApiConfig) => { storedConfig = { ...config } },
+}))
+
+const silentLog = { info: () => {}, warn: () => {}, error: () => {}, debug: () => {} }
+mock.module('../logger', () => ({ controlApiLog: silentLog }))
+
+const { initControlApi, stopControlApi, regenerateControlApiToken, getControlApiStatus } = await import('../control-api')
+
+const PORT = 40000 + Math.floor(Math.random() * 20000)
+const TOKEN = 'a'.repeat(64)
+
+interface PermissionCall {
+  sessionId: string
+  requestId: string
+  allowed: boolean
+  alwaysAllow: unknown
+}
+
+let permissionCalls: PermissionCall[] = []
+let emitEvent: ((event: SessionEvent, workspaceId?: string) => void) | null = null
+
+// Only the methods the control API calls
+const fakeSessionManager = {
+  getWorkspaces: () => [{ id: 'ws-1', name: 'Work', rootPath: '/tmp/ws-1' }],
+  getSessions: () => [{ id: 'session-1', workspaceId: 'ws-1', hidden: false }],
+  addEventListener: (listener: (event: SessionEvent, workspaceId?: string) => void) => {
+    emitEvent = listener
+    return () => { emitEvent = null }
+  },
+  respondToPermission: (sessionId: string, requestId: string, allowed: boolean, alwaysAllow: unknown) => {
+    permissionCalls.push({ sessionId, requestId, allowed, alwaysAllow })
+    return requestId === 'perm-1'
+  },
+} as unknown as SessionManager
+
+interface Response {
+  status: number
+  body: Record<string, unknown>
+}
+
+function send(
+  method: string,
+  path: string,
+  options: { token?: string | null; host?: string; body?: string } = {}
+): Promise<Response> {
+  const { token = TOKEN, host = `127.0.0.1:${PORT}`, body } = options
+  return new Promise((resolve, reject) => {
+    const req = request({
+      host: '127.0.0.1',
+      port: PORT,
+      method,
+      path,
+      headers: {
+        Host: host,
+        ...(token ? { Authorization: `Bearer ${token}` } : {}),
+        ...(body !== undefined ? { 'Content-Type': 'application/json', 'Content-Length': Buffer.byteLength(body) } : {}),
+      },
+    }, (res) => {
+      const chunks: Buffer[] = []
+      res.on('data', chunk => chunks.push(chunk))
+      res.on('end', () => resolve({
+        status: res.statusCode ?? 0,
+        body: JSON.parse(Buffer.concat(chunks).toString('utf-8') || '{}'),
+      }))
+    })
+    req.on('error', reject)
+    req.end(body)
+  })
+}
+
+/** Open an event stream; resolves once connected, rejects with the HTTP status if refused */
+function connect(query: string, headers: Record<string, string> = {}): Promise<WebSocket> {
+  return new Promise((resolve, reject) => {
+    const ws = new WebSocket(`ws://127.0.0.1:${PORT}/v1/events${query}`, { headers })
+    ws.once('open', () => resolve(ws))
+    ws.once('unexpected-response', (_req, res) => reject(new Error(`HTTP ${res.statusCode}`)))
+    ws.once('error', reject)
+  })
+}
+
+function nextMessage(ws: WebSocket): Promise<Record<string, unknown>> {
+  return new Promise(resolve => ws.once('message', data => resolve(JSON.parse(data.toString()))))
+}
+
+describe('control API', () => {
+  beforeAll(async () => {
+    storedConfig = { enabled: true, port: PORT, token: TOKEN }
+    await initControlApi(fakeSessionManager)
+    expect(getControlApiStatus().running).toBe(true)
+  })
+
+  afterAll(async () => {
+    await stopControlApi()
+  })
+
+  beforeEach(() => {
+    // Token rotation replaces it
+    storedConfig = { enabled: true, port: PORT, token: TOKEN }
+    permissionCalls = []
+  })
+
+  describe('auth', () => {
+    it('requires the bearer token', async () => {
+      expect((await send('GET', '/v1/workspaces', { token: null })).status).toBe(401)
+      expect((await send('GET', '/v1/workspaces', { token: 'b'.repeat(64) })).status).toBe(401)
+      expect((await send('GET', '/v1/workspaces', { token: 'short' })).status).toBe(401)
+
+      const ok = await send('GET', '/v1/workspaces')
+      expect(ok.status).toBe(200)
+      expect(ok.body.workspaces).toEqual([{ id: 'ws-1', name: 'Work', rootPath: '/tmp/ws-1' }])
+    })
+
+    it('rejects non-loopback Host headers', async () => {
+      expect((await send('GET', '/v1/workspaces', { host: 'attacker.example' })).status).toBe(403)
+      expect((await send('GET', '/v1/workspaces', { host: `attacker.example:${PORT}` })).status).toBe(403)
+      expect((await send('GET', '/v1/workspaces', { host: `localhost:${PORT}` })).status).toBe(200)
+    })
+
+    it('checks the token and Host header on WebSocket upgrades', async () => {
+      await expect(connect('')).rejects.toThrow('HTTP 401')
+      await expect(connect(`?token=${TOKEN}`, { Host: 'attacker.example' })).rejects.toThrow('HTTP 403')
+
+      const ws = await connect(`?token=${TOKEN}`)
+      ws.close()
+    })
+  })
+
+  describe('request bodies', () => {
+    it('rejects bodies over the size limit', async () => {
+      const body = JSON.stringify({ allowed: true, padding: 'x'.repeat(1024 * 1024) })
+
+      const response = await send('POST', '/v1/sessions/session-1/permissions/perm-1', { body })
+
+      expect(response.status).toBe(413)
+      expect(permissionCalls).toHaveLength(0)
+    })
+
+    it('rejects bodies that are not JSON objects', async () => {
+      expect((await send('POST', '/v1/sessions/session-1/permissions/perm-1', { body: '[true]' })).status).toBe(400)
+      expect((await send('POST', '/v1/sessions/session-1/permissions/perm-1', { body: '{' })).status).toBe(400)
+    })
+  })
+
+  describe('permission responses', () => {
+    it('delivers responses to the session manager', async () => {
+      const response = await send('POST', '/v1/sessions/session-1/permissions/perm-1', {
+        body: JSON.stringify({ allowed: true, alwaysAllow: 'workspace' }),
+      })
+
+      expect(response).toEqual({ status: 200, body: { delivered: true } })
+      expect(permissionCalls).toEqual([{ sessionId: 'session-1', requestId: 'perm-1', allowed: true, alwaysAllow: 'workspace' }])
+    })
+
+    it('treats unknown scopes as a one-off allow', async () => {
+      await send('POST', '/v1/sessions/session-1/permissions/perm-1', {
+        body: JSON.stringify({ allowed: true, alwaysAllow: 'everything' }),
+      })
+
+      expect(permissionCalls[0]!.alwaysAllow).toBe(false)
+    })
+
+    it('rejects invalid and undeliverable responses', async () => {
+      expect((await send('POST', '/v1/sessions/session-1/permissions/perm-1', { body: '{"allowed":"yes"}' })).status).toBe(400)
+      expect((await send('POST', '/v1/sessions/missing/permissions/perm-1', { body: '{"allowed":true}' })).status).toBe(404)
+      expect((await send('POST', '/v1/sessions/session-1/permissions/perm-2', { body: '{"allowed":false}' })).status).toBe(409)
+    })
+
+    it('accepts responses over the event stream', async () => {
+      const ws = await connect('', { Authorization: `Bearer ${TOKEN}` })
+
+      ws.send(JSON.stringify({ type: 'permission_response', sessionId: 'session-1', requestId: 'perm-2', allowed: false }))
+      const error = await nextMessage(ws)
+      ws.close()
+
+      expect(error.type).toBe('control_error')
+      expect(permissionCalls).toEqual([{ sessionId: 'session-1', requestId: 'perm-2', allowed: false, alwaysAllow: false }])
+    })
+  })
+
+  describe('event stream', () => {
+    it('rejects frames that are not JSON objects', async () => {
+      const ws = await connect(`?token=${TOKEN}`)
+
+      for (const frame of ['null', '[]', '42', '"x"', '{']) {
+        const reply = nextMessage(ws)
+        ws.send(frame)
+        expect(await reply).toEqual({ type: 'control_error', error: 'Messages must be JSON objects' })
+      }
+
+      // The connection survives bad frames
+      expect(ws.readyState).toBe(WebSocket.OPEN)
+      ws.close()
+      expect(permissionCalls).toHaveLength(0)
+    })
+
+    it('only sends events matching the subscription filters', async () => {
+      const ws = await connect(`?token=${TOKEN}&sessionId=session-1`)
+      const received = nextMessage(ws)
+
+      emitEvent!({ type: 'complete', sessionId: 'session-2' }, 'ws-1')
+      emitEvent!({ type: 'complete', sessionId: 'session-1' }, 'ws-1')
+
+      expect(await received).toEqual({ type: 'complete', sessionId: 'session-1' })
+      ws.close()
+    })
+
+    it('closes connected clients when the token is rotated', async () => {
+      const ws = await connect(`?token=${TOKEN}`)
+      const closed = new Promise<number>(resolve => ws.once('close', code => resolve(code)))
+
+      await regenerateControlApiToken()
+
+      expect(await closed).toBe(4001)
+      await expect(connect(`?token=${TOKEN}`)).rejects.toThrow('HTTP 401')
+      expect((await send('GET', '/v1/workspaces')).status).toBe(401)
+      expect((await send('GET', '/v1/workspaces', { token: storedConfig!.token })).status).toBe(200)
+    })
+  })
+})
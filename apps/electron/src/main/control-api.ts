@@ -0,0 +1,526 @@
+/**
+ * Local Control API
+ *
+ * Opt-in HTTP + WebSocket server bound to 127.0.0.1 so external tools
+ * (launchers, editor plugins, scripts) can drive sessions. Every route goes
+ * through SessionManager - the same code path as the renderer's IPC handlers.
+ *
+ * Auth: `Authorization: Bearer <token>` on every request. WebSocket clients
+ * that can't set headers may pass `?token=` instead. Port and token are
+ * stored in config.json (controlApi) and managed from App settings.
+ *
+ * HTTP (JSON bodies and responses):
+ *   GET  /v1/workspaces
+ *   GET  /v1/sessions?workspaceId=
+ *   POST /v1/sessions                                 { workspaceId, message?, name?, permissionMode?, model?, workingDirectory?, labels? }
+ *   GET  /v1/sessions/:id                              (includes messages)
+ *   POST /v1/sessions/:id/messages                     { message }
+ *   POST /v1/sessions/:id/cancel
+ *   POST /v1/sessions/:id/permissions/:requestId       { allowed, alwaysAllow? }  (alwaysAllow: true | 'session' | 'workspace' | 'global')
+ *
+ * WebSocket /v1/events?workspaceId=&sessionId=  (both filters optional)
+ *   server → client: SessionEvent objects
+ *   client → server: { type: 'permission_response', sessionId, requestId, allowed, alwaysAllow? }
+ */
+
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'http'
+import { randomBytes, timingSafeEqual } from 'crypto'
+import type { Duplex } from 'stream'
+import { WebSocketServer, WebSocket } from 'ws'
+import { getControlApiConfig, setControlApiConfig, type ControlApiConfig } from '@craft-agent/shared/config'
+import { PERMISSION_MODE_ORDER } from '@craft-agent/shared/agent/mode-types'
+import { controlApiLog } from './logger'
+import type { SessionManager } from './sessions'
+import type { AlwaysAllowScope, ControlApiStatus, CreateSessionOptions, PermissionMode, SessionEvent } from '../shared/types'
+
+export const DEFAULT_CONTROL_API_PORT = 7420
+
+// Request bodies are small JSON payloads (prompts); reject anything larger
+const MAX_BODY_BYTES = 1024 * 1024
+
+// WebSocket close code sent when the token is rotated
+const CLOSE_TOKEN_REVOKED = 4001
+
+const ALWAYS_ALLOW_SCOPES: AlwaysAllowScope[] = ['session', 'workspace', 'global']
+
+/**
+ * Read `alwaysAllow` from a permission response: a scope name, or true for the session.
+ */
+function parseAlwaysAllow(value: unknown): boolean | AlwaysAllowScope {
+  if (typeof value === 'string' && (ALWAYS_ALLOW_SCOPES as string[]).includes(value)) {
+    return value as AlwaysAllowScope
+  }
+  return value === true
+}
+
+/**
+ * Error with an HTTP status, returned to the client as `{ error }`.
+ */
+class ControlApiError extends Error {
+  constructor(public readonly status: number, message: string) {
+    super(message)
+    this.name = 'ControlApiError'
+  }
+}
+
+interface EventSubscriber {
+  socket: WebSocket
+  workspaceId?: string
+  sessionId?: string
+}
+
+let sessionManager: SessionManager | null = null
+let server: Server | null = null
+let wss: WebSocketServer | null = null
+let unsubscribeEvents: (() => void) | null = null
+let lastError: string | undefined
+const subscribers = new Set<EventSubscriber>()
+
+/**
+ * Start the control API if the user has enabled it. Call once after SessionManager.initialize().
+ */
+export async function initControlApi(sm: SessionManager): Promise<void> {
+  sessionManager = sm
+  const config = getControlApiConfig()
+  if (config?.enabled) {
+    await startServer(config)
+  }
+}
+
+/**
+ * Stop the server and disconnect all clients (app quit or user disabled it).
+ */
+export async function stopControlApi(): Promise<void> {
+  unsubscribeEvents?.()
+  unsubscribeEvents = null
+
+  for (const subscriber of subscribers) {
+    subscriber.socket.terminate()
+  }
+  subscribers.clear()
+
+  wss?.close()
+  wss = null
+
+  const current = server
+  server = null
+  if (current) {
+    await new Promise<void>(resolve => current.close(() => resolve()))
+    controlApiLog.info('Control API stopped')
+  }
+}
+
+/**
+ * Current settings and server state for the settings UI.
+ */
+export function getControlApiStatus(): ControlApiStatus {
+  const config = getControlApiConfig()
+  const port = config?.port ?? DEFAULT_CONTROL_API_PORT
+  return {
+    enabled: config?.enabled ?? false,
+    running: server?.listening ?? false,
+    port,
+    token: config?.token ?? null,
+    url: `http://127.0.0.1:${port}`,
+    error: lastError,
+  }
+}
+
+/**
+ * Enable or disable the control API. A token is generated on first enable.
+ */
+export async function setControlApiEnabled(enabled: boolean): Promise<ControlApiStatus> {
+  const config = ensureConfig()
+  config.enabled = enabled
+  setControlApiConfig(config)
+
+  await stopControlApi()
+  if (enabled) {
+    await startServer(config)
+  } else {
+    lastError = undefined
+  }
+  return getControlApiStatus()
+}
+
+/**
+ * Replace the token. Connected WebSocket clients are disconnected and must reconnect with the new one.
+ */
+export async function regenerateControlApiToken(): Promise<ControlApiStatus> {
+  const config = ensureConfig()
+  config.token = generateToken()
+  setControlApiConfig(config)
+
+  for (const subscriber of subscribers) {
+    subscriber.socket.close(CLOSE_TOKEN_REVOKED, 'Token revoked')
+  }
+  subscribers.clear()
+
+  controlApiLog.info('Control API token regenerated')
+  return getControlApiStatus()
+}
+
+function generateToken(): string {
+  return randomBytes(32).toString('hex')
+}
+
+function ensureConfig(): ControlApiConfig {
+  return getControlApiConfig() ?? {
+    enabled: false,
+    port: DEFAULT_CONTROL_API_PORT,
+    token: generateToken(),
+  }
+}
+
+async function startServer(config: ControlApiConfig): Promise<void> {
+  if (!sessionManager) return
+
+  const httpServer = createServer((req, res) => {
+    handleRequest(req, res).catch(error => {
+      controlApiLog.error('Unhandled request error:', error)
+      if (!res.headersSent) {
+        sendJson(res, 500, { error: 'Internal error' })
+      }
+    })
+  })
+  const socketServer = new WebSocketServer({ noServer: true })
+  httpServer.on('upgrade', (req, socket, head) => handleUpgrade(socketServer, req, socket, head))
+
+  try {
+    await new Promise<void>((resolve, reject) => {
+      httpServer.once('error', reject)
+      // Loopback only - never reachable from the network
+      httpServer.listen(config.port, '127.0.0.1', () => {
+        httpServer.removeListener('error', reject)
+        resolve()
+      })
+    })
+  } catch (error) {
+    lastError = error instanceof Error ? error.message : String(error)
+    controlApiLog.error(`Control API failed to start on port ${config.port}:`, error)
+    socketServer.close()
+    return
+  }
+
+  server = httpServer
+  wss = socketServer
+  lastError = undefined
+  unsubscribeEvents = sessionManager.addEventListener(broadcastEvent)
+  controlApiLog.info(`Control API listening on 127.0.0.1:${config.port}`)
+}
+
+// ============================================
+// Auth
+// ============================================
+
+function tokenMatches(candidate: string | null | undefined): boolean {
+  const token = getControlApiConfig()?.token
+  if (!token || !candidate) return false
+  const expected = Buffer.from(token)
+  const actual = Buffer.from(candidate)
+  return expected.length === actual.length && timingSafeEqual(expected, actual)
+}
+
+function bearerToken(req: IncomingMessage): string | null {
+  const header = req.headers.authorization
+  if (!header?.startsWith('Bearer ')) return null
+  return header.slice('Bearer '.length).trim()
+}
+
+/**
+ * Reject requests whose Host isn't loopback (guards against DNS rebinding).
+ */
+function isLoopbackHost(req: IncomingMessage): boolean {
+  const host = req.headers.host?.replace(/:\d+$/, '')
+  return host === '127.0.0.1' || host === 'localhost' || host === '[::1]'
+}
+
+// ============================================
+// HTTP
+// ============================================
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8' })
+  res.end(JSON.stringify(body))
+}
+
+async function readJsonBody(req: IncomingMessage): Promise<Record<string, unknown>> {
+  const chunks: Buffer[] = []
+  let size = 0
+  for await (const chunk of req) {
+    size += (chunk as Buffer).length
+    if (size > MAX_BODY_BYTES) {
+      throw new ControlApiError(413, 'Request body too large')
+    }
+    chunks.push(chunk as Buffer)
+  }
+  if (size === 0) return {}
+
+  try {
+    const body = JSON.parse(Buffer.concat(chunks).toString('utf-8'))
+    if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+      throw new Error('not an object')
+    }
+    return body as Record<string, unknown>
+  } catch {
+    throw new ControlApiError(400, 'Request body must be a JSON object')
+  }
+}
+
+function requireString(body: Record<string, unknown>, key: string): string {
+  const value = body[key]
+  if (typeof value !== 'string' || !value.trim()) {
+    throw new ControlApiError(400, `"${key}" must be a non-empty string`)
+  }
+  return value
+}
+
+function optionalString(body: Record<string, unknown>, key: string): string | undefined {
+  const value = body[key]
+  if (value === undefined) return undefined
+  if (typeof value !== 'string') {
+    throw new ControlApiError(400, `"${key}" must be a string`)
+  }
+  return value
+}
+
+function requireSession(sm: SessionManager, sessionId: string) {
+  const session = sm.getSessions().find(s => s.id === sessionId)
+  if (!session) {
+    throw new ControlApiError(404, `Session ${sessionId} not found`)
+  }
+  return session
+}
+
+async function handleRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+  const sm = sessionManager
+  if (!sm) {
+    sendJson(res, 503, { error: 'Control API is not running' })
+    return
+  }
+  if (!isLoopbackHost(req)) {
+    sendJson(res, 403, { error: 'Forbidden' })
+    return
+  }
+  if (!tokenMatches(bearerToken(req))) {
+    sendJson(res, 401, { error: 'Missing or invalid token' })
+    return
+  }
+
+  const url = new URL(req.url ?? '/', 'http://127.0.0.1')
+  const method = req.method ?? 'GET'
+  const parts = url.pathname.split('/').filter(Boolean).map(decodeURIComponent)
+
+  try {
+    if (parts[0] !== 'v1') {
+      throw new ControlApiError(404, 'Not found')
+    }
+    const [, resource, sessionId, action, actionId] = parts
+
+    // GET /v1/workspaces
+    if (resource === 'workspaces' && !sessionId && method === 'GET') {
+      sendJson(res, 200, {
+        workspaces: sm.getWorkspaces().map(w => ({ id: w.id, name: w.name, rootPath: w.rootPath })),
+      })
+      return
+    }
+
+    if (resource !== 'sessions') {
+      throw new ControlApiError(404, 'Not found')
+    }
+
+    // GET /v1/sessions
+    if (!sessionId && method === 'GET') {
+      const workspaceId = url.searchParams.get('workspaceId')
+      const sessions = sm.getSessions().filter(s => !s.hidden && (!workspaceId || s.workspaceId === workspaceId))
+      sendJson(res, 200, { sessions })
+      return
+    }
+
+    // POST /v1/sessions
+    if (!sessionId && method === 'POST') {
+      const body = await readJsonBody(req)
+      const workspaceId = requireString(body, 'workspaceId')
+      if (!sm.getWorkspaces().some(w => w.id === workspaceId)) {
+        throw new ControlApiError(404, `Workspace ${workspaceId} not found`)
+      }
+      const permissionMode = optionalString(body, 'permissionMode')
+      if (permissionMode && !PERMISSION_MODE_ORDER.includes(permissionMode as PermissionMode)) {
+        throw new ControlApiError(400, `Unknown permission mode "${permissionMode}"`)
+      }
+      const labels = body.labels
+      if (labels !== undefined && (!Array.isArray(labels) || labels.some(l => typeof l !== 'string'))) {
+        throw new ControlApiError(400, '"labels" must be an array of strings')
+      }
+
+      const options: CreateSessionOptions = {
+        permissionMode: permissionMode as PermissionMode | undefined,
+        model: optionalString(body, 'model'),
+        workingDirectory: optionalString(body, 'workingDirectory'),
+        labels: labels as string[] | undefined,
+      }
+      const session = await sm.createSession(workspaceId, options)
+
+      const name = optionalString(body, 'name')
+      if (name?.trim()) {
+        await sm.renameSession(session.id, name.trim())
+      }
+      const message = optionalString(body, 'message')
+      if (message?.trim()) {
+        startMessage(sm, session.id, session.workspaceId, message)
+      }
+
+      sendJson(res, 201, { session: requireSession(sm, session.id) })
+      return
+    }
+
+    if (!sessionId) {
+      throw new ControlApiError(405, 'Method not allowed')
+    }
+    const session = requireSession(sm, sessionId)
+
+    // GET /v1/sessions/:id
+    if (!action && method === 'GET') {
+      sendJson(res, 200, { session: await sm.getSession(sessionId) })
+      return
+    }
+
+    // POST /v1/sessions/:id/messages
+    if (action === 'messages' && method === 'POST') {
+      const body = await readJsonBody(req)
+      startMessage(sm, sessionId, session.workspaceId, requireString(body, 'message'))
+      // The turn runs in the background - results stream over /v1/events
+      sendJson(res, 202, { started: true })
+      return
+    }
+
+    // POST /v1/sessions/:id/cancel
+    if (action === 'cancel' && method === 'POST') {
+      await sm.cancelProcessing(sessionId)
+      sendJson(res, 200, { cancelled: true })
+      return
+    }
+
+    // POST /v1/sessions/:id/permissions/:requestId
+    if (action === 'permissions' && actionId && method === 'POST') {
+      const body = await readJsonBody(req)
+      if (typeof body.allowed !== 'boolean') {
+        throw new ControlApiError(400, '"allowed" must be a boolean')
+      }
+      const delivered = sm.respondToPermission(sessionId, actionId, body.allowed, parseAlwaysAllow(body.alwaysAllow))
+      if (!delivered) {
+        throw new ControlApiError(409, 'No agent is waiting for this permission request')
+      }
+      sendJson(res, 200, { delivered })
+      return
+    }
+
+    throw new ControlApiError(404, 'Not found')
+  } catch (error) {
+    if (error instanceof ControlApiError) {
+      sendJson(res, error.status, { error: error.message })
+      return
+    }
+    controlApiLog.error(`${method} ${url.pathname} failed:`, error)
+    sendJson(res, 500, { error: error instanceof Error ? error.message : 'Internal error' })
+  }
+}
+
+/**
+ * Start a turn without waiting for it. Failures are streamed to subscribers
+ * the same way the SEND_MESSAGE IPC handler reports them to windows.
+ */
+function startMessage(sm: SessionManager, sessionId: string, workspaceId: string, message: string): void {
+  sm.sendMessage(sessionId, message).catch(err => {
+    controlApiLog.error('Error in sendMessage:', err)
+    broadcastEvent({ type: 'error', sessionId, error: err instanceof Error ? err.message : 'Unknown error' }, workspaceId)
+    broadcastEvent({ type: 'complete', sessionId }, workspaceId)
+  })
+}
+
+// ============================================
+// WebSocket event stream
+// ============================================
+
+function handleUpgrade(socketServer: WebSocketServer, req: IncomingMessage, socket: Duplex, head: Buffer): void {
+  const url = new URL(req.url ?? '/', 'http://127.0.0.1')
+  const rejectUpgrade = (status: string) => {
+    socket.write(`HTTP/1.1 ${status}\r\nConnection: close\r\n\r\n`)
+    socket.destroy()
+  }
+
+  if (url.pathname !== '/v1/events') {
+    rejectUpgrade('404 Not Found')
+    return
+  }
+  if (!isLoopbackHost(req)) {
+    rejectUpgrade('403 Forbidden')
+    return
+  }
+  if (!tokenMatches(bearerToken(req) ?? url.searchParams.get('token'))) {
+    rejectUpgrade('401 Unauthorized')
+    return
+  }
+
+  socketServer.handleUpgrade(req, socket, head, (ws) => {
+    const subscriber: EventSubscriber = {
+      socket: ws,
+      workspaceId: url.searchParams.get('workspaceId') ?? undefined,
+      sessionId: url.searchParams.get('sessionId') ?? undefined,
+    }
+    subscribers.add(subscriber)
+    controlApiLog.info(`Event stream connected (${subscribers.size} active)`)
+
+    ws.on('message', (data) => handleClientMessage(ws, data.toString()))
+    ws.on('close', () => {
+      subscribers.delete(subscriber)
+    })
+    ws.on('error', (error) => {
+      controlApiLog.warn('Event stream socket error:', error)
+      subscribers.delete(subscriber)
+    })
+  })
+}
+
+function handleClientMessage(ws: WebSocket, raw: string): void {
+  let message: Record<string, unknown>
+  try {
+    const parsed = JSON.parse(raw)
+    if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+      throw new Error('not an object')
+    }
+    message = parsed as Record<string, unknown>
+  } catch {
+    ws.send(JSON.stringify({ type: 'control_error', error: 'Messages must be JSON objects' }))
+    return
+  }
+
+  if (message.type !== 'permission_response') {
+    ws.send(JSON.stringify({ type: 'control_error', error: `Unknown message type "${String(message.type)}"` }))
+    return
+  }
+
+  const { sessionId, requestId, allowed, alwaysAllow } = message
+  if (typeof sessionId !== 'string' || typeof requestId !== 'string' || typeof allowed !== 'boolean') {
+    ws.send(JSON.stringify({ type: 'control_error', error: 'permission_response requires sessionId, requestId and allowed' }))
+    return
+  }
+
+  const delivered = sessionManager?.respondToPermission(sessionId, requestId, allowed, parseAlwaysAllow(alwaysAllow)) ?? false
+  if (!delivered) {
+    ws.send(JSON.stringify({ type: 'control_error', sessionId, requestId, error: 'No agent is waiting for this permission request' }))
+  }
+}
+
+function broadcastEvent(event: SessionEvent, workspaceId?: string): void {
+  if (subscribers.size === 0) return
+  const payload = JSON.stringify(event)
+
+  for (const subscriber of subscribers) {
+    if (subscriber.sessionId && subscriber.sessionId !== event.sessionId) continue
+    if (subscriber.workspaceId && subscriber.workspaceId !== workspaceId) continue
+    if (subscriber.socket.readyState === WebSocket.OPEN) {
+      subscriber.socket.send(payload)
+    }
+  }
+}
@@ -76,6 +76,9 @@ import { ensureDefaultPermissions } from '@craft-agent/shared/agent/permissions-
 import { ensureToolIcons } from '@craft-agent/shared/config'
 import { setBundledAssetsRoot } from '@craft-agent/shared/utils'
 import { handleDeepLink } from './deep-link'
+import { initScheduler, stopScheduler } from './scheduler'
+import { initSourceHealthMonitor, stopSourceHealthMonitor } from './source-health'
+import { initControlApi, stopControlApi } from './control-api'
 import { registerThumbnailScheme, registerThumbnailHandler } from './thumbnail-protocol'
 import log, { isDebugMode, mainLog, getLogFilePath } from './logger'
 import { setPerfEnabled, enableDebug } from '@craft-agent/shared/utils'
@@ -273,6 +276,15 @@ app.whenReady().then(async () => {
     // Initialize auth (must happen after window creation for error reporting)
     await sessionManager.initialize()
 
+    // Start firing workspace schedules (needs initialized sessions and auth)
+    initScheduler(sessionManager)
+
+    // Watch source credentials and connectivity in the background
+    initSourceHealthMonitor()
+
+    // Start the local control API if the user opted in
+    await initControlApi(sessionManager)
+
     // Set Sentry context tags for error grouping (no PII — just config classification).
     // Runs after init so config and auth state are available.
     try {
@@ -366,6 +378,11 @@ app.on('before-quit', async (event) => {
     mainLog.info('Saved window state:', windows.length, 'windows')
   }
 
+  // Stop scheduling new runs while we shut down
+  stopScheduler()
+  stopSourceHealthMonitor()
+  void stopControlApi()
+
   // Flush all pending session writes before quitting
   if (sessionManager) {
     // Prevent quit until sessions are flushed
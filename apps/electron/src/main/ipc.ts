@@ -9,15 +9,19 @@ import { SessionManager } from './sessions'
 import { ipcLog, windowLog, searchLog } from './logger'
 import { WindowManager } from './window-manager'
 import { registerOnboardingHandlers } from './onboarding'
-import { IPC_CHANNELS, type FileAttachment, type StoredAttachment, type AuthType, type ApiSetupInfo, type SendMessageOptions } from '../shared/types'
+import { IPC_CHANNELS, type FileAttachment, type StoredAttachment, type AuthType, type ApiSetupInfo, type SendMessageOptions, type BudgetsConfig, type BashSandboxConfig, type UsageQueryOptions, type SessionExportFormat, type AlwaysAllowRule, type AlwaysAllowRules, type AlwaysAllowScope, type PermissionAuditScope, type ProviderProfile, type ProviderProfilesState } from '../shared/types'
 import { readFileAttachment, perf, validateImageForClaudeAPI, IMAGE_LIMITS } from '@craft-agent/shared/utils'
 import { getAuthType, setAuthType, getPreferencesPath, getCustomModel, setCustomModel, getModel, setModel, getSessionDraft, setSessionDraft, deleteSessionDraft, getAllSessionDrafts, getWorkspaceByNameOrId, addWorkspace, setActiveWorkspace, getAnthropicBaseUrl, setAnthropicBaseUrl, loadStoredConfig, saveConfig, type Workspace, SUMMARIZATION_MODEL } from '@craft-agent/shared/config'
 import { getSessionAttachmentsPath, validateSessionId } from '@craft-agent/shared/sessions'
 import { loadWorkspaceSources, getSourcesBySlugs, type LoadedSource } from '@craft-agent/shared/sources'
 import { isValidThinkingLevel } from '@craft-agent/shared/agent/thinking-levels'
+import { PERMISSION_AUDIT_FILE } from '@craft-agent/shared/agent/modes'
 import { getCredentialManager } from '@craft-agent/shared/credentials'
 import { MarkItDown } from 'markitdown-js'
 
+/** Maximum number of permission audit entries sent to the renderer */
+const PERMISSION_AUDIT_LIMIT = 500
+
 /**
  * Sanitizes a filename to prevent path traversal and filesystem issues.
  * Removes dangerous characters and limits length.
@@ -52,6 +56,23 @@ function getWorkspaceOrThrow(workspaceId: string): Workspace {
   return workspace
 }
 
+/**
+ * Print an HTML document to PDF in a hidden window.
+ * The HTML is loaded from a temp file (exports can exceed data: URL limits) with scripts disabled.
+ */
+async function printHtmlToPdf(html: string): Promise<Buffer> {
+  const htmlPath = join(tmpdir(), `craft-export-${randomUUID()}.html`)
+  await writeFile(htmlPath, html, 'utf-8')
+  const win = new BrowserWindow({ show: false, webPreferences: { javascript: false, sandbox: true } })
+  try {
+    await win.loadFile(htmlPath)
+    return await win.webContents.printToPDF({ printBackground: true, pageSize: 'A4' })
+  } finally {
+    win.destroy()
+    await unlink(htmlPath).catch(() => {})
+  }
+}
+
 /**
  * Validates that a file path is within allowed directories to prevent path traversal attacks.
  * Allowed directories: user's home directory and /tmp
@@ -116,6 +137,90 @@ async function validateFilePath(filePath: string): Promise<string> {
   return realPath
 }
 
+/**
+ * Create an MCP client for a connected MCP source, using its stored credentials.
+ * Returns an error message instead if the source cannot be connected to.
+ */
+async function createSourceMcpClient(
+  workspace: Workspace,
+  sourceSlug: string
+): Promise<{ client: import('@craft-agent/shared/mcp').CraftMcpClient } | { error: string }> {
+  // Load source config
+  const sources = await loadWorkspaceSources(workspace.rootPath)
+  const source = sources.find(s => s.config.slug === sourceSlug)
+  if (!source) return { error: 'Source not found' }
+  if (source.config.type !== 'mcp') return { error: 'Source is not an MCP server' }
+  if (!source.config.mcp) return { error: 'MCP config not found' }
+
+  // Check connection status
+  if (source.config.connectionStatus === 'needs_auth') {
+    return { error: 'Source requires authentication' }
+  }
+  if (source.config.connectionStatus === 'failed') {
+    return { error: source.config.connectionError || 'Connection failed' }
+  }
+  if (source.config.connectionStatus === 'untested') {
+    return { error: 'Source has not been tested yet' }
+  }
+
+  // Create unified MCP client for both stdio and HTTP transports
+  const { CraftMcpClient } = await import('@craft-agent/shared/mcp')
+  let client: InstanceType<typeof CraftMcpClient>
+
+  if (source.config.mcp.transport === 'stdio') {
+    // Stdio transport - spawn local MCP server process
+    if (!source.config.mcp.command) {
+      return { error: 'Stdio MCP source is missing required "command" field' }
+    }
+    ipcLog.info(`Connecting to MCP server via stdio: ${source.config.mcp.command}`)
+    client = new CraftMcpClient({
+      transport: 'stdio',
+      command: source.config.mcp.command,
+      args: source.config.mcp.args,
+      env: source.config.mcp.env,
+    })
+  } else {
+    // HTTP/SSE transport - connect to remote MCP server
+    if (!source.config.mcp.url) {
+      return { error: 'MCP source URL is required for HTTP/SSE transport' }
+    }
+
+    let accessToken: string | undefined
+    if (source.config.mcp.authType === 'oauth' || source.config.mcp.authType === 'bearer') {
+      const credentialManager = getCredentialManager()
+      const credentialId = source.config.mcp.authType === 'oauth'
+        ? { type: 'source_oauth' as const, workspaceId: source.workspaceId, sourceId: sourceSlug }
+        : { type: 'source_bearer' as const, workspaceId: source.workspaceId, sourceId: sourceSlug }
+      const credential = await credentialManager.get(credentialId)
+      accessToken = credential?.value
+    }
+
+    ipcLog.info(`Connecting to MCP server at ${source.config.mcp.url}`)
+    client = new CraftMcpClient({
+      transport: 'http',
+      url: source.config.mcp.url,
+      headers: accessToken ? { Authorization: `Bearer ${accessToken}` } : undefined,
+    })
+  }
+
+  return { client }
+}
+
+/**
+ * Turn an MCP request error into a message for the UI
+ */
+function getMcpErrorMessage(error: unknown, fallback: string): string {
+  const errorMessage = error instanceof Error ? error.message : fallback
+  // Provide more helpful error messages
+  if (errorMessage.includes('404')) {
+    return 'MCP server endpoint not found. The server may be offline or the URL may be incorrect.'
+  }
+  if (errorMessage.includes('401') || errorMessage.includes('403')) {
+    return 'Authentication failed. Please re-authenticate with this source.'
+  }
+  return errorMessage
+}
+
 export function registerIpcHandlers(sessionManager: SessionManager, windowManager: WindowManager): void {
   // Get all sessions
   ipcMain.handle(IPC_CHANNELS.GET_SESSIONS, async () => {
@@ -260,6 +365,79 @@ export function registerIpcHandlers(sessionManager: SessionManager, windowManage
     return sessionManager.deleteSession(sessionId)
   })
 
+  // Fork a session at a message into a new session
+  ipcMain.handle(IPC_CHANNELS.FORK_SESSION, async (_event, sessionId: string, messageId: string, includeMessage?: boolean) => {
+    return sessionManager.forkSession(sessionId, messageId, includeMessage)
+  })
+
+  // Load a session for local export (rendering happens in the renderer)
+  ipcMain.handle(IPC_CHANNELS.EXPORT_SESSION_LOAD, async (_event, sessionId: string) => {
+    return sessionManager.loadSessionForExport(sessionId)
+  })
+
+  // Save an exported session. PDF content is HTML, printed in a hidden window.
+  ipcMain.handle(IPC_CHANNELS.EXPORT_SESSION_SAVE, async (event, sessionId: string, format: SessionExportFormat, content: string) => {
+    const session = await sessionManager.loadSessionForExport(sessionId)
+    if (!session) throw new Error(`Session not found: ${sessionId}`)
+
+    const { getSessionExportFileName } = await import('@craft-agent/shared/sessions/export')
+    const win = BrowserWindow.fromWebContents(event.sender)
+    const extension = format === 'markdown' ? 'md' : format
+    const saveOptions = {
+      title: 'Export Session',
+      defaultPath: join(app.getPath('downloads'), getSessionExportFileName(session, format)),
+      filters: [{ name: format === 'markdown' ? 'Markdown' : format.toUpperCase(), extensions: [extension] }],
+    }
+    const result = win ? await dialog.showSaveDialog(win, saveOptions) : await dialog.showSaveDialog(saveOptions)
+    if (result.canceled || !result.filePath) return null
+
+    if (format === 'pdf') {
+      await writeFile(result.filePath, await printHtmlToPdf(content))
+    } else {
+      await writeFile(result.filePath, content, 'utf-8')
+    }
+    ipcLog.info(`Exported session ${sessionId} as ${format} to ${result.filePath}`)
+    return result.filePath
+  })
+
+  // Import transcripts from other apps (Claude Code, ChatGPT, Claude.ai) into a workspace
+  ipcMain.handle(IPC_CHANNELS.IMPORT_SESSIONS, async (event, workspaceId: string) => {
+    const { IMPORT_FILE_EXTENSIONS } = await import('@craft-agent/shared/sessions/import')
+    const win = BrowserWindow.fromWebContents(event.sender)
+    const openOptions = {
+      title: 'Import Conversations',
+      // Directories (e.g. ~/.claude/projects) can only be picked alongside files on macOS
+      properties: process.platform === 'darwin'
+        ? ['openFile' as const, 'openDirectory' as const, 'multiSelections' as const]
+        : ['openFile' as const, 'multiSelections' as const],
+      filters: [{ name: 'Transcripts and exports', extensions: IMPORT_FILE_EXTENSIONS }],
+    }
+    const result = win ? await dialog.showOpenDialog(win, openOptions) : await dialog.showOpenDialog(openOptions)
+    if (result.canceled || result.filePaths.length === 0) return null
+
+    return sessionManager.importSessions(workspaceId, result.filePaths)
+  })
+
+  // Send a processing error to the renderer so the user sees it (route to correct window),
+  // followed by a complete event to clear processing state
+  const sendProcessingError = (callingWorkspaceId: string | null, sessionId: string, err: unknown) => {
+    const window = callingWorkspaceId
+      ? windowManager.getWindowByWorkspace(callingWorkspaceId)
+      : BrowserWindow.getFocusedWindow() || BrowserWindow.getAllWindows()[0]
+    // Check mainFrame - it becomes null when render frame is disposed
+    if (window && !window.isDestroyed() && !window.webContents.isDestroyed() && window.webContents.mainFrame) {
+      window.webContents.send(IPC_CHANNELS.SESSION_EVENT, {
+        type: 'error',
+        sessionId,
+        error: err instanceof Error ? err.message : 'Unknown error'
+      })
+      window.webContents.send(IPC_CHANNELS.SESSION_EVENT, {
+        type: 'complete',
+        sessionId
+      })
+    }
+  }
+
   // Send a message to a session (with optional file attachments)
   // Note: We intentionally don't await here - the response is streamed via events.
   // The IPC handler returns immediately, and results come through SESSION_EVENT channel.
@@ -271,28 +449,23 @@ export function registerIpcHandlers(sessionManager: SessionManager, windowManage
     // Start processing in background, errors are sent via event stream
     sessionManager.sendMessage(sessionId, message, attachments, storedAttachments, options).catch(err => {
       ipcLog.error('Error in sendMessage:', err)
-      // Send error to renderer so user sees it (route to correct window)
-      const window = callingWorkspaceId
-        ? windowManager.getWindowByWorkspace(callingWorkspaceId)
-        : BrowserWindow.getFocusedWindow() || BrowserWindow.getAllWindows()[0]
-      // Check mainFrame - it becomes null when render frame is disposed
-      if (window && !window.isDestroyed() && !window.webContents.isDestroyed() && window.webContents.mainFrame) {
-        window.webContents.send(IPC_CHANNELS.SESSION_EVENT, {
-          type: 'error',
-          sessionId,
-          error: err instanceof Error ? err.message : 'Unknown error'
-        })
-        // Also send complete event to clear processing state
-        window.webContents.send(IPC_CHANNELS.SESSION_EVENT, {
-          type: 'complete',
-          sessionId
-        })
-      }
+      sendProcessingError(callingWorkspaceId, sessionId, err)
     })
     // Return immediately - streaming results come via SESSION_EVENT
     return { started: true }
   })
 
+  // Edit a previous user message and re-run from it
+  // Like SEND_MESSAGE, returns immediately - results and errors come through SESSION_EVENT
+  ipcMain.handle(IPC_CHANNELS.EDIT_MESSAGE, async (event, sessionId: string, messageId: string, content: string) => {
+    const callingWorkspaceId = windowManager.getWorkspaceForWindow(event.sender.id)
+
+    sessionManager.editMessage(sessionId, messageId, content).catch(err => {
+      ipcLog.error('Error in editMessage:', err)
+      sendProcessingError(callingWorkspaceId, sessionId, err)
+    })
+  })
+
   // Cancel processing
   ipcMain.handle(IPC_CHANNELS.CANCEL_PROCESSING, async (_event, sessionId: string, silent?: boolean) => {
     return sessionManager.cancelProcessing(sessionId, silent)
@@ -316,7 +489,7 @@ export function registerIpcHandlers(sessionManager: SessionManager, windowManage
 
   // Respond to a permission request (bash command approval)
   // Returns true if the response was delivered, false if agent/session is gone
-  ipcMain.handle(IPC_CHANNELS.RESPOND_TO_PERMISSION, async (_event, sessionId: string, requestId: string, allowed: boolean, alwaysAllow: boolean) => {
+  ipcMain.handle(IPC_CHANNELS.RESPOND_TO_PERMISSION, async (_event, sessionId: string, requestId: string, allowed: boolean, alwaysAllow: AlwaysAllowScope | false) => {
     return sessionManager.respondToPermission(sessionId, requestId, allowed, alwaysAllow)
   })
 
@@ -360,6 +533,8 @@ export function registerIpcHandlers(sessionManager: SessionManager, windowManage
           throw new Error(`Invalid thinking level: ${command.level}. Valid values: 'off', 'think', 'max'`)
         }
         return sessionManager.setSessionThinkingLevel(sessionId, command.level)
+      case 'setProviderProfile':
+        return sessionManager.setSessionProviderProfile(sessionId, command.profileId)
       case 'updateWorkingDirectory':
         return sessionManager.updateWorkingDirectory(sessionId, command.dir)
       case 'setSources':
@@ -379,7 +554,7 @@ export function registerIpcHandlers(sessionManager: SessionManager, windowManage
         return sessionPath ? { success: true, path: sessionPath } : { success: false }
       }
       case 'shareToViewer':
-        return sessionManager.shareToViewer(sessionId)
+        return sessionManager.shareToViewer(sessionId, command.options)
       case 'updateShare':
         return sessionManager.updateShare(sessionId)
       case 'revokeShare':
@@ -1443,7 +1618,8 @@ export function registerIpcHandlers(sessionManager: SessionManager, windowManage
     }
 
     // Load workspace config
-    const { loadWorkspaceConfig } = await import('@craft-agent/shared/workspaces')
+    const { loadWorkspaceConfig, getWorkspaceSpend } = await import('@craft-agent/shared/workspaces')
+    const { findSandboxExecutable } = await import('@craft-agent/shared/agent')
     const config = loadWorkspaceConfig(workspace.rootPath)
 
     return {
@@ -1452,18 +1628,24 @@ export function registerIpcHandlers(sessionManager: SessionManager, windowManage
       permissionMode: config?.defaults?.permissionMode,
       cyclablePermissionModes: config?.defaults?.cyclablePermissionModes,
       thinkingLevel: config?.defaults?.thinkingLevel,
+      providerProfileId: config?.defaults?.providerProfileId,
       workingDirectory: config?.defaults?.workingDirectory,
       localMcpEnabled: config?.localMcpServers?.enabled ?? true,
+      budgets: config?.budgets,
+      budgetSpend: getWorkspaceSpend(workspace.rootPath),
+      viewerUrl: config?.viewerUrl,
+      bashSandbox: config?.bashSandbox,
+      sandboxAvailable: findSandboxExecutable() !== null,
     }
   })
 
   // Update a workspace setting
-  // Valid keys: 'name', 'model', 'enabledSourceSlugs', 'permissionMode', 'cyclablePermissionModes', 'thinkingLevel', 'workingDirectory', 'localMcpEnabled'
+  // Valid keys: 'name', 'model', 'enabledSourceSlugs', 'permissionMode', 'cyclablePermissionModes', 'thinkingLevel', 'providerProfileId', 'workingDirectory', 'localMcpEnabled', 'budgets', 'viewerUrl', 'bashSandbox'
   ipcMain.handle(IPC_CHANNELS.WORKSPACE_SETTINGS_UPDATE, async (_event, workspaceId: string, key: string, value: unknown) => {
     const workspace = getWorkspaceOrThrow(workspaceId)
 
     // Validate key is a known workspace setting
-    const validKeys = ['name', 'model', 'enabledSourceSlugs', 'permissionMode', 'cyclablePermissionModes', 'thinkingLevel', 'workingDirectory', 'localMcpEnabled']
+    const validKeys = ['name', 'model', 'enabledSourceSlugs', 'permissionMode', 'cyclablePermissionModes', 'thinkingLevel', 'providerProfileId', 'workingDirectory', 'localMcpEnabled', 'budgets', 'viewerUrl', 'bashSandbox']
     if (!validKeys.includes(key)) {
       throw new Error(`Invalid workspace setting key: ${key}. Valid keys: ${validKeys.join(', ')}`)
     }
@@ -1481,6 +1663,19 @@ export function registerIpcHandlers(sessionManager: SessionManager, windowManage
       // Store in localMcpServers.enabled (top-level, not in defaults)
       config.localMcpServers = config.localMcpServers || { enabled: true }
       config.localMcpServers.enabled = Boolean(value)
+    } else if (key === 'budgets') {
+      // Stored top-level (not in defaults); undefined clears all budgets
+      config.budgets = value as BudgetsConfig | undefined
+    } else if (key === 'viewerUrl') {
+      // Stored top-level; empty clears back to the hosted viewer
+      const viewerUrl = typeof value === 'string' ? value.trim() : ''
+      if (viewerUrl && !/^https?:\/\//i.test(viewerUrl)) {
+        throw new Error('Viewer URL must start with http:// or https://')
+      }
+      config.viewerUrl = viewerUrl || undefined
+    } else if (key === 'bashSandbox') {
+      // Stored top-level; undefined disables the sandbox
+      config.bashSandbox = value as BashSandboxConfig | undefined
     } else {
       // Update the setting in defaults
       config.defaults = config.defaults || {}
@@ -1556,7 +1751,7 @@ export function registerIpcHandlers(sessionManager: SessionManager, windowManage
 
     for (const entry of entries) {
       // Skip internal and hidden files
-      if (entry.name === 'session.jsonl' || entry.name.startsWith('.')) continue
+      if (entry.name === 'session.jsonl' || entry.name === PERMISSION_AUDIT_FILE || entry.name.startsWith('.')) continue
 
       const fullPath = join(dirPath, entry.name)
 
@@ -1629,7 +1824,7 @@ export function registerIpcHandlers(sessionManager: SessionManager, windowManage
       const { watch } = await import('fs')
       sessionFileWatcher = watch(sessionPath, { recursive: true }, (eventType, filename) => {
         // Ignore internal files and hidden files
-        if (filename && (filename.includes('session.jsonl') || filename.startsWith('.'))) {
+        if (filename && (filename.includes('session.jsonl') || filename === PERMISSION_AUDIT_FILE || filename.startsWith('.'))) {
           return
         }
 
@@ -1699,6 +1894,17 @@ export function registerIpcHandlers(sessionManager: SessionManager, windowManage
     }
   })
 
+  // Get permission decisions from the audit log (most recent last)
+  ipcMain.handle(IPC_CHANNELS.GET_PERMISSION_AUDIT, async (_event, sessionId: string, scope: PermissionAuditScope) => {
+    const workspaceRootPath = sessionManager.getSessionWorkspaceRootPath(sessionId)
+    if (!workspaceRootPath) return []
+
+    const { loadSessionPermissionAudit, loadWorkspacePermissionAudit } = await import('@craft-agent/shared/agent')
+    return scope === 'workspace'
+      ? loadWorkspacePermissionAudit(workspaceRootPath, PERMISSION_AUDIT_LIMIT)
+      : loadSessionPermissionAudit(workspaceRootPath, sessionId, PERMISSION_AUDIT_LIMIT)
+  })
+
   // Preview windows removed - now using in-app overlays (see ChatDisplay.tsx)
 
   // ============================================================
@@ -1856,107 +2062,187 @@ export function registerIpcHandlers(sessionManager: SessionManager, windowManage
     }
   })
 
+  // Get "always allow" rules saved from permission prompts (workspace + app-level)
+  ipcMain.handle(IPC_CHANNELS.ALWAYS_ALLOW_RULES_GET, async (_event, workspaceId: string): Promise<AlwaysAllowRules> => {
+    const { loadWorkspacePermissionsConfig, loadAppAlwaysAllowRules } = await import('@craft-agent/shared/agent')
+    const workspace = getWorkspaceByNameOrId(workspaceId)
+
+    return {
+      workspace: workspace ? loadWorkspacePermissionsConfig(workspace.rootPath)?.alwaysAllow ?? [] : [],
+      global: loadAppAlwaysAllowRules(),
+    }
+  })
+
+  // Revoke a saved "always allow" rule
+  ipcMain.handle(IPC_CHANNELS.ALWAYS_ALLOW_RULES_REVOKE, async (_event, workspaceId: string, scope: Exclude<AlwaysAllowScope, 'session'>, rule: AlwaysAllowRule) => {
+    const workspace = getWorkspaceByNameOrId(workspaceId)
+    if (!workspace) throw new Error('Workspace not found')
+
+    const { removeAlwaysAllowRule } = await import('@craft-agent/shared/agent')
+    const removed = removeAlwaysAllowRule(scope, workspace.rootPath, rule)
+    ipcLog.info(`Revoked ${scope} always-allow rule ${rule.type} ${rule.pattern}: ${removed}`)
+    return removed
+  })
+
   // Get MCP tools for a source with permission status
   ipcMain.handle(IPC_CHANNELS.SOURCES_GET_MCP_TOOLS, async (_event, workspaceId: string, sourceSlug: string) => {
     const workspace = getWorkspaceByNameOrId(workspaceId)
     if (!workspace) return { success: false, error: 'Workspace not found' }
 
     try {
-      // Load source config
-      const sources = await loadWorkspaceSources(workspace.rootPath)
-      const source = sources.find(s => s.config.slug === sourceSlug)
+      const {
+        loadSource,
+        getSourceServerBuilder,
+        listInProcessTools,
+        isSourceToolEnabled,
+        estimateToolSchemaTokens,
+        getSourceToolName,
+      } = await import('@craft-agent/shared/sources')
+      const source = loadSource(workspace.rootPath, sourceSlug)
       if (!source) return { success: false, error: 'Source not found' }
-      if (source.config.type !== 'mcp') return { success: false, error: 'Source is not an MCP server' }
-      if (!source.config.mcp) return { success: false, error: 'MCP config not found' }
-
-      // Check connection status
-      if (source.config.connectionStatus === 'needs_auth') {
-        return { success: false, error: 'Source requires authentication' }
-      }
-      if (source.config.connectionStatus === 'failed') {
-        return { success: false, error: source.config.connectionError || 'Connection failed' }
-      }
-      if (source.config.connectionStatus === 'untested') {
-        return { success: false, error: 'Source has not been tested yet' }
-      }
 
-      // Create unified MCP client for both stdio and HTTP transports
-      const { CraftMcpClient } = await import('@craft-agent/shared/mcp')
-      let client: InstanceType<typeof CraftMcpClient>
+      let tools: Awaited<ReturnType<typeof listInProcessTools>>
+      if (source.config.type === 'mcp') {
+        const connection = await createSourceMcpClient(workspace, sourceSlug)
+        if ('error' in connection) return { success: false, error: connection.error }
+        const { client } = connection
 
-      if (source.config.mcp.transport === 'stdio') {
-        // Stdio transport - spawn local MCP server process
-        if (!source.config.mcp.command) {
-          return { success: false, error: 'Stdio MCP source is missing required "command" field' }
-        }
-        ipcLog.info(`Fetching MCP tools via stdio: ${source.config.mcp.command}`)
-        client = new CraftMcpClient({
-          transport: 'stdio',
-          command: source.config.mcp.command,
-          args: source.config.mcp.args,
-          env: source.config.mcp.env,
-        })
+        // Both transports now return full Tool[] with descriptions
+        tools = await client.listTools()
+        await client.close()
       } else {
-        // HTTP/SSE transport - connect to remote MCP server
-        if (!source.config.mcp.url) {
-          return { success: false, error: 'MCP source URL is required for HTTP/SSE transport' }
-        }
-
-        let accessToken: string | undefined
-        if (source.config.mcp.authType === 'oauth' || source.config.mcp.authType === 'bearer') {
-          const credentialManager = getCredentialManager()
-          const credentialId = source.config.mcp.authType === 'oauth'
-            ? { type: 'source_oauth' as const, workspaceId: source.workspaceId, sourceId: sourceSlug }
-            : { type: 'source_bearer' as const, workspaceId: source.workspaceId, sourceId: sourceSlug }
-          const credential = await credentialManager.get(credentialId)
-          accessToken = credential?.value
-        }
-
-        ipcLog.info(`Fetching MCP tools from ${source.config.mcp.url}`)
-        client = new CraftMcpClient({
-          transport: 'http',
-          url: source.config.mcp.url,
-          headers: accessToken ? { Authorization: `Bearer ${accessToken}` } : undefined,
-        })
+        // API and local sources run in-process - list tools without credentials
+        const server = getSourceServerBuilder().buildServerForToolListing(source)
+        tools = server ? await listInProcessTools(server) : []
       }
 
-      // Both transports now return full Tool[] with descriptions
-      const tools = await client.listTools()
-      await client.close()
-
       // Load permissions patterns
-      const { loadSourcePermissionsConfig, permissionsConfigCache } = await import('@craft-agent/shared/agent')
+      const { loadSourcePermissionsConfig, permissionsConfigCache, shouldAllowToolInMode } = await import('@craft-agent/shared/agent')
       const permissionsConfig = loadSourcePermissionsConfig(workspace.rootPath, sourceSlug)
 
       // Get merged permissions config
-      const mergedConfig = permissionsConfigCache.getMergedConfig({
+      const permissionsContext = {
         workspaceRootPath: workspace.rootPath,
         activeSourceSlugs: [sourceSlug],
-      })
+      }
+      const mergedConfig = permissionsConfigCache.getMergedConfig(permissionsContext)
 
       // Check each tool against permissions patterns
       const toolsWithPermission = tools.map(tool => {
-        // Check if tool matches any allowed pattern
-        const allowed = mergedConfig.readOnlyMcpPatterns.some((pattern: RegExp) => pattern.test(tool.name))
+        // MCP tools: check if tool matches any allowed pattern.
+        // In-process tools have built-in rules, so ask the mode manager.
+        const allowed = source.config.type === 'mcp'
+          ? mergedConfig.readOnlyMcpPatterns.some((pattern: RegExp) => pattern.test(tool.name))
+          : shouldAllowToolInMode(getSourceToolName(sourceSlug, tool.name), {}, 'safe', { permissionsContext }).allowed
         return {
           name: tool.name,
           description: tool.description,
           allowed,
+          enabled: isSourceToolEnabled(source.config, tool.name),
+          tokens: estimateToolSchemaTokens(tool),
         }
       })
 
       return { success: true, tools: toolsWithPermission }
     } catch (error) {
       ipcLog.error('Failed to get MCP tools:', error)
-      const errorMessage = error instanceof Error ? error.message : 'Failed to fetch tools'
-      // Provide more helpful error messages
-      if (errorMessage.includes('404')) {
-        return { success: false, error: 'MCP server endpoint not found. The server may be offline or the URL may be incorrect.' }
+      return { success: false, error: getMcpErrorMessage(error, 'Failed to fetch tools') }
+    }
+  })
+
+  // Enable or disable one of a source's tools (applied when servers are next built)
+  ipcMain.handle(IPC_CHANNELS.SOURCES_SET_TOOL_ENABLED, async (_event, workspaceId: string, sourceSlug: string, toolName: string, enabled: boolean) => {
+    const workspace = getWorkspaceByNameOrId(workspaceId)
+    if (!workspace) throw new Error(`Workspace not found: ${workspaceId}`)
+    const { setSourceToolEnabled } = await import('@craft-agent/shared/sources')
+    if (!setSourceToolEnabled(workspace.rootPath, sourceSlug, toolName, enabled)) {
+      throw new Error(`Source not found: ${sourceSlug}`)
+    }
+  })
+
+  // Get MCP resources and prompt templates for a source
+  ipcMain.handle(IPC_CHANNELS.SOURCES_GET_MCP_CATALOG, async (_event, workspaceId: string, sourceSlug: string) => {
+    const workspace = getWorkspaceByNameOrId(workspaceId)
+    if (!workspace) return { success: false, error: 'Workspace not found' }
+
+    try {
+      const connection = await createSourceMcpClient(workspace, sourceSlug)
+      if ('error' in connection) return { success: false, error: connection.error }
+      const { client } = connection
+
+      try {
+        const [resources, prompts] = await Promise.all([client.listResources(), client.listPrompts()])
+        return {
+          success: true,
+          resources: resources.map(resource => ({
+            uri: resource.uri,
+            name: resource.title || resource.name,
+            description: resource.description,
+            mimeType: resource.mimeType,
+          })),
+          prompts: prompts.map(prompt => ({
+            name: prompt.name,
+            title: prompt.title,
+            description: prompt.description,
+            arguments: prompt.arguments?.map(arg => ({ name: arg.name, description: arg.description, required: arg.required })),
+          })),
+        }
+      } finally {
+        await client.close()
       }
-      if (errorMessage.includes('401') || errorMessage.includes('403')) {
-        return { success: false, error: 'Authentication failed. Please re-authenticate with this source.' }
+    } catch (error) {
+      ipcLog.error('Failed to get MCP resources and prompts:', error)
+      return { success: false, error: getMcpErrorMessage(error, 'Failed to fetch resources and prompts') }
+    }
+  })
+
+  // Read an MCP resource (attached to a message as context)
+  ipcMain.handle(IPC_CHANNELS.SOURCES_READ_MCP_RESOURCE, async (_event, workspaceId: string, sourceSlug: string, uri: string) => {
+    const workspace = getWorkspaceByNameOrId(workspaceId)
+    if (!workspace) return { success: false, error: 'Workspace not found' }
+
+    try {
+      const connection = await createSourceMcpClient(workspace, sourceSlug)
+      if ('error' in connection) return { success: false, error: connection.error }
+      const { client } = connection
+
+      try {
+        const result = await client.readResource(uri)
+        const { formatResourceContents } = await import('@craft-agent/shared/mcp')
+        const [first] = result.contents
+        // A single image is attached as an image, everything else as text
+        if (result.contents.length === 1 && first && 'blob' in first && first.mimeType?.startsWith('image/')) {
+          return { success: true, mimeType: first.mimeType, base64: first.blob as string }
+        }
+        return { success: true, mimeType: first?.mimeType ?? 'text/plain', text: formatResourceContents(result) }
+      } finally {
+        await client.close()
       }
-      return { success: false, error: errorMessage }
+    } catch (error) {
+      ipcLog.error('Failed to read MCP resource:', error)
+      return { success: false, error: getMcpErrorMessage(error, 'Failed to read resource') }
+    }
+  })
+
+  // Render an MCP prompt template to text for the chat input
+  ipcMain.handle(IPC_CHANNELS.SOURCES_GET_MCP_PROMPT, async (_event, workspaceId: string, sourceSlug: string, name: string, args: Record<string, string>) => {
+    const workspace = getWorkspaceByNameOrId(workspaceId)
+    if (!workspace) return { success: false, error: 'Workspace not found' }
+
+    try {
+      const connection = await createSourceMcpClient(workspace, sourceSlug)
+      if ('error' in connection) return { success: false, error: connection.error }
+      const { client } = connection
+
+      try {
+        const { formatPromptMessages } = await import('@craft-agent/shared/mcp')
+        return { success: true, text: formatPromptMessages(await client.getPrompt(name, args)) }
+      } finally {
+        await client.close()
+      }
+    } catch (error) {
+      ipcLog.error('Failed to get MCP prompt:', error)
+      return { success: false, error: getMcpErrorMessage(error, 'Failed to get prompt') }
     }
   })
 
@@ -2191,6 +2477,81 @@ export function registerIpcHandlers(sessionManager: SessionManager, windowManage
     windowManager.broadcastToAll(IPC_CHANNELS.LABELS_CHANGED, workspaceId)
   })
 
+  // List schedules for a workspace (cron-triggered prompts stored in schedules.json)
+  ipcMain.handle(IPC_CHANNELS.SCHEDULES_LIST, async (_event, workspaceId: string) => {
+    const workspace = getWorkspaceOrThrow(workspaceId)
+    const { listSchedules } = await import('@craft-agent/shared/schedules/storage')
+    return listSchedules(workspace.rootPath)
+  })
+
+  // Save schedules (replaces full array). Rejects invalid definitions so bad cron strings never reach the runner.
+  ipcMain.handle(IPC_CHANNELS.SCHEDULES_SAVE, async (_event, workspaceId: string, schedules: import('@craft-agent/shared/schedules').ScheduleConfig[]) => {
+    const workspace = getWorkspaceOrThrow(workspaceId)
+    const { validateSchedule } = await import('@craft-agent/shared/schedules')
+    for (const schedule of schedules) {
+      const errors = validateSchedule(schedule)
+      if (errors.length > 0) {
+        throw new Error(`Schedule "${schedule.name || schedule.id}": ${errors.join('; ')}`)
+      }
+    }
+    const { saveSchedules } = await import('@craft-agent/shared/schedules/storage')
+    saveSchedules(workspace.rootPath, schedules)
+  })
+
+  // Run a schedule immediately (spawns a session, returns the started run)
+  ipcMain.handle(IPC_CHANNELS.SCHEDULES_RUN_NOW, async (_event, workspaceId: string, scheduleId: string) => {
+    const { runScheduleNow } = await import('./scheduler')
+    return runScheduleNow(workspaceId, scheduleId)
+  })
+
+  // Run history (newest first), optionally filtered to one schedule
+  ipcMain.handle(IPC_CHANNELS.SCHEDULES_HISTORY, async (_event, workspaceId: string, scheduleId?: string, limit?: number) => {
+    const workspace = getWorkspaceOrThrow(workspaceId)
+    const { listScheduleRuns } = await import('@craft-agent/shared/schedules/storage')
+    return listScheduleRuns(workspace.rootPath, scheduleId, limit)
+  })
+
+  // Usage records for one workspace (or all), built from session headers only
+  const collectUsageRecords = async (workspaceId: string, options?: UsageQueryOptions) => {
+    const { listSessions } = await import('@craft-agent/shared/sessions')
+    const { buildUsageRecords } = await import('@craft-agent/shared/analytics')
+    // Pending writes hold the latest turn's usage
+    await sessionManager.flushAllSessions()
+    const workspaces = options?.allWorkspaces
+      ? sessionManager.getWorkspaces()
+      : [getWorkspaceOrThrow(workspaceId)]
+    return workspaces.flatMap(ws =>
+      buildUsageRecords(listSessions(ws.rootPath), { id: ws.id, name: ws.name })
+    )
+  }
+
+  // Aggregated usage report (totals plus breakdowns by day, model, label, status, source)
+  ipcMain.handle(IPC_CHANNELS.USAGE_REPORT, async (_event, workspaceId: string, options?: UsageQueryOptions) => {
+    const { aggregateUsage } = await import('@craft-agent/shared/analytics')
+    const records = await collectUsageRecords(workspaceId, options)
+    return aggregateUsage(records, { from: options?.from, to: options?.to })
+  })
+
+  // Export usage records in range as CSV via save dialog
+  ipcMain.handle(IPC_CHANNELS.USAGE_EXPORT_CSV, async (event, workspaceId: string, options?: UsageQueryOptions) => {
+    const { usageRecordsToCsv } = await import('@craft-agent/shared/analytics')
+    const records = (await collectUsageRecords(workspaceId, options))
+      .filter(r => (!options?.from || r.date >= options.from) && (!options?.to || r.date <= options.to))
+
+    const win = BrowserWindow.fromWebContents(event.sender)
+    const saveOptions = {
+      title: 'Export Usage',
+      defaultPath: join(app.getPath('downloads'), `usage-${options?.from ?? 'all'}-${options?.to ?? 'today'}.csv`),
+      filters: [{ name: 'CSV', extensions: ['csv'] }],
+    }
+    const result = win ? await dialog.showSaveDialog(win, saveOptions) : await dialog.showSaveDialog(saveOptions)
+    if (result.canceled || !result.filePath) return null
+
+    await writeFile(result.filePath, usageRecordsToCsv(records), 'utf-8')
+    ipcLog.info(`Exported ${records.length} usage records to ${result.filePath}`)
+    return result.filePath
+  })
+
   // Generic workspace image loading (for source icons, status icons, etc.)
   ipcMain.handle(IPC_CHANNELS.WORKSPACE_READ_IMAGE, async (_event, workspaceId: string, relativePath: string) => {
     const workspace = getWorkspaceByNameOrId(workspaceId)
@@ -2473,6 +2834,79 @@ export function registerIpcHandlers(sessionManager: SessionManager, windowManage
     }
   })
 
+  // ============================================================
+  // Local Control API
+  // ============================================================
+
+  ipcMain.handle(IPC_CHANNELS.CONTROL_API_GET_STATUS, async () => {
+    const { getControlApiStatus } = await import('./control-api')
+    return getControlApiStatus()
+  })
+
+  ipcMain.handle(IPC_CHANNELS.CONTROL_API_SET_ENABLED, async (_event, enabled: boolean) => {
+    const { setControlApiEnabled } = await import('./control-api')
+    return setControlApiEnabled(enabled)
+  })
+
+  ipcMain.handle(IPC_CHANNELS.CONTROL_API_REGENERATE_TOKEN, async () => {
+    const { regenerateControlApiToken } = await import('./control-api')
+    return regenerateControlApiToken()
+  })
+
+  // ============================================================
+  // Provider Profiles
+  // ============================================================
+
+  const getProviderProfilesState = async (): Promise<ProviderProfilesState> => {
+    const { getProviderProfiles, getDefaultProviderProfileId, getProviderFallbackChain, hasProviderProfileApiKey } = await import('@craft-agent/shared/config')
+    const profiles = await Promise.all(getProviderProfiles().map(async profile => ({
+      ...profile,
+      hasApiKey: await hasProviderProfileApiKey(profile.id),
+    })))
+    return {
+      profiles,
+      defaultProfileId: getDefaultProviderProfileId(),
+      fallbackChain: getProviderFallbackChain(),
+    }
+  }
+
+  ipcMain.handle(IPC_CHANNELS.PROVIDER_PROFILES_GET, async () => {
+    return getProviderProfilesState()
+  })
+
+  // apiKey: string to store, null to clear, undefined to keep the stored key
+  ipcMain.handle(IPC_CHANNELS.PROVIDER_PROFILES_SAVE, async (_event, profile: ProviderProfile, apiKey?: string | null) => {
+    const { saveProviderProfile, setProviderProfileApiKey } = await import('@craft-agent/shared/config')
+    saveProviderProfile(profile)
+    if (apiKey !== undefined) {
+      await setProviderProfileApiKey(profile.id, apiKey)
+    }
+    ipcLog.info(`Provider profile saved: ${profile.id} (${profile.kind})`)
+    return getProviderProfilesState()
+  })
+
+  ipcMain.handle(IPC_CHANNELS.PROVIDER_PROFILES_DELETE, async (_event, profileId: string) => {
+    const { deleteProviderProfile } = await import('@craft-agent/shared/config')
+    await deleteProviderProfile(profileId)
+    ipcLog.info(`Provider profile deleted: ${profileId}`)
+    return getProviderProfilesState()
+  })
+
+  ipcMain.handle(IPC_CHANNELS.PROVIDER_PROFILES_SET_DEFAULT, async (_event, profileId: string | null) => {
+    const { getProviderProfile, setDefaultProviderProfileId } = await import('@craft-agent/shared/config')
+    if (profileId && !getProviderProfile(profileId)) {
+      throw new Error(`Unknown provider profile: ${profileId}`)
+    }
+    setDefaultProviderProfileId(profileId)
+    return getProviderProfilesState()
+  })
+
+  ipcMain.handle(IPC_CHANNELS.PROVIDER_PROFILES_SET_FALLBACK_CHAIN, async (_event, profileIds: string[]) => {
+    const { setProviderFallbackChain } = await import('@craft-agent/shared/config')
+    setProviderFallbackChain(profileIds)
+    return getProviderProfilesState()
+  })
+
   // Get auto-capitalisation setting
   ipcMain.handle(IPC_CHANNELS.INPUT_GET_AUTO_CAPITALISATION, async () => {
     const { getAutoCapitalisation } = await import('@craft-agent/shared/config/storage')
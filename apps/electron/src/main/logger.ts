@@ -47,6 +47,9 @@ export const ipcLog = log.scope('ipc')
 export const windowLog = log.scope('window')
 export const agentLog = log.scope('agent')
 export const searchLog = log.scope('search')
+export const schedulerLog = log.scope('scheduler')
+export const sourceHealthLog = log.scope('source-health')
+export const controlApiLog = log.scope('control-api')
 
 /**
  * Get the path to the current log file.
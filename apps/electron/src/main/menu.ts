@@ -104,6 +104,11 @@ export async function rebuildMenu(): Promise<void> {
           }
         },
         { type: 'separator' as const },
+        {
+          label: 'Import Conversations…',
+          click: () => sendToRenderer(IPC_CHANNELS.MENU_IMPORT_CONVERSATIONS)
+        },
+        { type: 'separator' as const },
         isMac ? { role: 'close' as const } : { role: 'quit' as const }
       ]
     },
@@ -12,6 +12,7 @@ import { join } from 'path'
 import { readFileSync } from 'fs'
 import { mainLog } from './logger'
 import type { WindowManager } from './window-manager'
+import { handleDeepLink } from './deep-link'
 
 let windowManager: WindowManager | null = null
 let baseIconPath: string | null = null
@@ -63,6 +64,43 @@ export function showNotification(
   mainLog.info('Notification shown:', { title, sessionId })
 }
 
+/**
+ * Show a native notification about a source (e.g. it needs re-authentication)
+ *
+ * Clicking it opens the source's page in the workspace.
+ *
+ * @param title - Notification title
+ * @param body - Notification body
+ * @param workspaceId - Workspace ID for navigation
+ * @param sourceSlug - Source slug for navigation
+ */
+export function showSourceNotification(
+  title: string,
+  body: string,
+  workspaceId: string,
+  sourceSlug: string
+): void {
+  if (!Notification.isSupported()) {
+    mainLog.info('Notifications not supported on this platform')
+    return
+  }
+
+  const notification = new Notification({ title, body, silent: false })
+
+  notification.on('click', () => {
+    mainLog.info('Source notification clicked:', { workspaceId, sourceSlug })
+    if (!windowManager) {
+      mainLog.error('WindowManager not initialized for notification click')
+      return
+    }
+    handleDeepLink(`craftagents://workspace/${workspaceId}/sources/source/${sourceSlug}`, windowManager)
+      .catch(error => mainLog.error('Failed to open source from notification:', error))
+  })
+
+  notification.show()
+  mainLog.info('Source notification shown:', { title, sourceSlug })
+}
+
 /**
  * Handle notification click - focus window and navigate to session
  */
@@ -0,0 +1,225 @@
+/**
+ * Schedule Runner
+ *
+ * Fires workspace schedules (schedules.json) on their cron triggers.
+ * - Checks all workspaces once per minute (aligned to the wall clock)
+ * - Each run spawns a new session via SessionManager.createSession + sendMessage
+ *   with the schedule's model, permission mode, sources and labels
+ * - Records every run in the workspace's schedule history
+ * - Skips a trigger while the previous run of the same schedule is still active
+ * - Refuses to run schedules in 'ask' mode (prompts would wait forever)
+ * - On startup, marks runs left as running by a previous app instance as failed
+ */
+
+import { randomUUID } from 'crypto'
+import { getWorkspaces, getWorkspaceByNameOrId } from '@craft-agent/shared/config'
+import { parseCronExpression, cronMatches, SCHEDULE_PERMISSION_MODES, type ScheduleConfig, type ScheduleRun, type ScheduleRunTrigger } from '@craft-agent/shared/schedules'
+import { listSchedules, getSchedule, recordScheduleRun, failInterruptedScheduleRuns } from '@craft-agent/shared/schedules/storage'
+import { schedulerLog } from './logger'
+import type { SessionManager } from './sessions'
+
+let sessionManager: SessionManager | null = null
+let tickTimer: ReturnType<typeof setTimeout> | null = null
+
+// Active runs keyed by `${workspaceId}:${scheduleId}` (prevents overlapping runs)
+const activeRuns = new Map<string, string>()
+// Last minute (ms, floored) each schedule fired for - guards against double-firing on timer drift
+const lastFiredMinute = new Map<string, number>()
+
+const MINUTE_MS = 60_000
+
+/**
+ * Start the schedule runner. Safe to call once after SessionManager.initialize().
+ */
+export function initScheduler(sm: SessionManager): void {
+  sessionManager = sm
+
+  for (const workspace of getWorkspaces()) {
+    try {
+      const count = failInterruptedScheduleRuns(workspace.rootPath)
+      if (count > 0) {
+        schedulerLog.info(`Marked ${count} interrupted schedule run(s) as failed in workspace ${workspace.id}`)
+      }
+    } catch (error) {
+      schedulerLog.warn(`Failed to update schedule history for workspace ${workspace.id}:`, error)
+    }
+  }
+
+  scheduleNextTick()
+  schedulerLog.info('Schedule runner started')
+}
+
+/**
+ * Stop the schedule runner (app quit). Runs already in progress are not aborted.
+ */
+export function stopScheduler(): void {
+  if (tickTimer) {
+    clearTimeout(tickTimer)
+    tickTimer = null
+  }
+  sessionManager = null
+}
+
+/**
+ * Run a schedule immediately, regardless of its trigger or enabled state.
+ * Resolves once the run has been recorded as started (does not wait for the agent).
+ */
+export async function runScheduleNow(workspaceId: string, scheduleId: string): Promise<ScheduleRun> {
+  const workspace = getWorkspaceByNameOrId(workspaceId)
+  if (!workspace) {
+    throw new Error(`Workspace ${workspaceId} not found`)
+  }
+  const schedule = getSchedule(workspace.rootPath, scheduleId)
+  if (!schedule) {
+    throw new Error(`Schedule ${scheduleId} not found`)
+  }
+  return startRun(workspace.id, workspace.rootPath, schedule, 'manual')
+}
+
+function scheduleNextTick(): void {
+  // Fire shortly after the next minute boundary so Date.now() lands inside the new minute
+  const delay = MINUTE_MS - (Date.now() % MINUTE_MS) + 500
+  tickTimer = setTimeout(() => {
+    tick(new Date()).catch(error => schedulerLog.error('Schedule tick failed:', error))
+    scheduleNextTick()
+  }, delay)
+}
+
+async function tick(now: Date): Promise<void> {
+  if (!sessionManager) return
+  const minute = Math.floor(now.getTime() / MINUTE_MS) * MINUTE_MS
+
+  for (const workspace of getWorkspaces()) {
+    let schedules: ScheduleConfig[]
+    try {
+      schedules = listSchedules(workspace.rootPath)
+    } catch (error) {
+      schedulerLog.warn(`Failed to load schedules for workspace ${workspace.id}:`, error)
+      continue
+    }
+
+    for (const schedule of schedules) {
+      if (!schedule.enabled) continue
+
+      const key = `${workspace.id}:${schedule.id}`
+      if (lastFiredMinute.get(key) === minute) continue
+
+      try {
+        if (!cronMatches(parseCronExpression(schedule.cron), now)) continue
+      } catch (error) {
+        schedulerLog.warn(`Invalid cron "${schedule.cron}" for schedule ${schedule.id}:`, error)
+        continue
+      }
+
+      lastFiredMinute.set(key, minute)
+      startRun(workspace.id, workspace.rootPath, schedule, 'cron').catch(error => {
+        schedulerLog.error(`Failed to start schedule ${schedule.id}:`, error)
+      })
+    }
+  }
+}
+
+async function startRun(
+  workspaceId: string,
+  workspaceRootPath: string,
+  schedule: ScheduleConfig,
+  trigger: ScheduleRunTrigger
+): Promise<ScheduleRun> {
+  const key = `${workspaceId}:${schedule.id}`
+  const run: ScheduleRun = {
+    id: randomUUID(),
+    scheduleId: schedule.id,
+    scheduleName: schedule.name,
+    trigger,
+    status: 'running',
+    startedAt: Date.now(),
+  }
+
+  if (!sessionManager) {
+    run.status = 'failed'
+    run.finishedAt = Date.now()
+    run.error = 'Scheduler is not running'
+    recordScheduleRun(workspaceRootPath, run)
+    return run
+  }
+
+  // Schedules saved before 'ask' was refused (or edited by hand)
+  if (!SCHEDULE_PERMISSION_MODES.includes(schedule.permissionMode)) {
+    run.status = 'failed'
+    run.finishedAt = run.startedAt
+    run.error = `Schedules can't run in ${schedule.permissionMode} mode - choose Explore or Execute`
+    recordScheduleRun(workspaceRootPath, run)
+    schedulerLog.warn(`Not running schedule ${schedule.id}: unsupported permission mode ${schedule.permissionMode}`)
+    return run
+  }
+
+  if (activeRuns.has(key)) {
+    run.status = 'skipped'
+    run.finishedAt = run.startedAt
+    run.error = 'Previous run is still in progress'
+    recordScheduleRun(workspaceRootPath, run)
+    schedulerLog.info(`Skipping schedule ${schedule.id}: previous run still active`)
+    return run
+  }
+
+  activeRuns.set(key, run.id)
+  const sm = sessionManager
+
+  try {
+    const session = await sm.createSession(workspaceId, {
+      permissionMode: schedule.permissionMode,
+      model: schedule.model,
+      workingDirectory: schedule.workingDirectory,
+      labels: schedule.labels,
+    })
+    run.sessionId = session.id
+    recordScheduleRun(workspaceRootPath, run)
+    schedulerLog.info(`Running schedule ${schedule.id} (${trigger}) in session ${session.id} [${schedule.permissionMode}]`)
+
+    await sm.renameSession(session.id, schedule.name)
+    if (schedule.enabledSourceSlugs?.length) {
+      await sm.setSessionSources(session.id, schedule.enabledSourceSlugs)
+    }
+  } catch (error) {
+    activeRuns.delete(key)
+    run.status = 'failed'
+    run.finishedAt = Date.now()
+    run.error = error instanceof Error ? error.message : String(error)
+    recordScheduleRun(workspaceRootPath, run)
+    return run
+  }
+
+  // Let the turn run in the background; the history entry is updated when it ends
+  void completeRun(sm, workspaceRootPath, schedule, run, key)
+  return { ...run }
+}
+
+async function completeRun(
+  sm: SessionManager,
+  workspaceRootPath: string,
+  schedule: ScheduleConfig,
+  run: ScheduleRun,
+  key: string
+): Promise<void> {
+  try {
+    await sm.sendMessage(run.sessionId!, schedule.prompt)
+
+    // sendMessage reports agent failures as error messages rather than throwing
+    const session = await sm.getSession(run.sessionId!)
+    const lastMessage = session?.messages[session.messages.length - 1]
+    if (lastMessage?.role === 'error') {
+      run.status = 'failed'
+      run.error = lastMessage.content
+    } else {
+      run.status = 'completed'
+    }
+  } catch (error) {
+    run.status = 'failed'
+    run.error = error instanceof Error ? error.message : String(error)
+  } finally {
+    activeRuns.delete(key)
+    run.finishedAt = Date.now()
+    recordScheduleRun(workspaceRootPath, run)
+    schedulerLog.info(`Schedule ${schedule.id} finished: ${run.status}`)
+  }
+}
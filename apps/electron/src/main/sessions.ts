@@ -5,6 +5,7 @@ import { existsSync } from 'fs'
 import { rm, readFile } from 'fs/promises'
 import { CraftAgent, type AgentEvent, setPermissionMode, type PermissionMode, unregisterSessionScopedToolCallbacks, AbortReason, type AuthRequest, type AuthResult, type CredentialAuthRequest } from '@craft-agent/shared/agent'
 import { sessionLog, isDebugMode, getLogFilePath } from './logger'
+import { showNotification } from './notifications'
 import { createSdkMcpServer } from '@anthropic-ai/claude-agent-sdk'
 import type { WindowManager } from './window-manager'
 import {
@@ -16,7 +17,8 @@ import {
   resolveModelId,
   type Workspace,
 } from '@craft-agent/shared/config'
-import { loadWorkspaceConfig } from '@craft-agent/shared/workspaces'
+import { recordSessionUsage } from '@craft-agent/shared/analytics'
+import { loadWorkspaceConfig, evaluateBudget, addPendingSpend, formatBudgetStatus, getWorkspaceSpend, recordWorkspaceSpend, type BudgetStatus } from '@craft-agent/shared/workspaces'
 import {
   // Session persistence functions
   listSessions as listStoredSessions,
@@ -24,6 +26,8 @@ import {
   saveSession as saveStoredSession,
   createSession as createStoredSession,
   deleteSession as deleteStoredSession,
+  forkSession as forkStoredSession,
+  applyMessageEdit,
   updateSessionMetadata,
   setPendingPlanExecution as setStoredPendingPlanExecution,
   markCompactionComplete as markStoredCompactionComplete,
@@ -32,19 +36,22 @@ import {
   getSessionAttachmentsPath,
   getSessionPath as getSessionStoragePath,
   sessionPersistenceQueue,
+  createSessionHeader,
   type StoredSession,
   type StoredMessage,
   type SessionMetadata,
+  type SessionUsageEntry,
   type TodoState,
 } from '@craft-agent/shared/sessions'
-import { loadWorkspaceSources, loadAllSources, getSourcesBySlugs, type LoadedSource, type McpServerConfig, getSourcesNeedingAuth, getSourceCredentialManager, getSourceServerBuilder, type SourceWithCredential, isApiOAuthProvider, SERVER_BUILD_ERRORS } from '@craft-agent/shared/sources'
+import { importConversations, readImportFile, type ImportedConversation } from '@craft-agent/shared/sessions/import'
+import { loadWorkspaceSources, loadAllSources, getSourcesBySlugs, type LoadedSource, type McpServerConfig, getSourcesNeedingAuth, getSourceCredentialManager, getSourceServerBuilder, type SourceWithCredential, isApiOAuthSource, isObsidianLocalSource, closeVaultIndexes, closeVaultIndexesExcept, SERVER_BUILD_ERRORS } from '@craft-agent/shared/sources'
 import { ConfigWatcher, type ConfigWatcherCallbacks } from '@craft-agent/shared/config'
 import { getAuthState } from '@craft-agent/shared/auth'
 import { setAnthropicOptionsEnv, setPathToClaudeCodeExecutable, setInterceptorPath, setExecutable } from '@craft-agent/shared/agent'
 import { getCredentialManager } from '@craft-agent/shared/credentials'
 import { CraftMcpClient } from '@craft-agent/shared/mcp'
-import { type Session, type Message, type SessionEvent, type FileAttachment, type StoredAttachment, type SendMessageOptions, IPC_CHANNELS, generateMessageId } from '../shared/types'
-import { generateSessionTitle, regenerateSessionTitle, formatPathsToRelative, formatToolInputPaths, perf, encodeIconToDataUrl, getEmojiIcon, resetSummarizationClient, resolveToolIcon } from '@craft-agent/shared/utils'
+import { type Session, type SessionImportResult, type Message, type SessionEvent, type FileAttachment, type StoredAttachment, type SendMessageOptions, type AlwaysAllowScope, IPC_CHANNELS, generateMessageId } from '../shared/types'
+import { generateSessionTitle, regenerateSessionTitle, formatPathsToRelative, formatToolInputPaths, perf, encodeIconToDataUrl, getEmojiIcon, resetSummarizationClient, resolveToolIcon, readFileAttachment, type FileAttachment as AgentFileAttachment } from '@craft-agent/shared/utils'
 import { loadWorkspaceSkills, type LoadedSkill } from '@craft-agent/shared/skills'
 import type { ToolDisplayMeta } from '@craft-agent/core/types'
 import { DEFAULT_MODEL, getToolIconsDir } from '@craft-agent/shared/config'
@@ -96,11 +103,10 @@ async function buildServersFromSources(sources: LoadedSource[], sessionPath?: st
   )
   span.mark('credentials.loaded')
 
-  // Build token getter for OAuth sources (Google, Slack, Microsoft use OAuth)
+  // Build token getter for OAuth sources (Google, Slack, Microsoft and generic OAuth APIs)
   // Automatically refreshes expired or expiring tokens before API calls
   const getTokenForSource = (source: LoadedSource) => {
-    const provider = source.config.provider
-    if (isApiOAuthProvider(provider)) {
+    if (isApiOAuthSource(source.config)) {
       return async () => {
         // Load credential with expiry info
         const cred = await credManager.load(source)
@@ -295,6 +301,8 @@ interface ManagedSession {
     /** Model's context window size in tokens (from SDK modelUsage) */
     contextWindow?: number
   }
+  // Per-day, per-model usage for analytics (persisted in the session header)
+  usageHistory?: SessionUsageEntry[]
   // Todo state (user-controlled) - determines open vs closed
   // Dynamic status ID referencing workspace status config
   todoState?: string
@@ -319,10 +327,14 @@ interface ManagedSession {
   sharedUrl?: string
   // Shared session ID in viewer (for revoke)
   sharedId?: string
+  // Edit token for the share (sent with update/revoke, never uploaded)
+  sharedEditToken?: string
   // Model to use for this session (overrides global config if set)
   model?: string
   // Thinking level for this session ('off', 'think', 'max')
   thinkingLevel?: ThinkingLevel
+  // Provider profile for this session (undefined = workspace/global default)
+  providerProfileId?: string
   // System prompt preset for mini agents ('default' | 'mini')
   systemPromptPreset?: 'default' | 'mini' | string
   // Role/type of the last message (for badge display without loading messages)
@@ -366,6 +378,11 @@ interface ManagedSession {
   authRetryInProgress?: boolean
   // Whether this session is hidden from session list (e.g., mini edit sessions)
   hidden?: boolean
+  // Branch lineage - set when this session was forked from another session
+  parentSessionId?: string
+  forkedFromMessageId?: string
+  // Origin of an imported transcript (kept so re-imports are skipped)
+  importSource?: string
 }
 
 // Convert runtime Message to StoredMessage for persistence
@@ -469,6 +486,39 @@ function storedToMessage(stored: StoredMessage): Message {
   }
 }
 
+// Rebuild the attachment sent to Claude from a stored attachment (used when re-sending an edited message).
+// Mirrors what the renderer sends: file content plus storedPath/markdownPath so the agent can Read the files.
+function storedToFileAttachment(stored: StoredAttachment): AgentFileAttachment {
+  const content = readFileAttachment(stored.storedPath)
+  return {
+    type: stored.type,
+    path: stored.storedPath,
+    name: stored.name,
+    mimeType: stored.mimeType,
+    size: stored.size,
+    // Prefer the resized image persisted at send time (originals may exceed Claude API limits)
+    base64: stored.resizedBase64 ?? content?.base64,
+    text: content?.text,
+    storedPath: stored.storedPath,
+    markdownPath: stored.markdownPath,
+  }
+}
+
+// Session as uploaded to the viewer: the edit token authorizes changes, so it stays local
+function toShareableSession(session: StoredSession): StoredSession {
+  const { sharedEditToken: _sharedEditToken, ...shareable } = session
+  return shareable
+}
+
+// Evaluate workspace budgets (session, daily, monthly) against current spend
+function getBudgetStatus(managed: ManagedSession, pendingCostUsd = 0): BudgetStatus {
+  const rootPath = managed.workspace.rootPath
+  return evaluateBudget(loadWorkspaceConfig(rootPath)?.budgets, addPendingSpend({
+    sessionUsd: managed.tokenUsage?.costUsd ?? 0,
+    ...getWorkspaceSpend(rootPath),
+  }, pendingCostUsd))
+}
+
 // Performance: Batch IPC delta events to reduce renderer load
 const DELTA_BATCH_INTERVAL_MS = 50  // Flush batched deltas every 50ms
 
@@ -495,11 +545,24 @@ export class SessionManager {
    * marked as unread when assistant completes - if user is viewing it, don't mark unread.
    */
   private activeViewingSession: Map<string, string> = new Map()
+  // Non-window consumers of session events (e.g. the local control API)
+  private eventListeners: Set<(event: SessionEvent, workspaceId?: string) => void> = new Set()
 
   setWindowManager(wm: WindowManager): void {
     this.windowManager = wm
   }
 
+  /**
+   * Subscribe to every session event sent to renderer windows.
+   * Returns an unsubscribe function.
+   */
+  addEventListener(listener: (event: SessionEvent, workspaceId?: string) => void): () => void {
+    this.eventListeners.add(listener)
+    return () => {
+      this.eventListeners.delete(listener)
+    }
+  }
+
   /**
    * Set up ConfigWatcher for a workspace to broadcast live updates
    * (sources added/removed, guide.md changes, etc.)
@@ -519,6 +582,7 @@ export class SessionManager {
         sessionLog.info(`Sources list changed in ${workspaceRootPath} (${sources.length} sources)`)
         // Broadcast to UI
         this.broadcastSourcesChanged(sources)
+        this.closeUnusedVaultIndexes()
         // Reload sources for all sessions in this workspace
         for (const [_, managed] of this.sessions) {
           if (managed.workspace.rootPath === workspaceRootPath) {
@@ -531,6 +595,7 @@ export class SessionManager {
         // Broadcast updated list to UI
         const sources = loadWorkspaceSources(workspaceRootPath)
         this.broadcastSourcesChanged(sources)
+        this.closeUnusedVaultIndexes()
         // Reload sources for all sessions in this workspace
         for (const [_, managed] of this.sessions) {
           if (managed.workspace.rootPath === workspaceRootPath) {
@@ -710,9 +775,9 @@ export class SessionManager {
     )
     // Pass session path so large API responses can be saved to session folder
     const sessionPath = getSessionStoragePath(workspaceRootPath, managed.id)
-    const { mcpServers, apiServers } = await buildServersFromSources(enabledSources, sessionPath)
+    const { mcpServers, apiServers, disabledTools } = await buildServersFromSources(enabledSources, sessionPath)
     const intendedSlugs = enabledSources.map(s => s.config.slug)
-    managed.agent.setSourceServers(mcpServers, apiServers, intendedSlugs)
+    managed.agent.setSourceServers(mcpServers, apiServers, intendedSlugs, disabledTools)
 
     sessionLog.info(`Sources reloaded for session ${managed.id}: ${Object.keys(mcpServers).length} MCP, ${Object.keys(apiServers).length} API`)
   }
@@ -876,6 +941,7 @@ export class SessionManager {
             permissionMode: meta.permissionMode,
             sdkSessionId: meta.sdkSessionId,
             tokenUsage: meta.tokenUsage,  // From JSONL header (updated on save)
+            usageHistory: meta.usageHistory,
             todoState: meta.todoState,
             lastReadMessageId: meta.lastReadMessageId,  // Pre-computed for unread detection
             lastFinalMessageId: meta.lastFinalMessageId,  // Pre-computed for unread detection
@@ -886,6 +952,7 @@ export class SessionManager {
             sdkCwd: meta.sdkCwd,
             model: meta.model,
             thinkingLevel: meta.thinkingLevel,
+            providerProfileId: meta.providerProfileId,
             lastMessageRole: meta.lastMessageRole,
             messageQueue: [],
             backgroundShellCommands: new Map(),
@@ -893,7 +960,11 @@ export class SessionManager {
             // Shared viewer state - loaded from metadata for persistence across restarts
             sharedUrl: meta.sharedUrl,
             sharedId: meta.sharedId,
+            sharedEditToken: meta.sharedEditToken,
             hidden: meta.hidden,
+            parentSessionId: meta.parentSessionId,
+            forkedFromMessageId: meta.forkedFromMessageId,
+            importSource: meta.importSource,
           }
 
           this.sessions.set(meta.id, managed)
@@ -935,6 +1006,10 @@ export class SessionManager {
         workingDirectory: managed.workingDirectory,
         sdkCwd: managed.sdkCwd,
         thinkingLevel: managed.thinkingLevel,
+        providerProfileId: managed.providerProfileId,
+        sharedUrl: managed.sharedUrl,
+        sharedId: managed.sharedId,
+        sharedEditToken: managed.sharedEditToken,
         messages: persistableMessages.map(messageToStored),
         tokenUsage: managed.tokenUsage ?? {
           inputTokens: 0,
@@ -943,7 +1018,11 @@ export class SessionManager {
           contextTokens: 0,
           costUsd: 0,
         },
+        usageHistory: managed.usageHistory,
         hidden: managed.hidden,
+        parentSessionId: managed.parentSessionId,
+        forkedFromMessageId: managed.forkedFromMessageId,
+        importSource: managed.importSource,
       }
 
       // Queue for async persistence with debouncing
@@ -1033,6 +1112,13 @@ export class SessionManager {
       const result = await credManager.authenticate(source, {
         onStatus: (msg) => sessionLog.info(`[OAuth ${request.sourceSlug}] ${msg}`),
         onError: (err) => sessionLog.error(`[OAuth ${request.sourceSlug}] ${err}`),
+        // Device code sign-ins need the user to type the code on the verification page
+        onDeviceCode: (prompt) => showNotification(
+          `Sign in to ${source.config.name}`,
+          `Enter code ${prompt.userCode} at ${prompt.verificationUri}`,
+          managed.workspace.id,
+          managed.id,
+        ),
       })
 
       if (result.success) {
@@ -1251,6 +1337,7 @@ export class SessionManager {
         isFlagged: m.isFlagged,
         permissionMode: m.permissionMode,
         thinkingLevel: m.thinkingLevel,
+        providerProfileId: m.providerProfileId,
         todoState: m.todoState,
         lastReadMessageId: m.lastReadMessageId,
         lastFinalMessageId: m.lastFinalMessageId,
@@ -1266,6 +1353,8 @@ export class SessionManager {
         createdAt: m.createdAt,
         messageCount: m.messageCount,
         hidden: m.hidden,
+        parentSessionId: m.parentSessionId,
+        forkedFromMessageId: m.forkedFromMessageId,
       }))
       .sort((a, b) => b.lastMessageAt - a.lastMessageAt)
   }
@@ -1294,6 +1383,7 @@ export class SessionManager {
       isFlagged: m.isFlagged,
       permissionMode: m.permissionMode,
       thinkingLevel: m.thinkingLevel,
+      providerProfileId: m.providerProfileId,
       todoState: m.todoState,
       lastReadMessageId: m.lastReadMessageId,
       lastFinalMessageId: m.lastFinalMessageId,
@@ -1308,6 +1398,8 @@ export class SessionManager {
       lastMessageRole: m.lastMessageRole,
       tokenUsage: m.tokenUsage,
       hidden: m.hidden,
+      parentSessionId: m.parentSessionId,
+      forkedFromMessageId: m.forkedFromMessageId,
     }
   }
 
@@ -1344,11 +1436,13 @@ export class SessionManager {
     if (storedSession) {
       managed.messages = (storedSession.messages || []).map(storedToMessage)
       managed.tokenUsage = storedSession.tokenUsage
+      managed.usageHistory = storedSession.usageHistory
       managed.lastReadMessageId = storedSession.lastReadMessageId
       managed.hasUnread = storedSession.hasUnread  // Explicit unread flag for NEW badge state machine
       managed.enabledSourceSlugs = storedSession.enabledSourceSlugs
       managed.sharedUrl = storedSession.sharedUrl
       managed.sharedId = storedSession.sharedId
+      managed.sharedEditToken = storedSession.sharedEditToken
       // Sync name from disk - ensures title persistence across lazy loading
       managed.name = storedSession.name
       sessionLog.debug(`Lazy-loaded ${managed.messages.length} messages for session ${managed.id}`)
@@ -1365,6 +1459,13 @@ export class SessionManager {
     return getSessionStoragePath(managed.workspace.rootPath, sessionId)
   }
 
+  /**
+   * Get the root path of the workspace a session belongs to
+   */
+  getSessionWorkspaceRootPath(sessionId: string): string | null {
+    return this.sessions.get(sessionId)?.workspace.rootPath ?? null
+  }
+
   async createSession(workspaceId: string, options?: import('../shared/types').CreateSessionOptions): Promise<Session> {
     const workspace = getWorkspaceByNameOrId(workspaceId)
     if (!workspace) {
@@ -1466,6 +1567,170 @@ export class SessionManager {
     }
   }
 
+  /**
+   * Fork a session at a message into a new session.
+   * The fork copies the parent's settings and messages up to the fork point,
+   * and records the parent/child lineage so the session list can show a branch tree.
+   * @param includeMessage - Whether to include the fork point message itself (false branches before it)
+   */
+  async forkSession(sessionId: string, messageId: string, includeMessage = true): Promise<Session> {
+    const parent = this.sessions.get(sessionId)
+    if (!parent) {
+      throw new Error(`Session ${sessionId} not found`)
+    }
+
+    // Make sure pending writes are on disk before copying from the session file
+    await this.ensureMessagesLoaded(parent)
+    this.persistSession(parent)
+    await this.flushSession(sessionId)
+
+    const workspaceRootPath = parent.workspace.rootPath
+    const stored = await forkStoredSession(workspaceRootPath, sessionId, messageId, { includeMessage })
+    if (!stored) {
+      throw new Error(`Message ${messageId} not found in session ${sessionId}`)
+    }
+
+    const messages = stored.messages.map(storedToMessage)
+    const lastFinalMessage = [...messages].reverse().find(m => m.role === 'assistant' && !m.isIntermediate)
+
+    const managed: ManagedSession = {
+      id: stored.id,
+      workspace: parent.workspace,
+      agent: null,  // Lazy-load agent on first message
+      messages,
+      isProcessing: false,
+      lastMessageAt: stored.lastMessageAt ?? stored.lastUsedAt,
+      streamingText: '',
+      processingGeneration: 0,
+      name: stored.name,
+      preview: parent.preview,
+      createdAt: stored.createdAt,
+      messageCount: messages.length,
+      isFlagged: false,
+      permissionMode: stored.permissionMode,
+      tokenUsage: stored.tokenUsage,
+      enabledSourceSlugs: stored.enabledSourceSlugs,
+      labels: stored.labels,
+      workingDirectory: stored.workingDirectory,
+      sdkCwd: stored.sdkCwd,
+      model: parent.model,
+      thinkingLevel: stored.thinkingLevel,
+      providerProfileId: stored.providerProfileId,
+      lastMessageRole: parent.lastMessageRole,
+      // Forked history counts as read
+      lastReadMessageId: lastFinalMessage?.id,
+      lastFinalMessageId: lastFinalMessage?.id,
+      messageQueue: [],
+      backgroundShellCommands: new Map(),
+      messagesLoaded: true,
+      parentSessionId: stored.parentSessionId,
+      forkedFromMessageId: stored.forkedFromMessageId,
+    }
+
+    this.sessions.set(stored.id, managed)
+    sessionLog.info(`Forked session ${sessionId} at message ${messageId} into ${stored.id}`)
+
+    return {
+      id: managed.id,
+      workspaceId: managed.workspace.id,
+      workspaceName: managed.workspace.name,
+      name: managed.name,
+      preview: managed.preview,
+      lastMessageAt: managed.lastMessageAt,
+      messages: managed.messages,
+      isProcessing: false,
+      isFlagged: false,
+      permissionMode: managed.permissionMode,
+      thinkingLevel: managed.thinkingLevel,
+      providerProfileId: managed.providerProfileId,
+      lastReadMessageId: managed.lastReadMessageId,
+      lastFinalMessageId: managed.lastFinalMessageId,
+      workingDirectory: managed.workingDirectory,
+      model: managed.model,
+      sessionFolderPath: getSessionStoragePath(workspaceRootPath, managed.id),
+      enabledSourceSlugs: managed.enabledSourceSlugs,
+      labels: managed.labels,
+      tokenUsage: managed.tokenUsage,
+      createdAt: managed.createdAt,
+      messageCount: managed.messageCount,
+      parentSessionId: managed.parentSessionId,
+      forkedFromMessageId: managed.forkedFromMessageId,
+    }
+  }
+
+  /**
+   * Import transcripts from other apps (Claude Code, ChatGPT, Claude.ai) into a workspace.
+   * Conversations imported before are skipped.
+   */
+  async importSessions(workspaceId: string, paths: string[]): Promise<SessionImportResult> {
+    const workspace = getWorkspaceByNameOrId(workspaceId)
+    if (!workspace) {
+      throw new Error(`Workspace ${workspaceId} not found`)
+    }
+
+    const conversations: ImportedConversation[] = []
+    for (const path of paths) {
+      conversations.push(...await readImportFile(path))
+    }
+    const { imported, skipped } = await importConversations(workspace.rootPath, conversations)
+
+    const sessions = imported.map((stored): Session => {
+      const messages = stored.messages.map(storedToMessage)
+      // Pre-computed list fields (preview, last role) as they are written to the JSONL header
+      const header = createSessionHeader(stored)
+
+      const managed: ManagedSession = {
+        id: stored.id,
+        workspace,
+        agent: null,  // Lazy-load agent on first message
+        messages,
+        isProcessing: false,
+        lastMessageAt: stored.lastMessageAt ?? stored.lastUsedAt,
+        streamingText: '',
+        processingGeneration: 0,
+        name: stored.name,
+        preview: header.preview,
+        createdAt: stored.createdAt,
+        messageCount: messages.length,
+        isFlagged: false,
+        tokenUsage: stored.tokenUsage,
+        workingDirectory: stored.workingDirectory,
+        sdkCwd: stored.sdkCwd,
+        lastMessageRole: header.lastMessageRole,
+        lastReadMessageId: stored.lastReadMessageId,
+        lastFinalMessageId: header.lastFinalMessageId,
+        messageQueue: [],
+        backgroundShellCommands: new Map(),
+        messagesLoaded: true,
+        importSource: stored.importSource,
+      }
+      this.sessions.set(stored.id, managed)
+
+      return {
+        id: managed.id,
+        workspaceId: workspace.id,
+        workspaceName: workspace.name,
+        name: managed.name,
+        preview: managed.preview,
+        lastMessageAt: managed.lastMessageAt,
+        messages: managed.messages,
+        isProcessing: false,
+        isFlagged: false,
+        lastReadMessageId: managed.lastReadMessageId,
+        lastFinalMessageId: managed.lastFinalMessageId,
+        lastMessageRole: managed.lastMessageRole,
+        workingDirectory: managed.workingDirectory,
+        sessionFolderPath: getSessionStoragePath(workspace.rootPath, managed.id),
+        tokenUsage: managed.tokenUsage,
+        createdAt: managed.createdAt,
+        messageCount: managed.messageCount,
+      }
+    })
+
+    sessionLog.info(`Imported ${sessions.length} sessions into ${workspace.name} (${skipped.length} already imported)`)
+    return { sessions, skipped: skipped.length }
+  }
+
   /**
    * Get or create agent for a session (lazy loading)
    */
@@ -1479,6 +1744,8 @@ export class SessionManager {
         model: resolveModelId(managed.model || config?.model || DEFAULT_MODEL),
         // Initialize thinking level at construction to avoid race conditions
         thinkingLevel: managed.thinkingLevel,
+        // Session provider profile (workspace/global defaults are resolved per turn)
+        providerProfileId: managed.providerProfileId,
         isHeadless: !AGENT_FLAGS.defaultModesEnabled,
         // System prompt preset for mini agents (focused prompts for quick edits)
         systemPromptPreset: managed.systemPromptPreset,
@@ -1525,6 +1792,21 @@ export class SessionManager {
             content: m.content,
           }));
         },
+        // Called on the first turn of a fresh SDK session (e.g. a fork) to replay earlier
+        // conversation as context. Excludes the user message currently being sent.
+        getHistoryMessages: () => {
+          const lastUserIndex = managed.messages.map(m => m.role).lastIndexOf('user')
+          return managed.messages
+            .slice(0, lastUserIndex === -1 ? managed.messages.length : lastUserIndex)
+            .filter(m => m.role === 'user' || m.role === 'assistant')
+            .filter(m => !m.isIntermediate)
+            .map(m => ({
+              type: m.role as 'user' | 'assistant',
+              content: m.content,
+            }))
+        },
+        // Hard budget limits refuse the turn before it starts
+        getBudgetStatus: (pendingCostUsd) => getBudgetStatus(managed, pendingCostUsd),
         // Debug mode - enables log file path injection into system prompt
         debugMode: isDebugMode ? {
           enabled: true,
@@ -1716,7 +1998,7 @@ export class SessionManager {
         const allEnabledSources = getSourcesBySlugs(workspaceRootPath, managed.enabledSourceSlugs || [])
         // Pass session path so large API responses can be saved to session folder
         const sessionPath = getSessionStoragePath(workspaceRootPath, managed.id)
-        const { mcpServers, apiServers, errors } = await buildServersFromSources(allEnabledSources, sessionPath)
+        const { mcpServers, apiServers, errors, disabledTools } = await buildServersFromSources(allEnabledSources, sessionPath)
 
         if (errors.length > 0) {
           sessionLog.warn(`Source build errors during auto-enable:`, errors)
@@ -1738,7 +2020,7 @@ export class SessionManager {
         const intendedSlugs = allEnabledSources
           .filter(s => s.config.enabled && s.config.isAuthenticated)
           .map(s => s.config.slug)
-        managed.agent!.setSourceServers(mcpServers, apiServers, intendedSlugs)
+        managed.agent!.setSourceServers(mcpServers, apiServers, intendedSlugs, disabledTools)
 
         sessionLog.info(`Auto-enabled source ${sourceSlug} for session ${managed.id}`)
 
@@ -1859,6 +2141,23 @@ export class SessionManager {
     return getStoredPendingPlanExecution(managed.workspace.rootPath, sessionId)
   }
 
+  // ============================================
+  // Session Export
+  // ============================================
+
+  /**
+   * Load the full stored session for local export, tagged with its workspace ID
+   * (the shape SessionViewer renders). Flushes pending writes first so the export
+   * includes the latest messages.
+   */
+  async loadSessionForExport(sessionId: string): Promise<(StoredSession & { workspaceId: string }) | null> {
+    const managed = this.sessions.get(sessionId)
+    if (!managed) return null
+    await sessionPersistenceQueue.flush(sessionId)
+    const stored = loadStoredSession(managed.workspace.rootPath, sessionId)
+    return stored ? { ...stored, workspaceId: managed.workspace.id } : null
+  }
+
   // ============================================
   // Session Sharing
   // ============================================
@@ -1867,7 +2166,7 @@ export class SessionManager {
    * Share session to the web viewer
    * Uploads session data and returns shareable URL
    */
-  async shareToViewer(sessionId: string): Promise<import('../shared/types').ShareResult> {
+  async shareToViewer(sessionId: string, options: import('../shared/types').ShareOptions = {}): Promise<import('../shared/types').ShareResult> {
     const managed = this.sessions.get(sessionId)
     if (!managed) {
       return { success: false, error: 'Session not found' }
@@ -1884,11 +2183,15 @@ export class SessionManager {
         return { success: false, error: 'Session file not found' }
       }
 
-      const { VIEWER_URL } = await import('@craft-agent/shared/branding')
-      const response = await fetch(`${VIEWER_URL}/s/api`, {
+      const { getWorkspaceViewerUrl } = await import('@craft-agent/shared/workspaces')
+      const headers: Record<string, string> = { 'Content-Type': 'application/json' }
+      // Access rules (see @craft-agent/viewer-server protocol)
+      if (options.password) headers['X-Share-Password'] = options.password
+      if (options.expiresAt) headers['X-Share-Expires-At'] = String(options.expiresAt)
+      const response = await fetch(`${getWorkspaceViewerUrl(managed.workspace.rootPath)}/s/api`, {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(storedSession)
+        headers,
+        body: JSON.stringify(toShareableSession(storedSession))
       })
 
       if (!response.ok) {
@@ -1899,15 +2202,32 @@ export class SessionManager {
         return { success: false, error: 'Failed to upload session' }
       }
 
-      const data = await response.json() as { id: string; url: string }
+      const data = await response.json() as { id: string; url: string; editToken?: string; passwordProtected?: boolean; expiresAt?: number }
+
+      // Viewers that don't implement access rules ignore the headers and return a public link
+      const missingPassword = Boolean(options.password) && data.passwordProtected !== true
+      const missingExpiry = options.expiresAt !== undefined && data.expiresAt !== options.expiresAt
+      if (missingPassword || missingExpiry) {
+        sessionLog.warn(`Viewer ignored share access rules for ${sessionId}, removing share ${data.id}`)
+        await fetch(`${getWorkspaceViewerUrl(managed.workspace.rootPath)}/s/api/${data.id}`, {
+          method: 'DELETE',
+          headers: data.editToken ? { 'X-Share-Edit-Token': data.editToken } : {},
+        }).catch(error => sessionLog.error('Failed to remove unprotected share:', error))
+        return {
+          success: false,
+          error: `This viewer does not support ${missingPassword ? 'password-protected' : 'expiring'} links. Set a self-hosted viewer URL in workspace settings.`,
+        }
+      }
 
       // Store shared info in session
       managed.sharedUrl = data.url
       managed.sharedId = data.id
+      managed.sharedEditToken = data.editToken
       const workspaceRootPath = managed.workspace.rootPath
       await updateSessionMetadata(workspaceRootPath, sessionId, {
         sharedUrl: data.url,
         sharedId: data.id,
+        sharedEditToken: data.editToken,
       })
 
       sessionLog.info(`Session ${sessionId} shared at ${data.url}`)
@@ -1924,6 +2244,26 @@ export class SessionManager {
     }
   }
 
+  /**
+   * Headers authorizing changes to an existing share (edit token from when it was created)
+   */
+  private getShareEditHeaders(managed: ManagedSession): Record<string, string> {
+    return managed.sharedEditToken ? { 'X-Share-Edit-Token': managed.sharedEditToken } : {}
+  }
+
+  /**
+   * API URL of an existing share.
+   * Derived from the share link so shares keep working after the workspace viewer URL changes.
+   */
+  private async getShareApiUrl(managed: ManagedSession): Promise<string> {
+    const linkSuffix = `/s/${managed.sharedId}`
+    if (managed.sharedUrl?.endsWith(linkSuffix)) {
+      return `${managed.sharedUrl.slice(0, -linkSuffix.length)}/s/api/${managed.sharedId}`
+    }
+    const { getWorkspaceViewerUrl } = await import('@craft-agent/shared/workspaces')
+    return `${getWorkspaceViewerUrl(managed.workspace.rootPath)}/s/api/${managed.sharedId}`
+  }
+
   /**
    * Update an existing shared session
    * Re-uploads session data to the same URL
@@ -1948,11 +2288,10 @@ export class SessionManager {
         return { success: false, error: 'Session file not found' }
       }
 
-      const { VIEWER_URL } = await import('@craft-agent/shared/branding')
-      const response = await fetch(`${VIEWER_URL}/s/api/${managed.sharedId}`, {
+      const response = await fetch(await this.getShareApiUrl(managed), {
         method: 'PUT',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(storedSession)
+        headers: { 'Content-Type': 'application/json', ...this.getShareEditHeaders(managed) },
+        body: JSON.stringify(toShareableSession(storedSession))
       })
 
       if (!response.ok) {
@@ -1960,6 +2299,12 @@ export class SessionManager {
         if (response.status === 413) {
           return { success: false, error: 'Session file is too large to share' }
         }
+        if (response.status === 410) {
+          return { success: false, error: 'Share has expired' }
+        }
+        if (response.status === 401 || response.status === 403) {
+          return { success: false, error: 'This share can no longer be updated. Revoke it and share again.' }
+        }
         return { success: false, error: 'Failed to update shared session' }
       }
 
@@ -1993,13 +2338,13 @@ export class SessionManager {
     this.sendEvent({ type: 'async_operation', sessionId, isOngoing: true }, managed.workspace.id)
 
     try {
-      const { VIEWER_URL } = await import('@craft-agent/shared/branding')
       const response = await fetch(
-        `${VIEWER_URL}/s/api/${managed.sharedId}`,
-        { method: 'DELETE' }
+        await this.getShareApiUrl(managed),
+        { method: 'DELETE', headers: this.getShareEditHeaders(managed) }
       )
 
-      if (!response.ok) {
+      // Expired or already-deleted shares are gone either way
+      if (!response.ok && response.status !== 404 && response.status !== 410) {
         sessionLog.error(`Revoke failed with status ${response.status}`)
         return { success: false, error: 'Failed to revoke share' }
       }
@@ -2007,10 +2352,12 @@ export class SessionManager {
       // Clear shared info
       delete managed.sharedUrl
       delete managed.sharedId
+      delete managed.sharedEditToken
       const workspaceRootPath = managed.workspace.rootPath
       await updateSessionMetadata(workspaceRootPath, sessionId, {
         sharedUrl: undefined,
         sharedId: undefined,
+        sharedEditToken: undefined,
       })
 
       sessionLog.info(`Session ${sessionId} share revoked`)
@@ -2053,7 +2400,7 @@ export class SessionManager {
       const sources = getSourcesBySlugs(workspaceRootPath, sourceSlugs)
       // Pass session path so large API responses can be saved to session folder
       const sessionPath = getSessionStoragePath(workspaceRootPath, sessionId)
-      const { mcpServers, apiServers, errors } = await buildServersFromSources(sources, sessionPath)
+      const { mcpServers, apiServers, errors, disabledTools } = await buildServersFromSources(sources, sessionPath)
       if (errors.length > 0) {
         sessionLog.warn(`Source build errors:`, errors)
       }
@@ -2064,7 +2411,7 @@ export class SessionManager {
 
       // Set active source servers (tools are only available from these)
       const intendedSlugs = sources.filter(s => s.config.enabled && s.config.isAuthenticated).map(s => s.config.slug)
-      managed.agent.setSourceServers(mcpServers, apiServers, intendedSlugs)
+      managed.agent.setSourceServers(mcpServers, apiServers, intendedSlugs, disabledTools)
       sessionLog.info(`Applied ${Object.keys(mcpServers).length} MCP + ${Object.keys(apiServers).length} API sources to active agent (${allSources.length} total)`)
     }
 
@@ -2335,6 +2682,52 @@ export class SessionManager {
     sessionLog.info(`Updated message ${messageId} content in session ${sessionId}`)
   }
 
+  /**
+   * Edit a previous user message and re-run the conversation from it.
+   * Drops the message and everything after it, resets the SDK session (resuming would
+   * replay the old transcript - earlier messages are replayed as context instead),
+   * then re-sends the edited text with the original attachments and badges.
+   * @param content - Edited text as displayed in the message bubble (without hidden context)
+   */
+  async editMessage(sessionId: string, messageId: string, content: string): Promise<void> {
+    const managed = this.sessions.get(sessionId)
+    if (!managed) {
+      throw new Error(`Session ${sessionId} not found`)
+    }
+    if (managed.isProcessing) {
+      throw new Error('Cannot edit a message while the session is processing')
+    }
+
+    await this.ensureMessagesLoaded(managed)
+
+    const index = managed.messages.findIndex(m => m.id === messageId)
+    const original = managed.messages[index]
+    if (!original || original.role !== 'user') {
+      throw new Error(`User message ${messageId} not found in session ${sessionId}`)
+    }
+
+    const edited = applyMessageEdit(original.badges, content)
+    const attachments = original.attachments?.length
+      ? original.attachments.map(storedToFileAttachment)
+      : undefined
+
+    // Truncate the transcript and start a fresh SDK conversation
+    const droppedCount = managed.messages.length - index
+    managed.messages = managed.messages.slice(0, index)
+    managed.sdkSessionId = undefined
+    managed.agent?.clearHistory()
+    this.persistSession(managed)
+    await this.flushSession(sessionId)
+
+    this.sendEvent({ type: 'messages_truncated', sessionId, messageId }, managed.workspace.id)
+    sessionLog.info(`Editing message ${messageId} in session ${sessionId}, dropped ${droppedCount} messages`)
+
+    await this.sendMessage(sessionId, edited.content, attachments, original.attachments, {
+      ultrathinkEnabled: original.ultrathink,
+      badges: edited.badges,
+    })
+  }
+
   async deleteSession(sessionId: string): Promise<void> {
     const managed = this.sessions.get(sessionId)
     if (!managed) {
@@ -2560,7 +2953,7 @@ export class SessionManager {
       const sources = getSourcesBySlugs(workspaceRootPath, managed.enabledSourceSlugs)
       // Pass session path so large API responses can be saved to session folder
       const sessionPath = getSessionStoragePath(workspaceRootPath, sessionId)
-      const { mcpServers, apiServers, errors } = await buildServersFromSources(sources, sessionPath)
+      const { mcpServers, apiServers, errors, disabledTools } = await buildServersFromSources(sources, sessionPath)
       if (errors.length > 0) {
         sessionLog.warn(`Source build errors:`, errors)
       }
@@ -2571,7 +2964,7 @@ export class SessionManager {
       if (mcpCount > 0 || apiCount > 0 || managed.enabledSourceSlugs.length > 0) {
         // Pass intended slugs so agent shows sources as active even if build failed
         const intendedSlugs = sources.filter(s => s.config.enabled && s.config.isAuthenticated).map(s => s.config.slug)
-        agent.setSourceServers(mcpServers, apiServers, intendedSlugs)
+        agent.setSourceServers(mcpServers, apiServers, intendedSlugs, disabledTools)
         sessionLog.info(`Applied ${mcpCount} MCP + ${apiCount} API sources to session ${sessionId} (${allSources.length} total)`)
       }
       sendSpan.mark('servers.applied')
@@ -2999,11 +3392,13 @@ To view this task's output:
    * Respond to a pending permission request
    * Returns true if the response was delivered, false if agent/session is gone
    */
-  respondToPermission(sessionId: string, requestId: string, allowed: boolean, alwaysAllow: boolean): boolean {
+  respondToPermission(sessionId: string, requestId: string, allowed: boolean, alwaysAllow: boolean | AlwaysAllowScope): boolean {
     const managed = this.sessions.get(sessionId)
     if (managed?.agent) {
       sessionLog.info(`Permission response for ${requestId}: allowed=${allowed}, alwaysAllow=${alwaysAllow}`)
       managed.agent.respondToPermission(requestId, allowed, alwaysAllow)
+      // Let every client (windows and control API) drop the prompt, whoever answered it
+      this.sendEvent({ type: 'permission_resolved', sessionId, requestId, allowed }, managed.workspace.id)
       return true
     } else {
       sessionLog.warn(`Cannot respond to permission - no agent for session ${sessionId}`)
@@ -3103,6 +3498,26 @@ To view this task's output:
     }
   }
 
+  /**
+   * Set the provider profile for a session (null = workspace/global default).
+   * Takes effect on the next message.
+   */
+  setSessionProviderProfile(sessionId: string, profileId: string | null): void {
+    const managed = this.sessions.get(sessionId)
+    if (managed) {
+      managed.providerProfileId = profileId ?? undefined
+
+      if (managed.agent) {
+        managed.agent.setProviderProfile(managed.providerProfileId)
+      }
+
+      sessionLog.info(`Session ${sessionId}: provider profile set to ${profileId ?? 'default'}`)
+      this.persistSession(managed)
+      // Notify renderer of the change
+      this.sendEvent({ type: 'session_provider_profile_changed', sessionId, profileId }, managed.workspace.id)
+    }
+  }
+
   /**
    * Generate an AI title for a session from the user's first message.
    * Called asynchronously when the first user message is received.
@@ -3609,6 +4024,7 @@ To view this task's output:
         // Complete event from CraftAgent - accumulate usage from this turn
         // Actual 'complete' sent to renderer comes from the finally block in sendMessage
         if (event.usage) {
+          const budgetBefore = getBudgetStatus(managed)
           // Initialize tokenUsage if not set
           if (!managed.tokenUsage) {
             managed.tokenUsage = {
@@ -3633,6 +4049,27 @@ To view this task's output:
           if (event.usage.contextWindow) {
             managed.tokenUsage.contextWindow = event.usage.contextWindow
           }
+
+          managed.usageHistory = recordSessionUsage(managed.usageHistory, {
+            model: managed.model,
+            inputTokens: event.usage.inputTokens,
+            outputTokens: event.usage.outputTokens,
+            costUsd: event.usage.costUsd ?? 0,
+          })
+
+          // Track workspace spend and warn when this turn crossed a budget limit
+          recordWorkspaceSpend(managed.workspace.rootPath, event.usage.costUsd ?? 0)
+          const budgetAfter = getBudgetStatus(managed)
+          const budgetSeverity = { ok: 0, soft: 1, hard: 2 }
+          if (budgetSeverity[budgetAfter.level] > budgetSeverity[budgetBefore.level]) {
+            sessionLog.info(`Session ${sessionId}: ${budgetAfter.scope} budget ${budgetAfter.level} limit crossed`)
+            this.sendEvent({
+              type: 'info',
+              sessionId,
+              message: formatBudgetStatus(budgetAfter),
+              level: budgetAfter.level === 'hard' ? 'error' : 'warning',
+            }, workspaceId)
+          }
         }
         break
 
@@ -3673,6 +4110,14 @@ To view this task's output:
   }
 
   private sendEvent(event: SessionEvent, workspaceId?: string): void {
+    for (const listener of this.eventListeners) {
+      try {
+        listener(event, workspaceId)
+      } catch (error) {
+        sessionLog.error(`Session event listener failed for ${event.type}:`, error)
+      }
+    }
+
     if (!this.windowManager) {
       sessionLog.warn('Cannot send event - no window manager')
       return
@@ -3754,6 +4199,22 @@ To view this task's output:
     }
   }
 
+  /**
+   * Close the vault indexes (and their file watchers) that no enabled Obsidian
+   * source uses anymore, e.g. after a vault source was removed or disabled.
+   */
+  private closeUnusedVaultIndexes(): void {
+    const vaultPaths: string[] = []
+    for (const workspaceRootPath of this.configWatchers.keys()) {
+      for (const source of loadWorkspaceSources(workspaceRootPath)) {
+        if (source.config.enabled && source.config.type === 'local' && isObsidianLocalSource(source.config.local)) {
+          vaultPaths.push(source.config.local!.path)
+        }
+      }
+    }
+    closeVaultIndexesExcept(vaultPaths)
+  }
+
   /**
    * Clean up all resources held by the SessionManager.
    * Should be called on app shutdown to prevent resource leaks.
@@ -3768,6 +4229,9 @@ To view this task's output:
     }
     this.configWatchers.clear()
 
+    // Stop watching Obsidian vaults
+    closeVaultIndexes()
+
     // Clear all pending delta flush timers
     for (const [sessionId, timer] of this.deltaFlushTimers) {
       clearTimeout(timer)
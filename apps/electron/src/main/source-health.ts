@@ -0,0 +1,96 @@
+/**
+ * Source Health Monitor
+ *
+ * Periodically checks the credentials and connectivity of every enabled source,
+ * so expired tokens and broken connections surface before a turn runs into them.
+ * - Checks all workspaces every 5 minutes (first check shortly after startup)
+ * - Refreshes OAuth tokens that would expire before the next check
+ * - Records connectionStatus/lastTestedAt in each source's config.json
+ *   (the config watcher pushes the change to open windows)
+ * - Shows a notification when a source starts needing re-authentication
+ */
+
+import { getWorkspaces } from '@craft-agent/shared/config'
+import { getNotificationsEnabled } from '@craft-agent/shared/config/storage'
+import { loadWorkspaceSources, checkSourceHealth, recordSourceHealth, isSourceHealthCheckable } from '@craft-agent/shared/sources'
+import { sourceHealthLog } from './logger'
+import { showSourceNotification } from './notifications'
+
+const CHECK_INTERVAL_MS = 5 * 60_000
+// Let startup (session restore, window creation) settle before the first check
+const STARTUP_DELAY_MS = 30_000
+// Refresh tokens expiring before the next check, with one interval to spare
+const REFRESH_WINDOW_MS = 2 * CHECK_INTERVAL_MS
+
+let checkTimer: ReturnType<typeof setTimeout> | null = null
+let checking = false
+
+/**
+ * Start the source health monitor. Safe to call once after SessionManager.initialize().
+ */
+export function initSourceHealthMonitor(): void {
+  scheduleNextCheck(STARTUP_DELAY_MS)
+  sourceHealthLog.info('Source health monitor started')
+}
+
+/**
+ * Stop the source health monitor (app quit). A check in progress finishes on its own.
+ */
+export function stopSourceHealthMonitor(): void {
+  if (checkTimer) {
+    clearTimeout(checkTimer)
+    checkTimer = null
+  }
+}
+
+function scheduleNextCheck(delay: number): void {
+  checkTimer = setTimeout(() => {
+    checkAllSources()
+      .catch(error => sourceHealthLog.error('Source health check failed:', error))
+      .finally(() => {
+        // Not rescheduled if the monitor was stopped while checking
+        if (checkTimer) scheduleNextCheck(CHECK_INTERVAL_MS)
+      })
+  }, delay)
+}
+
+async function checkAllSources(): Promise<void> {
+  // Skip if the previous check is still running (slow or hanging servers)
+  if (checking) return
+  checking = true
+
+  try {
+    for (const workspace of getWorkspaces()) {
+      const sources = loadWorkspaceSources(workspace.rootPath).filter(isSourceHealthCheckable)
+
+      // One source at a time - checks are network-bound and refreshes must not race
+      for (const source of sources) {
+        try {
+          const result = await checkSourceHealth(source, { refreshWindowMs: REFRESH_WINDOW_MS })
+          const previousStatus = recordSourceHealth(source, result)
+
+          if (result.refreshed) {
+            sourceHealthLog.info(`Refreshed OAuth token for ${workspace.id}/${source.config.slug}`)
+          }
+          if (result.status !== previousStatus) {
+            sourceHealthLog.info(`${workspace.id}/${source.config.slug}: ${previousStatus ?? 'untested'} → ${result.status}${result.error ? ` (${result.error})` : ''}`)
+          }
+
+          // Notify once per transition, not on every check while the source stays broken
+          if (result.status === 'needs_auth' && previousStatus !== 'needs_auth' && getNotificationsEnabled()) {
+            showSourceNotification(
+              `${source.config.name} needs to be reconnected`,
+              result.error ? `${result.error}. Sign in again to keep using it.` : 'Sign in again to keep using it.',
+              workspace.id,
+              source.config.slug
+            )
+          }
+        } catch (error) {
+          sourceHealthLog.warn(`Health check failed for ${workspace.id}/${source.config.slug}:`, error)
+        }
+      }
+    }
+  } finally {
+    checking = false
+  }
+}
@@ -1,7 +1,7 @@
 // Capture errors in the isolated preload context and forward to Sentry
 import '@sentry/electron/preload'
 import { contextBridge, ipcRenderer } from 'electron'
-import { IPC_CHANNELS, type SessionEvent, type ElectronAPI, type FileAttachment, type AuthType } from '../shared/types'
+import { IPC_CHANNELS, type SessionEvent, type ElectronAPI, type FileAttachment, type AuthType, type ControlApiStatus, type ProviderProfile, type ProviderProfilesState, type UsageQueryOptions, type AlwaysAllowRule, type AlwaysAllowScope, type PermissionAuditScope } from '../shared/types'
 
 const api: ElectronAPI = {
   // Session management
@@ -9,11 +9,16 @@ const api: ElectronAPI = {
   getSessionMessages: (sessionId: string) => ipcRenderer.invoke(IPC_CHANNELS.GET_SESSION_MESSAGES, sessionId),
   createSession: (workspaceId: string, options?: import('../shared/types').CreateSessionOptions) => ipcRenderer.invoke(IPC_CHANNELS.CREATE_SESSION, workspaceId, options),
   deleteSession: (sessionId: string) => ipcRenderer.invoke(IPC_CHANNELS.DELETE_SESSION, sessionId),
+  forkSession: (sessionId: string, messageId: string, includeMessage?: boolean) => ipcRenderer.invoke(IPC_CHANNELS.FORK_SESSION, sessionId, messageId, includeMessage),
+  importSessions: (workspaceId: string) => ipcRenderer.invoke(IPC_CHANNELS.IMPORT_SESSIONS, workspaceId),
+  editMessage: (sessionId: string, messageId: string, content: string) => ipcRenderer.invoke(IPC_CHANNELS.EDIT_MESSAGE, sessionId, messageId, content),
+  loadSessionForExport: (sessionId: string) => ipcRenderer.invoke(IPC_CHANNELS.EXPORT_SESSION_LOAD, sessionId),
+  saveSessionExport: (sessionId: string, format: import('../shared/types').SessionExportFormat, content: string) => ipcRenderer.invoke(IPC_CHANNELS.EXPORT_SESSION_SAVE, sessionId, format, content),
   sendMessage: (sessionId: string, message: string, attachments?: FileAttachment[], storedAttachments?: import('../shared/types').StoredAttachment[], options?: import('../shared/types').SendMessageOptions) => ipcRenderer.invoke(IPC_CHANNELS.SEND_MESSAGE, sessionId, message, attachments, storedAttachments, options),
   cancelProcessing: (sessionId: string, silent?: boolean) => ipcRenderer.invoke(IPC_CHANNELS.CANCEL_PROCESSING, sessionId, silent),
   killShell: (sessionId: string, shellId: string) => ipcRenderer.invoke(IPC_CHANNELS.KILL_SHELL, sessionId, shellId),
   getTaskOutput: (taskId: string) => ipcRenderer.invoke(IPC_CHANNELS.GET_TASK_OUTPUT, taskId),
-  respondToPermission: (sessionId: string, requestId: string, allowed: boolean, alwaysAllow: boolean) =>
+  respondToPermission: (sessionId: string, requestId: string, allowed: boolean, alwaysAllow: AlwaysAllowScope | false) =>
     ipcRenderer.invoke(IPC_CHANNELS.RESPOND_TO_PERMISSION, sessionId, requestId, allowed, alwaysAllow),
   respondToCredential: (sessionId: string, requestId: string, response: import('../shared/types').CredentialResponse) =>
     ipcRenderer.invoke(IPC_CHANNELS.RESPOND_TO_CREDENTIAL, sessionId, requestId, response),
@@ -123,6 +128,11 @@ const api: ElectronAPI = {
     ipcRenderer.on(IPC_CHANNELS.MENU_NEW_CHAT, handler)
     return () => ipcRenderer.removeListener(IPC_CHANNELS.MENU_NEW_CHAT, handler)
   },
+  onMenuImportConversations: (callback: () => void) => {
+    const handler = () => callback()
+    ipcRenderer.on(IPC_CHANNELS.MENU_IMPORT_CONVERSATIONS, handler)
+    return () => ipcRenderer.removeListener(IPC_CHANNELS.MENU_IMPORT_CONVERSATIONS, handler)
+  },
   onMenuOpenSettings: (callback: () => void) => {
     const handler = () => callback()
     ipcRenderer.on(IPC_CHANNELS.MENU_OPEN_SETTINGS, handler)
@@ -222,6 +232,7 @@ const api: ElectronAPI = {
   getSessionFiles: (sessionId: string) => ipcRenderer.invoke(IPC_CHANNELS.GET_SESSION_FILES, sessionId),
   getSessionNotes: (sessionId: string) => ipcRenderer.invoke(IPC_CHANNELS.GET_SESSION_NOTES, sessionId),
   setSessionNotes: (sessionId: string, content: string) => ipcRenderer.invoke(IPC_CHANNELS.SET_SESSION_NOTES, sessionId, content),
+  getPermissionAudit: (sessionId: string, scope: PermissionAuditScope) => ipcRenderer.invoke(IPC_CHANNELS.GET_PERMISSION_AUDIT, sessionId, scope),
   watchSessionFiles: (sessionId: string) => ipcRenderer.invoke(IPC_CHANNELS.WATCH_SESSION_FILES, sessionId),
   unwatchSessionFiles: () => ipcRenderer.invoke(IPC_CHANNELS.UNWATCH_SESSION_FILES),
   onSessionFilesChanged: (callback: (sessionId: string) => void) => {
@@ -246,6 +257,10 @@ const api: ElectronAPI = {
     ipcRenderer.invoke(IPC_CHANNELS.WORKSPACE_GET_PERMISSIONS, workspaceId),
   getDefaultPermissionsConfig: () =>
     ipcRenderer.invoke(IPC_CHANNELS.DEFAULT_PERMISSIONS_GET),
+  getAlwaysAllowRules: (workspaceId: string) =>
+    ipcRenderer.invoke(IPC_CHANNELS.ALWAYS_ALLOW_RULES_GET, workspaceId),
+  revokeAlwaysAllowRule: (workspaceId: string, scope: Exclude<AlwaysAllowScope, 'session'>, rule: AlwaysAllowRule) =>
+    ipcRenderer.invoke(IPC_CHANNELS.ALWAYS_ALLOW_RULES_REVOKE, workspaceId, scope, rule),
   // Default permissions change listener (live updates when default.json changes)
   onDefaultPermissionsChanged: (callback: () => void) => {
     const handler = () => callback()
@@ -256,6 +271,14 @@ const api: ElectronAPI = {
   },
   getMcpTools: (workspaceId: string, sourceSlug: string) =>
     ipcRenderer.invoke(IPC_CHANNELS.SOURCES_GET_MCP_TOOLS, workspaceId, sourceSlug),
+  setSourceToolEnabled: (workspaceId: string, sourceSlug: string, toolName: string, enabled: boolean) =>
+    ipcRenderer.invoke(IPC_CHANNELS.SOURCES_SET_TOOL_ENABLED, workspaceId, sourceSlug, toolName, enabled),
+  getMcpCatalog: (workspaceId: string, sourceSlug: string) =>
+    ipcRenderer.invoke(IPC_CHANNELS.SOURCES_GET_MCP_CATALOG, workspaceId, sourceSlug),
+  readMcpResource: (workspaceId: string, sourceSlug: string, uri: string) =>
+    ipcRenderer.invoke(IPC_CHANNELS.SOURCES_READ_MCP_RESOURCE, workspaceId, sourceSlug, uri),
+  getMcpPrompt: (workspaceId: string, sourceSlug: string, name: string, args: Record<string, string>) =>
+    ipcRenderer.invoke(IPC_CHANNELS.SOURCES_GET_MCP_PROMPT, workspaceId, sourceSlug, name, args),
 
   // Session content search (full-text search via ripgrep)
   searchSessionContent: (workspaceId: string, query: string, searchId?: string) =>
@@ -343,6 +366,22 @@ const api: ElectronAPI = {
   saveViews: (workspaceId: string, views: any[]) =>
     ipcRenderer.invoke(IPC_CHANNELS.VIEWS_SAVE, workspaceId, views),
 
+  // Schedules (cron-triggered prompts stored in schedules.json)
+  listSchedules: (workspaceId: string) =>
+    ipcRenderer.invoke(IPC_CHANNELS.SCHEDULES_LIST, workspaceId),
+  saveSchedules: (workspaceId: string, schedules: any[]) =>
+    ipcRenderer.invoke(IPC_CHANNELS.SCHEDULES_SAVE, workspaceId, schedules),
+  runScheduleNow: (workspaceId: string, scheduleId: string) =>
+    ipcRenderer.invoke(IPC_CHANNELS.SCHEDULES_RUN_NOW, workspaceId, scheduleId),
+  listScheduleRuns: (workspaceId: string, scheduleId?: string, limit?: number) =>
+    ipcRenderer.invoke(IPC_CHANNELS.SCHEDULES_HISTORY, workspaceId, scheduleId, limit),
+
+  // Usage analytics
+  getUsageReport: (workspaceId: string, options?: UsageQueryOptions) =>
+    ipcRenderer.invoke(IPC_CHANNELS.USAGE_REPORT, workspaceId, options),
+  exportUsageCsv: (workspaceId: string, options?: UsageQueryOptions) =>
+    ipcRenderer.invoke(IPC_CHANNELS.USAGE_EXPORT_CSV, workspaceId, options),
+
   // Tool icon mappings (for Appearance settings page)
   getToolIconMappings: () => ipcRenderer.invoke(IPC_CHANNELS.TOOL_ICONS_GET_MAPPINGS),
 
@@ -409,6 +448,26 @@ const api: ElectronAPI = {
   setNotificationsEnabled: (enabled: boolean) =>
     ipcRenderer.invoke(IPC_CHANNELS.NOTIFICATION_SET_ENABLED, enabled),
 
+  // Local control API
+  getControlApiStatus: () =>
+    ipcRenderer.invoke(IPC_CHANNELS.CONTROL_API_GET_STATUS) as Promise<ControlApiStatus>,
+  setControlApiEnabled: (enabled: boolean) =>
+    ipcRenderer.invoke(IPC_CHANNELS.CONTROL_API_SET_ENABLED, enabled) as Promise<ControlApiStatus>,
+  regenerateControlApiToken: () =>
+    ipcRenderer.invoke(IPC_CHANNELS.CONTROL_API_REGENERATE_TOKEN) as Promise<ControlApiStatus>,
+
+  // Provider profiles
+  getProviderProfiles: () =>
+    ipcRenderer.invoke(IPC_CHANNELS.PROVIDER_PROFILES_GET) as Promise<ProviderProfilesState>,
+  saveProviderProfile: (profile: ProviderProfile, apiKey?: string | null) =>
+    ipcRenderer.invoke(IPC_CHANNELS.PROVIDER_PROFILES_SAVE, profile, apiKey) as Promise<ProviderProfilesState>,
+  deleteProviderProfile: (profileId: string) =>
+    ipcRenderer.invoke(IPC_CHANNELS.PROVIDER_PROFILES_DELETE, profileId) as Promise<ProviderProfilesState>,
+  setDefaultProviderProfile: (profileId: string | null) =>
+    ipcRenderer.invoke(IPC_CHANNELS.PROVIDER_PROFILES_SET_DEFAULT, profileId) as Promise<ProviderProfilesState>,
+  setProviderFallbackChain: (profileIds: string[]) =>
+    ipcRenderer.invoke(IPC_CHANNELS.PROVIDER_PROFILES_SET_FALLBACK_CHAIN, profileIds) as Promise<ProviderProfilesState>,
+
   // Input settings
   getAutoCapitalisation: () =>
     ipcRenderer.invoke(IPC_CHANNELS.INPUT_GET_AUTO_CAPITALISATION) as Promise<boolean>,
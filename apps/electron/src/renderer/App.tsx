@@ -2,7 +2,8 @@ import React, { useState, useEffect, useCallback, useRef, useMemo } from 'react'
 import { useTheme } from '@/hooks/useTheme'
 import type { ThemeOverrides } from '@config/theme'
 import { useSetAtom, useStore, useAtomValue } from 'jotai'
-import type { Session, Workspace, SessionEvent, Message, FileAttachment, StoredAttachment, PermissionRequest, CredentialRequest, CredentialResponse, SetupNeeds, TodoState, NewChatActionParams, ContentBadge } from '../shared/types'
+import { toast } from 'sonner'
+import type { Session, Workspace, SessionEvent, Message, FileAttachment, StoredAttachment, PermissionRequest, CredentialRequest, CredentialResponse, SetupNeeds, TodoState, NewChatActionParams, ContentBadge, AlwaysAllowScope } from '../shared/types'
 import type { SessionOptions, SessionOptionUpdates } from './hooks/useSessionOptions'
 import { defaultSessionOptions, mergeSessionOptions } from './hooks/useSessionOptions'
 import { generateMessageId } from '../shared/types'
@@ -516,6 +517,23 @@ export default function App() {
         }))
       }
 
+      // A permission prompt was answered elsewhere (another window or the control API)
+      if (event.type === 'permission_resolved') {
+        setPendingPermissions(prevPerms => {
+          const queue = prevPerms.get(sessionId)
+          if (!queue?.some(r => r.requestId === event.requestId)) return prevPerms
+          const next = new Map(prevPerms)
+          const remainingQueue = queue.filter(r => r.requestId !== event.requestId)
+          if (remainingQueue.length === 0) {
+            next.delete(sessionId)
+          } else {
+            next.set(sessionId, remainingQueue)
+          }
+          return next
+        })
+        return
+      }
+
       // Check if session is currently streaming (atom is source of truth)
       const atomSession = store.get(sessionAtomFamily(sessionId))
       const isStreaming = atomSession?.isProcessing === true
@@ -614,12 +632,8 @@ export default function App() {
     }
   }, [])
 
-  const handleCreateSession = useCallback(async (workspaceId: string, options?: import('../shared/types').CreateSessionOptions): Promise<Session> => {
-    const session = await window.electronAPI.createSession(workspaceId, options)
-    // Add to per-session atom and metadata map (no sessionsAtom)
-    addSession(session)
-
-    // Apply session defaults to the unified sessionOptions
+  // Apply a new session's permission mode / thinking level to the unified sessionOptions
+  const applySessionDefaults = useCallback((session: Session) => {
     const hasNonDefaultMode = session.permissionMode && session.permissionMode !== 'ask'
     const hasNonDefaultThinking = session.thinkingLevel && session.thinkingLevel !== 'think'
     if (hasNonDefaultMode || hasNonDefaultThinking) {
@@ -633,9 +647,16 @@ export default function App() {
         return next
       })
     }
+  }, [])
+
+  const handleCreateSession = useCallback(async (workspaceId: string, options?: import('../shared/types').CreateSessionOptions): Promise<Session> => {
+    const session = await window.electronAPI.createSession(workspaceId, options)
+    // Add to per-session atom and metadata map (no sessionsAtom)
+    addSession(session)
+    applySessionDefaults(session)
 
     return session
-  }, [addSession])
+  }, [addSession, applySessionDefaults])
 
   // Deep link navigation is initialized later after handleInputChange is defined
 
@@ -967,7 +988,64 @@ export default function App() {
     }
   }, [windowWorkspaceId, handleCreateSession, handleInputChange])
 
-  const handleRespondToPermission = useCallback(async (sessionId: string, requestId: string, allowed: boolean, alwaysAllow: boolean) => {
+  // Fork a session at a message and open the fork.
+  // When a draft is given (forking from a user message), the fork branches off before
+  // that message and the draft pre-fills the input so the prompt can be reworded.
+  const handleForkSession = useCallback(async (sessionId: string, messageId: string, draft?: string) => {
+    try {
+      const session = await window.electronAPI.forkSession(sessionId, messageId, draft === undefined)
+      addSession(session)
+      applySessionDefaults(session)
+      // Set the draft before navigating so the chat input picks it up on mount
+      if (draft) {
+        handleInputChange(session.id, draft)
+      }
+      navigate(routes.view.allChats(session.id))
+    } catch (error) {
+      console.error('[App] Failed to fork session:', error)
+    }
+  }, [addSession, applySessionDefaults, handleInputChange])
+
+  // Import transcripts from other apps (Claude Code, ChatGPT, Claude.ai) into this workspace.
+  // A single imported conversation is opened; several are left in the session list.
+  const handleImportConversations = useCallback(async () => {
+    if (!windowWorkspaceId) return
+    try {
+      const result = await window.electronAPI.importSessions(windowWorkspaceId)
+      if (!result) return
+      result.sessions.forEach(addSession)
+      const count = result.sessions.length
+      const skipped = result.skipped > 0 ? `${result.skipped} already imported` : undefined
+      if (count === 0) {
+        toast.info('No new conversations to import', { description: skipped })
+        return
+      }
+      toast.success(`Imported ${count} conversation${count === 1 ? '' : 's'}`, { description: skipped })
+      if (count === 1) {
+        navigate(routes.view.allChats(result.sessions[0]!.id))
+      }
+    } catch (error) {
+      toast.error('Import failed', { description: error instanceof Error ? error.message : String(error) })
+    }
+  }, [windowWorkspaceId, addSession])
+
+  // File > Import Conversations… in the native menu
+  useEffect(() => {
+    return window.electronAPI.onMenuImportConversations(handleImportConversations)
+  }, [handleImportConversations])
+
+  // Edit a previous user message and resend it.
+  // The main process truncates the transcript after the message (via messages_truncated),
+  // then streams the new response through the usual session events.
+  const handleEditMessage = useCallback(async (sessionId: string, messageId: string, content: string) => {
+    try {
+      await window.electronAPI.editMessage(sessionId, messageId, content)
+    } catch (error) {
+      console.error('[App] Failed to edit message:', error)
+    }
+  }, [])
+
+  const handleRespondToPermission = useCallback(async (sessionId: string, requestId: string, allowed: boolean, alwaysAllow: AlwaysAllowScope | false) => {
     console.log('[App] handleRespondToPermission called:', { sessionId, requestId, allowed, alwaysAllow })
 
     const success = await window.electronAPI.respondToPermission(sessionId, requestId, allowed, alwaysAllow)
@@ -1202,6 +1280,9 @@ export default function App() {
     onSetActiveViewingSession: handleSetActiveViewingSession,
     onTodoStateChange: handleTodoStateChange,
     onDeleteSession: handleDeleteSession,
+    onForkSession: handleForkSession,
+    onEditMessage: handleEditMessage,
+    onImportConversations: handleImportConversations,
     onRespondToPermission: handleRespondToPermission,
     onRespondToCredential: handleRespondToCredential,
     // File/URL handlers
@@ -1243,6 +1324,9 @@ export default function App() {
     handleSetActiveViewingSession,
     handleTodoStateChange,
     handleDeleteSession,
+    handleForkSession,
+    handleEditMessage,
+    handleImportConversations,
     handleRespondToPermission,
     handleRespondToCredential,
     handleOpenFile,
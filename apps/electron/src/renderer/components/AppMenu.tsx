@@ -127,6 +127,7 @@ function renderMenuSection(
 interface AppMenuProps {
   onNewChat: () => void
   onNewWindow?: () => void
+  onImportConversations?: () => void
   onOpenSettings: () => void
   /** Navigate to a specific settings subpage */
   onOpenSettingsSubpage: (subpage: SettingsMenuItem['id']) => void
@@ -144,7 +145,7 @@ interface AppMenuProps {
  * AppMenu - Main application dropdown menu and top bar navigation
  *
  * Contains the Craft logo dropdown with all menu functionality:
- * - File actions (New Chat, New Window)
+ * - File actions (New Chat, New Window, Import Conversations)
  * - Edit submenu (Undo, Redo, Cut, Copy, Paste, Select All)
  * - View submenu (Zoom In/Out, Reset)
  * - Window submenu (Minimize, Maximize)
@@ -159,6 +160,7 @@ interface AppMenuProps {
 export function AppMenu({
   onNewChat,
   onNewWindow,
+  onImportConversations,
   onOpenSettings,
   onOpenSettingsSubpage,
   onOpenKeyboardShortcuts,
@@ -206,6 +208,12 @@ export function AppMenu({
               <DropdownMenuShortcut className="pl-6">{modKey}⇧N</DropdownMenuShortcut>
             </StyledDropdownMenuItem>
           )}
+          {onImportConversations && (
+            <StyledDropdownMenuItem onClick={onImportConversations}>
+              <Icons.Import className="h-3.5 w-3.5" />
+              Import Conversations…
+            </StyledDropdownMenuItem>
+          )}
 
           <StyledDropdownMenuSeparator />
 
@@ -86,6 +86,7 @@ import { type TodoStateId, type TodoState, statusConfigsToTodoStates } from "@/c
 import { useStatuses } from "@/hooks/useStatuses"
 import { useLabels } from "@/hooks/useLabels"
 import { useViews } from "@/hooks/useViews"
+import { ViewExpressionPreview } from "./ViewExpressionPreview"
 import { LabelIcon, LabelValueTypeIcon } from "@/components/ui/label-icon"
 import { filterItems as filterLabelMenuItems, filterStates as filterLabelMenuStates, type LabelMenuItem } from "@/components/ui/label-menu"
 import { buildLabelTree, getDescendantIds, getLabelDisplayName, flattenLabels, extractLabelId, findLabelById } from "@craft-agent/shared/labels"
@@ -478,6 +479,7 @@ function AppShellContent({
     onOpenStoredUserPreferences,
     onReset,
     onSendMessage,
+    onImportConversations,
     openNewChat,
   } = contextValue
 
@@ -903,7 +905,7 @@ function AppShellContent({
   const { labels: labelConfigs } = useLabels(activeWorkspace?.id || null)
 
   // Views: compiled once on config load, evaluated per session in list/chat
-  const { evaluateSession: evaluateViews, viewConfigs } = useViews(activeWorkspace?.id || null)
+  const { evaluateSession: evaluateViews, getSessionContext, viewConfigs } = useViews(activeWorkspace?.id || null, statusConfigs)
 
   // Build hierarchical label tree from nested config structure
   const labelTree = useMemo(() => buildLabelTree(labelConfigs), [labelConfigs])
@@ -1210,6 +1212,24 @@ function AppShellContent({
     return counts
   }, [workspaceSessionMetas, effectiveTodoStates])
 
+  // Views saved as sidebar filters ("smart folders"), in views.json order
+  const sidebarViews = useMemo(
+    () => viewConfigs.filter(view => view.showInSidebar),
+    [viewConfigs]
+  )
+
+  // Count sessions matching each sidebar view
+  const sidebarViewCounts = useMemo(() => {
+    const counts: Record<string, number> = {}
+    if (sidebarViews.length === 0) return counts
+    for (const s of workspaceSessionMetas) {
+      for (const view of evaluateViews(s)) {
+        counts[view.id] = (counts[view.id] || 0) + 1
+      }
+    }
+    return counts
+  }, [workspaceSessionMetas, sidebarViews, evaluateViews])
+
   // Count sources by type for the Sources dropdown subcategories
   const sourceTypeCounts = useMemo(() => {
     const counts = { api: 0, mcp: 0, local: 0 }
@@ -1712,13 +1732,21 @@ function AppShellContent({
     }
     flattenTree(labelTree)
 
-    // 3. Sources, Skills, Settings
+    // 3. Views saved as sidebar filters (section only shown when there are any)
+    if (sidebarViews.length > 0) {
+      result.push({ id: 'nav:views', type: 'nav', action: () => toggleExpanded('nav:views') })
+      for (const view of sidebarViews) {
+        result.push({ id: `nav:view:${view.id}`, type: 'nav', action: () => handleViewClick(view.id) })
+      }
+    }
+
+    // 4. Sources, Skills, Settings
     result.push({ id: 'nav:sources', type: 'nav', action: handleSourcesClick })
     result.push({ id: 'nav:skills', type: 'nav', action: handleSkillsClick })
     result.push({ id: 'nav:settings', type: 'nav', action: () => handleSettingsClick('app') })
 
     return result
-  }, [handleAllChatsClick, handleFlaggedClick, handleTodoStateClick, effectiveTodoStates, handleLabelClick, labelConfigs, labelTree, viewConfigs, handleViewClick, handleSourcesClick, handleSkillsClick, handleSettingsClick])
+  }, [handleAllChatsClick, handleFlaggedClick, handleTodoStateClick, effectiveTodoStates, handleLabelClick, labelConfigs, labelTree, sidebarViews, handleViewClick, toggleExpanded, handleSourcesClick, handleSkillsClick, handleSettingsClick])
 
   // Toggle folder expanded state
   const handleToggleFolder = React.useCallback((path: string) => {
@@ -1952,6 +1980,7 @@ function AppShellContent({
             <AppMenu
               onNewChat={() => handleNewChat(true)}
               onNewWindow={() => window.electronAPI.menuNewWindow()}
+              onImportConversations={onImportConversations}
               onOpenSettings={onOpenSettings}
               onOpenSettingsSubpage={handleSettingsClick}
               onOpenKeyboardShortcuts={onOpenKeyboardShortcuts}
@@ -2014,7 +2043,7 @@ function AppShellContent({
                     </StyledContextMenuContent>
                   </ContextMenu>
                 </div>
-                {/* Primary Nav: All Chats, Flagged, States, Labels | Sources, Skills | Settings */}
+                {/* Primary Nav: All Chats, Flagged, States, Labels, Views | Sources, Skills | Settings */}
                 {/* pb-4 provides clearance so the last item scrolls above the mask-fade-bottom gradient */}
                 <div className="flex-1 overflow-y-auto min-h-0 mask-fade-bottom pb-4">
                 <LeftSidebar
@@ -2090,6 +2119,36 @@ function AppShellContent({
                       },
                       items: buildLabelSidebarItems(labelTree),
                     },
+                    // Views: saved filters with their own sort/grouping (only views with showInSidebar)
+                    ...(sidebarViews.length > 0 ? [{
+                      id: "nav:views",
+                      title: "Views",
+                      icon: ListFilter,
+                      variant: "ghost" as const,
+                      onClick: () => toggleExpanded('nav:views'),
+                      expandable: true,
+                      expanded: isExpanded('nav:views'),
+                      onToggle: () => toggleExpanded('nav:views'),
+                      contextMenu: {
+                        type: 'views' as const,
+                        onConfigureViews: openConfigureViews,
+                      },
+                      items: sidebarViews.map(view => ({
+                        id: `nav:view:${view.id}`,
+                        title: view.name,
+                        label: String(sidebarViewCounts[view.id] || 0),
+                        icon: ListFilter,
+                        iconColor: view.color ? resolveEntityColor(view.color, isDark) : undefined,
+                        variant: (chatFilter?.kind === 'view' && chatFilter.viewId === view.id ? "default" : "ghost") as "default" | "ghost",
+                        onClick: () => handleViewClick(view.id),
+                        contextMenu: {
+                          type: 'views' as const,
+                          viewId: view.id,
+                          onConfigureViews: openConfigureViews,
+                          onDeleteView: handleDeleteView,
+                        },
+                      })),
+                    }] : []),
                     // --- Separator ---
                     { id: "separator:chats-sources", type: "separator" },
                     // --- Sources & Skills Section ---
@@ -2938,6 +2997,8 @@ function AppShellContent({
                   }}
                   todoStates={effectiveTodoStates}
                   evaluateViews={evaluateViews}
+                  views={viewConfigs}
+                  getSessionContext={getSessionContext}
                   labels={labelConfigs}
                   onLabelsChange={handleSessionLabelsChange}
                   workspaceId={activeWorkspaceId ?? undefined}
@@ -3161,6 +3222,17 @@ function AppShellContent({
               label: 'Edit File',
               filePath: `${activeWorkspace.rootPath}/views.json`,
             }}
+            header={
+              <ViewExpressionPreview
+                sessions={workspaceSessionMetas}
+                getSessionContext={getSessionContext}
+                views={viewConfigs}
+                onSessionClick={(sessionId) => {
+                  setEditPopoverOpen(null)
+                  navigate(routes.view.allChats(sessionId))
+                }}
+              />
+            }
             {...getEditConfig('edit-views', activeWorkspace.rootPath)}
           />
           {/* Add Source EditPopovers - one for each variant (generic + filter-specific)
@@ -16,6 +16,7 @@ import { motion, AnimatePresence } from "motion/react"
 
 import { ScrollArea } from "@/components/ui/scroll-area"
 import { cn } from "@/lib/utils"
+import { navigate, routes } from "@/lib/navigate"
 import { Markdown, CollapsibleMarkdownProvider, StreamingMarkdown, type RenderMode } from "@/components/markdown"
 import { AnimatedCollapsibleContent } from "@/components/ui/collapsible"
 import {
@@ -29,6 +30,7 @@ import {
   MultiDiffPreviewOverlay,
   TerminalPreviewOverlay,
   GenericOverlay,
+  QueryResultOverlay,
   JSONPreviewOverlay,
   DocumentFormattedMarkdownOverlay,
   detectLanguage,
@@ -39,7 +41,7 @@ import {
 } from "@craft-agent/ui"
 import { useFocusZone } from "@/hooks/keyboard"
 import { useTheme } from "@/hooks/useTheme"
-import type { Session, Message, FileAttachment, StoredAttachment, PermissionRequest, CredentialRequest, CredentialResponse, LoadedSource, LoadedSkill } from "../../../shared/types"
+import type { Session, Message, FileAttachment, StoredAttachment, PermissionRequest, CredentialRequest, CredentialResponse, LoadedSource, LoadedSkill, AlwaysAllowScope } from "../../../shared/types"
 import type { PermissionMode } from "@craft-agent/shared/agent/modes"
 import type { ThinkingLevel } from "@craft-agent/shared/agent/thinking-levels"
 import { TurnCard, UserMessageBubble, groupMessagesByTurn, formatTurnAsMarkdown, formatActivityAsMarkdown, type Turn, type AssistantTurn, type UserTurn, type SystemTurn, type AuthRequestTurn } from "@craft-agent/ui"
@@ -106,16 +108,22 @@ interface ChatDisplayProps {
   /** Pending permission request for this session */
   pendingPermission?: PermissionRequest
   /** Callback to respond to permission request */
-  onRespondToPermission?: (sessionId: string, requestId: string, allowed: boolean, alwaysAllow: boolean) => void
+  onRespondToPermission?: (sessionId: string, requestId: string, allowed: boolean, alwaysAllow: AlwaysAllowScope | false) => void
   /** Pending credential request for this session */
   pendingCredential?: CredentialRequest
   /** Callback to respond to credential request */
   onRespondToCredential?: (sessionId: string, requestId: string, response: CredentialResponse) => void
+  /** Callback to fork the session at a message (draft given when forking from a user message) */
+  onForkSession?: (sessionId: string, messageId: string, draft?: string) => void
+  /** Callback to edit a previous user message and resend it */
+  onEditMessage?: (sessionId: string, messageId: string, content: string) => void
   // Thinking level (session-level setting)
   /** Current thinking level ('off', 'think', 'max') */
   thinkingLevel?: ThinkingLevel
   /** Callback when thinking level changes */
   onThinkingLevelChange?: (level: ThinkingLevel) => void
+  /** Callback when the session's provider profile changes (null = default) */
+  onProviderProfileChange?: (profileId: string | null) => void
   // Advanced options
   /** Enable ultrathink mode for extended reasoning */
   ultrathinkEnabled?: boolean
@@ -379,9 +387,12 @@ export const ChatDisplay = React.forwardRef<ChatDisplayHandle, ChatDisplayProps>
   onRespondToPermission,
   pendingCredential,
   onRespondToCredential,
+  onForkSession,
+  onEditMessage,
   // Thinking level
   thinkingLevel = 'think',
   onThinkingLevelChange,
+  onProviderProfileChange,
   // Advanced options
   ultrathinkEnabled = false,
   onUltrathinkChange,
@@ -1306,6 +1317,10 @@ export const ChatDisplay = React.forwardRef<ChatDisplayHandle, ChatDisplayProps>
                             onOpenFile={onOpenFile}
                             onOpenUrl={onOpenUrl}
                             compactMode={compactMode}
+                            // Forking from a user message branches before it, with the prompt as a draft
+                            onFork={onForkSession ? () => onForkSession(session.id, turn.message.id, turn.message.content) : undefined}
+                            // Editing re-runs the conversation from this message, so it's unavailable mid-turn
+                            onEdit={onEditMessage && !session.isProcessing ? (content) => onEditMessage(session.id, turn.message.id, content) : undefined}
                           />
                         </div>
                       )
@@ -1455,6 +1470,16 @@ export const ChatDisplay = React.forwardRef<ChatDisplayHandle, ChatDisplayProps>
                         hasEditOrWriteActivities={turn.activities.some(a =>
                           a.toolName === 'Edit' || a.toolName === 'Write'
                         )}
+                        onFork={onForkSession && turn.isComplete ? () => {
+                          // Fork after the last persisted message of this turn (before the next user message)
+                          const nextUserTurn = turns.slice(index + 1).find(t => t.type === 'user')
+                          const nextUserIndex = nextUserTurn?.type === 'user'
+                            ? session.messages.findIndex(m => m.id === nextUserTurn.message.id)
+                            : -1
+                          const turnMessages = nextUserIndex === -1 ? session.messages : session.messages.slice(0, nextUserIndex)
+                          const forkMessage = turnMessages.findLast(m => m.role !== 'status')
+                          if (forkMessage) onForkSession(session.id, forkMessage.id)
+                        } : undefined}
                         onOpenMultiFileDiff={() => {
                           const changes = collectFileChanges(turn.activities)
                           if (changes.length > 0) {
@@ -1537,6 +1562,8 @@ export const ChatDisplay = React.forwardRef<ChatDisplayHandle, ChatDisplayProps>
               onModelChange={onModelChange}
               thinkingLevel={thinkingLevel}
               onThinkingLevelChange={onThinkingLevelChange}
+              providerProfileId={session.providerProfileId}
+              onProviderProfileChange={onProviderProfileChange}
               ultrathinkEnabled={ultrathinkEnabled}
               onUltrathinkChange={onUltrathinkChange}
               permissionMode={permissionMode}
@@ -1646,6 +1673,31 @@ export const ChatDisplay = React.forwardRef<ChatDisplayHandle, ChatDisplayProps>
         />
       )}
 
+      {/* Table overlay (database query results) */}
+      {overlayData?.type === 'table' && (
+        <QueryResultOverlay
+          isOpen={!!overlayState}
+          onClose={handleCloseOverlay}
+          title={overlayData.title}
+          columns={overlayData.columns}
+          rows={overlayData.rows}
+          truncated={overlayData.truncated}
+          theme={isDark ? 'dark' : 'light'}
+        />
+      )}
+
+      {/* Diff overlay (git diff and commit results) */}
+      {overlayData?.type === 'diff' && (
+        <MultiDiffPreviewOverlay
+          isOpen={!!overlayState}
+          onClose={handleCloseOverlay}
+          changes={overlayData.changes}
+          theme={isDark ? 'dark' : 'light'}
+          diffViewerSettings={diffViewerSettings}
+          onDiffViewerSettingsChange={handleDiffViewerSettingsChange}
+        />
+      )}
+
       {/* Document overlay (Write tool → .md/.txt files) — rendered markdown with tool badge */}
       {overlayData?.type === 'document' && (
         <DocumentFormattedMarkdownOverlay
@@ -1738,6 +1790,10 @@ interface MessageBubbleProps {
   onPopOut?: (message: Message) => void
   /** Compact mode - reduces padding for popover embedding */
   compactMode?: boolean
+  /** Callback to fork the session from this message (user messages only) */
+  onFork?: () => void
+  /** Callback to resend this message with edited text (user messages only) */
+  onEdit?: (content: string) => void
 }
 
 /**
@@ -1762,6 +1818,17 @@ function ErrorMessage({ message }: { message: Message }) {
         </div>
         <p className="text-sm text-destructive">{message.content}</p>
 
+        {/* Budget recovery action - limits are edited in workspace settings */}
+        {message.errorCode === 'budget_exceeded' && (
+          <button
+            type="button"
+            onClick={() => navigate(routes.view.settings('workspace'))}
+            className="mt-2 inline-flex items-center h-7 px-2.5 text-xs font-medium rounded-[6px] bg-background shadow-minimal text-foreground hover:bg-foreground/[0.02] transition-colors"
+          >
+            Raise budget
+          </button>
+        )}
+
         {/* Collapsible Details Toggle */}
         {hasDetails && (
           <div className="mt-2">
@@ -1797,6 +1864,8 @@ function MessageBubble({
   renderMode = 'minimal',
   onPopOut,
   compactMode,
+  onFork,
+  onEdit,
 }: MessageBubbleProps) {
   // === USER MESSAGE: Right-aligned bubble with attachments above ===
   if (message.role === 'user') {
@@ -1811,6 +1880,8 @@ function MessageBubble({
         onUrlClick={onOpenUrl}
         onFileClick={onOpenFile}
         compactMode={compactMode}
+        onFork={onFork}
+        onEdit={onEdit}
       />
     )
   }
@@ -1945,6 +2016,8 @@ const MemoizedMessageBubble = React.memo(MessageBubble, (prev, next) => {
     prev.message.id === next.message.id &&
     prev.message.content === next.message.content &&
     prev.message.role === next.message.role &&
-    prev.compactMode === next.compactMode
+    prev.compactMode === next.compactMode &&
+    !!prev.onFork === !!next.onFork &&
+    !!prev.onEdit === !!next.onEdit
   )
 })
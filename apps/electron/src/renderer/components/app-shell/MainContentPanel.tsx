@@ -24,7 +24,7 @@ import {
   isSettingsNavigation,
   isSkillsNavigation,
 } from '@/contexts/NavigationContext'
-import { AppSettingsPage, AppearanceSettingsPage, InputSettingsPage, WorkspaceSettingsPage, PermissionsSettingsPage, LabelsSettingsPage, PreferencesPage, ShortcutsPage, SourceInfoPage, ChatPage } from '@/pages'
+import { AppSettingsPage, AppearanceSettingsPage, InputSettingsPage, WorkspaceSettingsPage, PermissionsSettingsPage, LabelsSettingsPage, SchedulesSettingsPage, UsageSettingsPage, PreferencesPage, ShortcutsPage, SourceInfoPage, ChatPage } from '@/pages'
 import SkillInfoPage from '@/pages/SkillInfoPage'
 
 export interface MainContentPanelProps {
@@ -81,6 +81,18 @@ export function MainContentPanel({
             <LabelsSettingsPage />
           </Panel>
         )
+      case 'schedules':
+        return wrapWithStoplight(
+          <Panel variant="grow" className={className}>
+            <SchedulesSettingsPage />
+          </Panel>
+        )
+      case 'usage':
+        return wrapWithStoplight(
+          <Panel variant="grow" className={className}>
+            <UsageSettingsPage />
+          </Panel>
+        )
       case 'shortcuts':
         return wrapWithStoplight(
           <Panel variant="grow" className={className}>
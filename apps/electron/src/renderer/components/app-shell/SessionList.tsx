@@ -1,7 +1,7 @@
 import { useState, useCallback, useEffect, useRef, useMemo } from "react"
-import { formatDistanceToNow, formatDistanceToNowStrict, isToday, isYesterday, format, startOfDay } from "date-fns"
+import { formatDistanceToNow, formatDistanceToNowStrict, isToday, isYesterday, format, startOfDay, parseISO } from "date-fns"
 import type { Locale } from "date-fns"
-import { MoreHorizontal, Flag, Copy, Link2Off, CloudUpload, Globe, RefreshCw, Inbox } from "lucide-react"
+import { MoreHorizontal, Flag, Copy, Link2Off, CloudUpload, Globe, RefreshCw, Inbox, GitBranch } from "lucide-react"
 import { toast } from "sonner"
 
 import { cn } from "@/lib/utils"
@@ -52,7 +52,7 @@ import { useNavigation, useNavigationState, routes, isChatsNavigation, type Chat
 import { useFocusContext } from "@/context/FocusContext"
 import { getSessionTitle } from "@/utils/session"
 import type { SessionMeta } from "@/atoms/sessions"
-import type { ViewConfig } from "@craft-agent/shared/views"
+import { sortViewSessions, groupViewSessions, type ViewConfig, type ViewEvaluationContext, type ViewGroupBy } from "@craft-agent/shared/views"
 import { PERMISSION_MODE_CONFIG, type PermissionMode } from "@craft-agent/shared/agent/modes"
 import { fuzzyScore } from "@craft-agent/shared/search"
 
@@ -88,11 +88,60 @@ function formatDateHeader(date: Date): string {
   return format(date, "MMM d")
 }
 
+/**
+ * Order sessions as a branch tree: forked sessions follow their parent session.
+ * Forks whose parent isn't in the list keep their own position as roots.
+ * Returns the ordered sessions and each session's branch depth (0 = root).
+ */
+function orderSessionsAsBranchTree(sessions: SessionMeta[]): { sessions: SessionMeta[]; branchDepths: Map<string, number> } {
+  const ids = new Set(sessions.map(s => s.id))
+  const children = new Map<string, SessionMeta[]>()
+  const roots: SessionMeta[] = []
+
+  for (const session of sessions) {
+    const parentId = session.parentSessionId
+    if (parentId && parentId !== session.id && ids.has(parentId)) {
+      if (!children.has(parentId)) {
+        children.set(parentId, [])
+      }
+      children.get(parentId)!.push(session)
+    } else {
+      roots.push(session)
+    }
+  }
+
+  const ordered: SessionMeta[] = []
+  const branchDepths = new Map<string, number>()
+  const visit = (session: SessionMeta, depth: number) => {
+    if (branchDepths.has(session.id)) return
+    branchDepths.set(session.id, depth)
+    ordered.push(session)
+    for (const child of children.get(session.id) ?? []) {
+      visit(child, depth + 1)
+    }
+  }
+
+  roots.forEach(session => visit(session, 0))
+  // Sessions in a lineage cycle have no root - keep them rather than dropping them
+  sessions.forEach(session => visit(session, 0))
+
+  return { sessions: ordered, branchDepths }
+}
+
+/** A titled section of the session list */
+interface SessionGroup {
+  key: string
+  label: string
+  sessions: SessionMeta[]
+  branchDepths: Map<string, number>
+}
+
 /**
  * Group sessions by date (day boundary)
- * Returns array of { date, sessions } sorted by date descending
+ * Returns array of { date, sessions } sorted by date descending.
+ * Within a group, forked sessions are placed under their parent session.
  */
-function groupSessionsByDate(sessions: SessionMeta[]): Array<{ date: Date; label: string; sessions: SessionMeta[] }> {
+function groupSessionsByDate(sessions: SessionMeta[]): SessionGroup[] {
   const groups = new Map<string, { date: Date; sessions: SessionMeta[] }>()
 
   for (const session of sessions) {
@@ -110,11 +159,33 @@ function groupSessionsByDate(sessions: SessionMeta[]): Array<{ date: Date; label
   return Array.from(groups.values())
     .sort((a, b) => b.date.getTime() - a.date.getTime())
     .map(group => ({
-      ...group,
+      key: group.date.toISOString(),
       label: formatDateHeader(group.date),
+      ...orderSessionsAsBranchTree(group.sessions),
     }))
 }
 
+/**
+ * Section header for a view group (see groupViewSessions).
+ * An empty key is the group of sessions without a value.
+ */
+function formatViewGroupHeader(key: string, groupBy: ViewGroupBy, todoStates: TodoState[], flatLabels: LabelConfig[]): string {
+  if (groupBy.key === 'status') {
+    return getStateLabel(key, todoStates)
+  }
+  if (groupBy.key === 'day') {
+    return key ? formatDateHeader(parseISO(key)) : "No activity"
+  }
+  const labelName = (id: string) => flatLabels.find(l => l.id === id)?.name ?? id
+  if (groupBy.labelId) {
+    const label = flatLabels.find(l => l.id === groupBy.labelId)
+    return key
+      ? `${labelName(groupBy.labelId)}: ${formatDisplayValue(key, label?.valueType)}`
+      : `No ${labelName(groupBy.labelId)}`
+  }
+  return key ? labelName(key) : "No label"
+}
+
 /**
  * Get the current todo state of a session
  * States are user-controlled, never automatic
@@ -302,6 +373,8 @@ interface SessionItemProps {
   onLabelsChange?: (sessionId: string, labels: string[]) => void
   /** Number of matches in ChatDisplay (only set when session is selected and loaded) */
   chatMatchCount?: number
+  /** Depth in the fork tree (0 = not nested under a parent session) */
+  branchDepth?: number
 }
 
 /**
@@ -331,6 +404,7 @@ function SessionItem({
   labels,
   onLabelsChange,
   chatMatchCount,
+  branchDepth = 0,
 }: SessionItemProps) {
   const [menuOpen, setMenuOpen] = useState(false)
   const [contextMenuOpen, setContextMenuOpen] = useState(false)
@@ -384,7 +458,11 @@ function SessionItem({
       {/* Wrapper for button + dropdown + context menu, group for hover state */}
       <ContextMenu modal={true} onOpenChange={setContextMenuOpen}>
         <ContextMenuTrigger asChild>
-          <div className="session-content relative group select-none pl-2 mr-2">
+          <div
+            className="session-content relative group select-none pl-2 mr-2"
+            // Indent forks under their parent session (capped to keep titles readable)
+            style={branchDepth > 0 ? { marginLeft: Math.min(branchDepth, 3) * 12 } : undefined}
+          >
         {/* Todo State Icon - positioned absolutely, outside the button */}
         <Popover modal={true} open={todoMenuOpen} onOpenChange={setTodoMenuOpen}>
           <PopoverTrigger asChild>
@@ -475,6 +553,14 @@ function SessionItem({
                 className="flex-1 flex items-center gap-1 min-w-0 overflow-x-auto scrollbar-hide pr-4"
                 style={{ maskImage: 'linear-gradient(to right, black calc(100% - 16px), transparent 100%)', WebkitMaskImage: 'linear-gradient(to right, black calc(100% - 16px), transparent 100%)' }}
               >
+                {item.parentSessionId && (
+                  <span
+                    className="shrink-0 h-[18px] w-[18px] flex items-center justify-center rounded bg-foreground/5"
+                    title="Forked session"
+                  >
+                    <GitBranch className="h-[10px] w-[10px] text-foreground/60" />
+                  </span>
+                )}
                 {item.isFlagged && (
                   <span className="shrink-0 h-[18px] w-[18px] flex items-center justify-center rounded bg-foreground/5">
                     <Flag className="h-[10px] w-[10px] text-info fill-info" />
@@ -775,6 +861,10 @@ interface SessionListProps {
   todoStates?: TodoState[]
   /** View evaluator — evaluates a session and returns matching view configs */
   evaluateViews?: (meta: SessionMeta) => ViewConfig[]
+  /** View configs — when a view is the current filter, its sort and groupBy order the list */
+  views?: ViewConfig[]
+  /** Builds the view evaluation context for a session (from useViews), used for view sorting/grouping */
+  getSessionContext?: (meta: SessionMeta) => ViewEvaluationContext
   /** Label configs for resolving session label IDs to display info */
   labels?: LabelConfig[]
   /** Callback when session labels are toggled (for labels submenu in SessionMenu) */
@@ -819,6 +909,8 @@ export function SessionList({
   onSearchClose,
   todoStates = [],
   evaluateViews,
+  views = [],
+  getSessionContext,
   labels = [],
   onLabelsChange,
   workspaceId,
@@ -929,10 +1021,20 @@ export function SessionList({
     }
   }, [searchActive])
 
-  // Sort by most recent activity first
-  const sortedItems = [...visibleItems].sort((a, b) =>
-    (b.lastMessageAt || 0) - (a.lastMessageAt || 0)
-  )
+  // View selected as the current filter - its sort and groupBy apply to the list
+  const activeView = currentFilter?.kind === 'view'
+    ? views.find(view => view.id === currentFilter.viewId)
+    : undefined
+
+  // Sort by the view's sort config, otherwise by most recent activity first
+  const sortedItems = useMemo(() => {
+    if (activeView?.sort && getSessionContext) {
+      return sortViewSessions(visibleItems, activeView.sort, getSessionContext)
+    }
+    return [...visibleItems].sort((a, b) =>
+      (b.lastMessageAt || 0) - (a.lastMessageAt || 0)
+    )
+  }, [visibleItems, activeView, getSessionContext])
 
   // Filter items by search query — ripgrep content search only for consistent results
   // When not in search mode, apply current filter to maintain filtered view
@@ -1058,8 +1160,23 @@ export function SessionList({
     return () => observer.disconnect()
   }, [hasMore, loadMore])
 
-  // Group sessions by date (only used in normal mode, not search mode)
-  const dateGroups = useMemo(() => groupSessionsByDate(paginatedItems), [paginatedItems])
+  // Group sessions into sections (only used in normal mode, not search mode):
+  // by the view's groupBy, a single list for custom view sorts, otherwise by date
+  const sessionGroups = useMemo((): SessionGroup[] => {
+    const groupBy = activeView?.groupBy
+    if (groupBy && getSessionContext) {
+      const statusOrder = todoStates.map(state => state.id)
+      return groupViewSessions(paginatedItems, groupBy, getSessionContext, { statusOrder }).map(group => ({
+        key: group.key,
+        label: formatViewGroupHeader(group.key, groupBy, todoStates, flatLabels),
+        ...orderSessionsAsBranchTree(group.items),
+      }))
+    }
+    if (activeView?.sort) {
+      return [{ key: 'all', label: '', ...orderSessionsAsBranchTree(paginatedItems) }]
+    }
+    return groupSessionsByDate(paginatedItems)
+  }, [paginatedItems, activeView, getSessionContext, todoStates, flatLabels])
 
   // Create flat list for keyboard navigation (maintains order across groups/sections)
   const flatItems = useMemo(() => {
@@ -1067,9 +1184,9 @@ export function SessionList({
       // Search mode: flat list of matching + other results (no date grouping)
       return [...matchingFilterItems, ...otherResultItems]
     }
-    // Normal mode: flatten date groups
-    return dateGroups.flatMap(group => group.sessions)
-  }, [isSearchMode, matchingFilterItems, otherResultItems, dateGroups])
+    // Normal mode: flatten groups
+    return sessionGroups.flatMap(group => group.sessions)
+  }, [isSearchMode, matchingFilterItems, otherResultItems, sessionGroups])
 
   // Create a lookup map for session ID -> flat index
   const sessionIndexMap = useMemo(() => {
@@ -1420,10 +1537,10 @@ export function SessionList({
               )}
             </>
           ) : (
-            /* Normal mode: show date-grouped sessions */
-            dateGroups.map((group) => (
-              <div key={group.date.toISOString()}>
-                <SessionListSectionHeader label={group.label} />
+            /* Normal mode: show grouped sessions (by date unless the view configures otherwise) */
+            sessionGroups.map((group) => (
+              <div key={group.key}>
+                {group.label && <SessionListSectionHeader label={group.label} />}
                 {group.sessions.map((item, indexInGroup) => {
                   const flatIndex = sessionIndexMap.get(item.id) ?? 0
                   const itemProps = getItemProps(item, flatIndex)
@@ -1461,6 +1578,7 @@ export function SessionList({
                       labels={labels}
                       onLabelsChange={onLabelsChange}
                       chatMatchCount={contentSearchResults.get(item.id)?.matchCount}
+                      branchDepth={group.branchDepths.get(item.id)}
                     />
                   )
                 })}
@@ -9,7 +9,8 @@
  * primitives, allowing the same component to work in both scenarios.
  *
  * Provides consistent session actions:
- * - Share / Shared submenu
+ * - Share submenu (link, password, expiry) / Shared submenu
+ * - Export submenu (Markdown, HTML, PDF - local, nothing is uploaded)
  * - Status submenu
  * - Flag/Unflag
  * - Mark as Unread
@@ -35,6 +36,9 @@ import {
   RefreshCw,
   Tag,
   Check,
+  FileDown,
+  Link,
+  Lock,
 } from 'lucide-react'
 import { toast } from 'sonner'
 import { useMenuComponents, type MenuComponents } from '@/components/ui/menu-context'
@@ -43,6 +47,27 @@ import type { TodoState } from '@/config/todo-states'
 import type { LabelConfig } from '@craft-agent/shared/labels'
 import { extractLabelId } from '@craft-agent/shared/labels'
 import { LabelIcon } from '@/components/ui/label-icon'
+import { exportSession, getSessionExportOptions, setSessionExportOptions } from '@/lib/session-export'
+import {
+  SHARE_EXPIRY_OPTIONS,
+  getShareExpiry,
+  setShareExpiry,
+  shareSession,
+  type ShareExpiry,
+} from '@/lib/session-share'
+import type { SessionExportFormat, SessionExportOptions } from '../../../shared/types'
+
+const EXPORT_FORMATS: { format: SessionExportFormat; label: string }[] = [
+  { format: 'markdown', label: 'Markdown' },
+  { format: 'html', label: 'HTML' },
+  { format: 'pdf', label: 'PDF' },
+]
+
+const EXPORT_OPTION_TOGGLES: { key: keyof SessionExportOptions; label: string }[] = [
+  { key: 'includeToolCalls', label: 'Include Tool Calls' },
+  { key: 'includeThinking', label: 'Include Thinking' },
+  { key: 'includeAttachments', label: 'Include Attachments' },
+]
 
 export interface SessionMenuProps {
   /** Session ID */
@@ -101,21 +126,12 @@ export function SessionMenu({
   onOpenInNewWindow,
   onDelete,
 }: SessionMenuProps) {
-  // Share handlers
-  const handleShare = async () => {
-    const result = await window.electronAPI.sessionCommand(sessionId, { type: 'shareToViewer' }) as { success: boolean; url?: string; error?: string } | undefined
-    if (result?.success && result.url) {
-      await navigator.clipboard.writeText(result.url)
-      toast.success('Link copied to clipboard', {
-        description: result.url,
-        action: {
-          label: 'Open',
-          onClick: () => window.electronAPI.openUrl(result.url!),
-        },
-      })
-    } else {
-      toast.error('Failed to share', { description: result?.error || 'Unknown error' })
-    }
+  // Share handlers (expiry persists across shares)
+  const [shareExpiry, setShareExpiryState] = React.useState<ShareExpiry>(getShareExpiry)
+
+  const handleShareExpiryChange = (expiry: ShareExpiry) => {
+    setShareExpiryState(expiry)
+    setShareExpiry(expiry)
   }
 
   const handleOpenInBrowser = () => {
@@ -147,6 +163,32 @@ export function SessionMenu({
     }
   }
 
+  // Export handlers (options persist across exports)
+  const [exportOptions, setExportOptions] = React.useState<SessionExportOptions>(getSessionExportOptions)
+
+  const handleExportOptionToggle = (key: keyof SessionExportOptions) => {
+    const next = { ...exportOptions, [key]: !exportOptions[key] }
+    setExportOptions(next)
+    setSessionExportOptions(next)
+  }
+
+  const handleExport = async (format: SessionExportFormat) => {
+    try {
+      const path = await exportSession(sessionId, format, exportOptions)
+      if (path) {
+        toast.success('Session exported', {
+          description: path,
+          action: {
+            label: 'Show',
+            onClick: () => window.electronAPI.showInFolder(path),
+          },
+        })
+      }
+    } catch (error) {
+      toast.error('Failed to export', { description: error instanceof Error ? error.message : 'Unknown error' })
+    }
+  }
+
   const handleShowInFinder = () => {
     window.electronAPI.sessionCommand(sessionId, { type: 'showInFinder' })
   }
@@ -195,10 +237,37 @@ export function SessionMenu({
     <>
       {/* Share/Shared based on shared state */}
       {!sharedUrl ? (
-        <MenuItem onClick={handleShare}>
-          <CloudUpload className="h-3.5 w-3.5" />
-          <span className="flex-1">Share</span>
-        </MenuItem>
+        <Sub>
+          <SubTrigger className="pr-2">
+            <CloudUpload className="h-3.5 w-3.5" />
+            <span className="flex-1">Share</span>
+          </SubTrigger>
+          <SubContent>
+            <MenuItem onClick={() => shareSession(sessionId)}>
+              <Link className="h-3.5 w-3.5" />
+              <span className="flex-1">Share Link</span>
+            </MenuItem>
+            <MenuItem onClick={() => shareSession(sessionId, true)}>
+              <Lock className="h-3.5 w-3.5" />
+              <span className="flex-1">Share with Password</span>
+            </MenuItem>
+            <Separator />
+            {SHARE_EXPIRY_OPTIONS.map(({ value, label }) => (
+              <MenuItem
+                key={value}
+                onSelect={(e: Event) => {
+                  e.preventDefault()
+                  handleShareExpiryChange(value)
+                }}
+              >
+                <span className="flex-1">{label}</span>
+                <span className="w-3.5 ml-4">
+                  {shareExpiry === value && <Check className="h-3.5 w-3.5 text-foreground" />}
+                </span>
+              </MenuItem>
+            ))}
+          </SubContent>
+        </Sub>
       ) : (
         <Sub>
           <SubTrigger className="pr-2">
@@ -225,6 +294,38 @@ export function SessionMenu({
           </SubContent>
         </Sub>
       )}
+
+      {/* Export submenu - local files, nothing leaves the machine */}
+      {hasMessages && (
+        <Sub>
+          <SubTrigger className="pr-2">
+            <FileDown className="h-3.5 w-3.5" />
+            <span className="flex-1">Export</span>
+          </SubTrigger>
+          <SubContent>
+            {EXPORT_FORMATS.map(({ format, label }) => (
+              <MenuItem key={format} onClick={() => handleExport(format)}>
+                <span className="flex-1">{label}</span>
+              </MenuItem>
+            ))}
+            <Separator />
+            {EXPORT_OPTION_TOGGLES.map(({ key, label }) => (
+              <MenuItem
+                key={key}
+                onSelect={(e: Event) => {
+                  e.preventDefault()
+                  handleExportOptionToggle(key)
+                }}
+              >
+                <span className="flex-1">{label}</span>
+                <span className="w-3.5 ml-4">
+                  {exportOptions[key] && <Check className="h-3.5 w-3.5 text-foreground" />}
+                </span>
+              </MenuItem>
+            ))}
+          </SubContent>
+        </Sub>
+      )}
       <Separator />
 
       {/* Status submenu - includes all statuses plus Flag/Unflag at the bottom */}
@@ -0,0 +1,102 @@
+import * as React from "react"
+import { previewViewExpression, type ViewConfig, type ViewEvaluationContext } from "@craft-agent/shared/views"
+import { Input } from "@/components/ui/input"
+import { cn } from "@/lib/utils"
+import { getSessionTitle } from "@/utils/session"
+import type { SessionMeta } from "@/atoms/sessions"
+
+/** Matching sessions listed by name (the rest are counted) */
+const MAX_LISTED_MATCHES = 5
+
+interface ViewExpressionPreviewProps {
+  /** Sessions to test the expression against (the current workspace's sessions) */
+  sessions: SessionMeta[]
+  /** Builds the context expressions see for a session (from useViews) */
+  getSessionContext: (meta: SessionMeta) => ViewEvaluationContext
+  /** Existing views, offered as starting points */
+  views?: ViewConfig[]
+  /** Called when a matching session is clicked */
+  onSessionClick?: (sessionId: string) => void
+  className?: string
+}
+
+/**
+ * ViewExpressionPreview - "Test this expression" panel for the views editor
+ *
+ * Evaluates an unsaved Filtrex expression against the current sessions on
+ * every keystroke and shows which sessions match, or why the expression is invalid.
+ */
+export function ViewExpressionPreview({
+  sessions,
+  getSessionContext,
+  views = [],
+  onSessionClick,
+  className,
+}: ViewExpressionPreviewProps) {
+  const [expression, setExpression] = React.useState('')
+
+  const preview = React.useMemo(() => {
+    if (!expression.trim()) return null
+    return previewViewExpression(expression, sessions, getSessionContext)
+  }, [expression, sessions, getSessionContext])
+
+  const listed = preview?.matches.slice(0, MAX_LISTED_MATCHES) ?? []
+  const moreCount = (preview?.matches.length ?? 0) - listed.length
+
+  return (
+    <div className={cn("flex flex-col gap-1.5 px-3 pt-8 pb-2 border-b border-foreground/5", className)}>
+      <div className="flex items-center justify-between text-xs text-muted-foreground">
+        <span>Test an expression</span>
+        {views.length > 0 && (
+          <select
+            className="bg-transparent text-xs text-muted-foreground outline-none"
+            value=""
+            onChange={(e) => {
+              const view = views.find(v => v.id === e.target.value)
+              if (view) setExpression(view.expression)
+            }}
+          >
+            <option value="" disabled>Load view…</option>
+            {views.map(view => (
+              <option key={view.id} value={view.id}>{view.name}</option>
+            ))}
+          </select>
+        )}
+      </div>
+      <Input
+        value={expression}
+        onChange={(e) => setExpression(e.target.value)}
+        placeholder='labelValue("priority") >= 3 and statusCategory == "open"'
+        className="h-8 font-mono text-xs"
+        spellCheck={false}
+      />
+      {preview && (
+        preview.error ? (
+          <div className="text-xs text-destructive">{preview.error}</div>
+        ) : (
+          <div className="flex flex-col gap-0.5 text-xs">
+            <span className="text-muted-foreground">
+              {preview.matches.length} of {sessions.length} sessions match
+              {preview.runtimeErrorCount > 0 && (
+                <> · {preview.runtimeErrorCount} could not be evaluated ({preview.runtimeError})</>
+              )}
+            </span>
+            {listed.map(meta => (
+              <button
+                key={meta.id}
+                type="button"
+                onClick={() => onSessionClick?.(meta.id)}
+                className="truncate text-left text-foreground/80 hover:text-foreground"
+              >
+                {getSessionTitle(meta)}
+              </button>
+            ))}
+            {moreCount > 0 && (
+              <span className="text-muted-foreground">and {moreCount} more</span>
+            )}
+          </div>
+        )
+      )}
+    </div>
+  )
+}
@@ -20,12 +20,14 @@ import {
   InlineSlashCommand,
   useInlineSlashCommand,
   type SlashCommandId,
+  type SlashPromptItem,
 } from '@/components/ui/slash-command-menu'
 import {
   InlineMentionMenu,
   useInlineMention,
   type MentionItem,
   type MentionItemType,
+  type MentionResource,
 } from '@/components/ui/mention-menu'
 import {
   InlineLabelMenu,
@@ -58,7 +60,7 @@ import { useOptionalAppShellContext } from '@/context/AppShellContext'
 import { EditPopover, getEditConfig } from '@/components/ui/EditPopover'
 import { SourceAvatar } from '@/components/ui/source-avatar'
 import { FreeFormInputContextBadge } from './FreeFormInputContextBadge'
-import type { FileAttachment, LoadedSource, LoadedSkill } from '../../../../shared/types'
+import type { FileAttachment, LoadedSource, LoadedSkill, McpCatalogResult, ProviderProfileInfo } from '../../../../shared/types'
 import type { PermissionMode } from '@craft-agent/shared/agent/modes'
 import { PERMISSION_MODE_ORDER } from '@craft-agent/shared/agent/modes'
 import { type ThinkingLevel, THINKING_LEVELS, getThinkingLevelName } from '@craft-agent/shared/agent/thinking-levels'
@@ -125,6 +127,11 @@ export interface FreeFormInputProps {
   thinkingLevel?: ThinkingLevel
   /** Callback when thinking level changes */
   onThinkingLevelChange?: (level: ThinkingLevel) => void
+  // Provider profile (session-level setting)
+  /** Provider profile selected for this session (undefined = workspace/app default) */
+  providerProfileId?: string
+  /** Callback when provider profile changes (null = default) */
+  onProviderProfileChange?: (profileId: string | null) => void
   // Advanced options
   ultrathinkEnabled?: boolean
   onUltrathinkChange?: (enabled: boolean) => void
@@ -210,6 +217,8 @@ export function FreeFormInput({
   onModelChange,
   thinkingLevel = 'think',
   onThinkingLevelChange,
+  providerProfileId,
+  onProviderProfileChange,
   ultrathinkEnabled = false,
   onUltrathinkChange,
   permissionMode = 'ask',
@@ -331,6 +340,16 @@ export function FreeFormInput({
   const [inputMaxHeight, setInputMaxHeight] = React.useState(540)
   const [modelDropdownOpen, setModelDropdownOpen] = React.useState(false)
 
+  // Provider profiles for the model menu (refreshed each time it opens)
+  const [providerProfiles, setProviderProfiles] = React.useState<ProviderProfileInfo[]>([])
+  React.useEffect(() => {
+    if (!modelDropdownOpen || !onProviderProfileChange || !window.electronAPI) return
+    window.electronAPI.getProviderProfiles()
+      .then(state => setProviderProfiles(state.profiles))
+      .catch(error => console.error('Failed to load provider profiles:', error))
+  }, [modelDropdownOpen, onProviderProfileChange])
+  const selectedProviderProfile = providerProfiles.find(p => p.id === providerProfileId)
+
   // Input settings (loaded from config)
   const [autoCapitalisation, setAutoCapitalisation] = React.useState(true)
   const [sendMessageKey, setSendMessageKey] = React.useState<'enter' | 'cmd-enter'>('enter')
@@ -649,17 +668,95 @@ export function FreeFormInput({
     })
   }, [])
 
-  // Inline slash command hook (modes, features, and folders)
+  // MCP resources and prompts of enabled sources, fetched when the @ or / menu opens
+  const [mcpCatalogs, setMcpCatalogs] = React.useState<Record<string, McpCatalogResult>>({})
+  const requestedCatalogsRef = React.useRef(new Set<string>())
+
+  const catalogSources = React.useMemo(() => sources.filter(source =>
+    source.config.type === 'mcp' &&
+    optimisticSourceSlugs.includes(source.config.slug) &&
+    source.config.connectionStatus !== 'needs_auth' &&
+    source.config.connectionStatus !== 'failed' &&
+    source.config.connectionStatus !== 'local_disabled'
+  ), [sources, optimisticSourceSlugs])
+
+  const mentionResources = React.useMemo((): MentionResource[] => catalogSources.flatMap(source =>
+    (mcpCatalogs[source.config.slug]?.resources ?? []).map(resource => ({ source, ...resource }))
+  ), [catalogSources, mcpCatalogs])
+
+  const slashPrompts = React.useMemo((): SlashPromptItem[] => catalogSources.flatMap(source =>
+    (mcpCatalogs[source.config.slug]?.prompts ?? []).map(prompt => ({
+      id: `${source.config.slug}:${prompt.name}`,
+      type: 'prompt' as const,
+      label: prompt.title || prompt.name,
+      description: source.config.name,
+      sourceSlug: source.config.slug,
+      name: prompt.name,
+      arguments: (prompt.arguments ?? []).map(arg => arg.name),
+    }))
+  ), [catalogSources, mcpCatalogs])
+
+  // Handle prompt selection from slash menu: fetch the prompt and insert its text.
+  // Arguments are filled with {{name}} placeholders for the user to replace.
+  const handleSlashPromptSelect = React.useCallback(async (prompt: SlashPromptItem) => {
+    if (!workspaceId) return
+    const args = Object.fromEntries(prompt.arguments.map(name => [name, `{{${name}}}`]))
+    try {
+      const result = await window.electronAPI.getMcpPrompt(workspaceId, prompt.sourceSlug, prompt.name, args)
+      if (!result.success || result.text === undefined) {
+        toast.error(`Failed to load prompt "${prompt.label}"`, { description: result.error })
+        return
+      }
+      const current = inputRef.current.trim()
+      const newValue = current ? `${current}\n\n${result.text}` : result.text
+      setInput(newValue)
+      syncToParent(newValue)
+      richInputRef.current?.focus()
+    } catch (err) {
+      toast.error(`Failed to load prompt "${prompt.label}"`, {
+        description: err instanceof Error ? err.message : 'Unknown error',
+      })
+    }
+  }, [workspaceId, syncToParent, richInputRef])
+
+  // Inline slash command hook (modes, features, prompts, and folders)
   const inlineSlash = useInlineSlashCommand({
     inputRef: richInputRef,
     onSelectCommand: handleSlashCommand,
     onSelectFolder: handleSlashFolderSelect,
+    onSelectPrompt: handleSlashPromptSelect,
     activeCommands,
     recentFolders,
     homeDir,
+    prompts: slashPrompts,
   })
 
-  // Handle mention selection (sources, skills, files)
+  // Handle resource selection from mention menu: read it and add it as an attachment
+  const attachMcpResource = React.useCallback(async (item: MentionItem) => {
+    if (!workspaceId || !item.resource) return
+    const { sourceSlug, uri } = item.resource
+    setLoadingCount(prev => prev + 1)
+    try {
+      const result = await window.electronAPI.readMcpResource(workspaceId, sourceSlug, uri)
+      if (!result.success) {
+        toast.error(`Failed to read resource "${item.label}"`, { description: result.error })
+        return
+      }
+      const mimeType = result.mimeType || item.resource.mimeType || 'text/plain'
+      const attachment: FileAttachment = result.base64 !== undefined
+        ? { type: 'image', path: uri, name: item.label, mimeType, base64: result.base64, size: Math.floor(result.base64.length * 3 / 4) }
+        : { type: 'text', path: uri, name: item.label, mimeType, text: result.text ?? '', size: new Blob([result.text ?? '']).size }
+      setAttachments(prev => [...prev, attachment])
+    } catch (err) {
+      toast.error(`Failed to read resource "${item.label}"`, {
+        description: err instanceof Error ? err.message : 'Unknown error',
+      })
+    } finally {
+      setLoadingCount(prev => prev - 1)
+    }
+  }, [workspaceId])
+
+  // Handle mention selection (sources, skills, files, resources)
   const handleMentionSelect = React.useCallback((item: MentionItem) => {
     // For sources: enable the source immediately
     if (item.type === 'source' && item.source && onSourcesChange) {
@@ -671,20 +768,40 @@ export function FreeFormInput({
       }
     }
 
+    // For resources: attach the resource contents to the message
+    if (item.type === 'resource') {
+      attachMcpResource(item)
+    }
+
     // Files via @ mention: [file:path] in text is sufficient context for the agent.
     // Skills also don't need special handling beyond text insertion.
-  }, [optimisticSourceSlugs, onSourcesChange])
+  }, [optimisticSourceSlugs, onSourcesChange, attachMcpResource])
 
-  // Inline mention hook (for skills, sources, and files)
+  // Inline mention hook (for skills, sources, resources, and files)
   const inlineMention = useInlineMention({
     inputRef: richInputRef,
     skills,
     sources,
+    resources: mentionResources,
     basePath: workingDirectory,
     onSelect: handleMentionSelect,
     workspaceId,
   })
 
+  // Fetch resources and prompts for enabled MCP sources the first time a menu opens
+  const catalogMenuOpen = inlineMention.isOpen || inlineSlash.isOpen
+  React.useEffect(() => {
+    if (!catalogMenuOpen || !workspaceId) return
+    for (const source of catalogSources) {
+      const slug = source.config.slug
+      if (requestedCatalogsRef.current.has(slug)) continue
+      requestedCatalogsRef.current.add(slug)
+      window.electronAPI.getMcpCatalog(workspaceId, slug)
+        .then(result => setMcpCatalogs(prev => ({ ...prev, [slug]: result })))
+        .catch(err => console.error(`[FreeFormInput] Failed to load MCP catalog for ${slug}:`, err))
+    }
+  }, [catalogMenuOpen, catalogSources, workspaceId])
+
   // Inline label menu hook (for #labels)
   const handleLabelSelect = React.useCallback((labelId: string) => {
     onLabelAdd?.(labelId)
@@ -1158,6 +1275,14 @@ export function FreeFormInput({
     richInputRef.current?.focus()
   }, [inlineSlash, syncToParent])
 
+  // Handle inline slash prompt selection (removes the /command text, prompt text follows)
+  const handleInlineSlashPromptSelect = React.useCallback((prompt: SlashPromptItem) => {
+    const newValue = inlineSlash.handleSelectPrompt(prompt)
+    setInput(newValue)
+    syncToParent(newValue)
+    richInputRef.current?.focus()
+  }, [inlineSlash, syncToParent])
+
   // Handle inline mention selection (inserts appropriate mention text)
   const handleInlineMentionSelect = React.useCallback((item: MentionItem) => {
     const { value: newValue, cursorPosition } = inlineMention.handleSelect(item)
@@ -1215,11 +1340,12 @@ export function FreeFormInput({
           activeCommands={activeCommands}
           onSelectCommand={handleInlineSlashCommandSelect}
           onSelectFolder={handleInlineSlashFolderSelect}
+          onSelectPrompt={handleInlineSlashPromptSelect}
           filter={inlineSlash.filter}
           position={inlineSlash.position}
         />
 
-        {/* Inline Mention Autocomplete (skills, sources, files) */}
+        {/* Inline Mention Autocomplete (skills, sources, resources, files) */}
         <InlineMentionMenu
           open={inlineMention.isOpen}
           onOpenChange={(open) => !open && inlineMention.close()}
@@ -1572,6 +1698,42 @@ export function FreeFormInput({
                 })
               )}
 
+              {/* Provider profile selector — only shown once profiles are configured in App settings */}
+              {onProviderProfileChange && providerProfiles.length > 0 && (
+                <>
+                  <StyledDropdownMenuSeparator className="my-1" />
+
+                  <DropdownMenuSub>
+                    <StyledDropdownMenuSubTrigger className="flex items-center justify-between px-2 py-2 rounded-lg">
+                      <div className="text-left flex-1">
+                        <div className="font-medium text-sm">{selectedProviderProfile?.name ?? 'Default provider'}</div>
+                        <div className="text-xs text-muted-foreground">Connection for this chat</div>
+                      </div>
+                    </StyledDropdownMenuSubTrigger>
+                    <StyledDropdownMenuSubContent className="min-w-[220px]">
+                      {[{ id: null, name: 'Default provider', description: 'Workspace or app default' }, ...providerProfiles.map(p => ({ id: p.id, name: p.name, description: p.models?.join(', ') || p.baseUrl || '' }))].map(({ id, name, description }) => {
+                        const isSelected = (selectedProviderProfile?.id ?? null) === id
+                        return (
+                          <StyledDropdownMenuItem
+                            key={id ?? 'default'}
+                            onSelect={() => onProviderProfileChange(id)}
+                            className="flex items-center justify-between px-2 py-2 rounded-lg cursor-pointer"
+                          >
+                            <div className="text-left">
+                              <div className="font-medium text-sm">{name}</div>
+                              {description && <div className="text-xs text-muted-foreground">{description}</div>}
+                            </div>
+                            {isSelected && (
+                              <Check className="h-4 w-4 text-foreground shrink-0 ml-3" />
+                            )}
+                          </StyledDropdownMenuItem>
+                        )
+                      })}
+                    </StyledDropdownMenuSubContent>
+                  </DropdownMenuSub>
+                </>
+              )}
+
               {/* Thinking level selector — only shown for Claude models (extended thinking is Claude-specific) */}
               {(!customModel || isClaudeModel(customModel)) && (
                 <>
@@ -1,7 +1,9 @@
-import { Shield, Check, X, RefreshCw } from 'lucide-react'
+import { Shield, Check, X, RefreshCw, ChevronDown } from 'lucide-react'
 import { Button } from '@/components/ui/button'
+import { DropdownMenu, DropdownMenuTrigger } from '@/components/ui/dropdown-menu'
+import { StyledDropdownMenuContent, StyledDropdownMenuItem } from '@/components/ui/styled-dropdown'
 import { cn } from '@/lib/utils'
-import type { PermissionRequest as PermissionRequestType } from '../../../../../shared/types'
+import type { AlwaysAllowScope, PermissionRequest as PermissionRequestType } from '../../../../../shared/types'
 import type { PermissionResponse } from './types'
 
 interface PermissionRequestProps {
@@ -19,7 +21,11 @@ interface PermissionRequestProps {
  * - Tool name badge
  * - Description of what the tool wants to do
  * - Command preview (scrollable)
- * - Action buttons: Allow, Always Allow, Deny
+ * - Action buttons: Allow, Always Allow (for this session, workspace or all workspaces), Deny
+ *
+ * Workspace and global approvals are saved as rules in permissions.json and can be
+ * revoked in Settings → Permissions. They are only offered when the agent can
+ * express the request as a rule (request.alwaysAllowTarget).
  */
 export function PermissionRequest({ request, onResponse, unstyled = false }: PermissionRequestProps) {
 
@@ -27,8 +33,8 @@ export function PermissionRequest({ request, onResponse, unstyled = false }: Per
     onResponse({ type: 'permission', allowed: true, alwaysAllow: false })
   }
 
-  const handleAlwaysAllow = () => {
-    onResponse({ type: 'permission', allowed: true, alwaysAllow: true })
+  const handleAlwaysAllow = (scope: AlwaysAllowScope) => {
+    onResponse({ type: 'permission', allowed: true, alwaysAllow: scope })
   }
 
   const handleDeny = () => {
@@ -83,15 +89,36 @@ export function PermissionRequest({ request, onResponse, unstyled = false }: Per
           <Check className="h-3.5 w-3.5" />
           Allow
         </Button>
-        <Button
-          size="sm"
-          variant="ghost"
-          className="h-7 gap-1.5 border border-foreground/10 hover:bg-foreground/5 active:bg-foreground/10"
-          onClick={handleAlwaysAllow}
-        >
-          <RefreshCw className="h-3.5 w-3.5" />
-          Always Allow
-        </Button>
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button
+              size="sm"
+              variant="ghost"
+              className="h-7 gap-1.5 border border-foreground/10 hover:bg-foreground/5 active:bg-foreground/10"
+            >
+              <RefreshCw className="h-3.5 w-3.5" />
+              Always Allow
+              <ChevronDown className="h-3 w-3 opacity-60" />
+            </Button>
+          </DropdownMenuTrigger>
+          <StyledDropdownMenuContent align="start">
+            <StyledDropdownMenuItem onClick={() => handleAlwaysAllow('session')}>
+              For this session
+            </StyledDropdownMenuItem>
+            <StyledDropdownMenuItem
+              disabled={!request.alwaysAllowTarget}
+              onClick={() => handleAlwaysAllow('workspace')}
+            >
+              For this workspace
+            </StyledDropdownMenuItem>
+            <StyledDropdownMenuItem
+              disabled={!request.alwaysAllowTarget}
+              onClick={() => handleAlwaysAllow('global')}
+            >
+              For all workspaces
+            </StyledDropdownMenuItem>
+          </StyledDropdownMenuContent>
+        </DropdownMenu>
         <Button
           size="sm"
           variant="ghost"
@@ -106,8 +133,10 @@ export function PermissionRequest({ request, onResponse, unstyled = false }: Per
         <div className="flex-1" />
 
         {/* Tip text */}
-        <span className="text-[10px] text-muted-foreground">
-          "Always Allow" remembers this command for the session
+        <span className="text-[10px] text-muted-foreground truncate">
+          {request.alwaysAllowTarget
+            ? <>"Always Allow" covers <span className="font-mono">{request.alwaysAllowTarget}</span></>
+            : '"Always Allow" remembers this command for the session'}
         </span>
       </div>
     </div>
@@ -1,4 +1,4 @@
-import type { PermissionRequest, CredentialRequest, CredentialResponse } from '../../../../../shared/types'
+import type { PermissionRequest, CredentialRequest, CredentialResponse, AlwaysAllowScope } from '../../../../../shared/types'
 
 /**
  * Input mode determines which component is rendered in InputContainer
@@ -31,7 +31,8 @@ export interface StructuredInputState {
 export interface PermissionResponse {
   type: 'permission'
   allowed: boolean
-  alwaysAllow: boolean
+  /** Where to remember the approval, or false to allow once */
+  alwaysAllow: AlwaysAllowScope | false
 }
 
 /**
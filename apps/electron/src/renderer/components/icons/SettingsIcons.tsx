@@ -109,6 +109,38 @@ export const LabelsIcon = ({ className }: IconProps) => (
   </svg>
 )
 
+/** Clock icon for schedules */
+export const SchedulesIcon = ({ className }: IconProps) => (
+  <svg
+    viewBox="0 0 24 24"
+    fill="none"
+    xmlns="http://www.w3.org/2000/svg"
+    className={className}
+  >
+    <path
+      fillRule="evenodd"
+      clipRule="evenodd"
+      d="M12 2C17.5228 2 22 6.47715 22 12C22 17.5228 17.5228 22 12 22C6.47715 22 2 17.5228 2 12C2 6.47715 6.47715 2 12 2ZM12 6C11.4477 6 11 6.44772 11 7V12C11 12.2652 11.1054 12.5196 11.2929 12.7071L14.2929 15.7071C14.6834 16.0976 15.3166 16.0976 15.7071 15.7071C16.0976 15.3166 16.0976 14.6834 15.7071 14.2929L13 11.5858V7C13 6.44772 12.5523 6 12 6Z"
+      fill="currentColor"
+    />
+  </svg>
+)
+
+/** Bar chart icon for usage */
+export const UsageIcon = ({ className }: IconProps) => (
+  <svg
+    viewBox="0 0 24 24"
+    fill="none"
+    xmlns="http://www.w3.org/2000/svg"
+    className={className}
+  >
+    <path
+      d="M5 13C5 12.4477 5.44772 12 6 12H7C7.55228 12 8 12.4477 8 13V20H5V13ZM10.5 8C10.5 7.44772 10.9477 7 11.5 7H12.5C13.0523 7 13.5 7.44772 13.5 8V20H10.5V8ZM16 4C16 3.44772 16.4477 3 17 3H18C18.5523 3 19 3.44772 19 4V20H16V4ZM3 20H21C21.5523 20 22 20.4477 22 21C22 21.5523 21.5523 22 21 22H3C2.44772 22 2 21.5523 2 21C2 20.4477 2.44772 20 3 20Z"
+      fill="currentColor"
+    />
+  </svg>
+)
+
 /** Keyboard icon for shortcuts */
 export const ShortcutsIcon = ({ className }: IconProps) => (
   <svg
@@ -152,6 +184,8 @@ export const SETTINGS_ICONS: Record<SettingsSubpage, React.ComponentType<IconPro
   workspace: WorkspaceIcon,
   permissions: PermissionsIcon,
   labels: LabelsIcon,
+  schedules: SchedulesIcon,
+  usage: UsageIcon,
   shortcuts: ShortcutsIcon,
   preferences: PreferencesIcon,
 }
@@ -2,13 +2,14 @@
  * PermissionsDataTable
  *
  * Typed Data Table for displaying source permissions.
- * Features: searchable patterns, sortable columns, max-height scroll, fullscreen view.
+ * Features: searchable patterns, sortable columns, max-height scroll, fullscreen view,
+ * optional source column and revoke action (for saved "always allow" rules).
  */
 
 import * as React from 'react'
-import { useState } from 'react'
+import { useMemo, useState } from 'react'
 import type { ColumnDef } from '@tanstack/react-table'
-import { Maximize2 } from 'lucide-react'
+import { Maximize2, Trash2 } from 'lucide-react'
 import { Info_DataTable, SortableHeader } from './Info_DataTable'
 import { Info_Badge } from './Info_Badge'
 import { Info_StatusBadge } from './Info_StatusBadge'
@@ -19,19 +20,25 @@ import { useTheme } from '@/hooks/useTheme'
 import { toast } from 'sonner'
 
 export type PermissionAccess = 'allowed' | 'blocked'
-export type PermissionType = 'tool' | 'bash' | 'api' | 'mcp'
+export type PermissionType = 'tool' | 'bash' | 'api' | 'mcp' | 'domain'
 
 export interface PermissionRow {
   access: PermissionAccess
   type: PermissionType
   pattern: string
   comment?: string | null
+  /** Where the rule is stored (e.g. "Workspace", "All workspaces") */
+  source?: string
 }
 
 interface PermissionsDataTableProps {
   data: PermissionRow[]
   /** Hide the type column (for MCP sources that only show pattern/comment) */
   hideTypeColumn?: boolean
+  /** Show the source column (where each rule is stored) */
+  showSourceColumn?: boolean
+  /** Show a revoke button on each row */
+  onRevoke?: (row: PermissionRow) => void
   /** Show search input */
   searchable?: boolean
   /** Max height with scroll */
@@ -83,94 +90,93 @@ function PatternBadge({ pattern }: { pattern: string }) {
   return badge
 }
 
-// Column definitions with sorting
-const columnsWithType: ColumnDef<PermissionRow>[] = [
-  {
-    accessorKey: 'access',
-    header: ({ column }) => <SortableHeader column={column} title="Access" />,
-    cell: ({ row }) => (
-      <div className="p-1.5 pl-2.5">
-        <Info_StatusBadge status={row.original.access} className="whitespace-nowrap" />
-      </div>
-    ),
-    minSize: 80,
-  },
-  {
-    accessorKey: 'type',
-    header: ({ column }) => <SortableHeader column={column} title="Type" />,
-    cell: ({ row }) => (
-      <div className="p-1.5 pl-2.5">
-        <Info_Badge color="muted" className="capitalize whitespace-nowrap">
-          {row.original.type}
-        </Info_Badge>
-      </div>
-    ),
-    minSize: 80,
-  },
-  {
-    accessorKey: 'pattern',
-    header: ({ column }) => <SortableHeader column={column} title="Pattern" />,
-    cell: ({ row }) => (
-      <div className="p-1.5 pl-2.5">
-        <PatternBadge pattern={row.original.pattern} />
-      </div>
-    ),
-    minSize: 100,
-  },
-  {
-    id: 'comment',
-    accessorKey: 'comment',
-    header: () => <span className="p-1.5 pl-2.5">Comment</span>,
-    cell: ({ row }) => (
-      <div className="p-1.5 pl-2.5 min-w-0">
-        <span className="truncate block">
-          {row.original.comment || '—'}
-        </span>
-      </div>
-    ),
-    meta: { fillWidth: true, truncate: true },
-  },
-]
-
-const columnsWithoutType: ColumnDef<PermissionRow>[] = [
-  {
-    accessorKey: 'access',
-    header: ({ column }) => <SortableHeader column={column} title="Access" />,
-    cell: ({ row }) => (
-      <div className="p-1.5 pl-2.5">
-        <Info_StatusBadge status={row.original.access} className="whitespace-nowrap" />
-      </div>
-    ),
-    minSize: 80,
-  },
-  {
-    accessorKey: 'pattern',
-    header: ({ column }) => <SortableHeader column={column} title="Pattern" />,
-    cell: ({ row }) => (
-      <div className="p-1.5 pl-2.5">
-        <PatternBadge pattern={row.original.pattern} />
-      </div>
-    ),
-    minSize: 100,
-  },
-  {
-    id: 'comment',
-    accessorKey: 'comment',
-    header: () => <span className="p-1.5 pl-2.5">Comment</span>,
+const accessColumn: ColumnDef<PermissionRow> = {
+  accessorKey: 'access',
+  header: ({ column }) => <SortableHeader column={column} title="Access" />,
+  cell: ({ row }) => (
+    <div className="p-1.5 pl-2.5">
+      <Info_StatusBadge status={row.original.access} className="whitespace-nowrap" />
+    </div>
+  ),
+  minSize: 80,
+}
+
+const typeColumn: ColumnDef<PermissionRow> = {
+  accessorKey: 'type',
+  header: ({ column }) => <SortableHeader column={column} title="Type" />,
+  cell: ({ row }) => (
+    <div className="p-1.5 pl-2.5">
+      <Info_Badge color="muted" className="capitalize whitespace-nowrap">
+        {row.original.type}
+      </Info_Badge>
+    </div>
+  ),
+  minSize: 80,
+}
+
+const patternColumn: ColumnDef<PermissionRow> = {
+  accessorKey: 'pattern',
+  header: ({ column }) => <SortableHeader column={column} title="Pattern" />,
+  cell: ({ row }) => (
+    <div className="p-1.5 pl-2.5">
+      <PatternBadge pattern={row.original.pattern} />
+    </div>
+  ),
+  minSize: 100,
+}
+
+const sourceColumn: ColumnDef<PermissionRow> = {
+  accessorKey: 'source',
+  header: ({ column }) => <SortableHeader column={column} title="Source" />,
+  cell: ({ row }) => (
+    <div className="p-1.5 pl-2.5">
+      <Info_Badge color="muted" className="whitespace-nowrap">
+        {row.original.source ?? '—'}
+      </Info_Badge>
+    </div>
+  ),
+  minSize: 80,
+}
+
+const commentColumn: ColumnDef<PermissionRow> = {
+  id: 'comment',
+  accessorKey: 'comment',
+  header: () => <span className="p-1.5 pl-2.5">Comment</span>,
+  cell: ({ row }) => (
+    <div className="p-1.5 pl-2.5 min-w-0">
+      <span className="truncate block">
+        {row.original.comment || '—'}
+      </span>
+    </div>
+  ),
+  meta: { fillWidth: true, truncate: true },
+}
+
+function buildRevokeColumn(onRevoke: (row: PermissionRow) => void): ColumnDef<PermissionRow> {
+  return {
+    id: 'revoke',
+    header: () => null,
     cell: ({ row }) => (
-      <div className="p-1.5 pl-2.5 min-w-0">
-        <span className="truncate block">
-          {row.original.comment || '—'}
-        </span>
+      <div className="p-1.5 pr-2.5 flex justify-end">
+        <button
+          type="button"
+          onClick={() => onRevoke(row.original)}
+          className="p-1 rounded-[6px] text-muted-foreground/60 hover:text-destructive hover:bg-destructive/10 transition-colors"
+          title="Revoke"
+        >
+          <Trash2 className="w-3.5 h-3.5" />
+        </button>
       </div>
     ),
-    meta: { fillWidth: true, truncate: true },
-  },
-]
+    minSize: 40,
+  }
+}
 
 export function PermissionsDataTable({
   data,
   hideTypeColumn = false,
+  showSourceColumn = false,
+  onRevoke,
   searchable = false,
   maxHeight = 400,
   fullscreen = false,
@@ -179,7 +185,14 @@ export function PermissionsDataTable({
 }: PermissionsDataTableProps) {
   const [isFullscreen, setIsFullscreen] = useState(false)
   const { isDark } = useTheme()
-  const columns = hideTypeColumn ? columnsWithoutType : columnsWithType
+  const columns = useMemo(() => [
+    accessColumn,
+    ...(hideTypeColumn ? [] : [typeColumn]),
+    patternColumn,
+    ...(showSourceColumn ? [sourceColumn] : []),
+    commentColumn,
+    ...(onRevoke ? [buildRevokeColumn(onRevoke)] : []),
+  ], [hideTypeColumn, showSourceColumn, onRevoke])
 
   // Fullscreen button for toolbar - shown on hover
   const fullscreenButton = fullscreen ? (
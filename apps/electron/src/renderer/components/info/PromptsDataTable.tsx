@@ -0,0 +1,87 @@
+/**
+ * PromptsDataTable
+ *
+ * Typed Data Table for displaying MCP prompt templates.
+ * Features: searchable prompts, sortable columns, max-height scroll.
+ */
+
+import * as React from 'react'
+import type { ColumnDef } from '@tanstack/react-table'
+import { Info_DataTable, SortableHeader } from './Info_DataTable'
+import { Info_Badge } from './Info_Badge'
+
+export interface PromptRow {
+  name: string
+  description: string
+  /** Argument names, required ones first */
+  arguments: string[]
+}
+
+interface PromptsDataTableProps {
+  data: PromptRow[]
+  /** Show loading spinner */
+  loading?: boolean
+  /** Show error message */
+  error?: string
+  /** Max height with scroll (default: 400) */
+  maxHeight?: number
+  className?: string
+}
+
+const columns: ColumnDef<PromptRow>[] = [
+  {
+    accessorKey: 'name',
+    header: ({ column }) => <SortableHeader column={column} title="Prompt" />,
+    cell: ({ row }) => (
+      <div className="p-1.5 pl-2.5">
+        <Info_Badge color="muted" className="whitespace-nowrap">
+          {row.original.name}
+        </Info_Badge>
+      </div>
+    ),
+    minSize: 100,
+  },
+  {
+    id: 'arguments',
+    header: () => <span className="p-1.5 pl-2.5">Arguments</span>,
+    cell: ({ row }) => (
+      <div className="p-1.5 pl-2.5 min-w-0">
+        <span className="truncate block font-mono text-xs text-foreground/70">
+          {row.original.arguments.join(', ') || '—'}
+        </span>
+      </div>
+    ),
+    minSize: 100,
+  },
+  {
+    id: 'description',
+    accessorKey: 'description',
+    header: () => <span className="p-1.5 pl-2.5">Description</span>,
+    cell: ({ row }) => (
+      <div className="p-1.5 pl-2.5 min-w-0">
+        <span className="truncate block">{row.original.description}</span>
+      </div>
+    ),
+    meta: { fillWidth: true, truncate: true },
+  },
+]
+
+export function PromptsDataTable({
+  data,
+  loading,
+  error,
+  maxHeight = 400,
+  className,
+}: PromptsDataTableProps) {
+  return (
+    <Info_DataTable
+      columns={columns}
+      data={data}
+      loading={loading}
+      error={error}
+      maxHeight={maxHeight}
+      emptyContent="No prompts available"
+      className={className}
+    />
+  )
+}
@@ -0,0 +1,85 @@
+/**
+ * ResourcesDataTable
+ *
+ * Typed Data Table for displaying MCP resources.
+ * Features: searchable resources, sortable columns, max-height scroll.
+ */
+
+import * as React from 'react'
+import type { ColumnDef } from '@tanstack/react-table'
+import { Info_DataTable, SortableHeader } from './Info_DataTable'
+import { Info_Badge } from './Info_Badge'
+
+export interface ResourceRow {
+  name: string
+  uri: string
+  mimeType: string
+  description: string
+}
+
+interface ResourcesDataTableProps {
+  data: ResourceRow[]
+  /** Show loading spinner */
+  loading?: boolean
+  /** Show error message */
+  error?: string
+  /** Max height with scroll (default: 400) */
+  maxHeight?: number
+  className?: string
+}
+
+const columns: ColumnDef<ResourceRow>[] = [
+  {
+    accessorKey: 'name',
+    header: ({ column }) => <SortableHeader column={column} title="Resource" />,
+    cell: ({ row }) => (
+      <div className="p-1.5 pl-2.5">
+        <Info_Badge color="muted" className="whitespace-nowrap">
+          {row.original.name}
+        </Info_Badge>
+      </div>
+    ),
+    minSize: 100,
+  },
+  {
+    accessorKey: 'uri',
+    header: ({ column }) => <SortableHeader column={column} title="URI" />,
+    cell: ({ row }) => (
+      <div className="p-1.5 pl-2.5 min-w-0">
+        <span className="truncate block font-mono text-xs text-foreground/70">{row.original.uri}</span>
+      </div>
+    ),
+    minSize: 120,
+  },
+  {
+    id: 'description',
+    accessorKey: 'description',
+    header: () => <span className="p-1.5 pl-2.5">Description</span>,
+    cell: ({ row }) => (
+      <div className="p-1.5 pl-2.5 min-w-0">
+        <span className="truncate block">{row.original.description || row.original.mimeType}</span>
+      </div>
+    ),
+    meta: { fillWidth: true, truncate: true },
+  },
+]
+
+export function ResourcesDataTable({
+  data,
+  loading,
+  error,
+  maxHeight = 400,
+  className,
+}: ResourcesDataTableProps) {
+  return (
+    <Info_DataTable
+      columns={columns}
+      data={data}
+      loading={loading}
+      error={error}
+      maxHeight={maxHeight}
+      emptyContent="No resources available"
+      className={className}
+    />
+  )
+}
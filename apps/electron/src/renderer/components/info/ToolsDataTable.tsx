@@ -2,7 +2,8 @@
  * ToolsDataTable
  *
  * Typed Data Table for displaying MCP tools.
- * Features: searchable tools, sortable columns, max-height scroll.
+ * Features: searchable tools, sortable columns, max-height scroll,
+ * per-tool enable toggles and schema token estimates.
  */
 
 import * as React from 'react'
@@ -10,6 +11,7 @@ import type { ColumnDef } from '@tanstack/react-table'
 import { Info_DataTable, SortableHeader } from './Info_DataTable'
 import { Info_Badge } from './Info_Badge'
 import { Info_StatusBadge } from './Info_StatusBadge'
+import { Switch } from '@/components/ui/switch'
 
 export type ToolPermission = 'allowed' | 'requires-permission'
 
@@ -17,6 +19,10 @@ export interface ToolRow {
   name: string
   description: string
   permission: ToolPermission
+  /** Whether the tool is shown to the model */
+  enabled: boolean
+  /** Estimated context tokens of the tool's schema */
+  tokens: number
 }
 
 interface ToolsDataTableProps {
@@ -27,10 +33,17 @@ interface ToolsDataTableProps {
   error?: string
   /** Max height with scroll (default: 400) */
   maxHeight?: number
+  /** Called when a tool's toggle changes (toggles are hidden when omitted) */
+  onToggle?: (name: string, enabled: boolean) => void
   className?: string
 }
 
-const columns: ColumnDef<ToolRow>[] = [
+/** Format a token count compactly (e.g. 1.2k) */
+function formatTokens(tokens: number): string {
+  return tokens >= 1000 ? `${(tokens / 1000).toFixed(1)}k` : String(tokens)
+}
+
+const baseColumns: ColumnDef<ToolRow>[] = [
   {
     accessorKey: 'permission',
     header: ({ column }) => <SortableHeader column={column} title="Access" />,
@@ -64,15 +77,48 @@ const columns: ColumnDef<ToolRow>[] = [
     ),
     meta: { fillWidth: true, truncate: true },
   },
+  {
+    accessorKey: 'tokens',
+    header: ({ column }) => <SortableHeader column={column} title="Tokens" />,
+    cell: ({ row }) => (
+      <div className="p-1.5 pl-2.5 text-muted-foreground tabular-nums whitespace-nowrap">
+        ~{formatTokens(row.original.tokens)}
+      </div>
+    ),
+    minSize: 70,
+  },
 ]
 
+function createToggleColumn(onToggle: (name: string, enabled: boolean) => void): ColumnDef<ToolRow> {
+  return {
+    accessorKey: 'enabled',
+    header: ({ column }) => <SortableHeader column={column} title="On" />,
+    cell: ({ row }) => (
+      <div className="p-1.5 pl-2.5 flex items-center">
+        <Switch
+          checked={row.original.enabled}
+          onCheckedChange={(checked) => onToggle(row.original.name, checked)}
+          aria-label={`${row.original.enabled ? 'Disable' : 'Enable'} ${row.original.name}`}
+        />
+      </div>
+    ),
+    minSize: 50,
+  }
+}
+
 export function ToolsDataTable({
   data,
   loading,
   error,
   maxHeight = 400,
+  onToggle,
   className,
 }: ToolsDataTableProps) {
+  const columns = React.useMemo(
+    () => (onToggle ? [createToggleColumn(onToggle), ...baseColumns] : baseColumns),
+    [onToggle]
+  )
+
   return (
     <Info_DataTable
       columns={columns}
@@ -41,6 +41,12 @@ export type { PermissionRow, PermissionAccess, PermissionType } from './Permissi
 export { ToolsDataTable } from './ToolsDataTable'
 export type { ToolRow, ToolPermission } from './ToolsDataTable'
 
+export { ResourcesDataTable } from './ResourcesDataTable'
+export type { ResourceRow } from './ResourcesDataTable'
+
+export { PromptsDataTable } from './PromptsDataTable'
+export type { PromptRow } from './PromptsDataTable'
+
 export { LabelsDataTable } from './LabelsDataTable'
 
 export { AutoRulesDataTable } from './AutoRulesDataTable'
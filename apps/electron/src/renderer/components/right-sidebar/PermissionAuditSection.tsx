@@ -0,0 +1,195 @@
+/**
+ * PermissionAuditSection - Permission decisions recorded for tool calls
+ *
+ * Reads the permission audit log (permission-audit.jsonl) of the session, or of
+ * all sessions in its workspace, and lists decisions newest first:
+ * - Which tool ran with what input, in which permission mode
+ * - Whether it was allowed by a rule, prompted and approved/denied, or blocked
+ *
+ * Entries can be filtered by decision and by text (tool, input or rule).
+ */
+
+import * as React from 'react'
+import { useState, useEffect, useMemo } from 'react'
+import {
+  PERMISSION_MODE_CONFIG,
+  type PermissionAuditDecision,
+  type PermissionAuditEntry,
+  type PermissionAuditScope,
+} from '../../../shared/types'
+import { Info_Badge, type BadgeColor } from '../info/Info_Badge'
+import { Input } from '../ui/input'
+import { cn } from '@/lib/utils'
+
+export interface PermissionAuditSectionProps {
+  sessionId: string
+  /** Changes whenever the session may have new tool calls (triggers a reload) */
+  refreshKey?: number
+}
+
+type DecisionFilter = 'all' | 'allowed' | 'blocked' | 'prompted'
+
+const DECISION_FILTERS: { value: DecisionFilter; label: string }[] = [
+  { value: 'all', label: 'All' },
+  { value: 'allowed', label: 'Allowed' },
+  { value: 'prompted', label: 'Prompted' },
+  { value: 'blocked', label: 'Blocked' },
+]
+
+const DECISION_BADGES: Record<PermissionAuditDecision, { label: string; color: BadgeColor }> = {
+  allowed: { label: 'Allowed', color: 'success' },
+  approved: { label: 'Approved', color: 'warning' },
+  denied: { label: 'Denied', color: 'destructive' },
+  blocked: { label: 'Blocked', color: 'destructive' },
+}
+
+function matchesDecisionFilter(decision: PermissionAuditDecision, filter: DecisionFilter): boolean {
+  switch (filter) {
+    case 'all':
+      return true
+    case 'allowed':
+      return decision === 'allowed'
+    case 'prompted':
+      return decision === 'approved' || decision === 'denied'
+    case 'blocked':
+      return decision === 'blocked' || decision === 'denied'
+  }
+}
+
+function matchesQuery(entry: PermissionAuditEntry, query: string): boolean {
+  if (!query) return true
+  const q = query.toLowerCase()
+  return [entry.toolName, entry.input, entry.rule, entry.reason]
+    .some(value => value?.toLowerCase().includes(q))
+}
+
+/**
+ * Tooltip text with the full details of an entry
+ */
+function formatEntryDetails(entry: PermissionAuditEntry): string {
+  return [
+    new Date(entry.timestamp).toLocaleString(),
+    `Mode: ${PERMISSION_MODE_CONFIG[entry.mode]?.displayName ?? entry.mode}`,
+    `Input: ${entry.input}`,
+    entry.rule && `Rule: ${entry.rule}`,
+    entry.reason && `Reason: ${entry.reason}`,
+  ].filter(Boolean).join('\n')
+}
+
+function PermissionAuditRow({ entry }: { entry: PermissionAuditEntry }) {
+  const badge = DECISION_BADGES[entry.decision]
+  return (
+    <div
+      className="rounded-[6px] px-2 py-1.5 hover:bg-foreground/5 select-text"
+      title={formatEntryDetails(entry)}
+    >
+      <div className="flex items-center gap-2 min-w-0">
+        <Info_Badge color={badge.color} className="shrink-0">{badge.label}</Info_Badge>
+        <span className="text-xs font-medium truncate">{entry.toolName}</span>
+        <span className="ml-auto shrink-0 text-[11px] text-muted-foreground tabular-nums">
+          {new Date(entry.timestamp).toLocaleTimeString()}
+        </span>
+      </div>
+      <div className="mt-1 text-[11px] font-mono text-foreground/70 truncate">{entry.input}</div>
+      {(entry.rule || entry.reason) && (
+        <div className="mt-0.5 text-[11px] text-muted-foreground truncate">
+          {entry.rule ? <span className="font-mono">{entry.rule}</span> : entry.reason}
+        </div>
+      )}
+    </div>
+  )
+}
+
+/**
+ * Filterable list of permission decisions for a session or its workspace
+ */
+export function PermissionAuditSection({ sessionId, refreshKey }: PermissionAuditSectionProps) {
+  const [scope, setScope] = useState<PermissionAuditScope>('session')
+  const [decisionFilter, setDecisionFilter] = useState<DecisionFilter>('all')
+  const [query, setQuery] = useState('')
+  const [entries, setEntries] = useState<PermissionAuditEntry[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+
+  useEffect(() => {
+    let cancelled = false
+    window.electronAPI.getPermissionAudit(sessionId, scope).then((result) => {
+      if (cancelled) return
+      setEntries(result)
+      setIsLoading(false)
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [sessionId, scope, refreshKey])
+
+  // Newest first
+  const visibleEntries = useMemo(() => {
+    return entries
+      .filter(entry => matchesDecisionFilter(entry.decision, decisionFilter) && matchesQuery(entry, query.trim()))
+      .reverse()
+  }, [entries, decisionFilter, query])
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-1.5 select-none">
+        <label className="text-xs font-medium text-muted-foreground">Permission Log</label>
+        <div className="flex items-center gap-0.5 text-[11px]">
+          {(['session', 'workspace'] as const).map((value) => (
+            <button
+              key={value}
+              type="button"
+              onClick={() => setScope(value)}
+              className={cn(
+                'px-1.5 py-0.5 rounded-[4px] transition-colors',
+                scope === value ? 'bg-foreground/10 text-foreground' : 'text-muted-foreground hover:text-foreground'
+              )}
+            >
+              {value === 'session' ? 'This chat' : 'Workspace'}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="rounded-lg bg-foreground-2 has-[:focus]:bg-background shadow-minimal transition-colors">
+        <Input
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Filter by tool, input or rule..."
+          className="h-8 py-1.5 text-xs border-0 shadow-none bg-transparent focus-visible:ring-0"
+        />
+      </div>
+
+      <div className="flex items-center gap-0.5 mt-1.5 text-[11px] select-none">
+        {DECISION_FILTERS.map(({ value, label }) => (
+          <button
+            key={value}
+            type="button"
+            onClick={() => setDecisionFilter(value)}
+            className={cn(
+              'px-1.5 py-0.5 rounded-[4px] transition-colors',
+              decisionFilter === value ? 'bg-foreground/10 text-foreground' : 'text-muted-foreground hover:text-foreground'
+            )}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+
+      <div className="mt-1.5 -mx-2">
+        {visibleEntries.length === 0 ? (
+          <p className="px-2 py-1 text-xs text-muted-foreground select-none">
+            {isLoading
+              ? 'Loading...'
+              : entries.length === 0
+                ? 'Permission decisions for tool calls will appear here.'
+                : 'No decisions match the filter.'}
+          </p>
+        ) : (
+          visibleEntries.map((entry, index) => (
+            <PermissionAuditRow key={`${entry.timestamp}-${entry.toolUseId ?? index}`} entry={entry} />
+          ))
+        )}
+      </div>
+    </div>
+  )
+}
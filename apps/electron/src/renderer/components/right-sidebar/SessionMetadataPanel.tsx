@@ -2,7 +2,7 @@
  * SessionMetadataPanel - Session info panel with resizable metadata and files sections
  *
  * Displays two vertically stacked sections:
- * - Top: Editable session name and notes (auto-saved)
+ * - Top: Editable session name and notes (auto-saved), and the permission log
  * - Bottom: Files in the session directory
  *
  * A horizontal resize handle allows adjusting the split between sections.
@@ -16,6 +16,7 @@ import { Input } from '../ui/input'
 import { Textarea } from '../ui/textarea'
 import { HorizontalResizeHandle } from '../ui/horizontal-resize-handle'
 import { SessionFilesSection } from './SessionFilesSection'
+import { PermissionAuditSection } from './PermissionAuditSection'
 import * as storage from '@/lib/local-storage'
 
 export interface SessionMetadataPanelProps {
@@ -220,6 +221,9 @@ export function SessionMetadataPanel({ sessionId, closeButton }: SessionMetadata
             />
           </div>
         </div>
+
+        {/* Permission decisions - reloaded as the conversation adds tool calls */}
+        <PermissionAuditSection sessionId={sessionId} refreshKey={session.messages.length} />
       </div>
 
       {/* Horizontal resize handle */}
@@ -448,8 +448,18 @@ const EDIT_CONFIGS: Record<EditContextKey, (location: string) => EditConfig> = {
         'Views are stored in views.json at the workspace root under a "views" array. ' +
         'Each view has: id (unique slug), name (display text), description (optional), color (optional EntityColor), expression (Filtrex string). ' +
         'Expressions are evaluated against session context fields: name, preview, todoState, permissionMode, model, lastMessageRole, ' +
-        'lastUsedAt, createdAt, messageCount, labelCount, isFlagged, hasUnread, isProcessing, hasPendingPlan, tokenUsage.*, labels. ' +
-        'Available functions: daysSince(timestamp), contains(array, value). ' +
+        'statusCategory ("open"/"closed"), workingDirectory, lastUsedAt, createdAt, messageCount, labelCount, ' +
+        'isFlagged, hasUnread, isProcessing, hasPendingPlan, hasSharedUrl, tokenUsage.*, labels, enabledSources (source slugs). ' +
+        'Available functions: daysSince(timestamp), hoursSince(timestamp), contains(array, value), length(x), startsWith(str, prefix), lower(str), ' +
+        'labelValue(labelId) (numeric value of a valued label like "priority::3"; dates as timestamps; NaN if missing or not a number), ' +
+        'labelText(labelId) (text value of a valued label like "owner::sam"; empty if missing), ' +
+        'matches(str, pattern, flags?) (regex), withinDays(timestamp, n), withinHours(timestamp, n), isToday(timestamp), ' +
+        'isThisWeek(timestamp), daysUntil(timestamp), date("YYYY-MM-DD"). ' +
+        'Optional session list settings: showInSidebar (true to show the view as a saved filter in the left sidebar), ' +
+        'sort ({ key: "lastMessageAt" | "cost" | "labelValue", labelId (for labelValue, e.g. "priority"), direction: "asc" | "desc" (default "desc") }), ' +
+        'groupBy ({ key: "status" | "label" | "day", labelId (optional, groups by that label\'s value) }). ' +
+        'Example: { "id": "expensive-this-week", "name": "Expensive this week", "expression": "isThisWeek(lastUsedAt) and tokenUsage.costUsd > 1", ' +
+        '"showInSidebar": true, "sort": { "key": "cost" }, "groupBy": { "key": "day" } }. ' +
         'Colors use EntityColor format: string shorthand (e.g. "orange") or { light, dark } object. ' +
         'Confirm clearly when done.',
     },
@@ -564,6 +574,11 @@ export interface EditPopoverProps {
    * opening a new window. Best for quick config edits with mini agents.
    */
   inlineExecution?: boolean
+  /**
+   * Optional content rendered above the chat (e.g. a live preview of what the
+   * config being edited affects).
+   */
+  header?: React.ReactNode
 }
 
 /**
@@ -642,6 +657,7 @@ export function EditPopover({
   modal = false,
   defaultValue = '',
   inlineExecution = false,
+  header,
 }: EditPopoverProps) {
   const { onOpenFile, onOpenUrl } = usePlatform()
   const workspace = useActiveWorkspace()
@@ -955,17 +971,20 @@ export function EditPopover({
 
               {/* Content area - always uses compact ChatDisplay */}
               <div className="flex-1 flex flex-col bg-foreground-2" style={{ height: '100%' }}>
-                <ChatDisplay
-                  session={displaySession}
-                  onSendMessage={inlineExecution ? handleInlineSendMessage : handleLegacySendMessage}
-                  onOpenFile={onOpenFile || (() => {})}
-                  onOpenUrl={onOpenUrl || (() => {})}
-                  currentModel={currentModel}
-                  onModelChange={setCurrentModel}
-                  compactMode={true}
-                  placeholder={placeholder}
-                  emptyStateLabel={context.label}
-                />
+                {header && <div className="shrink-0">{header}</div>}
+                <div className="flex-1 min-h-0">
+                  <ChatDisplay
+                    session={displaySession}
+                    onSendMessage={inlineExecution ? handleInlineSendMessage : handleLegacySendMessage}
+                    onOpenFile={onOpenFile || (() => {})}
+                    onOpenUrl={onOpenUrl || (() => {})}
+                    currentModel={currentModel}
+                    onModelChange={setCurrentModel}
+                    compactMode={true}
+                    placeholder={placeholder}
+                    emptyStateLabel={context.label}
+                  />
+                </div>
               </div>
 
               {/* Bottom-right resize handle - invisible hit area */}
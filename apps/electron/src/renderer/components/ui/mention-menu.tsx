@@ -9,7 +9,7 @@ import type { LoadedSkill, LoadedSource, FileSearchResult } from '../../../share
 // Types
 // ============================================================================
 
-export type MentionItemType = 'skill' | 'source' | 'file' | 'folder'
+export type MentionItemType = 'skill' | 'source' | 'file' | 'folder' | 'resource'
 
 export interface MentionItem {
   id: string
@@ -20,6 +20,16 @@ export interface MentionItem {
   skill?: LoadedSkill
   source?: LoadedSource
   file?: { path: string; type: 'file' | 'directory'; relativePath: string }
+  resource?: { sourceSlug: string; uri: string; mimeType?: string }
+}
+
+/** MCP resource offered in the mention menu (attached to the message when selected) */
+export interface MentionResource {
+  source: LoadedSource
+  uri: string
+  name: string
+  description?: string
+  mimeType?: string
 }
 
 export interface MentionSection {
@@ -268,7 +278,7 @@ export function InlineMentionMenu({
     >
       {/* Menu header — sticky above scroll area */}
       <div className="px-3 py-1.5 text-[12px] font-medium text-muted-foreground border-b border-foreground/5">
-        Mention files, skills, sources
+        Mention files, skills, sources, resources
       </div>
 
       <div ref={listRef} className={MENU_LIST_STYLE}>
@@ -297,7 +307,7 @@ export function InlineMentionMenu({
                 {item.type === 'skill' && item.skill && (
                   <SkillAvatar skill={item.skill} size="sm" workspaceId={workspaceId} />
                 )}
-                {item.type === 'source' && item.source && (
+                {(item.type === 'source' || item.type === 'resource') && item.source && (
                   <SourceAvatar source={item.source} size="sm" />
                 )}
                 {item.type === 'folder' && (
@@ -323,12 +333,12 @@ export function InlineMentionMenu({
                 </>
               ) : (
                 <>
-                  {/* Skill/source: label with type badge */}
+                  {/* Skill/source/resource: label with type badge */}
                   <div className="flex-1 min-w-0">
                     <span className="truncate block">{item.label}</span>
                   </div>
                   <span className={MENU_TYPE_BADGE}>
-                    {item.type === 'skill' ? 'Skill' : 'Source'}
+                    {item.type === 'skill' ? 'Skill' : item.type === 'resource' ? 'Resource' : 'Source'}
                   </span>
                 </>
               )}
@@ -418,6 +428,8 @@ export interface UseInlineMentionOptions {
   inputRef: React.RefObject<MentionInputElement | null>
   skills: LoadedSkill[]
   sources: LoadedSource[]
+  /** MCP resources from enabled sources */
+  resources?: MentionResource[]
   /** Base path for file search (working directory) */
   basePath?: string
   onSelect: (item: MentionItem) => void
@@ -441,6 +453,7 @@ export function useInlineMention({
   inputRef,
   skills,
   sources,
+  resources = [],
   basePath,
   onSelect,
   workspaceId,
@@ -471,7 +484,7 @@ export function useInlineMention({
     }
   }, [])
 
-  // Build sections from available data (skills, sources, and file search results)
+  // Build sections from available data (skills, sources, resources, and file search results)
   const sections = React.useMemo((): MentionSection[] => {
     const result: MentionSection[] = []
 
@@ -507,6 +520,22 @@ export function useInlineMention({
       })
     }
 
+    // Resources section (MCP resources from enabled sources)
+    if (resources.length > 0) {
+      result.push({
+        id: 'resources',
+        label: 'Resources',
+        items: resources.map(resource => ({
+          id: `${resource.source.config.slug}:${resource.uri}`,
+          type: 'resource' as const,
+          label: resource.name,
+          description: resource.description || resource.uri,
+          source: resource.source,
+          resource: { sourceSlug: resource.source.config.slug, uri: resource.uri, mimeType: resource.mimeType },
+        })),
+      })
+    }
+
     // Files section (from async search results)
     if (fileResults.length > 0) {
       result.push({
@@ -517,7 +546,7 @@ export function useInlineMention({
     }
 
     return result
-  }, [skills, sources, fileResults])
+  }, [skills, sources, resources, fileResults])
 
   const handleInputChange = React.useCallback((value: string, cursorPosition: number) => {
     // Store current state for handleSelect
@@ -643,6 +672,9 @@ export function useInlineMention({
         mentionText = `[file:${item.file?.relativePath || item.id}] `
       } else if (item.type === 'folder') {
         mentionText = `[folder:${item.file?.relativePath || item.id}] `
+      } else if (item.type === 'resource') {
+        // Resources are attached to the message, so only the @filter is removed
+        mentionText = ''
       } else {
         mentionText = `[skill:${item.id}] `
       }
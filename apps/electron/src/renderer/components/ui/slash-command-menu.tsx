@@ -1,6 +1,6 @@
 import * as React from 'react'
 import { Command as CommandPrimitive } from 'cmdk'
-import { Brain, Check } from 'lucide-react'
+import { Brain, Check, MessageSquareText } from 'lucide-react'
 import { Icon_Folder } from '@craft-agent/ui'
 import { cn } from '@/lib/utils'
 import { PERMISSION_MODE_CONFIG, PERMISSION_MODE_ORDER, type PermissionMode } from '@craft-agent/shared/agent/modes'
@@ -12,7 +12,7 @@ import { PERMISSION_MODE_CONFIG, PERMISSION_MODE_ORDER, type PermissionMode } fr
 export type SlashCommandId = 'safe' | 'ask' | 'allow-all' | 'ultrathink'
 
 /** Union type for all item types in the slash menu */
-export type SlashItemType = 'command' | 'folder'
+export type SlashItemType = 'command' | 'folder' | 'prompt'
 
 export interface SlashCommand {
   id: SlashCommandId
@@ -33,11 +33,26 @@ export interface SlashFolderItem {
   path: string
 }
 
+/** MCP prompt template item for the slash menu */
+export interface SlashPromptItem {
+  id: string
+  type: 'prompt'
+  label: string
+  description: string
+  sourceSlug: string
+  /** Prompt name on the MCP server */
+  name: string
+  /** Argument names the prompt accepts */
+  arguments: string[]
+}
+
+type SlashItem = SlashCommand | SlashFolderItem | SlashPromptItem
+
 /** Section with header for the inline slash menu */
 export interface SlashSection {
   id: string
   label: string
-  items: (SlashCommand | SlashFolderItem)[]
+  items: SlashItem[]
 }
 
 export interface CommandGroup {
@@ -131,10 +146,15 @@ function filterCommands(commands: SlashCommand[], filter: string): SlashCommand[
 }
 
 /** Check if an item is a folder */
-function isFolder(item: SlashCommand | SlashFolderItem): item is SlashFolderItem {
+function isFolder(item: SlashItem): item is SlashFolderItem {
   return 'type' in item && item.type === 'folder'
 }
 
+/** Check if an item is an MCP prompt */
+function isPrompt(item: SlashItem): item is SlashPromptItem {
+  return 'type' in item && item.type === 'prompt'
+}
+
 /** Filter sections by label/id, keeping sections grouped */
 function filterSections(sections: SlashSection[], filter: string): SlashSection[] {
   if (!filter) return sections
@@ -154,7 +174,7 @@ function filterSections(sections: SlashSection[], filter: string): SlashSection[
 }
 
 /** Flatten sections into a single array of items */
-function flattenSections(sections: SlashSection[]): (SlashCommand | SlashFolderItem)[] {
+function flattenSections(sections: SlashSection[]): SlashItem[] {
   return sections.flatMap(section => section.items)
 }
 
@@ -311,6 +331,7 @@ export interface InlineSlashCommandProps {
   activeCommands?: SlashCommandId[]
   onSelectCommand: (commandId: SlashCommandId) => void
   onSelectFolder: (path: string) => void
+  onSelectPrompt?: (prompt: SlashPromptItem) => void
   filter?: string
   position: { x: number; y: number }
   className?: string
@@ -323,6 +344,7 @@ export function InlineSlashCommand({
   activeCommands = [],
   onSelectCommand,
   onSelectFolder,
+  onSelectPrompt,
   filter = '',
   position,
   className,
@@ -348,14 +370,16 @@ export function InlineSlashCommand({
   }, [selectedIndex])
 
   // Handle item selection
-  const handleSelect = React.useCallback((item: SlashCommand | SlashFolderItem) => {
+  const handleSelect = React.useCallback((item: SlashItem) => {
     if (isFolder(item)) {
       onSelectFolder(item.path)
+    } else if (isPrompt(item)) {
+      onSelectPrompt?.(item)
     } else {
       onSelectCommand(item.id)
     }
     onOpenChange(false)
-  }, [onSelectCommand, onSelectFolder, onOpenChange])
+  }, [onSelectCommand, onSelectFolder, onSelectPrompt, onOpenChange])
 
   // Keyboard navigation
   // Don't attach listener when no items - allows Enter to propagate to input handler
@@ -456,6 +480,28 @@ export function InlineSlashCommand({
                     </div>
                   </div>
                 )
+              } else if (isPrompt(item)) {
+                // Prompt item - label with source name
+                return (
+                  <div
+                    key={`${section.id}-${item.id}`}
+                    data-selected={isSelected}
+                    onClick={() => handleSelect(item)}
+                    onMouseEnter={() => setSelectedIndex(itemIndex)}
+                    className={cn(
+                      MENU_ITEM_STYLE,
+                      isSelected && MENU_ITEM_SELECTED
+                    )}
+                  >
+                    <div className="shrink-0 text-muted-foreground">
+                      <MessageSquareText className={MENU_ICON_SIZE} />
+                    </div>
+                    <div className="flex-1 min-w-0 truncate">
+                      <span>{item.label}</span>
+                      <span className="text-muted-foreground ml-1.5">{item.description}</span>
+                    </div>
+                  </div>
+                )
               } else {
                 // Command item
                 const isActive = activeCommands.includes(item.id)
@@ -522,9 +568,12 @@ export interface UseInlineSlashCommandOptions {
   inputRef: React.RefObject<SlashCommandInputElement | null>
   onSelectCommand: (commandId: SlashCommandId) => void
   onSelectFolder: (path: string) => void
+  onSelectPrompt?: (prompt: SlashPromptItem) => void
   activeCommands?: SlashCommandId[]
   recentFolders?: string[]
   homeDir?: string
+  /** MCP prompt templates from enabled sources */
+  prompts?: SlashPromptItem[]
 }
 
 export interface UseInlineSlashCommandReturn {
@@ -537,15 +586,18 @@ export interface UseInlineSlashCommandReturn {
   activeCommands: SlashCommandId[]
   handleSelectCommand: (commandId: SlashCommandId) => string
   handleSelectFolder: (path: string) => string
+  handleSelectPrompt: (prompt: SlashPromptItem) => string
 }
 
 export function useInlineSlashCommand({
   inputRef,
   onSelectCommand,
   onSelectFolder,
+  onSelectPrompt,
   activeCommands = [],
   recentFolders = [],
   homeDir,
+  prompts = [],
 }: UseInlineSlashCommandOptions): UseInlineSlashCommandReturn {
   const [isOpen, setIsOpen] = React.useState(false)
   const [filter, setFilter] = React.useState('')
@@ -554,7 +606,7 @@ export function useInlineSlashCommand({
   // Store current input state for handleSelect
   const currentInputRef = React.useRef({ value: '', cursorPosition: 0 })
 
-  // Build sections from commands and folders
+  // Build sections from commands, prompts and folders
   const sections = React.useMemo((): SlashSection[] => {
     const result: SlashSection[] = []
 
@@ -572,6 +624,15 @@ export function useInlineSlashCommand({
       items: [ultrathinkCommand],
     })
 
+    // Prompts section (MCP prompt templates from enabled sources)
+    if (prompts.length > 0) {
+      result.push({
+        id: 'prompts',
+        label: 'Prompts',
+        items: prompts,
+      })
+    }
+
     // Recent folders section - sorted alphabetically by folder name, show all
     if (recentFolders.length > 0) {
       const sortedFolders = [...recentFolders]
@@ -595,7 +656,7 @@ export function useInlineSlashCommand({
     }
 
     return result
-  }, [recentFolders, homeDir])
+  }, [recentFolders, homeDir, prompts])
 
   const handleInputChange = React.useCallback((value: string, cursorPosition: number) => {
     // Store current state for handleSelect
@@ -692,6 +753,22 @@ export function useInlineSlashCommand({
     return result
   }, [onSelectFolder, slashStart])
 
+  const handleSelectPrompt = React.useCallback((prompt: SlashPromptItem): string => {
+    // Remove the /command text; the prompt text is inserted once it's fetched
+    let result = ''
+    if (slashStart >= 0) {
+      const { value: currentValue, cursorPosition } = currentInputRef.current
+      const before = currentValue.slice(0, slashStart)
+      const after = currentValue.slice(cursorPosition)
+      result = (before + after).trim()
+    }
+
+    onSelectPrompt?.(prompt)
+    setIsOpen(false)
+
+    return result
+  }, [onSelectPrompt, slashStart])
+
   const close = React.useCallback(() => {
     setIsOpen(false)
     setFilter('')
@@ -708,5 +785,6 @@ export function useInlineSlashCommand({
     activeCommands,
     handleSelectCommand,
     handleSelectFolder,
+    handleSelectPrompt,
   }
 }
@@ -23,6 +23,7 @@ import type {
   LoadedSource,
   LoadedSkill,
   NewChatActionParams,
+  AlwaysAllowScope,
 } from '../../shared/types'
 import type { TodoState as TodoStateConfig } from '@/config/todo-states'
 import type { SessionOptions, SessionOptionUpdates } from '../hooks/useSessionOptions'
@@ -72,13 +73,19 @@ export interface AppShellContextType {
   onSetActiveViewingSession: (sessionId: string) => void
   onTodoStateChange: (sessionId: string, state: TodoState) => void
   onDeleteSession: (sessionId: string, skipConfirmation?: boolean) => Promise<boolean>
+  /** Fork a session at a message. Pass a draft to branch before a user message and pre-fill the input. */
+  onForkSession?: (sessionId: string, messageId: string, draft?: string) => void
+  /** Edit a previous user message and resend it, discarding everything after it */
+  onEditMessage?: (sessionId: string, messageId: string, content: string) => void
+  /** Pick transcripts from other apps and import them into the active workspace */
+  onImportConversations?: () => void
 
   // Permission handling
   onRespondToPermission?: (
     sessionId: string,
     requestId: string,
     allowed: boolean,
-    alwaysAllow: boolean
+    alwaysAllow: AlwaysAllowScope | false
   ) => void
 
   // Credential handling
@@ -29,7 +29,9 @@ import type {
   WorkingDirectoryChangedEvent,
   PermissionModeChangedEvent,
   SessionModelChangedEvent,
+  SessionProviderProfileChangedEvent,
   UserMessageEvent,
+  MessagesTruncatedEvent,
   SessionSharedEvent,
   SessionUnsharedEvent,
   AuthRequestEvent,
@@ -417,6 +419,24 @@ export function handleSessionModelChanged(
   }
 }
 
+/**
+ * Handle session_provider_profile_changed - update session provider profile
+ */
+export function handleSessionProviderProfileChanged(
+  state: SessionState,
+  event: SessionProviderProfileChangedEvent
+): ProcessResult {
+  const { session, streaming } = state
+
+  return {
+    state: {
+      session: { ...session, providerProfileId: event.profileId ?? undefined },
+      streaming,
+    },
+    effects: [],
+  }
+}
+
 /**
  * Handle user_message - confirms optimistic user message from backend
  *
@@ -482,6 +502,29 @@ export function handleUserMessage(
   }
 }
 
+/**
+ * Handle messages_truncated - drop a message and everything after it
+ * Sent when a previous user message is edited and re-sent.
+ */
+export function handleMessagesTruncated(
+  state: SessionState,
+  event: MessagesTruncatedEvent
+): ProcessResult {
+  const { session, streaming } = state
+  const index = session.messages.findIndex(m => m.id === event.messageId)
+  if (index === -1) {
+    return { state: { session: { ...session }, streaming }, effects: [] }
+  }
+
+  return {
+    state: {
+      session: { ...session, messages: session.messages.slice(0, index) },
+      streaming,
+    },
+    effects: [],
+  }
+}
+
 /**
  * Handle sources_changed - update session's enabled sources
  */
@@ -37,7 +37,9 @@ import {
   handleWorkingDirectoryChanged,
   handlePermissionModeChanged,
   handleSessionModelChanged,
+  handleSessionProviderProfileChanged,
   handleUserMessage,
+  handleMessagesTruncated,
   handleSessionShared,
   handleSessionUnshared,
   handleAuthRequest,
@@ -131,6 +133,9 @@ export function processEvent(
     case 'session_model_changed':
       return handleSessionModelChanged(state, event)
 
+    case 'session_provider_profile_changed':
+      return handleSessionProviderProfileChanged(state, event)
+
     case 'sources_changed':
       return handleSourcesChanged(state, event)
 
@@ -161,6 +166,9 @@ export function processEvent(
     case 'user_message':
       return handleUserMessage(state, event)
 
+    case 'messages_truncated':
+      return handleMessagesTruncated(state, event)
+
     case 'session_shared':
       return handleSessionShared(state, event)
 
@@ -267,6 +267,15 @@ export interface SessionModelChangedEvent {
   model: string | null
 }
 
+/**
+ * Session provider profile changed event
+ */
+export interface SessionProviderProfileChangedEvent {
+  type: 'session_provider_profile_changed'
+  sessionId: string
+  profileId: string | null
+}
+
 /**
  * Credential request event - prompts user for credentials
  */
@@ -323,6 +332,17 @@ export interface UserMessageEvent {
   status: 'accepted' | 'queued' | 'processing'
 }
 
+/**
+ * Messages truncated event - a message and everything after it were removed
+ * (edit & resend of a previous user message)
+ */
+export interface MessagesTruncatedEvent {
+  type: 'messages_truncated'
+  sessionId: string
+  /** ID of the first removed message */
+  messageId: string
+}
+
 /**
  * Session shared event - session was shared to viewer
  */
@@ -417,10 +437,12 @@ export type AgentEvent =
   | WorkingDirectoryChangedEvent
   | PermissionModeChangedEvent
   | SessionModelChangedEvent
+  | SessionProviderProfileChangedEvent
   | TaskBackgroundedEvent
   | ShellBackgroundedEvent
   | TaskProgressEvent
   | UserMessageEvent
+  | MessagesTruncatedEvent
   | SessionSharedEvent
   | SessionUnsharedEvent
   | AuthRequestEvent
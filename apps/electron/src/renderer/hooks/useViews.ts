@@ -13,6 +13,7 @@
 import { useState, useEffect, useCallback, useMemo } from 'react'
 import type { ViewConfig, CompiledView, ViewEvaluationContext } from '@craft-agent/shared/views'
 import { compileAllViews, evaluateViews, buildViewContext } from '@craft-agent/shared/views'
+import type { StatusConfig } from '@craft-agent/shared/statuses'
 import type { SessionMeta } from '../atoms/sessions'
 
 export interface UseViewsResult {
@@ -26,6 +27,11 @@ export interface UseViewsResult {
    * Fast: runs compiled native JS functions, no parsing.
    */
   evaluateSession: (meta: SessionMeta) => ViewConfig[]
+  /**
+   * Build the evaluation context for a session (the fields expressions see).
+   * Used by the expression preview to test unsaved expressions.
+   */
+  getSessionContext: (meta: SessionMeta) => ViewEvaluationContext
   /** Force re-fetch from IPC */
   refresh: () => Promise<void>
 }
@@ -34,8 +40,10 @@ export interface UseViewsResult {
  * Load and compile views for a workspace.
  * Expressions are compiled once on load, then evaluated per-session per-render.
  * Subscribes to live changes via LABELS_CHANGED event (views trigger same broadcast).
+ *
+ * @param statuses - Workspace status configs, used to resolve `statusCategory`
  */
-export function useViews(workspaceId: string | null): UseViewsResult {
+export function useViews(workspaceId: string | null, statuses: StatusConfig[] = []): UseViewsResult {
   const [configs, setConfigs] = useState<ViewConfig[]>([])
   const [isLoading, setIsLoading] = useState(true)
 
@@ -82,20 +90,26 @@ export function useViews(workspaceId: string | null): UseViewsResult {
     return compileAllViews(configs)
   }, [configs])
 
-  // Memoized evaluator function — stable reference across renders.
-  // Builds evaluation context from SessionMeta, then runs all compiled functions.
-  const evaluateSession = useCallback((meta: SessionMeta): ViewConfig[] => {
-    if (compiled.length === 0) return []
+  // Status ID → category lookup for statusCategory
+  const statusCategories = useMemo(
+    () => new Map(statuses.map(status => [status.id, status.category])),
+    [statuses]
+  )
 
-    // Build the evaluation context from session metadata.
-    // This maps SessionMeta fields to the flat context object expected by expressions.
-    const context: ViewEvaluationContext = buildViewContext({
+  // Build the evaluation context from session metadata.
+  // This maps SessionMeta fields to the flat context object expected by expressions.
+  const getSessionContext = useCallback((meta: SessionMeta): ViewEvaluationContext => {
+    return buildViewContext({
       name: meta.name,
       preview: meta.preview,
       todoState: meta.todoState,
       permissionMode: meta.permissionMode,
       model: meta.model,
       lastMessageRole: meta.lastMessageRole,
+      statusCategory: meta.todoState ? statusCategories.get(meta.todoState) : undefined,
+      workingDirectory: meta.workingDirectory,
+      enabledSourceSlugs: meta.enabledSourceSlugs,
+      sharedUrl: meta.sharedUrl,
       lastMessageAt: meta.lastMessageAt,
       createdAt: meta.createdAt,
       messageCount: meta.messageCount,
@@ -105,14 +119,20 @@ export function useViews(workspaceId: string | null): UseViewsResult {
       labels: meta.labels,
       tokenUsage: meta.tokenUsage,
     })
+  }, [statusCategories])
 
-    return evaluateViews(context, compiled)
-  }, [compiled])
+  // Memoized evaluator function — stable reference across renders.
+  // Builds evaluation context from SessionMeta, then runs all compiled functions.
+  const evaluateSession = useCallback((meta: SessionMeta): ViewConfig[] => {
+    if (compiled.length === 0) return []
+    return evaluateViews(getSessionContext(meta), compiled)
+  }, [compiled, getSessionContext])
 
   return {
     viewConfigs: configs,
     isLoading,
     evaluateSession,
+    getSessionContext,
     refresh,
   }
 }
@@ -44,6 +44,12 @@ export const KEYS = {
 
   // TurnCard expansion state (persisted across session switches)
   turnCardExpansion: 'turncard-expansion',
+
+  // Session export (include tool calls / thinking / attachments)
+  sessionExportOptions: 'session-export-options',
+
+  // Expiry applied to new shares
+  shareExpiry: 'share-expiry',
 } as const
 
 export type StorageKey = typeof KEYS[keyof typeof KEYS]
@@ -163,6 +163,8 @@ export const NavigationRegistry = {
       workspace: PlaceholderComponent, // WorkspaceSettingsPage
       permissions: PlaceholderComponent, // PermissionsSettingsPage
       labels: PlaceholderComponent, // LabelsSettingsPage
+      schedules: PlaceholderComponent, // SchedulesSettingsPage
+      usage: PlaceholderComponent, // UsageSettingsPage
       shortcuts: PlaceholderComponent, // ShortcutsPage
       preferences: PlaceholderComponent, // PreferencesPage
     },
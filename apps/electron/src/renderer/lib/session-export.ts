@@ -0,0 +1,64 @@
+/**
+ * Local session export (Markdown, HTML, PDF).
+ *
+ * Rendering happens here so HTML/PDF exports reuse SessionViewer with the app's
+ * own stylesheets; the main process only shows the save dialog and prints PDFs.
+ * Nothing is uploaded.
+ */
+
+import { renderSessionHtml } from '@craft-agent/ui'
+import {
+  DEFAULT_SESSION_EXPORT_OPTIONS,
+  filterSessionForExport,
+  sessionToMarkdown,
+  type SessionExportFormat,
+  type SessionExportOptions,
+} from '@craft-agent/shared/sessions/export'
+import * as storage from './local-storage'
+
+/** Export options last used, so the menu toggles stick between exports */
+export function getSessionExportOptions(): SessionExportOptions {
+  return { ...DEFAULT_SESSION_EXPORT_OPTIONS, ...storage.get(storage.KEYS.sessionExportOptions, {}) }
+}
+
+export function setSessionExportOptions(options: SessionExportOptions): void {
+  storage.set(storage.KEYS.sessionExportOptions, options)
+}
+
+/**
+ * Collect the app's CSS so exported HTML is styled without external references.
+ * Cross-origin sheets (not expected in the packaged app) are skipped.
+ */
+function collectDocumentCss(): string {
+  const parts: string[] = []
+  for (const sheet of Array.from(document.styleSheets)) {
+    try {
+      parts.push(Array.from(sheet.cssRules).map(rule => rule.cssText).join('\n'))
+    } catch {
+      // Accessing cssRules throws for cross-origin sheets
+    }
+  }
+  return parts.join('\n')
+}
+
+/**
+ * Export a session to a local file via save dialog.
+ * @returns The saved path, or null if the dialog was cancelled
+ */
+export async function exportSession(
+  sessionId: string,
+  format: SessionExportFormat,
+  options: SessionExportOptions
+): Promise<string | null> {
+  const session = await window.electronAPI.loadSessionForExport(sessionId)
+  if (!session) throw new Error('Session not found')
+
+  const content = format === 'markdown'
+    ? sessionToMarkdown(session, options)
+    : await renderSessionHtml({ ...filterSessionForExport(session, options), workspaceId: session.workspaceId }, {
+      css: collectDocumentCss(),
+      htmlClassName: document.documentElement.className,
+    })
+
+  return window.electronAPI.saveSessionExport(sessionId, format, content)
+}
@@ -0,0 +1,69 @@
+/**
+ * Share options for new shared links (password, expiry).
+ *
+ * Passwords are generated rather than typed so the menu stays one click; the
+ * password is copied with the link and never stored locally.
+ */
+
+import { toast } from 'sonner'
+import type { ShareOptions, ShareResult } from '../../shared/types'
+import * as storage from './local-storage'
+
+export type ShareExpiry = 'never' | '1d' | '7d' | '30d'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export const SHARE_EXPIRY_OPTIONS: { value: ShareExpiry; label: string; durationMs?: number }[] = [
+  { value: 'never', label: 'Never Expires' },
+  { value: '1d', label: 'Expires in 1 Day', durationMs: DAY_MS },
+  { value: '7d', label: 'Expires in 7 Days', durationMs: 7 * DAY_MS },
+  { value: '30d', label: 'Expires in 30 Days', durationMs: 30 * DAY_MS },
+]
+
+// No look-alike characters (0/O, 1/l/I) since the password is read by people
+const PASSWORD_ALPHABET = 'abcdefghjkmnpqrstuvwxyz23456789'
+
+/** Expiry last used, so the menu selection sticks between shares */
+export function getShareExpiry(): ShareExpiry {
+  return storage.get<ShareExpiry>(storage.KEYS.shareExpiry, 'never')
+}
+
+export function setShareExpiry(expiry: ShareExpiry): void {
+  storage.set(storage.KEYS.shareExpiry, expiry)
+}
+
+/** Random password in groups of four, e.g. "k7vq-3mzp-t9xa" */
+export function generateSharePassword(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(12))
+  const chars = Array.from(bytes, byte => PASSWORD_ALPHABET[byte % PASSWORD_ALPHABET.length])
+  return [chars.slice(0, 4), chars.slice(4, 8), chars.slice(8)].map(group => group.join('')).join('-')
+}
+
+function buildShareOptions(expiry: ShareExpiry, password?: string): ShareOptions {
+  const durationMs = SHARE_EXPIRY_OPTIONS.find(option => option.value === expiry)?.durationMs
+  return {
+    password,
+    expiresAt: durationMs ? Date.now() + durationMs : undefined,
+  }
+}
+
+/**
+ * Share a session using the saved expiry, copy the link and show a toast.
+ * With a password, the password is copied along with the link since it is only shown once.
+ */
+export async function shareSession(sessionId: string, withPassword = false): Promise<void> {
+  const password = withPassword ? generateSharePassword() : undefined
+  const options = buildShareOptions(getShareExpiry(), password)
+  const result = await window.electronAPI.sessionCommand(sessionId, { type: 'shareToViewer', options }) as ShareResult | undefined
+  if (!result?.success || !result.url) {
+    toast.error('Failed to share', { description: result?.error || 'Unknown error' })
+    return
+  }
+
+  const url = result.url
+  await navigator.clipboard.writeText(password ? `${url}\nPassword: ${password}` : url)
+  toast.success(password ? 'Link and password copied to clipboard' : 'Link copied to clipboard', {
+    description: password ? `Password: ${password}` : url,
+    action: { label: 'Open', onClick: () => window.electronAPI.openUrl(url) },
+  })
+}
@@ -7,7 +7,7 @@
 
 import * as React from 'react'
 import { useAtomValue, useSetAtom } from 'jotai'
-import { AlertCircle, Globe, Copy, RefreshCw, Link2Off, Info } from 'lucide-react'
+import { AlertCircle, Globe, Copy, RefreshCw, Link2Off, Info, Lock, Check } from 'lucide-react'
 import { ChatDisplay, type ChatDisplayHandle } from '@/components/app-shell/ChatDisplay'
 import { PanelHeader } from '@/components/app-shell/PanelHeader'
 import { SessionMenu } from '@/components/app-shell/SessionMenu'
@@ -19,6 +19,7 @@ import { StyledDropdownMenuContent, StyledDropdownMenuItem, StyledDropdownMenuSe
 import { useAppShellContext, usePendingPermission, usePendingCredential, useSessionOptionsFor, useSession as useSessionData } from '@/context/AppShellContext'
 import { rendererPerf } from '@/lib/perf'
 import { routes } from '@/lib/navigate'
+import { SHARE_EXPIRY_OPTIONS, getShareExpiry, setShareExpiry, shareSession, type ShareExpiry } from '@/lib/session-share'
 import { ensureSessionMessagesLoadedAtom, loadedSessionsAtom, sessionMetaMapAtom } from '@/atoms/sessions'
 import { getSessionTitle } from '@/utils/session'
 
@@ -40,6 +41,8 @@ const ChatPage = React.memo(function ChatPage({ sessionId }: ChatPageProps) {
     onOpenUrl,
     onRespondToPermission,
     onRespondToCredential,
+    onForkSession,
+    onEditMessage,
     onMarkSessionRead,
     onMarkSessionUnread,
     onSetActiveViewingSession,
@@ -168,6 +171,10 @@ const ChatPage = React.memo(function ChatPage({ sessionId }: ChatPageProps) {
     }
   }, [sessionId, activeWorkspaceId])
 
+  const handleProviderProfileChange = React.useCallback((profileId: string | null) => {
+    window.electronAPI.sessionCommand(sessionId, { type: 'setProviderProfile', profileId })
+  }, [sessionId])
+
   // Effective model for this session (session-specific or global fallback)
   const effectiveModel = session?.model || currentModel
 
@@ -276,19 +283,13 @@ const ChatPage = React.memo(function ChatPage({ sessionId }: ChatPageProps) {
     }
   }, [sessionId])
 
-  // Share action handlers
-  const handleShare = React.useCallback(async () => {
-    const result = await window.electronAPI.sessionCommand(sessionId, { type: 'shareToViewer' }) as { success: boolean; url?: string; error?: string } | undefined
-    if (result?.success && result.url) {
-      await navigator.clipboard.writeText(result.url)
-      toast.success('Link copied to clipboard', {
-        description: result.url,
-        action: { label: 'Open', onClick: () => window.electronAPI.openUrl(result.url!) },
-      })
-    } else {
-      toast.error('Failed to share', { description: result?.error || 'Unknown error' })
-    }
-  }, [sessionId])
+  // Share action handlers (expiry persists across shares)
+  const [shareExpiry, setShareExpiryState] = React.useState<ShareExpiry>(getShareExpiry)
+
+  const handleShareExpiryChange = React.useCallback((expiry: ShareExpiry) => {
+    setShareExpiryState(expiry)
+    setShareExpiry(expiry)
+  }, [])
 
   const handleOpenInBrowser = React.useCallback(() => {
     if (sharedUrl) window.electronAPI.openUrl(sharedUrl)
@@ -363,12 +364,31 @@ const ChatPage = React.memo(function ChatPage({ sessionId }: ChatPageProps) {
           </>
         ) : (
           <>
-            <StyledDropdownMenuItem onClick={handleShare}>
+            <StyledDropdownMenuItem onClick={() => shareSession(sessionId)}>
               <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round">
                 <path d="M8 8.53809C6.74209 8.60866 5.94798 8.80911 5.37868 9.37841C4.5 10.2571 4.5 11.6713 4.5 14.4997V15.4997C4.5 18.3282 4.5 19.7424 5.37868 20.6211C6.25736 21.4997 7.67157 21.4997 10.5 21.4997H13.5C16.3284 21.4997 17.7426 21.4997 18.6213 20.6211C19.5 19.7424 19.5 18.3282 19.5 15.4997V14.4997C19.5 11.6713 19.5 10.2571 18.6213 9.37841C18.052 8.80911 17.2579 8.60866 16 8.53809M12 14V3.5M9.5 5.5C9.99903 4.50411 10.6483 3.78875 11.5606 3.24093C11.7612 3.12053 11.8614 3.06033 12 3.06033C12.1386 3.06033 12.2388 3.12053 12.4394 3.24093C13.3517 3.78875 14.001 4.50411 14.5 5.5" />
               </svg>
               <span className="flex-1">Share Online</span>
             </StyledDropdownMenuItem>
+            <StyledDropdownMenuItem onClick={() => shareSession(sessionId, true)}>
+              <Lock className="h-3.5 w-3.5" />
+              <span className="flex-1">Share with Password</span>
+            </StyledDropdownMenuItem>
+            <StyledDropdownMenuSeparator />
+            {SHARE_EXPIRY_OPTIONS.map(({ value, label }) => (
+              <StyledDropdownMenuItem
+                key={value}
+                onSelect={(e) => {
+                  e.preventDefault()
+                  handleShareExpiryChange(value)
+                }}
+              >
+                <span className="flex-1">{label}</span>
+                <span className="w-3.5 ml-4">
+                  {shareExpiry === value && <Check className="h-3.5 w-3.5 text-foreground" />}
+                </span>
+              </StyledDropdownMenuItem>
+            ))}
             <StyledDropdownMenuSeparator />
             <StyledDropdownMenuItem onClick={() => window.electronAPI.openUrl('https://agents.craft.do/docs/go-further/sharing')}>
               <Info className="h-3.5 w-3.5" />
@@ -378,7 +398,7 @@ const ChatPage = React.memo(function ChatPage({ sessionId }: ChatPageProps) {
         )}
       </StyledDropdownMenuContent>
     </DropdownMenu>
-  ), [sharedUrl, handleShare, handleOpenInBrowser, handleCopyLink, handleUpdateShare, handleRevokeShare])
+  ), [sessionId, sharedUrl, shareExpiry, handleShareExpiryChange, handleOpenInBrowser, handleCopyLink, handleUpdateShare, handleRevokeShare])
 
   // Build title menu content for chat sessions using shared SessionMenu
   const sessionLabels = session?.labels ?? []
@@ -462,6 +482,7 @@ const ChatPage = React.memo(function ChatPage({ sessionId }: ChatPageProps) {
                 onRespondToCredential={onRespondToCredential}
                 thinkingLevel={sessionOpts.thinkingLevel}
                 onThinkingLevelChange={(level) => setOption('thinkingLevel', level)}
+                onProviderProfileChange={handleProviderProfileChange}
                 ultrathinkEnabled={sessionOpts.ultrathinkEnabled}
                 onUltrathinkChange={(enabled) => setOption('ultrathinkEnabled', enabled)}
                 permissionMode={sessionOpts.permissionMode}
@@ -531,8 +552,11 @@ const ChatPage = React.memo(function ChatPage({ sessionId }: ChatPageProps) {
             onRespondToPermission={onRespondToPermission}
             pendingCredential={pendingCredential}
             onRespondToCredential={onRespondToCredential}
+            onForkSession={onForkSession}
+            onEditMessage={onEditMessage}
             thinkingLevel={sessionOpts.thinkingLevel}
             onThinkingLevelChange={(level) => setOption('thinkingLevel', level)}
+            onProviderProfileChange={handleProviderProfileChange}
             ultrathinkEnabled={sessionOpts.ultrathinkEnabled}
             onUltrathinkChange={(enabled) => setOption('ultrathinkEnabled', enabled)}
             permissionMode={sessionOpts.permissionMode}
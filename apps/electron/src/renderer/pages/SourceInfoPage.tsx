@@ -23,10 +23,14 @@ import {
   Info_Markdown,
   PermissionsDataTable,
   ToolsDataTable,
+  ResourcesDataTable,
+  PromptsDataTable,
   type PermissionRow,
   type ToolRow,
+  type ResourceRow,
+  type PromptRow,
 } from '@/components/info'
-import type { LoadedSource, McpToolWithPermission } from '../../shared/types'
+import type { LoadedSource, McpCatalogResult, McpPromptInfo, McpResourceInfo, McpToolWithPermission } from '../../shared/types'
 import type { PermissionsConfigFile } from '@craft-agent/shared/agent/modes'
 
 interface SourceInfoPageProps {
@@ -94,6 +98,12 @@ function buildApiPermissionsData(config: PermissionsConfigFile): PermissionRow[]
     rows.push({ access: 'allowed', type: 'api', pattern, comment })
   })
 
+  // Denied API Endpoints
+  config.deniedApiEndpoints?.forEach((item) => {
+    const pattern = `${item.method} ${item.path}`
+    rows.push({ access: 'blocked', type: 'api', pattern, comment: item.comment ?? null })
+  })
+
   return rows
 }
 
@@ -117,17 +127,61 @@ function buildMcpPermissionsData(config: PermissionsConfigFile): PermissionRow[]
     rows.push({ access: 'allowed', type: 'mcp', pattern, comment })
   })
 
+  // Denied MCP Patterns
+  config.deniedMcpPatterns?.forEach((item) => {
+    const pattern = typeof item === 'string' ? item : item.pattern
+    const comment = typeof item === 'string' ? null : item.comment
+    rows.push({ access: 'blocked', type: 'mcp', pattern, comment })
+  })
+
   return rows
 }
 
 /**
- * Convert MCP tools to ToolRow[]
+ * Convert MCP tools to ToolRow[]. Enabled state comes from the source config
+ * so toggles (and edits to config.json) show without refetching tools.
  */
-function buildToolsData(tools: McpToolWithPermission[]): ToolRow[] {
+function buildToolsData(tools: McpToolWithPermission[], disabledTools: string[] = []): ToolRow[] {
   return tools.map((tool) => ({
     name: tool.name,
     description: tool.description || '',
     permission: tool.allowed ? 'allowed' : 'requires-permission',
+    enabled: !disabledTools.includes(tool.name),
+    tokens: tool.tokens,
+  }))
+}
+
+/**
+ * Describe how many tools are enabled and their estimated context cost
+ */
+function getToolsDescription(tools: ToolRow[]): string {
+  const enabled = tools.filter((tool) => tool.enabled)
+  const tokens = enabled.reduce((sum, tool) => sum + tool.tokens, 0)
+  return `${enabled.length} of ${tools.length} enabled, ~${tokens.toLocaleString()} tokens of context per message. Disabled tools are hidden from the model.`
+}
+
+/**
+ * Convert MCP resources to ResourceRow[]
+ */
+function buildResourcesData(resources: McpResourceInfo[]): ResourceRow[] {
+  return resources.map((resource) => ({
+    name: resource.name,
+    uri: resource.uri,
+    mimeType: resource.mimeType || '',
+    description: resource.description || '',
+  }))
+}
+
+/**
+ * Convert MCP prompts to PromptRow[]
+ */
+function buildPromptsData(prompts: McpPromptInfo[]): PromptRow[] {
+  return prompts.map((prompt) => ({
+    name: prompt.title || prompt.name,
+    description: prompt.description || '',
+    arguments: [...(prompt.arguments ?? [])]
+      .sort((a, b) => Number(!!b.required) - Number(!!a.required))
+      .map((arg) => (arg.required ? arg.name : `${arg.name}?`)),
   }))
 }
 
@@ -176,6 +230,8 @@ export default function SourceInfoPage({ sourceSlug, workspaceId, onDelete }: So
   const [mcpTools, setMcpTools] = useState<McpToolWithPermission[] | null>(null)
   const [mcpToolsLoading, setMcpToolsLoading] = useState(false)
   const [mcpToolsError, setMcpToolsError] = useState<string | null>(null)
+  const [mcpCatalog, setMcpCatalog] = useState<McpCatalogResult | null>(null)
+  const [mcpCatalogLoading, setMcpCatalogLoading] = useState(false)
   const [localMcpEnabled, setLocalMcpEnabled] = useState(true)
 
 
@@ -217,9 +273,16 @@ export default function SourceInfoPage({ sourceSlug, workspaceId, onDelete }: So
     }
   }, [workspaceId, sourceSlug])
 
-  // Load MCP tools when source is loaded and is MCP type
+  // Reload tools and resources only when the connection changes, not on every
+  // config save (e.g. toggling a tool would otherwise reconnect to the server)
+  const sourceType = source?.config.type
+  const connectionKey = source
+    ? JSON.stringify([source.config.mcp, source.config.api, source.config.local, source.config.connectionStatus, source.config.isAuthenticated])
+    : null
+
+  // Load tools when source is loaded (MCP servers, and in-process API/local servers)
   useEffect(() => {
-    if (!source || source.config.type !== 'mcp') {
+    if (!sourceType) {
       setMcpTools(null)
       setMcpToolsError(null)
       return
@@ -252,7 +315,33 @@ export default function SourceInfoPage({ sourceSlug, workspaceId, onDelete }: So
     return () => {
       isMounted = false
     }
-  }, [source, workspaceId, sourceSlug])
+  }, [sourceType, connectionKey, workspaceId, sourceSlug])
+
+  // Load MCP resources and prompts alongside tools
+  useEffect(() => {
+    if (sourceType !== 'mcp') {
+      setMcpCatalog(null)
+      return
+    }
+
+    let isMounted = true
+    setMcpCatalogLoading(true)
+
+    window.electronAPI.getMcpCatalog(workspaceId, sourceSlug)
+      .then((result) => {
+        if (isMounted) setMcpCatalog(result)
+      })
+      .catch((err) => {
+        if (isMounted) setMcpCatalog({ success: false, error: err instanceof Error ? err.message : 'Failed to load resources' })
+      })
+      .finally(() => {
+        if (isMounted) setMcpCatalogLoading(false)
+      })
+
+    return () => {
+      isMounted = false
+    }
+  }, [sourceType, connectionKey, workspaceId, sourceSlug])
 
   // Load workspace settings (for localMcpEnabled)
   useEffect(() => {
@@ -307,10 +396,35 @@ export default function SourceInfoPage({ sourceSlug, workspaceId, onDelete }: So
   }, [permissionsConfig, source])
 
   // Build data for ToolsDataTable
+  const disabledTools = source?.config.disabledTools
   const toolsData = useMemo(() => {
     if (!mcpTools) return []
-    return buildToolsData(mcpTools)
-  }, [mcpTools])
+    return buildToolsData(mcpTools, disabledTools)
+  }, [mcpTools, disabledTools])
+
+  // Toggle a tool on or off (optimistic - the sources watcher confirms the saved config)
+  const handleToggleTool = useCallback(async (name: string, enabled: boolean) => {
+    const updateDisabled = (disabled: boolean) => setSource((prev) => {
+      if (!prev) return prev
+      const others = (prev.config.disabledTools ?? []).filter((tool) => tool !== name)
+      return { ...prev, config: { ...prev.config, disabledTools: disabled ? [...others, name] : others } }
+    })
+
+    updateDisabled(!enabled)
+    try {
+      await window.electronAPI.setSourceToolEnabled(workspaceId, sourceSlug, name, enabled)
+    } catch (err) {
+      updateDisabled(enabled)
+      toast.error(`Failed to ${enabled ? 'enable' : 'disable'} ${name}`, {
+        description: err instanceof Error ? err.message : 'Unknown error',
+      })
+    }
+  }, [workspaceId, sourceSlug])
+
+  // Build data for ResourcesDataTable and PromptsDataTable
+  const resourcesData = useMemo(() => buildResourcesData(mcpCatalog?.resources ?? []), [mcpCatalog])
+  const promptsData = useMemo(() => buildPromptsData(mcpCatalog?.prompts ?? []), [mcpCatalog])
+  const mcpCatalogError = mcpCatalog && !mcpCatalog.success ? mcpCatalog.error : undefined
 
   // Handle opening URL (website or folder)
   const handleOpenUrl = useCallback(async () => {
@@ -456,11 +570,11 @@ export default function SourceInfoPage({ sourceSlug, workspaceId, onDelete }: So
             </Info_Section>
           )}
 
-          {/* Tools - for MCP sources */}
-          {source.config.type === 'mcp' && (
+          {/* Tools - for MCP and API sources, and local sources with tools */}
+          {(source.config.type !== 'local' || toolsData.length > 0) && (
             <Info_Section
               title="Tools"
-              description="Operations exposed by this server."
+              description={toolsData.length > 0 ? getToolsDescription(toolsData) : 'Operations exposed by this source.'}
               actions={
                 // EditPopover for AI-assisted tool permissions editing
                 <EditPopover
@@ -477,10 +591,35 @@ export default function SourceInfoPage({ sourceSlug, workspaceId, onDelete }: So
                 data={toolsData}
                 loading={mcpToolsLoading}
                 error={mcpToolsError ?? undefined}
+                onToggle={handleToggleTool}
+              />
+            </Info_Section>
+          )}
+
+          {/* Resources - for MCP sources that expose any */}
+          {source.config.type === 'mcp' && (mcpCatalogLoading || mcpCatalogError || resourcesData.length > 0) && (
+            <Info_Section
+              title="Resources"
+              description="Data this server can attach to a message. Mention one with @ in the chat input."
+            >
+              <ResourcesDataTable
+                data={resourcesData}
+                loading={mcpCatalogLoading}
+                error={mcpCatalogError}
               />
             </Info_Section>
           )}
 
+          {/* Prompts - for MCP sources that expose any */}
+          {source.config.type === 'mcp' && !mcpCatalogLoading && !mcpCatalogError && promptsData.length > 0 && (
+            <Info_Section
+              title="Prompts"
+              description="Templates this server provides. Insert one with / in the chat input."
+            >
+              <PromptsDataTable data={promptsData} />
+            </Info_Section>
+          )}
+
           {/* Permissions - for MCP sources */}
           {source.config.type === 'mcp' && permissionsConfig && mcpPermissionsData.length > 0 && (
             <Info_Section
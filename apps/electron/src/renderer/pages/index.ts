@@ -15,6 +15,8 @@ export {
   WorkspaceSettingsPage,
   PermissionsSettingsPage,
   LabelsSettingsPage,
+  SchedulesSettingsPage,
+  UsageSettingsPage,
   ShortcutsPage,
   PreferencesPage,
 } from './settings'
@@ -6,6 +6,8 @@
  * Settings:
  * - Notifications
  * - API Connection (opens OnboardingWizard for editing)
+ * - Model Providers (named provider profiles, default and fallback chain)
+ * - Control API (localhost HTTP/WebSocket server for external tools)
  * - About (version, updates)
  *
  * Note: Appearance settings (theme, font) have been moved to AppearanceSettingsPage.
@@ -18,10 +20,11 @@ import { Button } from '@/components/ui/button'
 import { HeaderMenu } from '@/components/ui/HeaderMenu'
 import { routes } from '@/lib/navigate'
 import { X } from 'lucide-react'
+import { toast } from 'sonner'
 import { Spinner, FullscreenOverlayBase } from '@craft-agent/ui'
 import { useSetAtom } from 'jotai'
 import { fullscreenOverlayOpenAtom } from '@/atoms/overlay'
-import type { AuthType } from '../../../shared/types'
+import type { AuthType, ControlApiStatus, ProviderProfile, ProviderProfileInfo, ProviderProfileKind, ProviderProfilesState } from '../../../shared/types'
 import type { DetailsPageMeta } from '@/lib/navigation-registry'
 
 import {
@@ -29,6 +32,10 @@ import {
   SettingsCard,
   SettingsRow,
   SettingsToggle,
+  SettingsInput,
+  SettingsSecretInput,
+  SettingsMenuSelectRow,
+  SettingsCardFooter,
 } from '@/components/settings'
 import { useUpdateChecker } from '@/hooks/useUpdateChecker'
 import { useOnboarding } from '@/hooks/useOnboarding'
@@ -40,6 +47,132 @@ export const meta: DetailsPageMeta = {
   slug: 'app',
 }
 
+// ============================================
+// Provider Profile Editor
+// ============================================
+
+const PROVIDER_KIND_OPTIONS: { value: ProviderProfileKind; label: string; description: string }[] = [
+  { value: 'anthropic', label: 'Anthropic API', description: 'Anthropic API key' },
+  { value: 'claude_oauth', label: 'Claude Pro/Max', description: 'Your Claude sign-in from API Connection' },
+  { value: 'openrouter', label: 'OpenRouter', description: 'OpenRouter API key' },
+  { value: 'gateway', label: 'Local gateway', description: 'Ollama, LiteLLM or another compatible endpoint' },
+]
+
+/** Profile ID derived from a new profile's name (IDs are permanent once saved) */
+function slugifyProfileName(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '')
+}
+
+/** One-line summary of a profile for its row */
+function describeProviderProfile(profile: ProviderProfileInfo, fallbackChain: string[]): string {
+  const parts = [PROVIDER_KIND_OPTIONS.find(o => o.value === profile.kind)?.label ?? profile.kind]
+  if (profile.baseUrl) parts.push(profile.baseUrl)
+  if (profile.models?.length) parts.push(profile.models.join(', '))
+  if ((profile.kind === 'anthropic' || profile.kind === 'openrouter') && !profile.hasApiKey) parts.push('No API key')
+  const fallbackIndex = fallbackChain.indexOf(profile.id)
+  if (fallbackIndex >= 0) parts.push(`Fallback #${fallbackIndex + 1}`)
+  return parts.join(' · ')
+}
+
+interface ProviderProfileEditorProps {
+  /** Profile being edited, or null to create one */
+  profile: ProviderProfileInfo | null
+  /** IDs already in use (new profiles get a unique ID) */
+  existingIds: string[]
+  onSave: (profile: ProviderProfile, apiKey?: string | null) => Promise<void>
+  onCancel: () => void
+}
+
+/**
+ * Form for creating or editing a provider profile.
+ * The API key field is write-only: left empty, the stored key is kept.
+ */
+function ProviderProfileEditor({ profile, existingIds, onSave, onCancel }: ProviderProfileEditorProps) {
+  const [name, setName] = useState(profile?.name ?? '')
+  const [kind, setKind] = useState<ProviderProfileKind>(profile?.kind ?? 'anthropic')
+  const [baseUrl, setBaseUrl] = useState(profile?.baseUrl ?? '')
+  const [models, setModels] = useState(profile?.models?.join(', ') ?? '')
+  const [apiKey, setApiKey] = useState('')
+  const [error, setError] = useState<string | null>(null)
+  const [isSaving, setIsSaving] = useState(false)
+
+  const handleSave = async () => {
+    let id = profile?.id
+    if (!id) {
+      const base = slugifyProfileName(name) || 'provider'
+      id = base
+      for (let n = 2; existingIds.includes(id); n++) id = `${base}-${n}`
+    }
+
+    setIsSaving(true)
+    setError(null)
+    try {
+      await onSave(
+        {
+          id,
+          name,
+          kind,
+          baseUrl: kind === 'claude_oauth' ? undefined : baseUrl,
+          models: models.split(',').map(m => m.trim()).filter(Boolean),
+        },
+        // Claude Pro/Max profiles use the app's sign-in, never a key
+        kind === 'claude_oauth' ? null : apiKey.trim() || undefined
+      )
+    } catch (err) {
+      // IPC errors arrive as "Error invoking remote method '…': Error: <message>"
+      setError(err instanceof Error ? err.message.replace(/^.*Error: /, '') : String(err))
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <SettingsCard>
+      <SettingsInput label="Name" value={name} onChange={setName} placeholder="OpenRouter" />
+      <SettingsMenuSelectRow
+        label="Type"
+        value={kind}
+        onValueChange={(v) => setKind(v as ProviderProfileKind)}
+        options={PROVIDER_KIND_OPTIONS}
+      />
+      {kind !== 'claude_oauth' && (
+        <>
+          <SettingsInput
+            label="Base URL"
+            description={kind === 'gateway' ? 'Required' : 'Optional — leave empty for the provider\'s default endpoint'}
+            value={baseUrl}
+            onChange={setBaseUrl}
+            placeholder={kind === 'gateway' ? 'http://localhost:4000' : kind === 'openrouter' ? 'https://openrouter.ai/api' : 'https://api.anthropic.com'}
+            type="url"
+          />
+          <SettingsSecretInput
+            label="API key"
+            description={profile?.hasApiKey ? 'A key is stored — leave empty to keep it' : kind === 'gateway' ? 'Optional for most local gateways' : undefined}
+            value={apiKey}
+            onChange={setApiKey}
+          />
+        </>
+      )}
+      <SettingsInput
+        label="Models"
+        description="Comma-separated. Chats asking for another model use the first one. Empty allows any model."
+        value={models}
+        onChange={setModels}
+        placeholder="anthropic/claude-sonnet-4.5, openai/gpt-5"
+        error={error ?? undefined}
+      />
+      <SettingsCardFooter>
+        <Button variant="ghost" size="sm" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button size="sm" onClick={handleSave} disabled={isSaving || !name.trim()}>
+          {isSaving ? <Spinner className="text-[10px]" /> : 'Save'}
+        </Button>
+      </SettingsCardFooter>
+    </SettingsCard>
+  )
+}
+
 // ============================================
 // Main Component
 // ============================================
@@ -56,6 +189,13 @@ export default function AppSettingsPage() {
   // Notifications state
   const [notificationsEnabled, setNotificationsEnabled] = useState(true)
 
+  // Control API state
+  const [controlApi, setControlApi] = useState<ControlApiStatus | null>(null)
+
+  // Provider profiles state ('new' = creating a profile)
+  const [providers, setProviders] = useState<ProviderProfilesState>({ profiles: [], defaultProfileId: null, fallbackChain: [] })
+  const [editingProfileId, setEditingProfileId] = useState<string | 'new' | null>(null)
+
   // Auto-update state
   const updateChecker = useUpdateChecker()
   const [isCheckingForUpdates, setIsCheckingForUpdates] = useState(false)
@@ -73,13 +213,17 @@ export default function AppSettingsPage() {
   const loadConnectionInfo = useCallback(async () => {
     if (!window.electronAPI) return
     try {
-      const [billing, notificationsOn] = await Promise.all([
+      const [billing, notificationsOn, controlApiStatus, providerState] = await Promise.all([
         window.electronAPI.getApiSetup(),
         window.electronAPI.getNotificationsEnabled(),
+        window.electronAPI.getControlApiStatus(),
+        window.electronAPI.getProviderProfiles(),
       ])
       setAuthType(billing.authType)
       setHasCredential(billing.hasCredential)
       setNotificationsEnabled(notificationsOn)
+      setControlApi(controlApiStatus)
+      setProviders(providerState)
     } catch (error) {
       console.error('Failed to load settings:', error)
     }
@@ -128,6 +272,56 @@ export default function AppSettingsPage() {
     await window.electronAPI.setNotificationsEnabled(enabled)
   }, [])
 
+  const handleControlApiEnabledChange = useCallback(async (enabled: boolean) => {
+    const status = await window.electronAPI.setControlApiEnabled(enabled)
+    setControlApi(status)
+    if (enabled && status.error) {
+      toast.error('Control API failed to start', { description: status.error })
+    }
+  }, [])
+
+  const handleCopyControlApiToken = useCallback(async () => {
+    if (!controlApi?.token) return
+    await navigator.clipboard.writeText(controlApi.token)
+    toast.success('Token copied to clipboard')
+  }, [controlApi])
+
+  const handleRegenerateControlApiToken = useCallback(async () => {
+    setControlApi(await window.electronAPI.regenerateControlApiToken())
+    toast.success('Token regenerated', { description: 'Connected clients must use the new token.' })
+  }, [])
+
+  const handleSaveProviderProfile = useCallback(async (profile: ProviderProfile, apiKey?: string | null) => {
+    setProviders(await window.electronAPI.saveProviderProfile(profile, apiKey))
+    setEditingProfileId(null)
+  }, [])
+
+  const handleDeleteProviderProfile = useCallback(async (profile: ProviderProfileInfo) => {
+    setProviders(await window.electronAPI.deleteProviderProfile(profile.id))
+    toast.success(`Deleted ${profile.name}`)
+  }, [])
+
+  const handleDefaultProviderChange = useCallback(async (profileId: string) => {
+    setProviders(await window.electronAPI.setDefaultProviderProfile(profileId || null))
+  }, [])
+
+  // Toggle a profile in the fallback chain (added at the end)
+  const handleToggleFallback = useCallback(async (profileId: string) => {
+    const chain = providers.fallbackChain.includes(profileId)
+      ? providers.fallbackChain.filter(id => id !== profileId)
+      : [...providers.fallbackChain, profileId]
+    setProviders(await window.electronAPI.setProviderFallbackChain(chain))
+  }, [providers.fallbackChain])
+
+  // Move a profile one step earlier in the fallback chain
+  const handleMoveFallbackUp = useCallback(async (profileId: string) => {
+    const chain = [...providers.fallbackChain]
+    const index = chain.indexOf(profileId)
+    if (index <= 0) return
+    chain.splice(index - 1, 2, chain[index]!, chain[index - 1]!)
+    setProviders(await window.electronAPI.setProviderFallbackChain(chain))
+  }, [providers.fallbackChain])
+
   return (
     <div className="h-full flex flex-col">
       <PanelHeader title="App Settings" actions={<HeaderMenu route={routes.view.settings('app')} helpFeature="app-settings" />} />
@@ -171,6 +365,106 @@ export default function AppSettingsPage() {
               </SettingsCard>
             </SettingsSection>
 
+            {/* Model Providers */}
+            <SettingsSection
+              title="Model Providers"
+              description="Named connections with their own credentials and models. Chats use the default unless their workspace or the chat picks another; when a provider is rate limited or down, the fallbacks are tried in order."
+            >
+              <SettingsCard>
+                <SettingsMenuSelectRow
+                  label="Default provider"
+                  description="For chats and workspaces that don't pick one"
+                  value={providers.defaultProfileId ?? ''}
+                  onValueChange={handleDefaultProviderChange}
+                  options={[
+                    { value: '', label: 'API Connection', description: 'The connection configured above' },
+                    ...providers.profiles.map(profile => ({ value: profile.id, label: profile.name })),
+                  ]}
+                />
+                {providers.profiles.map(profile => {
+                  const fallbackIndex = providers.fallbackChain.indexOf(profile.id)
+                  return (
+                    <SettingsRow
+                      key={profile.id}
+                      label={profile.name}
+                      description={describeProviderProfile(profile, providers.fallbackChain)}
+                    >
+                      <div className="flex items-center gap-2">
+                        {fallbackIndex > 0 && (
+                          <Button variant="ghost" size="sm" onClick={() => handleMoveFallbackUp(profile.id)}>
+                            Move up
+                          </Button>
+                        )}
+                        <Button variant="outline" size="sm" onClick={() => handleToggleFallback(profile.id)}>
+                          {fallbackIndex >= 0 ? 'Remove fallback' : 'Use as fallback'}
+                        </Button>
+                        <Button variant="outline" size="sm" onClick={() => setEditingProfileId(profile.id)}>
+                          Edit
+                        </Button>
+                        <Button variant="ghost" size="sm" onClick={() => handleDeleteProviderProfile(profile)}>
+                          Delete
+                        </Button>
+                      </div>
+                    </SettingsRow>
+                  )
+                })}
+                {editingProfileId === null && (
+                  <SettingsCardFooter>
+                    <Button variant="outline" size="sm" onClick={() => setEditingProfileId('new')}>
+                      Add provider
+                    </Button>
+                  </SettingsCardFooter>
+                )}
+              </SettingsCard>
+              {editingProfileId !== null && (
+                <div className="mt-3">
+                  <ProviderProfileEditor
+                    key={editingProfileId}
+                    profile={providers.profiles.find(p => p.id === editingProfileId) ?? null}
+                    existingIds={providers.profiles.map(p => p.id)}
+                    onSave={handleSaveProviderProfile}
+                    onCancel={() => setEditingProfileId(null)}
+                  />
+                </div>
+              )}
+            </SettingsSection>
+
+            {/* Control API */}
+            <SettingsSection
+              title="Control API"
+              description="Let local tools and scripts list, create and drive chats over HTTP and WebSocket. Only reachable from this computer."
+            >
+              <SettingsCard>
+                <SettingsToggle
+                  label="Enable control API"
+                  description={
+                    controlApi?.enabled
+                      ? controlApi.running
+                        ? `Listening on ${controlApi.url}`
+                        : `Not running${controlApi.error ? ` — ${controlApi.error}` : ''}`
+                      : 'Disabled'
+                  }
+                  checked={controlApi?.enabled ?? false}
+                  onCheckedChange={handleControlApiEnabledChange}
+                />
+                {controlApi?.enabled && controlApi.token && (
+                  <SettingsRow
+                    label="Access token"
+                    description="Send as an Authorization: Bearer header."
+                  >
+                    <div className="flex items-center gap-2">
+                      <Button variant="outline" size="sm" onClick={handleCopyControlApiToken}>
+                        Copy
+                      </Button>
+                      <Button variant="outline" size="sm" onClick={handleRegenerateControlApiToken}>
+                        Regenerate
+                      </Button>
+                    </div>
+                  </SettingsRow>
+                )}
+              </SettingsCard>
+            </SettingsSection>
+
             {/* API Setup Fullscreen Overlay — reuses the OnboardingWizard starting at the api-setup step */}
             <FullscreenOverlayBase
               isOpen={showApiSetup}
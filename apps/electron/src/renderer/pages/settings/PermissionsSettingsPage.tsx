@@ -7,16 +7,21 @@
  *
  * Default patterns can be edited by the user in ~/.craft-agent/permissions/default.json.
  * Custom patterns can be edited via workspace permissions.json file.
+ *
+ * Also lists "always allow" rules saved from permission prompts (workspace
+ * permissions.json and ~/.craft-agent/permissions/always-allow.json), which can be revoked here.
  */
 
 import * as React from 'react'
-import { useState, useEffect, useMemo } from 'react'
+import { useState, useEffect, useMemo, useCallback } from 'react'
 import { PanelHeader } from '@/components/app-shell/PanelHeader'
 import { ScrollArea } from '@/components/ui/scroll-area'
 import { HeaderMenu } from '@/components/ui/HeaderMenu'
 import { Loader2 } from 'lucide-react'
+import { toast } from 'sonner'
 import { useAppShellContext, useActiveWorkspace } from '@/context/AppShellContext'
-import { type PermissionsConfigFile } from '@craft-agent/shared/agent/modes'
+import { type PermissionsConfigFile, type AlwaysAllowScope } from '@craft-agent/shared/agent/modes'
+import type { AlwaysAllowRules } from '../../../shared/types'
 import {
   PermissionsDataTable,
   type PermissionRow,
@@ -40,7 +45,8 @@ export const meta: DetailsPageMeta = {
  * These are the Explore mode patterns that can be customized by the user.
  * Patterns can include comments which are displayed in the table.
  *
- * Note: We only show allowed patterns here. Anything not on this list is implicitly denied.
+ * Note: We only show allowed patterns and explicit deny rules here. Anything not on
+ * the allowed list is implicitly denied.
  */
 function buildDefaultPermissionsData(config: PermissionsConfigFile | null): PermissionRow[] {
   if (!config) return []
@@ -81,6 +87,40 @@ function buildDefaultPermissionsData(config: PermissionsConfigFile | null): Perm
     rows.push({ access: 'allowed', type: 'tool', pattern: `Write to: ${pattern}`, comment })
   })
 
+  rows.push(...buildDenyRulesData(config))
+
+  return rows
+}
+
+/**
+ * Build rows for explicit deny rules, which block in every mode.
+ */
+function buildDenyRulesData(config: PermissionsConfigFile): PermissionRow[] {
+  const rows: PermissionRow[] = []
+
+  config.deniedBashPatterns?.forEach((item) => {
+    const pattern = typeof item === 'string' ? item : item.pattern
+    const comment = typeof item === 'string' ? 'Denied bash pattern' : (item.comment || 'Denied bash pattern')
+    rows.push({ access: 'blocked', type: 'bash', pattern, comment })
+  })
+
+  config.deniedMcpPatterns?.forEach((item) => {
+    const pattern = typeof item === 'string' ? item : item.pattern
+    const comment = typeof item === 'string' ? 'Denied MCP pattern' : (item.comment || 'Denied MCP pattern')
+    rows.push({ access: 'blocked', type: 'mcp', pattern, comment })
+  })
+
+  config.deniedApiEndpoints?.forEach((item) => {
+    const pattern = `${item.method} ${item.path}`
+    rows.push({ access: 'blocked', type: 'api', pattern, comment: item.comment || 'Denied API endpoint' })
+  })
+
+  config.deniedWritePaths?.forEach((item) => {
+    const pattern = typeof item === 'string' ? item : item.pattern
+    const comment = typeof item === 'string' ? 'Denied write path' : (item.comment || 'Denied write path')
+    rows.push({ access: 'blocked', type: 'tool', pattern: `Write to: ${pattern}`, comment })
+  })
+
   return rows
 }
 
@@ -126,9 +166,34 @@ function buildCustomPermissionsData(config: PermissionsConfigFile): PermissionRo
     rows.push({ access: 'allowed', type: 'tool', pattern: `Write to: ${pattern}`, comment })
   })
 
+  rows.push(...buildDenyRulesData(config))
+
   return rows
 }
 
+type SavedScope = Exclude<AlwaysAllowScope, 'session'>
+
+/** Source column labels for saved "always allow" rules */
+const ALWAYS_ALLOW_SOURCE_LABELS: Record<SavedScope, string> = {
+  workspace: 'This workspace',
+  global: 'All workspaces',
+}
+
+/**
+ * Build rows for "always allow" rules saved from permission prompts.
+ */
+function buildAlwaysAllowData(rules: AlwaysAllowRules): PermissionRow[] {
+  return (Object.keys(ALWAYS_ALLOW_SOURCE_LABELS) as SavedScope[]).flatMap(scope =>
+    rules[scope].map(rule => ({
+      access: 'allowed' as const,
+      type: rule.type,
+      pattern: rule.pattern,
+      comment: rule.comment || null,
+      source: ALWAYS_ALLOW_SOURCE_LABELS[scope],
+    }))
+  )
+}
+
 export default function PermissionsSettingsPage() {
   const { activeWorkspaceId } = useAppShellContext()
   const activeWorkspace = useActiveWorkspace()
@@ -138,6 +203,7 @@ export default function PermissionsSettingsPage() {
   const [defaultConfig, setDefaultConfig] = useState<PermissionsConfigFile | null>(null)
   const [defaultPermissionsPath, setDefaultPermissionsPath] = useState<string | null>(null)
   const [customConfig, setCustomConfig] = useState<PermissionsConfigFile | null>(null)
+  const [alwaysAllowRules, setAlwaysAllowRules] = useState<AlwaysAllowRules>({ workspace: [], global: [] })
 
   // Build default permissions data from ~/.craft-agent/permissions/default.json
   const defaultPermissionsData = useMemo(() => buildDefaultPermissionsData(defaultConfig), [defaultConfig])
@@ -148,6 +214,9 @@ export default function PermissionsSettingsPage() {
     return buildCustomPermissionsData(customConfig)
   }, [customConfig])
 
+  // Build rows for saved "always allow" rules
+  const alwaysAllowData = useMemo(() => buildAlwaysAllowData(alwaysAllowRules), [alwaysAllowRules])
+
   // Load both default and workspace permissions configs
   useEffect(() => {
     const loadPermissions = async () => {
@@ -167,6 +236,7 @@ export default function PermissionsSettingsPage() {
         if (activeWorkspaceId) {
           const workspace = await window.electronAPI.getWorkspacePermissionsConfig(activeWorkspaceId)
           setCustomConfig(workspace)
+          setAlwaysAllowRules(await window.electronAPI.getAlwaysAllowRules(activeWorkspaceId))
         }
       } catch (error) {
         console.error('Failed to load permissions:', error)
@@ -186,10 +256,32 @@ export default function PermissionsSettingsPage() {
       // Reload default permissions when the file changes
       const { config: defaults } = await window.electronAPI.getDefaultPermissionsConfig()
       setDefaultConfig(defaults)
+      // always-allow.json lives next to default.json and triggers the same event
+      if (activeWorkspaceId) {
+        setAlwaysAllowRules(await window.electronAPI.getAlwaysAllowRules(activeWorkspaceId))
+      }
     })
 
     return unsubscribe
-  }, [])
+  }, [activeWorkspaceId])
+
+  // Revoke a saved "always allow" rule and reload the list
+  const handleRevokeAlwaysAllow = useCallback(async (row: PermissionRow) => {
+    if (!activeWorkspaceId || row.type === 'mcp') return
+    const scope = (Object.keys(ALWAYS_ALLOW_SOURCE_LABELS) as SavedScope[])
+      .find(s => ALWAYS_ALLOW_SOURCE_LABELS[s] === row.source)
+    if (!scope) return
+
+    try {
+      await window.electronAPI.revokeAlwaysAllowRule(activeWorkspaceId, scope, { type: row.type, pattern: row.pattern })
+      setAlwaysAllowRules(await window.electronAPI.getAlwaysAllowRules(activeWorkspaceId))
+      toast.success('Rule revoked')
+    } catch (error) {
+      toast.error('Failed to revoke rule', {
+        description: error instanceof Error ? error.message : 'Unknown error',
+      })
+    }
+  }, [activeWorkspaceId])
 
   return (
     <div className="h-full flex flex-col">
@@ -306,6 +398,33 @@ export default function PermissionsSettingsPage() {
                       )}
                     </SettingsCard>
                   </SettingsSection>
+
+                  {/* Always Allowed Section */}
+                  <SettingsSection
+                    title="Always Allowed"
+                    description="Operations approved with Always Allow in Ask mode. They skip the prompt in Ask mode only, never in Explore mode."
+                  >
+                    <SettingsCard className="p-0">
+                      {alwaysAllowData.length > 0 ? (
+                        <PermissionsDataTable
+                          data={alwaysAllowData}
+                          showSourceColumn
+                          onRevoke={handleRevokeAlwaysAllow}
+                          searchable
+                          maxHeight={350}
+                          fullscreen
+                          fullscreenTitle="Always Allowed"
+                        />
+                      ) : (
+                        <div className="p-8 text-center text-muted-foreground">
+                          <p className="text-sm">No saved approvals.</p>
+                          <p className="text-xs mt-1 text-foreground/40">
+                            Choose Always Allow → For this workspace (or For all workspaces) on a permission prompt to add one.
+                          </p>
+                        </div>
+                      )}
+                    </SettingsCard>
+                  </SettingsSection>
                 </>
               )}
             </div>
@@ -0,0 +1,480 @@
+/**
+ * SchedulesSettingsPage
+ *
+ * Manages workspace schedules (schedules.json): prompts that run on a cron
+ * trigger and spawn a new session with a fixed model, permission mode,
+ * sources and labels.
+ *
+ * Sections:
+ * - Schedules: enable/disable, run now, edit, delete, add
+ * - Recent Runs: run history with links to the spawned sessions
+ */
+
+import * as React from 'react'
+import { useState, useEffect, useCallback, useMemo } from 'react'
+import { formatDistanceToNowStrict, format } from 'date-fns'
+import { Loader2, Play, Pencil, Trash2, Plus } from 'lucide-react'
+import { toast } from 'sonner'
+import { PanelHeader } from '@/components/app-shell/PanelHeader'
+import { ScrollArea } from '@/components/ui/scroll-area'
+import { HeaderMenu } from '@/components/ui/HeaderMenu'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Textarea } from '@/components/ui/textarea'
+import { Switch } from '@/components/ui/switch'
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from '@/components/ui/dialog'
+import { useRegisterModal } from '@/context/ModalContext'
+import { useAppShellContext } from '@/context/AppShellContext'
+import { cn } from '@/lib/utils'
+import { navigate, routes } from '@/lib/navigate'
+import { MODELS } from '@config/models'
+import { PERMISSION_MODE_CONFIG } from '@craft-agent/shared/agent/mode-types'
+import { flattenLabels } from '@craft-agent/shared/labels'
+import {
+  getNextCronRun,
+  validateCronExpression,
+  validateSchedule,
+  SCHEDULE_PERMISSION_MODES,
+  type ScheduleConfig,
+  type ScheduleRun,
+} from '@craft-agent/shared/schedules'
+import {
+  SettingsSection,
+  SettingsCard,
+  SettingsMenuSelect,
+} from '@/components/settings'
+import type { PermissionMode } from '../../../shared/types'
+import type { DetailsPageMeta } from '@/lib/navigation-registry'
+
+export const meta: DetailsPageMeta = {
+  navigator: 'settings',
+  slug: 'schedules',
+}
+
+// How often the run history is refreshed while the page is open
+const RUNS_REFRESH_MS = 15_000
+const RUNS_LIMIT = 50
+
+const DEFAULT_MODEL_VALUE = '__workspace_default__'
+
+const PERMISSION_MODE_OPTIONS = SCHEDULE_PERMISSION_MODES.map((mode) => ({
+  value: mode,
+  label: PERMISSION_MODE_CONFIG[mode].shortName,
+  description: PERMISSION_MODE_CONFIG[mode].description,
+}))
+
+const RUN_STATUS_CLASS: Record<ScheduleRun['status'], string> = {
+  running: 'text-info',
+  completed: 'text-success',
+  failed: 'text-destructive',
+  skipped: 'text-muted-foreground',
+}
+
+function createEmptySchedule(): ScheduleConfig {
+  return {
+    id: `schedule-${Date.now().toString(36)}`,
+    name: '',
+    enabled: true,
+    cron: '0 9 * * 1-5',
+    prompt: '',
+    // Unattended runs default to read-only
+    permissionMode: 'safe',
+  }
+}
+
+/** Human-readable next run for a schedule, or a reason it won't run */
+function describeNextRun(schedule: ScheduleConfig): string {
+  if (!schedule.enabled) return 'Disabled'
+  if (validateCronExpression(schedule.cron)) return 'Invalid schedule'
+  const next = getNextCronRun(schedule.cron)
+  return next ? `Next run ${format(next, 'EEE d MMM, HH:mm')}` : 'Never runs'
+}
+
+// ============================================
+// Main Component
+// ============================================
+
+export default function SchedulesSettingsPage() {
+  const { activeWorkspaceId } = useAppShellContext()
+  const [schedules, setSchedules] = useState<ScheduleConfig[]>([])
+  const [runs, setRuns] = useState<ScheduleRun[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [editing, setEditing] = useState<{ schedule: ScheduleConfig; isNew: boolean } | null>(null)
+
+  const loadRuns = useCallback(async () => {
+    if (!activeWorkspaceId) return
+    try {
+      setRuns(await window.electronAPI.listScheduleRuns(activeWorkspaceId, undefined, RUNS_LIMIT))
+    } catch (error) {
+      console.error('Failed to load schedule runs:', error)
+    }
+  }, [activeWorkspaceId])
+
+  // Load schedules and history when the workspace changes
+  useEffect(() => {
+    if (!activeWorkspaceId) {
+      setIsLoading(false)
+      return
+    }
+    let cancelled = false
+    setIsLoading(true)
+    Promise.all([
+      window.electronAPI.listSchedules(activeWorkspaceId),
+      window.electronAPI.listScheduleRuns(activeWorkspaceId, undefined, RUNS_LIMIT),
+    ])
+      .then(([loadedSchedules, loadedRuns]) => {
+        if (cancelled) return
+        setSchedules(loadedSchedules)
+        setRuns(loadedRuns)
+      })
+      .catch((error) => console.error('Failed to load schedules:', error))
+      .finally(() => {
+        if (!cancelled) setIsLoading(false)
+      })
+    return () => { cancelled = true }
+  }, [activeWorkspaceId])
+
+  // Keep run statuses fresh while runs are in progress in the background
+  useEffect(() => {
+    const interval = setInterval(loadRuns, RUNS_REFRESH_MS)
+    return () => clearInterval(interval)
+  }, [loadRuns])
+
+  const persist = useCallback(async (next: ScheduleConfig[]): Promise<boolean> => {
+    if (!activeWorkspaceId) return false
+    try {
+      await window.electronAPI.saveSchedules(activeWorkspaceId, next)
+      setSchedules(next)
+      return true
+    } catch (error) {
+      toast.error('Failed to save schedules', {
+        description: error instanceof Error ? error.message : String(error),
+      })
+      return false
+    }
+  }, [activeWorkspaceId])
+
+  const handleToggle = useCallback((id: string, enabled: boolean) => {
+    persist(schedules.map(s => (s.id === id ? { ...s, enabled } : s)))
+  }, [schedules, persist])
+
+  const handleDelete = useCallback((id: string) => {
+    persist(schedules.filter(s => s.id !== id))
+  }, [schedules, persist])
+
+  const handleRunNow = useCallback(async (schedule: ScheduleConfig) => {
+    if (!activeWorkspaceId) return
+    try {
+      const run = await window.electronAPI.runScheduleNow(activeWorkspaceId, schedule.id)
+      if (run.status === 'running') {
+        toast.success(`Started "${schedule.name}"`)
+      } else {
+        toast.error(`"${schedule.name}" did not start`, { description: run.error })
+      }
+    } catch (error) {
+      toast.error(`Failed to run "${schedule.name}"`, {
+        description: error instanceof Error ? error.message : String(error),
+      })
+    }
+    loadRuns()
+  }, [activeWorkspaceId, loadRuns])
+
+  const handleSave = useCallback(async (schedule: ScheduleConfig) => {
+    const exists = schedules.some(s => s.id === schedule.id)
+    const next = exists
+      ? schedules.map(s => (s.id === schedule.id ? schedule : s))
+      : [...schedules, schedule]
+    if (await persist(next)) {
+      setEditing(null)
+    }
+  }, [schedules, persist])
+
+  return (
+    <div className="h-full flex flex-col">
+      <PanelHeader title="Schedules" actions={<HeaderMenu route={routes.view.settings('schedules')} />} />
+      <div className="flex-1 min-h-0 mask-fade-y">
+        <ScrollArea className="h-full">
+          <div className="px-5 py-7 max-w-3xl mx-auto">
+            <div className="space-y-8">
+              {isLoading ? (
+                <div className="flex items-center justify-center py-12">
+                  <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+                </div>
+              ) : (
+                <>
+                  {/* Schedules Section */}
+                  <SettingsSection
+                    title="Schedules"
+                    description="Prompts that run automatically on a cron schedule. Each run starts a new session with the model, permission mode, sources and labels configured here."
+                    action={
+                      <Button variant="secondary" size="sm" onClick={() => setEditing({ schedule: createEmptySchedule(), isNew: true })}>
+                        <Plus className="w-3.5 h-3.5 mr-1" />
+                        Add
+                      </Button>
+                    }
+                  >
+                    <SettingsCard className="p-0" divided>
+                      {schedules.length > 0 ? (
+                        schedules.map((schedule) => (
+                          <ScheduleRow
+                            key={schedule.id}
+                            schedule={schedule}
+                            onToggle={(enabled) => handleToggle(schedule.id, enabled)}
+                            onRunNow={() => handleRunNow(schedule)}
+                            onEdit={() => setEditing({ schedule, isNew: false })}
+                            onDelete={() => handleDelete(schedule.id)}
+                          />
+                        ))
+                      ) : (
+                        <div className="p-8 text-center text-muted-foreground">
+                          <p className="text-sm">No schedules configured.</p>
+                          <p className="text-xs mt-1 text-foreground/40">
+                            Schedules are stored in <code className="bg-foreground/5 px-1 rounded">schedules.json</code> in your workspace.
+                          </p>
+                        </div>
+                      )}
+                    </SettingsCard>
+                  </SettingsSection>
+
+                  {/* Recent Runs Section */}
+                  <SettingsSection title="Recent Runs" description="The latest scheduled and manual runs, newest first.">
+                    <SettingsCard className="p-0" divided>
+                      {runs.length > 0 ? (
+                        runs.map((run) => <ScheduleRunRow key={run.id} run={run} />)
+                      ) : (
+                        <div className="p-8 text-center text-sm text-muted-foreground">
+                          No runs yet.
+                        </div>
+                      )}
+                    </SettingsCard>
+                  </SettingsSection>
+                </>
+              )}
+            </div>
+          </div>
+        </ScrollArea>
+      </div>
+
+      {editing && (
+        <ScheduleEditDialog
+          initial={editing.schedule}
+          isNew={editing.isNew}
+          onCancel={() => setEditing(null)}
+          onSave={handleSave}
+        />
+      )}
+    </div>
+  )
+}
+
+// ============================================
+// Rows
+// ============================================
+
+interface ScheduleRowProps {
+  schedule: ScheduleConfig
+  onToggle: (enabled: boolean) => void
+  onRunNow: () => void
+  onEdit: () => void
+  onDelete: () => void
+}
+
+function ScheduleRow({ schedule, onToggle, onRunNow, onEdit, onDelete }: ScheduleRowProps) {
+  return (
+    <div className="flex items-center gap-3 px-4 py-3">
+      <div className="flex-1 min-w-0">
+        <div className="text-sm font-medium truncate">{schedule.name}</div>
+        <div className="text-xs text-muted-foreground truncate">
+          <code className="bg-foreground/5 px-1 rounded">{schedule.cron}</code>
+          {' · '}{PERMISSION_MODE_CONFIG[schedule.permissionMode]?.shortName ?? schedule.permissionMode}
+          {' · '}{describeNextRun(schedule)}
+        </div>
+      </div>
+      <Button variant="ghost" size="icon" className="size-7" title="Run now" onClick={onRunNow}>
+        <Play className="w-3.5 h-3.5" />
+      </Button>
+      <Button variant="ghost" size="icon" className="size-7" title="Edit" onClick={onEdit}>
+        <Pencil className="w-3.5 h-3.5" />
+      </Button>
+      <Button variant="ghost" size="icon" className="size-7" title="Delete" onClick={onDelete}>
+        <Trash2 className="w-3.5 h-3.5" />
+      </Button>
+      <Switch checked={schedule.enabled} onCheckedChange={onToggle} />
+    </div>
+  )
+}
+
+function ScheduleRunRow({ run }: { run: ScheduleRun }) {
+  const duration = run.finishedAt ? Math.round((run.finishedAt - run.startedAt) / 1000) : null
+  return (
+    <div className="flex items-center gap-3 px-4 py-2.5 text-sm">
+      <div className="flex-1 min-w-0">
+        <div className="truncate">{run.scheduleName}</div>
+        <div className="text-xs text-muted-foreground truncate">
+          {formatDistanceToNowStrict(run.startedAt, { addSuffix: true })}
+          {' · '}{run.trigger === 'manual' ? 'Manual' : 'Scheduled'}
+          {duration !== null && ` · ${duration}s`}
+          {run.error && ` · ${run.error}`}
+        </div>
+      </div>
+      <span className={cn('text-xs capitalize', RUN_STATUS_CLASS[run.status])}>{run.status}</span>
+      {run.sessionId && (
+        <Button variant="ghost" size="sm" onClick={() => navigate(routes.view.allChats(run.sessionId))}>
+          Open
+        </Button>
+      )}
+    </div>
+  )
+}
+
+// ============================================
+// Edit Dialog
+// ============================================
+
+interface ScheduleEditDialogProps {
+  initial: ScheduleConfig
+  isNew: boolean
+  onCancel: () => void
+  onSave: (schedule: ScheduleConfig) => void
+}
+
+function ScheduleEditDialog({ initial, isNew, onCancel, onSave }: ScheduleEditDialogProps) {
+  const { enabledSources, labels } = useAppShellContext()
+  const [draft, setDraft] = useState<ScheduleConfig>(initial)
+
+  // Register with modal context so X button / Cmd+W closes this dialog first
+  useRegisterModal(true, onCancel)
+
+  const update = <K extends keyof ScheduleConfig>(key: K, value: ScheduleConfig[K]) => {
+    setDraft(prev => ({ ...prev, [key]: value }))
+  }
+
+  const toggleInList = (key: 'enabledSourceSlugs' | 'labels', value: string) => {
+    setDraft(prev => {
+      const current = prev[key] ?? []
+      const next = current.includes(value) ? current.filter(v => v !== value) : [...current, value]
+      return { ...prev, [key]: next.length > 0 ? next : undefined }
+    })
+  }
+
+  const cronError = validateCronExpression(draft.cron)
+  const nextRun = useMemo(() => (cronError ? null : getNextCronRun(draft.cron)), [draft.cron, cronError])
+  const errors = validateSchedule(draft)
+  const flatLabels = useMemo(() => flattenLabels(labels ?? []), [labels])
+
+  return (
+    <Dialog open onOpenChange={(open) => { if (!open) onCancel() }}>
+      <DialogContent className="sm:max-w-[520px]" onOpenAutoFocus={(e) => e.preventDefault()}>
+        <DialogHeader>
+          <DialogTitle>{isNew ? 'New Schedule' : 'Edit Schedule'}</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4 py-2 max-h-[60vh] overflow-y-auto">
+          <Field label="Name">
+            <Input value={draft.name} onChange={(e) => update('name', e.target.value)} placeholder="Morning inbox triage" />
+          </Field>
+
+          <Field
+            label="Schedule"
+            hint={cronError ?? (nextRun ? `Next run ${format(nextRun, 'EEE d MMM, HH:mm')}` : 'Never runs')}
+            hintIsError={!!cronError}
+          >
+            <Input value={draft.cron} onChange={(e) => update('cron', e.target.value)} placeholder="0 9 * * 1-5" className="font-mono" />
+          </Field>
+
+          <Field label="Prompt">
+            <Textarea value={draft.prompt} onChange={(e) => update('prompt', e.target.value)} rows={4} placeholder="Triage my inbox and summarize anything urgent" />
+          </Field>
+
+          <div className="grid grid-cols-2 gap-3">
+            <Field label="Model">
+              <SettingsMenuSelect
+                value={draft.model ?? DEFAULT_MODEL_VALUE}
+                onValueChange={(v) => update('model', v === DEFAULT_MODEL_VALUE ? undefined : v)}
+                options={[
+                  { value: DEFAULT_MODEL_VALUE, label: 'Workspace default' },
+                  ...MODELS.map(m => ({ value: m.id, label: m.name })),
+                ]}
+              />
+            </Field>
+            <Field label="Permission mode" hint="Explore keeps unattended runs read-only">
+              <SettingsMenuSelect
+                value={draft.permissionMode}
+                onValueChange={(v) => update('permissionMode', v as PermissionMode)}
+                options={PERMISSION_MODE_OPTIONS}
+              />
+            </Field>
+          </div>
+
+          {(enabledSources?.length ?? 0) > 0 && (
+            <Field label="Sources">
+              <ChipList
+                items={enabledSources!.map(s => ({ id: s.config.slug, label: s.config.name }))}
+                selected={draft.enabledSourceSlugs ?? []}
+                onToggle={(id) => toggleInList('enabledSourceSlugs', id)}
+              />
+            </Field>
+          )}
+
+          {flatLabels.length > 0 && (
+            <Field label="Labels">
+              <ChipList
+                items={flatLabels.map(l => ({ id: l.id, label: l.name }))}
+                selected={draft.labels ?? []}
+                onToggle={(id) => toggleInList('labels', id)}
+              />
+            </Field>
+          )}
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={onCancel}>Cancel</Button>
+          <Button onClick={() => onSave({ ...draft, name: draft.name.trim(), prompt: draft.prompt.trim(), cron: draft.cron.trim() })} disabled={errors.length > 0}>
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+function Field({ label, hint, hintIsError, children }: { label: string; hint?: string; hintIsError?: boolean; children: React.ReactNode }) {
+  return (
+    <div className="space-y-1.5">
+      <div className="text-xs font-medium text-foreground/80">{label}</div>
+      {children}
+      {hint && (
+        <div className={cn('text-xs', hintIsError ? 'text-destructive' : 'text-muted-foreground')}>{hint}</div>
+      )}
+    </div>
+  )
+}
+
+function ChipList({ items, selected, onToggle }: { items: { id: string; label: string }[]; selected: string[]; onToggle: (id: string) => void }) {
+  return (
+    <div className="flex flex-wrap gap-1.5">
+      {items.map(item => {
+        const isSelected = selected.includes(item.id)
+        return (
+          <button
+            key={item.id}
+            type="button"
+            onClick={() => onToggle(item.id)}
+            className={cn(
+              'px-2 py-0.5 rounded-full text-xs border transition-colors',
+              isSelected
+                ? 'bg-foreground text-background border-foreground'
+                : 'border-foreground/15 text-foreground/70 hover:bg-foreground/5'
+            )}
+          >
+            {item.label}
+          </button>
+        )
+      })}
+    </div>
+  )
+}
@@ -0,0 +1,302 @@
+/**
+ * UsageSettingsPage
+ *
+ * Usage and cost analytics aggregated from session headers (no message bodies
+ * are loaded). Spend is attributed to the day and model of each turn.
+ *
+ * Sections:
+ * - Overview: date range, workspace scope, totals, CSV export
+ * - By Day: daily spend
+ * - By Model / Label / Status / Source / Workspace: spend breakdowns
+ */
+
+import * as React from 'react'
+import { useState, useEffect, useCallback, useMemo } from 'react'
+import { format, subDays, startOfMonth, endOfMonth, subMonths, parseISO } from 'date-fns'
+import { Loader2, Download } from 'lucide-react'
+import { toast } from 'sonner'
+import { PanelHeader } from '@/components/app-shell/PanelHeader'
+import { ScrollArea } from '@/components/ui/scroll-area'
+import { HeaderMenu } from '@/components/ui/HeaderMenu'
+import { Button } from '@/components/ui/button'
+import { useAppShellContext } from '@/context/AppShellContext'
+import { routes } from '@/lib/navigate'
+import { getModelDisplayName } from '@config/models'
+import { flattenLabels } from '@craft-agent/shared/labels'
+import {
+  SettingsSection,
+  SettingsCard,
+  SettingsMenuSelectRow,
+  SettingsToggle,
+} from '@/components/settings'
+import type { UsageBucket, UsageQueryOptions, UsageReport } from '../../../shared/types'
+import type { DetailsPageMeta } from '@/lib/navigation-registry'
+
+export const meta: DetailsPageMeta = {
+  navigator: 'settings',
+  slug: 'usage',
+}
+
+type UsageRange = 'last7' | 'last30' | 'thisMonth' | 'lastMonth' | 'all'
+
+const RANGE_OPTIONS: { value: UsageRange; label: string }[] = [
+  { value: 'last7', label: 'Last 7 days' },
+  { value: 'last30', label: 'Last 30 days' },
+  { value: 'thisMonth', label: 'This month' },
+  { value: 'lastMonth', label: 'Last month' },
+  { value: 'all', label: 'All time' },
+]
+
+// Bucket key used by the analytics module for missing values
+const UNASSIGNED_KEY = '(none)'
+
+const tokenFormatter = new Intl.NumberFormat(undefined, { notation: 'compact', maximumFractionDigits: 1 })
+
+function toDateKey(date: Date): string {
+  return format(date, 'yyyy-MM-dd')
+}
+
+/** Inclusive date bounds for a range, relative to today */
+function getRangeBounds(range: UsageRange, now: Date = new Date()): Pick<UsageQueryOptions, 'from' | 'to'> {
+  switch (range) {
+    case 'last7':
+      return { from: toDateKey(subDays(now, 6)), to: toDateKey(now) }
+    case 'last30':
+      return { from: toDateKey(subDays(now, 29)), to: toDateKey(now) }
+    case 'thisMonth':
+      return { from: toDateKey(startOfMonth(now)), to: toDateKey(now) }
+    case 'lastMonth': {
+      const lastMonth = subMonths(now, 1)
+      return { from: toDateKey(startOfMonth(lastMonth)), to: toDateKey(endOfMonth(lastMonth)) }
+    }
+    case 'all':
+      return {}
+  }
+}
+
+function formatCost(usd: number): string {
+  return `$${usd.toFixed(2)}`
+}
+
+// ============================================
+// Main Component
+// ============================================
+
+export default function UsageSettingsPage() {
+  const { activeWorkspaceId, labels, todoStates, enabledSources } = useAppShellContext()
+  const [range, setRange] = useState<UsageRange>('last30')
+  const [allWorkspaces, setAllWorkspaces] = useState(false)
+  const [report, setReport] = useState<UsageReport | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [isExporting, setIsExporting] = useState(false)
+
+  const options = useMemo<UsageQueryOptions>(
+    () => ({ ...getRangeBounds(range), allWorkspaces }),
+    [range, allWorkspaces]
+  )
+
+  // Reload the report when the workspace, range or scope changes
+  useEffect(() => {
+    if (!activeWorkspaceId) {
+      setIsLoading(false)
+      return
+    }
+    let cancelled = false
+    setIsLoading(true)
+    window.electronAPI.getUsageReport(activeWorkspaceId, options)
+      .then((loaded) => {
+        if (!cancelled) setReport(loaded)
+      })
+      .catch((error) => console.error('Failed to load usage report:', error))
+      .finally(() => {
+        if (!cancelled) setIsLoading(false)
+      })
+    return () => { cancelled = true }
+  }, [activeWorkspaceId, options])
+
+  const handleExport = useCallback(async () => {
+    if (!activeWorkspaceId) return
+    setIsExporting(true)
+    try {
+      const path = await window.electronAPI.exportUsageCsv(activeWorkspaceId, options)
+      if (path) toast.success('Usage exported', { description: path })
+    } catch (error) {
+      toast.error('Failed to export usage', {
+        description: error instanceof Error ? error.message : String(error),
+      })
+    } finally {
+      setIsExporting(false)
+    }
+  }, [activeWorkspaceId, options])
+
+  // Display names for bucket keys (labels, statuses and sources are stored by ID)
+  const labelNames = useMemo(
+    () => new Map(flattenLabels(labels ?? []).map(l => [l.id, l.name])),
+    [labels]
+  )
+  const statusNames = useMemo(
+    () => new Map((todoStates ?? []).map(s => [s.id, s.label])),
+    [todoStates]
+  )
+  const sourceNames = useMemo(
+    () => new Map((enabledSources ?? []).map(s => [s.config.slug, s.config.name])),
+    [enabledSources]
+  )
+
+  const totals = report?.totals
+
+  return (
+    <div className="h-full flex flex-col">
+      <PanelHeader title="Usage" actions={<HeaderMenu route={routes.view.settings('usage')} />} />
+      <div className="flex-1 min-h-0 mask-fade-y">
+        <ScrollArea className="h-full">
+          <div className="px-5 py-7 max-w-3xl mx-auto">
+            <div className="space-y-8">
+              {/* Overview Section */}
+              <SettingsSection
+                title="Overview"
+                description="Token usage and cost reported by the model for each turn."
+                action={
+                  <Button variant="secondary" size="sm" onClick={handleExport} disabled={isExporting || !report}>
+                    {isExporting
+                      ? <Loader2 className="w-3.5 h-3.5 mr-1 animate-spin" />
+                      : <Download className="w-3.5 h-3.5 mr-1" />}
+                    Export CSV
+                  </Button>
+                }
+              >
+                <SettingsCard divided>
+                  <SettingsMenuSelectRow
+                    label="Date range"
+                    value={range}
+                    onValueChange={(v) => setRange(v as UsageRange)}
+                    options={RANGE_OPTIONS}
+                  />
+                  <SettingsToggle
+                    label="All workspaces"
+                    description="Include sessions from every workspace"
+                    checked={allWorkspaces}
+                    onCheckedChange={setAllWorkspaces}
+                  />
+                  <div className="grid grid-cols-4 divide-x divide-border/50">
+                    <Stat label="Cost" value={formatCost(totals?.costUsd ?? 0)} />
+                    <Stat label="Sessions" value={String(totals?.sessionCount ?? 0)} />
+                    <Stat label="Turns" value={String(totals?.turns ?? 0)} />
+                    <Stat
+                      label="Tokens in / out"
+                      value={`${tokenFormatter.format(totals?.inputTokens ?? 0)} / ${tokenFormatter.format(totals?.outputTokens ?? 0)}`}
+                    />
+                  </div>
+                </SettingsCard>
+              </SettingsSection>
+
+              {isLoading && !report ? (
+                <div className="flex items-center justify-center py-12">
+                  <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+                </div>
+              ) : report && (
+                <>
+                  <SettingsSection title="By Day">
+                    <BreakdownCard
+                      buckets={report.byDay}
+                      formatKey={(key) => format(parseISO(key), 'EEE d MMM yyyy')}
+                    />
+                  </SettingsSection>
+
+                  <SettingsSection title="By Model">
+                    <BreakdownCard
+                      buckets={report.byModel}
+                      formatKey={(key) => (key === UNASSIGNED_KEY ? 'Unknown' : getModelDisplayName(key))}
+                    />
+                  </SettingsSection>
+
+                  <SettingsSection
+                    title="By Label"
+                    description="Sessions with several labels count towards each of them."
+                  >
+                    <BreakdownCard
+                      buckets={report.byLabel}
+                      formatKey={(key) => (key === UNASSIGNED_KEY ? 'No label' : labelNames.get(key) ?? key)}
+                    />
+                  </SettingsSection>
+
+                  <SettingsSection title="By Status">
+                    <BreakdownCard
+                      buckets={report.byStatus}
+                      formatKey={(key) => (key === UNASSIGNED_KEY ? 'No status' : statusNames.get(key) ?? key)}
+                    />
+                  </SettingsSection>
+
+                  <SettingsSection
+                    title="By Source"
+                    description="Sessions with several sources count towards each of them."
+                  >
+                    <BreakdownCard
+                      buckets={report.bySource}
+                      formatKey={(key) => (key === UNASSIGNED_KEY ? 'No sources' : sourceNames.get(key) ?? key)}
+                    />
+                  </SettingsSection>
+
+                  {allWorkspaces && (
+                    <SettingsSection title="By Workspace">
+                      <BreakdownCard buckets={report.byWorkspace} formatKey={(key) => key} />
+                    </SettingsSection>
+                  )}
+                </>
+              )}
+            </div>
+          </div>
+        </ScrollArea>
+      </div>
+    </div>
+  )
+}
+
+// ============================================
+// Components
+// ============================================
+
+function Stat({ label, value }: { label: string; value: string }) {
+  return (
+    <div className="px-4 py-3.5">
+      <div className="text-xs text-muted-foreground">{label}</div>
+      <div className="text-base font-medium mt-0.5 tabular-nums">{value}</div>
+    </div>
+  )
+}
+
+interface BreakdownCardProps {
+  buckets: UsageBucket[]
+  formatKey: (key: string) => string
+}
+
+/** Rows of buckets with a cost bar scaled to the most expensive bucket */
+function BreakdownCard({ buckets, formatKey }: BreakdownCardProps) {
+  const maxCost = Math.max(...buckets.map(b => b.costUsd), 0)
+
+  return (
+    <SettingsCard className="p-0" divided>
+      {buckets.length > 0 ? (
+        buckets.map((bucket) => (
+          <div key={bucket.key} className="flex items-center gap-3 px-4 py-2.5 text-sm">
+            <div className="w-44 shrink-0 truncate" title={bucket.key}>{formatKey(bucket.key)}</div>
+            <div className="flex-1 min-w-0 h-1.5 rounded-full bg-foreground/5 overflow-hidden">
+              <div
+                className="h-full rounded-full bg-accent"
+                style={{ width: maxCost > 0 ? `${(bucket.costUsd / maxCost) * 100}%` : 0 }}
+              />
+            </div>
+            <div className="w-24 shrink-0 text-right text-xs text-muted-foreground tabular-nums">
+              {bucket.sessionCount} {bucket.sessionCount === 1 ? 'session' : 'sessions'}
+            </div>
+            <div className="w-16 shrink-0 text-right tabular-nums">{formatCost(bucket.costUsd)}</div>
+          </div>
+        ))
+      ) : (
+        <div className="p-8 text-center text-sm text-muted-foreground">
+          No usage in this range.
+        </div>
+      )}
+    </SettingsCard>
+  )
+}
@@ -7,6 +7,9 @@
  * - Identity (Name, Icon)
  * - Model
  * - Permissions (Default mode, Mode cycling)
+ * - Budgets (Session, daily and monthly cost limits)
+ * - Sharing (Viewer URL for shared sessions)
+ * - Sandbox (Run Bash commands under bubblewrap, network, read-only paths)
  * - Advanced (Working directory, Local MCP servers)
  */
 
@@ -21,9 +24,11 @@ import { cn } from '@/lib/utils'
 import { routes } from '@/lib/navigate'
 import { Spinner } from '@craft-agent/ui'
 import { RenameDialog } from '@/components/ui/rename-dialog'
-import type { PermissionMode, ThinkingLevel, WorkspaceSettings } from '../../../shared/types'
+import { Input } from '@/components/ui/input'
+import type { BashSandboxConfig, BudgetLimit, BudgetsConfig, PermissionMode, ProviderProfileInfo, ThinkingLevel, WorkspaceSettings } from '../../../shared/types'
 import { PERMISSION_MODE_CONFIG } from '@craft-agent/shared/agent/mode-types'
 import { DEFAULT_THINKING_LEVEL, THINKING_LEVELS } from '@craft-agent/shared/agent/thinking-levels'
+import { VIEWER_URL } from '@craft-agent/shared/branding'
 import type { DetailsPageMeta } from '@/lib/navigation-registry'
 
 import {
@@ -31,6 +36,7 @@ import {
   SettingsCard,
   SettingsRow,
   SettingsToggle,
+  SettingsTextarea,
   SettingsMenuSelectRow,
 } from '@/components/settings'
 
@@ -39,6 +45,160 @@ export const meta: DetailsPageMeta = {
   slug: 'workspace',
 }
 
+// ============================================
+// Budget Limit Row
+// ============================================
+
+/** Parse a dollar amount input; empty or invalid input clears the limit */
+function parseBudgetInput(value: string): number | undefined {
+  const amount = parseFloat(value.replace('$', ''))
+  return Number.isFinite(amount) && amount >= 0 ? amount : undefined
+}
+
+interface BudgetLimitRowProps {
+  label: string
+  description: string
+  limit?: BudgetLimit
+  onChange: (limit: BudgetLimit) => void
+}
+
+/**
+ * Row with soft (warn) and hard (stop) limit inputs. Saves on blur or Enter.
+ */
+function BudgetLimitRow({ label, description, limit, onChange }: BudgetLimitRowProps) {
+  const [soft, setSoft] = useState(limit?.softUsd?.toString() ?? '')
+  const [hard, setHard] = useState(limit?.hardUsd?.toString() ?? '')
+
+  // Sync drafts when the saved limit changes (e.g. workspace switch)
+  useEffect(() => {
+    setSoft(limit?.softUsd?.toString() ?? '')
+    setHard(limit?.hardUsd?.toString() ?? '')
+  }, [limit?.softUsd, limit?.hardUsd])
+
+  const commit = () => {
+    const next: BudgetLimit = { softUsd: parseBudgetInput(soft), hardUsd: parseBudgetInput(hard) }
+    if (next.softUsd === limit?.softUsd && next.hardUsd === limit?.hardUsd) return
+    onChange(next)
+  }
+
+  const inputProps = {
+    inputMode: 'decimal' as const,
+    onBlur: commit,
+    onKeyDown: (e: React.KeyboardEvent) => { if (e.key === 'Enter') commit() },
+    className: 'w-24 h-8 bg-muted/50 border-0 shadow-minimal focus-visible:ring-0',
+  }
+
+  return (
+    <SettingsRow
+      label={label}
+      description={description}
+      action={
+        <div className="flex items-center gap-2">
+          <Input {...inputProps} value={soft} onChange={(e) => setSoft(e.target.value)} placeholder="Warn $" aria-label={`${label} soft limit`} />
+          <Input {...inputProps} value={hard} onChange={(e) => setHard(e.target.value)} placeholder="Stop $" aria-label={`${label} hard limit`} />
+        </div>
+      }
+    />
+  )
+}
+
+// ============================================
+// Viewer URL Row
+// ============================================
+
+interface ViewerUrlRowProps {
+  viewerUrl: string
+  onChange: (viewerUrl: string | undefined) => void
+}
+
+/**
+ * Viewer URL input. Saves on blur or Enter; empty resets to the hosted viewer.
+ */
+function ViewerUrlRow({ viewerUrl, onChange }: ViewerUrlRowProps) {
+  const [draft, setDraft] = useState(viewerUrl)
+  const [error, setError] = useState<string | null>(null)
+
+  // Sync draft when the saved URL changes (e.g. workspace switch)
+  useEffect(() => {
+    setDraft(viewerUrl)
+    setError(null)
+  }, [viewerUrl])
+
+  const commit = () => {
+    const next = draft.trim()
+    if (next && !/^https?:\/\//i.test(next)) {
+      setError('Must start with http:// or https://')
+      return
+    }
+    setError(null)
+    if (next !== viewerUrl) onChange(next || undefined)
+  }
+
+  return (
+    <SettingsRow
+      label="Viewer URL"
+      description={error ?? 'Server that new shared links are uploaded to'}
+      action={
+        <Input
+          type="url"
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onBlur={commit}
+          onKeyDown={(e) => { if (e.key === 'Enter') commit() }}
+          placeholder={VIEWER_URL}
+          aria-label="Viewer URL"
+          className="w-64 h-8 bg-muted/50 border-0 shadow-minimal focus-visible:ring-0"
+        />
+      }
+    />
+  )
+}
+
+// ============================================
+// Sandbox Read-Only Paths
+// ============================================
+
+/** Stable fallback so the draft isn't reset on every render */
+const EMPTY_PATHS: string[] = []
+
+interface SandboxReadOnlyPathsProps {
+  paths: string[]
+  disabled?: boolean
+  onChange: (paths: string[]) => void
+}
+
+/**
+ * One path per line. Saves when the textarea loses focus.
+ */
+function SandboxReadOnlyPaths({ paths, disabled, onChange }: SandboxReadOnlyPathsProps) {
+  const [draft, setDraft] = useState(paths.join('\n'))
+
+  // Sync draft when the saved paths change (e.g. workspace switch)
+  useEffect(() => {
+    setDraft(paths.join('\n'))
+  }, [paths])
+
+  const commit = () => {
+    const next = draft.split('\n').map(line => line.trim()).filter(Boolean)
+    if (next.join('\n') !== paths.join('\n')) onChange(next)
+  }
+
+  return (
+    <div onBlur={commit}>
+      <SettingsTextarea
+        label="Read-only paths"
+        description="Extra files and folders visible to commands, one per line (e.g. ~/.gitconfig, ~/.nvm)"
+        value={draft}
+        onChange={setDraft}
+        placeholder="~/.gitconfig"
+        rows={3}
+        disabled={disabled}
+        inCard
+      />
+    </div>
+  )
+}
+
 // ============================================
 // Main Component
 // ============================================
@@ -59,9 +219,16 @@ export default function WorkspaceSettingsPage() {
   const [isUploadingIcon, setIsUploadingIcon] = useState(false)
   const [wsModel, setWsModel] = useState('claude-sonnet-4-5-20250929')
   const [wsThinkingLevel, setWsThinkingLevel] = useState<ThinkingLevel>(DEFAULT_THINKING_LEVEL)
+  const [wsProviderProfileId, setWsProviderProfileId] = useState('')
+  const [providerProfiles, setProviderProfiles] = useState<ProviderProfileInfo[]>([])
   const [permissionMode, setPermissionMode] = useState<PermissionMode>('ask')
   const [workingDirectory, setWorkingDirectory] = useState('')
   const [localMcpEnabled, setLocalMcpEnabled] = useState(true)
+  const [budgets, setBudgets] = useState<BudgetsConfig>({})
+  const [budgetSpend, setBudgetSpend] = useState<WorkspaceSettings['budgetSpend']>()
+  const [viewerUrl, setViewerUrl] = useState('')
+  const [bashSandbox, setBashSandbox] = useState<BashSandboxConfig>({ enabled: false })
+  const [sandboxAvailable, setSandboxAvailable] = useState(false)
   const [isLoadingWorkspace, setIsLoadingWorkspace] = useState(true)
 
   // Mode cycling state
@@ -78,15 +245,25 @@ export default function WorkspaceSettingsPage() {
 
       setIsLoadingWorkspace(true)
       try {
-        const settings = await window.electronAPI.getWorkspaceSettings(activeWorkspaceId)
+        const [settings, providerState] = await Promise.all([
+          window.electronAPI.getWorkspaceSettings(activeWorkspaceId),
+          window.electronAPI.getProviderProfiles(),
+        ])
+        setProviderProfiles(providerState.profiles)
         if (settings) {
           setWsName(settings.name || '')
           setWsNameEditing(settings.name || '')
           setWsModel(settings.model || 'claude-sonnet-4-5-20250929')
           setWsThinkingLevel(settings.thinkingLevel || DEFAULT_THINKING_LEVEL)
+          setWsProviderProfileId(settings.providerProfileId ?? '')
           setPermissionMode(settings.permissionMode || 'ask')
           setWorkingDirectory(settings.workingDirectory || '')
           setLocalMcpEnabled(settings.localMcpEnabled ?? true)
+          setBudgets(settings.budgets ?? {})
+          setBudgetSpend(settings.budgetSpend)
+          setViewerUrl(settings.viewerUrl ?? '')
+          setBashSandbox(settings.bashSandbox ?? { enabled: false })
+          setSandboxAvailable(settings.sandboxAvailable ?? false)
           // Load cyclable permission modes from workspace settings
           if (settings.cyclablePermissionModes && settings.cyclablePermissionModes.length >= 2) {
             setEnabledModes(settings.cyclablePermissionModes)
@@ -215,6 +392,15 @@ export default function WorkspaceSettingsPage() {
     [updateWorkspaceSetting]
   )
 
+  const handleProviderProfileChange = useCallback(
+    async (profileId: string) => {
+      setWsProviderProfileId(profileId)
+      // Empty clears the workspace choice (app default applies)
+      await updateWorkspaceSetting('providerProfileId', profileId || undefined)
+    },
+    [updateWorkspaceSetting]
+  )
+
   const handlePermissionModeChange = useCallback(
     async (newMode: PermissionMode) => {
       setPermissionMode(newMode)
@@ -256,6 +442,37 @@ export default function WorkspaceSettingsPage() {
     [updateWorkspaceSetting]
   )
 
+  const handleBudgetLimitChange = useCallback(
+    async (scope: keyof BudgetsConfig, limit: BudgetLimit) => {
+      const next: BudgetsConfig = { ...budgets }
+      if (limit.softUsd === undefined && limit.hardUsd === undefined) {
+        delete next[scope]
+      } else {
+        next[scope] = limit
+      }
+      setBudgets(next)
+      await updateWorkspaceSetting('budgets', Object.keys(next).length > 0 ? next : undefined)
+    },
+    [budgets, updateWorkspaceSetting]
+  )
+
+  const handleViewerUrlChange = useCallback(
+    async (url: string | undefined) => {
+      setViewerUrl(url ?? '')
+      await updateWorkspaceSetting('viewerUrl', url)
+    },
+    [updateWorkspaceSetting]
+  )
+
+  const handleBashSandboxChange = useCallback(
+    async (update: Partial<BashSandboxConfig>) => {
+      const next: BashSandboxConfig = { ...bashSandbox, ...update }
+      setBashSandbox(next)
+      await updateWorkspaceSetting('bashSandbox', next)
+    },
+    [bashSandbox, updateWorkspaceSetting]
+  )
+
   const handleModeToggle = useCallback(
     async (mode: PermissionMode, checked: boolean) => {
       if (!window.electronAPI) return
@@ -416,6 +633,18 @@ export default function WorkspaceSettingsPage() {
                     ]}
                   />
                 )}
+                {providerProfiles.length > 0 && (
+                  <SettingsMenuSelectRow
+                    label="Provider"
+                    description="Provider profile for chats that don't pick one"
+                    value={wsProviderProfileId}
+                    onValueChange={handleProviderProfileChange}
+                    options={[
+                      { value: '', label: 'App default', description: 'Use the default from App settings' },
+                      ...providerProfiles.map(profile => ({ value: profile.id, label: profile.name })),
+                    ]}
+                  />
+                )}
                 <SettingsMenuSelectRow
                   label="Thinking level"
                   description="Reasoning depth for new chats"
@@ -482,6 +711,77 @@ export default function WorkspaceSettingsPage() {
               </AnimatePresence>
             </SettingsSection>
 
+            {/* Budgets */}
+            <SettingsSection
+              title="Budgets"
+              description="Warn when spend passes the soft limit. New messages are blocked once a hard limit is reached."
+            >
+              <SettingsCard>
+                <BudgetLimitRow
+                  label="Per Session"
+                  description="Total cost of a single session"
+                  limit={budgets.session}
+                  onChange={(limit) => handleBudgetLimitChange('session', limit)}
+                />
+                <BudgetLimitRow
+                  label="Daily"
+                  description={`Spent today: $${(budgetSpend?.dailyUsd ?? 0).toFixed(2)}`}
+                  limit={budgets.daily}
+                  onChange={(limit) => handleBudgetLimitChange('daily', limit)}
+                />
+                <BudgetLimitRow
+                  label="Monthly"
+                  description={`Spent this month: $${(budgetSpend?.monthlyUsd ?? 0).toFixed(2)}`}
+                  limit={budgets.monthly}
+                  onChange={(limit) => handleBudgetLimitChange('monthly', limit)}
+                />
+              </SettingsCard>
+            </SettingsSection>
+
+            {/* Sharing */}
+            <SettingsSection
+              title="Sharing"
+              description="Point shared links at a self-hosted viewer server to keep transcripts inside your network. Existing links keep using the server they were shared to."
+            >
+              <SettingsCard>
+                <ViewerUrlRow viewerUrl={viewerUrl} onChange={handleViewerUrlChange} />
+              </SettingsCard>
+            </SettingsSection>
+
+            {/* Sandbox */}
+            <SettingsSection
+              title="Sandbox"
+              description="Run agent shell commands in an isolated Linux sandbox (bubblewrap). Only the working directory is writable and your home directory is hidden."
+            >
+              <SettingsCard>
+                <SettingsToggle
+                  label="Sandbox Bash Commands"
+                  description={
+                    sandboxAvailable
+                      ? "Commands can't modify files outside the working directory"
+                      : bashSandbox.enabled
+                        ? 'bubblewrap is not available - Bash commands are blocked until it is installed or the sandbox is turned off'
+                        : 'Requires Linux with bubblewrap (bwrap) installed'
+                  }
+                  checked={bashSandbox.enabled}
+                  onCheckedChange={(enabled) => handleBashSandboxChange({ enabled })}
+                  disabled={!sandboxAvailable && !bashSandbox.enabled}
+                />
+                <SettingsToggle
+                  label="Allow Network"
+                  description="Let sandboxed commands access the network"
+                  checked={bashSandbox.network ?? false}
+                  onCheckedChange={(network) => handleBashSandboxChange({ network })}
+                  disabled={!bashSandbox.enabled}
+                />
+                <SandboxReadOnlyPaths
+                  paths={bashSandbox.readOnlyPaths ?? EMPTY_PATHS}
+                  disabled={!bashSandbox.enabled}
+                  onChange={(readOnlyPaths) => handleBashSandboxChange({ readOnlyPaths: readOnlyPaths.length > 0 ? readOnlyPaths : undefined })}
+                />
+              </SettingsCard>
+            </SettingsSection>
+
             {/* Advanced */}
             <SettingsSection title="Advanced">
               <SettingsCard>
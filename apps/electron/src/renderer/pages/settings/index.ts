@@ -11,6 +11,8 @@ export { default as InputSettingsPage, meta as InputMeta } from './InputSettings
 export { default as WorkspaceSettingsPage, meta as WorkspaceSettingsMeta } from './WorkspaceSettingsPage'
 export { default as PermissionsSettingsPage, meta as PermissionsMeta } from './PermissionsSettingsPage'
 export { default as LabelsSettingsPage, meta as LabelsMeta } from './LabelsSettingsPage'
+export { default as SchedulesSettingsPage, meta as SchedulesMeta } from './SchedulesSettingsPage'
+export { default as UsageSettingsPage, meta as UsageMeta } from './UsageSettingsPage'
 export { default as ShortcutsPage, meta as ShortcutsMeta } from './ShortcutsPage'
 export { default as PreferencesPage, meta as PreferencesMeta } from './PreferencesPage'
 
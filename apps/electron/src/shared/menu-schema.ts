@@ -208,7 +208,7 @@ export const MENU_SECTIONS: MenuSection[] = [EDIT_MENU, VIEW_MENU, WINDOW_MENU]
  * Used by both AppMenu (logo dropdown) and SettingsNavigator (sidebar panel)
  */
 export interface SettingsMenuItem {
-  id: 'app' | 'appearance' | 'input' | 'workspace' | 'permissions' | 'labels' | 'shortcuts' | 'preferences'
+  id: 'app' | 'appearance' | 'input' | 'workspace' | 'permissions' | 'labels' | 'schedules' | 'usage' | 'shortcuts' | 'preferences'
   label: string
   icon: string        // Lucide icon name for AppMenu
   description: string // Shown in SettingsNavigator
@@ -255,6 +255,18 @@ export const SETTINGS_ITEMS: SettingsMenuItem[] = [
     icon: 'Tag',
     description: 'Label hierarchy and auto-apply rules',
   },
+  {
+    id: 'schedules',
+    label: 'Schedules',
+    icon: 'CalendarClock',
+    description: 'Recurring prompts on a cron schedule',
+  },
+  {
+    id: 'usage',
+    label: 'Usage',
+    icon: 'ChartColumn',
+    description: 'Spend by day, model, label, status and source',
+  },
   {
     id: 'shortcuts',
     label: 'Shortcuts',
@@ -15,15 +15,48 @@ import type {
 } from '@craft-agent/core/types';
 
 // Import mode types from dedicated subpath export (avoids pulling in SDK)
-import type { PermissionMode } from '@craft-agent/shared/agent/modes';
-export type { PermissionMode };
+import type {
+  PermissionMode,
+  AlwaysAllowRule,
+  AlwaysAllowScope,
+  PermissionAuditEntry,
+  PermissionAuditDecision,
+} from '@craft-agent/shared/agent/modes';
+export type { PermissionMode, AlwaysAllowRule, AlwaysAllowScope, PermissionAuditEntry, PermissionAuditDecision };
 export { PERMISSION_MODE_CONFIG } from '@craft-agent/shared/agent/modes';
 
 // Import thinking level types
 import type { ThinkingLevel } from '@craft-agent/shared/agent/thinking-levels';
 export type { ThinkingLevel };
+
 export { THINKING_LEVELS, DEFAULT_THINKING_LEVEL } from '@craft-agent/shared/agent/thinking-levels';
 
+import type { BashSandboxConfig, BudgetLimit, BudgetsConfig } from '@craft-agent/shared/workspaces';
+export type { BashSandboxConfig, BudgetLimit, BudgetsConfig };
+
+import type { ProviderProfile, ProviderProfileKind } from '@craft-agent/shared/config/types';
+export type { ProviderProfile, ProviderProfileKind };
+
+// Import session export types (local Markdown/HTML/PDF export)
+import type { StoredSession } from '@craft-agent/shared/sessions';
+import type { SessionExportFormat, SessionExportOptions } from '@craft-agent/shared/sessions/export';
+export type { StoredSession, SessionExportFormat, SessionExportOptions };
+
+// Import usage analytics types
+import type { UsageReport, UsageBucket } from '@craft-agent/shared/analytics';
+export type { UsageReport, UsageBucket };
+
+/**
+ * Options for usage analytics queries.
+ * Dates are inclusive local dates (YYYY-MM-DD); omit for an open range.
+ */
+export interface UsageQueryOptions {
+  from?: string;
+  to?: string;
+  /** Include sessions from every workspace, not just the requested one */
+  allWorkspaces?: boolean;
+}
+
 export type {
   CoreMessage as Message,
   CoreMessageRole as MessageRole,
@@ -116,6 +149,8 @@ export interface McpToolWithPermission {
   name: string
   description?: string
   allowed: boolean  // true if allowed in safe mode, false if requires permission
+  enabled: boolean  // false if disabled in the source config (hidden from the model)
+  tokens: number    // estimated context tokens of the tool's schema
 }
 
 /**
@@ -127,6 +162,56 @@ export interface McpToolsResult {
   tools?: McpToolWithPermission[]
 }
 
+/**
+ * Resource exposed by an MCP server
+ */
+export interface McpResourceInfo {
+  uri: string
+  name: string
+  description?: string
+  mimeType?: string
+}
+
+/**
+ * Prompt template exposed by an MCP server
+ */
+export interface McpPromptInfo {
+  name: string
+  title?: string
+  description?: string
+  arguments?: Array<{ name: string; description?: string; required?: boolean }>
+}
+
+/**
+ * Result of fetching an MCP server's resources and prompts
+ */
+export interface McpCatalogResult {
+  success: boolean
+  error?: string
+  resources?: McpResourceInfo[]
+  prompts?: McpPromptInfo[]
+}
+
+/**
+ * Contents of an MCP resource: text, or base64 for a single image
+ */
+export interface McpResourceContentResult {
+  success: boolean
+  error?: string
+  mimeType?: string
+  text?: string
+  base64?: string
+}
+
+/**
+ * MCP prompt rendered to text
+ */
+export interface McpPromptResult {
+  success: boolean
+  error?: string
+  text?: string
+}
+
 /**
  * Search match result for session content search
  */
@@ -160,6 +245,51 @@ export interface ShareResult {
   error?: string
 }
 
+/**
+ * Access rules for a new share (supported by self-hosted viewer servers)
+ */
+export interface ShareOptions {
+  /** Viewers must enter this password to open the link */
+  password?: string
+  /** Unix ms after which the link stops working */
+  expiresAt?: number
+}
+
+/**
+ * State of the local control API (App settings)
+ */
+export interface ControlApiStatus {
+  enabled: boolean
+  /** Whether the server is currently listening */
+  running: boolean
+  port: number
+  /** Bearer token, or null before the API has been enabled once */
+  token: string | null
+  /** Base URL clients should connect to */
+  url: string
+  /** Last startup error (e.g. port already in use) */
+  error?: string
+}
+
+/**
+ * Provider profile as shown in App settings (API keys never leave the main process)
+ */
+export interface ProviderProfileInfo extends ProviderProfile {
+  /** Whether an API key is stored for this profile */
+  hasApiKey: boolean
+}
+
+/**
+ * Provider profiles, global default and fallback chain (App settings)
+ */
+export interface ProviderProfilesState {
+  profiles: ProviderProfileInfo[]
+  /** Profile used when neither the session nor its workspace selects one (null = legacy connection) */
+  defaultProfileId: string | null
+  /** Profile IDs tried in order when the active connection is rate limited or down */
+  fallbackChain: string[]
+}
+
 /**
  * Result of refreshing/regenerating a session title
  */
@@ -335,6 +465,8 @@ export interface Session {
   model?: string
   // Thinking level for this session ('off', 'think', 'max')
   thinkingLevel?: ThinkingLevel
+  // Provider profile for this session (undefined = workspace/global default)
+  providerProfileId?: string
   // Role/type of the last message (for badge display without loading messages)
   lastMessageRole?: 'user' | 'assistant' | 'plan' | 'tool' | 'error'
   // ID of the last final (non-intermediate) assistant message - pre-computed for unread detection
@@ -367,6 +499,35 @@ export interface Session {
   }
   /** When true, session is hidden from session list (e.g., mini edit sessions) */
   hidden?: boolean
+  /** ID of the session this one was forked from (branch lineage) */
+  parentSessionId?: string
+  /** ID of the message in the parent session where this fork was taken */
+  forkedFromMessageId?: string
+}
+
+/**
+ * "Always allow" rules saved from permission prompts, by where they are stored
+ */
+export interface AlwaysAllowRules {
+  /** From the workspace permissions.json */
+  workspace: AlwaysAllowRule[]
+  /** From ~/.craft-agent/permissions/always-allow.json (all workspaces) */
+  global: AlwaysAllowRule[]
+}
+
+/**
+ * Which permission audit log to read: one session, or all sessions in its workspace
+ */
+export type PermissionAuditScope = 'session' | 'workspace'
+
+/**
+ * Result of importing transcripts from other apps
+ */
+export interface SessionImportResult {
+  /** Newly created sessions (with messages) */
+  sessions: Session[]
+  /** Number of conversations skipped because they were imported before */
+  skipped: number
 }
 
 /**
@@ -416,6 +577,7 @@ export type SessionEvent =
   | { type: 'async_operation'; sessionId: string; isOngoing: boolean }
   | { type: 'working_directory_changed'; sessionId: string; workingDirectory: string }
   | { type: 'permission_request'; sessionId: string; request: PermissionRequest }
+  | { type: 'permission_resolved'; sessionId: string; requestId: string; allowed: boolean }
   | { type: 'credential_request'; sessionId: string; request: CredentialRequest }
   // Permission mode events
   | { type: 'permission_mode_changed'; sessionId: string; permissionMode: PermissionMode }
@@ -430,11 +592,14 @@ export type SessionEvent =
   | { type: 'shell_killed'; sessionId: string; shellId: string }
   // User message events (for optimistic UI with backend as source of truth)
   | { type: 'user_message'; sessionId: string; message: Message; status: 'accepted' | 'queued' | 'processing' }
+  // Edit & resend: the message and everything after it were removed
+  | { type: 'messages_truncated'; sessionId: string; messageId: string }
   // Session metadata events (for multi-window sync)
   | { type: 'session_flagged'; sessionId: string }
   | { type: 'session_unflagged'; sessionId: string }
   | { type: 'name_changed'; sessionId: string; name?: string }
   | { type: 'session_model_changed'; sessionId: string; model: string | null }
+  | { type: 'session_provider_profile_changed'; sessionId: string; profileId: string | null }
   | { type: 'todo_state_changed'; sessionId: string; todoState: TodoState }
   | { type: 'session_deleted'; sessionId: string }
   | { type: 'session_shared'; sessionId: string; sharedUrl: string }
@@ -476,12 +641,13 @@ export type SessionCommand =
   | { type: 'setActiveViewing'; workspaceId: string }
   | { type: 'setPermissionMode'; mode: PermissionMode }
   | { type: 'setThinkingLevel'; level: ThinkingLevel }
+  | { type: 'setProviderProfile'; profileId: string | null }
   | { type: 'updateWorkingDirectory'; dir: string }
   | { type: 'setSources'; sourceSlugs: string[] }
   | { type: 'setLabels'; labels: string[] }
   | { type: 'showInFinder' }
   | { type: 'copyPath' }
-  | { type: 'shareToViewer' }
+  | { type: 'shareToViewer'; options?: ShareOptions }
   | { type: 'updateShare' }
   | { type: 'revokeShare' }
   | { type: 'startOAuth'; requestId: string }
@@ -507,6 +673,11 @@ export const IPC_CHANNELS = {
   GET_SESSIONS: 'sessions:get',
   CREATE_SESSION: 'sessions:create',
   DELETE_SESSION: 'sessions:delete',
+  FORK_SESSION: 'sessions:fork',
+  IMPORT_SESSIONS: 'sessions:import',
+  EDIT_MESSAGE: 'sessions:editMessage',
+  EXPORT_SESSION_LOAD: 'sessions:exportLoad',
+  EXPORT_SESSION_SAVE: 'sessions:exportSave',
   GET_SESSION_MESSAGES: 'sessions:getMessages',
   SEND_MESSAGE: 'sessions:sendMessage',
   CANCEL_PROCESSING: 'sessions:cancel',
@@ -560,6 +731,7 @@ export const IPC_CHANNELS = {
   GET_SESSION_FILES: 'sessions:getFiles',
   GET_SESSION_NOTES: 'sessions:getNotes',
   SET_SESSION_NOTES: 'sessions:setNotes',
+  GET_PERMISSION_AUDIT: 'sessions:getPermissionAudit',
   WATCH_SESSION_FILES: 'sessions:watchFiles',      // Start watching session directory
   UNWATCH_SESSION_FILES: 'sessions:unwatchFiles',  // Stop watching
   SESSION_FILES_CHANGED: 'sessions:filesChanged',  // Event: main → renderer
@@ -590,6 +762,7 @@ export const IPC_CHANNELS = {
   // Menu actions (main → renderer)
   MENU_NEW_CHAT: 'menu:newChat',
   MENU_NEW_WINDOW: 'menu:newWindow',
+  MENU_IMPORT_CONVERSATIONS: 'menu:importConversations',
   MENU_OPEN_SETTINGS: 'menu:openSettings',
   MENU_KEYBOARD_SHORTCUTS: 'menu:keyboardShortcuts',
   MENU_TOGGLE_FOCUS_MODE: 'menu:toggleFocusMode',
@@ -653,8 +826,17 @@ export const IPC_CHANNELS = {
   DEFAULT_PERMISSIONS_GET: 'permissions:getDefaults',
   // Broadcast when default permissions change (file watcher)
   DEFAULT_PERMISSIONS_CHANGED: 'permissions:defaultsChanged',
+  // "Always allow" rules saved from permission prompts (workspace + all workspaces)
+  ALWAYS_ALLOW_RULES_GET: 'permissions:getAlwaysAllowRules',
+  ALWAYS_ALLOW_RULES_REVOKE: 'permissions:revokeAlwaysAllowRule',
   // MCP tools listing
   SOURCES_GET_MCP_TOOLS: 'sources:getMcpTools',
+  // Per-tool enable/disable (source config.json disabledTools)
+  SOURCES_SET_TOOL_ENABLED: 'sources:setToolEnabled',
+  // MCP resources and prompts
+  SOURCES_GET_MCP_CATALOG: 'sources:getMcpCatalog',
+  SOURCES_READ_MCP_RESOURCE: 'sources:readMcpResource',
+  SOURCES_GET_MCP_PROMPT: 'sources:getMcpPrompt',
 
   // Session content search (full-text via ripgrep)
   SEARCH_SESSIONS: 'sessions:searchContent',
@@ -682,6 +864,16 @@ export const IPC_CHANNELS = {
   VIEWS_LIST: 'views:list',
   VIEWS_SAVE: 'views:save',
 
+  // Schedules management (workspace-scoped, stored in schedules.json)
+  SCHEDULES_LIST: 'schedules:list',
+  SCHEDULES_SAVE: 'schedules:save',
+  SCHEDULES_RUN_NOW: 'schedules:runNow',
+  SCHEDULES_HISTORY: 'schedules:history',
+
+  // Usage analytics (aggregated from session headers)
+  USAGE_REPORT: 'usage:report',
+  USAGE_EXPORT_CSV: 'usage:exportCsv',
+
   // Theme management (cascading: app → workspace)
   THEME_APP_CHANGED: 'theme:appChanged',        // Broadcast event
 
@@ -721,6 +913,18 @@ export const IPC_CHANNELS = {
   NOTIFICATION_GET_ENABLED: 'notification:getEnabled',
   NOTIFICATION_SET_ENABLED: 'notification:setEnabled',
 
+  // Local control API
+  CONTROL_API_GET_STATUS: 'controlApi:getStatus',
+  CONTROL_API_SET_ENABLED: 'controlApi:setEnabled',
+  CONTROL_API_REGENERATE_TOKEN: 'controlApi:regenerateToken',
+
+  // Provider profiles
+  PROVIDER_PROFILES_GET: 'providerProfiles:get',
+  PROVIDER_PROFILES_SAVE: 'providerProfiles:save',
+  PROVIDER_PROFILES_DELETE: 'providerProfiles:delete',
+  PROVIDER_PROFILES_SET_DEFAULT: 'providerProfiles:setDefault',
+  PROVIDER_PROFILES_SET_FALLBACK_CHAIN: 'providerProfiles:setFallbackChain',
+
   // Input settings
   INPUT_GET_AUTO_CAPITALISATION: 'input:getAutoCapitalisation',
   INPUT_SET_AUTO_CAPITALISATION: 'input:setAutoCapitalisation',
@@ -779,11 +983,24 @@ export interface ElectronAPI {
   getSessionMessages(sessionId: string): Promise<Session | null>
   createSession(workspaceId: string, options?: CreateSessionOptions): Promise<Session>
   deleteSession(sessionId: string): Promise<void>
+  /** Fork a session at a message. includeMessage=false branches before the message. */
+  forkSession(sessionId: string, messageId: string, includeMessage?: boolean): Promise<Session>
+  /** Pick transcripts from other apps and import them into a workspace. Returns null if cancelled. */
+  importSessions(workspaceId: string): Promise<SessionImportResult | null>
+  /** Edit a previous user message and re-run the conversation from it */
+  editMessage(sessionId: string, messageId: string, content: string): Promise<void>
+  /** Load the full stored session for local export (Markdown/HTML/PDF) */
+  loadSessionForExport(sessionId: string): Promise<(StoredSession & { workspaceId: string }) | null>
+  /**
+   * Save an exported session via save dialog. For 'pdf', content is HTML that is printed to PDF.
+   * Returns the saved path, or null if cancelled.
+   */
+  saveSessionExport(sessionId: string, format: SessionExportFormat, content: string): Promise<string | null>
   sendMessage(sessionId: string, message: string, attachments?: FileAttachment[], storedAttachments?: StoredAttachmentType[], options?: SendMessageOptions): Promise<void>
   cancelProcessing(sessionId: string, silent?: boolean): Promise<void>
   killShell(sessionId: string, shellId: string): Promise<{ success: boolean; error?: string }>
   getTaskOutput(taskId: string): Promise<string | null>
-  respondToPermission(sessionId: string, requestId: string, allowed: boolean, alwaysAllow: boolean): Promise<boolean>
+  respondToPermission(sessionId: string, requestId: string, allowed: boolean, alwaysAllow: AlwaysAllowScope | false): Promise<boolean>
   respondToCredential(sessionId: string, requestId: string, response: CredentialResponse): Promise<boolean>
 
   // Consolidated session command handler
@@ -854,6 +1071,7 @@ export interface ElectronAPI {
 
   // Menu event listeners
   onMenuNewChat(callback: () => void): () => void
+  onMenuImportConversations(callback: () => void): () => void
   onMenuOpenSettings(callback: () => void): () => void
   onMenuKeyboardShortcuts(callback: () => void): () => void
   onMenuToggleFocusMode(callback: () => void): () => void
@@ -918,6 +1136,7 @@ export interface ElectronAPI {
   getSessionFiles(sessionId: string): Promise<SessionFile[]>
   getSessionNotes(sessionId: string): Promise<string>
   setSessionNotes(sessionId: string, content: string): Promise<void>
+  getPermissionAudit(sessionId: string, scope: PermissionAuditScope): Promise<PermissionAuditEntry[]>
   watchSessionFiles(sessionId: string): Promise<void>
   unwatchSessionFiles(): Promise<void>
   onSessionFilesChanged(callback: (sessionId: string) => void): () => void
@@ -931,7 +1150,13 @@ export interface ElectronAPI {
   getSourcePermissionsConfig(workspaceId: string, sourceSlug: string): Promise<import('@craft-agent/shared/agent').PermissionsConfigFile | null>
   getWorkspacePermissionsConfig(workspaceId: string): Promise<import('@craft-agent/shared/agent').PermissionsConfigFile | null>
   getDefaultPermissionsConfig(): Promise<{ config: import('@craft-agent/shared/agent').PermissionsConfigFile | null; path: string }>
+  getAlwaysAllowRules(workspaceId: string): Promise<AlwaysAllowRules>
+  revokeAlwaysAllowRule(workspaceId: string, scope: Exclude<AlwaysAllowScope, 'session'>, rule: AlwaysAllowRule): Promise<boolean>
   getMcpTools(workspaceId: string, sourceSlug: string): Promise<McpToolsResult>
+  setSourceToolEnabled(workspaceId: string, sourceSlug: string, toolName: string, enabled: boolean): Promise<void>
+  getMcpCatalog(workspaceId: string, sourceSlug: string): Promise<McpCatalogResult>
+  readMcpResource(workspaceId: string, sourceSlug: string, uri: string): Promise<McpResourceContentResult>
+  getMcpPrompt(workspaceId: string, sourceSlug: string, name: string, args: Record<string, string>): Promise<McpPromptResult>
 
   // Session content search (full-text search via ripgrep)
   searchSessionContent(workspaceId: string, query: string, searchId?: string): Promise<SessionSearchResult[]>
@@ -969,6 +1194,17 @@ export interface ElectronAPI {
   listViews(workspaceId: string): Promise<import('@craft-agent/shared/views').ViewConfig[]>
   saveViews(workspaceId: string, views: import('@craft-agent/shared/views').ViewConfig[]): Promise<void>
 
+  // Schedules (workspace-scoped, stored in schedules.json)
+  listSchedules(workspaceId: string): Promise<import('@craft-agent/shared/schedules').ScheduleConfig[]>
+  saveSchedules(workspaceId: string, schedules: import('@craft-agent/shared/schedules').ScheduleConfig[]): Promise<void>
+  runScheduleNow(workspaceId: string, scheduleId: string): Promise<import('@craft-agent/shared/schedules').ScheduleRun>
+  listScheduleRuns(workspaceId: string, scheduleId?: string, limit?: number): Promise<import('@craft-agent/shared/schedules').ScheduleRun[]>
+
+  // Usage analytics (aggregated from session headers, no message bodies loaded)
+  getUsageReport(workspaceId: string, options?: UsageQueryOptions): Promise<UsageReport>
+  /** Export usage records as CSV via save dialog. Returns the saved path, or null if cancelled. */
+  exportUsageCsv(workspaceId: string, options?: UsageQueryOptions): Promise<string | null>
+
   // Generic workspace image loading/saving (returns data URL for images, raw string for SVG)
   readWorkspaceImage(workspaceId: string, relativePath: string): Promise<string>
   writeWorkspaceImage(workspaceId: string, relativePath: string, base64: string, mimeType: string): Promise<void>
@@ -999,6 +1235,19 @@ export interface ElectronAPI {
   getNotificationsEnabled(): Promise<boolean>
   setNotificationsEnabled(enabled: boolean): Promise<void>
 
+  // Local control API
+  getControlApiStatus(): Promise<ControlApiStatus>
+  setControlApiEnabled(enabled: boolean): Promise<ControlApiStatus>
+  regenerateControlApiToken(): Promise<ControlApiStatus>
+
+  // Provider profiles
+  getProviderProfiles(): Promise<ProviderProfilesState>
+  /** Create or update a profile. apiKey: string to store, null to clear, undefined to keep. */
+  saveProviderProfile(profile: ProviderProfile, apiKey?: string | null): Promise<ProviderProfilesState>
+  deleteProviderProfile(profileId: string): Promise<ProviderProfilesState>
+  setDefaultProviderProfile(profileId: string | null): Promise<ProviderProfilesState>
+  setProviderFallbackChain(profileIds: string[]): Promise<ProviderProfilesState>
+
   // Input settings
   getAutoCapitalisation(): Promise<boolean>
   setAutoCapitalisation(enabled: boolean): Promise<void>
@@ -1097,9 +1346,21 @@ export interface WorkspaceSettings {
   cyclablePermissionModes?: PermissionMode[]
   /** Default thinking level for new sessions ('off', 'think', 'max'). Defaults to 'think'. */
   thinkingLevel?: ThinkingLevel
+  /** Provider profile for sessions that don't select one (undefined = global default) */
+  providerProfileId?: string
   workingDirectory?: string
   /** Whether local (stdio) MCP servers are enabled */
   localMcpEnabled?: boolean
+  /** Cost budgets (session, daily, monthly) */
+  budgets?: BudgetsConfig
+  /** Workspace spend for the current day and month (read-only, returned by get) */
+  budgetSpend?: { dailyUsd: number; monthlyUsd: number }
+  /** Viewer base URL for shared sessions (undefined = hosted viewer) */
+  viewerUrl?: string
+  /** Sandbox for agent Bash commands (undefined = disabled) */
+  bashSandbox?: BashSandboxConfig
+  /** Whether the Bash sandbox can run on this machine (read-only, returned by get) */
+  sandboxAvailable?: boolean
 }
 
 /**
@@ -1146,7 +1407,7 @@ export type ChatFilter =
 /**
  * Settings subpage options
  */
-export type SettingsSubpage = 'app' | 'appearance' | 'input' | 'workspace' | 'permissions' | 'labels' | 'shortcuts' | 'preferences'
+export type SettingsSubpage = 'app' | 'appearance' | 'input' | 'workspace' | 'permissions' | 'labels' | 'schedules' | 'usage' | 'shortcuts' | 'preferences'
 
 /**
  * Chats navigation state - shows SessionList in navigator
@@ -1315,7 +1576,7 @@ export const parseNavigationStateKey = (key: string): NavigationState | null =>
   if (key === 'settings') return { navigator: 'settings', subpage: 'app' }
   if (key.startsWith('settings:')) {
     const subpage = key.slice(9) as SettingsSubpage
-    if (['app', 'appearance', 'input', 'workspace', 'permissions', 'labels', 'shortcuts', 'preferences'].includes(subpage)) {
+    if (['app', 'appearance', 'input', 'workspace', 'permissions', 'labels', 'schedules', 'usage', 'shortcuts', 'preferences'].includes(subpage)) {
       return { navigator: 'settings', subpage }
     }
   }
@@ -18,6 +18,7 @@ import {
   MultiDiffPreviewOverlay,
   TerminalPreviewOverlay,
   JSONPreviewOverlay,
+  QueryResultOverlay,
   DocumentFormattedMarkdownOverlay,
   TooltipProvider,
   extractOverlayData,
@@ -29,6 +30,7 @@ import {
 } from '@craft-agent/ui'
 import { SessionUpload } from './components/SessionUpload'
 import { Header } from './components/Header'
+import { SharePassword } from './components/SharePassword'
 
 /** Default session ID for development */
 const DEV_SESSION_ID = 'tz5-13I84pwK_he'
@@ -53,6 +55,9 @@ export function App() {
   const [isLoading, setIsLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
   const [sessionId, setSessionId] = useState<string | null>(() => getSessionIdFromUrl())
+  // Password for protected shares; 'required' until one is entered, 'incorrect' if rejected
+  const [password, setPassword] = useState<string | null>(null)
+  const [passwordPrompt, setPasswordPrompt] = useState<'required' | 'incorrect' | null>(null)
   const [isDark, setIsDark] = useState(() => {
     // Check system preference on mount
     return window.matchMedia('(prefers-color-scheme: dark)').matches
@@ -67,10 +72,16 @@ export function App() {
       setError(null)
 
       try {
-        const response = await fetch(`/s/api/${sessionId}`)
+        const response = await fetch(`/s/api/${sessionId}`, {
+          headers: password ? { 'X-Share-Password': password } : undefined,
+        })
         if (!response.ok) {
-          if (response.status === 404) {
+          if (response.status === 401) {
+            setPasswordPrompt(password ? 'incorrect' : 'required')
+          } else if (response.status === 404) {
             setError('Session not found')
+          } else if (response.status === 410) {
+            setError('This link has expired')
           } else {
             setError('Failed to load session')
           }
@@ -78,6 +89,7 @@ export function App() {
         }
 
         const data = await response.json()
+        setPasswordPrompt(null)
         setSession(data)
       } catch (err) {
         console.error('Failed to fetch session:', err)
@@ -88,13 +100,15 @@ export function App() {
     }
 
     fetchSession()
-  }, [sessionId])
+  }, [sessionId, password])
 
   // Handle browser navigation
   useEffect(() => {
     const handlePopState = () => {
       const newId = getSessionIdFromUrl()
       setSessionId(newId)
+      setPassword(null)
+      setPasswordPrompt(null)
       if (!newId) {
         setSession(null)
         setError(null)
@@ -126,6 +140,8 @@ export function App() {
     setSession(null)
     setSessionId(null)
     setError(null)
+    setPassword(null)
+    setPasswordPrompt(null)
     // Update URL to root
     window.history.pushState({}, '', '/')
   }, [])
@@ -212,6 +228,10 @@ export function App() {
             </button>
           </div>
         </div>
+      ) : passwordPrompt ? (
+        <div className="flex-1 flex items-center justify-center p-8">
+          <SharePassword isIncorrect={passwordPrompt === 'incorrect'} onSubmit={setPassword} />
+        </div>
       ) : session ? (
         <SessionViewer
           session={session}
@@ -280,6 +300,29 @@ export function App() {
         />
       )}
 
+      {/* Table overlay for database query results */}
+      {overlayData?.type === 'table' && (
+        <QueryResultOverlay
+          isOpen={!!overlayActivity}
+          onClose={handleCloseOverlay}
+          title={overlayData.title}
+          columns={overlayData.columns}
+          rows={overlayData.rows}
+          truncated={overlayData.truncated}
+          theme={theme}
+        />
+      )}
+
+      {/* Diff overlay for git diff and commit results */}
+      {overlayData?.type === 'diff' && (
+        <MultiDiffPreviewOverlay
+          isOpen={!!overlayActivity}
+          onClose={handleCloseOverlay}
+          changes={overlayData.changes}
+          theme={theme}
+        />
+      )}
+
       {/* Document overlay for formatted markdown content (Write tool on .md/.txt, WebSearch results) */}
       {overlayData?.type === 'document' && (
         <DocumentFormattedMarkdownOverlay
@@ -0,0 +1,63 @@
+/**
+ * SharePassword - Password prompt for protected shared sessions
+ */
+
+import * as React from 'react'
+import { useState } from 'react'
+import { Lock, AlertCircle } from 'lucide-react'
+
+interface SharePasswordProps {
+  /** Whether the last submitted password was rejected */
+  isIncorrect: boolean
+  onSubmit: (password: string) => void
+}
+
+export function SharePassword({ isIncorrect, onSubmit }: SharePasswordProps) {
+  const [password, setPassword] = useState('')
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (password) onSubmit(password)
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="w-full max-w-sm">
+      <div className="flex flex-col items-center gap-4 text-center">
+        <div className="p-4 rounded-full bg-foreground/5 text-foreground/50">
+          <Lock className="w-8 h-8" />
+        </div>
+        <div>
+          <p className="text-lg font-medium text-foreground">Password required</p>
+          <p className="mt-1 text-sm text-foreground/50">
+            Enter the password you received with this link
+          </p>
+        </div>
+      </div>
+
+      <div className="mt-6 flex gap-2">
+        <input
+          type="password"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          autoFocus
+          aria-label="Password"
+          className="flex-1 min-w-0 px-3 py-2 rounded-md bg-background text-foreground shadow-sm border border-border outline-none focus:border-accent"
+        />
+        <button
+          type="submit"
+          disabled={!password}
+          className="px-4 py-2 rounded-md bg-background text-foreground shadow-sm border border-border hover:bg-foreground/5 transition-colors disabled:opacity-50"
+        >
+          Open
+        </button>
+      </div>
+
+      {isIncorrect && (
+        <div className="mt-4 flex items-center gap-2 p-3 rounded-lg bg-destructive/10 text-destructive text-sm">
+          <AlertCircle className="w-4 h-4 shrink-0" />
+          <span>Incorrect password</span>
+        </div>
+      )}
+    </form>
+  )
+}
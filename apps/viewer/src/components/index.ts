@@ -4,3 +4,4 @@
 
 export { SessionUpload } from './SessionUpload'
 export { Header } from './Header'
+export { SharePassword } from './SharePassword'
@@ -31,8 +31,9 @@ export default defineConfig({
     open: true,
     proxy: {
       // Proxy API requests to production R2 during local dev
+      // (set VIEWER_API_URL to use a local @craft-agent/viewer-server instead)
       '/s/api': {
-        target: 'https://agents.craft.do',
+        target: process.env.VIEWER_API_URL ?? 'https://agents.craft.do',
         changeOrigin: true,
         secure: true,
       },
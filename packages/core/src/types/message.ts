@@ -296,7 +296,7 @@ export interface RecoveryAction {
   /** Slash command to execute (e.g., '/settings') */
   command?: string;
   /** Custom action type for special handling */
-  action?: 'retry' | 'settings' | 'reauth';
+  action?: 'retry' | 'settings' | 'reauth' | 'raise_budget';
 }
 
 /**
@@ -318,6 +318,7 @@ export type ErrorCode =
   | 'invalid_model'          // Model ID not found
   | 'data_policy_error'      // OpenRouter data policy restriction
   | 'invalid_request'        // API rejected the request (e.g., bad image, invalid content)
+  | 'budget_exceeded'        // Workspace/session cost budget hard limit reached
   | 'unknown_error';
 
 /**
@@ -351,6 +352,8 @@ export interface PermissionRequest {
   command: string;
   description: string;
   type?: 'bash';  // Type of permission request
+  /** What "Always Allow" can save as a rule (e.g. "git status", "api.github.com"); absent if it can't be saved */
+  alwaysAllowTarget?: string;
 }
 
 /**
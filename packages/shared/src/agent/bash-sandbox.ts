@@ -0,0 +1,112 @@
+/**
+ * Bash Sandbox
+ *
+ * Wraps agent Bash commands in a bubblewrap (bwrap) sandbox when the workspace
+ * enables it (WorkspaceConfig.bashSandbox). Inside the sandbox:
+ * - System directories (/usr, /etc, ...) and configured paths are read-only
+ * - The session working directory is writable
+ * - The home directory and /tmp are empty tmpfs mounts (hides credentials)
+ * - Network is unshared unless enabled
+ *
+ * Linux only. bwrap uses unprivileged user namespaces, which plain `unshare`
+ * cannot combine with read-only bind mounts.
+ */
+
+import { existsSync } from 'fs';
+import { homedir } from 'os';
+import { delimiter, join } from 'path';
+import { expandPath } from '../utils/paths.ts';
+
+/** Host directories mounted read-only so standard tools keep working */
+const SYSTEM_READ_ONLY_PATHS = [
+  '/usr',
+  '/bin',
+  '/sbin',
+  '/lib',
+  '/lib32',
+  '/lib64',
+  '/etc',
+  '/opt',
+  '/run/systemd/resolve',
+];
+
+/** Fallback locations when bwrap is not on PATH (e.g. GUI apps with a minimal PATH) */
+const FALLBACK_BIN_DIRS = ['/usr/bin', '/usr/local/bin', '/bin'];
+
+export interface SandboxOptions {
+  /** Absolute path to the bwrap executable */
+  bwrapPath: string;
+  /** Paths mounted read-write (the session working directory) */
+  writablePaths: string[];
+  /** Extra paths mounted read-only (~ is expanded) */
+  readOnlyPaths?: string[];
+  /** Share the host network. Default: false */
+  network?: boolean;
+  /** Home directory to hide behind an empty tmpfs. Default: os.homedir() */
+  homeDir?: string;
+}
+
+let cachedExecutable: string | null | undefined;
+
+/**
+ * Find the bwrap executable. Returns null on non-Linux platforms or when
+ * bubblewrap is not installed. The result is cached for the process lifetime.
+ */
+export function findSandboxExecutable(): string | null {
+  if (cachedExecutable !== undefined) return cachedExecutable;
+
+  cachedExecutable = null;
+  if (process.platform === 'linux') {
+    const dirs = [...(process.env.PATH ?? '').split(delimiter).filter(Boolean), ...FALLBACK_BIN_DIRS];
+    const found = dirs.map(dir => join(dir, 'bwrap')).find(path => existsSync(path));
+    cachedExecutable = found ?? null;
+  }
+  return cachedExecutable;
+}
+
+/**
+ * Quote a string as a single POSIX shell argument
+ */
+export function quoteShellArg(value: string): string {
+  return `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+/**
+ * Build a shell command that runs `command` inside a bwrap sandbox.
+ *
+ * The sandbox starts in the caller's current directory ("$PWD" is expanded by
+ * the outer shell), so the command must run from a path visible in the sandbox.
+ * Directory changes made inside the sandbox do not persist between calls.
+ */
+export function buildSandboxedCommand(command: string, options: SandboxOptions): string {
+  const homeDir = options.homeDir ?? homedir();
+  const args: string[] = [
+    quoteShellArg(options.bwrapPath),
+    '--die-with-parent',
+    '--new-session',
+    '--unshare-all',
+  ];
+  if (options.network) {
+    args.push('--share-net');
+  }
+
+  for (const path of SYSTEM_READ_ONLY_PATHS) {
+    args.push('--ro-bind-try', path, path);
+  }
+  args.push('--proc', '/proc', '--dev', '/dev', '--tmpfs', '/tmp');
+  // Mounted before the binds below so paths inside the home directory stay visible
+  args.push('--tmpfs', quoteShellArg(homeDir));
+
+  for (const path of options.readOnlyPaths ?? []) {
+    const expanded = expandPath(path.trim());
+    if (expanded) {
+      args.push('--ro-bind-try', quoteShellArg(expanded), quoteShellArg(expanded));
+    }
+  }
+  for (const path of new Set(options.writablePaths)) {
+    args.push('--bind', quoteShellArg(path), quoteShellArg(path));
+  }
+
+  args.push('--chdir', '"$PWD"', '--', 'bash', '-c', quoteShellArg(command));
+  return args.join(' ');
+}
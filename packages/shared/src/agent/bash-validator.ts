@@ -157,6 +157,92 @@ export function validateBashCommand(
   };
 }
 
+/**
+ * Find the first command in a bash command line that matches a deny pattern.
+ *
+ * Unlike validateBashCommand (an allowlist check that rejects anything it can't
+ * verify), this looks for a match anywhere: the full command line, and every simple
+ * command inside chains, pipelines, subshells, control flow and command substitutions.
+ * If the command can't be parsed, each segment between shell operators is checked instead.
+ *
+ * @returns The matching command text and pattern, or null if nothing is denied
+ */
+export function findDeniedCommand(
+  command: string,
+  patterns: CompiledBashPattern[]
+): { command: string; pattern: CompiledBashPattern } | null {
+  if (patterns.length === 0) return null;
+
+  const trimmed = command.trim();
+  let candidates: string[];
+  try {
+    const commands: string[] = [];
+    collectCommands(bashParser(trimmed) as ASTNode, commands);
+    candidates = [trimmed, ...commands];
+  } catch (error) {
+    debug('[BashValidator] Parse error while checking deny rules, falling back to segments:', error);
+    candidates = [trimmed, ...trimmed.split(/[;&|\n]+/).map(part => part.trim()).filter(Boolean)];
+  }
+
+  for (const candidate of candidates) {
+    const pattern = patterns.find(p => p.regex.test(candidate));
+    if (pattern) {
+      return { command: candidate, pattern };
+    }
+  }
+  return null;
+}
+
+/**
+ * Get the text validateBashCommand matches for a single simple command
+ * (name and arguments joined by spaces, quotes removed).
+ *
+ * @returns null for chains, pipelines, redirects, expansions, background jobs,
+ *   variable assignments and commands that can't be parsed
+ */
+export function getSimpleCommandText(command: string): string | null {
+  let ast: ScriptNode;
+  try {
+    ast = bashParser(command.trim()) as ScriptNode;
+  } catch {
+    return null;
+  }
+
+  const [node] = ast.commands;
+  if (ast.commands.length !== 1 || node?.type !== 'Command') return null;
+  const cmd = node as CommandNode;
+  if (cmd.async || cmd.prefix?.length || !cmd.name) return null;
+
+  const words = [cmd.name, ...(cmd.suffix ?? [])];
+  if (words.some(item => item.type !== 'Word' || checkWordForExpansions(item as WordNode))) return null;
+  return (words as WordNode[]).map(word => word.text).join(' ');
+}
+
+/**
+ * Collect the text of every simple command in an AST (name + arguments),
+ * walking all child nodes including command substitutions.
+ */
+function collectCommands(node: unknown, commands: string[]): void {
+  if (!node || typeof node !== 'object') return;
+  if (Array.isArray(node)) {
+    for (const child of node) collectCommands(child, commands);
+    return;
+  }
+
+  const record = node as Record<string, unknown>;
+  if (record.type === 'Command') {
+    const cmd = record as unknown as CommandNode;
+    const words = [cmd.name, ...(cmd.suffix ?? [])]
+      .filter((item): item is WordNode => item?.type === 'Word')
+      .map(word => word.text);
+    if (words.length > 0) commands.push(words.join(' '));
+  }
+
+  for (const value of Object.values(record)) {
+    collectCommands(value, commands);
+  }
+}
+
 /**
  * Recursively validate an AST node.
  */
@@ -4,10 +4,20 @@ import type { ContentBlockParam } from '@anthropic-ai/sdk/resources';
 import { z } from 'zod';
 import { getSystemPrompt, getDateTimeContext, getWorkingDirectoryContext } from '../prompts/system.ts';
 // Plan types are used by UI components; not needed in craft-agent.ts since Safe Mode is user-controlled
-import { parseError, type AgentError } from './errors.ts';
+import { parseError, createBudgetExceededError, createProviderProfileCredentialsError, canFallBackToNextProvider, type AgentError } from './errors.ts';
 import { runErrorDiagnostics } from './diagnostics.ts';
 import { loadStoredConfig, loadConfigDefaults, getAnthropicBaseUrl, resolveModelId, type Workspace } from '../config/storage.ts';
-import { isLocalMcpEnabled } from '../workspaces/storage.ts';
+import { isLocalMcpEnabled, getWorkspaceBashSandbox, loadWorkspaceConfig } from '../workspaces/storage.ts';
+import {
+  applyProviderProfileEnv,
+  getNextFallbackProfile,
+  getProviderProfileEnv,
+  resolveProviderProfile,
+  resolveProviderProfileModel,
+  type ProviderProfileEnv,
+} from '../config/provider-profiles.ts';
+import type { ProviderProfile } from '../config/types.ts';
+import { formatBudgetStatus, TurnCostEstimate, type BudgetStatus } from '../workspaces/budgets.ts';
 import { loadPlanFromPath, type SessionConfig as Session } from '../sessions/storage.ts';
 import { DEFAULT_MODEL, isClaudeModel } from '../config/models.ts';
 import { getCredentialManager } from '../credentials/index.ts';
@@ -34,11 +44,27 @@ import {
   shouldAllowToolInMode,
   blockWithReason,
   isApiEndpointAllowed,
+  getApiCallTarget,
   type PermissionMode,
   PERMISSION_MODE_CONFIG,
   SAFE_MODE_CONFIG,
 } from './mode-manager.ts';
-import { type PermissionsContext, permissionsConfigCache } from './permissions-config.ts';
+import {
+  type AlwaysAllowRuleType,
+  type AlwaysAllowScope,
+  type PermissionsContext,
+  permissionsConfigCache,
+  addAlwaysAllowRule,
+  createAlwaysAllowRule,
+  getBashAlwaysAllowValue,
+  findAlwaysAllowRule,
+  canAlwaysAllowNetworkCommand,
+  findNetworkCommandAlwaysAllowRule,
+  isBashCommandAlwaysAllowed,
+} from './permissions-config.ts';
+import { appendPermissionAuditEntry, summarizeToolInput } from './permission-audit.ts';
+import { buildSandboxedCommand, findSandboxExecutable } from './bash-sandbox.ts';
+import type { PermissionAuditDecision } from './mode-types.ts';
 import { getSessionPlansPath, getSessionPath } from '../sessions/storage.ts';
 import { readFileSync } from 'fs';
 import { expandPath } from '../utils/paths.ts';
@@ -91,6 +117,8 @@ export enum AbortReason {
   Redirect = 'redirect',
   /** Source was auto-activated mid-turn (silent, auto-retry follows) */
   SourceActivated = 'source_activated',
+  /** The turn's cost crossed a hard budget limit */
+  BudgetExceeded = 'budget_exceeded',
 }
 
 /**
@@ -116,6 +144,24 @@ export interface CraftAgentConfig {
    * Returns last N user/assistant message pairs for context injection.
    */
   getRecoveryMessages?: () => RecoveryMessage[];
+  /**
+   * Callback to get earlier conversation for a session that has messages but no SDK session
+   * to resume (e.g. a forked session). Called on the first turn of a fresh SDK session;
+   * the messages are replayed as context ahead of the user's message.
+   * Should exclude the message currently being sent.
+   */
+  getHistoryMessages?: () => RecoveryMessage[];
+  /**
+   * Callback to evaluate cost budgets before each turn, and during a turn with the
+   * turn's estimated cost so far (not yet recorded) as pendingCostUsd.
+   * When it reports a hard limit, the turn is refused or stopped with a budget_exceeded typed error.
+   */
+  getBudgetStatus?: (pendingCostUsd?: number) => BudgetStatus;
+  /**
+   * Provider profile selected for this session (see config/provider-profiles.ts).
+   * Undefined = workspace default, then global default, then the legacy connection.
+   */
+  providerProfileId?: string;
   isHeadless?: boolean;        // Running in headless mode (disables interactive tools)
   debugMode?: {                // Debug mode configuration (when running in dev)
     enabled: boolean;          // Whether debug mode is active
@@ -132,6 +178,8 @@ interface PendingPermission {
   command: string;
   baseCommand: string;
   type?: 'bash' | 'safe_mode';  // Type of permission request
+  /** What a saved "always allow" rule would match (absent if the request can't be saved as a rule) */
+  alwaysAllowTarget?: { type: AlwaysAllowRuleType; value: string };
 }
 
 // Dangerous commands that should always require permission (never auto-allow)
@@ -358,6 +406,8 @@ export class CraftAgent {
   private currentQuery: Query | null = null;
   private currentQueryAbortController: AbortController | null = null;
   private lastAbortReason: AbortReason | null = null;
+  // Estimated cost of the current turn, checked against hard budget limits as responses arrive
+  private turnCost: TurnCostEstimate = new TurnCostEstimate();
   private sessionId: string | null = null;
   private isHeadless: boolean = false;
   private pendingPermissions: Map<string, PendingPermission> = new Map();
@@ -368,6 +418,8 @@ export class CraftAgent {
   private sourceMcpServers: Record<string, SdkMcpServerConfig> = {};
   // In-process MCP servers for source API integrations
   private sourceApiServers: Record<string, ReturnType<typeof createSdkMcpServer>> = {};
+  // SDK names of source tools disabled in source configs (passed as disallowedTools)
+  private sourceDisabledTools: string[] = [];
   // Set of active source server names (for blocking disabled sources)
   private activeSourceServerNames: Set<string> = new Set();
   // Set of intended active source slugs (what UI shows as active, may differ from activeSourceServerNames if build fails)
@@ -386,6 +438,11 @@ export class CraftAgent {
   private thinkingLevel: ThinkingLevel = 'think';
   // Ultrathink override - when true, boosts to max thinking for one message (resets after query)
   private ultrathinkOverride: boolean = false;
+  // Provider fallback state for the current turn: profile the turn continues with after
+  // a rate limit/outage, and profile IDs already tried (each turn starts on the selected profile)
+  private fallbackProfile: ProviderProfile | null = null;
+  private triedProviderProfiles: string[] = [];
+  private continuingWithFallback: boolean = false;
   // Config file watcher for hot-reloading source changes
   private configWatcher: ConfigWatcher | null = null;
   // Pinned system prompt components (captured on first chat, used for consistency after compaction)
@@ -422,7 +479,7 @@ export class CraftAgent {
   }
 
   // Callback for permission requests - set by application to receive permission prompts
-  public onPermissionRequest: ((request: { requestId: string; toolName: string; command: string; description: string; type?: 'bash' }) => void) | null = null;
+  public onPermissionRequest: ((request: { requestId: string; toolName: string; command: string; description: string; type?: 'bash'; alwaysAllowTarget?: string }) => void) | null = null;
 
   // Debug callback for status messages
   public onDebug: ((message: string) => void) | null = null;
@@ -641,17 +698,81 @@ export class CraftAgent {
     return urlMatch?.[1] ?? null;
   }
 
+  /**
+   * Record a permission decision in the session and workspace audit logs.
+   */
+  private auditPermission(
+    input: { tool_name: string; tool_input: unknown; tool_use_id: string },
+    mode: PermissionMode,
+    decision: PermissionAuditDecision,
+    details: { rule?: string; reason?: string } = {}
+  ): void {
+    const sessionId = this.config.session?.id;
+    if (!sessionId) return;
+    appendPermissionAuditEntry(this.workspaceRootPath, {
+      timestamp: Date.now(),
+      sessionId,
+      mode,
+      toolName: input.tool_name,
+      toolUseId: input.tool_use_id,
+      input: summarizeToolInput(input.tool_name, input.tool_input),
+      decision,
+      ...details,
+    });
+  }
+
+  /**
+   * Get what a saved "always allow" rule would match for a bash command.
+   * Dangerous commands are never saved; curl/wget are saved by domain (single
+   * simple commands only), other commands as the exact approved command
+   * (see getBashAlwaysAllowValue).
+   */
+  private getBashAlwaysAllowTarget(command: string, baseCommand: string): PendingPermission['alwaysAllowTarget'] {
+    if (['curl', 'wget'].includes(baseCommand)) {
+      const domain = this.extractDomainFromNetworkCommand(command);
+      return domain && canAlwaysAllowNetworkCommand(command) ? { type: 'domain', value: domain } : undefined;
+    }
+    if (this.isDangerousCommand(baseCommand)) return undefined;
+    const value = getBashAlwaysAllowValue(command);
+    return value ? { type: 'bash', value } : undefined;
+  }
+
+  /**
+   * Save an "always allow" decision as a rule in the workspace or app-level permissions file.
+   * Returns false if the request can't be saved, so it is remembered for this session instead.
+   */
+  private saveAlwaysAllowRule(scope: Exclude<AlwaysAllowScope, 'session'>, pending: PendingPermission): boolean {
+    const target = pending.alwaysAllowTarget;
+    if (!target) return false;
+
+    try {
+      const comment = `Approved: ${pending.command.length > 80 ? `${pending.command.slice(0, 80)}…` : pending.command}`;
+      addAlwaysAllowRule(scope, this.workspaceRootPath, createAlwaysAllowRule(target.type, target.value, comment));
+      this.onDebug?.(`Saved ${scope} always-allow rule for ${target.type} "${target.value}"`);
+      return true;
+    } catch (error) {
+      this.onDebug?.(`Failed to save always-allow rule: ${error instanceof Error ? error.message : error}`);
+      return false;
+    }
+  }
+
   /**
    * Respond to a pending permission request
+   *
+   * @param alwaysAllow - Remember the approval: `true` or 'session' for this session only,
+   *   'workspace' or 'global' to save it as a rule that also applies to future sessions
    */
-  respondToPermission(requestId: string, allowed: boolean, alwaysAllow: boolean = false): void {
+  respondToPermission(requestId: string, allowed: boolean, alwaysAllow: boolean | AlwaysAllowScope = false): void {
     this.onDebug?.(`respondToPermission: ${requestId}, allowed=${allowed}, alwaysAllow=${alwaysAllow}, pending=${this.pendingPermissions.has(requestId)}`);
     const pending = this.pendingPermissions.get(requestId);
     if (pending) {
       this.onDebug?.(`Resolving permission promise for ${requestId}`);
 
-      // If "always allow" was selected, remember it (with special handling for curl/wget)
-      if (alwaysAllow && allowed) {
+      const scope: AlwaysAllowScope | null = alwaysAllow === true ? 'session' : alwaysAllow || null;
+      const saved = allowed && (scope === 'workspace' || scope === 'global') && this.saveAlwaysAllowRule(scope, pending);
+
+      // If "always allow" was selected for this session, remember it (with special handling for curl/wget)
+      if (scope && allowed && !saved) {
         if (['curl', 'wget'].includes(pending.baseCommand)) {
           // For curl/wget, whitelist the domain instead of the command
           const domain = this.extractDomainFromNetworkCommand(pending.command);
@@ -807,6 +928,25 @@ export class CraftAgent {
         return;
       }
 
+      // A new turn starts on the selected provider profile; a fallback continuation keeps its profile
+      const isFallbackContinuation = this.continuingWithFallback;
+      this.continuingWithFallback = false;
+      if (!_isRetry && !isFallbackContinuation) {
+        this.fallbackProfile = null;
+        this.triedProviderProfiles = [];
+      }
+
+      // Refuse the turn if a budget hard limit has been reached (retries belong to a turn already allowed)
+      if (!_isRetry && !isFallbackContinuation) {
+        this.turnCost = new TurnCostEstimate();
+        const budget = this.config.getBudgetStatus?.();
+        if (budget?.level === 'hard') {
+          yield { type: 'typed_error', error: createBudgetExceededError(formatBudgetStatus(budget)) };
+          yield { type: 'complete' };
+          return;
+        }
+      }
+
       // Detect mini agent mode early (needed for tool/MCP restrictions)
       const isMiniAgent = this.config.systemPromptPreset === 'mini';
 
@@ -816,6 +956,11 @@ export class CraftAgent {
       // Note: Mini agents use a minimal tool list directly, so no additional blocking needed
       const disallowedTools: string[] = ['EnterPlanMode', 'ExitPlanMode', 'AskUserQuestion'];
 
+      // Hide source tools the user disabled (removed from the model's context by the SDK)
+      if (!isMiniAgent) {
+        disallowedTools.push(...this.sourceDisabledTools);
+      }
+
       // Build MCP servers config
       // Mini agents: only session tools (config_validate) to minimize token usage
       // Regular agents: full set including preferences, docs, and user sources
@@ -852,11 +997,30 @@ export class CraftAgent {
       // Configure SDK options
       // Resolve model: use tier name when using custom API (OpenRouter), else specific version
       const modelConfig = this.config.model || DEFAULT_MODEL;
-      const model = resolveModelId(modelConfig);
+
+      // Resolve provider profile (null = legacy connection from process.env)
+      const providerProfile = this.getActiveProviderProfile();
+      let providerEnv: ProviderProfileEnv | null = null;
+      if (providerProfile) {
+        providerEnv = await getProviderProfileEnv(providerProfile);
+        if (!providerEnv) {
+          yield { type: 'typed_error', error: createProviderProfileCredentialsError(providerProfile.name) };
+          yield { type: 'complete' };
+          return;
+        }
+        if (!this.triedProviderProfiles.includes(providerProfile.id)) {
+          this.triedProviderProfiles.push(providerProfile.id);
+        }
+      }
+      const model = providerProfile
+        ? resolveProviderProfileModel(providerProfile, modelConfig)
+        : resolveModelId(modelConfig);
 
       // Log provider context for diagnostics (custom base URL = third-party provider)
-      const activeBaseUrl = getAnthropicBaseUrl();
-      if (activeBaseUrl) {
+      const activeBaseUrl = providerProfile ? providerEnv?.ANTHROPIC_BASE_URL : getAnthropicBaseUrl();
+      if (providerProfile) {
+        debug(`[chat] Provider profile: ${providerProfile.id} (${providerProfile.kind}), baseUrl=${activeBaseUrl ?? 'default'}, model=${model}`);
+      } else if (activeBaseUrl) {
         debug(`[chat] Custom provider: baseUrl=${activeBaseUrl}, model=${model}, hasApiKey=${!!process.env.ANTHROPIC_API_KEY}`);
       }
 
@@ -888,8 +1052,11 @@ export class CraftAgent {
         });
       }
 
+      const defaultOptions = getDefaultOptions();
       const options: Options = {
-        ...getDefaultOptions(),
+        ...defaultOptions,
+        // Profiles override the provider credentials of the SDK subprocess for this query only
+        ...(providerEnv ? { env: applyProviderProfileEnv(defaultOptions.env ?? process.env, providerEnv) } : {}),
         model,
         // Capture stderr from SDK subprocess for error diagnostics
         // This helps identify why sessions fail with "process exited with code 1"
@@ -972,6 +1139,54 @@ export class CraftAgent {
                 activeSourceSlugs: Array.from(this.activeSourceServerNames),
               };
 
+              // ============================================================
+              // BASH SANDBOX: Run Bash commands under bubblewrap when the workspace
+              // enables it. Fails closed if the sandbox can't run on this machine.
+              // Permission prompts and the audit log show the original command.
+              // ============================================================
+              let sandboxedInput: Record<string, unknown> | null = null;
+              if (input.tool_name === 'Bash') {
+                const sandbox = getWorkspaceBashSandbox(this.workspaceRootPath);
+                if (sandbox) {
+                  const bwrapPath = findSandboxExecutable();
+                  if (!bwrapPath) {
+                    const reason = process.platform === 'linux'
+                      ? 'Bash sandbox is enabled for this workspace but bubblewrap (bwrap) is not installed. Install bubblewrap (e.g. `sudo apt install bubblewrap`) or turn the sandbox off in Settings → Workspace.'
+                      : 'Bash sandbox is enabled for this workspace but is only supported on Linux. Turn the sandbox off in Settings → Workspace to run commands.';
+                    this.onDebug?.('Blocking Bash: sandbox unavailable');
+                    this.auditPermission(input, permissionMode, 'blocked', { reason });
+                    return blockWithReason(reason);
+                  }
+                  const toolInput = input.tool_input as Record<string, unknown>;
+                  const sessionCwd = this.config.session?.sdkCwd ??
+                    (sessionId ? getSessionPath(this.workspaceRootPath, sessionId) : this.workspaceRootPath);
+                  const writablePaths = [sessionCwd];
+                  if (this.config.session?.workingDirectory) {
+                    writablePaths.push(this.config.session.workingDirectory);
+                  }
+                  sandboxedInput = {
+                    ...toolInput,
+                    command: buildSandboxedCommand(String(toolInput.command ?? ''), {
+                      bwrapPath,
+                      writablePaths,
+                      readOnlyPaths: sandbox.readOnlyPaths,
+                      network: sandbox.network,
+                    }),
+                  };
+                }
+              }
+
+              // Allow the tool call, swapping in the sandboxed command for Bash when enabled
+              const allowToolCall = () => sandboxedInput
+                ? {
+                    continue: true,
+                    hookSpecificOutput: {
+                      hookEventName: 'PreToolUse' as const,
+                      updatedInput: sandboxedInput,
+                    },
+                  }
+                : { continue: true };
+
               // In 'allow-all' mode, still check for explicitly blocked tools
               if (permissionMode === 'allow-all') {
                 const plansFolderPath = sessionId ? getSessionPlansPath(this.workspaceRootPath, sessionId) : undefined;
@@ -985,10 +1200,14 @@ export class CraftAgent {
                 if (!result.allowed) {
                   // Tool is explicitly blocked in permissions.json
                   this.onDebug?.(`Allow-all mode: blocking explicitly blocked tool ${input.tool_name}`);
+                  this.auditPermission(input, permissionMode, 'blocked', { rule: result.rule, reason: result.reason });
                   return blockWithReason(result.reason);
                 }
 
                 this.onDebug?.(`Allow-all mode: allowing ${input.tool_name}`);
+                this.auditPermission(input, permissionMode, 'allowed', {
+                  reason: `Allowed in ${PERMISSION_MODE_CONFIG[permissionMode].displayName} mode`,
+                });
                 // Fall through to source blocking and other checks below
               }
 
@@ -1005,6 +1224,7 @@ export class CraftAgent {
                 if (!result.allowed) {
                   // Tool is explicitly blocked in permissions.json
                   this.onDebug?.(`Ask mode: blocking explicitly blocked tool ${input.tool_name}`);
+                  this.auditPermission(input, permissionMode, 'blocked', { rule: result.rule, reason: result.reason });
                   return blockWithReason(result.reason);
                 }
                 // Don't return here - fall through to other checks (like prompting for permission)
@@ -1023,13 +1243,28 @@ export class CraftAgent {
                 if (!result.allowed) {
                   // In safe mode, always block without prompting
                   this.onDebug?.(`Safe mode: blocking ${input.tool_name}`);
+                  this.auditPermission(input, permissionMode, 'blocked', { rule: result.rule, reason: result.reason });
                   return blockWithReason(result.reason);
                 }
 
                 this.onDebug?.(`Allowed in safe mode: ${input.tool_name}`);
+                this.auditPermission(input, permissionMode, 'allowed', {
+                  rule: result.rule,
+                  reason: result.rule
+                    ? 'Matches read-only rule'
+                    : `Allowed in ${PERMISSION_MODE_CONFIG[permissionMode].displayName} mode`,
+                });
                 // Fall through to source blocking and other checks below
               }
 
+              // Ask mode decisions are recorded where they are made below (auto-allow
+              // rules, prompts). Calls that need no approval are recorded on the way out.
+              const auditAllowedWithoutPrompt = () => {
+                if (permissionMode === 'ask') {
+                  this.auditPermission(input, permissionMode, 'allowed', { reason: 'No approval needed' });
+                }
+              };
+
               // ============================================================
               // SOURCE BLOCKING & AUTO-ENABLE: Handle tools from sources
               // Sources can be disabled mid-conversation, so we check
@@ -1195,6 +1430,7 @@ export class CraftAgent {
 
                 // If any path was expanded, return updated input
                 if (updatedInput) {
+                  auditAllowedWithoutPrompt();
                   return {
                     continue: true,
                     hookSpecificOutput: {
@@ -1219,6 +1455,7 @@ export class CraftAgent {
                   const workspaceId = this.config.workspace.id;
                   const qualifiedSkill = `${workspaceId}:${toolInput.skill}`;
                   this.onDebug?.(`Skill tool: qualified "${toolInput.skill}" → "${qualifiedSkill}"`);
+                  auditAllowedWithoutPrompt();
                   return {
                     continue: true,
                     hookSpecificOutput: {
@@ -1245,6 +1482,7 @@ export class CraftAgent {
 
                 if (hasMetadata) {
                   const { _intent, _displayName, ...cleanInput } = toolInput;
+                  auditAllowedWithoutPrompt();
                   return {
                     continue: true,
                     hookSpecificOutput: {
@@ -1261,13 +1499,17 @@ export class CraftAgent {
               // In 'allow-all' mode, permission checks are skipped entirely
               // ============================================================
 
+              // Set once the user has answered a prompt (already recorded in the audit log)
+              let prompted = false;
+
               // Helper to request permission and wait for response
               const requestPermission = async (
                 toolUseId: string,
                 toolName: string,
                 command: string,
                 baseCommand: string,
-                description: string
+                description: string,
+                alwaysAllowTarget: PendingPermission['alwaysAllowTarget']
               ): Promise<{ allowed: boolean }> => {
                 const requestId = `perm-${toolUseId}`;
                 debug(`[PreToolUse] Requesting permission for ${toolName}: ${command}`);
@@ -1278,6 +1520,7 @@ export class CraftAgent {
                     toolName,
                     command,
                     baseCommand,
+                    alwaysAllowTarget,
                   });
                 });
 
@@ -1287,16 +1530,28 @@ export class CraftAgent {
                     toolName,
                     command,
                     description,
+                    alwaysAllowTarget: alwaysAllowTarget?.value,
                   });
                 } else {
                   this.pendingPermissions.delete(requestId);
+                  this.auditPermission(input, permissionMode, 'blocked', { reason: 'No permission handler available' });
                   return { allowed: false };
                 }
 
                 const allowed = await permissionPromise;
+                this.auditPermission(input, permissionMode, allowed ? 'approved' : 'denied', { reason: 'Permission prompt' });
+                prompted = true;
                 return { allowed };
               };
 
+              // Record a call allowed without prompting by an earlier approval or saved rule
+              const auditAutoAllowed = (reason: string, rule?: { source: string; scope: string }) => {
+                this.auditPermission(input, permissionMode, 'allowed', {
+                  rule: rule?.source,
+                  reason: rule ? `${reason} (${rule.scope})` : reason,
+                });
+              };
+
               // For file write operations in 'ask' mode, prompt for permission
               const fileWriteTools = new Set(['Write', 'Edit', 'MultiEdit', 'NotebookEdit']);
               if (fileWriteTools.has(input.tool_name) && permissionMode === 'ask') {
@@ -1306,6 +1561,15 @@ export class CraftAgent {
                 // Check if this tool type is already allowed for this session
                 if (this.alwaysAllowedCommands.has(input.tool_name)) {
                   this.onDebug?.(`Auto-allowing "${input.tool_name}" (previously approved)`);
+                  auditAutoAllowed('Approved earlier in this session');
+                  return { continue: true };
+                }
+
+                // Check if this tool type is allowed by a saved "always allow" rule
+                const savedRule = findAlwaysAllowRule(permissionsConfigCache.getMergedConfig(permissionsContext), 'tool', input.tool_name);
+                if (savedRule) {
+                  this.onDebug?.(`Auto-allowing "${input.tool_name}" (always allowed in permissions.json)`);
+                  auditAutoAllowed('Always allowed', savedRule);
                   return { continue: true };
                 }
 
@@ -1314,7 +1578,8 @@ export class CraftAgent {
                   input.tool_name,
                   filePath,
                   input.tool_name,
-                  `${input.tool_name}: ${filePath}`
+                  `${input.tool_name}: ${filePath}`,
+                  { type: 'tool', value: input.tool_name }
                 );
 
                 if (!result.allowed) {
@@ -1344,15 +1609,31 @@ export class CraftAgent {
                   // Check if this tool is already allowed for this session
                   if (this.alwaysAllowedCommands.has(input.tool_name)) {
                     this.onDebug?.(`Auto-allowing "${input.tool_name}" (previously approved)`);
+                    auditAutoAllowed('Approved earlier in this session');
                     return { continue: true };
                   }
 
+                  const savedRule = findAlwaysAllowRule(permissionsConfigCache.getMergedConfig(permissionsContext), 'tool', input.tool_name);
+                  if (savedRule) {
+                    this.onDebug?.(`Auto-allowing "${input.tool_name}" (always allowed in permissions.json)`);
+                    auditAutoAllowed('Always allowed', savedRule);
+                    return { continue: true };
+                  }
+
+                  // SQLite writes show the statement and new notes their path instead of the tool name
+                  const mcpInput = input.tool_input as { sql?: string; file_path?: string };
+                  const prompt = input.tool_name.endsWith('__sqlite_execute') && mcpInput.sql !== undefined
+                    ? { toolName: 'SQLite Write', command: mcpInput.sql, description: `SQLite: ${serverAndTool}` }
+                    : input.tool_name.endsWith('__vault_create_note') && mcpInput.file_path !== undefined
+                      ? { toolName: 'Create Note', command: mcpInput.file_path, description: `Vault: ${serverAndTool}` }
+                      : { toolName: 'MCP Tool', command: serverAndTool, description: `MCP: ${serverAndTool}` };
                   const result = await requestPermission(
                     input.tool_use_id,
-                    'MCP Tool',
-                    serverAndTool,
+                    prompt.toolName,
+                    prompt.command,
                     input.tool_name,
-                    `MCP: ${serverAndTool}`
+                    prompt.description,
+                    { type: 'tool', value: input.tool_name }
                   );
 
                   if (!result.allowed) {
@@ -1367,9 +1648,7 @@ export class CraftAgent {
 
               // For API mutation calls in 'ask' mode, prompt for permission
               if (input.tool_name.startsWith('api_') && permissionMode === 'ask') {
-                const toolInput = input.tool_input as Record<string, unknown>;
-                const method = ((toolInput?.method as string) || 'GET').toUpperCase();
-                const path = toolInput?.path as string | undefined;
+                const { method, path } = getApiCallTarget(input.tool_name, input.tool_input);
 
                 // Only prompt for mutation methods (not GET)
                 if (method !== 'GET') {
@@ -1378,12 +1657,23 @@ export class CraftAgent {
                   // Check if this API endpoint is whitelisted in permissions.json
                   if (isApiEndpointAllowed(method, path, permissionsContext)) {
                     this.onDebug?.(`Auto-allowing API "${apiDescription}" (whitelisted in permissions.json)`);
+                    auditAutoAllowed('Matches allowedApiEndpoints');
                     return { continue: true };
                   }
 
                   // Check if this API pattern is already allowed (session whitelist)
                   if (this.alwaysAllowedCommands.has(apiDescription)) {
                     this.onDebug?.(`Auto-allowing API "${apiDescription}" (previously approved)`);
+                    auditAutoAllowed('Approved earlier in this session');
+                    return { continue: true };
+                  }
+
+                  // Saved rules are scoped to the API source (tool name)
+                  const apiCall = `${input.tool_name} ${apiDescription}`;
+                  const savedRule = findAlwaysAllowRule(permissionsConfigCache.getMergedConfig(permissionsContext), 'api', apiCall);
+                  if (savedRule) {
+                    this.onDebug?.(`Auto-allowing API "${apiCall}" (always allowed in permissions.json)`);
+                    auditAutoAllowed('Always allowed', savedRule);
                     return { continue: true };
                   }
 
@@ -1392,7 +1682,8 @@ export class CraftAgent {
                     'API Call',
                     apiDescription,
                     apiDescription,
-                    `API: ${apiDescription}`
+                    `API: ${apiDescription}`,
+                    { type: 'api', value: apiCall }
                   );
 
                   if (!result.allowed) {
@@ -1417,16 +1708,18 @@ export class CraftAgent {
                 // Auto-allow read-only commands (same ones allowed in Explore mode)
                 // Use merged config to get actual patterns from default.json (SAFE_MODE_CONFIG has empty arrays)
                 const mergedConfig = permissionsConfigCache.getMergedConfig(permissionsContext);
-                const isReadOnly = mergedConfig.readOnlyBashPatterns.some(pattern => pattern.regex.test(commandStr.trim()));
-                if (isReadOnly) {
+                const readOnlyPattern = mergedConfig.readOnlyBashPatterns.find(pattern => pattern.regex.test(commandStr.trim()));
+                if (readOnlyPattern) {
                   this.onDebug?.(`Auto-allowing read-only command: ${baseCommand}`);
-                  return { continue: true };
+                  this.auditPermission(input, permissionMode, 'allowed', { rule: readOnlyPattern.source, reason: 'Matches read-only rule' });
+                  return allowToolCall();
                 }
 
                 // Check if this base command is already allowed (and not dangerous)
                 if (this.alwaysAllowedCommands.has(baseCommand) && !this.isDangerousCommand(baseCommand)) {
                   this.onDebug?.(`Auto-allowing "${baseCommand}" (previously approved)`);
-                  return { continue: true };
+                  auditAutoAllowed('Approved earlier in this session');
+                  return allowToolCall();
                 }
 
                 // For curl/wget, check if the domain is whitelisted
@@ -1434,13 +1727,28 @@ export class CraftAgent {
                   const domain = this.extractDomainFromNetworkCommand(commandStr);
                   if (domain && this.alwaysAllowedDomains.has(domain)) {
                     this.onDebug?.(`Auto-allowing ${baseCommand} to "${domain}" (domain whitelisted)`);
-                    return { continue: true };
+                    auditAutoAllowed(`Domain ${domain} approved earlier in this session`);
+                    return allowToolCall();
                   }
+                  const savedRule = domain ? findNetworkCommandAlwaysAllowRule(mergedConfig, commandStr, domain) : undefined;
+                  if (savedRule) {
+                    this.onDebug?.(`Auto-allowing ${baseCommand} to "${domain}" (always allowed in permissions.json)`);
+                    auditAutoAllowed('Always allowed', savedRule);
+                    return allowToolCall();
+                  }
+                }
+
+                // Check if every part of the command is allowed by saved "always allow" rules
+                if (isBashCommandAlwaysAllowed(commandStr, mergedConfig)) {
+                  this.onDebug?.(`Auto-allowing "${baseCommand}" (always allowed in permissions.json)`);
+                  auditAutoAllowed('Always allowed by saved bash rules');
+                  return allowToolCall();
                 }
 
                 // Ask for permission
                 const requestId = `perm-${input.tool_use_id}`;
                 debug(`[PreToolUse] Requesting permission for Bash command: ${commandStr}`);
+                const alwaysAllowTarget = this.getBashAlwaysAllowTarget(commandStr, baseCommand);
 
                 const permissionPromise = new Promise<boolean>((resolve) => {
                   this.pendingPermissions.set(requestId, {
@@ -1448,6 +1756,7 @@ export class CraftAgent {
                     toolName: input.tool_name,
                     command: commandStr,
                     baseCommand,
+                    alwaysAllowTarget,
                   });
                 });
 
@@ -1457,9 +1766,11 @@ export class CraftAgent {
                     toolName: input.tool_name,
                     command: commandStr,
                     description: `Execute: ${commandStr}`,
+                    alwaysAllowTarget: alwaysAllowTarget?.value,
                   });
                 } else {
                   this.pendingPermissions.delete(requestId);
+                  this.auditPermission(input, permissionMode, 'blocked', { reason: 'No permission handler available' });
                   return {
                     continue: false,
                     decision: 'block' as const,
@@ -1468,6 +1779,8 @@ export class CraftAgent {
                 }
 
                 const allowed = await permissionPromise;
+                this.auditPermission(input, permissionMode, allowed ? 'approved' : 'denied', { reason: 'Permission prompt' });
+                prompted = true;
                 if (!allowed) {
                   return {
                     continue: false,
@@ -1477,7 +1790,10 @@ export class CraftAgent {
                 }
               }
 
-              return { continue: true };
+              if (!prompted) {
+                auditAllowedWithoutPrompt();
+              }
+              return allowToolCall();
             }],
           }],
           // NOTE: PostToolUse hook was removed because updatedMCPToolOutput is not a valid SDK output field.
@@ -1552,6 +1868,13 @@ export class CraftAgent {
         SDK_SLASH_COMMANDS.includes(commandName as typeof SDK_SLASH_COMMANDS[number]) &&
         !attachments?.length;
 
+      // No SDK session to resume but the session already has messages (e.g. a fork):
+      // replay the earlier conversation so the new SDK session starts with that context
+      const historyContext = !_isRetry && !this.sessionId && !isSlashCommand
+        ? this.buildHistoryContext()
+        : null;
+      const messageWithHistory = historyContext ? historyContext + userMessage : userMessage;
+
       // Create the query - handle slash commands, binary attachments, or regular messages
       if (isSlashCommand) {
         // Send slash commands directly to SDK without context wrapping.
@@ -1559,14 +1882,14 @@ export class CraftAgent {
         debug(`[chat] Detected SDK slash command: ${trimmedMessage}`);
         this.currentQuery = query({ prompt: trimmedMessage, options: optionsWithAbort });
       } else if (hasBinaryAttachments) {
-        const sdkMessage = this.buildSDKUserMessage(userMessage, attachments);
+        const sdkMessage = this.buildSDKUserMessage(messageWithHistory, attachments);
         async function* singleMessage(): AsyncIterable<SDKUserMessage> {
           yield sdkMessage;
         }
         this.currentQuery = query({ prompt: singleMessage(), options: optionsWithAbort });
       } else {
         // Simple string prompt for text-only messages (may include text file contents)
-        const prompt = this.buildTextPrompt(userMessage, attachments);
+        const prompt = this.buildTextPrompt(messageWithHistory, attachments);
         this.currentQuery = query({ prompt, options: optionsWithAbort });
       }
 
@@ -1617,6 +1940,34 @@ export class CraftAgent {
             }
           }
 
+          // Stop the turn once its estimated cost crosses a hard budget limit
+          // (the SDK only reports the actual cost when the turn completes)
+          if (message.type === 'assistant' && message.message.usage &&
+              this.turnCost.add(message.message.id, message.message.model, message.message.usage)) {
+            const budget = this.config.getBudgetStatus?.(this.turnCost.costUsd);
+            if (budget?.level === 'hard') {
+              this.onDebug?.(`Turn stopped at an estimated $${this.turnCost.costUsd.toFixed(4)}: ${budget.scope} budget reached`);
+              yield { type: 'typed_error', error: createBudgetExceededError(formatBudgetStatus(budget)) };
+              // The aborted query reports no cost, so record the estimate
+              yield {
+                type: 'complete',
+                usage: {
+                  inputTokens: message.message.usage.input_tokens +
+                    (message.message.usage.cache_read_input_tokens ?? 0) +
+                    (message.message.usage.cache_creation_input_tokens ?? 0),
+                  outputTokens: this.turnCost.outputTokens,
+                  costUsd: this.turnCost.costUsd,
+                },
+              };
+              this.forceAbort(AbortReason.BudgetExceeded);
+              return;
+            }
+          }
+          // The result's actual cost is recorded from the complete event; later responses (retries) start over
+          if (message.type === 'result') {
+            this.turnCost = new TurnCostEstimate();
+          }
+
           // Capture session ID for conversation continuity (only when it changes)
           if ('session_id' in message && message.session_id && message.session_id !== this.sessionId) {
             this.sessionId = message.session_id;
@@ -1800,6 +2151,15 @@ export class CraftAgent {
         if (isRateLimitError) {
           // Parse to typed error using the captured/processed error message
           const typedError = parseError(new Error(rawErrorMsg));
+          // Mid-turn rate limits surface to the user: re-sending the message would repeat tool calls
+          if (canFallBackToNextProvider(typedError, receivedAssistantContent)) {
+            const fallback = await this.prepareProviderFallback();
+            if (fallback) {
+              yield { type: 'info', message: `${providerProfile?.name ?? 'The current provider'} is rate limited, continuing with ${fallback.name}...` };
+              yield* this.chat(userMessage, attachments, _isRetry);
+              return;
+            }
+          }
           yield { type: 'typed_error', error: typedError };
           yield { type: 'complete' };
           return;
@@ -1925,22 +2285,31 @@ export class CraftAgent {
                 { key: 's', label: 'Check settings', command: '/settings', action: 'settings' as const },
               ];
 
-          yield {
-            type: 'typed_error',
-            error: {
-              code: diagnostics.code,
-              title: diagnostics.title,
-              message: diagnostics.message,
-              // Include stderr in details if we captured any useful output
-              details: stderrContext
-                ? [...(diagnostics.details || []), `SDK stderr: ${stderrContext}`]
-                : diagnostics.details,
-              actions,
-              canRetry: diagnostics.code !== 'billing_error' && diagnostics.code !== 'invalid_credentials',
-              retryDelayMs: 1000,
-              originalError: stderrContext || rawErrorMsg,
-            },
+          const typedError: AgentError = {
+            code: diagnostics.code,
+            title: diagnostics.title,
+            message: diagnostics.message,
+            // Include stderr in details if we captured any useful output
+            details: stderrContext
+              ? [...(diagnostics.details || []), `SDK stderr: ${stderrContext}`]
+              : diagnostics.details,
+            actions,
+            canRetry: diagnostics.code !== 'billing_error' && diagnostics.code !== 'invalid_credentials',
+            retryDelayMs: 1000,
+            originalError: stderrContext || rawErrorMsg,
           };
+
+          // Rate limits and outages before any output: retry the turn with the next profile of the fallback chain
+          if (canFallBackToNextProvider(typedError, receivedAssistantContent)) {
+            const fallback = await this.prepareProviderFallback();
+            if (fallback) {
+              yield { type: 'info', message: `${providerProfile?.name ?? 'The current provider'} is unavailable, continuing with ${fallback.name}...` };
+              yield* this.chat(userMessage, attachments, _isRetry);
+              return;
+            }
+          }
+
+          yield { type: 'typed_error', error: typedError };
           yield { type: 'complete' };
           return;
         }
@@ -2155,6 +2524,10 @@ export class CraftAgent {
         case 'microsoft':
           return 'source_microsoft_oauth_trigger';
         default:
+          // Generic OAuth APIs share the MCP OAuth trigger
+          if (api?.authType === 'oauth') {
+            return 'source_oauth_trigger';
+          }
           // Non-OAuth API sources (api key, bearer, header, query) use credential prompt
           return 'source_credential_prompt';
       }
@@ -2179,6 +2552,12 @@ export class CraftAgent {
       capabilities.push('local-mcp: disabled (only HTTP/SSE servers)');
     }
 
+    // Check Bash sandbox
+    const bashSandbox = getWorkspaceBashSandbox(this.workspaceRootPath);
+    if (bashSandbox) {
+      capabilities.push(`bash-sandbox: enabled (working directory writable, home directory empty, network ${bashSandbox.network ? 'on' : 'off'}; cd does not persist between commands)`);
+    }
+
     return `<workspace_capabilities>\n${capabilities.join('\n')}\n</workspace_capabilities>`;
   }
 
@@ -2195,15 +2574,8 @@ export class CraftAgent {
       return null;
     }
 
-    // Format messages as a conversation block the agent can understand
-    const formattedMessages = messages.map(m => {
-      const role = m.type === 'user' ? 'User' : 'Assistant';
-      // Truncate very long messages to avoid bloating context (max ~1000 chars each)
-      const content = m.content.length > 1000
-        ? m.content.slice(0, 1000) + '...[truncated]'
-        : m.content;
-      return `[${role}]: ${content}`;
-    }).join('\n\n');
+    // Truncate very long messages to avoid bloating context (max ~1000 chars each)
+    const formattedMessages = this.formatConversation(messages, 1000);
 
     return `<conversation_recovery>
 This session was interrupted and is being restored. Here is the recent conversation context:
@@ -2216,6 +2588,61 @@ Please continue the conversation naturally from where we left off.
 `;
   }
 
+  /**
+   * Build history context for a session that starts a fresh SDK session with prior messages
+   * (e.g. a session forked from another conversation). Keeps the most recent messages
+   * within a fixed character budget so long conversations don't exhaust the context window.
+   *
+   * Returns a formatted string to prepend to the user message, or null if there's no history.
+   */
+  private buildHistoryContext(): string | null {
+    const messages = this.config.getHistoryMessages?.();
+    if (!messages || messages.length === 0) {
+      return null;
+    }
+
+    // Walk backwards so the latest exchanges are kept when the budget runs out
+    const MAX_HISTORY_CHARS = 40000;
+    const kept: RecoveryMessage[] = [];
+    let total = 0;
+    for (let i = messages.length - 1; i >= 0; i--) {
+      const size = Math.min(messages[i]!.content.length, 4000);
+      if (total + size > MAX_HISTORY_CHARS) break;
+      kept.unshift(messages[i]!);
+      total += size;
+    }
+    if (kept.length === 0) {
+      return null;
+    }
+
+    const omitted = messages.length - kept.length;
+    const omittedNote = omitted > 0 ? `\n(${omitted} earlier messages omitted)\n` : '';
+
+    return `<conversation_history>
+This conversation continues from earlier messages that are not in your context. Here is the conversation so far:
+${omittedNote}
+${this.formatConversation(kept, 4000)}
+
+Treat this as the prior conversation and respond to the next message accordingly.
+</conversation_history>
+
+`;
+  }
+
+  /**
+   * Format messages as a conversation block the agent can understand.
+   * Each message is truncated to maxChars.
+   */
+  private formatConversation(messages: RecoveryMessage[], maxChars: number): string {
+    return messages.map(m => {
+      const role = m.type === 'user' ? 'User' : 'Assistant';
+      const content = m.content.length > maxChars
+        ? m.content.slice(0, maxChars) + '...[truncated]'
+        : m.content;
+      return `[${role}]: ${content}`;
+    }).join('\n\n');
+  }
+
   /**
    * Build a simple text prompt with embedded text file contents (for text-only messages)
    * Prepends date/time context for prompt caching optimization (keeps system prompt static)
@@ -3036,6 +3463,50 @@ Please continue the conversation naturally from where we left off.
     // Note: Model change takes effect on the next query
   }
 
+  /**
+   * Select the session's provider profile (undefined = workspace/global default).
+   * Takes effect on the next turn.
+   */
+  setProviderProfile(profileId: string | undefined): void {
+    this.config.providerProfileId = profileId;
+  }
+
+  /**
+   * Provider profile the current query runs on: the turn's fallback profile if the
+   * turn moved down the fallback chain, else session > workspace > global default.
+   * null = legacy connection.
+   */
+  private getActiveProviderProfile(): ProviderProfile | null {
+    if (this.fallbackProfile) return this.fallbackProfile;
+    const workspaceProfileId = loadWorkspaceConfig(this.workspaceRootPath)?.defaults?.providerProfileId;
+    return resolveProviderProfile(this.config.providerProfileId, workspaceProfileId);
+  }
+
+  /**
+   * Move the current turn to the next untried profile of the fallback chain.
+   * Profiles without credentials are skipped.
+   * @returns The profile the turn continues with, or null if the chain is exhausted
+   */
+  private async prepareProviderFallback(): Promise<ProviderProfile | null> {
+    // The failing connection counts as tried (the legacy connection has no ID)
+    const current = this.getActiveProviderProfile();
+    if (current && !this.triedProviderProfiles.includes(current.id)) {
+      this.triedProviderProfiles.push(current.id);
+    }
+
+    for (let next = getNextFallbackProfile(this.triedProviderProfiles); next; next = getNextFallbackProfile(this.triedProviderProfiles)) {
+      this.triedProviderProfiles.push(next.id);
+      if (await getProviderProfileEnv(next)) {
+        debug(`[chat] Provider fallback: ${current?.id ?? 'legacy'} -> ${next.id}`);
+        this.fallbackProfile = next;
+        this.continuingWithFallback = true;
+        return next;
+      }
+      debug(`[chat] Provider fallback: skipping ${next.id} (no credentials)`);
+    }
+    return null;
+  }
+
   getWorkspace(): Workspace {
     return this.config.workspace;
   }
@@ -3072,14 +3543,17 @@ Please continue the conversation naturally from where we left off.
    * @param apiServers In-process MCP servers for REST APIs
    * @param intendedSlugs Optional list of source slugs that should be considered active
    *                      (what the UI shows as active, even if build failed)
+   * @param disabledTools SDK names of tools disabled in the sources' configs
    */
   setSourceServers(
     mcpServers: Record<string, SdkMcpServerConfig>,
     apiServers: Record<string, ReturnType<typeof createSdkMcpServer>>,
-    intendedSlugs?: string[]
+    intendedSlugs?: string[],
+    disabledTools: string[] = []
   ): void {
     this.sourceMcpServers = mcpServers;
     this.sourceApiServers = apiServers;
+    this.sourceDisabledTools = disabledTools;
 
     // Update the set of active source server names for tool blocking
     this.activeSourceServerNames = new Set([
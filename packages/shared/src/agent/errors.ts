@@ -21,6 +21,7 @@ export type ErrorCode =
   | 'invalid_model'          // Model ID not found
   | 'data_policy_error'      // OpenRouter data policy restriction
   | 'invalid_request'        // API rejected the request (e.g., bad image, invalid content)
+  | 'budget_exceeded'        // Workspace/session cost budget hard limit reached
   | 'unknown_error';
 
 export interface RecoveryAction {
@@ -31,7 +32,7 @@ export interface RecoveryAction {
   /** Slash command to execute (e.g., '/settings') */
   command?: string;
   /** Custom action type for special handling */
-  action?: 'retry' | 'settings' | 'reauth';
+  action?: 'retry' | 'settings' | 'reauth' | 'raise_budget';
 }
 
 export interface AgentError {
@@ -183,6 +184,14 @@ const ERROR_DEFINITIONS: Record<ErrorCode, Omit<AgentError, 'code' | 'originalEr
     ],
     canRetry: true,
   },
+  budget_exceeded: {
+    title: 'Budget Exceeded',
+    message: 'A spending limit for this workspace has been reached.',
+    actions: [
+      { key: 'b', label: 'Raise budget', command: '/settings', action: 'raise_budget' },
+    ],
+    canRetry: false,
+  },
   unknown_error: {
     title: 'Error',
     message: 'An unexpected error occurred.',
@@ -304,6 +313,30 @@ export function parseError(error: unknown): AgentError {
   };
 }
 
+/**
+ * Build the typed error emitted when a budget hard limit blocks a turn
+ * @param message - Describes which limit was reached (see formatBudgetStatus)
+ */
+export function createBudgetExceededError(message: string): AgentError {
+  return {
+    code: 'budget_exceeded',
+    ...ERROR_DEFINITIONS.budget_exceeded,
+    message,
+  };
+}
+
+/**
+ * Build the typed error emitted when the selected provider profile has no usable credentials
+ * @param profileName - Display name of the profile
+ */
+export function createProviderProfileCredentialsError(profileName: string): AgentError {
+  return {
+    code: 'invalid_credentials',
+    ...ERROR_DEFINITIONS.invalid_credentials,
+    message: `The provider profile "${profileName}" has no credentials. Add an API key (or sign in) in Settings.`,
+  };
+}
+
 /**
  * Check if an error is a billing/auth error that blocks usage
  */
@@ -318,6 +351,27 @@ export function canAutoRetry(error: AgentError): boolean {
   return error.canRetry && error.retryDelayMs !== undefined;
 }
 
+/**
+ * Check if an error means the model provider is rate limiting or unavailable,
+ * so the turn can continue with another provider profile (fallback chain).
+ * Credential, billing and request errors are not outages - another provider
+ * wouldn't fix them, or they need the user's attention.
+ */
+export function isProviderOutage(error: AgentError): boolean {
+  return canAutoRetry(error) &&
+    (error.code === 'rate_limited' || error.code === 'service_error' || error.code === 'service_unavailable');
+}
+
+/**
+ * Check if a failed query can continue with the next provider profile.
+ * Only outages, and only before the model produced any output: the fallback
+ * re-sends the user message, so after a mid-turn failure the model would repeat
+ * text and tool calls (file writes, API mutations) that already ran.
+ */
+export function canFallBackToNextProvider(error: AgentError, receivedAssistantContent: boolean): boolean {
+  return !receivedAssistantContent && isProviderOutage(error);
+}
+
 /**
  * Parse SDK error text and return a typed AgentError if detected.
  *
@@ -92,9 +92,24 @@ export {
   getAppPermissionsDir,
   ensureDefaultPermissions,
   loadDefaultPermissions,
+  // "Always allow" rules saved from Ask mode prompts
+  getAppAlwaysAllowPath,
+  loadAppAlwaysAllowRules,
+  getAlwaysAllowRulesPath,
+  createAlwaysAllowRule,
+  getBashAlwaysAllowValue,
+  addAlwaysAllowRule,
+  removeAlwaysAllowRule,
+  findAlwaysAllowRule,
+  canAlwaysAllowNetworkCommand,
+  findNetworkCommandAlwaysAllowRule,
+  isBashCommandAlwaysAllowed,
   // Cache singleton
   permissionsConfigCache,
   // Types
+  type AlwaysAllowRule,
+  type AlwaysAllowRuleType,
+  type AlwaysAllowScope,
   type ApiEndpointRule,
   type CompiledApiEndpointRule,
   type PermissionsCustomConfig,
@@ -103,5 +118,27 @@ export {
   type PermissionsContext,
 } from './permissions-config.ts';
 
+// Export permission-audit - append-only log of permission decisions (permission-audit.jsonl)
+export {
+  PERMISSION_AUDIT_FILE,
+  getSessionPermissionAuditPath,
+  getWorkspacePermissionAuditPath,
+  summarizeToolInput,
+  appendPermissionAuditEntry,
+  readPermissionAuditLog,
+  loadSessionPermissionAudit,
+  loadWorkspacePermissionAudit,
+  type PermissionAuditEntry,
+  type PermissionAuditDecision,
+} from './permission-audit.ts';
+
+// Export bash-sandbox - bubblewrap sandbox for agent Bash commands
+export {
+  findSandboxExecutable,
+  buildSandboxedCommand,
+  quoteShellArg,
+  type SandboxOptions,
+} from './bash-sandbox.ts';
+
 // Export LLM tool - secondary Claude calls for subtasks
 export { createLLMTool, type LLMToolOptions } from './llm-tool.ts';
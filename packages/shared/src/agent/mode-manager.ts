@@ -13,10 +13,15 @@
 /// <reference path="../types/incr-regex-package.d.ts" />
 
 import { homedir } from 'os';
+import { existsSync, realpathSync } from 'fs';
+import { dirname, join, relative, resolve } from 'path';
 import { debug } from '../utils/debug.ts';
+import { getOpenApiCallTarget } from '../sources/openapi.ts';
+import { getLocalSourceToolAccess } from '../sources/local-source-tools.ts';
 import type { PermissionsContext, MergedPermissionsConfig } from './permissions-config.ts';
 import {
   validateBashCommand,
+  findDeniedCommand,
   hasControlCharacters,
   type BashValidationResult,
   type BashValidationReason,
@@ -100,6 +105,26 @@ function globToRegex(pattern: string): RegExp {
   return new RegExp(`^${regex}$`);
 }
 
+/**
+ * Paths a deny rule is checked against: the path with ~ expanded and ./.. resolved,
+ * and the same path with symlinks resolved up to its nearest existing parent.
+ * Neither "/tmp/../etc/hosts" nor a link into a denied folder gets past the rule.
+ */
+function getDenyCheckPaths(filePath: string): string[] {
+  const resolved = resolve(expandHome(filePath));
+  let existing = resolved;
+  while (!existsSync(existing) && dirname(existing) !== existing) {
+    existing = dirname(existing);
+  }
+  try {
+    const real = join(realpathSync(existing), relative(existing, resolved));
+    return real === resolved ? [resolved] : [resolved, real];
+  } catch (e) {
+    debug(`[Mode] Could not resolve symlinks in "${resolved}":`, e);
+    return [resolved];
+  }
+}
+
 /**
  * Check if a path matches any of the allowed write path patterns
  */
@@ -440,7 +465,9 @@ export type BashRejectionReason =
   | { type: 'command_expansion'; explanation: string }
   | { type: 'process_substitution'; explanation: string }
   | { type: 'unsafe_command'; command: string; explanation: string }
-  | { type: 'compound_partial_fail'; failedCommands: string[]; passedCommands: string[] };
+  | { type: 'compound_partial_fail'; failedCommands: string[]; passedCommands: string[] }
+  // Matched a deniedBashPatterns rule (blocked in every mode)
+  | { type: 'denied'; command: string; pattern: RelevantPatternInfo };
 
 /**
  * Human-readable explanations for control characters.
@@ -724,6 +751,12 @@ function generateMismatchSuggestion(
 export function getBashRejectionReason(command: string, config: ToolCheckConfig): BashRejectionReason | null {
   const trimmedCommand = command.trim();
 
+  // Step 0: Deny rules take precedence over the read-only allowlist
+  const denial = getBashDenyReason(trimmedCommand, config);
+  if (denial) {
+    return denial;
+  }
+
   // Step 1: Check for dangerous control characters (before parsing)
   // These could affect parsing itself, so check first
   const controlChar = hasControlCharacters(trimmedCommand);
@@ -826,6 +859,41 @@ export function getBashRejectionReason(command: string, config: ToolCheckConfig)
   };
 }
 
+/**
+ * Check a Bash command against deny rules (deniedBashPatterns).
+ * Returns a 'denied' rejection if any command in it matches, null otherwise.
+ * Applies in every permission mode.
+ */
+export function getBashDenyReason(command: string, config: ToolCheckConfig): BashRejectionReason | null {
+  const match = findDeniedCommand(command, config.deniedBashPatterns ?? []);
+  if (!match) {
+    return null;
+  }
+  debug(`[Mode] Bash command denied by pattern ${match.pattern.source}: ${match.command}`);
+  return {
+    type: 'denied',
+    command: match.command,
+    pattern: { source: match.pattern.source, comment: match.pattern.comment },
+  };
+}
+
+/**
+ * Format where deny rules are configured, for deny rule rejection messages.
+ */
+function formatDenyGuidance(config: ToolCheckConfig): string {
+  if (!config.permissionPaths) {
+    return '';
+  }
+  return `\nDeny rules apply in every permission mode. They are configured in ${config.permissionPaths.workspacePath} (or a source's permissions.json).`;
+}
+
+/**
+ * Format a deny rule match (pattern and optional comment) for rejection messages.
+ */
+function formatDeniedRule(source: string, comment?: string): string {
+  return comment ? `\`${source}\` (${comment})` : `\`${source}\``;
+}
+
 /**
  * Format actionable guidance for permission customization.
  * Tells the agent where to read/modify permissions.
@@ -857,6 +925,10 @@ export function formatBashRejectionMessage(reason: BashRejectionReason, config:
   const permissionGuidance = formatPermissionGuidance(config);
 
   switch (reason.type) {
+    case 'denied':
+      // Switching modes doesn't help - deny rules apply everywhere
+      return `Bash command blocked: \`${reason.command}\` matches deny rule ${formatDeniedRule(reason.pattern.source, reason.pattern.comment)}. Do not retry this command or work around the rule; ask the user if it is needed.${formatDenyGuidance(config)}`;
+
     case 'control_char':
       return `Bash command blocked: contains "${reason.char}" character. ${reason.explanation}. ${modeSwitchHint}`;
 
@@ -1022,10 +1094,10 @@ export function isReadOnlyBashCommand(command: string): boolean {
 }
 
 /**
- * Check if an MCP tool is read-only using the given config
+ * Find the read-only pattern an MCP tool matches using the given config
  */
-function isReadOnlyMcpToolWithConfig(toolName: string, config: ToolCheckConfig): boolean {
-  return config.readOnlyMcpPatterns.some(pattern => pattern.test(toolName));
+function findReadOnlyMcpPattern(toolName: string, config: ToolCheckConfig): RegExp | undefined {
+  return config.readOnlyMcpPatterns.find(pattern => pattern.test(toolName));
 }
 
 /**
@@ -1050,6 +1122,21 @@ function isApiCallAllowedWithConfig(method: string, path: string | undefined, co
   return false;
 }
 
+/**
+ * Get the HTTP method and path of an API tool call.
+ * Typed OpenAPI operation tools take them from their operation; the flexible
+ * api_<name> tool takes them from its { method, path } input.
+ */
+export function getApiCallTarget(toolName: string, toolInput: unknown): { method: string; path: string | undefined } {
+  const operation = getOpenApiCallTarget(toolName, toolInput);
+  if (operation) return operation;
+  const input = toolInput as Record<string, unknown> | null;
+  return {
+    method: ((input?.method as string) || 'GET').toUpperCase(),
+    path: input?.path as string | undefined,
+  };
+}
+
 /**
  * Check if an API endpoint is allowed based on permissions context.
  * Used in 'ask' mode to auto-allow whitelisted API endpoints from permissions.json.
@@ -1077,6 +1164,66 @@ export function isApiEndpointAllowed(
   return isApiCallAllowedWithConfig(method, path, config);
 }
 
+/**
+ * Check a tool call against deny rules (deniedBashPatterns, deniedWritePaths,
+ * deniedMcpPatterns, deniedApiEndpoints).
+ * Returns the rejection message and the matching rule if denied, null otherwise.
+ */
+function getDenyRuleReason(
+  toolName: string,
+  toolInput: unknown,
+  config: ToolCheckConfig
+): { reason: string; rule: string } | null {
+  const input = toolInput as Record<string, unknown> | null;
+
+  if (toolName === 'Bash') {
+    const command = input?.command;
+    if (typeof command !== 'string') return null;
+    const denial = getBashDenyReason(command, config);
+    if (denial?.type !== 'denied') return null;
+    return { reason: formatBashRejectionMessage(denial, config), rule: denial.pattern.source };
+  }
+
+  if (toolName === 'Write' || toolName === 'Edit' || toolName === 'MultiEdit' || toolName === 'NotebookEdit' || NOTE_CREATION_TOOL_PATTERN.test(toolName)) {
+    const filePath = (input?.file_path ?? input?.notebook_path) as string | undefined;
+    if (!filePath) return null;
+    const checkPaths = getDenyCheckPaths(filePath);
+    const rule = config.deniedWritePaths?.find(entry => checkPaths.some(path => matchesAllowedWritePath(path, [entry.pattern])));
+    if (!rule) return null;
+    return {
+      reason: `${toolName} to ${filePath} blocked: path matches deny rule ${formatDeniedRule(rule.pattern, rule.comment)}.${formatDenyGuidance(config)}`,
+      rule: rule.pattern,
+    };
+  }
+
+  // API tools, either direct (api_<name>) or exposed via MCP (mcp__<source>__api_<name>)
+  if (toolName.startsWith('api_') || (toolName.startsWith('mcp__') && toolName.includes('__api_'))) {
+    const { method, path } = getApiCallTarget(toolName, input);
+    const rule = path !== undefined
+      ? config.deniedApiEndpoints?.find(r => r.method === method && r.pathPattern.test(path))
+      : undefined;
+    if (rule) {
+      const source = `${rule.method} ${rule.source ?? rule.pathPattern.source}`;
+      return {
+        reason: `API ${method} ${path} blocked: matches deny rule ${formatDeniedRule(source, rule.comment)}.${formatDenyGuidance(config)}`,
+        rule: source,
+      };
+    }
+  }
+
+  if (toolName.startsWith('mcp__')) {
+    const rule = config.deniedMcpPatterns?.find(pattern => pattern.regex.test(toolName));
+    if (rule) {
+      return {
+        reason: `MCP tool ${toolName} blocked: matches deny rule ${formatDeniedRule(rule.source, rule.comment)}.${formatDenyGuidance(config)}`,
+        rule: rule.source,
+      };
+    }
+  }
+
+  return null;
+}
+
 /**
  * Tools that are always allowed in any mode (read-only by nature)
  */
@@ -1090,12 +1237,24 @@ const ALWAYS_ALLOWED_TOOLS = new Set([
 ]);
 
 /**
- * Result type for tool permission checks
+ * Note creation tool of local Obsidian sources. It writes a file, so deny rules
+ * apply to any tool with this name; allowedWritePaths only let it through in
+ * Explore mode when a vault source's server registered it.
+ */
+const NOTE_CREATION_TOOL_PATTERN = /^mcp__.+__vault_create_note$/;
+
+function isLocalNoteCreationTool(toolName: string): boolean {
+  return NOTE_CREATION_TOOL_PATTERN.test(toolName) && getLocalSourceToolAccess(toolName) === 'write';
+}
+
+/**
+ * Result type for tool permission checks.
+ * `rule` is the source of the pattern that decided, when one did (for the audit log).
  */
 export type ToolCheckResult =
-  | { allowed: true; requiresPermission?: false }
-  | { allowed: true; requiresPermission: true; description: string }
-  | { allowed: false; reason: string };
+  | { allowed: true; requiresPermission?: false; rule?: string }
+  | { allowed: true; requiresPermission: true; description: string; rule?: string }
+  | { allowed: false; reason: string; rule?: string };
 
 /**
  * Centralized check: should a tool be allowed based on permission mode?
@@ -1105,6 +1264,8 @@ export type ToolCheckResult =
  * - 'safe': Block writes entirely (no prompting)
  * - 'ask': Allow but may require permission for dangerous operations
  * - 'allow-all': Allow everything
+ *
+ * Deny rules from permissions.json are checked first and block in every mode.
  */
 export function shouldAllowToolInMode(
   toolName: string,
@@ -1126,6 +1287,12 @@ export function shouldAllowToolInMode(
     config = SAFE_MODE_CONFIG;
   }
 
+  // Deny rules take precedence over every mode and every allow rule
+  const denial = getDenyRuleReason(toolName, toolInput, config);
+  if (denial) {
+    return { allowed: false, reason: denial.reason, rule: denial.rule };
+  }
+
   // In 'allow-all' mode, all tools are allowed (no restrictions)
   if (mode === 'allow-all') {
     return { allowed: true };
@@ -1159,7 +1326,8 @@ export function shouldAllowToolInMode(
       const rejection = getBashRejectionReason(command, config);
       if (!rejection) {
         // Command is safe - no rejection reason means it passed all checks
-        return { allowed: true };
+        const pattern = config.readOnlyBashPatterns.find(p => p.regex.test(command.trim()));
+        return { allowed: true, rule: pattern?.source };
       }
       // Return detailed error message explaining exactly why the command was blocked
       return {
@@ -1174,8 +1342,8 @@ export function shouldAllowToolInMode(
     };
   }
 
-  // Handle Write/Edit/MultiEdit/NotebookEdit - allow if targeting plans folder or allowedWritePaths
-  if (toolName === 'Write' || toolName === 'Edit' || toolName === 'MultiEdit' || toolName === 'NotebookEdit') {
+  // Handle Write/Edit/MultiEdit/NotebookEdit and vault note creation - allow if targeting plans folder or allowedWritePaths
+  if (toolName === 'Write' || toolName === 'Edit' || toolName === 'MultiEdit' || toolName === 'NotebookEdit' || isLocalNoteCreationTool(toolName)) {
     const input = toolInput as Record<string, unknown> | null;
     const filePath = (input?.file_path ?? input?.notebook_path) as string | undefined;
 
@@ -1194,9 +1362,10 @@ export function shouldAllowToolInMode(
 
       // Check allowedWritePaths from permissions config
       if (config.allowedWritePaths && config.allowedWritePaths.length > 0) {
-        if (matchesAllowedWritePath(filePath, config.allowedWritePaths)) {
+        const pattern = config.allowedWritePaths.find(p => matchesAllowedWritePath(filePath, [p]));
+        if (pattern) {
           debug(`[Mode] Allowing ${toolName} via allowedWritePaths`);
-          return { allowed: true };
+          return { allowed: true, rule: pattern };
         }
       }
     }
@@ -1243,9 +1412,7 @@ export function shouldAllowToolInMode(
     // Handle API tools exposed via MCP (mcp__<source>__api_<name>)
     // These need endpoint-level permission checks, not just MCP read-only patterns
     if (toolName.includes('__api_')) {
-      const input = toolInput as Record<string, unknown> | null;
-      const method = (input?.method as string) || 'GET';
-      const path = input?.path as string | undefined;
+      const { method, path } = getApiCallTarget(toolName, toolInput);
       if (isApiCallAllowedWithConfig(method, path, config)) {
         return { allowed: true };
       }
@@ -1255,9 +1422,44 @@ export function shouldAllowToolInMode(
       };
     }
 
-    if (isReadOnlyMcpToolWithConfig(toolName, config)) {
+    // Handle SQLite tools of local database sources (mcp__<source>__sqlite_<tool>)
+    // Schema and queries run on a read-only connection; sqlite_execute writes.
+    // Only tools registered by a local source server are trusted - same-named
+    // tools of other MCP servers fall through to the read-only MCP patterns
+    const localToolAccess = getLocalSourceToolAccess(toolName);
+    if (toolName.includes('__sqlite_') && localToolAccess) {
+      if (localToolAccess === 'read') {
+        return { allowed: true };
+      }
+      return {
+        allowed: false,
+        reason: `Database writes are blocked in ${config.displayName}. Use sqlite_query for read-only queries, or switch to Ask or Allow All mode (${config.shortcutHint}) to make changes.`
+      };
+    }
+
+    // Handle git tools of local repository sources (mcp__<source>__git_<tool>)
+    // All of them only read history - nothing checks out, commits or pushes.
+    // Registered by the source's server, like the SQLite tools above
+    if (toolName.includes('__git_') && localToolAccess === 'read') {
       return { allowed: true };
     }
+
+    // Handle vault tools of Obsidian sources (mcp__<source>__vault_<tool>), registered by the source's server.
+    // Note creation only reaches here when allowedWritePaths did not match
+    if (toolName.includes('__vault_') && localToolAccess === 'read') {
+      return { allowed: true };
+    }
+    if (isLocalNoteCreationTool(toolName)) {
+      return {
+        allowed: false,
+        reason: `Creating notes is blocked in ${config.displayName} outside allowedWritePaths. Add the folder to allowedWritePaths in permissions.json, or switch to Ask or Allow All mode (${config.shortcutHint}).`
+      };
+    }
+
+    const readOnlyPattern = findReadOnlyMcpPattern(toolName, config);
+    if (readOnlyPattern) {
+      return { allowed: true, rule: readOnlyPattern.source };
+    }
     return {
       allowed: false,
       reason: `MCP write operations are blocked in ${config.displayName}. Switch to Ask or Allow All mode (${config.shortcutHint}) to make changes.`
@@ -1266,9 +1468,7 @@ export function shouldAllowToolInMode(
 
   // Handle API tools - allow GET, block mutations unless endpoint is whitelisted
   if (toolName.startsWith('api_')) {
-    const input = toolInput as Record<string, unknown> | null;
-    const method = (input?.method as string) || 'GET';
-    const path = input?.path as string | undefined;
+    const { method, path } = getApiCallTarget(toolName, toolInput);
     if (isApiCallAllowedWithConfig(method, path, config)) {
       return { allowed: true };
     }
@@ -52,6 +52,28 @@ const PatternSchema = z.union([
   }),
 ]);
 
+/**
+ * "Always allow" rule saved from a permission prompt in Ask mode.
+ * The pattern is a regex matched against the bash command, the host of a
+ * curl/wget URL, the tool name, or "{tool} {METHOD} {path}" for API calls.
+ */
+const AlwaysAllowRuleSchema = z.object({
+  type: z.enum(['bash', 'domain', 'tool', 'api']),
+  pattern: z.string().describe('Regex pattern for the command, domain, tool name or API call'),
+  comment: z.string().optional(),
+});
+
+export type AlwaysAllowRule = z.infer<typeof AlwaysAllowRuleSchema>;
+export type AlwaysAllowRuleType = AlwaysAllowRule['type'];
+
+/**
+ * How long an "always allow" decision is remembered:
+ * - 'session': until the session ends (in memory only)
+ * - 'workspace': saved to the workspace permissions.json
+ * - 'global': saved to ~/.craft-agent/permissions/always-allow.json (all workspaces)
+ */
+export type AlwaysAllowScope = 'session' | 'workspace' | 'global';
+
 /**
  * Permissions JSON configuration schema
  *
@@ -70,6 +92,16 @@ export const PermissionsConfigSchema = z.object({
   allowedWritePaths: z.array(PatternSchema).optional(),
   /** Additional tools to block (extends the hardcoded defaults) */
   blockedTools: z.array(PatternSchema).optional(),
+  /** Bash command patterns to block in every mode (regex strings, matched against each command) */
+  deniedBashPatterns: z.array(PatternSchema).optional(),
+  /** MCP tool patterns to block in every mode (regex strings) */
+  deniedMcpPatterns: z.array(PatternSchema).optional(),
+  /** API endpoint rules to block in every mode - method + path pattern */
+  deniedApiEndpoints: z.array(ApiEndpointRuleSchema).optional(),
+  /** File paths where writes are blocked in every mode (glob patterns) */
+  deniedWritePaths: z.array(PatternSchema).optional(),
+  /** Operations approved with "Always Allow" - Ask mode only, never applied in Explore mode */
+  alwaysAllow: z.array(AlwaysAllowRuleSchema).optional(),
 });
 
 export type PermissionsConfigFile = z.infer<typeof PermissionsConfigSchema>;
@@ -84,6 +116,9 @@ export type PermissionsConfigFile = z.infer<typeof PermissionsConfigSchema>;
 export interface CompiledApiEndpointRule {
   method: string;
   pathPattern: RegExp;
+  /** Original path pattern and comment (kept for deny rule messages) */
+  source?: string;
+  comment?: string;
 }
 
 /**
@@ -100,6 +135,29 @@ export interface CompiledBashPattern {
   comment?: string;
 }
 
+/**
+ * Compiled deny rule for MCP tool names.
+ * Keeps the original pattern and comment for rejection messages.
+ */
+export interface CompiledDenyPattern {
+  regex: RegExp;
+  /** Original pattern string */
+  source: string;
+  comment?: string;
+}
+
+/**
+ * Compiled "always allow" rule, tagged with the file it was loaded from
+ */
+export interface CompiledAlwaysAllowRule {
+  type: AlwaysAllowRuleType;
+  regex: RegExp;
+  /** Original pattern string */
+  source: string;
+  comment?: string;
+  scope: Exclude<AlwaysAllowScope, 'session'>;
+}
+
 /**
  * Analysis of why a command didn't match a pattern.
  * Used by incr-regex-package to provide detailed diagnostics showing
@@ -148,6 +206,12 @@ export interface ModeConfig {
   allowedApiEndpoints: CompiledApiEndpointRule[];
   /** File paths allowed for writes in Explore mode (glob patterns) */
   allowedWritePaths?: string[];
+  /** Deny rules - block matching operations in every mode, before any allow rule */
+  deniedBashPatterns?: CompiledBashPattern[];
+  deniedMcpPatterns?: CompiledDenyPattern[];
+  deniedApiEndpoints?: CompiledApiEndpointRule[];
+  /** Glob patterns, matched like allowedWritePaths */
+  deniedWritePaths?: Array<{ pattern: string; comment?: string }>;
   /** User-friendly name */
   displayName: string;
   /** Keyboard shortcut hint */
@@ -156,6 +220,40 @@ export interface ModeConfig {
   permissionPaths?: PermissionPaths;
 }
 
+// ============================================================
+// Permission Audit Log (Browser-safe - pure types)
+// ============================================================
+
+/**
+ * Outcome of a permission decision:
+ * - 'allowed' / 'blocked': decided automatically by the mode and rules
+ * - 'approved' / 'denied': the user answered a permission prompt
+ */
+export type PermissionAuditDecision = 'allowed' | 'blocked' | 'approved' | 'denied';
+
+/** File name of the permission audit log, in both the session and the workspace folder */
+export const PERMISSION_AUDIT_FILE = 'permission-audit.jsonl';
+
+/**
+ * One line of a permission audit log (permission-audit.jsonl).
+ * Written for every tool call checked by the PreToolUse hook.
+ */
+export interface PermissionAuditEntry {
+  timestamp: number;
+  sessionId: string;
+  /** Permission mode active when the decision was made */
+  mode: PermissionMode;
+  toolName: string;
+  toolUseId?: string;
+  /** Short summary of the tool input (command, file path, endpoint...) */
+  input: string;
+  decision: PermissionAuditDecision;
+  /** Source of the rule that decided (pattern, glob or "METHOD path"), if any */
+  rule?: string;
+  /** Why the decision was made (e.g. "Read-only command", or the block message) */
+  reason?: string;
+}
+
 // ============================================================
 // Safe Mode Configuration (Browser-safe - pure data)
 // ============================================================
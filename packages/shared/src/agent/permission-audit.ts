@@ -0,0 +1,135 @@
+/**
+ * Permission Audit Log
+ *
+ * Append-only record of every permission decision made for tool calls:
+ * which mode was active, whether the call was allowed by a rule, prompted
+ * and approved/denied by the user, or blocked.
+ *
+ * Entries are written as JSONL to two files:
+ * - {session}/permission-audit.jsonl - decisions for one session
+ * - {workspace}/permission-audit.jsonl - all sessions in the workspace
+ *   (kept when a session is deleted)
+ */
+
+import { appendFileSync, existsSync, mkdirSync, readFileSync } from 'fs';
+import { join } from 'path';
+import { getSessionPath } from '../sessions/storage.ts';
+import { debug } from '../utils/debug.ts';
+import { PERMISSION_AUDIT_FILE, type PermissionAuditEntry } from './mode-types.ts';
+
+export { PERMISSION_AUDIT_FILE } from './mode-types.ts';
+export type { PermissionAuditEntry, PermissionAuditDecision } from './mode-types.ts';
+
+/** Maximum length of the input summary stored per entry */
+const MAX_INPUT_SUMMARY_LENGTH = 300;
+
+/** Maximum length of the reason stored per entry (block messages can be long) */
+const MAX_REASON_LENGTH = 500;
+
+/**
+ * Get path to a session's permission audit log
+ */
+export function getSessionPermissionAuditPath(workspaceRootPath: string, sessionId: string): string {
+  return join(getSessionPath(workspaceRootPath, sessionId), PERMISSION_AUDIT_FILE);
+}
+
+/**
+ * Get path to the workspace-wide permission audit log
+ */
+export function getWorkspacePermissionAuditPath(workspaceRootPath: string): string {
+  return join(workspaceRootPath, PERMISSION_AUDIT_FILE);
+}
+
+function truncate(text: string, maxLength: number): string {
+  return text.length > maxLength ? `${text.slice(0, maxLength - 1)}…` : text;
+}
+
+/**
+ * Summarize a tool input for the audit log: the command for Bash, the path for
+ * file tools, "METHOD path" for API calls, compact JSON otherwise.
+ */
+export function summarizeToolInput(toolName: string, toolInput: unknown): string {
+  const input = (toolInput ?? {}) as Record<string, unknown>;
+  let summary: string;
+
+  if (toolName === 'Bash' && typeof input.command === 'string') {
+    summary = input.command;
+  } else if (typeof input.file_path === 'string' || typeof input.notebook_path === 'string') {
+    summary = (input.file_path ?? input.notebook_path) as string;
+  } else if (typeof input.path === 'string' && typeof input.method === 'string') {
+    summary = `${input.method.toUpperCase()} ${input.path}`;
+  } else {
+    // Drop UI-only metadata fields added to MCP tool inputs
+    const { _intent, _displayName, ...rest } = input;
+    summary = JSON.stringify(rest) ?? '';
+  }
+
+  return truncate(summary.trim(), MAX_INPUT_SUMMARY_LENGTH);
+}
+
+/**
+ * Append a decision to the session and workspace audit logs.
+ * Never throws - failing to write the log must not block the tool call.
+ */
+export function appendPermissionAuditEntry(workspaceRootPath: string, entry: PermissionAuditEntry): void {
+  const stored: PermissionAuditEntry = entry.reason
+    ? { ...entry, reason: truncate(entry.reason, MAX_REASON_LENGTH) }
+    : entry;
+  const line = JSON.stringify(stored) + '\n';
+
+  try {
+    const sessionDir = getSessionPath(workspaceRootPath, entry.sessionId);
+    if (!existsSync(sessionDir)) {
+      mkdirSync(sessionDir, { recursive: true });
+    }
+    appendFileSync(join(sessionDir, PERMISSION_AUDIT_FILE), line);
+    appendFileSync(getWorkspacePermissionAuditPath(workspaceRootPath), line);
+  } catch (error) {
+    debug('[PermissionAudit] Failed to write audit entry:', error);
+  }
+}
+
+/**
+ * Read entries from an audit log file, oldest first.
+ * Lines that fail to parse (e.g. truncated by a crash) are skipped.
+ *
+ * @param limit - Only return the most recent entries
+ */
+export function readPermissionAuditLog(filePath: string, limit?: number): PermissionAuditEntry[] {
+  if (!existsSync(filePath)) return [];
+
+  const entries: PermissionAuditEntry[] = [];
+  try {
+    for (const line of readFileSync(filePath, 'utf-8').split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        entries.push(JSON.parse(line) as PermissionAuditEntry);
+      } catch {
+        // Skip corrupted line
+      }
+    }
+  } catch (error) {
+    debug('[PermissionAudit] Failed to read audit log:', filePath, error);
+    return [];
+  }
+
+  return limit !== undefined && entries.length > limit ? entries.slice(-limit) : entries;
+}
+
+/**
+ * Load the permission audit log of a session, oldest first
+ */
+export function loadSessionPermissionAudit(
+  workspaceRootPath: string,
+  sessionId: string,
+  limit?: number
+): PermissionAuditEntry[] {
+  return readPermissionAuditLog(getSessionPermissionAuditPath(workspaceRootPath, sessionId), limit);
+}
+
+/**
+ * Load the workspace-wide permission audit log (all sessions), oldest first
+ */
+export function loadWorkspacePermissionAudit(workspaceRootPath: string, limit?: number): PermissionAuditEntry[] {
+  return readPermissionAuditLog(getWorkspacePermissionAuditPath(workspaceRootPath), limit);
+}
@@ -8,22 +8,34 @@
  * - Workspace: ~/.craft-agent/workspaces/{slug}/permissions.json
  * - Per-source: ~/.craft-agent/workspaces/{slug}/sources/{sourceSlug}/permissions.json
  *
- * Rules are additive - custom configs extend the defaults (more permissive).
+ * Allow rules are additive - custom configs extend the defaults (more permissive).
+ * Deny rules (denied*) are also merged from every level, and block matching
+ * operations in every permission mode, taking precedence over all allow rules.
+ *
+ * "Always allow" decisions from Ask mode prompts are saved to the `alwaysAllow`
+ * list of the workspace permissions.json, or of ~/.craft-agent/permissions/always-allow.json
+ * for all workspaces. These only skip prompts in Ask mode; Explore mode ignores them.
  */
 
 import { existsSync, readFileSync, mkdirSync, writeFileSync } from 'fs';
-import { join } from 'path';
+import { dirname, join } from 'path';
 import { debug } from '../utils/debug.ts';
 import { CONFIG_DIR } from '../config/paths.ts';
 import { getBundledAssetsDir } from '../utils/paths.ts';
 import { getSourcePath } from '../sources/storage.ts';
+import { getSimpleCommandText, hasControlCharacters, validateBashCommand } from './bash-validator.ts';
 import {
   SAFE_MODE_CONFIG,
   PermissionsConfigSchema,
+  type AlwaysAllowRule,
+  type AlwaysAllowRuleType,
+  type AlwaysAllowScope,
   type ApiEndpointRule,
+  type CompiledAlwaysAllowRule,
   type PermissionsConfigFile,
   type CompiledApiEndpointRule,
   type CompiledBashPattern,
+  type CompiledDenyPattern,
   type PermissionPaths,
 } from './mode-types.ts';
 
@@ -109,13 +121,41 @@ export function loadDefaultPermissions(): PermissionsCustomConfig | null {
   }
 }
 
+/**
+ * Get path to the app-level "always allow" rules (apply to all workspaces).
+ * Kept separate from default.json, which is overwritten on every launch.
+ */
+export function getAppAlwaysAllowPath(): string {
+  return join(getAppPermissionsDir(), 'always-allow.json');
+}
+
+/**
+ * Load app-level "always allow" rules from ~/.craft-agent/permissions/always-allow.json
+ */
+export function loadAppAlwaysAllowRules(): AlwaysAllowRule[] {
+  const path = getAppAlwaysAllowPath();
+  if (!existsSync(path)) return [];
+
+  try {
+    return parsePermissionsJson(readFileSync(path, 'utf-8')).alwaysAllow;
+  } catch (error) {
+    debug('[Permissions] Error loading always-allow rules:', error);
+    return [];
+  }
+}
+
 // Re-export types from mode-types for external consumers
 export {
   PermissionsConfigSchema,
+  type AlwaysAllowRule,
+  type AlwaysAllowRuleType,
+  type AlwaysAllowScope,
   type ApiEndpointRule,
+  type CompiledAlwaysAllowRule,
   type PermissionsConfigFile,
   type CompiledApiEndpointRule,
   type CompiledBashPattern,
+  type CompiledDenyPattern,
   type PermissionPaths,
 };
 
@@ -148,6 +188,16 @@ export interface PermissionsCustomConfig {
   allowedApiEndpoints: ApiEndpointRule[];
   /** File paths to allow writes in Explore mode (glob pattern strings) */
   allowedWritePaths: string[];
+  /** Operations approved with "Always Allow" in Ask mode */
+  alwaysAllow: AlwaysAllowRule[];
+  /** Bash patterns blocked in every mode */
+  deniedBashPatterns: PatternWithComment[];
+  /** MCP tool patterns blocked in every mode */
+  deniedMcpPatterns: PatternWithComment[];
+  /** API endpoint rules blocked in every mode */
+  deniedApiEndpoints: ApiEndpointRule[];
+  /** File paths where writes are blocked in every mode (glob patterns) */
+  deniedWritePaths: PatternWithComment[];
 }
 
 /**
@@ -163,6 +213,13 @@ export interface MergedPermissionsConfig {
   allowedApiEndpoints: CompiledApiEndpointRule[];
   /** File paths allowed for writes in Explore mode (glob patterns) */
   allowedWritePaths: string[];
+  /** "Always allow" rules from the workspace and app-level files (Ask mode only) */
+  alwaysAllowRules: CompiledAlwaysAllowRule[];
+  /** Deny rules from all levels - checked before any allow rule, in every mode */
+  deniedBashPatterns: CompiledBashPattern[];
+  deniedMcpPatterns: CompiledDenyPattern[];
+  deniedApiEndpoints: CompiledApiEndpointRule[];
+  deniedWritePaths: PatternWithComment[];
   /** Display name for error messages */
   displayName: string;
   /** Keyboard shortcut hint */
@@ -193,6 +250,11 @@ export function parsePermissionsJson(content: string): PermissionsCustomConfig {
     allowedMcpPatterns: [],
     allowedApiEndpoints: [],
     allowedWritePaths: [],
+    alwaysAllow: [],
+    deniedBashPatterns: [],
+    deniedMcpPatterns: [],
+    deniedApiEndpoints: [],
+    deniedWritePaths: [],
   };
 
   try {
@@ -216,7 +278,7 @@ export function parsePermissionsJson(content: string): PermissionsCustomConfig {
       return patterns.map(p => typeof p === 'string' ? p : p.pattern);
     };
 
-    // For bash patterns, preserve comments for helpful error messages
+    // For bash and deny patterns, preserve comments for helpful error messages
     const normalizeBashPatterns = (patterns: Array<string | { pattern: string; comment?: string }> | undefined): PatternWithComment[] => {
       if (!patterns) return [];
       return patterns.map(p => {
@@ -232,6 +294,11 @@ export function parsePermissionsJson(content: string): PermissionsCustomConfig {
       allowedMcpPatterns: normalizePatterns(data.allowedMcpPatterns),
       allowedApiEndpoints: data.allowedApiEndpoints ?? [],
       allowedWritePaths: normalizePatterns(data.allowedWritePaths),
+      alwaysAllow: data.alwaysAllow ?? [],
+      deniedBashPatterns: normalizeBashPatterns(data.deniedBashPatterns),
+      deniedMcpPatterns: normalizeBashPatterns(data.deniedMcpPatterns),
+      deniedApiEndpoints: data.deniedApiEndpoints ?? [],
+      deniedWritePaths: normalizeBashPatterns(data.deniedWritePaths),
     };
   } catch (error) {
     debug('[SafeMode] JSON parse error:', error);
@@ -271,16 +338,23 @@ export function validatePermissionsConfig(config: PermissionsConfigFile): string
 
   checkPatterns(config.allowedBashPatterns, 'allowedBashPatterns');
   checkPatterns(config.allowedMcpPatterns, 'allowedMcpPatterns');
+  checkPatterns(config.alwaysAllow, 'alwaysAllow');
+  checkPatterns(config.deniedBashPatterns, 'deniedBashPatterns');
+  checkPatterns(config.deniedMcpPatterns, 'deniedMcpPatterns');
 
   // Validate API endpoint patterns
-  if (config.allowedApiEndpoints) {
-    for (let i = 0; i < config.allowedApiEndpoints.length; i++) {
-      const rule = config.allowedApiEndpoints[i];
+  const checkEndpoints = (rules: ApiEndpointRule[] | undefined, name: string) => {
+    if (!rules) return;
+    for (let i = 0; i < rules.length; i++) {
+      const rule = rules[i];
       if (rule && !validateRegex(rule.path)) {
-        errors.push(`allowedApiEndpoints[${i}].path: Invalid regex pattern: ${rule.path}`);
+        errors.push(`${name}[${i}].path: Invalid regex pattern: ${rule.path}`);
       }
     }
-  }
+  };
+
+  checkEndpoints(config.allowedApiEndpoints, 'allowedApiEndpoints');
+  checkEndpoints(config.deniedApiEndpoints, 'deniedApiEndpoints');
 
   return errors;
 }
@@ -384,6 +458,8 @@ class PermissionsConfigCache {
 
   // App-level default permissions (loaded from ~/.craft-agent/permissions/default.json)
   private defaultConfig: PermissionsCustomConfig | null | undefined = undefined; // undefined = not loaded yet
+  // App-level "always allow" rules (loaded from ~/.craft-agent/permissions/always-allow.json)
+  private appAlwaysAllowRules: AlwaysAllowRule[] | undefined = undefined;
 
   /**
    * Get or load app-level default permissions
@@ -396,6 +472,16 @@ class PermissionsConfigCache {
     return this.defaultConfig;
   }
 
+  /**
+   * Get or load app-level "always allow" rules
+   */
+  private getAppAlwaysAllowRules(): AlwaysAllowRule[] {
+    if (this.appAlwaysAllowRules === undefined) {
+      this.appAlwaysAllowRules = loadAppAlwaysAllowRules();
+    }
+    return this.appAlwaysAllowRules;
+  }
+
   /**
    * Get or load workspace config
    */
@@ -418,12 +504,13 @@ class PermissionsConfigCache {
   }
 
   /**
-   * Invalidate app-level default permissions (called by ConfigWatcher)
+   * Invalidate app-level default permissions and "always allow" rules (called by ConfigWatcher)
    * This clears all merged configs since defaults affect everything
    */
   invalidateDefaults(): void {
     debug('[Permissions] Invalidating app-level default permissions');
     this.defaultConfig = undefined;
+    this.appAlwaysAllowRules = undefined;
     // Clear ALL merged configs since defaults affect everything
     this.mergedConfigs.clear();
   }
@@ -494,6 +581,11 @@ class PermissionsConfigCache {
       readOnlyMcpPatterns: [...defaults.readOnlyMcpPatterns],
       allowedApiEndpoints: [],
       allowedWritePaths: [],
+      alwaysAllowRules: [],
+      deniedBashPatterns: [],
+      deniedMcpPatterns: [],
+      deniedApiEndpoints: [],
+      deniedWritePaths: [],
       displayName: defaults.displayName,
       shortcutHint: defaults.shortcutHint,
       // Add permission file paths for actionable error messages
@@ -517,6 +609,10 @@ class PermissionsConfigCache {
       this.applyCustomConfig(merged, wsConfig);
     }
 
+    // Add "always allow" rules (workspace first, then app-level)
+    this.applyAlwaysAllowRules(merged, wsConfig?.alwaysAllow ?? [], 'workspace');
+    this.applyAlwaysAllowRules(merged, this.getAppAlwaysAllowRules(), 'global');
+
     // Add source-level customizations (additive, with auto-scoped MCP patterns)
     if (context.activeSourceSlugs) {
       for (const sourceSlug of context.activeSourceSlugs) {
@@ -576,6 +672,8 @@ class PermissionsConfigCache {
     for (const pattern of config.allowedWritePaths) {
       merged.allowedWritePaths.push(pattern);
     }
+
+    this.applyDenyRules(merged, config);
   }
 
   private applyCustomConfig(merged: MergedPermissionsConfig, custom: PermissionsCustomConfig): void {
@@ -620,6 +718,8 @@ class PermissionsConfigCache {
     for (const pattern of custom.allowedWritePaths) {
       merged.allowedWritePaths.push(pattern);
     }
+
+    this.applyDenyRules(merged, custom);
   }
 
   /**
@@ -678,6 +778,65 @@ class PermissionsConfigCache {
         debug(`[Permissions] Invalid API endpoint path pattern, skipping: ${rule.path}`);
       }
     }
+
+    // Deny rules - MCP patterns are auto-scoped to this source like allowedMcpPatterns
+    this.applyDenyRules(merged, custom, sourceSlug);
+  }
+
+  /**
+   * Apply deny rules from any level. When sourceSlug is given, MCP patterns are
+   * scoped to that source's tools (mcp__<sourceSlug>__.*<pattern>).
+   */
+  private applyDenyRules(merged: MergedPermissionsConfig, config: PermissionsCustomConfig, sourceSlug?: string): void {
+    for (const patternEntry of config.deniedBashPatterns) {
+      const regex = validateRegex(patternEntry.pattern);
+      if (regex) {
+        merged.deniedBashPatterns.push({ regex, source: patternEntry.pattern, comment: patternEntry.comment });
+      } else {
+        debug(`[Permissions] Invalid denied bash pattern, skipping: ${patternEntry.pattern}`);
+      }
+    }
+
+    for (const patternEntry of config.deniedMcpPatterns) {
+      const pattern = sourceSlug ? `mcp__${sourceSlug}__.*${patternEntry.pattern}` : patternEntry.pattern;
+      const regex = validateRegex(pattern);
+      if (regex) {
+        merged.deniedMcpPatterns.push({ regex, source: pattern, comment: patternEntry.comment });
+      } else {
+        debug(`[Permissions] Invalid denied MCP pattern, skipping: ${pattern}`);
+      }
+    }
+
+    for (const rule of config.deniedApiEndpoints) {
+      const pathRegex = validateRegex(rule.path);
+      if (pathRegex) {
+        merged.deniedApiEndpoints.push({
+          method: rule.method,
+          pathPattern: pathRegex,
+          source: rule.path,
+          comment: rule.comment,
+        });
+      } else {
+        debug(`[Permissions] Invalid denied API endpoint path pattern, skipping: ${rule.path}`);
+      }
+    }
+
+    merged.deniedWritePaths.push(...config.deniedWritePaths);
+  }
+
+  private applyAlwaysAllowRules(
+    merged: MergedPermissionsConfig,
+    rules: AlwaysAllowRule[],
+    scope: CompiledAlwaysAllowRule['scope']
+  ): void {
+    for (const rule of rules) {
+      const regex = validateRegex(rule.pattern);
+      if (regex) {
+        merged.alwaysAllowRules.push({ type: rule.type, regex, source: rule.pattern, comment: rule.comment, scope });
+      } else {
+        debug(`[Permissions] Invalid always-allow pattern, skipping: ${rule.pattern}`);
+      }
+    }
   }
 
   private buildCacheKey(context: PermissionsContext): string {
@@ -690,6 +849,7 @@ class PermissionsConfigCache {
    */
   clear(): void {
     this.defaultConfig = undefined;
+    this.appAlwaysAllowRules = undefined;
     this.workspaceConfigs.clear();
     this.sourceConfigs.clear();
     this.mergedConfigs.clear();
@@ -698,3 +858,221 @@ class PermissionsConfigCache {
 
 // Singleton instance
 export const permissionsConfigCache = new PermissionsConfigCache();
+
+// ============================================================
+// Always Allow Rules
+// ============================================================
+
+/**
+ * Escape a string for literal use in a regex pattern
+ */
+export function escapeRegex(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Build an "always allow" rule for an approved operation.
+ *
+ * @param type - What the value is (bash command, domain, tool name or API call)
+ * @param value - The approved value, e.g. "git status -s", "api.github.com", "Write"
+ *
+ * Rules match the value exactly, so an approved bash command does not allow
+ * the same command with other arguments.
+ */
+export function createAlwaysAllowRule(type: AlwaysAllowRuleType, value: string, comment?: string): AlwaysAllowRule {
+  const pattern = `^${escapeRegex(value.trim())}$`;
+  return comment ? { type, pattern, comment } : { type, pattern };
+}
+
+/**
+ * Commands that run code or other commands given as arguments or read from files.
+ * Approving one invocation says nothing about the next, so they are never saved.
+ */
+const CODE_RUNNER_COMMANDS = new Set([
+  'sh', 'bash', 'zsh', 'dash', 'ksh', 'fish', 'csh', 'tcsh', 'pwsh', 'powershell',
+  'python', 'node', 'deno', 'bun', 'perl', 'ruby', 'php', 'lua', 'osascript', 'awk', 'gawk',
+  'npx', 'bunx', 'pnpx', 'env', 'xargs', 'find', 'parallel', 'eval', 'exec', 'source', '.',
+  'command', 'builtin', 'nohup', 'time', 'timeout', 'nice', 'watch', 'stdbuf', 'script',
+  'sudo', 'doas',
+]);
+
+/**
+ * Get the value to save as a workspace or global "always allow" rule for a bash command.
+ *
+ * Only single simple commands are saved, as the exact command text the validator
+ * matches. Chains, pipelines, expansions and interpreters/wrappers return null
+ * and can only be allowed for the session.
+ */
+export function getBashAlwaysAllowValue(command: string): string | null {
+  const text = hasControlCharacters(command) ? null : getSimpleCommandText(command);
+  if (!text) return null;
+
+  // "/usr/bin/python3.12" → "python"
+  const name = (text.split(' ')[0] ?? '').split('/').pop()!.replace(/[\d.]+$/, '');
+  return CODE_RUNNER_COMMANDS.has(name) ? null : text;
+}
+
+/**
+ * Get path to the file that stores "always allow" rules for a scope
+ */
+export function getAlwaysAllowRulesPath(scope: Exclude<AlwaysAllowScope, 'session'>, workspaceRootPath: string): string {
+  return scope === 'global' ? getAppAlwaysAllowPath() : getWorkspacePermissionsPath(workspaceRootPath);
+}
+
+/**
+ * Read a permissions file as raw JSON, keeping fields this module doesn't know about.
+ *
+ * @throws Error if the file exists but is not a JSON object
+ */
+function readRawPermissionsFile(path: string): PermissionsConfigFile & Record<string, unknown> {
+  if (!existsSync(path)) return {};
+  const json = JSON.parse(readFileSync(path, 'utf-8'));
+  if (!json || typeof json !== 'object' || Array.isArray(json)) {
+    throw new Error(`Invalid permissions file: ${path}`);
+  }
+  return json;
+}
+
+function invalidateScope(scope: Exclude<AlwaysAllowScope, 'session'>, workspaceRootPath: string): void {
+  if (scope === 'global') {
+    permissionsConfigCache.invalidateDefaults();
+  } else {
+    permissionsConfigCache.invalidateWorkspace(workspaceRootPath);
+  }
+}
+
+/**
+ * Save an "always allow" rule to the workspace permissions.json or the app-level file.
+ *
+ * @returns false if an identical rule was already saved
+ * @throws Error if the existing file cannot be parsed (it is left untouched)
+ */
+export function addAlwaysAllowRule(
+  scope: Exclude<AlwaysAllowScope, 'session'>,
+  workspaceRootPath: string,
+  rule: AlwaysAllowRule
+): boolean {
+  const path = getAlwaysAllowRulesPath(scope, workspaceRootPath);
+  const config = readRawPermissionsFile(path);
+  const rules = config.alwaysAllow ?? [];
+  if (rules.some(r => r.type === rule.type && r.pattern === rule.pattern)) {
+    return false;
+  }
+
+  config.alwaysAllow = [...rules, rule];
+  mkdirSync(dirname(path), { recursive: true });
+  writeFileSync(path, JSON.stringify(config, null, 2) + '\n', 'utf-8');
+  invalidateScope(scope, workspaceRootPath);
+  debug(`[Permissions] Saved ${scope} always-allow rule: ${rule.type} ${rule.pattern}`);
+  return true;
+}
+
+/**
+ * Remove a saved "always allow" rule.
+ *
+ * @returns false if no matching rule was found
+ */
+export function removeAlwaysAllowRule(
+  scope: Exclude<AlwaysAllowScope, 'session'>,
+  workspaceRootPath: string,
+  rule: Pick<AlwaysAllowRule, 'type' | 'pattern'>
+): boolean {
+  const path = getAlwaysAllowRulesPath(scope, workspaceRootPath);
+  const config = readRawPermissionsFile(path);
+  const rules = config.alwaysAllow ?? [];
+  const remaining = rules.filter(r => r.type !== rule.type || r.pattern !== rule.pattern);
+  if (remaining.length === rules.length) {
+    return false;
+  }
+
+  if (remaining.length > 0) {
+    config.alwaysAllow = remaining;
+  } else {
+    delete config.alwaysAllow;
+  }
+  writeFileSync(path, JSON.stringify(config, null, 2) + '\n', 'utf-8');
+  invalidateScope(scope, workspaceRootPath);
+  debug(`[Permissions] Removed ${scope} always-allow rule: ${rule.type} ${rule.pattern}`);
+  return true;
+}
+
+/**
+ * Find the saved rule that allows a domain, tool or API call, if any
+ */
+export function findAlwaysAllowRule(
+  config: MergedPermissionsConfig,
+  type: Exclude<AlwaysAllowRuleType, 'bash'>,
+  value: string
+): CompiledAlwaysAllowRule | undefined {
+  return config.alwaysAllowRules.find(rule => rule.type === type && rule.regex.test(value));
+}
+
+/**
+ * Whether a saved domain rule can cover a curl/wget command line: only a single
+ * simple command, so approving a domain does not allow
+ * "curl https://api.github.com; rm -rf ~" or "curl https://api.github.com/x | sh".
+ */
+export function canAlwaysAllowNetworkCommand(command: string): boolean {
+  return !hasControlCharacters(command) && getSimpleCommandText(command) !== null;
+}
+
+/**
+ * Find the saved domain rule that allows a curl/wget command, if any
+ * (see canAlwaysAllowNetworkCommand).
+ */
+export function findNetworkCommandAlwaysAllowRule(
+  config: MergedPermissionsConfig,
+  command: string,
+  domain: string
+): CompiledAlwaysAllowRule | undefined {
+  if (!canAlwaysAllowNetworkCommand(command)) return undefined;
+  return findAlwaysAllowRule(config, 'domain', domain);
+}
+
+/**
+ * Check if a bash command is covered by saved "always allow" rules.
+ *
+ * Compound commands are only allowed when every part matches a saved rule or a
+ * read-only pattern, so approving "git status" does not allow "git status && rm -rf ~".
+ * Pipelines, redirects and substitutions always prompt.
+ */
+export function isBashCommandAlwaysAllowed(command: string, config: MergedPermissionsConfig): boolean {
+  const patterns: CompiledBashPattern[] = config.alwaysAllowRules
+    .filter(rule => rule.type === 'bash')
+    .map(rule => ({ regex: rule.regex, source: rule.source, comment: rule.comment }));
+  if (patterns.length === 0) return false;
+
+  const trimmed = command.trim();
+  if (hasControlCharacters(trimmed)) return false;
+  return validateBashCommand(trimmed, [...config.readOnlyBashPatterns, ...patterns]).allowed;
+}
+
+// ============================================================
+// Source API Endpoint Rules
+// ============================================================
+
+/**
+ * Add allowedApiEndpoints rules to a source's permissions.json, skipping rules
+ * already present (same method and path pattern). Other fields are preserved.
+ *
+ * @returns Number of rules added
+ * @throws Error if the existing file cannot be parsed (it is left untouched)
+ */
+export function addSourceApiEndpointRules(
+  workspaceRootPath: string,
+  sourceSlug: string,
+  rules: ApiEndpointRule[]
+): number {
+  const path = getSourcePermissionsPath(workspaceRootPath, sourceSlug);
+  const config = readRawPermissionsFile(path);
+  const existing = config.allowedApiEndpoints ?? [];
+  const added = rules.filter(rule => !existing.some(r => r.method === rule.method && r.path === rule.path));
+  if (added.length === 0) return 0;
+
+  config.allowedApiEndpoints = [...existing, ...added];
+  mkdirSync(dirname(path), { recursive: true });
+  writeFileSync(path, JSON.stringify(config, null, 2) + '\n', 'utf-8');
+  permissionsConfigCache.invalidateSource(workspaceRootPath, sourceSlug);
+  debug(`[Permissions] Added ${added.length} API endpoint rules for source ${sourceSlug}`);
+  return added.length;
+}
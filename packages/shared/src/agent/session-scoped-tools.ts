@@ -9,7 +9,7 @@
  * - config_validate: Validate configuration files
  * - skill_validate: Validate skill SKILL.md files
  * - source_test: Validate schema, download icons, test connections
- * - source_oauth_trigger: Start OAuth authentication for MCP sources
+ * - source_oauth_trigger: Start OAuth authentication for MCP sources and generic OAuth API sources
  * - source_google_oauth_trigger: Start Google OAuth authentication (Gmail, Calendar, Drive)
  * - source_credential_prompt: Prompt user for API credentials
  *
@@ -56,8 +56,14 @@ import {
 } from '../sources/storage.ts';
 import type { FolderSourceConfig, LoadedSource } from '../sources/types.ts';
 import { getSourceCredentialManager } from '../sources/index.ts';
-import { inferGoogleServiceFromUrl, inferSlackServiceFromUrl, inferMicrosoftServiceFromUrl, isApiOAuthProvider, type GoogleService, type SlackService, type MicrosoftService } from '../sources/types.ts';
+import { inferGoogleServiceFromUrl, inferSlackServiceFromUrl, inferMicrosoftServiceFromUrl, isApiOAuthProvider, isApiOAuthSource, type GoogleService, type SlackService, type MicrosoftService } from '../sources/types.ts';
 import { buildAuthorizationHeader } from '../sources/api-tools.ts';
+import { describeSqliteSchema, isSqliteLocalSource } from '../sources/sqlite-tools.ts';
+import { getGitBranches, isGitLocalSource } from '../sources/git-tools.ts';
+import { isObsidianLocalSource } from '../sources/obsidian-tools.ts';
+import { getVaultIndex } from '../sources/vault-index.ts';
+import { fetchOpenApiDocument, findOpenApiTestEndpoint, getOpenApiReadEndpointRules } from '../sources/openapi.ts';
+import { addSourceApiEndpointRules } from './permissions-config.ts';
 import { DOC_REFS } from '../docs/index.ts';
 import { renderMermaid } from '@craft-agent/mermaid';
 import { createLLMTool } from './llm-tool.ts';
@@ -602,8 +608,8 @@ async function testApiSource(
         workspaceId,
       };
 
-      if (isApiOAuthProvider(source.provider)) {
-        // Use SourceCredentialManager for OAuth providers - handles expiry checking and refresh
+      if (isApiOAuthSource(source)) {
+        // Use SourceCredentialManager for OAuth sources - handles expiry checking and refresh
         // getToken() returns null if expired
         let token = await sourceCredManager.getToken(loadedSource);
 
@@ -616,6 +622,7 @@ async function testApiSource(
         if (token) {
           credValue = token;
           credentialType = 'source_oauth';
+          headers['Authorization'] = buildAuthorizationHeader(source.api.authScheme, token);
           debug(`[testApiSource] Found valid OAuth token for ${source.slug}`);
         } else {
           debug(`[testApiSource] No valid OAuth token for ${source.slug}`);
@@ -745,6 +752,9 @@ export function createSourceTestTool(sessionId: string, workspaceRootPath: strin
 3. **Connection test**: Tests if the source is reachable
 4. **Completeness check**: Checks for missing description and icon
 
+For API sources with an \`openApi\` spec, it also downloads the spec, sets a missing \`testEndpoint\`
+and adds the spec's GET endpoints to the source's permissions.json.
+
 **Supports:**
 - **MCP sources**: Validates server URL, authentication, tool availability
 - **API sources**: Tests endpoint reachability and authentication
@@ -915,6 +925,38 @@ After creating or editing a source's config.json, run this tool to:
           results.push(`**✓ Guide** (guide.md, ${guideSizeKB} KB)`);
         }
 
+        // ============================================================
+        // Step 2c: OpenAPI Spec
+        // Downloads the spec (cached as openapi.json) before the connection test,
+        // so a generated testEndpoint is used right away
+        // ============================================================
+        if (source.type === 'api' && source.api?.openApi) {
+          try {
+            const document = await fetchOpenApiDocument(sourcePath, source.api.openApi);
+            const toolMode = source.api.openApi.toolMode ?? 'description';
+            results.push(`**✓ OpenAPI Spec** (${document.title ?? 'untitled'}, ${document.operations.length} operations, toolMode: ${toolMode})`);
+
+            if (!source.api.testEndpoint) {
+              const testEndpoint = findOpenApiTestEndpoint(document);
+              if (testEndpoint) {
+                source.api.testEndpoint = testEndpoint;
+                saveSourceConfig(workspaceRootPath, source);
+                results.push(`  Test endpoint set: ${testEndpoint.method} ${testEndpoint.path}`);
+              }
+            }
+
+            const added = addSourceApiEndpointRules(workspaceRootPath, args.sourceSlug, getOpenApiReadEndpointRules(document));
+            if (added > 0) {
+              results.push(`  Added ${added} GET endpoints to permissions.json (allowedApiEndpoints)`);
+            }
+          } catch (error) {
+            hasErrors = true;
+            results.push('**❌ OpenAPI Spec Failed**');
+            results.push(`  Spec: ${source.api.openApi.spec}`);
+            results.push(`  Error: ${error instanceof Error ? error.message : String(error)}`);
+          }
+        }
+
         // ============================================================
         // Step 3: Connection Test
         // ============================================================
@@ -984,12 +1026,44 @@ After creating or editing a source's config.json, run this tool to:
         else if (source.type === 'local') {
           const localPath = source.local?.path;
           if (localPath && existsSync(localPath)) {
+            // SQLite sources must also open as a database, git sources as a repository
+            const isSqlite = isSqliteLocalSource(source.local);
+            const isObsidian = !isSqlite && isObsidianLocalSource(source.local);
+            const isGit = !isSqlite && !isObsidian && isGitLocalSource(source.local);
+            let localError: string | null = null;
+            let noteCount = 0;
+            try {
+              if (isSqlite) {
+                describeSqliteSchema(localPath);
+              } else if (isObsidian) {
+                noteCount = getVaultIndex(localPath).size;
+              } else if (isGit) {
+                await getGitBranches(localPath);
+              }
+            } catch (error) {
+              localError = error instanceof Error ? error.message : String(error);
+            }
             source.lastTestedAt = Date.now();
-            source.connectionStatus = 'connected';
-            source.connectionError = undefined;
+            source.connectionStatus = localError ? 'failed' : 'connected';
+            source.connectionError = localError ?? undefined;
             source.isAuthenticated = true; // Local sources don't require auth
             saveSourceConfig(workspaceRootPath, source);
-            results.push(`**✓ Local Path Exists** (${localPath})`);
+            if (localError) {
+              hasErrors = true;
+              results.push(isSqlite
+                ? `**❌ SQLite Database Could Not Be Opened** (${localPath})`
+                : `**❌ Git Repository Could Not Be Read** (${localPath})`);
+              results.push(`  Error: ${localError}`);
+            } else {
+              results.push(`**✓ Local Path Exists** (${localPath})`);
+              if (isSqlite) {
+                results.push('**✓ SQLite Database Opened** (tools: sqlite_schema, sqlite_query, sqlite_execute)');
+              } else if (isObsidian) {
+                results.push(`**✓ Vault Indexed** (${noteCount} notes; tools: vault_search, vault_backlinks, vault_tags, vault_create_note)`);
+              } else if (isGit) {
+                results.push('**✓ Git Repository Found** (tools: git_log, git_show, git_diff, git_blame, git_file, git_branches)');
+              }
+            }
           } else {
             hasErrors = true;
             source.connectionStatus = 'failed';
@@ -1249,7 +1323,7 @@ async function verifySourceHasValidToken(
 
 /**
  * Create a session-scoped source_oauth_trigger tool.
- * Initiates OAuth authentication for an MCP source.
+ * Initiates OAuth authentication for an MCP source or an API source with authType 'oauth'.
  *
  * **IMPORTANT:** This tool triggers an auth request that pauses execution.
  * After calling onAuthRequest, the session manager will forceAbort the agent.
@@ -1258,15 +1332,16 @@ async function verifySourceHasValidToken(
 export function createOAuthTriggerTool(sessionId: string, workspaceRootPath: string) {
   return tool(
     'source_oauth_trigger',
-    `Start OAuth authentication for an MCP source.
+    `Start OAuth authentication for an MCP source or a generic OAuth API source.
 
 This tool initiates the OAuth 2.0 + PKCE flow for sources that require authentication.
 A browser window will open for the user to complete authentication.
 
 **Prerequisites:**
 - Source must exist in the current workspace
-- Source must be type 'mcp' with authType 'oauth'
-- Source must have a valid MCP URL
+- Source must be type 'mcp' with authType 'oauth' and a valid MCP URL,
+  or type 'api' with authType 'oauth' and an \`api.oauth\` config (tokenUrl, clientId, ...)
+- Google, Slack and Microsoft APIs have their own trigger tools
 
 **IMPORTANT:** After calling this tool:
 - Execution will be **automatically paused** while OAuth completes
@@ -1296,17 +1371,30 @@ A browser window will open for the user to complete authentication.
           };
         }
 
-        if (source.type !== 'mcp') {
+        // API sources with generic OAuth config
+        const isGenericOAuthApi = source.type === 'api' && source.api?.authType === 'oauth' && !isApiOAuthProvider(source.provider);
+
+        if (source.type !== 'mcp' && !isGenericOAuthApi) {
+          return {
+            content: [{
+              type: 'text' as const,
+              text: `Source '${args.sourceSlug}' is type '${source.type}'. OAuth is only for MCP sources and API sources with authType 'oauth'.`,
+            }],
+            isError: true,
+          };
+        }
+
+        if (isGenericOAuthApi && !source.api?.oauth) {
           return {
             content: [{
               type: 'text' as const,
-              text: `Source '${args.sourceSlug}' is type '${source.type}'. OAuth is only for MCP sources.`,
+              text: `Source '${args.sourceSlug}' uses OAuth but has no api.oauth config. Add tokenUrl, clientId and (for authorization_code) authorizeUrl to config.json.`,
             }],
             isError: true,
           };
         }
 
-        if (source.mcp?.authType !== 'oauth') {
+        if (source.type === 'mcp' && source.mcp?.authType !== 'oauth') {
           return {
             content: [{
               type: 'text' as const,
@@ -1316,7 +1404,7 @@ A browser window will open for the user to complete authentication.
           };
         }
 
-        if (!source.mcp?.url) {
+        if (source.type === 'mcp' && !source.mcp?.url) {
           return {
             content: [{
               type: 'text' as const,
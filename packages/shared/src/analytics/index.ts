@@ -0,0 +1,17 @@
+/**
+ * Analytics Module
+ *
+ * Usage and cost analytics built from session headers.
+ */
+
+export {
+  UNASSIGNED_USAGE_KEY,
+  recordSessionUsage,
+  buildUsageRecords,
+  aggregateUsage,
+  usageRecordsToCsv,
+  type UsageRecord,
+  type UsageBucket,
+  type UsageTotals,
+  type UsageReport,
+} from './usage.ts';
@@ -0,0 +1,310 @@
+/**
+ * Usage Analytics
+ *
+ * Aggregates session cost and token usage into breakdowns by day, model,
+ * label, status, source and workspace.
+ *
+ * Works entirely off session headers (SessionMetadata from listSessions):
+ * - usageHistory: per-day, per-model usage recorded after every turn
+ * - tokenUsage: session totals, used for usage recorded before usageHistory
+ *   existed (attributed to the session's last activity date)
+ *
+ * Sessions with several labels or sources count fully towards each of them,
+ * so those breakdowns can add up to more than the total.
+ */
+
+import type { SessionMetadata, SessionUsageEntry } from '../sessions/types.ts';
+import { toLocalDateKey } from '../workspaces/budgets.ts';
+
+/** Bucket key for sessions without a model, status, label or source */
+export const UNASSIGNED_USAGE_KEY = '(none)';
+
+/** Below this, leftover session cost not covered by usageHistory is treated as rounding */
+const COST_EPSILON_USD = 0.000001;
+
+/**
+ * One (session, day, model) slice of usage with the session's dimensions attached.
+ */
+export interface UsageRecord {
+  /** Local date (YYYY-MM-DD) */
+  date: string;
+  workspaceId?: string;
+  workspaceName?: string;
+  sessionId: string;
+  sessionName?: string;
+  model: string;
+  status: string;
+  /** Label IDs (values stripped from "id::value" entries) */
+  labels: string[];
+  sources: string[];
+  turns: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+}
+
+/**
+ * Aggregated usage for one key of a breakdown.
+ */
+export interface UsageBucket {
+  key: string;
+  costUsd: number;
+  inputTokens: number;
+  outputTokens: number;
+  turns: number;
+  sessionCount: number;
+}
+
+export type UsageTotals = Omit<UsageBucket, 'key'>;
+
+/**
+ * Usage report for a date range.
+ * byDay is sorted by date; all other breakdowns by cost (highest first).
+ */
+export interface UsageReport {
+  /** Inclusive start date (YYYY-MM-DD), undefined = all time */
+  from?: string;
+  /** Inclusive end date (YYYY-MM-DD), undefined = today */
+  to?: string;
+  totals: UsageTotals;
+  byDay: UsageBucket[];
+  byModel: UsageBucket[];
+  byLabel: UsageBucket[];
+  byStatus: UsageBucket[];
+  bySource: UsageBucket[];
+  byWorkspace: UsageBucket[];
+}
+
+// ============================================================
+// Recording
+// ============================================================
+
+/**
+ * Add one turn's usage to a session's usage history.
+ * Turns are merged into the entry for the same day and model.
+ * @returns A new history array (the input is not mutated)
+ */
+export function recordSessionUsage(
+  history: SessionUsageEntry[] | undefined,
+  usage: { model?: string; inputTokens: number; outputTokens: number; costUsd: number },
+  now: Date = new Date()
+): SessionUsageEntry[] {
+  const date = toLocalDateKey(now);
+  const entries = history ? [...history] : [];
+  const index = entries.findIndex(e => e.date === date && e.model === usage.model);
+  const existing = index === -1
+    ? { date, model: usage.model, turns: 0, inputTokens: 0, outputTokens: 0, costUsd: 0 }
+    : entries[index]!;
+
+  const updated: SessionUsageEntry = {
+    ...existing,
+    turns: existing.turns + 1,
+    inputTokens: existing.inputTokens + usage.inputTokens,
+    outputTokens: existing.outputTokens + usage.outputTokens,
+    costUsd: existing.costUsd + usage.costUsd,
+  };
+
+  if (index === -1) {
+    entries.push(updated);
+  } else {
+    entries[index] = updated;
+  }
+  return entries;
+}
+
+// ============================================================
+// Aggregation
+// ============================================================
+
+/**
+ * Flatten session headers into usage records.
+ * @param workspace - Workspace the sessions belong to (for cross-workspace reports)
+ */
+export function buildUsageRecords(
+  sessions: SessionMetadata[],
+  workspace?: { id: string; name: string }
+): UsageRecord[] {
+  const records: UsageRecord[] = [];
+
+  for (const session of sessions) {
+    const labels = [...new Set((session.labels ?? []).map(label => label.split('::')[0]!))];
+    const base = {
+      workspaceId: workspace?.id,
+      workspaceName: workspace?.name,
+      sessionId: session.id,
+      sessionName: session.name,
+      status: session.todoState ?? UNASSIGNED_USAGE_KEY,
+      labels,
+      sources: session.enabledSourceSlugs ?? [],
+    };
+
+    const history = session.usageHistory ?? [];
+    for (const entry of history) {
+      records.push({
+        ...base,
+        date: entry.date,
+        model: entry.model ?? session.model ?? UNASSIGNED_USAGE_KEY,
+        turns: entry.turns,
+        inputTokens: entry.inputTokens,
+        outputTokens: entry.outputTokens,
+        costUsd: entry.costUsd,
+      });
+    }
+
+    // Usage not covered by history (recorded before usageHistory existed)
+    const usage = session.tokenUsage;
+    if (!usage) continue;
+    const historyCost = history.reduce((sum, e) => sum + e.costUsd, 0);
+    const historyOutput = history.reduce((sum, e) => sum + e.outputTokens, 0);
+    if (usage.costUsd - historyCost > COST_EPSILON_USD) {
+      records.push({
+        ...base,
+        date: toLocalDateKey(new Date(session.lastMessageAt ?? session.lastUsedAt)),
+        model: session.model ?? UNASSIGNED_USAGE_KEY,
+        turns: 0,
+        inputTokens: history.length > 0 ? 0 : usage.inputTokens,
+        outputTokens: Math.max(usage.outputTokens - historyOutput, 0),
+        costUsd: usage.costUsd - historyCost,
+      });
+    }
+  }
+
+  return records;
+}
+
+function addToBuckets(
+  buckets: Map<string, UsageBucket & { sessions: Set<string> }>,
+  keys: string[],
+  record: UsageRecord
+): void {
+  for (const key of keys.length > 0 ? keys : [UNASSIGNED_USAGE_KEY]) {
+    let bucket = buckets.get(key);
+    if (!bucket) {
+      bucket = { key, costUsd: 0, inputTokens: 0, outputTokens: 0, turns: 0, sessionCount: 0, sessions: new Set() };
+      buckets.set(key, bucket);
+    }
+    bucket.costUsd += record.costUsd;
+    bucket.inputTokens += record.inputTokens;
+    bucket.outputTokens += record.outputTokens;
+    bucket.turns += record.turns;
+    bucket.sessions.add(record.sessionId);
+  }
+}
+
+function toBucketList(
+  buckets: Map<string, UsageBucket & { sessions: Set<string> }>,
+  sortByKey = false
+): UsageBucket[] {
+  const list = [...buckets.values()].map(({ sessions, ...bucket }) => ({
+    ...bucket,
+    sessionCount: sessions.size,
+  }));
+  return sortByKey
+    ? list.sort((a, b) => a.key.localeCompare(b.key))
+    : list.sort((a, b) => b.costUsd - a.costUsd || a.key.localeCompare(b.key));
+}
+
+/**
+ * Aggregate usage records into a report.
+ * @param range - Inclusive YYYY-MM-DD bounds; omit either side for an open range
+ */
+export function aggregateUsage(
+  records: UsageRecord[],
+  range?: { from?: string; to?: string }
+): UsageReport {
+  const from = range?.from;
+  const to = range?.to;
+  const inRange = records.filter(r => (!from || r.date >= from) && (!to || r.date <= to));
+
+  type Buckets = Map<string, UsageBucket & { sessions: Set<string> }>;
+  const byDay: Buckets = new Map();
+  const byModel: Buckets = new Map();
+  const byLabel: Buckets = new Map();
+  const byStatus: Buckets = new Map();
+  const bySource: Buckets = new Map();
+  const byWorkspace: Buckets = new Map();
+  const sessions = new Set<string>();
+  const totals: UsageTotals = { costUsd: 0, inputTokens: 0, outputTokens: 0, turns: 0, sessionCount: 0 };
+
+  for (const record of inRange) {
+    addToBuckets(byDay, [record.date], record);
+    addToBuckets(byModel, [record.model], record);
+    addToBuckets(byLabel, record.labels, record);
+    addToBuckets(byStatus, [record.status], record);
+    addToBuckets(bySource, record.sources, record);
+    addToBuckets(byWorkspace, record.workspaceName ? [record.workspaceName] : [], record);
+
+    totals.costUsd += record.costUsd;
+    totals.inputTokens += record.inputTokens;
+    totals.outputTokens += record.outputTokens;
+    totals.turns += record.turns;
+    sessions.add(record.sessionId);
+  }
+  totals.sessionCount = sessions.size;
+
+  return {
+    from,
+    to,
+    totals,
+    byDay: toBucketList(byDay, true),
+    byModel: toBucketList(byModel),
+    byLabel: toBucketList(byLabel),
+    byStatus: toBucketList(byStatus),
+    bySource: toBucketList(bySource),
+    byWorkspace: toBucketList(byWorkspace),
+  };
+}
+
+// ============================================================
+// CSV Export
+// ============================================================
+
+const CSV_COLUMNS = [
+  'date',
+  'workspace',
+  'session_id',
+  'session_name',
+  'model',
+  'status',
+  'labels',
+  'sources',
+  'turns',
+  'input_tokens',
+  'output_tokens',
+  'cost_usd',
+] as const;
+
+/**
+ * Quote a CSV field if needed. Text starting with =, +, -, @, tab or carriage return
+ * is prefixed with ' so spreadsheets don't run it as a formula (session names are
+ * often model-generated, labels user-typed). Numeric columns never start with these.
+ */
+function escapeCsvField(value: string): string {
+  const safe = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\n\r]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+/**
+ * Serialize usage records as CSV (one row per session, day and model).
+ * Multi-valued columns (labels, sources) are joined with ";".
+ */
+export function usageRecordsToCsv(records: UsageRecord[]): string {
+  const rows = [...records]
+    .sort((a, b) => a.date.localeCompare(b.date) || a.sessionId.localeCompare(b.sessionId))
+    .map(r => [
+      r.date,
+      r.workspaceName ?? '',
+      r.sessionId,
+      r.sessionName ?? '',
+      r.model,
+      r.status,
+      r.labels.join(';'),
+      r.sources.join(';'),
+      String(r.turns),
+      String(r.inputTokens),
+      String(r.outputTokens),
+      r.costUsd.toFixed(6),
+    ].map(escapeCsvField).join(','));
+
+  return [CSV_COLUMNS.join(','), ...rows].join('\n') + '\n';
+}
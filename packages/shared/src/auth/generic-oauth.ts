@@ -0,0 +1,321 @@
+/**
+ * Generic OAuth 2.0 flow for API sources
+ *
+ * Provider-agnostic OAuth for API sources with `authType: "oauth"`. Endpoints,
+ * client and scopes come from the source's `api.oauth` config, so any OAuth 2.0
+ * API (Atlassian, Salesforce, internal IdPs) works without a dedicated module.
+ *
+ * Supported grants:
+ * - authorization_code: browser consent + local callback server, with PKCE by default
+ * - client_credentials: machine-to-machine, no user interaction (re-requested on expiry)
+ * - device_code: user enters a code on another page (RFC 8628), for IdPs without
+ *   localhost redirect support
+ */
+
+import { URL } from 'url';
+import { openUrl } from '../utils/open-url.ts';
+import { createCallbackServer, type AppType } from './callback-server.ts';
+import { generatePKCE, generateState } from './pkce.ts';
+import type { ApiOAuthConfig } from '../sources/types.ts';
+
+// Re-export ApiOAuthConfig type for convenient access
+export type { ApiOAuthConfig };
+
+const DEVICE_CODE_GRANT = 'urn:ietf:params:oauth:grant-type:device_code';
+
+// Polling interval when the device authorization response doesn't specify one (RFC 8628 default)
+const DEFAULT_DEVICE_POLL_INTERVAL_SECONDS = 5;
+
+/**
+ * Device code the user has to enter to approve a device_code sign-in
+ */
+export interface DeviceCodePrompt {
+  userCode: string;
+  verificationUri: string;
+  /** Verification URL with the code pre-filled, if the IdP supports it */
+  verificationUriComplete?: string;
+}
+
+/**
+ * Options for starting the generic OAuth flow
+ */
+export interface GenericOAuthOptions {
+  /** App type for callback server styling */
+  appType?: AppType;
+  /** Called with the user code for device_code grants (the verification page is opened automatically) */
+  onDeviceCode?: (prompt: DeviceCodePrompt) => void;
+}
+
+/**
+ * Result of the generic OAuth flow
+ */
+export interface GenericOAuthResult {
+  success: boolean;
+  accessToken?: string;
+  refreshToken?: string;
+  expiresAt?: number;
+  tokenType?: string;
+  error?: string;
+}
+
+/**
+ * Tokens returned by the token endpoint
+ */
+export interface GenericOAuthTokens {
+  accessToken: string;
+  refreshToken?: string;
+  expiresAt?: number;
+  tokenType?: string;
+}
+
+/**
+ * Error response from a token endpoint (RFC 6749 section 5.2)
+ */
+class TokenEndpointError extends Error {
+  constructor(public readonly code: string, description?: string) {
+    super(description ? `${code}: ${description}` : code);
+    this.name = 'TokenEndpointError';
+  }
+}
+
+/**
+ * Parse a token endpoint response body.
+ * Most IdPs return JSON; some (e.g. GitHub without an Accept header) return form-encoded.
+ */
+function parseTokenBody(text: string): Record<string, unknown> {
+  try {
+    return JSON.parse(text) as Record<string, unknown>;
+  } catch {
+    return Object.fromEntries(new URLSearchParams(text));
+  }
+}
+
+/**
+ * POST form parameters to the token endpoint and return the tokens.
+ * The client secret (if any) is sent in the body (client_secret_post).
+ */
+async function requestTokens(
+  config: ApiOAuthConfig,
+  params: Record<string, string>
+): Promise<GenericOAuthTokens> {
+  const body = new URLSearchParams({ client_id: config.clientId, ...params });
+  if (config.clientSecret) {
+    body.set('client_secret', config.clientSecret);
+  }
+
+  const response = await fetch(config.tokenUrl, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/x-www-form-urlencoded',
+      Accept: 'application/json',
+    },
+    body: body.toString(),
+  });
+
+  const data = parseTokenBody(await response.text());
+  if (!response.ok || typeof data.error === 'string') {
+    const code = typeof data.error === 'string' ? data.error : `HTTP ${response.status}`;
+    throw new TokenEndpointError(code, typeof data.error_description === 'string' ? data.error_description : undefined);
+  }
+  if (typeof data.access_token !== 'string') {
+    throw new Error('Token response has no access_token');
+  }
+
+  const expiresIn = Number(data.expires_in);
+  return {
+    accessToken: data.access_token,
+    refreshToken: typeof data.refresh_token === 'string' ? data.refresh_token : undefined,
+    expiresAt: expiresIn > 0 ? Date.now() + expiresIn * 1000 : undefined,
+    tokenType: typeof data.token_type === 'string' ? data.token_type : undefined,
+  };
+}
+
+/**
+ * Scope parameter for token and authorization requests (omitted when no scopes are configured)
+ */
+function scopeParams(config: ApiOAuthConfig): Record<string, string> {
+  return config.scopes && config.scopes.length > 0 ? { scope: config.scopes.join(' ') } : {};
+}
+
+/**
+ * Refresh an access token using a refresh token.
+ * The IdP may rotate the refresh token - callers should keep the returned one if present.
+ */
+export async function refreshGenericOAuthToken(
+  config: ApiOAuthConfig,
+  refreshToken: string
+): Promise<GenericOAuthTokens> {
+  return requestTokens(config, {
+    grant_type: 'refresh_token',
+    refresh_token: refreshToken,
+  });
+}
+
+/**
+ * Request a token with the client credentials grant (no user involved).
+ * Client credentials tokens have no refresh token - request a new one on expiry.
+ */
+export async function requestClientCredentialsToken(config: ApiOAuthConfig): Promise<GenericOAuthTokens> {
+  if (!config.clientSecret) {
+    throw new Error('client_credentials grant requires clientSecret');
+  }
+  return requestTokens(config, {
+    grant_type: 'client_credentials',
+    ...scopeParams(config),
+    ...config.extraParams,
+  });
+}
+
+/**
+ * Run the authorization code flow: open the consent page, wait for the
+ * redirect on the local callback server and exchange the code.
+ */
+async function runAuthorizationCodeFlow(
+  config: ApiOAuthConfig,
+  options: GenericOAuthOptions
+): Promise<GenericOAuthTokens> {
+  if (!config.authorizeUrl) {
+    throw new Error('authorization_code grant requires authorizeUrl');
+  }
+
+  const usePkce = config.pkce !== false;
+  const pkce = generatePKCE();
+  const state = generateState();
+
+  const callbackServer = await createCallbackServer({ appType: options.appType || 'electron' });
+  const redirectUri = `${callbackServer.url}/callback`;
+
+  try {
+    const authUrl = new URL(config.authorizeUrl);
+    authUrl.searchParams.set('client_id', config.clientId);
+    authUrl.searchParams.set('redirect_uri', redirectUri);
+    authUrl.searchParams.set('response_type', 'code');
+    authUrl.searchParams.set('state', state);
+    for (const [key, value] of Object.entries({ ...scopeParams(config), ...config.extraParams })) {
+      authUrl.searchParams.set(key, value);
+    }
+    if (usePkce) {
+      authUrl.searchParams.set('code_challenge', pkce.codeChallenge);
+      authUrl.searchParams.set('code_challenge_method', 'S256');
+    }
+
+    await openUrl(authUrl.toString());
+    const callback = await callbackServer.promise;
+
+    if (callback.query.state !== state) {
+      throw new Error('OAuth state mismatch - possible CSRF attack');
+    }
+    if (callback.query.error) {
+      throw new Error(callback.query.error_description || callback.query.error);
+    }
+    const code = callback.query.code;
+    if (!code) {
+      throw new Error('No authorization code received');
+    }
+
+    return await requestTokens(config, {
+      grant_type: 'authorization_code',
+      code,
+      redirect_uri: redirectUri,
+      ...(usePkce ? { code_verifier: pkce.codeVerifier } : {}),
+    });
+  } finally {
+    await callbackServer.close();
+  }
+}
+
+/**
+ * Run the device authorization flow (RFC 8628): show the user code, open the
+ * verification page and poll the token endpoint until the user approves.
+ */
+async function runDeviceCodeFlow(
+  config: ApiOAuthConfig,
+  options: GenericOAuthOptions
+): Promise<GenericOAuthTokens> {
+  if (!config.deviceAuthorizationUrl) {
+    throw new Error('device_code grant requires deviceAuthorizationUrl');
+  }
+
+  const response = await fetch(config.deviceAuthorizationUrl, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/x-www-form-urlencoded',
+      Accept: 'application/json',
+    },
+    body: new URLSearchParams({ client_id: config.clientId, ...scopeParams(config), ...config.extraParams }).toString(),
+  });
+  const data = parseTokenBody(await response.text());
+  if (!response.ok || typeof data.device_code !== 'string' || typeof data.user_code !== 'string') {
+    throw new Error(`Device authorization failed: ${data.error_description ?? data.error ?? `HTTP ${response.status}`}`);
+  }
+
+  // Some IdPs (Google) use verification_url instead of verification_uri
+  const verificationUri = String(data.verification_uri ?? data.verification_url ?? '');
+  const verificationUriComplete = typeof data.verification_uri_complete === 'string' ? data.verification_uri_complete : undefined;
+  options.onDeviceCode?.({ userCode: data.user_code, verificationUri, verificationUriComplete });
+  if (verificationUriComplete || verificationUri) {
+    await openUrl(verificationUriComplete ?? verificationUri);
+  }
+
+  let intervalMs = (Number(data.interval) || DEFAULT_DEVICE_POLL_INTERVAL_SECONDS) * 1000;
+  const deadline = Date.now() + (Number(data.expires_in) || 900) * 1000;
+
+  while (Date.now() < deadline) {
+    await new Promise(resolve => setTimeout(resolve, intervalMs));
+    try {
+      return await requestTokens(config, {
+        grant_type: DEVICE_CODE_GRANT,
+        device_code: data.device_code,
+      });
+    } catch (error) {
+      if (!(error instanceof TokenEndpointError)) throw error;
+      if (error.code === 'authorization_pending') continue;
+      if (error.code === 'slow_down') {
+        intervalMs += 5000;
+        continue;
+      }
+      throw error;
+    }
+  }
+
+  throw new Error('Device code expired before sign-in was completed');
+}
+
+/**
+ * Start the generic OAuth flow for the configured grant type.
+ *
+ * @example
+ * const result = await startGenericOAuth({
+ *   authorizeUrl: 'https://auth.atlassian.com/authorize',
+ *   tokenUrl: 'https://auth.atlassian.com/oauth/token',
+ *   clientId: 'abc',
+ *   clientSecret: 'xyz',
+ *   scopes: ['read:jira-work', 'offline_access'],
+ *   extraParams: { audience: 'api.atlassian.com', prompt: 'consent' },
+ * });
+ */
+export async function startGenericOAuth(
+  config: ApiOAuthConfig,
+  options: GenericOAuthOptions = {}
+): Promise<GenericOAuthResult> {
+  try {
+    let tokens: GenericOAuthTokens;
+    switch (config.grantType ?? 'authorization_code') {
+      case 'client_credentials':
+        tokens = await requestClientCredentialsToken(config);
+        break;
+      case 'device_code':
+        tokens = await runDeviceCodeFlow(config, options);
+        break;
+      default:
+        tokens = await runAuthorizationCodeFlow(config, options);
+    }
+
+    return { success: true, ...tokens };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error during OAuth',
+    };
+  }
+}
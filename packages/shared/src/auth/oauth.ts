@@ -3,6 +3,7 @@ import { URL } from 'url';
 import { randomBytes, createHash } from 'crypto';
 import { openUrl } from '../utils/open-url.ts';
 import { generateCallbackPage } from './callback-page.ts';
+import type { DeviceCodePrompt } from './generic-oauth.ts';
 
 export interface OAuthConfig {
   mcpBaseUrl: string; // e.g., http://localhost:3000/v1/links/abc123
@@ -18,6 +19,8 @@ export interface OAuthTokens {
 export interface OAuthCallbacks {
   onStatus: (message: string) => void;
   onError: (error: string) => void;
+  /** Called with the user code when a device_code sign-in is waiting for approval */
+  onDeviceCode?: (prompt: DeviceCodePrompt) => void;
 }
 
 // Port range for OAuth callback server - tries ports sequentially until one is available
@@ -1,6 +1,8 @@
 export * from './models.ts';
 export * from './preferences.ts';
 export * from './storage.ts';
+export * from './provider-profiles.ts';
+export type { ProviderProfile, ProviderProfileKind } from './types.ts';
 export * from './theme.ts';
 export * from './validators.ts';
 export {
@@ -10,6 +10,8 @@ export interface ModelDefinition {
   description: string;
   /** Known context window size in tokens (used as fallback before SDK reports usage) */
   contextWindow?: number;
+  /** List price in USD per million tokens (used to estimate cost before SDK reports it) */
+  pricing?: { inputPerMTok: number; outputPerMTok: number };
 }
 
 // ============================================
@@ -17,9 +19,9 @@ export interface ModelDefinition {
 // ============================================
 
 export const MODELS: ModelDefinition[] = [
-  { id: 'claude-opus-4-5-20251101', name: 'Opus 4.5', shortName: 'Opus', description: 'Most capable', contextWindow: 200000 },
-  { id: 'claude-sonnet-4-5-20250929', name: 'Sonnet 4.5', shortName: 'Sonnet', description: 'Balanced', contextWindow: 200000 },
-  { id: 'claude-haiku-4-5-20251001', name: 'Haiku 4.5', shortName: 'Haiku', description: 'Fast & efficient', contextWindow: 200000 },
+  { id: 'claude-opus-4-5-20251101', name: 'Opus 4.5', shortName: 'Opus', description: 'Most capable', contextWindow: 200000, pricing: { inputPerMTok: 5, outputPerMTok: 25 } },
+  { id: 'claude-sonnet-4-5-20250929', name: 'Sonnet 4.5', shortName: 'Sonnet', description: 'Balanced', contextWindow: 200000, pricing: { inputPerMTok: 3, outputPerMTok: 15 } },
+  { id: 'claude-haiku-4-5-20251001', name: 'Haiku 4.5', shortName: 'Haiku', description: 'Fast & efficient', contextWindow: 200000, pricing: { inputPerMTok: 1, outputPerMTok: 5 } },
 ];
 
 // ============================================
@@ -67,6 +69,11 @@ export function getModelContextWindow(modelId: string): number | undefined {
   return MODELS.find(m => m.id === modelId)?.contextWindow;
 }
 
+/** Get list pricing for a model ID (undefined for models not in MODELS, e.g. provider-prefixed IDs) */
+export function getModelPricing(modelId: string): ModelDefinition['pricing'] {
+  return MODELS.find(m => m.id === modelId)?.pricing;
+}
+
 /** Check if model is an Opus model (for cache TTL decisions) */
 export function isOpusModel(modelId: string): boolean {
   return modelId.includes('opus');
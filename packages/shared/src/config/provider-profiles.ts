@@ -0,0 +1,310 @@
+/**
+ * Model Provider Profiles
+ *
+ * Named ways of reaching models — Anthropic API, Claude subscription, OpenRouter,
+ * a local gateway — each with its own credentials and model list.
+ *
+ * Resolution: session profile > workspace profile > global default. Without any
+ * profile, the single legacy connection (authType + anthropicBaseUrl + customModel,
+ * exported to process.env at startup) is used, so existing setups keep working.
+ *
+ * Profiles are applied per query by overriding the SDK subprocess environment,
+ * so sessions using different profiles can run side by side. When the active
+ * connection is rate limited or down before the model responded, CraftAgent retries
+ * the turn with the next profile of the fallback chain (see getNextFallbackProfile).
+ * Failures mid-turn are surfaced instead (see canFallBackToNextProvider).
+ */
+
+import { getCredentialManager } from '../credentials/index.ts';
+import { getValidClaudeOAuthToken } from '../auth/state.ts';
+import { loadStoredConfig, saveConfig } from './storage.ts';
+import type { ProviderProfile, ProviderProfileKind } from './types.ts';
+
+/** Base URL of OpenRouter's Anthropic-compatible API */
+export const OPENROUTER_BASE_URL = 'https://openrouter.ai/api';
+
+/** Display names for profile kinds */
+export const PROVIDER_PROFILE_KIND_NAMES: Record<ProviderProfileKind, string> = {
+  anthropic: 'Anthropic API',
+  claude_oauth: 'Claude Pro/Max',
+  openrouter: 'OpenRouter',
+  gateway: 'Local gateway',
+};
+
+/**
+ * SDK subprocess environment for a profile.
+ * Keys left undefined are removed from the environment, so credentials of the
+ * legacy connection never leak into a profile (the SDK prefers API keys over OAuth).
+ */
+export interface ProviderProfileEnv {
+  ANTHROPIC_API_KEY?: string;
+  CLAUDE_CODE_OAUTH_TOKEN?: string;
+  ANTHROPIC_BASE_URL?: string;
+}
+
+const PROVIDER_ENV_KEYS: (keyof ProviderProfileEnv)[] = ['ANTHROPIC_API_KEY', 'CLAUDE_CODE_OAUTH_TOKEN', 'ANTHROPIC_BASE_URL'];
+
+const PROFILE_ID_PATTERN = /^[a-z0-9][a-z0-9_-]*$/;
+
+// ============================================
+// Pure helpers
+// ============================================
+
+/**
+ * Check a profile before saving.
+ * @returns An error message, or null if the profile is valid
+ */
+export function validateProviderProfile(profile: ProviderProfile): string | null {
+  if (!PROFILE_ID_PATTERN.test(profile.id)) {
+    return `Invalid profile ID "${profile.id}" (use lowercase letters, digits, - and _)`;
+  }
+  if (!profile.name.trim()) {
+    return 'Profile name is required';
+  }
+  if (!(profile.kind in PROVIDER_PROFILE_KIND_NAMES)) {
+    return `Unknown profile kind "${profile.kind}"`;
+  }
+  if (profile.kind === 'gateway' && !profile.baseUrl?.trim()) {
+    return 'A gateway profile needs a base URL';
+  }
+  if (profile.kind === 'claude_oauth' && profile.baseUrl) {
+    return 'Claude Pro/Max profiles connect to Anthropic directly and cannot use a base URL';
+  }
+  return null;
+}
+
+/**
+ * Model to request through a profile.
+ * The requested model is kept when the profile allows it (listed, or no list);
+ * otherwise the profile's first model is used.
+ */
+export function resolveProviderProfileModel(profile: ProviderProfile, requestedModel: string): string {
+  const models = profile.models?.filter(model => model.trim()) ?? [];
+  if (models.length === 0 || models.includes(requestedModel)) return requestedModel;
+  return models[0]!;
+}
+
+/**
+ * Overlay a profile's environment on the SDK subprocess environment.
+ * Returns a new object; provider keys the profile doesn't set are removed.
+ */
+export function applyProviderProfileEnv<T extends Record<string, string | undefined>>(
+  baseEnv: T,
+  profileEnv: ProviderProfileEnv
+): T {
+  const env: Record<string, string | undefined> = { ...baseEnv };
+  for (const key of PROVIDER_ENV_KEYS) {
+    if (profileEnv[key]) {
+      env[key] = profileEnv[key];
+    } else {
+      delete env[key];
+    }
+  }
+  return env as T;
+}
+
+/**
+ * Next profile of a fallback chain that hasn't been tried yet this turn.
+ * Chain entries without a matching profile are skipped.
+ */
+export function selectNextFallbackProfile(
+  chain: string[],
+  profiles: ProviderProfile[],
+  tried: string[]
+): ProviderProfile | null {
+  for (const id of chain) {
+    if (tried.includes(id)) continue;
+    const profile = profiles.find(p => p.id === id);
+    if (profile) return profile;
+  }
+  return null;
+}
+
+// ============================================
+// Storage (config.json)
+// ============================================
+
+/**
+ * All configured provider profiles, in the order they were added
+ */
+export function getProviderProfiles(): ProviderProfile[] {
+  return loadStoredConfig()?.providerProfiles ?? [];
+}
+
+/**
+ * Get a provider profile by ID
+ */
+export function getProviderProfile(id: string): ProviderProfile | null {
+  return getProviderProfiles().find(p => p.id === id) ?? null;
+}
+
+/**
+ * Create or update a provider profile (matched by ID).
+ * @throws If the profile is invalid (see validateProviderProfile)
+ */
+export function saveProviderProfile(profile: ProviderProfile): void {
+  const error = validateProviderProfile(profile);
+  if (error) throw new Error(error);
+
+  const config = loadStoredConfig();
+  if (!config) return;
+
+  const cleaned: ProviderProfile = {
+    id: profile.id,
+    name: profile.name.trim(),
+    kind: profile.kind,
+    ...(profile.baseUrl?.trim() ? { baseUrl: profile.baseUrl.trim() } : {}),
+    ...(profile.models?.length ? { models: profile.models.map(m => m.trim()).filter(Boolean) } : {}),
+  };
+
+  const profiles = config.providerProfiles ?? [];
+  const index = profiles.findIndex(p => p.id === profile.id);
+  if (index >= 0) {
+    profiles[index] = cleaned;
+  } else {
+    profiles.push(cleaned);
+  }
+  config.providerProfiles = profiles;
+  saveConfig(config);
+}
+
+/**
+ * Delete a provider profile, its API key, and its references
+ * (global default and fallback chain). Workspaces and sessions that still
+ * reference it fall back to the next level of resolution.
+ */
+export async function deleteProviderProfile(id: string): Promise<void> {
+  const config = loadStoredConfig();
+  if (!config) return;
+
+  config.providerProfiles = (config.providerProfiles ?? []).filter(p => p.id !== id);
+  if (config.defaultProviderProfileId === id) {
+    delete config.defaultProviderProfileId;
+  }
+  if (config.providerFallbackChain) {
+    config.providerFallbackChain = config.providerFallbackChain.filter(chainId => chainId !== id);
+  }
+  saveConfig(config);
+
+  await getCredentialManager().delete({ type: 'provider_api_key', name: id });
+}
+
+/**
+ * Profile used when neither the session nor its workspace selects one.
+ * null = legacy connection.
+ */
+export function getDefaultProviderProfileId(): string | null {
+  return loadStoredConfig()?.defaultProviderProfileId ?? null;
+}
+
+/**
+ * Set the global default profile. Pass null to use the legacy connection.
+ */
+export function setDefaultProviderProfileId(id: string | null): void {
+  const config = loadStoredConfig();
+  if (!config) return;
+
+  if (id) {
+    config.defaultProviderProfileId = id;
+  } else {
+    delete config.defaultProviderProfileId;
+  }
+  saveConfig(config);
+}
+
+/**
+ * Profile IDs tried in order when the active connection is rate limited or down
+ */
+export function getProviderFallbackChain(): string[] {
+  return loadStoredConfig()?.providerFallbackChain ?? [];
+}
+
+/**
+ * Set the fallback chain. Unknown and duplicate IDs are dropped.
+ */
+export function setProviderFallbackChain(ids: string[]): void {
+  const config = loadStoredConfig();
+  if (!config) return;
+
+  const known = new Set((config.providerProfiles ?? []).map(p => p.id));
+  const chain = [...new Set(ids)].filter(id => known.has(id));
+  if (chain.length > 0) {
+    config.providerFallbackChain = chain;
+  } else {
+    delete config.providerFallbackChain;
+  }
+  saveConfig(config);
+}
+
+/**
+ * Resolve which profile a session uses: session > workspace > global default.
+ * Selections pointing at deleted profiles are skipped.
+ * @returns The profile, or null for the legacy connection
+ */
+export function resolveProviderProfile(sessionProfileId?: string, workspaceProfileId?: string): ProviderProfile | null {
+  const profiles = getProviderProfiles();
+  for (const id of [sessionProfileId, workspaceProfileId, getDefaultProviderProfileId()]) {
+    const profile = id ? profiles.find(p => p.id === id) : undefined;
+    if (profile) return profile;
+  }
+  return null;
+}
+
+/**
+ * Next profile of the fallback chain that hasn't been tried yet this turn
+ */
+export function getNextFallbackProfile(tried: string[]): ProviderProfile | null {
+  return selectNextFallbackProfile(getProviderFallbackChain(), getProviderProfiles(), tried);
+}
+
+// ============================================
+// Credentials
+// ============================================
+
+/**
+ * Store (or clear, with null) a profile's API key in the encrypted credential store
+ */
+export async function setProviderProfileApiKey(id: string, apiKey: string | null): Promise<void> {
+  const manager = getCredentialManager();
+  if (apiKey?.trim()) {
+    await manager.setProviderApiKey(id, apiKey.trim());
+  } else {
+    await manager.delete({ type: 'provider_api_key', name: id });
+  }
+}
+
+/**
+ * Whether a profile has an API key stored
+ */
+export async function hasProviderProfileApiKey(id: string): Promise<boolean> {
+  return !!(await getCredentialManager().getProviderApiKey(id));
+}
+
+/**
+ * Build the SDK subprocess environment for a profile.
+ * @returns null if the profile's credentials are missing (not signed in, no API key)
+ */
+export async function getProviderProfileEnv(profile: ProviderProfile): Promise<ProviderProfileEnv | null> {
+  const baseUrl = profile.baseUrl?.trim() || undefined;
+
+  switch (profile.kind) {
+    case 'claude_oauth': {
+      const { accessToken } = await getValidClaudeOAuthToken();
+      return accessToken ? { CLAUDE_CODE_OAUTH_TOKEN: accessToken } : null;
+    }
+    case 'anthropic': {
+      const apiKey = await getCredentialManager().getProviderApiKey(profile.id);
+      return apiKey ? { ANTHROPIC_API_KEY: apiKey, ANTHROPIC_BASE_URL: baseUrl } : null;
+    }
+    case 'openrouter': {
+      const apiKey = await getCredentialManager().getProviderApiKey(profile.id);
+      return apiKey ? { ANTHROPIC_API_KEY: apiKey, ANTHROPIC_BASE_URL: baseUrl ?? OPENROUTER_BASE_URL } : null;
+    }
+    case 'gateway': {
+      if (!baseUrl) return null;
+      const apiKey = await getCredentialManager().getProviderApiKey(profile.id);
+      // Local gateways (Ollama, LiteLLM) often don't validate keys, but the SDK requires one
+      return { ANTHROPIC_API_KEY: apiKey ?? 'not-needed', ANTHROPIC_BASE_URL: baseUrl };
+    }
+  }
+}
@@ -30,6 +30,7 @@ export type {
 
 // Import for local use
 import type { Workspace, AuthType } from '@craft-agent/core/types';
+import type { ProviderProfile } from './types.ts';
 
 // Config stored in JSON file (credentials stored in encrypted file, not here)
 export interface StoredConfig {
@@ -50,6 +51,24 @@ export interface StoredConfig {
   autoCapitalisation?: boolean;  // Auto-capitalize first letter when typing (default: true)
   sendMessageKey?: 'enter' | 'cmd-enter';  // Key to send messages (default: 'enter')
   spellCheck?: boolean;  // Enable spell check in input (default: false)
+  // Local control API (desktop app only)
+  controlApi?: ControlApiConfig;
+  // Model provider profiles (see provider-profiles.ts)
+  providerProfiles?: ProviderProfile[];
+  defaultProviderProfileId?: string;  // Used when neither the session nor its workspace selects a profile
+  providerFallbackChain?: string[];  // Profile IDs tried in order when the active profile is rate limited or down
+}
+
+/**
+ * Settings for the desktop app's localhost control API (HTTP + WebSocket).
+ * Disabled unless the user opts in from settings.
+ */
+export interface ControlApiConfig {
+  enabled: boolean;
+  /** Port bound on 127.0.0.1 */
+  port: number;
+  /** Bearer token required on every request */
+  token: string;
 }
 
 const CONFIG_FILE = join(CONFIG_DIR, 'config.json');
@@ -324,6 +343,24 @@ export function setSpellCheck(enabled: boolean): void {
   saveConfig(config);
 }
 
+/**
+ * Get the control API settings, or null if it has never been configured.
+ */
+export function getControlApiConfig(): ControlApiConfig | null {
+  const config = loadStoredConfig();
+  return config?.controlApi ?? null;
+}
+
+/**
+ * Save the control API settings.
+ */
+export function setControlApiConfig(controlApi: ControlApiConfig): void {
+  const config = loadStoredConfig();
+  if (!config) return;
+  config.controlApi = controlApi;
+  saveConfig(config);
+}
+
 // Note: getDefaultWorkingDirectory/setDefaultWorkingDirectory removed
 // Working directory is now stored per-workspace in workspace config.json (defaults.workingDirectory)
 // Note: getDefaultPermissionMode/getEnabledPermissionModes removed
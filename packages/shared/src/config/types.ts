@@ -12,3 +12,36 @@ export type {
   AuthType,
   OAuthCredentials,
 } from '@craft-agent/core/types';
+
+// ============================================
+// Model Provider Profiles
+// ============================================
+
+/**
+ * How a provider profile connects to models.
+ * - anthropic: Anthropic API with an API key
+ * - claude_oauth: Claude Pro/Max subscription (the app's Claude sign-in)
+ * - openrouter: OpenRouter's Anthropic-compatible API with an OpenRouter key
+ * - gateway: Any Anthropic-compatible endpoint (LiteLLM, Ollama, a company proxy); key optional
+ */
+export type ProviderProfileKind = 'anthropic' | 'claude_oauth' | 'openrouter' | 'gateway';
+
+/**
+ * A named way of reaching models, stored in config.json under `providerProfiles`.
+ * API keys are stored in the encrypted credential store, never in config.json.
+ */
+export interface ProviderProfile {
+  /** Unique ID slug (referenced by workspaces, sessions and the fallback chain) */
+  id: string;
+  /** Display name (e.g. "OpenRouter", "Office gateway") */
+  name: string;
+  kind: ProviderProfileKind;
+  /** API base URL (required for gateway; optional override for the others) */
+  baseUrl?: string;
+  /**
+   * Model IDs available through this profile, first = default.
+   * A session's model is used when it's in the list; otherwise the first model.
+   * Empty/absent: the session's model is passed through unchanged.
+   */
+  models?: string[];
+}
@@ -324,7 +324,7 @@ const McpSourceConfigSchema = z.object({
 
 const ApiSourceConfigSchema = z.object({
   baseUrl: z.string().url(),
-  authType: z.enum(['bearer', 'header', 'query', 'basic', 'none']),
+  authType: z.enum(['bearer', 'header', 'query', 'basic', 'oauth', 'none']),
   headerName: z.string().optional(),
   queryParam: z.string().optional(),
   authScheme: z.string().optional(),
@@ -336,6 +336,25 @@ const ApiSourceConfigSchema = z.object({
       headers: z.record(z.string(), z.string()).optional(),
     })
     .optional(),
+  oauth: z
+    .object({
+      grantType: z.enum(['authorization_code', 'client_credentials', 'device_code']).optional(),
+      authorizeUrl: z.string().url().optional(),
+      tokenUrl: z.string().url(),
+      deviceAuthorizationUrl: z.string().url().optional(),
+      clientId: z.string().min(1),
+      clientSecret: z.string().optional(),
+      scopes: z.array(z.string()).optional(),
+      pkce: z.boolean().optional(),
+      extraParams: z.record(z.string(), z.string()).optional(),
+    })
+    .optional(),
+  openApi: z
+    .object({
+      spec: z.string().min(1),
+      toolMode: z.enum(['description', 'operations']).optional(),
+    })
+    .optional(),
   googleService: z.enum(['gmail', 'calendar', 'drive', 'docs', 'sheets']).optional(),
   googleScopes: z.array(z.string()).optional(),
 });
@@ -355,6 +374,7 @@ export const FolderSourceConfigSchema = z.object({
   mcp: McpSourceConfigSchema.optional(),
   api: ApiSourceConfigSchema.optional(),
   local: LocalSourceConfigSchema.optional(),
+  disabledTools: z.array(z.string()).optional(),
   isAuthenticated: z.boolean().optional(),
   lastTestedAt: z.number().int().min(0).optional(),
   // Timestamps are optional - manually created configs may not have them
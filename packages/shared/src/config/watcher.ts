@@ -915,7 +915,8 @@ export class ConfigWatcher {
 
   /**
    * Watch app-level permissions directory (~/.craft-agent/permissions/)
-   * Watches for changes to default.json which contains the default read-only patterns
+   * Watches for changes to default.json which contains the default read-only patterns,
+   * and always-allow.json which contains "always allow" rules for all workspaces
    */
   private watchAppPermissionsDir(): void {
     const permissionsDir = getAppPermissionsDir();
@@ -929,8 +930,8 @@ export class ConfigWatcher {
       const watcher = watch(permissionsDir, (eventType, filename) => {
         if (!filename) return;
 
-        // Only watch default.json - this is where the default patterns live
-        if (filename === 'default.json') {
+        // default.json holds the default patterns, always-allow.json the rules saved from prompts
+        if (filename === 'default.json' || filename === 'always-allow.json') {
           this.debounce('default-permissions', () => this.handleDefaultPermissionsChange());
         }
       });
@@ -1015,6 +1016,60 @@ export class ConfigWatcher {
   }
 }
 
+// ============================================================
+// Directory Watching
+// ============================================================
+
+/**
+ * Handle returned by watchDirectory
+ */
+export interface DirectoryWatcher {
+  close(): void;
+}
+
+/**
+ * Watch a directory outside the config tree (e.g. a local source folder)
+ * recursively. Changes are reported as relative paths with forward slashes,
+ * debounced per path. Paths rejected by `ignore` are skipped.
+ */
+export function watchDirectory(
+  dir: string,
+  onChange: (relativePath: string) => void,
+  options: { ignore?: (relativePath: string) => boolean } = {}
+): DirectoryWatcher {
+  const debounceTimers = new Map<string, NodeJS.Timeout>();
+
+  const watcher = watch(dir, { recursive: true }, (_eventType, filename) => {
+    if (!filename) return;
+
+    const relativePath = filename.toString().replace(/\\/g, '/');
+    if (options.ignore?.(relativePath)) return;
+
+    const existing = debounceTimers.get(relativePath);
+    if (existing) {
+      clearTimeout(existing);
+    }
+    debounceTimers.set(relativePath, setTimeout(() => {
+      debounceTimers.delete(relativePath);
+      onChange(relativePath);
+    }, DEBOUNCE_MS));
+  });
+  watcher.on('error', (error) => {
+    debug('[watchDirectory] Error watching directory:', dir, error);
+  });
+  debug('[watchDirectory] Watching recursively:', dir);
+
+  return {
+    close() {
+      for (const timer of debounceTimers.values()) {
+        clearTimeout(timer);
+      }
+      debounceTimers.clear();
+      watcher.close();
+    },
+  };
+}
+
 // ============================================================
 // Factory Function
 // ============================================================
@@ -181,6 +181,17 @@ export class CredentialManager {
     await this.set({ type: 'anthropic_api_key' }, { value: key });
   }
 
+  /** Get the API key of a model provider profile */
+  async getProviderApiKey(profileId: string): Promise<string | null> {
+    const cred = await this.get({ type: 'provider_api_key', name: profileId });
+    return cred?.value || null;
+  }
+
+  /** Set the API key of a model provider profile */
+  async setProviderApiKey(profileId: string, key: string): Promise<void> {
+    await this.set({ type: 'provider_api_key', name: profileId }, { value: key });
+  }
+
   /** Get Claude OAuth token */
   async getClaudeOAuth(): Promise<string | null> {
     const cred = await this.get({ type: 'claude_oauth' });
@@ -9,6 +9,7 @@
  * Examples:
  *   - anthropic_api_key::global
  *   - claude_oauth::global
+ *   - provider_api_key::{profileId}
  *   - source_oauth::{workspaceId}::{sourceId}
  *   - source_bearer::{workspaceId}::{sourceId}
  *
@@ -20,6 +21,7 @@ export type CredentialType =
   // Global credentials
   | 'anthropic_api_key'  // Anthropic API key for Claude
   | 'claude_oauth'       // Claude OAuth token (Max subscription)
+  | 'provider_api_key'   // API key of a model provider profile (name = profile ID)
   // Workspace credentials
   | 'workspace_oauth'    // Workspace MCP OAuth token
   // Source credentials (stored at ~/.craft-agent/workspaces/{ws}/sources/{slug}/)
@@ -32,6 +34,7 @@ export type CredentialType =
 const VALID_CREDENTIAL_TYPES: readonly CredentialType[] = [
   'anthropic_api_key',
   'claude_oauth',
+  'provider_api_key',
   'workspace_oauth',
   'source_oauth',
   'source_bearer',
@@ -120,6 +123,13 @@ export function credentialIdToAccount(id: CredentialId): string {
     return parts.join(CREDENTIAL_DELIMITER);
   }
 
+  // Provider profile format:
+  // provider_api_key::{profileId}
+  if (id.type === 'provider_api_key' && id.name) {
+    parts.push(id.name);
+    return parts.join(CREDENTIAL_DELIMITER);
+  }
+
   parts.push('global');
   return parts.join(CREDENTIAL_DELIMITER);
 }
@@ -148,6 +158,12 @@ export function accountToCredentialId(account: string): CredentialId | null {
     return { type, workspaceId: parts[1], sourceId: parts[2] };
   }
 
+  // Provider profile format:
+  // provider_api_key::{profileId}
+  if (type === 'provider_api_key' && parts.length === 2) {
+    return { type, name: parts[1] };
+  }
+
   if (parts.length === 2 && parts[1] === 'global') {
     return { type };
   }
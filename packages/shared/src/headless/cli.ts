@@ -0,0 +1,417 @@
+#!/usr/bin/env bun
+/**
+ * craft - command-line entry point for headless execution.
+ *
+ * Usage:
+ *   craft run "Summarize open issues" --workspace "My Workspace" --output stream-json
+ *   echo "Summarize open issues" | craft run --session-resume
+ *   craft export 260111-swift-river --file transcript.md --no-tools
+ *   craft import ~/.claude/projects/my-project chatgpt-export.zip
+ *
+ * Sessions are written to {workspace}/sessions/{id}/session.jsonl, so runs started
+ * from scripts or cron can be opened in the desktop app afterwards.
+ *
+ * Exit codes (see CLI_EXIT_CODES):
+ *   0 - success
+ *   1 - execution error (agent or tool failure)
+ *   2 - usage error (invalid arguments, empty prompt)
+ *   3 - configuration missing (unknown workspace, no workspace configured)
+ *   4 - authentication required (no credentials - sign in with the desktop app first)
+ */
+
+import { parseArgs } from 'util';
+import { writeFileSync } from 'fs';
+import { getWorkspaceByNameOrId, getActiveWorkspace } from '../config/storage.ts';
+import { APP_VERSION } from '../version/index.ts';
+import { loadSession } from '../sessions/storage.ts';
+import { sessionToMarkdown, type SessionExportOptions } from '../sessions/export.ts';
+import { importConversations, readImportFile, IMPORT_FORMAT_LABELS, type ImportedConversation, type ImportSourceFormat } from '../sessions/import/index.ts';
+import { HeadlessRunner } from './runner.ts';
+import { writeStreamingOutput, formatJsonOutput, formatStreamEvent } from './output.ts';
+import type { HeadlessConfig, HeadlessError, HeadlessResult } from './types.ts';
+
+type OutputFormat = NonNullable<HeadlessConfig['outputFormat']>;
+type PermissionPolicy = NonNullable<HeadlessConfig['permissionPolicy']>;
+
+const OUTPUT_FORMATS: OutputFormat[] = ['text', 'json', 'stream-json'];
+const PERMISSION_POLICIES: PermissionPolicy[] = ['deny-all', 'allow-safe', 'allow-all'];
+
+/**
+ * Documented process exit codes.
+ * Each HeadlessError code maps to its own exit code so scripts can branch on failures.
+ */
+export const CLI_EXIT_CODES = {
+  success: 0,
+  execution_error: 1,
+  usage_error: 2,
+  config_missing: 3,
+  auth_required: 4,
+} as const satisfies Record<'success' | 'usage_error' | HeadlessError['code'], number>;
+
+export const CLI_USAGE = `craft ${APP_VERSION}
+
+Usage:
+  craft run [prompt] [options]
+  craft export <session-id> [options]
+  craft import <path...> [options]
+
+Runs a single prompt against a workspace without the desktop app.
+When the prompt is omitted or "-", it is read from stdin.
+
+Export writes a session transcript as Markdown to stdout (or --file).
+HTML and PDF export are available from the session menu in the desktop app.
+
+Import creates sessions from Claude Code transcripts (.jsonl files or a
+~/.claude/projects directory) and ChatGPT or Claude.ai data exports
+(conversations.json or the export .zip). Conversations already imported are skipped.
+
+Options:
+  -w, --workspace <name|id>      Workspace to run in (default: active workspace)
+  -m, --model <id>               Model override
+  -o, --output <format>          text | json | stream-json (default: text)
+  -p, --permission-policy <p>    deny-all | allow-safe | allow-all (default: deny-all)
+  -s, --session <id>             Use (or create) the session with this ID
+  -r, --session-resume           Continue the most recent session in the workspace
+  -f, --file <path>              export: write to a file instead of stdout
+      --no-tools                 export: omit tool calls and results
+      --no-thinking              export: omit intermediate assistant text
+      --no-attachments           export: omit attachment names
+  -h, --help                     Show this help
+  -v, --version                  Show version
+
+Exit codes:
+  0  success
+  1  execution error
+  2  usage error
+  3  configuration missing (unknown workspace)
+  4  authentication required
+`;
+
+/**
+ * Thrown for invalid command-line usage (exit code 2).
+ */
+export class CliUsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CliUsageError';
+  }
+}
+
+/**
+ * Parsed command-line invocation.
+ */
+export type CliCommand =
+  | { kind: 'help' }
+  | { kind: 'version' }
+  | {
+      kind: 'run';
+      /** Prompt from argv. Undefined (or '-') means read from stdin. */
+      prompt?: string;
+      workspace?: string;
+      model?: string;
+      outputFormat: OutputFormat;
+      permissionPolicy: PermissionPolicy;
+      sessionId?: string;
+      sessionResume: boolean;
+    }
+  | {
+      kind: 'export';
+      sessionId: string;
+      workspace?: string;
+      /** Output file. Undefined means stdout. */
+      file?: string;
+      options: SessionExportOptions;
+    }
+  | {
+      kind: 'import';
+      paths: string[];
+      workspace?: string;
+    };
+
+/** Flags that only apply to `craft run` */
+const RUN_ONLY_FLAGS = ['model', 'output', 'permission-policy', 'session', 'session-resume'] as const;
+
+/** Flags that only apply to `craft export` */
+const EXPORT_ONLY_FLAGS = ['file', 'no-tools', 'no-thinking', 'no-attachments'] as const;
+
+/**
+ * Parse command-line arguments (without the runtime and script path).
+ *
+ * @throws CliUsageError on unknown commands, flags, or invalid values
+ */
+export function parseCliArgs(argv: string[]): CliCommand {
+  let parsed: ReturnType<typeof parseCliOptions>;
+  try {
+    parsed = parseCliOptions(argv);
+  } catch (err) {
+    throw new CliUsageError(err instanceof Error ? err.message : String(err));
+  }
+  const { values, positionals } = parsed;
+
+  if (values.help) return { kind: 'help' };
+  if (values.version) return { kind: 'version' };
+
+  const [command, ...rest] = positionals;
+  if (!command) return { kind: 'help' };
+  if (command !== 'run' && command !== 'export' && command !== 'import') {
+    throw new CliUsageError(`Unknown command: ${command}`);
+  }
+
+  const invalidFlags = {
+    run: EXPORT_ONLY_FLAGS,
+    export: RUN_ONLY_FLAGS,
+    import: [...RUN_ONLY_FLAGS, ...EXPORT_ONLY_FLAGS],
+  }[command];
+  const invalidFlag = invalidFlags.find(flag => values[flag] !== undefined);
+  if (invalidFlag) {
+    throw new CliUsageError(`--${invalidFlag} is not valid for ${command}`);
+  }
+
+  if (command === 'export') {
+    const [sessionId, ...extra] = rest;
+    if (!sessionId || extra.length > 0) {
+      throw new CliUsageError('export takes exactly one session ID');
+    }
+    return {
+      kind: 'export',
+      sessionId,
+      workspace: values.workspace,
+      file: values.file,
+      options: {
+        includeToolCalls: !values['no-tools'],
+        includeThinking: !values['no-thinking'],
+        includeAttachments: !values['no-attachments'],
+      },
+    };
+  }
+
+  if (command === 'import') {
+    if (rest.length === 0) {
+      throw new CliUsageError('import takes at least one file or directory');
+    }
+    return { kind: 'import', paths: rest, workspace: values.workspace };
+  }
+
+  const outputFormat = (values.output ?? 'text') as OutputFormat;
+  if (!OUTPUT_FORMATS.includes(outputFormat)) {
+    throw new CliUsageError(`Invalid --output "${values.output}". Expected one of: ${OUTPUT_FORMATS.join(', ')}`);
+  }
+
+  const permissionPolicy = (values['permission-policy'] ?? 'deny-all') as PermissionPolicy;
+  if (!PERMISSION_POLICIES.includes(permissionPolicy)) {
+    throw new CliUsageError(`Invalid --permission-policy "${values['permission-policy']}". Expected one of: ${PERMISSION_POLICIES.join(', ')}`);
+  }
+
+  if (values.session && values['session-resume']) {
+    throw new CliUsageError('--session and --session-resume cannot be used together');
+  }
+
+  return {
+    kind: 'run',
+    prompt: rest.length > 0 ? rest.join(' ') : undefined,
+    workspace: values.workspace,
+    model: values.model,
+    outputFormat,
+    permissionPolicy,
+    sessionId: values.session,
+    sessionResume: values['session-resume'] ?? false,
+  };
+}
+
+function parseCliOptions(argv: string[]) {
+  return parseArgs({
+    args: argv,
+    allowPositionals: true,
+    strict: true,
+    options: {
+      workspace: { type: 'string', short: 'w' },
+      model: { type: 'string', short: 'm' },
+      output: { type: 'string', short: 'o' },
+      'permission-policy': { type: 'string', short: 'p' },
+      session: { type: 'string', short: 's' },
+      'session-resume': { type: 'boolean', short: 'r' },
+      file: { type: 'string', short: 'f' },
+      'no-tools': { type: 'boolean' },
+      'no-thinking': { type: 'boolean' },
+      'no-attachments': { type: 'boolean' },
+      help: { type: 'boolean', short: 'h' },
+      version: { type: 'boolean', short: 'v' },
+    },
+  });
+}
+
+/**
+ * Map a headless result to the documented process exit code.
+ */
+export function exitCodeForResult(result: HeadlessResult): number {
+  if (result.success) return CLI_EXIT_CODES.success;
+  return CLI_EXIT_CODES[result.error?.code ?? 'execution_error'];
+}
+
+/**
+ * Read the whole of stdin (used when the prompt is piped in).
+ */
+async function readStdin(): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) {
+    chunks.push(typeof chunk === 'string' ? Buffer.from(chunk) : chunk);
+  }
+  return Buffer.concat(chunks).toString('utf-8');
+}
+
+/**
+ * Print a failure that happened before the runner started, in the requested format.
+ */
+function writeEarlyFailure(error: HeadlessError, format: OutputFormat): HeadlessResult {
+  const result: HeadlessResult = { success: false, error };
+  if (format === 'json') {
+    console.log(formatJsonOutput(result));
+  } else if (format === 'stream-json') {
+    console.log(formatStreamEvent({ type: 'complete', result }));
+  } else {
+    console.error(`Error: ${error.message}`);
+  }
+  return result;
+}
+
+/**
+ * Export a session transcript as Markdown and return the process exit code.
+ */
+function exportSessionCommand(command: Extract<CliCommand, { kind: 'export' }>): number {
+  const workspace = command.workspace
+    ? getWorkspaceByNameOrId(command.workspace)
+    : getActiveWorkspace();
+  if (!workspace) {
+    console.error(command.workspace
+      ? `Error: Workspace not found: ${command.workspace}`
+      : 'Error: No active workspace. Create one in the desktop app or pass --workspace.');
+    return CLI_EXIT_CODES.config_missing;
+  }
+
+  const session = loadSession(workspace.rootPath, command.sessionId);
+  if (!session) {
+    console.error(`Error: Session not found in ${workspace.name}: ${command.sessionId}`);
+    return CLI_EXIT_CODES.usage_error;
+  }
+
+  const markdown = sessionToMarkdown(session, command.options);
+  if (command.file) {
+    writeFileSync(command.file, markdown, 'utf-8');
+  } else {
+    process.stdout.write(markdown);
+  }
+  return CLI_EXIT_CODES.success;
+}
+
+/**
+ * Import transcripts from other apps into a workspace and return the process exit code.
+ */
+async function importSessionsCommand(command: Extract<CliCommand, { kind: 'import' }>): Promise<number> {
+  const workspace = command.workspace
+    ? getWorkspaceByNameOrId(command.workspace)
+    : getActiveWorkspace();
+  if (!workspace) {
+    console.error(command.workspace
+      ? `Error: Workspace not found: ${command.workspace}`
+      : 'Error: No active workspace. Create one in the desktop app or pass --workspace.');
+    return CLI_EXIT_CODES.config_missing;
+  }
+
+  const conversations: ImportedConversation[] = [];
+  for (const path of command.paths) {
+    try {
+      conversations.push(...await readImportFile(path));
+    } catch (err) {
+      console.error(`Error: ${err instanceof Error ? err.message : String(err)}`);
+      return CLI_EXIT_CODES.usage_error;
+    }
+  }
+
+  const { imported, skipped } = await importConversations(workspace.rootPath, conversations);
+  for (const session of imported) {
+    const format = session.importSource?.split(':')[0] as ImportSourceFormat;
+    console.log(`${session.id}  ${session.name ?? '(untitled)'}  [${IMPORT_FORMAT_LABELS[format]}]`);
+  }
+  console.log(`Imported ${imported.length} conversation${imported.length === 1 ? '' : 's'} into ${workspace.name}`
+    + (skipped.length > 0 ? ` (${skipped.length} already imported)` : ''));
+  return CLI_EXIT_CODES.success;
+}
+
+/**
+ * Run the CLI and return the process exit code.
+ */
+export async function runCli(argv: string[]): Promise<number> {
+  let command: CliCommand;
+  try {
+    command = parseCliArgs(argv);
+  } catch (err) {
+    if (err instanceof CliUsageError) {
+      console.error(`Error: ${err.message}\n`);
+      console.error(CLI_USAGE);
+      return CLI_EXIT_CODES.usage_error;
+    }
+    throw err;
+  }
+
+  if (command.kind === 'help') {
+    console.log(CLI_USAGE);
+    return CLI_EXIT_CODES.success;
+  }
+  if (command.kind === 'version') {
+    console.log(APP_VERSION);
+    return CLI_EXIT_CODES.success;
+  }
+
+  if (command.kind === 'export') {
+    return exportSessionCommand(command);
+  }
+  if (command.kind === 'import') {
+    return importSessionsCommand(command);
+  }
+
+  // Resolve prompt (argv, or stdin when omitted / "-")
+  let prompt = command.prompt;
+  if (prompt === undefined || prompt === '-') {
+    prompt = process.stdin.isTTY ? '' : await readStdin();
+  }
+  prompt = prompt.trim();
+  if (!prompt) {
+    console.error('Error: No prompt given. Pass it as an argument or pipe it via stdin.\n');
+    console.error(CLI_USAGE);
+    return CLI_EXIT_CODES.usage_error;
+  }
+
+  // Resolve workspace
+  const workspace = command.workspace
+    ? getWorkspaceByNameOrId(command.workspace)
+    : getActiveWorkspace();
+  if (!workspace) {
+    const message = command.workspace
+      ? `Workspace not found: ${command.workspace}`
+      : 'No active workspace. Create one in the desktop app or pass --workspace.';
+    const result = writeEarlyFailure({ code: 'config_missing', message }, command.outputFormat);
+    return exitCodeForResult(result);
+  }
+
+  const runner = new HeadlessRunner({
+    prompt,
+    workspace,
+    model: command.model,
+    outputFormat: command.outputFormat,
+    permissionPolicy: command.permissionPolicy,
+    sessionId: command.sessionId,
+    sessionResume: command.sessionResume,
+  });
+
+  const result = await writeStreamingOutput(runner.runStreaming(), command.outputFormat);
+  return exitCodeForResult(result);
+}
+
+if (import.meta.main) {
+  runCli(process.argv.slice(2))
+    .then((code) => process.exit(code))
+    .catch((err) => {
+      console.error(`Error: ${err instanceof Error ? err.message : String(err)}`);
+      process.exit(CLI_EXIT_CODES.execution_error);
+    });
+}
@@ -1,4 +1,5 @@
 export { HeadlessRunner } from './runner.ts';
+export { runCli, parseCliArgs, exitCodeForResult, CliUsageError, CLI_EXIT_CODES, type CliCommand } from './cli.ts';
 export { writeStreamingOutput, formatTextOutput, formatJsonOutput, formatStreamEvent } from './output.ts';
 export type {
   HeadlessConfig,
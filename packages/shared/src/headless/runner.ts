@@ -1,10 +1,20 @@
 import { CraftAgent, type CraftAgentConfig, type PermissionMode, type SdkMcpServerConfig } from '../agent/craft-agent.ts';
 import { createApiServer } from '../sources/api-tools.ts';
-import { listSessions, getOrCreateSessionById, updateSessionSdkId } from '../sessions/storage.ts';
+import {
+  listSessions,
+  createSession,
+  getOrCreateSessionById,
+  loadSession,
+  saveSession,
+} from '../sessions/storage.ts';
+import type { StoredSession, StoredMessage } from '../sessions/types.ts';
+import { getAuthState } from '../auth/state.ts';
+import { getAnthropicBaseUrl } from '../config/storage.ts';
 import { debug } from '../utils/debug.ts';
 import { DEFAULT_MODEL } from '../config/models.ts';
 import { getCredentialManager } from '../credentials/index.ts';
 import type { CredentialId, CredentialType } from '../credentials/types.ts';
+import { generateMessageId, type AgentEventUsage } from '@craft-agent/core/types';
 import type {
   HeadlessConfig,
   HeadlessResult,
@@ -53,8 +63,10 @@ export class HeadlessRunner {
   private agent: CraftAgent | null = null;
 
   // Session management
+  // Every headless run is recorded as a regular session (sessions/{id}/session.jsonl)
+  // so it can be opened in the desktop app afterwards.
   private workspaceRootPath: string | null = null;
-  private sessionIdToUpdate: string | null = null;
+  private session: StoredSession | null = null;
 
   constructor(config: HeadlessConfig) {
     this.config = config;
@@ -85,15 +97,32 @@ export class HeadlessRunner {
       yield { type: 'status', message: 'Connecting to workspace...' };
       this.workspaceRootPath = this.config.workspace.rootPath;
 
-      // 2. Create CraftAgent with headless callbacks
+      // 2. Resolve credentials (headless mode can't prompt for them)
+      const authError = await this.applyAuthEnvironment();
+      if (authError) {
+        yield {
+          type: 'complete',
+          result: {
+            success: false,
+            error: { code: 'auth_required', message: authError },
+          },
+        };
+        return;
+      }
+
+      // 3. Create CraftAgent with headless callbacks
       await this.createAgent();
 
-      // 3. Execute query
+      // 4. Execute query
       yield { type: 'status', message: 'Processing...' };
 
       let response = '';
       const toolCalls: ToolCallRecord[] = [];
       let usage: HeadlessResult['usage'];
+      // Tool names by toolUseId (tool_result events don't always carry the name)
+      const toolNames = new Map<string, string>();
+
+      this.appendMessage({ type: 'user', content: this.config.prompt });
 
       // Wrap prompt with headless mode XML tags to signal safe mode should be disabled
       const wrappedPrompt = `<headless_mode tools_usage="no-interactive-tools" safe_mode="disabled">
@@ -111,10 +140,33 @@ ${this.config.prompt}
             break;
 
           case 'text_complete':
-            response = event.text;
+            if (!event.isIntermediate) {
+              response = event.text;
+            }
+            this.appendMessage({
+              type: 'assistant',
+              content: event.text,
+              isIntermediate: event.isIntermediate,
+              turnId: event.turnId,
+              parentToolUseId: event.parentToolUseId,
+            });
             break;
 
           case 'tool_start':
+            toolNames.set(event.toolUseId, event.toolName);
+            this.appendMessage({
+              type: 'tool',
+              content: '',
+              toolName: event.toolName,
+              toolUseId: event.toolUseId,
+              toolInput: event.input,
+              toolStatus: 'executing',
+              toolIntent: event.intent,
+              toolDisplayName: event.displayName,
+              toolDisplayMeta: event.toolDisplayMeta,
+              turnId: event.turnId,
+              parentToolUseId: event.parentToolUseId,
+            });
             yield {
               type: 'tool_start',
               id: event.toolUseId,
@@ -123,10 +175,12 @@ ${this.config.prompt}
             };
             break;
 
-          case 'tool_result':
+          case 'tool_result': {
+            const toolName = event.toolName ?? toolNames.get(event.toolUseId) ?? event.toolUseId;
+            this.completeToolMessage(event.toolUseId, event.result, event.isError);
             toolCalls.push({
               id: event.toolUseId,
-              name: event.toolUseId, // We don't have tool name in result, use ID
+              name: toolName,
               input: event.input ?? {},
               result: event.result,
               isError: event.isError,
@@ -134,13 +188,15 @@ ${this.config.prompt}
             yield {
               type: 'tool_result',
               id: event.toolUseId,
-              name: event.toolUseId,
+              name: toolName,
               result: event.result,
               isError: event.isError,
             };
             break;
+          }
 
           case 'error':
+            this.appendMessage({ type: 'error', content: event.message });
             yield { type: 'error', message: event.message };
             break;
 
@@ -153,6 +209,7 @@ ${this.config.prompt}
                 cacheCreationTokens: event.usage.cacheCreationTokens,
                 costUsd: event.usage.costUsd ?? 0,
               };
+              this.recordUsage(event.usage);
             }
             break;
         }
@@ -166,17 +223,19 @@ ${this.config.prompt}
           response,
           toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
           usage,
-          sessionId: this.agent?.getSessionId() ?? undefined,
+          sessionId: this.session?.id,
         },
       };
     } catch (err) {
       const message = err instanceof Error ? err.message : 'Unknown error';
       debug('[HeadlessRunner] Error:', message);
+      this.appendMessage({ type: 'error', content: message });
       yield {
         type: 'complete',
         result: {
           success: false,
           error: { code: 'execution_error', message },
+          sessionId: this.session?.id,
         },
       };
     } finally {
@@ -184,6 +243,46 @@ ${this.config.prompt}
     }
   }
 
+  /**
+   * Export billing credentials into the environment read by the SDK subprocess.
+   * Mirrors the desktop app's auth initialization (custom base URL > OAuth token > API key).
+   *
+   * @returns An error message when no usable credentials are configured, otherwise null
+   */
+  private async applyAuthEnvironment(): Promise<string | null> {
+    const { billing } = await getAuthState();
+    const customBaseUrl = getAnthropicBaseUrl();
+
+    if (customBaseUrl) {
+      process.env.ANTHROPIC_BASE_URL = customBaseUrl;
+      delete process.env.CLAUDE_CODE_OAUTH_TOKEN;
+      // Providers like Ollama don't validate keys
+      process.env.ANTHROPIC_API_KEY = billing.apiKey || 'not-needed';
+      return null;
+    }
+
+    if (billing.type === 'oauth_token' && billing.claudeOAuthToken) {
+      process.env.CLAUDE_CODE_OAUTH_TOKEN = billing.claudeOAuthToken;
+      delete process.env.ANTHROPIC_API_KEY;
+      delete process.env.ANTHROPIC_BASE_URL;
+      return null;
+    }
+
+    if (billing.apiKey) {
+      process.env.ANTHROPIC_API_KEY = billing.apiKey;
+      delete process.env.CLAUDE_CODE_OAUTH_TOKEN;
+      delete process.env.ANTHROPIC_BASE_URL;
+      return null;
+    }
+
+    // Allow credentials supplied directly through the environment (CI, cron)
+    if (process.env.ANTHROPIC_API_KEY || process.env.CLAUDE_CODE_OAUTH_TOKEN) {
+      return null;
+    }
+
+    return 'No credentials configured. Sign in with the desktop app first, or set ANTHROPIC_API_KEY.';
+  }
+
   /**
    * Create CraftAgent with headless callbacks for permissions and questions.
    */
@@ -192,16 +291,20 @@ ${this.config.prompt}
     const permissionMode = policyToPermissionMode(this.config.permissionPolicy);
     debug('[HeadlessRunner] Using permission mode:', permissionMode, 'from policy:', this.config.permissionPolicy || 'deny-all');
 
+    // Resolve the craft session this run is recorded in
+    this.session = await this.resolveSession(permissionMode);
+
     const agentConfig: CraftAgentConfig = {
       workspace: this.config.workspace,
-      model: this.config.model,
+      model: this.config.model ?? this.session.model,
       isHeadless: true,
-      // Create a minimal session config with the permission mode
       session: {
-        id: `headless-${Date.now()}`,
+        id: this.session.id,
         workspaceRootPath: this.config.workspace.rootPath,
-        createdAt: Date.now(),
+        createdAt: this.session.createdAt,
         lastUsedAt: Date.now(),
+        sdkCwd: this.session.sdkCwd,
+        workingDirectory: this.session.workingDirectory,
         permissionMode,
       },
     };
@@ -231,54 +334,116 @@ ${this.config.prompt}
       this.agent!.respondToPermission(request.requestId, false, false);
     };
 
-    // Set session ID based on flags
-    // Default: fresh session (don't set any - SDK will create new)
-    if (this.config.sessionId && this.workspaceRootPath) {
-      // --session: get or create session with this ID
-      const session = await getOrCreateSessionById(this.workspaceRootPath, this.config.sessionId);
-      this.sessionIdToUpdate = session.id;  // Save to update SDK session ID after run
-      if (session.sdkSessionId) {
-        debug('[HeadlessRunner] Resuming session (--session) - craft:', session.id, 'sdk:', session.sdkSessionId);
-        this.agent.setSessionId(session.sdkSessionId);
-      } else {
-        debug('[HeadlessRunner] New session created (--session) - craft:', session.id, 'sdk: none (will be saved after run)');
-        // Fresh SDK session - will be saved after run
-      }
-    } else if (this.config.sessionResume && this.workspaceRootPath) {
-      // --session-resume: continue the last session for this workspace
-      const sessions = listSessions(this.workspaceRootPath);
-      if (sessions.length > 0 && sessions[0]) {
-        this.sessionIdToUpdate = sessions[0].id;  // Save to update SDK session ID after run
-        if (sessions[0].sdkSessionId) {
-          debug('[HeadlessRunner] Resuming last session (--session-resume) - craft:', sessions[0].id, 'sdk:', sessions[0].sdkSessionId);
-          this.agent.setSessionId(sessions[0].sdkSessionId);
-        } else {
-          debug('[HeadlessRunner] Last session has no SDK session (--session-resume) - craft:', sessions[0].id, 'sdk: none');
-        }
+    // Resume the SDK conversation when the craft session already has one
+    if (this.session.sdkSessionId) {
+      debug('[HeadlessRunner] Resuming session - craft:', this.session.id, 'sdk:', this.session.sdkSessionId);
+      this.agent.setSessionId(this.session.sdkSessionId);
+    } else {
+      debug('[HeadlessRunner] Fresh SDK session - craft:', this.session.id, 'sdk: none (will be saved after run)');
+    }
+  }
+
+  /**
+   * Find or create the craft session for this run based on the session flags.
+   * - --session <id>: get or create the session with that ID
+   * - --session-resume: continue the most recent session in the workspace
+   * - default: create a fresh session (predictable for automation)
+   */
+  private async resolveSession(permissionMode: PermissionMode): Promise<StoredSession> {
+    const rootPath = this.config.workspace.rootPath;
+    let sessionId: string | undefined;
+
+    if (this.config.sessionId) {
+      sessionId = (await getOrCreateSessionById(rootPath, this.config.sessionId)).id;
+      debug('[HeadlessRunner] Using session (--session):', sessionId);
+    } else if (this.config.sessionResume) {
+      const sessions = listSessions(rootPath);
+      sessionId = sessions[0]?.id;
+      if (sessionId) {
+        debug('[HeadlessRunner] Resuming last session (--session-resume):', sessionId);
       } else {
         debug('[HeadlessRunner] No previous session found (--session-resume), starting fresh');
       }
-    } else {
-      // Default: fresh session each run (predictable for automation)
-      debug('[HeadlessRunner] Fresh session (default headless mode) - no craft session, no sdk session');
     }
+
+    if (!sessionId) {
+      sessionId = (await createSession(rootPath, {
+        permissionMode,
+        model: this.config.model,
+      })).id;
+      debug('[HeadlessRunner] Created session:', sessionId);
+    }
+
+    const session = loadSession(rootPath, sessionId);
+    if (!session) {
+      throw new Error(`Failed to load session ${sessionId}`);
+    }
+    return session;
   }
 
   /**
-   * Clean up resources.
+   * Append a message to the recorded session transcript.
+   */
+  private appendMessage(message: Omit<StoredMessage, 'id' | 'timestamp'>): void {
+    if (!this.session) return;
+    this.session.messages.push({
+      id: generateMessageId(),
+      timestamp: Date.now(),
+      ...message,
+    });
+  }
+
+  /**
+   * Fill in the result of a previously recorded tool message.
+   */
+  private completeToolMessage(toolUseId: string, result: string, isError: boolean): void {
+    const message = this.session?.messages.find(m => m.toolUseId === toolUseId);
+    if (!message) return;
+    message.toolResult = result;
+    message.toolStatus = isError ? 'error' : 'completed';
+    message.toolDuration = message.timestamp ? Date.now() - message.timestamp : undefined;
+    message.isError = isError;
+  }
+
+  /**
+   * Accumulate token usage the same way the desktop app does:
+   * input/cache tokens reflect the latest context, output tokens and cost accumulate.
+   */
+  private recordUsage(usage: AgentEventUsage): void {
+    if (!this.session) return;
+    const tokenUsage = this.session.tokenUsage;
+    tokenUsage.inputTokens = usage.inputTokens;
+    tokenUsage.outputTokens += usage.outputTokens;
+    tokenUsage.totalTokens = tokenUsage.inputTokens + tokenUsage.outputTokens;
+    tokenUsage.costUsd += usage.costUsd ?? 0;
+    tokenUsage.cacheReadTokens = usage.cacheReadTokens ?? 0;
+    tokenUsage.cacheCreationTokens = usage.cacheCreationTokens ?? 0;
+    if (usage.contextWindow) {
+      tokenUsage.contextWindow = usage.contextWindow;
+    }
+  }
+
+  /**
+   * Persist the session and clean up resources.
    */
   private async cleanup(): Promise<void> {
-    // Save SDK session ID to our session storage (if using --session or --session-resume)
-    if (this.sessionIdToUpdate && this.agent && this.workspaceRootPath) {
-      const sdkSessionId = this.agent.getSessionId();
+    if (this.session) {
+      // Save SDK session ID so the next --session/--session-resume run continues the conversation
+      const sdkSessionId = this.agent?.getSessionId();
       if (sdkSessionId) {
-        debug('[HeadlessRunner] Saving session - craft:', this.sessionIdToUpdate, 'sdk:', sdkSessionId);
-        updateSessionSdkId(this.workspaceRootPath, this.sessionIdToUpdate, sdkSessionId);
+        this.session.sdkSessionId = sdkSessionId;
+      }
+      const now = Date.now();
+      this.session.lastUsedAt = now;
+      if (this.session.messages.length > 0) {
+        this.session.lastMessageAt = now;
       }
+      debug('[HeadlessRunner] Saving session - craft:', this.session.id, 'sdk:', sdkSessionId);
+      await saveSession(this.session);
     }
 
     this.agent = null;
     this.workspaceRootPath = null;
-    this.sessionIdToUpdate = null;
+    this.session = null;
   }
 }
@@ -15,6 +15,7 @@
  *
  * Available modules:
  *   - agent: CraftAgent SDK wrapper, plan tools
+ *   - analytics: Usage and cost breakdowns from session headers
  *   - auth: OAuth, token management, auth state
  *   - clients: Craft API client
  *   - config: Storage, models, preferences
@@ -22,6 +23,7 @@
  *   - headless: Non-interactive execution mode
  *   - mcp: MCP client, connection validation
  *   - prompts: System prompt generation
+ *   - schedules: Cron-triggered prompts that spawn sessions
  *   - sources: Workspace-scoped source management (MCP, API, local)
  *   - utils: Debug logging, file handling, summarization
  *   - validation: URL validation
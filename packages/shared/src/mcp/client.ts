@@ -7,7 +7,7 @@ import { Client } from '@modelcontextprotocol/sdk/client/index.js';
 import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
 import { StdioClientTransport } from '@modelcontextprotocol/sdk/client/stdio.js';
 import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
-import type { Tool } from '@modelcontextprotocol/sdk/types.js';
+import type { GetPromptResult, Prompt, ReadResourceResult, Resource, Tool } from '@modelcontextprotocol/sdk/types.js';
 
 /**
  * HTTP transport config for remote MCP servers
@@ -132,6 +132,62 @@ export class CraftMcpClient {
     return result;
   }
 
+  /**
+   * List the server's resources. Returns an empty list for servers without
+   * the resources capability. Follows pagination cursors.
+   */
+  async listResources(): Promise<Resource[]> {
+    if (!this.connected) {
+      await this.connect();
+    }
+    if (!this.client.getServerCapabilities()?.resources) return [];
+
+    const resources: Resource[] = [];
+    let cursor: string | undefined;
+    do {
+      const result = await this.client.listResources(cursor ? { cursor } : undefined);
+      resources.push(...result.resources);
+      cursor = result.nextCursor;
+    } while (cursor);
+    return resources;
+  }
+
+  async readResource(uri: string): Promise<ReadResourceResult> {
+    if (!this.connected) {
+      await this.connect();
+    }
+
+    return this.client.readResource({ uri });
+  }
+
+  /**
+   * List the server's prompt templates. Returns an empty list for servers
+   * without the prompts capability. Follows pagination cursors.
+   */
+  async listPrompts(): Promise<Prompt[]> {
+    if (!this.connected) {
+      await this.connect();
+    }
+    if (!this.client.getServerCapabilities()?.prompts) return [];
+
+    const prompts: Prompt[] = [];
+    let cursor: string | undefined;
+    do {
+      const result = await this.client.listPrompts(cursor ? { cursor } : undefined);
+      prompts.push(...result.prompts);
+      cursor = result.nextCursor;
+    } while (cursor);
+    return prompts;
+  }
+
+  async getPrompt(name: string, args: Record<string, string> = {}): Promise<GetPromptResult> {
+    if (!this.connected) {
+      await this.connect();
+    }
+
+    return this.client.getPrompt({ name, arguments: args });
+  }
+
   async close(): Promise<void> {
     if (this.connected) {
       await this.client.close();
@@ -139,3 +195,43 @@ export class CraftMcpClient {
     }
   }
 }
+
+/**
+ * Join the text contents of a resource. Binary contents are replaced by a
+ * placeholder naming their MIME type and size.
+ */
+export function formatResourceContents(result: ReadResourceResult): string {
+  return result.contents
+    .map(content => {
+      if ('text' in content && typeof content.text === 'string') return content.text;
+      const blob = 'blob' in content && typeof content.blob === 'string' ? content.blob : '';
+      const bytes = Math.floor((blob.length * 3) / 4);
+      return `[binary content: ${content.mimeType ?? 'application/octet-stream'}, ${bytes} bytes]`;
+    })
+    .join('\n\n');
+}
+
+/**
+ * Flatten a prompt's messages into text for the chat input. Assistant
+ * messages are labeled; resources embedded in messages are inlined.
+ */
+export function formatPromptMessages(result: GetPromptResult): string {
+  return result.messages
+    .map(message => {
+      const { content } = message;
+      let text = '';
+      if (content.type === 'text') {
+        text = content.text;
+      } else if (content.type === 'resource') {
+        text = 'text' in content.resource && typeof content.resource.text === 'string'
+          ? content.resource.text
+          : `[resource: ${content.resource.uri}]`;
+      } else if (content.type === 'resource_link') {
+        text = `[resource: ${content.uri}]`;
+      } else {
+        text = `[${content.type}]`;
+      }
+      return message.role === 'assistant' ? `Assistant: ${text}` : text;
+    })
+    .join('\n\n');
+}
@@ -0,0 +1,103 @@
+/**
+ * Tests for schedule cron expressions.
+ *
+ * Covers:
+ * - parseCronExpression: fields, lists, ranges, steps, names, macros
+ * - validateCronExpression: error messages for invalid input
+ * - cronMatches / getNextCronRun: local-time matching and next-run search
+ */
+
+import { describe, test, expect } from 'bun:test';
+import {
+  parseCronExpression,
+  validateCronExpression,
+  cronMatches,
+  getNextCronRun,
+} from '../cron.ts';
+
+describe('parseCronExpression', () => {
+  test('parses lists, ranges and steps', () => {
+    const schedule = parseCronExpression('*/15 9-11 1,15 * 1-5');
+    expect([...schedule.minutes]).toEqual([0, 15, 30, 45]);
+    expect([...schedule.hours]).toEqual([9, 10, 11]);
+    expect([...schedule.daysOfMonth]).toEqual([1, 15]);
+    expect(schedule.months.size).toBe(12);
+    expect([...schedule.daysOfWeek]).toEqual([1, 2, 3, 4, 5]);
+    expect(schedule.anyDayOfMonth).toBe(false);
+    expect(schedule.anyDayOfWeek).toBe(false);
+  });
+
+  test('supports month and weekday names', () => {
+    const schedule = parseCronExpression('0 8 * jan,JUL mon-fri');
+    expect([...schedule.months]).toEqual([1, 7]);
+    expect([...schedule.daysOfWeek]).toEqual([1, 2, 3, 4, 5]);
+  });
+
+  test('treats 7 as Sunday', () => {
+    expect([...parseCronExpression('0 0 * * 7').daysOfWeek]).toEqual([0]);
+  });
+
+  test('expands macros', () => {
+    const daily = parseCronExpression('@daily');
+    expect([...daily.minutes]).toEqual([0]);
+    expect([...daily.hours]).toEqual([0]);
+    expect(daily.anyDayOfMonth).toBe(true);
+  });
+
+  test('start/step runs to the end of the range', () => {
+    expect([...parseCronExpression('50/5 * * * *').minutes]).toEqual([50, 55]);
+  });
+});
+
+describe('validateCronExpression', () => {
+  test('accepts valid expressions', () => {
+    expect(validateCronExpression('0 9 * * 1-5')).toBeNull();
+    expect(validateCronExpression('@hourly')).toBeNull();
+  });
+
+  test('rejects invalid expressions', () => {
+    expect(validateCronExpression('')).toContain('Expected 5 fields');
+    expect(validateCronExpression('0 9 * *')).toContain('Expected 5 fields');
+    expect(validateCronExpression('60 * * * *')).toContain('out of range');
+    expect(validateCronExpression('0 9-5 * * *')).toContain('Invalid hour range');
+    expect(validateCronExpression('*/0 * * * *')).toContain('step');
+    expect(validateCronExpression('0 9 * * funday')).toContain('Invalid day of week value');
+  });
+});
+
+describe('cronMatches', () => {
+  test('matches weekday mornings', () => {
+    const schedule = parseCronExpression('0 9 * * 1-5');
+    expect(cronMatches(schedule, new Date(2026, 0, 12, 9, 0))).toBe(true);   // Monday
+    expect(cronMatches(schedule, new Date(2026, 0, 12, 9, 1))).toBe(false);
+    expect(cronMatches(schedule, new Date(2026, 0, 11, 9, 0))).toBe(false);  // Sunday
+  });
+
+  test('matches either day field when both are restricted', () => {
+    const schedule = parseCronExpression('0 0 1 * 1');
+    expect(cronMatches(schedule, new Date(2026, 0, 1, 0, 0))).toBe(true);    // 1st (Thursday)
+    expect(cronMatches(schedule, new Date(2026, 0, 5, 0, 0))).toBe(true);    // Monday
+    expect(cronMatches(schedule, new Date(2026, 0, 6, 0, 0))).toBe(false);
+  });
+});
+
+describe('getNextCronRun', () => {
+  test('returns the next matching minute strictly after the given time', () => {
+    const next = getNextCronRun('0 9 * * 1-5', new Date(2026, 0, 12, 9, 0, 30));
+    expect(next).toEqual(new Date(2026, 0, 13, 9, 0));
+  });
+
+  test('skips weekends', () => {
+    const next = getNextCronRun('30 8 * * mon-fri', new Date(2026, 0, 9, 12, 0)); // Friday noon
+    expect(next).toEqual(new Date(2026, 0, 12, 8, 30));
+  });
+
+  test('finds leap days', () => {
+    const next = getNextCronRun('0 0 29 2 *', new Date(2026, 0, 1));
+    expect(next).toEqual(new Date(2028, 1, 29, 0, 0));
+  });
+
+  test('returns null for expressions that never fire', () => {
+    expect(getNextCronRun('0 0 31 2 *', new Date(2026, 0, 1))).toBeNull();
+  });
+});
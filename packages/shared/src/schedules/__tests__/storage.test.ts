@@ -0,0 +1,50 @@
+/**
+ * Tests for schedule run history.
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { failInterruptedScheduleRuns, listScheduleRuns, recordScheduleRun } from '../storage.ts';
+import type { ScheduleRun } from '../types.ts';
+
+const run = (id: string, status: ScheduleRun['status']): ScheduleRun => ({
+  id,
+  scheduleId: 'daily-digest',
+  scheduleName: 'Daily digest',
+  trigger: 'cron',
+  status,
+  startedAt: 1000,
+});
+
+describe('failInterruptedScheduleRuns', () => {
+  let workspaceRoot: string;
+
+  beforeEach(() => {
+    workspaceRoot = mkdtempSync(join(tmpdir(), 'schedule-storage-test-'));
+  });
+
+  afterEach(() => {
+    rmSync(workspaceRoot, { recursive: true, force: true });
+  });
+
+  test('marks runs left as running as failed', () => {
+    recordScheduleRun(workspaceRoot, { ...run('done', 'completed'), finishedAt: 2000 });
+    recordScheduleRun(workspaceRoot, run('stale', 'running'));
+
+    expect(failInterruptedScheduleRuns(workspaceRoot)).toBe(1);
+
+    const [stale, done] = listScheduleRuns(workspaceRoot);
+    expect(stale!.status).toBe('failed');
+    expect(stale!.error).toContain('Interrupted');
+    expect(stale!.finishedAt).toBeGreaterThan(0);
+    expect(done!.status).toBe('completed');
+    expect(done!.finishedAt).toBe(2000);
+  });
+
+  test('does nothing without running runs', () => {
+    expect(failInterruptedScheduleRuns(workspaceRoot)).toBe(0);
+    expect(listScheduleRuns(workspaceRoot)).toEqual([]);
+  });
+});
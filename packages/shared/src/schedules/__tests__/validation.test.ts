@@ -0,0 +1,29 @@
+/**
+ * Tests for schedule validation.
+ */
+
+import { describe, test, expect } from 'bun:test';
+import { validateSchedule } from '../validation.ts';
+import type { ScheduleConfig } from '../types.ts';
+
+const schedule: ScheduleConfig = {
+  id: 'daily-digest',
+  name: 'Daily digest',
+  enabled: true,
+  cron: '0 9 * * 1-5',
+  prompt: 'Summarize new issues',
+  permissionMode: 'safe',
+};
+
+describe('validateSchedule', () => {
+  test('accepts a valid schedule', () => {
+    expect(validateSchedule(schedule)).toEqual([]);
+    expect(validateSchedule({ ...schedule, permissionMode: 'allow-all' })).toEqual([]);
+  });
+
+  test('rejects ask mode, which would wait forever on permission prompts', () => {
+    const errors = validateSchedule({ ...schedule, permissionMode: 'ask' });
+    expect(errors).toHaveLength(1);
+    expect(errors[0]).toContain('Ask mode');
+  });
+});
@@ -0,0 +1,222 @@
+/**
+ * Cron Expressions
+ *
+ * Minimal 5-field cron parser used by schedules (evaluated in local time):
+ *
+ *   ┌ minute (0-59)
+ *   │ ┌ hour (0-23)
+ *   │ │ ┌ day of month (1-31)
+ *   │ │ │ ┌ month (1-12 or jan-dec)
+ *   │ │ │ │ ┌ day of week (0-7 or sun-sat, 0 and 7 are Sunday)
+ *   * * * * *
+ *
+ * Supports lists (1,15), ranges (1-5), steps (*\/15, 0-30/10) and the
+ * @hourly, @daily, @weekly, @monthly and @yearly macros.
+ * As in standard cron, when both day fields are restricted a date matches if either matches.
+ */
+
+/**
+ * Parsed cron expression.
+ */
+export interface CronSchedule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  /** True when the day-of-month field is "*" */
+  anyDayOfMonth: boolean;
+  /** True when the day-of-week field is "*" */
+  anyDayOfWeek: boolean;
+}
+
+interface CronField {
+  name: string;
+  min: number;
+  max: number;
+  names?: string[];
+}
+
+const FIELDS: CronField[] = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12, names: ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'] },
+  { name: 'day of week', min: 0, max: 7, names: ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'] },
+];
+
+const MACROS: Record<string, string> = {
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+  '@monthly': '0 0 1 * *',
+  '@weekly': '0 0 * * 0',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@hourly': '0 * * * *',
+};
+
+/** Upper bound for getNextCronRun searches (covers Feb 29 on leap years) */
+const MAX_SEARCH_MS = 5 * 366 * 24 * 60 * 60 * 1000;
+
+function parseValue(token: string, field: CronField): number {
+  const nameIndex = field.names?.indexOf(token.toLowerCase()) ?? -1;
+  if (nameIndex >= 0) {
+    // Month names are 1-based, weekday names 0-based
+    return field.min === 1 ? nameIndex + 1 : nameIndex;
+  }
+  if (!/^\d+$/.test(token)) {
+    throw new Error(`Invalid ${field.name} value "${token}"`);
+  }
+  const value = parseInt(token, 10);
+  if (value < field.min || value > field.max) {
+    throw new Error(`${field.name} value ${value} is out of range (${field.min}-${field.max})`);
+  }
+  return value;
+}
+
+function parseField(token: string, field: CronField): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of token.split(',')) {
+    const [rangePart, stepPart, ...extra] = part.split('/');
+    if (!rangePart || extra.length > 0) {
+      throw new Error(`Invalid ${field.name} field "${token}"`);
+    }
+
+    let step = 1;
+    if (stepPart !== undefined) {
+      if (!/^\d+$/.test(stepPart) || parseInt(stepPart, 10) === 0) {
+        throw new Error(`Invalid ${field.name} step "${stepPart}"`);
+      }
+      step = parseInt(stepPart, 10);
+    }
+
+    let start: number;
+    let end: number;
+    if (rangePart === '*') {
+      start = field.min;
+      end = field.max;
+    } else if (rangePart.includes('-')) {
+      const [from, to] = rangePart.split('-');
+      start = parseValue(from ?? '', field);
+      end = parseValue(to ?? '', field);
+      if (start > end) {
+        throw new Error(`Invalid ${field.name} range "${rangePart}"`);
+      }
+    } else {
+      start = parseValue(rangePart, field);
+      // "5/15" means "from 5 through the end of the range, every 15"
+      end = stepPart !== undefined ? field.max : start;
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Parse a cron expression.
+ *
+ * @throws Error with a human-readable message when the expression is invalid
+ */
+export function parseCronExpression(expression: string): CronSchedule {
+  const trimmed = expression.trim();
+  const expanded = MACROS[trimmed.toLowerCase()] ?? trimmed;
+  const tokens = expanded.split(/\s+/).filter(Boolean);
+
+  if (tokens.length !== FIELDS.length) {
+    throw new Error(`Expected ${FIELDS.length} fields (minute hour day month weekday), got ${tokens.length}`);
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = tokens.map((token, i) => parseField(token, FIELDS[i]!));
+
+  // 7 is an alias for Sunday
+  if (daysOfWeek!.delete(7)) {
+    daysOfWeek!.add(0);
+  }
+
+  return {
+    minutes: minutes!,
+    hours: hours!,
+    daysOfMonth: daysOfMonth!,
+    months: months!,
+    daysOfWeek: daysOfWeek!,
+    anyDayOfMonth: tokens[2] === '*',
+    anyDayOfWeek: tokens[4] === '*',
+  };
+}
+
+/**
+ * Validate a cron expression.
+ *
+ * @returns Error message, or null if the expression is valid
+ */
+export function validateCronExpression(expression: string): string | null {
+  try {
+    parseCronExpression(expression);
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+}
+
+function matchesDay(schedule: CronSchedule, date: Date): boolean {
+  const domMatch = schedule.daysOfMonth.has(date.getDate());
+  const dowMatch = schedule.daysOfWeek.has(date.getDay());
+  if (schedule.anyDayOfMonth && schedule.anyDayOfWeek) return true;
+  if (schedule.anyDayOfMonth) return dowMatch;
+  if (schedule.anyDayOfWeek) return domMatch;
+  return domMatch || dowMatch;
+}
+
+/**
+ * Check whether a date (to minute precision, local time) matches a schedule.
+ */
+export function cronMatches(schedule: CronSchedule, date: Date): boolean {
+  return schedule.minutes.has(date.getMinutes())
+    && schedule.hours.has(date.getHours())
+    && schedule.months.has(date.getMonth() + 1)
+    && matchesDay(schedule, date);
+}
+
+/**
+ * Find the next time (strictly after `after`) a schedule fires.
+ *
+ * @returns The next run time, or null if the expression never fires (e.g. "0 0 31 2 *")
+ */
+export function getNextCronRun(schedule: CronSchedule | string, after: Date = new Date()): Date | null {
+  const parsed = typeof schedule === 'string' ? parseCronExpression(schedule) : schedule;
+
+  const candidate = new Date(after.getTime());
+  candidate.setSeconds(0, 0);
+  candidate.setMinutes(candidate.getMinutes() + 1);
+  const limit = after.getTime() + MAX_SEARCH_MS;
+
+  // Skip whole months/days/hours that can't match instead of scanning minute by minute
+  while (candidate.getTime() <= limit) {
+    if (!parsed.months.has(candidate.getMonth() + 1)) {
+      candidate.setMonth(candidate.getMonth() + 1, 1);
+      candidate.setHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!matchesDay(parsed, candidate)) {
+      candidate.setDate(candidate.getDate() + 1);
+      candidate.setHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!parsed.hours.has(candidate.getHours())) {
+      candidate.setHours(candidate.getHours() + 1, 0, 0, 0);
+      continue;
+    }
+    if (!parsed.minutes.has(candidate.getMinutes())) {
+      candidate.setMinutes(candidate.getMinutes() + 1, 0, 0);
+      continue;
+    }
+    return candidate;
+  }
+
+  return null;
+}
@@ -0,0 +1,16 @@
+/**
+ * Schedules Module
+ *
+ * Workspace-level scheduled prompts with cron-style triggers.
+ * Storage helpers live in ./storage.ts (Node-only).
+ */
+
+export type {
+  ScheduleConfig,
+  SchedulesConfig,
+  ScheduleRun,
+  ScheduleRunStatus,
+  ScheduleRunTrigger,
+} from './types.ts';
+export { parseCronExpression, validateCronExpression, cronMatches, getNextCronRun, type CronSchedule } from './cron.ts';
+export { validateSchedule, SCHEDULE_PERMISSION_MODES } from './validation.ts';
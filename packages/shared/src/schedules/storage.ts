@@ -0,0 +1,181 @@
+/**
+ * Schedules Storage
+ *
+ * Filesystem-based storage for workspace schedules and their run history.
+ * Schedules are stored at {workspaceRootPath}/schedules.json
+ * Run history is stored at {workspaceRootPath}/schedule-runs.json (newest first, capped).
+ */
+
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import type { ScheduleConfig, ScheduleRun, SchedulesConfig } from './types.ts';
+import { debug } from '../utils/debug.ts';
+
+const SCHEDULES_FILE = 'schedules.json';
+const SCHEDULE_RUNS_FILE = 'schedule-runs.json';
+
+/** Maximum number of runs kept in the history file */
+export const MAX_SCHEDULE_RUNS = 500;
+
+/**
+ * Run history file structure.
+ */
+interface ScheduleRunsFile {
+  /** Schema version */
+  version: number;
+  /** Runs, newest first */
+  runs: ScheduleRun[];
+}
+
+// ============================================================
+// Schedules
+// ============================================================
+
+/**
+ * Load schedules configuration from workspace.
+ * Returns an empty configuration if no file exists or parsing fails.
+ */
+export function loadSchedulesConfig(workspaceRootPath: string): SchedulesConfig {
+  const configPath = join(workspaceRootPath, SCHEDULES_FILE);
+  if (!existsSync(configPath)) {
+    return { version: 1, schedules: [] };
+  }
+
+  try {
+    const config = JSON.parse(readFileSync(configPath, 'utf-8')) as SchedulesConfig;
+    return { version: config.version ?? 1, schedules: config.schedules ?? [] };
+  } catch (error) {
+    debug('[loadSchedulesConfig] Failed to parse config:', error);
+    return { version: 1, schedules: [] };
+  }
+}
+
+/**
+ * Save schedules configuration to disk.
+ */
+export function saveSchedulesConfig(
+  workspaceRootPath: string,
+  config: SchedulesConfig
+): void {
+  const configPath = join(workspaceRootPath, SCHEDULES_FILE);
+
+  try {
+    writeFileSync(configPath, JSON.stringify(config, null, 2), 'utf-8');
+  } catch (error) {
+    debug('[saveSchedulesConfig] Failed to save config:', error);
+    throw error;
+  }
+}
+
+/**
+ * List schedules for a workspace.
+ */
+export function listSchedules(workspaceRootPath: string): ScheduleConfig[] {
+  return loadSchedulesConfig(workspaceRootPath).schedules;
+}
+
+/**
+ * Get a single schedule by ID.
+ */
+export function getSchedule(workspaceRootPath: string, scheduleId: string): ScheduleConfig | null {
+  return listSchedules(workspaceRootPath).find(s => s.id === scheduleId) ?? null;
+}
+
+/**
+ * Save schedules to the workspace config.
+ * Replaces the entire schedules array.
+ */
+export function saveSchedules(
+  workspaceRootPath: string,
+  schedules: ScheduleConfig[]
+): void {
+  const config = loadSchedulesConfig(workspaceRootPath);
+  config.schedules = schedules;
+  saveSchedulesConfig(workspaceRootPath, config);
+}
+
+// ============================================================
+// Run History
+// ============================================================
+
+function loadScheduleRunsFile(workspaceRootPath: string): ScheduleRunsFile {
+  const historyPath = join(workspaceRootPath, SCHEDULE_RUNS_FILE);
+  if (!existsSync(historyPath)) {
+    return { version: 1, runs: [] };
+  }
+
+  try {
+    const file = JSON.parse(readFileSync(historyPath, 'utf-8')) as ScheduleRunsFile;
+    return { version: file.version ?? 1, runs: file.runs ?? [] };
+  } catch (error) {
+    debug('[loadScheduleRunsFile] Failed to parse history:', error);
+    return { version: 1, runs: [] };
+  }
+}
+
+/**
+ * List past runs, newest first.
+ *
+ * @param scheduleId - Only return runs of this schedule
+ * @param limit - Maximum number of runs to return
+ */
+export function listScheduleRuns(
+  workspaceRootPath: string,
+  scheduleId?: string,
+  limit?: number
+): ScheduleRun[] {
+  let runs = loadScheduleRunsFile(workspaceRootPath).runs;
+  if (scheduleId) {
+    runs = runs.filter(r => r.scheduleId === scheduleId);
+  }
+  return limit !== undefined ? runs.slice(0, limit) : runs;
+}
+
+/**
+ * Insert or update a run in the history (matched by run ID).
+ * New runs are added at the front; the history is capped at MAX_SCHEDULE_RUNS.
+ */
+export function recordScheduleRun(workspaceRootPath: string, run: ScheduleRun): void {
+  const file = loadScheduleRunsFile(workspaceRootPath);
+  const index = file.runs.findIndex(r => r.id === run.id);
+  if (index >= 0) {
+    file.runs[index] = run;
+  } else {
+    file.runs.unshift(run);
+  }
+  file.runs = file.runs.slice(0, MAX_SCHEDULE_RUNS);
+
+  try {
+    writeFileSync(join(workspaceRootPath, SCHEDULE_RUNS_FILE), JSON.stringify(file, null, 2), 'utf-8');
+  } catch (error) {
+    debug('[recordScheduleRun] Failed to save history:', error);
+    throw error;
+  }
+}
+
+/**
+ * Mark runs still recorded as running as failed. Call on startup: a run can only
+ * be running in this process, so these were interrupted by a quit or crash.
+ *
+ * @returns Number of runs marked as failed
+ */
+export function failInterruptedScheduleRuns(workspaceRootPath: string): number {
+  const file = loadScheduleRunsFile(workspaceRootPath);
+  const interrupted = file.runs.filter(r => r.status === 'running');
+  if (interrupted.length === 0) return 0;
+
+  const now = Date.now();
+  for (const run of interrupted) {
+    run.status = 'failed';
+    run.finishedAt = now;
+    run.error = 'Interrupted: the app quit before the run finished';
+  }
+
+  try {
+    writeFileSync(join(workspaceRootPath, SCHEDULE_RUNS_FILE), JSON.stringify(file, null, 2), 'utf-8');
+  } catch (error) {
+    debug('[failInterruptedScheduleRuns] Failed to save history:', error);
+    throw error;
+  }
+  return interrupted.length;
+}
@@ -0,0 +1,96 @@
+/**
+ * Schedule Types
+ *
+ * Schedules run a fixed prompt on a cron-style trigger. Each run spawns a new
+ * session with the schedule's model, permission mode, sources and labels.
+ *
+ * Stored in schedules.json at the workspace root (next to views.json).
+ * Run history is stored in schedule-runs.json.
+ */
+
+import type { PermissionMode } from '../agent/mode-types.ts';
+
+/**
+ * Schedule configuration as stored in schedules.json.
+ */
+export interface ScheduleConfig {
+  /** Unique ID slug */
+  id: string;
+
+  /** Display name (also used as the name of spawned sessions) */
+  name: string;
+
+  /** Whether the schedule fires automatically. Disabled schedules can still be run manually. */
+  enabled: boolean;
+
+  /**
+   * Cron expression (local time): minute hour day-of-month month day-of-week.
+   * Also accepts @hourly, @daily, @weekly, @monthly and @yearly.
+   * @example "0 9 * * 1-5" (weekdays at 09:00)
+   */
+  cron: string;
+
+  /** Prompt sent as the first message of each spawned session */
+  prompt: string;
+
+  /** Model for spawned sessions. Undefined = workspace default. */
+  model?: string;
+
+  /**
+   * Permission mode for spawned sessions ('safe' or 'allow-all', see SCHEDULE_PERMISSION_MODES).
+   * Use 'safe' to restrict unattended runs to read-only operations.
+   */
+  permissionMode: PermissionMode;
+
+  /** Sources enabled in spawned sessions */
+  enabledSourceSlugs?: string[];
+
+  /** Labels applied to spawned sessions */
+  labels?: string[];
+
+  /** Working directory for spawned sessions. Undefined = workspace default. */
+  workingDirectory?: string;
+}
+
+/**
+ * Schedules configuration file structure.
+ */
+export interface SchedulesConfig {
+  /** Schema version */
+  version: number;
+  /** Array of schedule definitions */
+  schedules: ScheduleConfig[];
+}
+
+/**
+ * How a run was started.
+ */
+export type ScheduleRunTrigger = 'cron' | 'manual';
+
+/**
+ * Lifecycle state of a run.
+ * - skipped: the trigger fired while a previous run of the same schedule was still active
+ */
+export type ScheduleRunStatus = 'running' | 'completed' | 'failed' | 'skipped';
+
+/**
+ * A single run of a schedule, as stored in schedule-runs.json.
+ */
+export interface ScheduleRun {
+  /** Unique run ID */
+  id: string;
+  /** Schedule that produced this run */
+  scheduleId: string;
+  /** Schedule name at the time of the run (schedules may be renamed or deleted later) */
+  scheduleName: string;
+  trigger: ScheduleRunTrigger;
+  status: ScheduleRunStatus;
+  /** Timestamp (ms) when the run started */
+  startedAt: number;
+  /** Timestamp (ms) when the run finished */
+  finishedAt?: number;
+  /** Session spawned by this run */
+  sessionId?: string;
+  /** Error message for failed or skipped runs */
+  error?: string;
+}
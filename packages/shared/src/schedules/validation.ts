@@ -0,0 +1,48 @@
+/**
+ * Schedule Validation
+ *
+ * Validates schedule definitions at config time (before they're saved or run).
+ */
+
+import type { PermissionMode } from '../agent/mode-types.ts';
+import type { ScheduleConfig } from './types.ts';
+import { validateCronExpression } from './cron.ts';
+
+/**
+ * Permission modes a schedule can run in.
+ * 'ask' is excluded: nobody is there to answer its prompts, so the run would
+ * wait forever and block the schedule's next runs.
+ */
+export const SCHEDULE_PERMISSION_MODES: PermissionMode[] = ['safe', 'allow-all'];
+
+/**
+ * Validate a schedule definition.
+ *
+ * @returns List of human-readable problems (empty when valid)
+ */
+export function validateSchedule(schedule: ScheduleConfig): string[] {
+  const errors: string[] = [];
+
+  if (!schedule.id?.trim()) {
+    errors.push('Schedule ID is required');
+  }
+  if (!schedule.name?.trim()) {
+    errors.push('Name is required');
+  }
+  if (!schedule.prompt?.trim()) {
+    errors.push('Prompt is required');
+  }
+
+  const cronError = validateCronExpression(schedule.cron ?? '');
+  if (cronError) {
+    errors.push(`Invalid cron expression: ${cronError}`);
+  }
+
+  if (schedule.permissionMode === 'ask') {
+    errors.push('Ask mode is not supported for schedules (nobody is there to answer permission prompts)');
+  } else if (!SCHEDULE_PERMISSION_MODES.includes(schedule.permissionMode)) {
+    errors.push(`Invalid permission mode "${schedule.permissionMode}"`);
+  }
+
+  return errors;
+}
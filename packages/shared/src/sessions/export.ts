@@ -0,0 +1,151 @@
+/**
+ * Session Export
+ *
+ * Local transcript export (no upload). Markdown is rendered here; HTML is rendered
+ * by @craft-agent/ui (SessionViewer) and PDF is printed from that HTML by the app.
+ *
+ * Options control what leaves the machine with the transcript:
+ * - includeToolCalls: tool inputs and results
+ * - includeThinking: intermediate assistant text between tool calls
+ * - includeAttachments: files attached to user messages
+ */
+
+import type { StoredMessage } from '@craft-agent/core/types';
+import type { StoredSession } from './types.ts';
+
+export type SessionExportFormat = 'markdown' | 'html' | 'pdf';
+
+export interface SessionExportOptions {
+  includeToolCalls: boolean;
+  includeThinking: boolean;
+  includeAttachments: boolean;
+}
+
+export const DEFAULT_SESSION_EXPORT_OPTIONS: SessionExportOptions = {
+  includeToolCalls: true,
+  includeThinking: true,
+  includeAttachments: true,
+};
+
+const EXPORT_FILE_EXTENSIONS: Record<SessionExportFormat, string> = {
+  markdown: 'md',
+  html: 'html',
+  pdf: 'pdf',
+};
+
+/**
+ * Return a copy of the session with excluded content removed.
+ * Used by every format so Markdown, HTML and PDF exports contain the same messages.
+ */
+export function filterSessionForExport(
+  session: StoredSession,
+  options: SessionExportOptions = DEFAULT_SESSION_EXPORT_OPTIONS
+): StoredSession {
+  const messages = session.messages
+    .filter(m => options.includeToolCalls || m.type !== 'tool')
+    .filter(m => options.includeThinking || !(m.type === 'assistant' && m.isIntermediate))
+    .map(m => (options.includeAttachments || !m.attachments ? m : { ...m, attachments: undefined }));
+
+  return { ...session, messages };
+}
+
+/**
+ * File name for an exported session, derived from its name (or ID).
+ */
+export function getSessionExportFileName(session: StoredSession, format: SessionExportFormat): string {
+  const base = (session.name ?? session.id)
+    .replace(/[/\\<>:"|?*\x00-\x1f]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .slice(0, 120);
+  return `${base || session.id}.${EXPORT_FILE_EXTENSIONS[format]}`;
+}
+
+// ============================================================
+// Markdown
+// ============================================================
+
+/** Code fence long enough that content containing backticks can't close it early */
+function fenced(content: string, language = ''): string {
+  const longestRun = Math.max(2, ...(content.match(/`+/g) ?? []).map(run => run.length));
+  const fence = '`'.repeat(longestRun + 1);
+  return `${fence}${language}\n${content}\n${fence}`;
+}
+
+/** Escape model-generated text placed inside HTML tags, so it renders as text */
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+function quoted(content: string): string {
+  return content.split('\n').map(line => `> ${line}`.trimEnd()).join('\n');
+}
+
+function formatToolCall(message: StoredMessage): string {
+  const name = message.toolDisplayName ?? message.toolName ?? 'Tool';
+  // Display name and intent come from the model; a newline would end the <summary> line
+  const summary = escapeHtml(message.toolIntent ? `${name}: ${message.toolIntent}` : name).replace(/\s*\n\s*/g, ' ');
+  const status = message.toolStatus === 'error' || message.isError ? ' (failed)' : '';
+  const parts = [`<details>\n<summary>${summary}${status}</summary>`];
+
+  if (message.toolInput && Object.keys(message.toolInput).length > 0) {
+    parts.push(`**Input**\n\n${fenced(JSON.stringify(message.toolInput, null, 2), 'json')}`);
+  }
+  if (message.toolResult) {
+    parts.push(`**Result**\n\n${fenced(message.toolResult)}`);
+  }
+  parts.push('</details>');
+  return parts.join('\n\n');
+}
+
+function formatMessage(message: StoredMessage): string | null {
+  switch (message.type) {
+    case 'user': {
+      const parts = [`## User\n\n${message.content}`];
+      if (message.attachments && message.attachments.length > 0) {
+        parts.push(`**Attachments:** ${message.attachments.map(a => a.name).join(', ')}`);
+      }
+      return parts.join('\n\n');
+    }
+    case 'assistant':
+      return message.isIntermediate
+        ? quoted(message.content)
+        : `## Assistant\n\n${message.content}`;
+    case 'tool':
+      return formatToolCall(message);
+    case 'plan':
+      return `## Plan\n\n${message.content}`;
+    case 'error':
+      return quoted(`**${message.errorTitle ?? 'Error'}:** ${message.content}`);
+    case 'info':
+    case 'warning':
+      return quoted(message.content);
+    default:
+      // Status and auth-request messages are transient UI state
+      return null;
+  }
+}
+
+/**
+ * Render a session transcript as Markdown.
+ */
+export function sessionToMarkdown(
+  session: StoredSession,
+  options: SessionExportOptions = DEFAULT_SESSION_EXPORT_OPTIONS
+): string {
+  const filtered = filterSessionForExport(session, options);
+  const header = [
+    `# ${session.name ?? 'Untitled session'}`,
+    [
+      `- Created: ${new Date(session.createdAt).toISOString()}`,
+      session.model ? `- Model: ${session.model}` : null,
+      session.labels && session.labels.length > 0 ? `- Labels: ${session.labels.join(', ')}` : null,
+    ].filter(Boolean).join('\n'),
+  ];
+
+  const body = filtered.messages
+    .map(formatMessage)
+    .filter((part): part is string => !!part?.trim());
+
+  return [...header, ...body].join('\n\n') + '\n';
+}
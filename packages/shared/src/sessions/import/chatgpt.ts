@@ -0,0 +1,142 @@
+/**
+ * ChatGPT export parser
+ *
+ * A ChatGPT data export contains conversations.json: an array of conversations whose
+ * messages form a tree (`mapping`, keyed by node ID, with parent/children links).
+ * Edits and regenerations create branches; the visible thread is the path from
+ * `current_node` back to the root.
+ *
+ * Tool use (code interpreter, browsing, plugins) appears as an assistant message with
+ * a `recipient` other than "all", followed by a `tool` message from that recipient.
+ * These are converted to tool_use/tool_result pairs.
+ */
+
+import { TranscriptBuilder, parseTimestamp } from './transcript-builder.ts';
+import type { ImportedConversation } from './types.ts';
+
+interface ChatGptMessage {
+  id: string;
+  author?: { role?: string; name?: string | null };
+  create_time?: number | null;
+  recipient?: string;
+  content?: {
+    content_type?: string;
+    parts?: unknown[];
+    text?: string;
+  };
+  metadata?: { is_visually_hidden_from_conversation?: boolean };
+}
+
+interface ChatGptNode {
+  id: string;
+  parent?: string | null;
+  message?: ChatGptMessage | null;
+}
+
+export interface ChatGptConversation {
+  id?: string;
+  conversation_id?: string;
+  title?: string;
+  create_time?: number | null;
+  current_node?: string;
+  mapping: Record<string, ChatGptNode>;
+}
+
+/** Content types that hold model reasoning or settings rather than conversation */
+const SKIPPED_CONTENT_TYPES = new Set([
+  'thoughts',
+  'reasoning_recap',
+  'user_editable_context',
+  'model_editable_context',
+]);
+
+function messageText(message: ChatGptMessage): string {
+  const content = message.content;
+  if (!content || SKIPPED_CONTENT_TYPES.has(content.content_type ?? '')) return '';
+  if (typeof content.text === 'string') return content.text;
+  // Non-string parts are image/file pointers
+  return (content.parts ?? []).filter((p): p is string => typeof p === 'string').join('\n');
+}
+
+function toolInput(message: ChatGptMessage, text: string): Record<string, unknown> {
+  if (message.content?.content_type === 'code') return { code: text };
+  try {
+    const parsed = JSON.parse(text);
+    if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) return parsed;
+  } catch {
+    // Plain text input
+  }
+  return { input: text };
+}
+
+/**
+ * Return the messages on the visible thread, oldest first.
+ */
+function visibleThread(conversation: ChatGptConversation): ChatGptMessage[] {
+  const thread: ChatGptMessage[] = [];
+  const seen = new Set<string>();
+  let nodeId = conversation.current_node;
+  while (nodeId && !seen.has(nodeId)) {
+    seen.add(nodeId);
+    const node: ChatGptNode | undefined = conversation.mapping[nodeId];
+    if (!node) break;
+    if (node.message) thread.push(node.message);
+    nodeId = node.parent ?? undefined;
+  }
+  return thread.reverse();
+}
+
+/**
+ * Parse one conversation from a ChatGPT export.
+ *
+ * @returns The conversation, or null if it has no visible messages
+ */
+export function parseChatGptConversation(conversation: ChatGptConversation): ImportedConversation | null {
+  const createdAt = parseTimestamp(conversation.create_time) ?? Date.now();
+  const builder = new TranscriptBuilder(createdAt);
+  // Open tool calls by recipient name, matched by the next message from that tool
+  const pendingToolCalls = new Map<string, string>();
+
+  for (const message of visibleThread(conversation)) {
+    if (message.metadata?.is_visually_hidden_from_conversation) continue;
+    const role = message.author?.role;
+    const text = messageText(message);
+    const timestamp = parseTimestamp(message.create_time);
+    if (!text) continue;
+
+    if (role === 'user') {
+      builder.addUserMessage(text, timestamp);
+    } else if (role === 'assistant') {
+      const recipient = message.recipient;
+      if (recipient && recipient !== 'all') {
+        pendingToolCalls.set(recipient, message.id);
+        builder.addAssistantContent(
+          [{ type: 'tool_use', id: message.id, name: recipient, input: toolInput(message, text) }],
+          message.id,
+          timestamp,
+        );
+      } else {
+        builder.addAssistantContent([{ type: 'text', text }], message.id, timestamp);
+      }
+    } else if (role === 'tool') {
+      const name = message.author?.name ?? '';
+      const toolUseId = pendingToolCalls.get(name);
+      // Tool output without a visible call (e.g. file search context) is not shown
+      if (!toolUseId) continue;
+      pendingToolCalls.delete(name);
+      builder.addToolResults([{ type: 'tool_result', tool_use_id: toolUseId, content: text }], toolUseId, timestamp);
+    }
+  }
+
+  if (builder.size === 0) return null;
+  const messages = builder.build();
+
+  return {
+    format: 'chatgpt',
+    sourceId: conversation.conversation_id ?? conversation.id ?? String(createdAt),
+    name: conversation.title || undefined,
+    createdAt,
+    lastMessageAt: messages[messages.length - 1]!.timestamp ?? createdAt,
+    messages,
+  };
+}
@@ -0,0 +1,101 @@
+/**
+ * Claude.ai export parser
+ *
+ * A Claude.ai data export contains conversations.json: an array of conversations with
+ * a flat `chat_messages` list. Each message has a `sender` ("human" or "assistant")
+ * and `content` blocks; assistant messages may contain tool_use and tool_result
+ * blocks (web search, analysis tool, artifacts). Older exports only have `text`.
+ */
+
+import type { ContentBlock } from '../../agent/tool-matching.ts';
+import { TranscriptBuilder, parseTimestamp } from './transcript-builder.ts';
+import type { ImportedConversation } from './types.ts';
+
+interface ClaudeAiBlock {
+  type: string;
+  text?: string;
+  id?: string;
+  name?: string;
+  input?: Record<string, unknown>;
+  tool_use_id?: string;
+  content?: unknown;
+  is_error?: boolean;
+}
+
+interface ClaudeAiMessage {
+  uuid: string;
+  sender: 'human' | 'assistant' | string;
+  text?: string;
+  content?: ClaudeAiBlock[];
+  created_at?: string;
+}
+
+export interface ClaudeAiConversation {
+  uuid: string;
+  name?: string;
+  created_at?: string;
+  chat_messages: ClaudeAiMessage[];
+}
+
+function humanText(message: ClaudeAiMessage): string {
+  const blocks = message.content?.filter(b => b.type === 'text') ?? [];
+  return blocks.length > 0 ? blocks.map(b => b.text ?? '').join('\n\n') : message.text ?? '';
+}
+
+/**
+ * Parse one conversation from a Claude.ai export.
+ *
+ * @returns The conversation, or null if it has no messages
+ */
+export function parseClaudeAiConversation(conversation: ClaudeAiConversation): ImportedConversation | null {
+  const createdAt = parseTimestamp(conversation.created_at) ?? Date.now();
+  const builder = new TranscriptBuilder(createdAt);
+
+  for (const message of conversation.chat_messages ?? []) {
+    const timestamp = parseTimestamp(message.created_at);
+
+    if (message.sender === 'human') {
+      builder.addUserMessage(humanText(message), timestamp);
+      continue;
+    }
+    if (message.sender !== 'assistant') continue;
+
+    const turnId = message.uuid;
+    if (!message.content?.length) {
+      builder.addAssistantContent([{ type: 'text', text: message.text ?? '' }], turnId, timestamp);
+      continue;
+    }
+
+    // Exports may omit block IDs; synthesize them and pair each result with the
+    // latest unanswered call to the same tool
+    const pendingToolCalls = new Map<string, string>();
+    message.content.forEach((block, index) => {
+      if (block.type === 'text') {
+        builder.addAssistantContent([{ type: 'text', text: block.text ?? '' }], turnId, timestamp);
+      } else if (block.type === 'tool_use') {
+        const id = block.id ?? `${message.uuid}-${index}`;
+        const name = block.name ?? 'unknown';
+        pendingToolCalls.set(name, id);
+        builder.addAssistantContent([{ type: 'tool_use', id, name, input: block.input ?? {} }], turnId, timestamp);
+      } else if (block.type === 'tool_result') {
+        const toolUseId = block.tool_use_id ?? pendingToolCalls.get(block.name ?? 'unknown');
+        if (!toolUseId) return;
+        pendingToolCalls.delete(block.name ?? 'unknown');
+        const result: ContentBlock = { type: 'tool_result', tool_use_id: toolUseId, content: block.content, is_error: block.is_error };
+        builder.addToolResults([result], turnId, timestamp);
+      }
+    });
+  }
+
+  if (builder.size === 0) return null;
+  const messages = builder.build();
+
+  return {
+    format: 'claude-ai',
+    sourceId: conversation.uuid,
+    name: conversation.name || undefined,
+    createdAt,
+    lastMessageAt: messages[messages.length - 1]!.timestamp ?? createdAt,
+    messages,
+  };
+}
@@ -0,0 +1,115 @@
+/**
+ * Claude Code transcript parser
+ *
+ * Claude Code writes one JSONL file per session under ~/.claude/projects/{project}/.
+ * Each line is an entry; the ones that matter here:
+ * - { type: 'user', message: { content: string | ContentBlock[] }, cwd, timestamp }
+ *   (tool results come back as user entries with tool_result blocks)
+ * - { type: 'assistant', message: { id, content: ContentBlock[] }, timestamp }
+ *   (one entry per content block, sharing the API message id)
+ * - { type: 'summary', summary } - the session title
+ *
+ * Subagent (sidechain) entries, meta entries and slash-command echoes are skipped.
+ */
+
+import type { ContentBlock } from '../../agent/tool-matching.ts';
+import { TranscriptBuilder, parseTimestamp } from './transcript-builder.ts';
+import type { ImportedConversation } from './types.ts';
+
+interface ClaudeCodeEntry {
+  type?: string;
+  sessionId?: string;
+  cwd?: string;
+  timestamp?: string;
+  isSidechain?: boolean;
+  isMeta?: boolean;
+  isCompactSummary?: boolean;
+  summary?: string;
+  message?: {
+    id?: string;
+    content?: string | ContentBlock[];
+  };
+}
+
+/** User text that is harness output rather than something the user typed */
+const NOISE_PREFIXES = ['<command-', '<local-command-', '<system-reminder>', '[Request interrupted by user'];
+
+function isNoise(text: string): boolean {
+  const trimmed = text.trimStart();
+  return NOISE_PREFIXES.some(prefix => trimmed.startsWith(prefix));
+}
+
+/**
+ * Parse a Claude Code session transcript.
+ *
+ * @param content - JSONL file contents
+ * @param fallbackId - Conversation ID to use when entries carry no sessionId (usually the file name)
+ * @returns The conversation, or null if it has no user or assistant messages
+ */
+export function parseClaudeCodeTranscript(content: string, fallbackId: string): ImportedConversation | null {
+  const entries: ClaudeCodeEntry[] = [];
+  for (const line of content.split('\n')) {
+    if (!line.trim()) continue;
+    try {
+      entries.push(JSON.parse(line) as ClaudeCodeEntry);
+    } catch {
+      // Skip truncated or malformed lines (e.g. a transcript still being written)
+    }
+  }
+
+  const createdAt = entries.reduce<number | undefined>((min, e) => {
+    const t = parseTimestamp(e.timestamp);
+    return t !== undefined && (min === undefined || t < min) ? t : min;
+  }, undefined) ?? Date.now();
+  const builder = new TranscriptBuilder(createdAt);
+
+  let name: string | undefined;
+  let sessionId: string | undefined;
+  let workingDirectory: string | undefined;
+
+  for (const entry of entries) {
+    if (entry.type === 'summary') {
+      name ??= entry.summary;
+      continue;
+    }
+    if (entry.isSidechain || entry.isMeta || entry.isCompactSummary || !entry.message) continue;
+
+    sessionId ??= entry.sessionId;
+    workingDirectory ??= entry.cwd;
+    const timestamp = parseTimestamp(entry.timestamp);
+    const messageContent = entry.message.content;
+
+    if (entry.type === 'user') {
+      if (typeof messageContent === 'string') {
+        if (!isNoise(messageContent)) builder.addUserMessage(messageContent, timestamp);
+        continue;
+      }
+      const blocks = messageContent ?? [];
+      builder.addToolResults(blocks, undefined, timestamp);
+      const text = blocks
+        .filter(b => b.type === 'text')
+        .map(b => (b as { text: string }).text)
+        .filter(t => !isNoise(t))
+        .join('\n\n');
+      builder.addUserMessage(text, timestamp);
+    } else if (entry.type === 'assistant') {
+      const blocks = typeof messageContent === 'string'
+        ? [{ type: 'text', text: messageContent }]
+        : messageContent ?? [];
+      builder.addAssistantContent(blocks, entry.message.id ?? `${fallbackId}-${builder.size}`, timestamp);
+    }
+  }
+
+  if (builder.size === 0) return null;
+  const messages = builder.build();
+
+  return {
+    format: 'claude-code',
+    sourceId: sessionId ?? fallbackId,
+    name,
+    createdAt,
+    lastMessageAt: messages[messages.length - 1]!.timestamp ?? createdAt,
+    workingDirectory,
+    messages,
+  };
+}
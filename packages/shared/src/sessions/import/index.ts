@@ -0,0 +1,158 @@
+/**
+ * Session Import
+ *
+ * Converts transcripts from other apps into sessions in a workspace:
+ * - Claude Code: a session .jsonl file, or a directory of them (e.g. ~/.claude/projects/{project})
+ * - ChatGPT / Claude.ai: conversations.json from a data export, or the export .zip itself
+ *
+ * Imported sessions have no SDK session ID, so the agent replays the imported
+ * history as context when the conversation is continued.
+ */
+
+import { existsSync, readFileSync, readdirSync, statSync } from 'fs';
+import { basename, extname, join } from 'path';
+import JSZip from 'jszip';
+import { createSession, listSessions, saveSession } from '../storage.ts';
+import type { StoredSession } from '../types.ts';
+import { parseClaudeCodeTranscript } from './claude-code.ts';
+import { parseChatGptConversation, type ChatGptConversation } from './chatgpt.ts';
+import { parseClaudeAiConversation, type ClaudeAiConversation } from './claude-ai.ts';
+import type { ImportedConversation, ImportResult, ImportSourceFormat } from './types.ts';
+
+export type { ImportedConversation, ImportResult, ImportSourceFormat } from './types.ts';
+export { parseClaudeCodeTranscript } from './claude-code.ts';
+export { parseChatGptConversation } from './chatgpt.ts';
+export { parseClaudeAiConversation } from './claude-ai.ts';
+
+/** File extensions accepted by readImportFile (besides directories) */
+export const IMPORT_FILE_EXTENSIONS = ['jsonl', 'json', 'zip'];
+
+/** Human-readable name of each import format */
+export const IMPORT_FORMAT_LABELS: Record<ImportSourceFormat, string> = {
+  'claude-code': 'Claude Code',
+  chatgpt: 'ChatGPT',
+  'claude-ai': 'Claude.ai',
+};
+
+function isConversation(conversation: ImportedConversation | null): conversation is ImportedConversation {
+  return conversation !== null;
+}
+
+/**
+ * Parse a conversations.json export (ChatGPT or Claude.ai).
+ *
+ * @throws Error if the data is not a recognized export
+ */
+export function parseConversationsExport(data: unknown): ImportedConversation[] {
+  if (!Array.isArray(data)) {
+    throw new Error('Expected an array of conversations');
+  }
+  const first = data[0] as Record<string, unknown> | undefined;
+  if (!first) return [];
+
+  if ('mapping' in first) {
+    return (data as ChatGptConversation[]).map(c => parseChatGptConversation(c)).filter(isConversation);
+  }
+  if ('chat_messages' in first) {
+    return (data as ClaudeAiConversation[]).map(c => parseClaudeAiConversation(c)).filter(isConversation);
+  }
+  throw new Error('Unrecognized export format (expected a ChatGPT or Claude.ai conversations.json)');
+}
+
+/**
+ * Read and parse conversations from a file or directory.
+ *
+ * @param path - A Claude Code .jsonl transcript, a directory of them,
+ *   a conversations.json export, or an export .zip
+ * @throws Error if the path does not exist or is not a supported format
+ */
+export async function readImportFile(path: string): Promise<ImportedConversation[]> {
+  if (!existsSync(path)) {
+    throw new Error(`File not found: ${path}`);
+  }
+
+  if (statSync(path).isDirectory()) {
+    return readdirSync(path, { recursive: true, encoding: 'utf-8' })
+      .filter(file => file.endsWith('.jsonl'))
+      .sort()
+      .map(file => parseClaudeCodeTranscript(readFileSync(join(path, file), 'utf-8'), basename(file, '.jsonl')))
+      .filter(isConversation);
+  }
+
+  switch (extname(path).toLowerCase()) {
+    case '.jsonl': {
+      const conversation = parseClaudeCodeTranscript(readFileSync(path, 'utf-8'), basename(path, '.jsonl'));
+      return conversation ? [conversation] : [];
+    }
+    case '.json':
+      return parseConversationsExport(JSON.parse(readFileSync(path, 'utf-8')));
+    case '.zip': {
+      const zip = await JSZip.loadAsync(readFileSync(path));
+      const entry = zip.file(/(^|\/)conversations\.json$/)[0];
+      if (!entry) {
+        throw new Error(`No conversations.json in ${basename(path)}`);
+      }
+      return parseConversationsExport(JSON.parse(await entry.async('string')));
+    }
+    default:
+      throw new Error(`Unsupported file type: ${basename(path)} (expected .jsonl, .json or .zip)`);
+  }
+}
+
+/**
+ * Key stored in the session header to recognize a conversation on re-import.
+ */
+export function getImportSource(conversation: Pick<ImportedConversation, 'format' | 'sourceId'>): string {
+  return `${conversation.format}:${conversation.sourceId}`;
+}
+
+/**
+ * Create a session for each conversation in the workspace.
+ * Conversations imported before (same format and source ID) are skipped.
+ */
+export async function importConversations(
+  workspaceRootPath: string,
+  conversations: ImportedConversation[]
+): Promise<ImportResult> {
+  const existing = new Set(listSessions(workspaceRootPath).map(s => s.importSource).filter(Boolean));
+  const result: ImportResult = { imported: [], skipped: [] };
+
+  for (const conversation of conversations) {
+    const importSource = getImportSource(conversation);
+    if (existing.has(importSource)) {
+      result.skipped.push(conversation);
+      continue;
+    }
+    existing.add(importSource);
+
+    const config = await createSession(workspaceRootPath, {
+      name: conversation.name,
+      // Only keep the original directory if it exists on this machine
+      workingDirectory: conversation.workingDirectory && existsSync(conversation.workingDirectory)
+        ? conversation.workingDirectory
+        : undefined,
+    });
+
+    const lastFinalMessage = [...conversation.messages].reverse().find(m => m.type === 'assistant' && !m.isIntermediate);
+    const session: StoredSession = {
+      ...config,
+      createdAt: conversation.createdAt,
+      lastMessageAt: conversation.lastMessageAt,
+      // Imported history counts as read
+      lastReadMessageId: lastFinalMessage?.id,
+      importSource,
+      messages: conversation.messages,
+      tokenUsage: {
+        inputTokens: 0,
+        outputTokens: 0,
+        totalTokens: 0,
+        contextTokens: 0,
+        costUsd: 0,
+      },
+    };
+    await saveSession(session);
+    result.imported.push(session);
+  }
+
+  return result;
+}
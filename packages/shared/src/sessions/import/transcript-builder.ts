@@ -0,0 +1,206 @@
+/**
+ * Transcript Builder
+ *
+ * Converts a provider-neutral sequence of user text, assistant content blocks and
+ * tool results into StoredMessages. Tool blocks go through the same
+ * extractToolStarts/extractToolResults matching the live agent uses, so imported
+ * tool calls carry the same name/input/intent fields and render as TurnCards.
+ */
+
+import { generateMessageId, type StoredMessage } from '@craft-agent/core/types';
+import {
+  ToolIndex,
+  extractToolStarts,
+  extractToolResults,
+  type ContentBlock,
+  type TextBlock,
+  type ToolResultBlock,
+} from '../../agent/tool-matching.ts';
+
+export class TranscriptBuilder {
+  private messages: StoredMessage[] = [];
+  private toolIndex = new ToolIndex();
+  private emittedToolStartIds = new Set<string>();
+  private lastTimestamp: number;
+
+  /**
+   * @param startTime - Timestamp used for messages that have none in the source
+   */
+  constructor(startTime: number) {
+    this.lastTimestamp = startTime - 1;
+  }
+
+  /** Number of messages added so far */
+  get size(): number {
+    return this.messages.length;
+  }
+
+  addUserMessage(text: string, timestamp?: number): void {
+    if (!text.trim()) return;
+    this.messages.push({
+      id: generateMessageId(),
+      type: 'user',
+      content: text,
+      timestamp: this.nextTimestamp(timestamp),
+    });
+  }
+
+  /**
+   * Add assistant content blocks (text and tool_use) in order.
+   * Consecutive text with the same turnId is merged into one message.
+   */
+  addAssistantContent(blocks: ContentBlock[], turnId: string, timestamp?: number): void {
+    for (const block of blocks) {
+      if (block.type === 'text') {
+        this.addAssistantText((block as TextBlock).text, turnId, timestamp);
+        continue;
+      }
+      if (block.type !== 'tool_use') continue;
+
+      const events = extractToolStarts([block], null, this.toolIndex, this.emittedToolStartIds, turnId);
+      for (const event of events) {
+        if (event.type !== 'tool_start') continue;
+        const existing = this.findToolMessage(event.toolUseId);
+        if (existing) {
+          existing.toolInput = event.input;
+          continue;
+        }
+        this.messages.push({
+          id: generateMessageId(),
+          type: 'tool',
+          content: '',
+          timestamp: this.nextTimestamp(timestamp),
+          toolName: event.toolName,
+          toolUseId: event.toolUseId,
+          toolInput: event.input,
+          toolStatus: 'executing',
+          toolIntent: event.intent,
+          toolDisplayName: event.displayName,
+          turnId: event.turnId,
+        });
+      }
+    }
+  }
+
+  /**
+   * Add tool_result blocks. Results are matched to their tool message by tool_use_id;
+   * results without a recorded tool call become standalone tool messages.
+   */
+  addToolResults(blocks: ContentBlock[], turnId?: string, timestamp?: number): void {
+    const resultBlocks = blocks
+      .filter((b): b is ToolResultBlock => b.type === 'tool_result')
+      .map(b => ({ ...b, content: toolResultText(b.content) }));
+    if (resultBlocks.length === 0) return;
+
+    const events = extractToolResults(resultBlocks, null, undefined, this.toolIndex, turnId);
+    for (const event of events) {
+      if (event.type !== 'tool_result') continue;
+      const existing = this.findToolMessage(event.toolUseId);
+      if (existing) {
+        existing.content = event.result;
+        existing.toolResult = event.result;
+        existing.toolStatus = 'completed';
+        existing.isError = event.isError;
+        continue;
+      }
+      this.messages.push({
+        id: generateMessageId(),
+        type: 'tool',
+        content: event.result,
+        timestamp: this.nextTimestamp(timestamp),
+        toolName: event.toolName ?? 'unknown',
+        toolUseId: event.toolUseId,
+        toolResult: event.result,
+        toolStatus: 'completed',
+        isError: event.isError,
+        turnId,
+      });
+    }
+  }
+
+  /**
+   * Finish the transcript: tool calls that never got a result are marked completed,
+   * and assistant text followed by more work in the same turn is marked intermediate
+   * (the last assistant text of a turn is its response).
+   */
+  build(): StoredMessage[] {
+    for (const message of this.messages) {
+      if (message.type === 'tool' && message.toolStatus === 'executing') {
+        message.toolStatus = 'completed';
+        message.toolResult = '';
+      }
+    }
+
+    let turnStart = 0;
+    for (let i = 0; i <= this.messages.length; i++) {
+      if (i < this.messages.length && this.messages[i]!.type !== 'user') continue;
+      const turn = this.messages.slice(turnStart, i);
+      const last = turn[turn.length - 1];
+      for (const message of turn) {
+        if (message.type === 'assistant' && message !== last) {
+          message.isIntermediate = true;
+        }
+      }
+      turnStart = i + 1;
+    }
+
+    return this.messages;
+  }
+
+  private addAssistantText(text: string, turnId: string, timestamp?: number): void {
+    if (!text.trim()) return;
+    const last = this.messages[this.messages.length - 1];
+    if (last?.type === 'assistant' && last.turnId === turnId) {
+      last.content = `${last.content}\n\n${text}`;
+      return;
+    }
+    this.messages.push({
+      id: generateMessageId(),
+      type: 'assistant',
+      content: text,
+      timestamp: this.nextTimestamp(timestamp),
+      turnId,
+    });
+  }
+
+  private findToolMessage(toolUseId: string): StoredMessage | undefined {
+    return this.messages.find(m => m.type === 'tool' && m.toolUseId === toolUseId);
+  }
+
+  /**
+   * Keep timestamps strictly increasing - the chat view orders messages by timestamp,
+   * and source transcripts often share one timestamp across several blocks.
+   */
+  private nextTimestamp(timestamp?: number): number {
+    const candidate = timestamp !== undefined && Number.isFinite(timestamp) ? timestamp : this.lastTimestamp;
+    this.lastTimestamp = Math.max(candidate, this.lastTimestamp + 1);
+    return this.lastTimestamp;
+  }
+}
+
+/**
+ * Flatten tool result content (a string or an array of content blocks) to text.
+ */
+export function toolResultText(content: unknown): string {
+  if (typeof content === 'string') return content;
+  if (!Array.isArray(content)) return content === undefined || content === null ? '' : JSON.stringify(content, null, 2);
+  return content
+    .map((block: { type?: string; text?: string }) => {
+      if (block?.type === 'text') return block.text ?? '';
+      if (block?.type === 'image') return '[image]';
+      return JSON.stringify(block);
+    })
+    .join('\n');
+}
+
+/**
+ * Parse a timestamp given as an ISO string or Unix seconds.
+ */
+export function parseTimestamp(value: unknown): number | undefined {
+  if (typeof value === 'number' && Number.isFinite(value)) return Math.round(value * 1000);
+  if (typeof value === 'string') {
+    const ms = Date.parse(value);
+    return Number.isNaN(ms) ? undefined : ms;
+  }
+  return undefined;
+}
@@ -0,0 +1,40 @@
+/**
+ * Session Import Types
+ */
+
+import type { StoredMessage } from '@craft-agent/core/types';
+import type { StoredSession } from '../types.ts';
+
+/**
+ * Transcript formats that can be imported:
+ * - claude-code: Claude Code session transcripts (~/.claude/projects/{project}/{id}.jsonl)
+ * - chatgpt: conversations.json from a ChatGPT data export
+ * - claude-ai: conversations.json from a Claude.ai data export
+ */
+export type ImportSourceFormat = 'claude-code' | 'chatgpt' | 'claude-ai';
+
+/**
+ * A conversation parsed from another app, converted to stored messages
+ * but not yet written to a workspace.
+ */
+export interface ImportedConversation {
+  format: ImportSourceFormat;
+  /** Conversation ID in the source app (used to skip re-imports) */
+  sourceId: string;
+  name?: string;
+  createdAt: number;
+  lastMessageAt: number;
+  /** Directory the conversation ran in (Claude Code only) */
+  workingDirectory?: string;
+  messages: StoredMessage[];
+}
+
+/**
+ * Outcome of importing conversations into a workspace.
+ */
+export interface ImportResult {
+  /** Sessions created by this import */
+  imported: StoredSession[];
+  /** Conversations already imported into the workspace (left untouched) */
+  skipped: ImportedConversation[];
+}
@@ -12,6 +12,7 @@
 export type {
   TodoState,
   SessionTokenUsage,
+  SessionUsageEntry,
   StoredMessage,
   SessionConfig,
   StoredSession,
@@ -39,6 +40,7 @@ export {
   listSessions,
   deleteSession,
   clearSessionMessages,
+  forkSession,
   getOrCreateLatestSession,
   // Metadata updates
   updateSessionSdkId,
@@ -95,3 +97,16 @@ export {
 } from './validation.ts';
 
 
+
+// Message editing (edit & resend)
+export { applyMessageEdit, isHiddenContextBadge } from './message-edit.ts';
+
+// Local export (Markdown; HTML and PDF are rendered by the app)
+export {
+  filterSessionForExport,
+  getSessionExportFileName,
+  sessionToMarkdown,
+  DEFAULT_SESSION_EXPORT_OPTIONS,
+  type SessionExportFormat,
+  type SessionExportOptions,
+} from './export.ts';
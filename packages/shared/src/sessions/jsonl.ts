@@ -73,12 +73,18 @@ export function readSessionJsonl(sessionFile: string): StoredSession | null {
       sdkCwd,
       sharedUrl: header.sharedUrl,
       sharedId: header.sharedId,
+      sharedEditToken: header.sharedEditToken,
       model: header.model,
       thinkingLevel: header.thinkingLevel,
+      providerProfileId: header.providerProfileId,
       pendingPlanExecution: header.pendingPlanExecution,
       messages,
       tokenUsage: header.tokenUsage,
+      usageHistory: header.usageHistory,
       hidden: header.hidden,
+      parentSessionId: header.parentSessionId,
+      forkedFromMessageId: header.forkedFromMessageId,
+      importSource: header.importSource,
     };
   } catch (error) {
     debug('[jsonl] Failed to read session:', sessionFile, error);
@@ -133,17 +139,25 @@ export function createSessionHeader(session: StoredSession): SessionHeader {
     sdkCwd: session.sdkCwd,
     sharedUrl: session.sharedUrl,
     sharedId: session.sharedId,
+    sharedEditToken: session.sharedEditToken,
     model: session.model,
     thinkingLevel: session.thinkingLevel,
+    providerProfileId: session.providerProfileId,
     pendingPlanExecution: session.pendingPlanExecution,
     // Pre-computed fields
     messageCount: session.messages.length,
     lastMessageRole: extractLastMessageRole(session.messages),
     preview: extractPreview(session.messages),
     tokenUsage: session.tokenUsage,
+    usageHistory: session.usageHistory,
     lastFinalMessageId: extractLastFinalMessageId(session.messages),
     // Hidden flag for mini-agent sessions (not shown in session list)
     hidden: session.hidden,
+    // Branch lineage for forked sessions
+    parentSessionId: session.parentSessionId,
+    forkedFromMessageId: session.forkedFromMessageId,
+    // Origin of imported transcripts
+    importSource: session.importSource,
   };
 }
 
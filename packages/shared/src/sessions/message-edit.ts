@@ -0,0 +1,60 @@
+/**
+ * Message Edit
+ *
+ * Rebuilds the content and badges of a user message after the user edits it
+ * (edit & resend flow). The user edits the text as displayed in the chat bubble,
+ * so hidden context (e.g. <edit_request> metadata) isn't part of the edited text
+ * and has to be re-attached here.
+ */
+
+import type { ContentBadge } from '@craft-agent/core/types';
+
+/**
+ * Whether a badge hides its range from the displayed message text.
+ * Must match UserMessageBubble, which strips these ranges before rendering.
+ */
+export function isHiddenContextBadge(badge: ContentBadge): boolean {
+  return badge.type === 'context' && !!badge.rawText?.includes('<edit_request>');
+}
+
+/**
+ * Apply an edit to a user message.
+ *
+ * - Hidden context badges keep their raw text, placed ahead of the edited text
+ *   (where buildEditPrompt puts them).
+ * - Inline badges (sources, skills, files, commands) are kept when their raw text
+ *   still appears in the edited text, re-positioned to the new location.
+ *   Badges whose text was removed are dropped.
+ *
+ * @param badges - Badges of the original message
+ * @param editedText - New message text as typed by the user (without hidden context)
+ */
+export function applyMessageEdit(
+  badges: ContentBadge[] | undefined,
+  editedText: string
+): { content: string; badges?: ContentBadge[] } {
+  const sorted = [...(badges ?? [])].sort((a, b) => a.start - b.start);
+  const hidden = sorted.filter(isHiddenContextBadge);
+  const inline = sorted.filter(b => !isHiddenContextBadge(b));
+
+  const result: ContentBadge[] = [];
+  let prefix = '';
+  for (const badge of hidden) {
+    result.push({ ...badge, start: prefix.length, end: prefix.length + badge.rawText.length });
+    prefix += badge.rawText;
+  }
+
+  const content = prefix + editedText;
+
+  // Match badges in order so repeated mentions map to successive occurrences
+  let cursor = prefix.length;
+  for (const badge of inline) {
+    if (!badge.rawText) continue;
+    const index = content.indexOf(badge.rawText, cursor);
+    if (index === -1) continue;
+    result.push({ ...badge, start: index, end: index + badge.rawText.length });
+    cursor = index + badge.rawText.length;
+  }
+
+  return { content, badges: result.length > 0 ? result : undefined };
+}
@@ -12,6 +12,7 @@
  */
 
 import {
+  cpSync,
   existsSync,
   mkdirSync,
   readFileSync,
@@ -21,7 +22,7 @@ import {
   statSync,
   unlinkSync,
 } from 'fs';
-import { join } from 'path';
+import { basename, join, sep } from 'path';
 import { getWorkspaceSessionsPath } from '../workspaces/storage.ts';
 import { generateUniqueSessionId } from './slug-generator.ts';
 import { toPortablePath, expandPath } from '../utils/paths.ts';
@@ -33,6 +34,7 @@ import type {
   SessionMetadata,
   SessionTokenUsage,
   SessionHeader,
+  StoredMessage,
   TodoState,
 } from './types.ts';
 import type { Plan } from '../agent/plan-types.ts';
@@ -403,11 +405,15 @@ function headerToMetadata(header: SessionHeader, workspaceRootPath: string): Ses
       sdkCwd,
       model: header.model,
       thinkingLevel: header.thinkingLevel,
+      providerProfileId: header.providerProfileId,
       // Shared viewer state - must be included for persistence across app restarts
       sharedUrl: header.sharedUrl,
       sharedId: header.sharedId,
+      sharedEditToken: header.sharedEditToken,
       // Token usage from JSONL header (available without loading messages)
       tokenUsage: header.tokenUsage,
+      usageHistory: header.usageHistory,
+      enabledSourceSlugs: header.enabledSourceSlugs,
       // Unread detection fields - pre-computed for session list display without loading messages
       lastReadMessageId: header.lastReadMessageId,
       lastFinalMessageId: header.lastFinalMessageId,
@@ -415,6 +421,10 @@ function headerToMetadata(header: SessionHeader, workspaceRootPath: string): Ses
       hasUnread: header.hasUnread,
       // Hidden flag for mini-agent sessions (not shown in session list)
       hidden: header.hidden,
+      // Branch lineage for forked sessions
+      parentSessionId: header.parentSessionId,
+      forkedFromMessageId: header.forkedFromMessageId,
+      importSource: header.importSource,
     };
   } catch {
     return null;
@@ -462,6 +472,81 @@ export async function clearSessionMessages(workspaceRootPath: string, sessionId:
   }
 }
 
+/**
+ * Fork a session at a given message.
+ * Creates a new session with the parent's settings (permission mode, sources,
+ * working directory, model, thinking level, labels) and the messages up to the
+ * fork point, and records parent/child lineage in the new session's header.
+ *
+ * Session files (attachments, plans, long responses, downloads) are copied so
+ * paths referenced by the copied messages stay valid in the fork.
+ * The fork starts without an SDK session ID - the agent replays the copied
+ * messages as context on the first turn.
+ *
+ * @param includeMessage - Whether the fork point message itself is copied (default: true).
+ *   Pass false to branch off *before* a user message, e.g. to try a different prompt.
+ * @returns The forked session, or null if the session or message doesn't exist
+ */
+export async function forkSession(
+  workspaceRootPath: string,
+  sessionId: string,
+  messageId: string,
+  options?: { includeMessage?: boolean }
+): Promise<StoredSession | null> {
+  const parent = loadSession(workspaceRootPath, sessionId);
+  if (!parent) return null;
+
+  const forkIndex = parent.messages.findIndex(m => m.id === messageId);
+  if (forkIndex === -1) return null;
+  const includeMessage = options?.includeMessage ?? true;
+  const prefix = parent.messages.slice(0, includeMessage ? forkIndex + 1 : forkIndex);
+
+  const config = await createSession(workspaceRootPath, {
+    name: parent.name ? `${parent.name} (fork)` : undefined,
+    workingDirectory: parent.workingDirectory,
+    permissionMode: parent.permissionMode,
+    enabledSourceSlugs: parent.enabledSourceSlugs,
+    model: parent.model,
+    labels: parent.labels,
+  });
+
+  // Copy session files, skipping the parent's JSONL (and any orphaned .tmp)
+  const parentDir = getSessionPath(workspaceRootPath, sessionId);
+  const forkDir = getSessionPath(workspaceRootPath, config.id);
+  cpSync(parentDir, forkDir, {
+    recursive: true,
+    filter: (src) => !basename(src).startsWith('session.jsonl'),
+  });
+
+  // Point file references in the copied messages at the fork's own folder.
+  // Paths are matched in their JSON-escaped form (backslashes on Windows).
+  const fromPath = JSON.stringify(parentDir + sep).slice(1, -1);
+  const toPath = JSON.stringify(forkDir + sep).slice(1, -1);
+  const messages = prefix.map(m =>
+    JSON.parse(JSON.stringify(m).split(fromPath).join(toPath)) as StoredMessage
+  );
+
+  const forked: StoredSession = {
+    ...config,
+    thinkingLevel: parent.thinkingLevel,
+    providerProfileId: parent.providerProfileId,
+    lastMessageAt: Date.now(),
+    parentSessionId: parent.id,
+    forkedFromMessageId: messageId,
+    messages,
+    tokenUsage: {
+      inputTokens: 0,
+      outputTokens: 0,
+      totalTokens: 0,
+      contextTokens: 0,
+      costUsd: 0,
+    },
+  };
+  await saveSession(forked);
+
+  return forked;
+}
+
 /**
  * Get or create the latest session for a workspace
  */
@@ -518,6 +603,7 @@ export async function updateSessionMetadata(
     | 'permissionMode'
     | 'sharedUrl'
     | 'sharedId'
+    | 'sharedEditToken'
     | 'model'
   >>
 ): Promise<void> {
@@ -535,6 +621,7 @@ export async function updateSessionMetadata(
   if ('hasUnread' in updates) session.hasUnread = updates.hasUnread;
   if ('sharedUrl' in updates) session.sharedUrl = updates.sharedUrl;
   if ('sharedId' in updates) session.sharedId = updates.sharedId;
+  if ('sharedEditToken' in updates) session.sharedEditToken = updates.sharedEditToken;
   if (updates.model !== undefined) session.model = updates.model;
 
   await saveSession(session);
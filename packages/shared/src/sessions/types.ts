@@ -43,6 +43,22 @@ export interface SessionTokenUsage {
   contextWindow?: number;
 }
 
+/**
+ * Usage accumulated for one (day, model) slice of a session.
+ * Recorded per turn and kept in the JSONL header so usage analytics
+ * can be built from session headers without loading messages.
+ */
+export interface SessionUsageEntry {
+  /** Local date of the turns (YYYY-MM-DD) */
+  date: string;
+  /** Model used for the turns (undefined = workspace/app default) */
+  model?: string;
+  turns: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+}
+
 /**
  * Stored message format (simplified for persistence)
  * Re-exported from @craft-agent/core for convenience
@@ -91,10 +107,14 @@ export interface SessionConfig {
   sharedUrl?: string;
   /** Shared session ID in viewer (for revoke) */
   sharedId?: string;
+  /** Edit token returned by the viewer when sharing (required to update or revoke the share) */
+  sharedEditToken?: string;
   /** Model to use for this session (overrides global config if set) */
   model?: string;
   /** Thinking level for this session ('off', 'think', 'max') */
   thinkingLevel?: ThinkingLevel;
+  /** Provider profile selected for this session (undefined = workspace/global default) */
+  providerProfileId?: string;
   /**
    * Pending plan execution state - tracks "Accept & Compact" flow.
    * When set, indicates a plan needs to be executed after compaction completes.
@@ -108,6 +128,12 @@ export interface SessionConfig {
   };
   /** When true, session is hidden from session list (e.g., mini edit sessions) */
   hidden?: boolean;
+  /** ID of the session this one was forked from (branch lineage) */
+  parentSessionId?: string;
+  /** ID of the message in the parent session where this fork was taken */
+  forkedFromMessageId?: string;
+  /** Origin of an imported transcript as `{format}:{id}` (e.g. claude-code:<uuid>), used to skip re-imports */
+  importSource?: string;
 }
 
 /**
@@ -116,6 +142,8 @@ export interface SessionConfig {
 export interface StoredSession extends SessionConfig {
   messages: StoredMessage[];
   tokenUsage: SessionTokenUsage;
+  /** Per-day, per-model usage history (survives /clear, unlike tokenUsage) */
+  usageHistory?: SessionUsageEntry[];
 }
 
 /**
@@ -162,10 +190,14 @@ export interface SessionHeader {
   sharedUrl?: string;
   /** Shared session ID in viewer (for revoke) */
   sharedId?: string;
+  /** Edit token returned by the viewer when sharing (required to update or revoke the share) */
+  sharedEditToken?: string;
   /** Model to use for this session (overrides global config if set) */
   model?: string;
   /** Thinking level for this session ('off', 'think', 'max') */
   thinkingLevel?: ThinkingLevel;
+  /** Provider profile selected for this session (undefined = workspace/global default) */
+  providerProfileId?: string;
   /**
    * Pending plan execution state - tracks "Accept & Compact" flow.
    * When set, indicates a plan needs to be executed after compaction completes.
@@ -179,6 +211,12 @@ export interface SessionHeader {
   };
   /** When true, session is hidden from session list (e.g., mini edit sessions) */
   hidden?: boolean;
+  /** ID of the session this one was forked from (branch lineage) */
+  parentSessionId?: string;
+  /** ID of the message in the parent session where this fork was taken */
+  forkedFromMessageId?: string;
+  /** Origin of an imported transcript as `{format}:{id}` (e.g. claude-code:<uuid>), used to skip re-imports */
+  importSource?: string;
   // Pre-computed fields for fast list loading
   /** Number of messages in session */
   messageCount: number;
@@ -188,6 +226,8 @@ export interface SessionHeader {
   preview?: string;
   /** Token usage statistics */
   tokenUsage: SessionTokenUsage;
+  /** Per-day, per-model usage history */
+  usageHistory?: SessionUsageEntry[];
   /** ID of the last final (non-intermediate) assistant message - for unread detection without loading messages */
   lastFinalMessageId?: string;
 }
@@ -221,6 +261,8 @@ export interface SessionMetadata {
   sharedUrl?: string;
   /** Shared session ID in viewer (for revoke) */
   sharedId?: string;
+  /** Edit token returned by the viewer when sharing (required to update or revoke the share) */
+  sharedEditToken?: string;
   /** Working directory for this session */
   workingDirectory?: string;
   /** SDK cwd for session storage - set once at creation, never changes */
@@ -231,6 +273,8 @@ export interface SessionMetadata {
   model?: string;
   /** Thinking level for this session ('off', 'think', 'max') */
   thinkingLevel?: ThinkingLevel;
+  /** Provider profile selected for this session (undefined = workspace/global default) */
+  providerProfileId?: string;
   /** ID of last message user has read - for unread detection */
   lastReadMessageId?: string;
   /** ID of the last final (non-intermediate) assistant message - for unread detection */
@@ -243,6 +287,16 @@ export interface SessionMetadata {
   hasUnread?: boolean;
   /** Token usage statistics (from JSONL header, available without loading messages) */
   tokenUsage?: SessionTokenUsage;
+  /** Per-day, per-model usage history (from JSONL header) */
+  usageHistory?: SessionUsageEntry[];
+  /** Sources enabled for this session (from JSONL header) */
+  enabledSourceSlugs?: string[];
   /** When true, session is hidden from session list (e.g., mini edit sessions) */
   hidden?: boolean;
+  /** ID of the session this one was forked from (branch lineage) */
+  parentSessionId?: string;
+  /** ID of the message in the parent session where this fork was taken */
+  forkedFromMessageId?: string;
+  /** Origin of an imported transcript as `{format}:{id}` (e.g. claude-code:<uuid>), used to skip re-imports */
+  importSource?: string;
 }
@@ -3,16 +3,25 @@
  *
  * Creates a single flexible MCP tool per API configuration.
  * Each tool accepts { path, method, params } and auto-injects authentication.
+ * Sources generated from an OpenAPI spec can instead get one typed tool per operation.
  */
 
 import { createSdkMcpServer, tool } from '@anthropic-ai/claude-agent-sdk';
 import { z } from 'zod';
 import { existsSync, mkdirSync, writeFileSync } from 'fs';
 import { join } from 'path';
-import type { ApiConfig } from './types.ts';
+import type { ApiConfig, ApiTestEndpoint } from './types.ts';
 import { debug } from '../utils/debug.ts';
 import { estimateTokens, summarizeLargeResult, TOKEN_LIMIT, MAX_SUMMARIZATION_INPUT } from '../utils/summarize.ts';
 import type { ApiCredential, BasicAuthCredential } from './credential-manager.ts';
+import {
+  buildOpenApiDocumentation,
+  buildOpenApiOperationPath,
+  openApiSchemaToZod,
+  registerOpenApiOperationTool,
+  type OpenApiOperation,
+} from './openapi.ts';
+import { getSourceToolName } from './tool-selection.ts';
 
 // Maximum file size for binary downloads (500MB)
 // Prevents memory exhaustion from malicious or unexpectedly large API responses
@@ -528,6 +537,28 @@ function buildUrl(
   return url;
 }
 
+/**
+ * Call an API's test endpoint with authentication applied (used by health checks).
+ * Without a test endpoint, the base URL is requested with GET.
+ */
+export async function requestApiTestEndpoint(
+  config: ApiConfig,
+  credential: ApiCredential,
+  endpoint: ApiTestEndpoint | undefined,
+  signal?: AbortSignal
+): Promise<Response> {
+  const method = endpoint?.method ?? 'GET';
+  const headers = buildHeaders(config.auth, credential, { ...config.defaultHeaders, ...endpoint?.headers });
+  const url = buildUrl(config.baseUrl, endpoint?.path ?? '', method, undefined, config.auth, credential);
+
+  return fetch(url, {
+    method,
+    headers,
+    body: method === 'POST' && endpoint?.body ? JSON.stringify(endpoint.body) : undefined,
+    signal,
+  });
+}
+
 /**
  * Build tool description from API config
  */
@@ -536,13 +567,18 @@ function buildToolDescription(config: ApiConfig): string {
   desc += `Authentication is handled automatically - just specify path, method, and params.\n\n`;
 
   // Check for old cache format (no documentation field)
-  if (!config.documentation) {
+  if (!config.documentation && !config.openApi) {
     desc += `⚠️ This API was cached with an older format. You can still make requests but you'll need to figure out the endpoints yourself.`;
     return desc;
   }
 
   // Include the rich documentation extracted from the agent definition
-  desc += config.documentation;
+  desc += config.documentation ?? '';
+
+  // Append the endpoint reference generated from the source's OpenAPI spec
+  if (config.openApi) {
+    desc += `${config.documentation ? '\n\n' : ''}${buildOpenApiDocumentation(config.openApi.document)}`;
+  }
 
   if (config.docsUrl) {
     desc += `\n\nOfficial docs: ${config.docsUrl}`;
@@ -583,237 +619,331 @@ export function createApiTool(
       params: z.record(z.string(), z.unknown()).optional().describe('Request body (POST/PUT/PATCH) or query parameters (GET)'),
       _intent: z.string().optional().describe('REQUIRED: Describe what you are trying to accomplish with this API call (1-2 sentences)'),
     },
-    async (args) => {
-      const { path, method, params, _intent } = args;
+    async (args) => executeApiRequest(config, credential, sessionPath, args)
+  );
+}
 
-      try {
-        // Resolve credential - if it's a token getter function, call it to get fresh token
-        const resolvedCredential: ApiCredential = isTokenGetter(credential)
-          ? await credential()
-          : credential;
+/**
+ * Create a typed MCP tool for one operation of an OpenAPI spec.
+ * Path, query and header parameters are top-level arguments; the request body goes in `body`.
+ *
+ * @param config - API configuration (name is the source slug)
+ * @param operation - Operation parsed from the source's spec
+ * @param credential - API credential source, as for createApiTool
+ * @param sessionPath - Optional path to session folder for saving large responses
+ * @returns SDK tool that can be included in an MCP server
+ */
+export function createOpenApiOperationTool(
+  config: ApiConfig,
+  operation: OpenApiOperation,
+  credential: ApiCredentialSource,
+  sessionPath?: string
+) {
+  const toolName = `api_${operation.name}`;
+  registerOpenApiOperationTool(getSourceToolName(config.name, toolName), operation);
+
+  const shape: Record<string, z.ZodTypeAny> = {};
+  for (const param of operation.parameters) {
+    // Path parameters win over query/header parameters with the same name
+    if (param.name in shape) continue;
+    let field = openApiSchemaToZod(param.schema);
+    if (param.description) field = field.describe(param.description);
+    shape[param.name] = param.required ? field : field.optional();
+  }
+  if (operation.requestBody) {
+    const body = openApiSchemaToZod(operation.requestBody.schema).describe(operation.requestBody.description ?? 'Request body');
+    shape.body = operation.requestBody.required ? body : body.optional();
+  }
+  shape._intent = z.string().optional().describe('REQUIRED: Describe what you are trying to accomplish with this API call (1-2 sentences)');
+
+  let description = `${operation.method} ${operation.path} on ${config.name} API (${config.baseUrl})`;
+  const details = [operation.summary, operation.description].filter(Boolean).join('\n\n');
+  if (details) description += `\n\n${details}`;
+  description += `\n\nAuthentication is handled automatically.`;
+
+  return tool(toolName, description, shape, async (args: Record<string, unknown>) => {
+    const query: Record<string, unknown> = {};
+    const headers: Record<string, string> = {};
+    for (const param of operation.parameters) {
+      const value = args[param.name];
+      if (value === undefined || value === null || param.in === 'path') continue;
+      if (param.in === 'query') query[param.name] = value;
+      else headers[param.name] = String(value);
+    }
 
-        const url = buildUrl(config.baseUrl, path, method, params, config.auth, resolvedCredential);
-        const headers = buildHeaders(config.auth, resolvedCredential, config.defaultHeaders);
+    let path = buildOpenApiOperationPath(operation, args);
+    let params: Record<string, unknown> | undefined = query;
+    // Only GET requests get params as query string - other methods send them as body
+    if (operation.method !== 'GET') {
+      const queryString = new URLSearchParams(
+        Object.entries(query).map(([key, value]): [string, string] => [key, typeof value === 'object' ? JSON.stringify(value) : String(value)])
+      ).toString();
+      if (queryString) path += `?${queryString}`;
+      params = args.body as Record<string, unknown> | undefined;
+    }
 
-        debug(`[api-tools] ${config.name}: ${method} ${url}`);
+    return executeApiRequest(config, credential, sessionPath, {
+      path,
+      method: operation.method,
+      params,
+      headers,
+      _intent: args._intent as string | undefined,
+    });
+  });
+}
 
-        const fetchOptions: RequestInit = {
-          method,
-          headers,
-        };
+/**
+ * A single API request made by an API tool
+ */
+interface ApiRequest {
+  path: string;
+  method: 'GET' | 'POST' | 'PUT' | 'DELETE' | 'PATCH';
+  /** Request body (POST/PUT/PATCH) or query parameters (GET) */
+  params?: Record<string, unknown>;
+  /** Extra headers for this request (header parameters of OpenAPI operations) */
+  headers?: Record<string, string>;
+  _intent?: string;
+}
 
-        // Add body for non-GET requests
-        if (method !== 'GET' && params && Object.keys(params).length > 0) {
-          fetchOptions.body = JSON.stringify(params);
-        }
+/**
+ * Make an authenticated API request and turn the response into a tool result.
+ * Binary responses are saved to the session downloads folder, large text
+ * responses are saved and summarized.
+ */
+async function executeApiRequest(
+  config: ApiConfig,
+  credential: ApiCredentialSource,
+  sessionPath: string | undefined,
+  request: ApiRequest
+) {
+  const { path, method, params, _intent } = request;
 
-        const response = await fetch(url, fetchOptions);
+  try {
+    // Resolve credential - if it's a token getter function, call it to get fresh token
+    const resolvedCredential: ApiCredential = isTokenGetter(credential)
+      ? await credential()
+      : credential;
 
-        // ============================================================
-        // Binary Detection: Check Content-Type and handle binary responses
-        // ============================================================
-        const contentType = response.headers.get('content-type');
+    const url = buildUrl(config.baseUrl, path, method, params, config.auth, resolvedCredential);
+    const headers = { ...buildHeaders(config.auth, resolvedCredential, config.defaultHeaders), ...request.headers };
 
-        // Memory safety: Check Content-Length before loading response into memory
-        // This prevents OOM crashes from malicious or unexpectedly large responses
-        const contentLength = response.headers.get('content-length');
-        if (contentLength) {
-          const size = parseInt(contentLength, 10);
-          if (!isNaN(size) && size > MAX_DOWNLOAD_SIZE) {
-            return {
-              content: [{
-                type: 'text' as const,
-                text: `Response too large: ${formatBytes(size)} exceeds ${formatBytes(MAX_DOWNLOAD_SIZE)} limit. Use a streaming download tool for large files.`,
-              }],
-              isError: true,
-            };
-          }
-        }
+    debug(`[api-tools] ${config.name}: ${method} ${url}`);
 
-        // Step 1: If Content-Type clearly indicates binary, save directly to disk
-        // This skips text processing entirely for PDFs, images, etc.
-        if (contentType && !isTextContentType(contentType) && sessionPath) {
-          debug(`[api-tools] ${config.name}: Binary content-type detected: ${contentType}`);
-          const buffer = Buffer.from(await response.arrayBuffer());
-          const filename = extractFilename(response, path, contentType, buffer);
-          const result = saveBinaryResponse(sessionPath, filename, buffer, contentType);
-          if (result.type === 'file_download_error') {
-            return {
-              content: [{ type: 'text' as const, text: result.error }],
-              isError: true,
-            };
-          }
-          debug(`[api-tools] ${config.name}: Binary file saved: ${result.path} (${result.sizeHuman})`);
-          return {
-            content: [{
-              type: 'text' as const,
-              text: JSON.stringify(result, null, 2),
-            }],
-          };
-        }
+    const fetchOptions: RequestInit = {
+      method,
+      headers,
+    };
 
-        // Step 2: For text types or unknown, get content as buffer first
-        // This allows us to inspect for binary content even if Content-Type is wrong
-        const buffer = Buffer.from(await response.arrayBuffer());
-
-        // Step 3: Content inspection fallback for ambiguous cases
-        // If Content-Type was missing/text but content looks binary, save as file
-        if (sessionPath && looksLikeBinary(buffer)) {
-          debug(`[api-tools] ${config.name}: Binary content detected via inspection`);
-          const filename = extractFilename(response, path, contentType, buffer);
-          const result = saveBinaryResponse(sessionPath, filename, buffer, contentType);
-          if (result.type === 'file_download_error') {
-            return {
-              content: [{ type: 'text' as const, text: result.error }],
-              isError: true,
-            };
-          }
-          debug(`[api-tools] ${config.name}: Binary file saved: ${result.path} (${result.sizeHuman})`);
-          return {
-            content: [{
-              type: 'text' as const,
-              text: JSON.stringify(result, null, 2),
-            }],
-          };
-        }
+    // Add body for non-GET requests
+    if (method !== 'GET' && params && Object.keys(params).length > 0) {
+      fetchOptions.body = JSON.stringify(params);
+    }
 
-        // Step 4: It's text - convert to string and continue with normal flow
-        const text = buffer.toString('utf-8');
-
-        // Check for error responses
-        if (!response.ok) {
-          debug(`[api-tools] ${config.name} error ${response.status}: ${text.substring(0, 200)}`);
-          return {
-            content: [{
-              type: 'text' as const,
-              text: `API Error ${response.status}: ${text}`,
-            }],
-            isError: true,
-          };
-        }
+    const response = await fetch(url, fetchOptions);
 
-        // Step 5: Check for Gmail-style base64-wrapped binary attachments
-        // Gmail attachments return JSON like: { size: 31934, data: "JVBERi0xLjQ..." }
-        if (sessionPath && contentType?.includes('application/json')) {
-          try {
-            const json = JSON.parse(text);
-            if (isGmailAttachment(json)) {
-              const decoded = Buffer.from(json.data, 'base64');
-              // Verify size roughly matches (allow small variance for padding)
-              if (decoded.length > 0 && Math.abs(decoded.length - json.size) < 100) {
-                debug(`[api-tools] ${config.name}: Gmail attachment detected, decoding base64`);
-                // Pass decoded buffer for magic byte detection since Gmail doesn't provide mime type
-                const filename = extractFilename(response, path, null, decoded);
-                const result = saveBinaryResponse(sessionPath, filename, decoded, null);
-                if (result.type === 'file_download_error') {
-                  return {
-                    content: [{ type: 'text' as const, text: result.error }],
-                    isError: true,
-                  };
-                }
-                debug(`[api-tools] ${config.name}: Gmail attachment saved: ${result.path} (${result.sizeHuman})`);
-                return {
-                  content: [{
-                    type: 'text' as const,
-                    text: JSON.stringify(result, null, 2),
-                  }],
-                };
-              }
-            }
-          } catch {
-            // Not valid JSON or not attachment format - continue with normal flow
-          }
-        }
+    // ============================================================
+    // Binary Detection: Check Content-Type and handle binary responses
+    // ============================================================
+    const contentType = response.headers.get('content-type');
 
-        // ============================================================
-        // Text Response Handling (existing flow)
-        // ============================================================
-
-        // Check if response is too large and needs summarization
-        // TOKEN_LIMIT (~15k tokens / ~60KB) triggers summarization
-        // MAX_SUMMARIZATION_INPUT (~100k tokens / ~400KB) is Haiku's limit
-        const estimatedTokens = estimateTokens(text);
-
-        if (estimatedTokens > TOKEN_LIMIT) {
-          // Log when large response handling is triggered
-          debug(`[api-tools] ${config.name} large response: ${text.length} bytes, ~${estimatedTokens} tokens (limit=${TOKEN_LIMIT}, max=${MAX_SUMMARIZATION_INPUT})`);
-
-          // Always save full response to file first (if sessionPath is available)
-          let filePath: string | undefined;
-          if (sessionPath) {
-            try {
-              filePath = saveLargeResponse(sessionPath, config.name, path, text);
-              debug(`[api-tools] Full response saved to: ${filePath}`);
-            } catch (e) {
-              console.error(`[api-tools] Failed to save response: ${e}`);
-            }
-          }
+    // Memory safety: Check Content-Length before loading response into memory
+    // This prevents OOM crashes from malicious or unexpectedly large responses
+    const contentLength = response.headers.get('content-length');
+    if (contentLength) {
+      const size = parseInt(contentLength, 10);
+      if (!isNaN(size) && size > MAX_DOWNLOAD_SIZE) {
+        return {
+          content: [{
+            type: 'text' as const,
+            text: `Response too large: ${formatBytes(size)} exceeds ${formatBytes(MAX_DOWNLOAD_SIZE)} limit. Use a streaming download tool for large files.`,
+          }],
+          isError: true,
+        };
+      }
+    }
 
-          // Check if response is too large even for Haiku to summarize
-          if (estimatedTokens > MAX_SUMMARIZATION_INPUT) {
-            debug(`[api-tools] Too large for Haiku summarization, providing file reference + preview...`);
-            const preview = text.substring(0, 2000);
-            const fileRef = filePath
-              ? `Full response saved to: ${filePath}\nUse Read tool to view, or Grep to search.\n\n`
-              : '';
-            return {
-              content: [{
-                type: 'text' as const,
-                text: `[Response too large for summarization (~${estimatedTokens} tokens, max is ~${MAX_SUMMARIZATION_INPUT}). ${fileRef}Preview:\n${preview}...`,
-              }],
-            };
-          }
+    // Step 1: If Content-Type clearly indicates binary, save directly to disk
+    // This skips text processing entirely for PDFs, images, etc.
+    if (contentType && !isTextContentType(contentType) && sessionPath) {
+      debug(`[api-tools] ${config.name}: Binary content-type detected: ${contentType}`);
+      const buffer = Buffer.from(await response.arrayBuffer());
+      const filename = extractFilename(response, path, contentType, buffer);
+      const result = saveBinaryResponse(sessionPath, filename, buffer, contentType);
+      if (result.type === 'file_download_error') {
+        return {
+          content: [{ type: 'text' as const, text: result.error }],
+          isError: true,
+        };
+      }
+      debug(`[api-tools] ${config.name}: Binary file saved: ${result.path} (${result.sizeHuman})`);
+      return {
+        content: [{
+          type: 'text' as const,
+          text: JSON.stringify(result, null, 2),
+        }],
+      };
+    }
 
-          if (_intent) {
-            debug(`[api-tools] Using intent for summarization: ${_intent}`);
-          }
+    // Step 2: For text types or unknown, get content as buffer first
+    // This allows us to inspect for binary content even if Content-Type is wrong
+    const buffer = Buffer.from(await response.arrayBuffer());
+
+    // Step 3: Content inspection fallback for ambiguous cases
+    // If Content-Type was missing/text but content looks binary, save as file
+    if (sessionPath && looksLikeBinary(buffer)) {
+      debug(`[api-tools] ${config.name}: Binary content detected via inspection`);
+      const filename = extractFilename(response, path, contentType, buffer);
+      const result = saveBinaryResponse(sessionPath, filename, buffer, contentType);
+      if (result.type === 'file_download_error') {
+        return {
+          content: [{ type: 'text' as const, text: result.error }],
+          isError: true,
+        };
+      }
+      debug(`[api-tools] ${config.name}: Binary file saved: ${result.path} (${result.sizeHuman})`);
+      return {
+        content: [{
+          type: 'text' as const,
+          text: JSON.stringify(result, null, 2),
+        }],
+      };
+    }
 
-          // Try summarization (now works with OAuth via SDK query())
-          try {
-            const summary = await summarizeLargeResult(text, {
-              toolName: `api_${config.name}`,
-              path,
-              input: params,
-              modelIntent: _intent,
-            });
-
-            // Return file path + summary
-            const fileRef = filePath
-              ? `Full response saved to: ${filePath}\nUse Read/Grep to access specific content.\n\n`
-              : '';
-            return {
-              content: [{
-                type: 'text' as const,
-                text: `[Large response (~${estimatedTokens} tokens) summarized. ${fileRef}]\n\n${summary}`,
-              }],
-            };
-          } catch (summarizeError) {
-            // Fallback: file path + preview (no large truncation in context)
-            console.error(`[api-tools] Summarization failed: ${summarizeError}`);
-            const preview = text.substring(0, 2000);
-            const fileRef = filePath
-              ? `Full response saved to: ${filePath}\nUse Read tool to view, or Grep to search.\n\n`
-              : '';
+    // Step 4: It's text - convert to string and continue with normal flow
+    const text = buffer.toString('utf-8');
+
+    // Check for error responses
+    if (!response.ok) {
+      debug(`[api-tools] ${config.name} error ${response.status}: ${text.substring(0, 200)}`);
+      return {
+        content: [{
+          type: 'text' as const,
+          text: `API Error ${response.status}: ${text}`,
+        }],
+        isError: true,
+      };
+    }
+
+    // Step 5: Check for Gmail-style base64-wrapped binary attachments
+    // Gmail attachments return JSON like: { size: 31934, data: "JVBERi0xLjQ..." }
+    if (sessionPath && contentType?.includes('application/json')) {
+      try {
+        const json = JSON.parse(text);
+        if (isGmailAttachment(json)) {
+          const decoded = Buffer.from(json.data, 'base64');
+          // Verify size roughly matches (allow small variance for padding)
+          if (decoded.length > 0 && Math.abs(decoded.length - json.size) < 100) {
+            debug(`[api-tools] ${config.name}: Gmail attachment detected, decoding base64`);
+            // Pass decoded buffer for magic byte detection since Gmail doesn't provide mime type
+            const filename = extractFilename(response, path, null, decoded);
+            const result = saveBinaryResponse(sessionPath, filename, decoded, null);
+            if (result.type === 'file_download_error') {
+              return {
+                content: [{ type: 'text' as const, text: result.error }],
+                isError: true,
+              };
+            }
+            debug(`[api-tools] ${config.name}: Gmail attachment saved: ${result.path} (${result.sizeHuman})`);
             return {
               content: [{
                 type: 'text' as const,
-                text: `[Response too large (~${estimatedTokens} tokens). Summarization failed. ${fileRef}Preview:\n${preview}...`,
+                text: JSON.stringify(result, null, 2),
               }],
             };
           }
         }
+      } catch {
+        // Not valid JSON or not attachment format - continue with normal flow
+      }
+    }
+
+    // ============================================================
+    // Text Response Handling (existing flow)
+    // ============================================================
+
+    // Check if response is too large and needs summarization
+    // TOKEN_LIMIT (~15k tokens / ~60KB) triggers summarization
+    // MAX_SUMMARIZATION_INPUT (~100k tokens / ~400KB) is Haiku's limit
+    const estimatedTokens = estimateTokens(text);
+
+    if (estimatedTokens > TOKEN_LIMIT) {
+      // Log when large response handling is triggered
+      debug(`[api-tools] ${config.name} large response: ${text.length} bytes, ~${estimatedTokens} tokens (limit=${TOKEN_LIMIT}, max=${MAX_SUMMARIZATION_INPUT})`);
+
+      // Always save full response to file first (if sessionPath is available)
+      let filePath: string | undefined;
+      if (sessionPath) {
+        try {
+          filePath = saveLargeResponse(sessionPath, config.name, path, text);
+          debug(`[api-tools] Full response saved to: ${filePath}`);
+        } catch (e) {
+          console.error(`[api-tools] Failed to save response: ${e}`);
+        }
+      }
 
-        return { content: [{ type: 'text' as const, text }] };
-      } catch (error) {
-        const message = error instanceof Error ? error.message : 'Unknown error';
-        debug(`[api-tools] ${config.name} request failed: ${message}`);
+      // Check if response is too large even for Haiku to summarize
+      if (estimatedTokens > MAX_SUMMARIZATION_INPUT) {
+        debug(`[api-tools] Too large for Haiku summarization, providing file reference + preview...`);
+        const preview = text.substring(0, 2000);
+        const fileRef = filePath
+          ? `Full response saved to: ${filePath}\nUse Read tool to view, or Grep to search.\n\n`
+          : '';
         return {
-          content: [{ type: 'text' as const, text: `Request failed: ${message}` }],
-          isError: true,
+          content: [{
+            type: 'text' as const,
+            text: `[Response too large for summarization (~${estimatedTokens} tokens, max is ~${MAX_SUMMARIZATION_INPUT}). ${fileRef}Preview:\n${preview}...`,
+          }],
+        };
+      }
+
+      if (_intent) {
+        debug(`[api-tools] Using intent for summarization: ${_intent}`);
+      }
+
+      // Try summarization (now works with OAuth via SDK query())
+      try {
+        const summary = await summarizeLargeResult(text, {
+          toolName: `api_${config.name}`,
+          path,
+          input: params,
+          modelIntent: _intent,
+        });
+
+        // Return file path + summary
+        const fileRef = filePath
+          ? `Full response saved to: ${filePath}\nUse Read/Grep to access specific content.\n\n`
+          : '';
+        return {
+          content: [{
+            type: 'text' as const,
+            text: `[Large response (~${estimatedTokens} tokens) summarized. ${fileRef}]\n\n${summary}`,
+          }],
+        };
+      } catch (summarizeError) {
+        // Fallback: file path + preview (no large truncation in context)
+        console.error(`[api-tools] Summarization failed: ${summarizeError}`);
+        const preview = text.substring(0, 2000);
+        const fileRef = filePath
+          ? `Full response saved to: ${filePath}\nUse Read tool to view, or Grep to search.\n\n`
+          : '';
+        return {
+          content: [{
+            type: 'text' as const,
+            text: `[Response too large (~${estimatedTokens} tokens). Summarization failed. ${fileRef}Preview:\n${preview}...`,
+          }],
         };
       }
     }
-  );
+
+    return { content: [{ type: 'text' as const, text }] };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    debug(`[api-tools] ${config.name} request failed: ${message}`);
+    return {
+      content: [{ type: 'text' as const, text: `Request failed: ${message}` }],
+      isError: true,
+    };
+  }
 }
 
 /**
@@ -832,11 +962,14 @@ export function createApiServer(
 ): ReturnType<typeof createSdkMcpServer> {
   debug(`[api-tools] Creating server for ${config.name}${sessionPath ? ` (session: ${sessionPath})` : ''}`);
 
-  const apiTool = createApiTool(config, credential, sessionPath);
+  // Sources generated from an OpenAPI spec can expose one typed tool per operation
+  const tools = config.openApi?.toolMode === 'operations'
+    ? config.openApi.document.operations.map(operation => createOpenApiOperationTool(config, operation, credential, sessionPath))
+    : [createApiTool(config, credential, sessionPath)];
 
   return createSdkMcpServer({
     name: `api_${config.name}`,
     version: '1.0.0',
-    tools: [apiTool],
+    tools,
   });
 }
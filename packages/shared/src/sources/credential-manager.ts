@@ -17,6 +17,7 @@ import {
   inferSlackServiceFromUrl,
   inferMicrosoftServiceFromUrl,
   isApiOAuthProvider,
+  isApiOAuthSource,
   type LoadedSource,
   type GoogleService,
   type SlackService,
@@ -43,6 +44,13 @@ import {
   type MicrosoftOAuthResult,
   type MicrosoftOAuthOptions,
 } from '../auth/microsoft-oauth.ts';
+import {
+  startGenericOAuth,
+  refreshGenericOAuthToken,
+  requestClientCredentialsToken,
+  type DeviceCodePrompt,
+  type GenericOAuthResult,
+} from '../auth/generic-oauth.ts';
 import { debug } from '../utils/debug.ts';
 import { markSourceAuthenticated, loadSourceConfig, saveSourceConfig } from './storage.ts';
 
@@ -231,9 +239,9 @@ export class SourceCredentialManager {
     if (source.config.type === 'mcp') {
       type = mcp?.authType === 'bearer' ? 'source_bearer' : 'source_oauth';
     } else if (source.config.type === 'api') {
-      // OAuth providers (Google/Slack/Microsoft) store credentials as source_oauth.
+      // OAuth providers (Google/Slack/Microsoft) and generic OAuth APIs store credentials as source_oauth.
       // This separates HOW we get credentials (OAuth flow) from HOW we send them (Bearer header).
-      if (isApiOAuthProvider(source.config.provider)) {
+      if (isApiOAuthSource(source.config)) {
         type = 'source_oauth';
       } else if (api?.authType === 'bearer') {
         type = 'source_bearer';
@@ -338,6 +346,11 @@ export class SourceCredentialManager {
       return this.authenticateMicrosoft(source, cb);
     }
 
+    // Other API sources with authType 'oauth' use the generic OAuth 2.0 flow
+    if (source.config.type === 'api' && source.config.api?.authType === 'oauth') {
+      return this.authenticateGenericOAuth(source, cb);
+    }
+
     // MCP OAuth flow
     if (source.config.type === 'mcp' && source.config.mcp?.authType === 'oauth') {
       return this.authenticateMcp(source, cb);
@@ -595,6 +608,61 @@ export class SourceCredentialManager {
     }
   }
 
+  /**
+   * Authenticate API source via the generic OAuth 2.0 flow
+   *
+   * Endpoints, client and grant type come from the source's api.oauth config:
+   * - authorization_code: opens the browser, receives the code on the local callback server
+   * - client_credentials: requests a token directly, no user interaction
+   * - device_code: opens the verification page and reports the user code via callbacks
+   */
+  private async authenticateGenericOAuth(
+    source: LoadedSource,
+    callbacks: OAuthCallbacks
+  ): Promise<AuthResult> {
+    const oauth = source.config.api?.oauth;
+    if (!oauth) {
+      return {
+        success: false,
+        error: `Source '${source.config.slug}' uses authType 'oauth' but has no api.oauth config (tokenUrl, clientId, ...).`,
+      };
+    }
+
+    try {
+      callbacks.onStatus(`Starting OAuth flow for ${source.config.name}...`);
+
+      const result: GenericOAuthResult = await startGenericOAuth(oauth, {
+        appType: 'electron',
+        onDeviceCode: (prompt: DeviceCodePrompt) => {
+          callbacks.onStatus(`Enter code ${prompt.userCode} at ${prompt.verificationUri}`);
+          callbacks.onDeviceCode?.(prompt);
+        },
+      });
+
+      if (!result.success) {
+        return { success: false, error: result.error || 'OAuth failed' };
+      }
+
+      // Save the credentials - clientId/secret stay in config.json and are read again on refresh
+      await this.save(source, {
+        value: result.accessToken!,
+        refreshToken: result.refreshToken,
+        expiresAt: result.expiresAt,
+        tokenType: result.tokenType,
+      });
+
+      // Mark source as authenticated in config.json
+      markSourceAuthenticated(source.workspaceRootPath, source.config.slug);
+
+      callbacks.onStatus(`${source.config.name} authentication successful`);
+      return { success: true };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      callbacks.onError(message);
+      return { success: false, error: message };
+    }
+  }
+
   /**
    * Refresh token for a source
    *
@@ -630,6 +698,12 @@ export class SourceCredentialManager {
    */
   private async doRefresh(source: LoadedSource): Promise<string | null> {
     const cred = await this.load(source);
+
+    // Generic OAuth refresh (client_credentials grants re-request without a refresh token)
+    if (source.config.type === 'api' && source.config.api?.authType === 'oauth' && !isApiOAuthProvider(source.config.provider)) {
+      return this.refreshGenericOAuth(source, cred);
+    }
+
     if (!cred?.refreshToken) {
       debug(`[SourceCredentialManager] No refresh token for ${source.config.slug}`);
       return null;
@@ -745,6 +819,51 @@ export class SourceCredentialManager {
     }
   }
 
+  /**
+   * Refresh generic OAuth token
+   *
+   * Uses the refresh token if there is one; client_credentials sources request a new token.
+   */
+  private async refreshGenericOAuth(
+    source: LoadedSource,
+    cred: StoredCredential | null
+  ): Promise<string | null> {
+    const oauth = source.config.api?.oauth;
+    if (!oauth) {
+      this.markSourceNeedsReauth(source, 'Missing api.oauth config for token refresh');
+      return null;
+    }
+
+    const isClientCredentials = oauth.grantType === 'client_credentials';
+    if (!isClientCredentials && !cred?.refreshToken) {
+      debug(`[SourceCredentialManager] No refresh token for ${source.config.slug}`);
+      return null;
+    }
+
+    try {
+      const result = isClientCredentials
+        ? await requestClientCredentialsToken(oauth)
+        : await refreshGenericOAuthToken(oauth, cred!.refreshToken!);
+
+      // Update stored credentials (the IdP may rotate refresh tokens)
+      await this.save(source, {
+        ...cred,
+        value: result.accessToken,
+        refreshToken: result.refreshToken || cred?.refreshToken,
+        expiresAt: result.expiresAt,
+        tokenType: result.tokenType ?? cred?.tokenType,
+      });
+
+      debug(`[SourceCredentialManager] Refreshed OAuth token for ${source.config.slug}`);
+      return result.accessToken;
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      debug(`[SourceCredentialManager] OAuth token refresh failed:`, error);
+      this.markSourceNeedsReauth(source, `Token refresh failed: ${errorMsg}`);
+      return null;
+    }
+  }
+
   /**
    * Refresh MCP OAuth token
    */
@@ -808,7 +927,7 @@ export class SourceCredentialManager {
  * - MCP sources with stdio transport → never needs auth (runs locally)
  * - MCP sources with oauth/bearer → needs auth if not authenticated
  * - API sources with authType: "none" → never needs auth
- * - API sources with bearer/basic/header/query auth → needs auth if not authenticated
+ * - API sources with bearer/basic/header/query/oauth auth → needs auth if not authenticated
  */
 export function sourceNeedsAuthentication(source: LoadedSource): boolean {
   const mcp = source.config.mcp;
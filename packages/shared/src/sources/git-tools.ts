@@ -0,0 +1,496 @@
+/**
+ * Git Tool Factory
+ *
+ * Creates in-process MCP tools for local sources that point at a git
+ * repository (`type: 'local'` with `local.format: 'git'`). All tools are
+ * read-only and return JSON:
+ * - git_log: commit history with ref, path, author, date and message filters
+ * - git_show: one commit with its changes
+ * - git_diff: changes between two refs (or a ref and the working tree)
+ * - git_blame: last commit touching each line of a file
+ * - git_file: file contents at a revision
+ * - git_branches: local and remote branches
+ *
+ * Diffs are returned as GitDiffResult JSON ({ type: 'git_diff', files, ... }),
+ * which the chat renders in the diff viewer.
+ */
+
+import { createSdkMcpServer, tool } from '@anthropic-ai/claude-agent-sdk';
+import { z } from 'zod';
+import { execFile } from 'child_process';
+import { existsSync } from 'fs';
+import { join } from 'path';
+import { promisify } from 'util';
+import type { LocalSourceConfig } from './types.ts';
+import { registerLocalSourceTool } from './local-source-tools.ts';
+import { getSourceToolName } from './tool-selection.ts';
+import { debug } from '../utils/debug.ts';
+
+const execFileAsync = promisify(execFile);
+
+/** Default number of commits returned by git_log */
+export const GIT_DEFAULT_LOG_LIMIT = 50;
+
+/** Maximum number of commits git_log can return */
+export const GIT_MAX_LOG_LIMIT = 500;
+
+/** Total patch text returned per diff; files past the budget are listed without a patch */
+const MAX_PATCH_CHARS = 100_000;
+
+/** File contents returned by git_file are truncated past this size */
+const MAX_FILE_CHARS = 200_000;
+
+/** Lines returned by git_blame when no range is given */
+const MAX_BLAME_LINES = 500;
+
+/** Output buffer for git commands */
+const MAX_BUFFER = 32 * 1024 * 1024;
+
+// Field and record separators for --format output (unit/record separator characters)
+const FIELD = '\x1f';
+const RECORD = '\x1e';
+
+export interface GitCommit {
+  hash: string;
+  shortHash: string;
+  author: string;
+  email: string;
+  /** Author date (ISO 8601) */
+  date: string;
+  subject: string;
+  parents: string[];
+  /** Full message body (git_show only) */
+  body?: string;
+}
+
+export interface GitFileDiff {
+  path: string;
+  /** Previous path for renames */
+  oldPath?: string;
+  status: 'added' | 'deleted' | 'modified' | 'renamed';
+  additions: number;
+  deletions: number;
+  binary?: boolean;
+  /** Unified diff for this file. Omitted once the patch budget is used up. */
+  patch?: string;
+}
+
+/**
+ * Diff result of git_diff and git_show
+ */
+export interface GitDiffResult {
+  type: 'git_diff';
+  /** Commit being shown (git_show only) */
+  commit?: GitCommit;
+  from?: string;
+  to?: string;
+  files: GitFileDiff[];
+  /** True if some patches were omitted to keep the result small */
+  truncated: boolean;
+}
+
+export interface GitBlameLine {
+  line: number;
+  hash: string;
+  author: string;
+  date: string;
+  summary: string;
+  content: string;
+}
+
+export interface GitBranch {
+  name: string;
+  remote: boolean;
+  current: boolean;
+  hash: string;
+  date: string;
+  subject: string;
+}
+
+/**
+ * Configuration for a git source's tools
+ */
+export interface GitConfig {
+  /** Source slug (used in tool descriptions and logs) */
+  name: string;
+  /** Absolute path to the repository (working tree) */
+  path: string;
+  /** Source guide (guide.md) - appended to tool descriptions */
+  documentation?: string;
+}
+
+/**
+ * Whether a local source points at a git repository
+ */
+export function isGitLocalSource(local: LocalSourceConfig | undefined): boolean {
+  if (!local?.path) return false;
+  if (local.format) return local.format === 'git';
+  return existsSync(join(local.path, '.git'));
+}
+
+/**
+ * Reject refs that git would parse as options (e.g. "--output=...").
+ */
+function assertRef(ref: string, label = 'ref'): string {
+  if (!ref.trim() || ref.startsWith('-')) {
+    throw new Error(`Invalid ${label}: "${ref}"`);
+  }
+  return ref;
+}
+
+/**
+ * Run git in the repository. Arguments are passed without a shell.
+ */
+async function runGit(repoPath: string, args: string[]): Promise<string> {
+  try {
+    const { stdout } = await execFileAsync('git', ['-c', 'core.quotepath=off', '--no-pager', ...args], {
+      cwd: repoPath,
+      maxBuffer: MAX_BUFFER,
+      env: { ...process.env, GIT_TERMINAL_PROMPT: '0', GIT_OPTIONAL_LOCKS: '0' },
+    });
+    return stdout;
+  } catch (error) {
+    const err = error as NodeJS.ErrnoException & { stderr?: string };
+    if (err.code === 'ENOENT') {
+      throw new Error('git is not installed or not on PATH');
+    }
+    throw new Error(err.stderr?.trim() || err.message);
+  }
+}
+
+const COMMIT_FORMAT = ['%H', '%h', '%an', '%ae', '%aI', '%s', '%P'].join('%x1f');
+
+function parseCommit(record: string): GitCommit {
+  const [hash = '', shortHash = '', author = '', email = '', date = '', subject = '', parents = '', body] = record.split(FIELD);
+  const commit: GitCommit = {
+    hash,
+    shortHash,
+    author,
+    email,
+    date,
+    subject,
+    parents: parents.split(' ').filter(Boolean),
+  };
+  if (body !== undefined) commit.body = body.trim();
+  return commit;
+}
+
+export interface GitLogOptions {
+  ref?: string;
+  path?: string;
+  author?: string;
+  since?: string;
+  until?: string;
+  grep?: string;
+  maxCount?: number;
+}
+
+/**
+ * List commits, newest first.
+ */
+export async function getGitLog(repoPath: string, options: GitLogOptions = {}): Promise<GitCommit[]> {
+  const maxCount = Math.min(Math.max(1, Math.floor(options.maxCount ?? GIT_DEFAULT_LOG_LIMIT)), GIT_MAX_LOG_LIMIT);
+  const args = ['log', `--format=${COMMIT_FORMAT}%x1e`, `--max-count=${maxCount}`];
+  if (options.author) args.push(`--author=${options.author}`);
+  if (options.since) args.push(`--since=${options.since}`);
+  if (options.until) args.push(`--until=${options.until}`);
+  if (options.grep) args.push(`--grep=${options.grep}`, '--regexp-ignore-case');
+  if (options.ref) args.push(assertRef(options.ref));
+  args.push('--');
+  if (options.path) args.push(options.path);
+
+  const output = await runGit(repoPath, args);
+  return output.split(RECORD).map(record => record.trim()).filter(Boolean).map(parseCommit);
+}
+
+/**
+ * Split `git diff` output into per-file entries. Patches are kept until the
+ * budget is used up; later files keep their stats but drop the patch.
+ */
+export function parseGitPatch(output: string, maxPatchChars = MAX_PATCH_CHARS): { files: GitFileDiff[]; truncated: boolean } {
+  const sections = output.split(/^(?=diff --git )/m).filter(section => section.startsWith('diff --git '));
+  const files: GitFileDiff[] = [];
+  let budget = maxPatchChars;
+  let truncated = false;
+
+  for (const section of sections) {
+    const lines = section.split('\n');
+    const header = lines[0]!.match(/^diff --git a\/(.+) b\/(.+)$/);
+    let path = header?.[2] ?? '';
+    let oldPath = header?.[1];
+    let status: GitFileDiff['status'] = 'modified';
+    let binary = false;
+    let additions = 0;
+    let deletions = 0;
+    let inHunk = false;
+
+    for (const line of lines.slice(1)) {
+      if (!inHunk) {
+        if (line.startsWith('new file mode')) status = 'added';
+        else if (line.startsWith('deleted file mode')) status = 'deleted';
+        else if (line.startsWith('rename from ')) { status = 'renamed'; oldPath = line.slice('rename from '.length); }
+        else if (line.startsWith('rename to ')) path = line.slice('rename to '.length);
+        else if (line.startsWith('Binary files ')) binary = true;
+        else if (line.startsWith('--- a/')) oldPath = line.slice('--- a/'.length);
+        else if (line.startsWith('+++ b/')) path = line.slice('+++ b/'.length);
+        else if (line.startsWith('@@')) inHunk = true;
+        continue;
+      }
+      if (line.startsWith('+')) additions++;
+      else if (line.startsWith('-')) deletions++;
+    }
+
+    const file: GitFileDiff = { path, status, additions, deletions };
+    if (status === 'renamed' && oldPath) file.oldPath = oldPath;
+    if (binary) file.binary = true;
+
+    const patch = section.replace(/\n$/, '');
+    if (!binary && patch.length <= budget) {
+      file.patch = patch;
+      budget -= patch.length;
+    } else if (!binary) {
+      truncated = true;
+    }
+    files.push(file);
+  }
+
+  return { files, truncated };
+}
+
+/**
+ * Changes between two refs. Without `to`, compares `from` with the working tree.
+ */
+export async function getGitDiff(repoPath: string, from: string, to?: string, path?: string): Promise<GitDiffResult> {
+  const args = ['diff', '--no-color', '--no-ext-diff', '-M', assertRef(from, 'from')];
+  if (to) args.push(assertRef(to, 'to'));
+  args.push('--');
+  if (path) args.push(path);
+
+  const { files, truncated } = parseGitPatch(await runGit(repoPath, args));
+  return { type: 'git_diff', from, ...(to ? { to } : {}), files, truncated };
+}
+
+/**
+ * A commit with its message and changes.
+ */
+export async function getGitCommit(repoPath: string, ref: string): Promise<GitDiffResult> {
+  assertRef(ref, 'commit');
+  const [metadata, patch] = await Promise.all([
+    runGit(repoPath, ['show', '-s', `--format=${COMMIT_FORMAT}%x1f%B`, ref, '--']),
+    runGit(repoPath, ['show', '--format=', '--no-color', '--no-ext-diff', '-M', '--patch', ref, '--']),
+  ]);
+  const { files, truncated } = parseGitPatch(patch);
+  return { type: 'git_diff', commit: parseCommit(metadata.trim()), files, truncated };
+}
+
+/**
+ * File contents at a revision.
+ */
+export async function getGitFile(
+  repoPath: string,
+  path: string,
+  ref = 'HEAD'
+): Promise<{ path: string; ref: string; content: string; truncated: boolean }> {
+  const content = await runGit(repoPath, ['show', `${assertRef(ref)}:${path}`]);
+  const truncated = content.length > MAX_FILE_CHARS;
+  return { path, ref, content: truncated ? content.slice(0, MAX_FILE_CHARS) : content, truncated };
+}
+
+/**
+ * Parse `git blame --porcelain` output into one entry per line.
+ */
+export function parseGitBlame(output: string): GitBlameLine[] {
+  const commits = new Map<string, { author: string; date: string; summary: string }>();
+  const lines: GitBlameLine[] = [];
+  let current: { hash: string; line: number } | null = null;
+
+  for (const line of output.split('\n')) {
+    const header = line.match(/^([0-9a-f]{40}) \d+ (\d+)/);
+    if (header) {
+      current = { hash: header[1]!, line: Number(header[2]) };
+      if (!commits.has(current.hash)) commits.set(current.hash, { author: '', date: '', summary: '' });
+      continue;
+    }
+    if (!current) continue;
+    const info = commits.get(current.hash)!;
+    if (line.startsWith('author ')) info.author = line.slice('author '.length);
+    else if (line.startsWith('author-time ')) info.date = new Date(Number(line.slice('author-time '.length)) * 1000).toISOString();
+    else if (line.startsWith('summary ')) info.summary = line.slice('summary '.length);
+    else if (line.startsWith('\t')) {
+      lines.push({ line: current.line, hash: current.hash, ...info, content: line.slice(1) });
+      current = null;
+    }
+  }
+
+  return lines;
+}
+
+/**
+ * Last commit touching each line of a file.
+ */
+export async function getGitBlame(
+  repoPath: string,
+  path: string,
+  options: { ref?: string; startLine?: number; endLine?: number } = {}
+): Promise<{ path: string; lines: GitBlameLine[]; truncated: boolean }> {
+  const args = ['blame', '--porcelain'];
+  if (options.startLine || options.endLine) {
+    const start = options.startLine ?? 1;
+    args.push(`-L${start},${options.endLine ?? ''}`);
+  }
+  if (options.ref) args.push(assertRef(options.ref));
+  args.push('--', path);
+
+  const lines = parseGitBlame(await runGit(repoPath, args));
+  const truncated = lines.length > MAX_BLAME_LINES;
+  return { path, lines: truncated ? lines.slice(0, MAX_BLAME_LINES) : lines, truncated };
+}
+
+/**
+ * Local and remote branches, most recently committed first.
+ */
+export async function getGitBranches(repoPath: string): Promise<GitBranch[]> {
+  const format = ['%(refname)', '%(refname:short)', '%(objectname:short)', '%(committerdate:iso-strict)', '%(subject)', '%(HEAD)'].join('%1f');
+  const output = await runGit(repoPath, ['for-each-ref', `--format=${format}`, '--sort=-committerdate', 'refs/heads', 'refs/remotes']);
+
+  return output.split('\n').filter(Boolean).map(line => {
+    const [refname = '', name = '', hash = '', date = '', subject = '', head = ''] = line.split(FIELD);
+    return { name, remote: refname.startsWith('refs/remotes/'), current: head === '*', hash, date, subject };
+  }).filter(branch => !branch.name.endsWith('/HEAD'));
+}
+
+function jsonResult(value: unknown) {
+  return { content: [{ type: 'text' as const, text: JSON.stringify(value) }] };
+}
+
+function errorResult(config: GitConfig, action: string, error: unknown) {
+  const message = error instanceof Error ? error.message : 'Unknown error';
+  debug(`[git-tools] ${config.name} ${action} failed: ${message}`);
+  return {
+    content: [{ type: 'text' as const, text: `git ${action} failed: ${message}` }],
+    isError: true,
+  };
+}
+
+/**
+ * Create the git tools for a repository source.
+ */
+export function createGitTools(config: GitConfig) {
+  const docs = config.documentation ? `\n\n${config.documentation}` : '';
+  const repo = `the ${config.name} git repository (${config.path})`;
+  const refSchema = z.string().optional().describe('Branch, tag or commit (default: HEAD)');
+
+  return [
+    tool(
+      'git_log',
+      `List commits in ${repo}, newest first. Returns JSON.${docs}`,
+      {
+        ref: refSchema,
+        path: z.string().optional().describe('Only commits touching this file or directory (relative to the repository root)'),
+        author: z.string().optional().describe('Only commits whose author matches this pattern'),
+        since: z.string().optional().describe('Only commits after this date, e.g. "2024-01-01" or "2 weeks ago"'),
+        until: z.string().optional().describe('Only commits before this date'),
+        grep: z.string().optional().describe('Only commits whose message matches this pattern (case-insensitive)'),
+        maxCount: z.number().int().min(1).max(GIT_MAX_LOG_LIMIT).optional().describe(`Maximum commits to return (default ${GIT_DEFAULT_LOG_LIMIT})`),
+      },
+      async (args) => {
+        try {
+          return jsonResult({ commits: await getGitLog(config.path, args) });
+        } catch (error) {
+          return errorResult(config, 'log', error);
+        }
+      }
+    ),
+    tool(
+      'git_show',
+      `Show a commit in ${repo}: metadata, full message and the changed files with their patches.`,
+      {
+        commit: z.string().describe('Commit hash, branch or tag'),
+      },
+      async ({ commit }) => {
+        try {
+          return jsonResult(await getGitCommit(config.path, commit));
+        } catch (error) {
+          return errorResult(config, 'show', error);
+        }
+      }
+    ),
+    tool(
+      'git_diff',
+      `Diff two refs in ${repo}. Without "to", compares "from" with the working tree (uncommitted changes).`,
+      {
+        from: z.string().describe('Base branch, tag or commit'),
+        to: z.string().optional().describe('Target branch, tag or commit (default: working tree)'),
+        path: z.string().optional().describe('Only diff this file or directory'),
+      },
+      async ({ from, to, path }) => {
+        try {
+          return jsonResult(await getGitDiff(config.path, from, to, path));
+        } catch (error) {
+          return errorResult(config, 'diff', error);
+        }
+      }
+    ),
+    tool(
+      'git_blame',
+      `Show the last commit that changed each line of a file in ${repo}. Returns at most ${MAX_BLAME_LINES} lines - pass a line range for larger files.`,
+      {
+        path: z.string().describe('File path relative to the repository root'),
+        ref: refSchema,
+        startLine: z.number().int().min(1).optional().describe('First line to blame'),
+        endLine: z.number().int().min(1).optional().describe('Last line to blame'),
+      },
+      async ({ path, ...options }) => {
+        try {
+          return jsonResult(await getGitBlame(config.path, path, options));
+        } catch (error) {
+          return errorResult(config, 'blame', error);
+        }
+      }
+    ),
+    tool(
+      'git_file',
+      `Read a file from ${repo} as it was at a revision.`,
+      {
+        path: z.string().describe('File path relative to the repository root'),
+        ref: refSchema,
+      },
+      async ({ path, ref }) => {
+        try {
+          return jsonResult(await getGitFile(config.path, path, ref));
+        } catch (error) {
+          return errorResult(config, 'file', error);
+        }
+      }
+    ),
+    tool(
+      'git_branches',
+      `List local and remote branches in ${repo}, most recently committed first.`,
+      {},
+      async () => {
+        try {
+          return jsonResult({ branches: await getGitBranches(config.path) });
+        } catch (error) {
+          return errorResult(config, 'branches', error);
+        }
+      }
+    ),
+  ];
+}
+
+/**
+ * Create an in-process MCP server with the git tools for a repository source.
+ */
+export function createGitServer(config: GitConfig): ReturnType<typeof createSdkMcpServer> {
+  debug(`[git-tools] Creating server for ${config.name} (${config.path})`);
+  const tools = createGitTools(config);
+  for (const gitTool of tools) {
+    registerLocalSourceTool(getSourceToolName(config.name, gitTool.name), 'read');
+  }
+
+  return createSdkMcpServer({
+    name: `git_${config.name}`,
+    version: '1.0.0',
+    tools,
+  });
+}
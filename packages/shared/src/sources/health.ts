@@ -0,0 +1,259 @@
+/**
+ * Source Health Checks
+ *
+ * Checks whether a source's credentials are still usable and its server is
+ * reachable, so problems surface before a tool call fails mid-turn.
+ * Used by the background health monitor in the Electron main process.
+ *
+ * - OAuth tokens expiring within the refresh window are refreshed proactively
+ * - API sources call their testEndpoint (public APIs: the base URL)
+ * - Remote MCP servers are connected to and asked for their tools
+ * - A source only needs auth when its credentials are missing or an OAuth
+ *   refresh fails; other probe errors (even 401/403) are reported as failed
+ * - Stdio MCP servers and local sources are not checked (no credentials,
+ *   and checking them would spawn processes or scan folders)
+ */
+
+import { CraftMcpClient } from '../mcp/client.ts';
+import { debug } from '../utils/debug.ts';
+import { requestApiTestEndpoint } from './api-tools.ts';
+import {
+  getSourceCredentialManager,
+  sourceNeedsAuthentication,
+  type ApiCredential,
+} from './credential-manager.ts';
+import { normalizeMcpUrl, getSourceServerBuilder } from './server-builder.ts';
+import { loadSourceConfig, saveSourceConfig } from './storage.ts';
+import { isApiOAuthSource, type LoadedSource, type SourceConnectionStatus } from './types.ts';
+
+/** Default window before expiry in which OAuth tokens are refreshed */
+export const DEFAULT_HEALTH_REFRESH_WINDOW_MS = 10 * 60 * 1000;
+
+// Connectivity checks give up after this long (reported as 'failed')
+const HEALTH_CHECK_TIMEOUT_MS = 15_000;
+
+// How often lastTestedAt is written while a source's status doesn't change
+const LAST_TESTED_WRITE_INTERVAL_MS = 60 * 60 * 1000;
+
+/**
+ * Result of a source health check
+ */
+export interface SourceHealthResult {
+  status: Extract<SourceConnectionStatus, 'connected' | 'needs_auth' | 'failed'>;
+  /** Why the source needs auth or failed */
+  error?: string;
+  /** True if an OAuth token was refreshed during the check */
+  refreshed: boolean;
+}
+
+/**
+ * Options for checkSourceHealth
+ */
+export interface SourceHealthCheckOptions {
+  /** Refresh OAuth tokens that expire within this many ms (default: 10 minutes) */
+  refreshWindowMs?: number;
+  /** Also call the API/MCP server (default: true). When false, only credentials are checked. */
+  checkConnectivity?: boolean;
+}
+
+/**
+ * Whether a source is covered by health checks: enabled API sources and
+ * enabled remote MCP sources.
+ */
+export function isSourceHealthCheckable(source: LoadedSource): boolean {
+  const { config } = source;
+  if (!config.enabled) return false;
+  if (config.type === 'api') return !!config.api;
+  if (config.type === 'mcp') return config.mcp?.transport !== 'stdio' && !!config.mcp?.url;
+  return false;
+}
+
+/**
+ * Whether the source's credential is an OAuth access token (refreshable, expires)
+ */
+function usesOAuthToken(source: LoadedSource): boolean {
+  const { config } = source;
+  if (config.type === 'mcp') return config.mcp?.authType === 'oauth';
+  return isApiOAuthSource(config);
+}
+
+/**
+ * Whether a probe error looks like the server rejected the credential
+ */
+function isAuthRejection(message: string): boolean {
+  return /\b(401|403)\b|unauthorized|forbidden/i.test(message);
+}
+
+/**
+ * Reject after the health check timeout
+ */
+function withTimeout<T>(promise: Promise<T>, what: string): Promise<T> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(`${what} timed out after ${HEALTH_CHECK_TIMEOUT_MS / 1000}s`)), HEALTH_CHECK_TIMEOUT_MS);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+/**
+ * Check a source's credentials and connectivity.
+ * Refreshes OAuth tokens that are about to expire. Does not write config.json -
+ * use recordSourceHealth for that.
+ */
+export async function checkSourceHealth(
+  source: LoadedSource,
+  options: SourceHealthCheckOptions = {}
+): Promise<SourceHealthResult> {
+  const { refreshWindowMs = DEFAULT_HEALTH_REFRESH_WINDOW_MS, checkConnectivity = true } = options;
+  const { config } = source;
+  const credManager = getSourceCredentialManager();
+
+  if (sourceNeedsAuthentication(source)) {
+    return { status: 'needs_auth', error: config.connectionError || 'Not authenticated', refreshed: false };
+  }
+
+  // 1. Credentials
+  const requiresAuth = config.type === 'mcp'
+    ? !!config.mcp?.authType && config.mcp.authType !== 'none'
+    : config.api?.authType !== 'none' && config.api?.authType !== undefined;
+
+  let credential: ApiCredential = '';
+  let refreshed = false;
+
+  if (requiresAuth && usesOAuthToken(source)) {
+    const cred = await credManager.load(source);
+    if (!cred?.value) {
+      return { status: 'needs_auth', error: 'No OAuth token stored', refreshed };
+    }
+
+    credential = cred.value;
+    if (cred.expiresAt !== undefined && cred.expiresAt - Date.now() < refreshWindowMs) {
+      debug(`[SourceHealth] Refreshing OAuth token for ${config.slug} (expires ${new Date(cred.expiresAt).toISOString()})`);
+      const token = await credManager.refresh(source);
+      if (!token) {
+        return {
+          status: 'needs_auth',
+          error: credManager.isExpired(cred) ? 'OAuth token expired and could not be refreshed' : 'OAuth token expires soon and could not be refreshed',
+          refreshed,
+        };
+      }
+      credential = token;
+      refreshed = true;
+    }
+  } else if (requiresAuth) {
+    const stored = config.type === 'api'
+      ? await credManager.getApiCredential(source)
+      : await credManager.getToken(source);
+    if (!stored) {
+      return { status: 'needs_auth', error: 'No credentials stored', refreshed };
+    }
+    credential = stored;
+  }
+
+  if (!checkConnectivity) {
+    return { status: 'connected', refreshed };
+  }
+
+  // 2. Connectivity
+  let error = await probeSource(source, credential, requiresAuth);
+
+  // A rejected OAuth token only means the source needs auth once refreshing it fails too
+  // (not retried if the token was just refreshed above)
+  if (error && isAuthRejection(error) && requiresAuth && usesOAuthToken(source) && !refreshed) {
+    debug(`[SourceHealth] ${config.slug} rejected its OAuth token, refreshing`);
+    const token = await credManager.refresh(source).catch(() => null);
+    if (!token) {
+      return { status: 'needs_auth', error: `${error} and the OAuth token could not be refreshed`, refreshed };
+    }
+    refreshed = true;
+    error = await probeSource(source, token, requiresAuth);
+  }
+
+  // Other failures (including auth errors from API keys, which may be a permissions
+  // or server problem) are reported as failed and leave isAuthenticated alone
+  return error ? { status: 'failed', error, refreshed } : { status: 'connected', refreshed };
+}
+
+/**
+ * Call the API test endpoint or connect to the MCP server.
+ *
+ * @returns The failure message, or null if the source is reachable
+ */
+async function probeSource(
+  source: LoadedSource,
+  credential: ApiCredential,
+  requiresAuth: boolean
+): Promise<string | null> {
+  const { config } = source;
+  try {
+    if (config.type === 'api') {
+      // Authenticated APIs without a testEndpoint can't be probed reliably - credentials are all we know
+      if (requiresAuth && !config.api?.testEndpoint) {
+        return null;
+      }
+      const apiConfig = getSourceServerBuilder().buildApiConfig(source);
+      const response = await requestApiTestEndpoint(
+        apiConfig,
+        credential,
+        config.api?.testEndpoint,
+        AbortSignal.timeout(HEALTH_CHECK_TIMEOUT_MS)
+      );
+      return response.ok ? null : `HTTP ${response.status} ${response.statusText}`.trim();
+    }
+
+    const url = normalizeMcpUrl(config.mcp!.url!);
+    // CraftMcpClient speaks streamable HTTP only - SSE servers get a credential-only check
+    if (url.includes('/sse')) {
+      return null;
+    }
+    const client = new CraftMcpClient({
+      transport: 'http',
+      url,
+      headers: typeof credential === 'string' && credential ? { Authorization: `Bearer ${credential}` } : undefined,
+    });
+    try {
+      await withTimeout(client.connect(), 'MCP connection');
+    } finally {
+      await client.close().catch(() => {});
+    }
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+}
+
+/**
+ * Write a health check result to the source's config.json
+ * (connectionStatus, connectionError, lastTestedAt).
+ * While the status and error stay the same, lastTestedAt is only refreshed once
+ * per LAST_TESTED_WRITE_INTERVAL_MS, so periodic checks of a healthy source don't
+ * rewrite config.json (and trigger the config watcher) every few minutes.
+ *
+ * @returns The status before this check, so callers can react to transitions
+ */
+export function recordSourceHealth(
+  source: LoadedSource,
+  result: SourceHealthResult
+): SourceConnectionStatus | undefined {
+  const config = loadSourceConfig(source.workspaceRootPath, source.config.slug);
+  if (!config) return undefined;
+
+  const previousStatus = config.connectionStatus;
+  const error = result.status === 'connected' ? undefined : result.error;
+  const unchanged = previousStatus === result.status
+    && config.connectionError === error
+    && (result.status !== 'needs_auth' || config.isAuthenticated === false);
+  const testedRecently = config.lastTestedAt !== undefined
+    && Date.now() - config.lastTestedAt < LAST_TESTED_WRITE_INTERVAL_MS;
+  if (unchanged && testedRecently) return previousStatus;
+
+  config.connectionStatus = result.status;
+  config.connectionError = error;
+  config.lastTestedAt = Date.now();
+  if (result.status === 'needs_auth') {
+    // Same as SourceCredentialManager.markSourceNeedsReauth - the agent then offers to re-authenticate
+    config.isAuthenticated = false;
+  }
+  saveSourceConfig(source.workspaceRootPath, config);
+  return previousStatus;
+}
@@ -13,6 +13,9 @@ export type {
   ApiOAuthProvider,
   McpSourceConfig,
   ApiSourceConfig,
+  ApiOpenApiConfig,
+  ApiOAuthGrantType,
+  ApiOAuthConfig,
   LocalSourceConfig,
   SourceConnectionStatus,
   FolderSourceConfig,
@@ -25,6 +28,7 @@ export type {
 export {
   API_OAUTH_PROVIDERS,
   isApiOAuthProvider,
+  isApiOAuthSource,
 } from './types.ts';
 
 // Storage functions
@@ -84,6 +88,71 @@ export type {
   BuiltServers,
 } from './server-builder.ts';
 
+// Health checks (background credential/connectivity monitoring)
+export {
+  checkSourceHealth,
+  recordSourceHealth,
+  isSourceHealthCheckable,
+  DEFAULT_HEALTH_REFRESH_WINDOW_MS,
+} from './health.ts';
+export type { SourceHealthResult, SourceHealthCheckOptions } from './health.ts';
+
+// Tool selection (per-source tool enable/disable)
+export {
+  getSourceToolName,
+  isSourceToolEnabled,
+  getDisabledSourceTools,
+  setSourceToolEnabled,
+  estimateToolSchemaTokens,
+  listInProcessTools,
+} from './tool-selection.ts';
+
+// OpenAPI spec import (API sources with an openApi spec)
+export {
+  parseOpenApiSpec,
+  loadOpenApiDocument,
+  fetchOpenApiDocument,
+  findOpenApiTestEndpoint,
+  getOpenApiReadEndpointRules,
+  getOpenApiCallTarget,
+  OPENAPI_CACHE_FILE,
+} from './openapi.ts';
+export type { OpenApiDocument, OpenApiOperation, OpenApiParameter } from './openapi.ts';
+
+// Local source tool registry (trusted in-process tool names)
+export { getLocalSourceToolAccess } from './local-source-tools.ts';
+export type { LocalSourceToolAccess } from './local-source-tools.ts';
+
+// SQLite tools (local sources with format 'sqlite')
+export {
+  isSqliteLocalSource,
+  createSqliteServer,
+  runReadOnlyQuery,
+  describeSqliteSchema,
+  SQLITE_DEFAULT_ROW_LIMIT,
+  SQLITE_MAX_ROW_LIMIT,
+} from './sqlite-tools.ts';
+export type { QueryResult, SqliteConfig } from './sqlite-tools.ts';
+
+// Git tools (local sources with format 'git')
+export {
+  isGitLocalSource,
+  createGitServer,
+  getGitLog,
+  getGitDiff,
+  getGitCommit,
+  getGitBranches,
+  GIT_DEFAULT_LOG_LIMIT,
+  GIT_MAX_LOG_LIMIT,
+} from './git-tools.ts';
+export type { GitCommit, GitFileDiff, GitDiffResult, GitBlameLine, GitBranch, GitConfig } from './git-tools.ts';
+
+// Obsidian vault tools (local sources with format 'obsidian')
+export { isObsidianLocalSource, createObsidianServer, createVaultNote } from './obsidian-tools.ts';
+export type { ObsidianConfig } from './obsidian-tools.ts';
+export { VaultIndex, getVaultIndex, closeVaultIndex, closeVaultIndexesExcept, closeVaultIndexes, parseNote } from './vault-index.ts';
+export type { VaultNote, VaultSearchResult, VaultBacklink } from './vault-index.ts';
+
 // Built-in Sources (always available in every workspace)
 export {
   getDocsSource,
@@ -0,0 +1,38 @@
+/**
+ * Local Source Tool Registry
+ *
+ * SDK tool names (mcp__<source>__<tool>) of the in-process servers built for
+ * local sources, registered when a server is built. Explore mode trusts a local
+ * source tool only if it was registered here, so a tool of another MCP server
+ * with the same name (e.g. mcp__evil__sqlite_query) gets the normal MCP checks.
+ */
+
+/** Whether a local source tool only reads, or changes the source */
+export type LocalSourceToolAccess = 'read' | 'write';
+
+const localSourceTools = new Map<string, LocalSourceToolAccess>();
+
+/**
+ * Remember a tool of a local source server
+ */
+export function registerLocalSourceTool(sdkToolName: string, access: LocalSourceToolAccess): void {
+  localSourceTools.set(sdkToolName, access);
+}
+
+/**
+ * Forget the tools registered for a source slug, e.g. when the slug now
+ * belongs to a different kind of source.
+ */
+export function unregisterLocalSourceTools(sourceSlug: string): void {
+  const prefix = `mcp__${sourceSlug}__`;
+  for (const name of localSourceTools.keys()) {
+    if (name.startsWith(prefix)) localSourceTools.delete(name);
+  }
+}
+
+/**
+ * Access of a registered local source tool, or undefined for any other tool
+ */
+export function getLocalSourceToolAccess(sdkToolName: string): LocalSourceToolAccess | undefined {
+  return localSourceTools.get(sdkToolName);
+}
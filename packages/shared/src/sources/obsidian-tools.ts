@@ -0,0 +1,198 @@
+/**
+ * Obsidian Vault Tool Factory
+ *
+ * Creates in-process MCP tools for local sources that point at an Obsidian
+ * (or plain Markdown) vault (`type: 'local'` with `local.format: 'obsidian'`).
+ * Queries are answered from a shared VaultIndex that is built once and kept
+ * current by a file watcher:
+ * - vault_search: full-text search with tag and folder filters
+ * - vault_backlinks: notes linking to a note, and the note's own links
+ * - vault_tags: all tags with counts, or the notes with one tag
+ * - vault_create_note: new note with optional frontmatter (a write, like Write)
+ */
+
+import { createSdkMcpServer, tool } from '@anthropic-ai/claude-agent-sdk';
+import { z } from 'zod';
+import { existsSync, mkdirSync, writeFileSync } from 'fs';
+import { dirname, isAbsolute, join, relative, resolve } from 'path';
+import matter from 'gray-matter';
+import type { LocalSourceConfig } from './types.ts';
+import { getVaultIndex, type VaultIndex } from './vault-index.ts';
+import { registerLocalSourceTool } from './local-source-tools.ts';
+import { getSourceToolName } from './tool-selection.ts';
+import { debug } from '../utils/debug.ts';
+
+/** Default number of results returned by vault_search */
+const DEFAULT_SEARCH_LIMIT = 20;
+
+/**
+ * Configuration for an Obsidian source's tools
+ */
+export interface ObsidianConfig {
+  /** Source slug (used in tool descriptions and logs) */
+  name: string;
+  /** Absolute path to the vault folder */
+  path: string;
+  /** Source guide (guide.md) - appended to tool descriptions */
+  documentation?: string;
+}
+
+/**
+ * Whether a local source points at an Obsidian vault
+ */
+export function isObsidianLocalSource(local: LocalSourceConfig | undefined): boolean {
+  if (!local?.path) return false;
+  if (local.format) return local.format === 'obsidian';
+  return existsSync(join(local.path, '.obsidian'));
+}
+
+/**
+ * Create a note in the vault. Fails if the path is outside the vault or the
+ * note already exists - existing notes are changed with Edit.
+ *
+ * @returns The note's path relative to the vault root
+ */
+export function createVaultNote(
+  index: VaultIndex,
+  filePath: string,
+  content: string,
+  frontmatter?: Record<string, unknown>
+): string {
+  if (!isAbsolute(filePath)) {
+    throw new Error(`file_path must be absolute (inside ${index.rootPath})`);
+  }
+  const fullPath = resolve(filePath.toLowerCase().endsWith('.md') ? filePath : `${filePath}.md`);
+  const relativePath = relative(index.rootPath, fullPath).replace(/\\/g, '/');
+  if (!relativePath || relativePath.startsWith('..') || isAbsolute(relativePath)) {
+    throw new Error(`${filePath} is outside the vault (${index.rootPath})`);
+  }
+  if (existsSync(fullPath)) {
+    throw new Error(`${relativePath} already exists. Use Edit to change existing notes.`);
+  }
+
+  const text = frontmatter && Object.keys(frontmatter).length > 0 ? matter.stringify(content, frontmatter) : content;
+  mkdirSync(dirname(fullPath), { recursive: true });
+  writeFileSync(fullPath, text.endsWith('\n') ? text : `${text}\n`, 'utf-8');
+  // Index right away so the note is searchable before the watcher fires
+  index.update(relativePath);
+  return relativePath;
+}
+
+function jsonResult(value: unknown) {
+  return { content: [{ type: 'text' as const, text: JSON.stringify(value) }] };
+}
+
+function errorResult(config: ObsidianConfig, action: string, error: unknown) {
+  const message = error instanceof Error ? error.message : 'Unknown error';
+  debug(`[obsidian-tools] ${config.name} ${action} failed: ${message}`);
+  return {
+    content: [{ type: 'text' as const, text: `${action} failed: ${message}` }],
+    isError: true,
+  };
+}
+
+/**
+ * Create the vault tools for an Obsidian source.
+ */
+export function createObsidianTools(config: ObsidianConfig) {
+  const docs = config.documentation ? `\n\n${config.documentation}` : '';
+  const vault = `the ${config.name} vault (${config.path})`;
+
+  return [
+    tool(
+      'vault_search',
+      `Full-text search of the notes in ${vault}. All terms must match; use "quotes" for phrases. ` +
+        `Returns JSON with note paths (relative to the vault), titles, tags and a snippet.${docs}`,
+      {
+        query: z.string().describe('Search terms'),
+        tag: z.string().optional().describe('Only notes with this tag (nested tags match their parent)'),
+        folder: z.string().optional().describe('Only notes in this folder (relative to the vault)'),
+        limit: z.number().int().min(1).max(100).optional().describe(`Maximum results (default ${DEFAULT_SEARCH_LIMIT})`),
+      },
+      async ({ query, tag, folder, limit }) => {
+        try {
+          const results = getVaultIndex(config.path).search(query, { tag, folder, limit: limit ?? DEFAULT_SEARCH_LIMIT });
+          return jsonResult({ results });
+        } catch (error) {
+          return errorResult(config, 'Search', error);
+        }
+      }
+    ),
+    tool(
+      'vault_backlinks',
+      `Find the notes in ${vault} that link to a note ([[wiki-links]], embeds and Markdown links), ` +
+        `plus the note's own outgoing links. Returns JSON.`,
+      {
+        note: z.string().describe('Note name as used in [[links]], or its path relative to the vault'),
+      },
+      async ({ note }) => {
+        try {
+          const index = getVaultIndex(config.path);
+          const path = index.resolveLink(note);
+          if (!path) {
+            return errorResult(config, 'Backlink lookup', new Error(`No note named "${note}"`));
+          }
+          const outgoing = index.getNote(path)!.links.map(link => ({ link, path: index.resolveLink(link, path) }));
+          return jsonResult({ path, backlinks: index.getBacklinks(path), links: outgoing });
+        } catch (error) {
+          return errorResult(config, 'Backlink lookup', error);
+        }
+      }
+    ),
+    tool(
+      'vault_tags',
+      `List the tags used in ${vault} (frontmatter and inline #tags) with note counts, ` +
+        `or pass a tag to list its notes.`,
+      {
+        tag: z.string().optional().describe('List notes with this tag instead (nested tags match their parent)'),
+      },
+      async ({ tag }) => {
+        try {
+          const index = getVaultIndex(config.path);
+          if (!tag) {
+            return jsonResult({ tags: index.getTags() });
+          }
+          const notes = index.findByTag(tag).map(note => ({ path: note.path, title: note.title, tags: note.tags }));
+          return jsonResult({ tag, notes });
+        } catch (error) {
+          return errorResult(config, 'Tag query', error);
+        }
+      }
+    ),
+    tool(
+      'vault_create_note',
+      `Create a new note in ${vault}. Fails if the note exists - use Edit for existing notes. ` +
+        `Requires permission like Write: in Explore mode only paths matching allowedWritePaths are allowed.`,
+      {
+        file_path: z.string().describe(`Absolute path of the new note inside ${config.path} (".md" is added if missing)`),
+        content: z.string().describe('Note body in Markdown, e.g. with [[wiki-links]] and #tags'),
+        frontmatter: z.record(z.string(), z.unknown()).optional().describe('YAML frontmatter properties, e.g. { "tags": ["meeting"] }'),
+      },
+      async ({ file_path, content, frontmatter }) => {
+        try {
+          const path = createVaultNote(getVaultIndex(config.path), file_path, content, frontmatter);
+          return jsonResult({ created: path });
+        } catch (error) {
+          return errorResult(config, 'Note creation', error);
+        }
+      }
+    ),
+  ];
+}
+
+/**
+ * Create an in-process MCP server with the vault tools for an Obsidian source.
+ */
+export function createObsidianServer(config: ObsidianConfig): ReturnType<typeof createSdkMcpServer> {
+  debug(`[obsidian-tools] Creating server for ${config.name} (${config.path})`);
+  const tools = createObsidianTools(config);
+  for (const vaultTool of tools) {
+    registerLocalSourceTool(getSourceToolName(config.name, vaultTool.name), vaultTool.name === 'vault_create_note' ? 'write' : 'read');
+  }
+
+  return createSdkMcpServer({
+    name: `obsidian_${config.name}`,
+    version: '1.0.0',
+    tools,
+  });
+}
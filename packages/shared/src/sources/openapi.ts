@@ -0,0 +1,535 @@
+/**
+ * OpenAPI Spec Import
+ *
+ * API sources can point at an OpenAPI 3 or Swagger 2 document (`api.openApi.spec`,
+ * a URL or a local file). source_test downloads URL specs into the source folder
+ * as openapi.json; servers are then built from the cached copy without network access.
+ *
+ * The parsed operations are used to:
+ * - generate a tool description with parameter schemas (toolMode 'description'), or
+ * - generate one typed tool per operation (toolMode 'operations')
+ * - pick a testEndpoint and allowedApiEndpoints rules for GET operations
+ */
+
+import { z } from 'zod';
+import { load as parseYaml } from 'js-yaml';
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import type { ApiOpenApiConfig, ApiTestEndpoint } from './types.ts';
+import { debug } from '../utils/debug.ts';
+import { expandPath } from '../utils/paths.ts';
+
+/** File name of the cached spec inside the source folder */
+export const OPENAPI_CACHE_FILE = 'openapi.json';
+
+/** HTTP methods that become operations (HEAD/OPTIONS/TRACE are skipped) */
+const OPERATION_METHODS = ['get', 'post', 'put', 'patch', 'delete'] as const;
+export type OpenApiMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+/** Nested $refs and schemas deeper than this are dropped (rendered as unknown) */
+const MAX_SCHEMA_DEPTH = 8;
+
+/** Subset of JSON Schema used by OpenAPI parameter and body schemas */
+export interface OpenApiSchema {
+  type?: string | string[];
+  format?: string;
+  description?: string;
+  enum?: unknown[];
+  items?: OpenApiSchema;
+  properties?: Record<string, OpenApiSchema>;
+  required?: string[];
+  nullable?: boolean;
+  oneOf?: OpenApiSchema[];
+  anyOf?: OpenApiSchema[];
+  allOf?: OpenApiSchema[];
+  [key: string]: unknown;
+}
+
+export interface OpenApiParameter {
+  name: string;
+  in: 'path' | 'query' | 'header';
+  required: boolean;
+  description?: string;
+  schema?: OpenApiSchema;
+}
+
+export interface OpenApiOperation {
+  /** Tool-safe name from operationId (or method + path), unique within the document */
+  name: string;
+  method: OpenApiMethod;
+  /** Path template relative to the API base URL, e.g. "/users/{id}" */
+  path: string;
+  summary?: string;
+  description?: string;
+  parameters: OpenApiParameter[];
+  requestBody?: {
+    required: boolean;
+    description?: string;
+    schema?: OpenApiSchema;
+  };
+}
+
+export interface OpenApiDocument {
+  title?: string;
+  version?: string;
+  /** First server URL declared by the spec (informational - baseUrl stays authoritative) */
+  serverUrl?: string;
+  operations: OpenApiOperation[];
+}
+
+// ============================================================
+// Parsing
+// ============================================================
+
+type JsonObject = Record<string, unknown>;
+
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Resolve local JSON pointer refs ("#/components/schemas/User") against the document.
+ * External refs are left unresolved.
+ */
+function resolveRef(root: JsonObject, ref: string): unknown {
+  if (!ref.startsWith('#/')) return undefined;
+  let node: unknown = root;
+  for (const raw of ref.slice(2).split('/')) {
+    const key = raw.replace(/~1/g, '/').replace(/~0/g, '~');
+    if (!isObject(node)) return undefined;
+    node = node[key];
+  }
+  return node;
+}
+
+/**
+ * Inline $refs in a schema. Recursive refs are cut off where they repeat, and
+ * ref chains deeper than MAX_SCHEMA_DEPTH are dropped.
+ */
+function dereference(root: JsonObject, value: unknown, seen: string[] = []): unknown {
+  if (Array.isArray(value)) {
+    return value.map(item => dereference(root, item, seen));
+  }
+  if (!isObject(value)) return value;
+
+  if (typeof value.$ref === 'string') {
+    const ref = value.$ref;
+    if (seen.includes(ref) || seen.length >= MAX_SCHEMA_DEPTH) return {};
+    return dereference(root, resolveRef(root, ref) ?? {}, [...seen, ref]);
+  }
+
+  const result: JsonObject = {};
+  for (const [key, child] of Object.entries(value)) {
+    result[key] = dereference(root, child, seen);
+  }
+  return result;
+}
+
+/**
+ * Turn an operationId (or method + path) into a snake_case tool name
+ */
+function toOperationName(method: string, path: string, operationId: unknown): string {
+  const base = typeof operationId === 'string' && operationId.trim()
+    ? operationId
+    : `${method}_${path.replace(/[{}]/g, '')}`;
+  return base
+    .replace(/([a-z0-9])([A-Z])/g, '$1_$2')
+    .replace(/[^a-zA-Z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '')
+    .toLowerCase()
+    .slice(0, 60) || method;
+}
+
+/**
+ * Swagger 2 puts the schema fields (type, items, enum) on the parameter itself
+ */
+function swaggerParameterSchema(param: JsonObject): OpenApiSchema {
+  const { name: _name, in: _in, required: _required, description: _description, ...schema } = param;
+  return schema as OpenApiSchema;
+}
+
+function parseParameters(params: unknown[], isSwagger: boolean): {
+  parameters: OpenApiParameter[];
+  body?: OpenApiOperation['requestBody'];
+} {
+  const parameters: OpenApiParameter[] = [];
+  let body: OpenApiOperation['requestBody'];
+  const formFields: Record<string, OpenApiSchema> = {};
+  const requiredFormFields: string[] = [];
+
+  for (const param of params) {
+    if (!isObject(param) || typeof param.name !== 'string') continue;
+    const location = param.in;
+    const description = typeof param.description === 'string' ? param.description : undefined;
+
+    if (location === 'body') {
+      body = {
+        required: param.required === true,
+        description,
+        schema: isObject(param.schema) ? param.schema as OpenApiSchema : undefined,
+      };
+    } else if (location === 'formData') {
+      formFields[param.name] = { ...swaggerParameterSchema(param), description };
+      if (param.required === true) requiredFormFields.push(param.name);
+    } else if (location === 'path' || location === 'query' || location === 'header') {
+      parameters.push({
+        name: param.name,
+        in: location,
+        required: location === 'path' || param.required === true,
+        description,
+        schema: isSwagger
+          ? swaggerParameterSchema(param)
+          : isObject(param.schema) ? param.schema as OpenApiSchema : undefined,
+      });
+    }
+  }
+
+  if (!body && Object.keys(formFields).length > 0) {
+    body = {
+      required: requiredFormFields.length > 0,
+      schema: { type: 'object', properties: formFields, required: requiredFormFields },
+    };
+  }
+
+  return { parameters, body };
+}
+
+/**
+ * Pick the JSON body schema of an OpenAPI 3 requestBody
+ */
+function parseRequestBody(requestBody: unknown): OpenApiOperation['requestBody'] {
+  if (!isObject(requestBody)) return undefined;
+  const content = isObject(requestBody.content) ? requestBody.content : {};
+  const mediaType = Object.entries(content).find(([type]) => type.includes('json'))?.[1]
+    ?? Object.values(content)[0];
+  return {
+    required: requestBody.required === true,
+    description: typeof requestBody.description === 'string' ? requestBody.description : undefined,
+    schema: isObject(mediaType) && isObject(mediaType.schema) ? mediaType.schema as OpenApiSchema : undefined,
+  };
+}
+
+/**
+ * Parse an OpenAPI 3 or Swagger 2 document (JSON or YAML).
+ *
+ * @throws Error if the content is not an OpenAPI/Swagger document
+ */
+export function parseOpenApiSpec(content: string): OpenApiDocument {
+  let raw: unknown;
+  try {
+    raw = content.trimStart().startsWith('{') ? JSON.parse(content) : parseYaml(content);
+  } catch (error) {
+    throw new Error(`Spec is not valid JSON or YAML: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  if (!isObject(raw)) {
+    throw new Error('Spec is not a JSON/YAML object');
+  }
+
+  const isSwagger = typeof raw.swagger === 'string';
+  if (!isSwagger && typeof raw.openapi !== 'string') {
+    throw new Error('Spec has no "openapi" or "swagger" version field');
+  }
+
+  const root = raw;
+  const info = isObject(root.info) ? root.info : {};
+
+  let serverUrl: string | undefined;
+  if (isSwagger) {
+    if (typeof root.host === 'string') {
+      const scheme = Array.isArray(root.schemes) && typeof root.schemes[0] === 'string' ? root.schemes[0] : 'https';
+      const basePath = typeof root.basePath === 'string' ? root.basePath : '';
+      serverUrl = `${scheme}://${root.host}${basePath}`;
+    }
+  } else if (Array.isArray(root.servers) && isObject(root.servers[0]) && typeof root.servers[0].url === 'string') {
+    serverUrl = root.servers[0].url;
+  }
+
+  const operations: OpenApiOperation[] = [];
+  const usedNames = new Set<string>();
+  const paths = isObject(root.paths) ? root.paths : {};
+
+  for (const [path, rawPathItem] of Object.entries(paths)) {
+    const pathItem = dereference(root, rawPathItem);
+    if (!isObject(pathItem)) continue;
+    const sharedParams = Array.isArray(pathItem.parameters) ? pathItem.parameters : [];
+
+    for (const method of OPERATION_METHODS) {
+      const op = pathItem[method];
+      if (!isObject(op)) continue;
+
+      // Operation-level parameters override path-level ones with the same name and location
+      const opParams = Array.isArray(op.parameters) ? op.parameters : [];
+      const merged = [...sharedParams, ...opParams].filter((param, index, all) =>
+        !isObject(param) || !all.slice(index + 1).some(later =>
+          isObject(later) && later.name === param.name && later.in === param.in));
+      const { parameters, body } = parseParameters(merged, isSwagger);
+
+      let name = toOperationName(method, path, op.operationId);
+      for (let i = 2; usedNames.has(name); i++) {
+        name = `${toOperationName(method, path, op.operationId)}_${i}`;
+      }
+      usedNames.add(name);
+
+      operations.push({
+        name,
+        method: method.toUpperCase() as OpenApiMethod,
+        path,
+        summary: typeof op.summary === 'string' ? op.summary : undefined,
+        description: typeof op.description === 'string' ? op.description : undefined,
+        parameters,
+        requestBody: isSwagger ? body : parseRequestBody(op.requestBody),
+      });
+    }
+  }
+
+  return {
+    title: typeof info.title === 'string' ? info.title : undefined,
+    version: typeof info.version === 'string' ? info.version : undefined,
+    serverUrl,
+    operations,
+  };
+}
+
+// ============================================================
+// Loading and caching
+// ============================================================
+
+/**
+ * Check if a spec reference is a URL (downloaded and cached) rather than a file path
+ */
+export function isOpenApiSpecUrl(spec: string): boolean {
+  return /^https?:\/\//i.test(spec);
+}
+
+/**
+ * Resolve the file a source's spec is read from: the cached download for URLs,
+ * otherwise the configured path (~ expanded, relative to the source folder).
+ */
+export function getOpenApiSpecPath(sourceFolderPath: string, config: ApiOpenApiConfig): string {
+  if (isOpenApiSpecUrl(config.spec)) {
+    return join(sourceFolderPath, OPENAPI_CACHE_FILE);
+  }
+  return expandPath(config.spec, sourceFolderPath);
+}
+
+/**
+ * Load a source's spec from disk without network access.
+ * Returns null if the spec hasn't been downloaded yet or can't be parsed.
+ */
+export function loadOpenApiDocument(sourceFolderPath: string, config: ApiOpenApiConfig): OpenApiDocument | null {
+  const specPath = getOpenApiSpecPath(sourceFolderPath, config);
+  if (!existsSync(specPath)) {
+    debug(`[openapi] Spec not found at ${specPath}`);
+    return null;
+  }
+  try {
+    return parseOpenApiSpec(readFileSync(specPath, 'utf-8'));
+  } catch (error) {
+    debug(`[openapi] Failed to parse ${specPath}: ${error instanceof Error ? error.message : String(error)}`);
+    return null;
+  }
+}
+
+/**
+ * Read a source's spec, downloading URL specs into the source folder first.
+ * The cached copy is only replaced when the download parses as a valid spec.
+ *
+ * @throws Error if the spec can't be fetched, read or parsed
+ */
+export async function fetchOpenApiDocument(sourceFolderPath: string, config: ApiOpenApiConfig): Promise<OpenApiDocument> {
+  if (!isOpenApiSpecUrl(config.spec)) {
+    const specPath = getOpenApiSpecPath(sourceFolderPath, config);
+    if (!existsSync(specPath)) {
+      throw new Error(`Spec file not found: ${specPath}`);
+    }
+    return parseOpenApiSpec(readFileSync(specPath, 'utf-8'));
+  }
+
+  debug(`[openapi] Downloading spec from ${config.spec}`);
+  const response = await fetch(config.spec, {
+    headers: { Accept: 'application/json, application/yaml, text/yaml, */*' },
+  });
+  if (!response.ok) {
+    throw new Error(`Failed to download spec: HTTP ${response.status}`);
+  }
+  const content = await response.text();
+  const document = parseOpenApiSpec(content);
+
+  // Cache as JSON so YAML specs don't need re-parsing as YAML
+  const parsed = content.trimStart().startsWith('{') ? JSON.parse(content) : parseYaml(content);
+  writeFileSync(join(sourceFolderPath, OPENAPI_CACHE_FILE), JSON.stringify(parsed, null, 2), 'utf-8');
+  return document;
+}
+
+// ============================================================
+// Derived config
+// ============================================================
+
+/**
+ * Pick a testEndpoint: the first GET operation without required parameters.
+ * The path is relative to baseUrl (no leading slash), as testEndpoint expects.
+ */
+export function findOpenApiTestEndpoint(document: OpenApiDocument): ApiTestEndpoint | undefined {
+  const candidates = document.operations.filter(op =>
+    op.method === 'GET' && !op.path.includes('{') && !op.parameters.some(p => p.required));
+  // Prefer "who am I" style endpoints - they require auth and return little data
+  const op = candidates.find(c => /(^|\/)(me|user|self|whoami|account|profile)$/i.test(c.path)) ?? candidates[0];
+  return op ? { method: 'GET', path: op.path.replace(/^\/+/, '') } : undefined;
+}
+
+/**
+ * Convert a path template ("/users/{id}") to a regex matching concrete paths,
+ * with or without leading slash and query string.
+ */
+export function openApiPathToPattern(path: string): string {
+  const body = path
+    .replace(/^\/+/, '')
+    .split(/(\{[^}]+\})/)
+    .map(part => part.startsWith('{') ? '[^/]+' : part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+    .join('');
+  return `^/?${body}/?(\\?.*)?$`;
+}
+
+/**
+ * allowedApiEndpoints rules for every GET operation in the spec
+ */
+export function getOpenApiReadEndpointRules(document: OpenApiDocument): Array<{ method: 'GET'; path: string; comment: string }> {
+  const seen = new Set<string>();
+  const rules: Array<{ method: 'GET'; path: string; comment: string }> = [];
+  for (const op of document.operations) {
+    if (op.method !== 'GET') continue;
+    const pattern = openApiPathToPattern(op.path);
+    if (seen.has(pattern)) continue;
+    seen.add(pattern);
+    rules.push({ method: 'GET', path: pattern, comment: `OpenAPI: ${op.summary ?? op.name}` });
+  }
+  return rules;
+}
+
+// ============================================================
+// Descriptions and schemas
+// ============================================================
+
+/**
+ * Render a schema as a compact TypeScript-like type, e.g. "{ id: string, tags?: string[] }"
+ */
+export function formatOpenApiSchema(schema: OpenApiSchema | undefined, depth = 0): string {
+  if (!schema || depth > 3) return 'any';
+  if (Array.isArray(schema.enum)) return schema.enum.map(v => JSON.stringify(v)).join(' | ');
+  const variants = schema.oneOf ?? schema.anyOf;
+  if (variants) return variants.map(v => formatOpenApiSchema(v, depth + 1)).join(' | ');
+  if (schema.allOf) return schema.allOf.map(v => formatOpenApiSchema(v, depth + 1)).join(' & ');
+
+  const type = Array.isArray(schema.type) ? schema.type[0] : schema.type;
+  if (type === 'array') return `${formatOpenApiSchema(schema.items, depth + 1)}[]`;
+  if (type === 'object' || schema.properties) {
+    const required = new Set(schema.required ?? []);
+    const fields = Object.entries(schema.properties ?? {}).map(([key, value]) =>
+      `${key}${required.has(key) ? '' : '?'}: ${formatOpenApiSchema(value, depth + 1)}`);
+    return fields.length > 0 ? `{ ${fields.join(', ')} }` : 'object';
+  }
+  if (type === 'integer') return 'number';
+  return type ?? 'any';
+}
+
+/**
+ * Generate a markdown endpoint reference for the single API tool's description
+ */
+export function buildOpenApiDocumentation(document: OpenApiDocument): string {
+  const lines: string[] = [];
+  lines.push(`## Endpoints${document.title ? ` (${document.title}${document.version ? ` ${document.version}` : ''})` : ''}`);
+  lines.push('', 'Generated from the OpenAPI spec. Path parameters go in the path; other parameters go in params.');
+
+  for (const op of document.operations) {
+    lines.push('', `### ${op.method} ${op.path}`);
+    const summary = op.summary ?? op.description?.split('\n')[0];
+    if (summary) lines.push(summary);
+    for (const param of op.parameters) {
+      const desc = param.description ? ` - ${param.description.split('\n')[0]}` : '';
+      lines.push(`- ${param.in} \`${param.name}\`${param.required ? '' : '?'}: ${formatOpenApiSchema(param.schema)}${desc}`);
+    }
+    if (op.requestBody) {
+      lines.push(`- body${op.requestBody.required ? '' : '?'}: ${formatOpenApiSchema(op.requestBody.schema)}`);
+    }
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Convert a parameter/body schema to zod for typed operation tools.
+ * Anything the converter doesn't understand becomes z.unknown().
+ */
+export function openApiSchemaToZod(schema: OpenApiSchema | undefined, depth = 0): z.ZodTypeAny {
+  let result: z.ZodTypeAny;
+  const type = Array.isArray(schema?.type) ? schema?.type[0] : schema?.type;
+
+  if (!schema || depth > MAX_SCHEMA_DEPTH) {
+    result = z.unknown();
+  } else if (Array.isArray(schema.enum) && schema.enum.length > 0 && schema.enum.every(v => typeof v === 'string')) {
+    result = z.enum(schema.enum as [string, ...string[]]);
+  } else if (type === 'string') {
+    result = z.string();
+  } else if (type === 'integer') {
+    result = z.number().int();
+  } else if (type === 'number') {
+    result = z.number();
+  } else if (type === 'boolean') {
+    result = z.boolean();
+  } else if (type === 'array') {
+    result = z.array(openApiSchemaToZod(schema.items, depth + 1));
+  } else if (type === 'object' || schema.properties) {
+    const required = new Set(schema.required ?? []);
+    const shape: Record<string, z.ZodTypeAny> = {};
+    for (const [key, value] of Object.entries(schema.properties ?? {})) {
+      const field = openApiSchemaToZod(value, depth + 1);
+      shape[key] = required.has(key) ? field : field.optional();
+    }
+    result = z.object(shape).passthrough();
+  } else {
+    result = z.unknown();
+  }
+
+  return schema?.description ? result.describe(schema.description) : result;
+}
+
+// ============================================================
+// Operation tool calls
+// ============================================================
+
+/**
+ * Operations behind typed tools, keyed by SDK tool name (mcp__<source>__api_<operation>).
+ * Permission checks use this to recover the method and concrete path of a call.
+ */
+const operationTools = new Map<string, OpenApiOperation>();
+
+/**
+ * Remember which operation a typed tool calls
+ */
+export function registerOpenApiOperationTool(sdkToolName: string, operation: OpenApiOperation): void {
+  operationTools.set(sdkToolName, operation);
+}
+
+/**
+ * Fill a path template with the call's path parameters
+ */
+export function buildOpenApiOperationPath(operation: OpenApiOperation, args: Record<string, unknown>): string {
+  return operation.path.replace(/\{([^}]+)\}/g, (match, name: string) => {
+    const value = args[name];
+    return value === undefined || value === null ? match : encodeURIComponent(String(value));
+  });
+}
+
+/**
+ * Method and concrete path of a typed operation tool call.
+ * Returns undefined for tools that aren't typed operation tools.
+ */
+export function getOpenApiCallTarget(
+  toolName: string,
+  toolInput: unknown
+): { method: OpenApiMethod; path: string } | undefined {
+  const operation = operationTools.get(toolName);
+  if (!operation) return undefined;
+  const args = isObject(toolInput) ? toolInput : {};
+  return { method: operation.method, path: buildOpenApiOperationPath(operation, args) };
+}
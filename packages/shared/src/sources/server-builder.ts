@@ -14,6 +14,12 @@
 import type { LoadedSource, ApiConfig } from './types.ts';
 import type { ApiCredential } from './credential-manager.ts';
 import { createApiServer } from './api-tools.ts';
+import { createSqliteServer, isSqliteLocalSource } from './sqlite-tools.ts';
+import { createGitServer, isGitLocalSource } from './git-tools.ts';
+import { createObsidianServer, isObsidianLocalSource } from './obsidian-tools.ts';
+import { getDisabledSourceTools } from './tool-selection.ts';
+import { unregisterLocalSourceTools } from './local-source-tools.ts';
+import { loadOpenApiDocument } from './openapi.ts';
 import { createSdkMcpServer } from '@anthropic-ai/claude-agent-sdk';
 import { debug } from '../utils/debug.ts';
 
@@ -50,10 +56,12 @@ export interface SourceWithCredential {
 export interface BuiltServers {
   /** MCP server configs keyed by source slug */
   mcpServers: Record<string, McpServerConfig>;
-  /** In-process API servers keyed by source slug */
+  /** In-process API and SQLite servers keyed by source slug */
   apiServers: Record<string, ReturnType<typeof createSdkMcpServer>>;
   /** Sources that failed to build (missing auth, etc.) */
   errors: Array<{ sourceSlug: string; error: string }>;
+  /** SDK names of tools disabled in the built sources' configs (pass as disallowedTools) */
+  disabledTools: string[];
 }
 
 /**
@@ -178,6 +186,17 @@ export class SourceServerBuilder {
       return createApiServer(config, getToken, sessionPath);
     }
 
+    // Generic OAuth APIs - use token getter with auto-refresh
+    if (authType === 'oauth') {
+      if (!source.config.isAuthenticated || !getToken) {
+        debug(`[SourceServerBuilder] OAuth API source ${source.config.slug} not authenticated`);
+        return null;
+      }
+      debug(`[SourceServerBuilder] Building OAuth API server for ${source.config.slug}`);
+      const config = this.buildApiConfig(source);
+      return createApiServer(config, getToken, sessionPath);
+    }
+
     // Public APIs (no auth) can be used immediately
     if (authType === 'none') {
       debug(`[SourceServerBuilder] Building public API server for ${source.config.slug}`);
@@ -196,6 +215,86 @@ export class SourceServerBuilder {
     return createApiServer(config, credential, sessionPath);
   }
 
+  /**
+   * Build SQLite server from a local source whose path is a SQLite database.
+   * Returns null for other local sources (folders, vaults, ...).
+   *
+   * @param source - The source configuration
+   */
+  buildSqliteServer(source: LoadedSource): ReturnType<typeof createSdkMcpServer> | null {
+    if (source.config.type !== 'local' || !isSqliteLocalSource(source.config.local)) {
+      return null;
+    }
+
+    debug(`[SourceServerBuilder] Building SQLite server for ${source.config.slug}`);
+    return createSqliteServer({
+      name: source.config.slug,
+      path: source.config.local!.path,
+      documentation: source.guide?.raw,
+    });
+  }
+
+  /**
+   * Build vault server from a local source whose path is an Obsidian vault.
+   * Returns null for other local sources.
+   *
+   * @param source - The source configuration
+   */
+  buildObsidianServer(source: LoadedSource): ReturnType<typeof createSdkMcpServer> | null {
+    if (source.config.type !== 'local' || !isObsidianLocalSource(source.config.local)) {
+      return null;
+    }
+
+    debug(`[SourceServerBuilder] Building vault server for ${source.config.slug}`);
+    return createObsidianServer({
+      name: source.config.slug,
+      path: source.config.local!.path,
+      documentation: source.guide?.raw,
+    });
+  }
+
+  /**
+   * Build git server from a local source whose path is a git repository.
+   * Returns null for other local sources.
+   *
+   * @param source - The source configuration
+   */
+  buildGitServer(source: LoadedSource): ReturnType<typeof createSdkMcpServer> | null {
+    if (source.config.type !== 'local' || !isGitLocalSource(source.config.local)) {
+      return null;
+    }
+
+    debug(`[SourceServerBuilder] Building git server for ${source.config.slug}`);
+    return createGitServer({
+      name: source.config.slug,
+      path: source.config.local!.path,
+      documentation: source.guide?.raw,
+    });
+  }
+
+  /**
+   * Build the in-process server for a local source (SQLite, vault or git).
+   * Returns null for plain folders, which need no server.
+   *
+   * @param source - The source configuration
+   */
+  buildLocalServer(source: LoadedSource): ReturnType<typeof createSdkMcpServer> | null {
+    return this.buildSqliteServer(source) ?? this.buildObsidianServer(source) ?? this.buildGitServer(source);
+  }
+
+  /**
+   * Build the in-process server of an API or local source without credentials,
+   * so its tools can be listed. The tools must not be called.
+   *
+   * @param source - The source configuration
+   */
+  buildServerForToolListing(source: LoadedSource): ReturnType<typeof createSdkMcpServer> | null {
+    if (source.config.type === 'api' && source.config.api) {
+      return createApiServer(this.buildApiConfig(source), '');
+    }
+    return this.buildLocalServer(source);
+  }
+
   /**
    * Build ApiConfig from a LoadedSource
    */
@@ -209,9 +308,19 @@ export class SourceServerBuilder {
       defaultHeaders: api.defaultHeaders,
     };
 
+    // Sources generated from an OpenAPI spec use the local copy (downloaded by source_test)
+    if (api.openApi) {
+      const document = loadOpenApiDocument(source.folderPath, api.openApi);
+      if (document) {
+        config.openApi = { document, toolMode: api.openApi.toolMode ?? 'description' };
+      }
+    }
+
     // Map auth type
     switch (api.authType) {
       case 'bearer':
+      case 'oauth':
+        // OAuth access tokens are sent as bearer tokens
         config.auth = { type: 'bearer', authScheme: api.authScheme ?? 'Bearer' };
         break;
       case 'header':
@@ -246,9 +355,12 @@ export class SourceServerBuilder {
     const mcpServers: Record<string, McpServerConfig> = {};
     const apiServers: Record<string, ReturnType<typeof createSdkMcpServer>> = {};
     const errors: BuiltServers['errors'] = [];
+    const disabledTools: string[] = [];
 
     for (const { source, token, credential } of sourcesWithCredentials) {
       if (!source.config.enabled) continue;
+      // A slug that belonged to a local source must not keep its trusted tool names
+      if (source.config.type !== 'local') unregisterLocalSourceTools(source.config.slug);
 
       try {
         if (source.config.type === 'mcp') {
@@ -271,6 +383,16 @@ export class SourceServerBuilder {
           if (server) {
             apiServers[source.config.slug] = server;
           }
+        } else if (source.config.type === 'local') {
+          const server = this.buildLocalServer(source);
+          if (server) {
+            apiServers[source.config.slug] = server;
+          }
+        }
+
+        // Disabled tools are dropped from the model's context by the SDK
+        if (source.config.slug in mcpServers || source.config.slug in apiServers) {
+          disabledTools.push(...getDisabledSourceTools(source));
         }
       } catch (error) {
         const message = error instanceof Error ? error.message : String(error);
@@ -279,7 +401,7 @@ export class SourceServerBuilder {
       }
     }
 
-    return { mcpServers, apiServers, errors };
+    return { mcpServers, apiServers, errors, disabledTools };
   }
 }
 
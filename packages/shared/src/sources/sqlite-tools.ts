@@ -0,0 +1,286 @@
+/**
+ * SQLite Tool Factory
+ *
+ * Creates in-process MCP tools for local sources backed by a SQLite database
+ * (`type: 'local'` with `local.format: 'sqlite'`):
+ * - sqlite_schema: tables, views, columns and indexes
+ * - sqlite_query: parameterized query on a read-only connection, with a row limit
+ * - sqlite_execute: parameterized write statement (blocked in Explore, prompts in Ask)
+ *
+ * Query results are returned as QueryResult JSON ({ type: 'query_result', ... }),
+ * which the chat renders as a table.
+ */
+
+import { createSdkMcpServer, tool } from '@anthropic-ai/claude-agent-sdk';
+import { z } from 'zod';
+import { existsSync } from 'fs';
+import { extname } from 'path';
+import { DatabaseSync, type SQLInputValue, type SQLOutputValue } from 'node:sqlite';
+import type { LocalSourceConfig } from './types.ts';
+import { registerLocalSourceTool } from './local-source-tools.ts';
+import { getSourceToolName } from './tool-selection.ts';
+import { debug } from '../utils/debug.ts';
+
+/** Default number of rows returned by sqlite_query */
+export const SQLITE_DEFAULT_ROW_LIMIT = 100;
+
+/** Maximum number of rows sqlite_query can return */
+export const SQLITE_MAX_ROW_LIMIT = 1000;
+
+/** Long text values are truncated in results to keep responses small */
+const MAX_CELL_LENGTH = 2000;
+
+/** File extensions treated as SQLite databases when no format is set */
+const SQLITE_EXTENSIONS = new Set(['.sqlite', '.sqlite3', '.db', '.db3']);
+
+/**
+ * Tabular result of sqlite_query
+ */
+export interface QueryResult {
+  type: 'query_result';
+  columns: string[];
+  rows: unknown[][];
+  /** Number of rows returned */
+  rowCount: number;
+  /** True if more rows matched than the row limit */
+  truncated: boolean;
+}
+
+/**
+ * Configuration for a SQLite source's tools
+ */
+export interface SqliteConfig {
+  /** Source slug (used in tool descriptions and logs) */
+  name: string;
+  /** Absolute path to the database file */
+  path: string;
+  /** Source guide (guide.md) - appended to tool descriptions */
+  documentation?: string;
+}
+
+const paramsSchema = z
+  .array(z.union([z.string(), z.number(), z.boolean(), z.null()]))
+  .optional()
+  .describe('Values bound to ? placeholders, in order. Always pass user-provided values here instead of inlining them in SQL.');
+
+/**
+ * Whether a local source points at a SQLite database
+ */
+export function isSqliteLocalSource(local: LocalSourceConfig | undefined): boolean {
+  if (!local?.path) return false;
+  if (local.format) return local.format === 'sqlite';
+  return SQLITE_EXTENSIONS.has(extname(local.path).toLowerCase());
+}
+
+/**
+ * Open the database. Read-only connections also set query_only so that
+ * statements like ATTACH or PRAGMA cannot modify anything.
+ */
+function openDatabase(path: string, readOnly: boolean): DatabaseSync {
+  if (!existsSync(path)) {
+    throw new Error(`Database not found: ${path}`);
+  }
+  const db = new DatabaseSync(path, { readOnly, timeout: 5000 });
+  if (readOnly) {
+    db.exec('PRAGMA query_only = ON');
+  }
+  return db;
+}
+
+function toBindValues(params: Array<string | number | boolean | null> | undefined): SQLInputValue[] {
+  return (params ?? []).map(value => (typeof value === 'boolean' ? (value ? 1 : 0) : value));
+}
+
+/**
+ * Convert a SQLite value to something JSON can represent
+ */
+function toJsonValue(value: SQLOutputValue): unknown {
+  if (value instanceof Uint8Array) return `<blob ${value.byteLength} bytes>`;
+  if (typeof value === 'bigint') return value.toString();
+  if (typeof value === 'string' && value.length > MAX_CELL_LENGTH) {
+    return `${value.slice(0, MAX_CELL_LENGTH)}… (${value.length} chars)`;
+  }
+  return value;
+}
+
+/**
+ * Run a query on a read-only connection and collect up to `limit` rows.
+ */
+export function runReadOnlyQuery(
+  path: string,
+  sql: string,
+  params?: Array<string | number | boolean | null>,
+  limit = SQLITE_DEFAULT_ROW_LIMIT
+): QueryResult {
+  const rowLimit = Math.min(Math.max(1, Math.floor(limit)), SQLITE_MAX_ROW_LIMIT);
+  const db = openDatabase(path, true);
+  try {
+    const statement = db.prepare(sql);
+    statement.setReturnArrays(true);
+    const columns = statement.columns().map(column => column.name);
+
+    const rows: unknown[][] = [];
+    let truncated = false;
+    for (const row of statement.iterate(...toBindValues(params))) {
+      if (rows.length === rowLimit) {
+        truncated = true;
+        break;
+      }
+      rows.push((row as unknown as SQLOutputValue[]).map(toJsonValue));
+    }
+
+    return { type: 'query_result', columns, rows, rowCount: rows.length, truncated };
+  } finally {
+    db.close();
+  }
+}
+
+/**
+ * Describe the database schema as text: tables and views with their columns,
+ * followed by indexes. Internal sqlite_* tables are omitted.
+ */
+export function describeSqliteSchema(path: string, table?: string): string {
+  const db = openDatabase(path, true);
+  try {
+    const objects = db.prepare(
+      `SELECT type, name, tbl_name AS tableName, sql FROM sqlite_master
+       WHERE name NOT LIKE 'sqlite_%' AND (? IS NULL OR tbl_name = ?)
+       ORDER BY CASE type WHEN 'table' THEN 0 WHEN 'view' THEN 1 ELSE 2 END, name`
+    ).all(table ?? null, table ?? null) as Array<{ type: string; name: string; tableName: string; sql: string | null }>;
+
+    if (objects.length === 0) {
+      return table ? `No table or view named "${table}".` : 'The database has no tables.';
+    }
+
+    const columnsStatement = db.prepare('SELECT name, type, "notnull" AS required, pk FROM pragma_table_info(?)');
+    const lines: string[] = [];
+    for (const object of objects) {
+      if (object.type === 'table' || object.type === 'view') {
+        lines.push(`${object.type} ${object.name}`);
+        const columns = columnsStatement.all(object.name) as Array<{ name: string; type: string; required: number; pk: number }>;
+        for (const column of columns) {
+          const flags = [column.pk ? 'PRIMARY KEY' : '', column.required ? 'NOT NULL' : ''].filter(Boolean).join(' ');
+          lines.push(`  ${column.name} ${column.type || 'ANY'}${flags ? ` ${flags}` : ''}`);
+        }
+      } else if (object.type === 'index' && object.sql) {
+        lines.push(`index ${object.name} on ${object.tableName}: ${object.sql}`);
+      } else if (object.type === 'trigger') {
+        lines.push(`trigger ${object.name} on ${object.tableName}`);
+      }
+    }
+    return lines.join('\n');
+  } finally {
+    db.close();
+  }
+}
+
+/**
+ * Run a write statement on a read-write connection.
+ */
+export function runWriteStatement(
+  path: string,
+  sql: string,
+  params?: Array<string | number | boolean | null>
+): { changes: number; lastInsertRowid: number } {
+  const db = openDatabase(path, false);
+  try {
+    const result = db.prepare(sql).run(...toBindValues(params));
+    return { changes: Number(result.changes), lastInsertRowid: Number(result.lastInsertRowid) };
+  } finally {
+    db.close();
+  }
+}
+
+function errorResult(message: string) {
+  return {
+    content: [{ type: 'text' as const, text: message }],
+    isError: true,
+  };
+}
+
+/**
+ * Create the SQLite tools for a database source.
+ */
+export function createSqliteTools(config: SqliteConfig) {
+  const docs = config.documentation ? `\n\n${config.documentation}` : '';
+
+  const schemaTool = tool(
+    'sqlite_schema',
+    `List tables, views, columns and indexes of the ${config.name} SQLite database (${config.path}). Call this before writing queries.${docs}`,
+    {
+      table: z.string().optional().describe('Only describe this table or view'),
+    },
+    async ({ table }) => {
+      try {
+        return { content: [{ type: 'text' as const, text: describeSqliteSchema(config.path, table) }] };
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        debug(`[sqlite-tools] ${config.name} schema failed: ${message}`);
+        return errorResult(`Schema lookup failed: ${message}`);
+      }
+    }
+  );
+
+  const queryTool = tool(
+    'sqlite_query',
+    `Run a read-only SQL query (SELECT, WITH, PRAGMA) on the ${config.name} SQLite database. ` +
+      `The connection is read-only - use sqlite_execute for changes. ` +
+      `Returns at most ${SQLITE_DEFAULT_ROW_LIMIT} rows by default (max ${SQLITE_MAX_ROW_LIMIT}); ` +
+      `"truncated": true means more rows matched, so aggregate or add LIMIT/OFFSET.`,
+    {
+      sql: z.string().describe('A single SQL statement with ? placeholders for values'),
+      params: paramsSchema,
+      maxRows: z.number().int().min(1).max(SQLITE_MAX_ROW_LIMIT).optional().describe(`Maximum rows to return (default ${SQLITE_DEFAULT_ROW_LIMIT})`),
+    },
+    async ({ sql, params, maxRows }) => {
+      try {
+        debug(`[sqlite-tools] ${config.name}: query ${sql}`);
+        const result = runReadOnlyQuery(config.path, sql, params, maxRows);
+        return { content: [{ type: 'text' as const, text: JSON.stringify(result) }] };
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        debug(`[sqlite-tools] ${config.name} query failed: ${message}`);
+        return errorResult(`Query failed: ${message}`);
+      }
+    }
+  );
+
+  const executeTool = tool(
+    'sqlite_execute',
+    `Run a single SQL statement that modifies the ${config.name} SQLite database (INSERT, UPDATE, DELETE, CREATE, ...). ` +
+      `Requires permission: blocked in Explore mode, asks the user in Ask mode.`,
+    {
+      sql: z.string().describe('A single SQL statement with ? placeholders for values'),
+      params: paramsSchema,
+    },
+    async ({ sql, params }) => {
+      try {
+        debug(`[sqlite-tools] ${config.name}: execute ${sql}`);
+        const result = runWriteStatement(config.path, sql, params);
+        return { content: [{ type: 'text' as const, text: JSON.stringify(result) }] };
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        debug(`[sqlite-tools] ${config.name} execute failed: ${message}`);
+        return errorResult(`Statement failed: ${message}`);
+      }
+    }
+  );
+
+  return [schemaTool, queryTool, executeTool];
+}
+
+/**
+ * Create an in-process MCP server with the SQLite tools for a database source.
+ */
+export function createSqliteServer(config: SqliteConfig): ReturnType<typeof createSdkMcpServer> {
+  debug(`[sqlite-tools] Creating server for ${config.name} (${config.path})`);
+  registerLocalSourceTool(getSourceToolName(config.name, 'sqlite_schema'), 'read');
+  registerLocalSourceTool(getSourceToolName(config.name, 'sqlite_query'), 'read');
+  registerLocalSourceTool(getSourceToolName(config.name, 'sqlite_execute'), 'write');
+
+  return createSdkMcpServer({
+    name: `sqlite_${config.name}`,
+    version: '1.0.0',
+    tools: createSqliteTools(config),
+  });
+}
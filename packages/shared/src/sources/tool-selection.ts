@@ -0,0 +1,94 @@
+/**
+ * Source Tool Selection
+ *
+ * Per-source tool enable/disable. A source's config.json lists the tools to
+ * hide in `disabledTools` (by the name the server lists them under).
+ * SourceServerBuilder turns these into SDK tool names, which are passed to the
+ * SDK as disallowedTools - removing them from the model's context entirely.
+ */
+
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import type { Tool } from '@modelcontextprotocol/sdk/types.js';
+import type { createSdkMcpServer } from '@anthropic-ai/claude-agent-sdk';
+import type { FolderSourceConfig, LoadedSource } from './types.ts';
+import { loadSourceConfig, saveSourceConfig } from './storage.ts';
+import { estimateTokens } from '../utils/summarize.ts';
+
+/**
+ * Name the SDK gives a source tool (source servers are keyed by slug)
+ */
+export function getSourceToolName(sourceSlug: string, toolName: string): string {
+  return `mcp__${sourceSlug}__${toolName}`;
+}
+
+/**
+ * Whether a tool is enabled for a source
+ */
+export function isSourceToolEnabled(config: FolderSourceConfig, toolName: string): boolean {
+  return !config.disabledTools?.includes(toolName);
+}
+
+/**
+ * SDK tool names of a source's disabled tools
+ */
+export function getDisabledSourceTools(source: LoadedSource): string[] {
+  return (source.config.disabledTools ?? []).map(name => getSourceToolName(source.config.slug, name));
+}
+
+/**
+ * Enable or disable one of a source's tools in its config.json.
+ *
+ * @returns The updated config, or null if the source doesn't exist
+ */
+export function setSourceToolEnabled(
+  workspaceRootPath: string,
+  sourceSlug: string,
+  toolName: string,
+  enabled: boolean
+): FolderSourceConfig | null {
+  const config = loadSourceConfig(workspaceRootPath, sourceSlug);
+  if (!config) return null;
+
+  const disabled = new Set(config.disabledTools ?? []);
+  if (enabled) {
+    disabled.delete(toolName);
+  } else {
+    disabled.add(toolName);
+  }
+  config.disabledTools = disabled.size > 0 ? [...disabled].sort() : undefined;
+
+  saveSourceConfig(workspaceRootPath, config);
+  return config;
+}
+
+/**
+ * Estimate the context tokens a tool's definition costs on every request
+ * (name, description and input schema, as sent to the model).
+ */
+export function estimateToolSchemaTokens(tool: Pick<Tool, 'name' | 'description' | 'inputSchema'>): number {
+  return estimateTokens(JSON.stringify({
+    name: tool.name,
+    description: tool.description ?? '',
+    input_schema: tool.inputSchema,
+  }));
+}
+
+/**
+ * List the tools of an in-process server (API and local sources) by
+ * connecting a client over an in-memory transport. Tools are not called.
+ */
+export async function listInProcessTools(server: ReturnType<typeof createSdkMcpServer>): Promise<Tool[]> {
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await server.instance.connect(serverTransport);
+
+  const client = new Client({ name: 'craft-agent', version: '1.0.0' });
+  try {
+    await client.connect(clientTransport);
+    const { tools } = await client.listTools();
+    return tools;
+  } finally {
+    await client.close();
+    await server.instance.close();
+  }
+}
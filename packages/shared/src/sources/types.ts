@@ -10,6 +10,8 @@
  *   └── guide.md      - Usage guidelines + cached data (in YAML frontmatter)
  */
 
+import type { OpenApiDocument } from './openapi.ts';
+
 /**
  * Source types - how we connect to the source
  */
@@ -24,7 +26,7 @@ export type SourceMcpAuthType = 'oauth' | 'bearer' | 'none';
 /**
  * API authentication types
  */
-export type ApiAuthType = 'bearer' | 'header' | 'query' | 'basic' | 'none';
+export type ApiAuthType = 'bearer' | 'header' | 'query' | 'basic' | 'oauth' | 'none';
 
 /**
  * Google service types for OAuth scope selection
@@ -177,6 +179,14 @@ export function isApiOAuthProvider(provider: string | undefined): provider is Ap
   return API_OAUTH_PROVIDERS.includes(provider as ApiOAuthProvider);
 }
 
+/**
+ * Check if an API source gets its token via OAuth - either a known provider
+ * or the generic OAuth 2.0 flow (authType 'oauth')
+ */
+export function isApiOAuthSource(config: Pick<FolderSourceConfig, 'type' | 'provider' | 'api'>): boolean {
+  return config.type === 'api' && (isApiOAuthProvider(config.provider) || config.api?.authType === 'oauth');
+}
+
 /**
  * MCP transport type for sources
  * - 'http': HTTP-based MCP server (URL endpoint)
@@ -240,6 +250,34 @@ export interface ApiTestEndpoint {
   headers?: Record<string, string>; // Custom headers for the test request
 }
 
+/**
+ * OpenAPI/Swagger spec an API source is generated from
+ */
+export interface ApiOpenApiConfig {
+  spec: string; // URL (downloaded to openapi.json by source_test) or file path (relative to the source folder)
+  toolMode?: 'description' | 'operations'; // One tool with a generated endpoint reference (default), or one typed tool per operation
+}
+
+/**
+ * OAuth 2.0 grant types supported for API sources with authType 'oauth'
+ */
+export type ApiOAuthGrantType = 'authorization_code' | 'client_credentials' | 'device_code';
+
+/**
+ * Generic OAuth 2.0 configuration (used when authType is 'oauth')
+ */
+export interface ApiOAuthConfig {
+  grantType?: ApiOAuthGrantType; // Default: 'authorization_code'
+  authorizeUrl?: string; // Required for authorization_code
+  tokenUrl: string;
+  deviceAuthorizationUrl?: string; // Required for device_code
+  clientId: string;
+  clientSecret?: string; // Required for client_credentials; optional for public clients using PKCE
+  scopes?: string[];
+  pkce?: boolean; // Use PKCE for authorization_code (default: true)
+  extraParams?: Record<string, string>; // Extra authorization/token request params (e.g., audience, prompt)
+}
+
 /**
  * API-specific configuration
  */
@@ -248,9 +286,11 @@ export interface ApiSourceConfig {
   authType: ApiAuthType;
   headerName?: string; // For 'header' auth (e.g., "X-API-Key")
   queryParam?: string; // For 'query' auth (e.g., "api_key")
-  authScheme?: string; // For 'bearer' auth (default: "Bearer", could be "Token")
+  authScheme?: string; // For 'bearer' and 'oauth' auth (default: "Bearer", could be "Token")
   defaultHeaders?: Record<string, string>; // Headers to include with every request
   testEndpoint?: ApiTestEndpoint; // Endpoint to use for connection testing
+  openApi?: ApiOpenApiConfig; // Generate tools/docs from an OpenAPI spec
+  oauth?: ApiOAuthConfig; // For 'oauth' auth (sent as "{authScheme} {token}")
 
   // Google OAuth fields (used when provider is 'google')
   googleService?: GoogleService; // Predefined service for scope selection
@@ -316,6 +356,10 @@ export interface FolderSourceConfig {
   // If not set, extracted from guide.md first paragraph
   tagline?: string;
 
+  // Tools hidden from the model, by the name the server lists them under
+  // (e.g., "create_issue", not "mcp__linear__create_issue")
+  disabledTools?: string[];
+
   // Status tracking
   isAuthenticated?: boolean;
   connectionStatus?: SourceConnectionStatus;
@@ -408,6 +452,10 @@ export interface ApiConfig {
   headers?: Record<string, string>;
   documentation?: string;
   docsUrl?: string;
+  openApi?: {
+    document: OpenApiDocument;
+    toolMode: 'description' | 'operations';
+  };
   defaultHeaders?: Record<string, string>;
   logo?: string;
   workspaceId?: string;
@@ -0,0 +1,446 @@
+/**
+ * Vault Index
+ *
+ * In-memory index of a Markdown vault (Obsidian or plain folder of notes).
+ * Each note is parsed once for its YAML frontmatter, tags and links; the
+ * index then answers full-text, tag and backlink queries without reading
+ * files again. A directory watcher (config/watcher.ts) keeps it current by
+ * re-parsing only the notes that change.
+ *
+ * Link resolution follows Obsidian: `[[Note]]` matches a note by file name
+ * (or alias) anywhere in the vault, preferring the linking note's folder;
+ * `[[folder/Note]]` and `[text](folder/Note.md)` match by path.
+ */
+
+import { existsSync, readdirSync, readFileSync, statSync } from 'fs';
+import { join, posix } from 'path';
+import matter from 'gray-matter';
+import { watchDirectory, type DirectoryWatcher } from '../config/watcher.ts';
+import { debug } from '../utils/debug.ts';
+
+/** Notes larger than this are indexed by metadata only */
+const MAX_NOTE_BYTES = 1024 * 1024;
+
+/** Characters of context on each side of a search match */
+const SNIPPET_RADIUS = 80;
+
+/** Folder names never indexed (Obsidian config, trash, VCS, dependencies) */
+const IGNORED_DIRS = new Set(['node_modules']);
+
+// Wiki-links and embeds: [[target]], [[target#heading]], [[target|alias]], ![[target]]
+const WIKI_LINK_REGEX = /!?\[\[([^\]|#^]*)(?:[#^][^\]|]*)?(?:\|[^\]]*)?\]\]/g;
+// Markdown links to local notes: [text](folder/Note.md) or [text](Note.md#heading)
+const MARKDOWN_LINK_REGEX = /\[[^\]]*\]\(<?([^)\s>]+?\.md)(?:#[^)\s>]*)?>?\)/gi;
+// Inline tags: #tag and nested #parent/child (not headings, not inside words or URLs)
+const INLINE_TAG_REGEX = /(?:^|[\s(])#([\p{L}\p{N}_\-/]+)/gu;
+
+/**
+ * A parsed note
+ */
+export interface VaultNote {
+  /** Path relative to the vault root, with forward slashes */
+  path: string;
+  /** Frontmatter title, or the file name without extension */
+  title: string;
+  aliases: string[];
+  /** Tags from frontmatter and the note body, lowercase without '#' */
+  tags: string[];
+  /** Link targets as written (without heading or alias) */
+  links: string[];
+  frontmatter: Record<string, unknown>;
+  /** Note body without frontmatter */
+  body: string;
+  /** Modification time when parsed */
+  mtimeMs: number;
+}
+
+export interface VaultSearchResult {
+  path: string;
+  title: string;
+  tags: string[];
+  snippet: string;
+  score: number;
+}
+
+export interface VaultBacklink {
+  path: string;
+  title: string;
+  /** Line of the linking note that contains the link */
+  context: string;
+}
+
+/**
+ * Whether a vault-relative path should be skipped: hidden files and folders
+ * (.obsidian, .trash, .git) and dependency folders.
+ */
+export function isIgnoredVaultPath(relativePath: string): boolean {
+  return relativePath.split('/').some(segment => segment.startsWith('.') || IGNORED_DIRS.has(segment));
+}
+
+function toStringList(value: unknown): string[] {
+  if (typeof value === 'string') return value.split(/[,\s]+/).filter(Boolean);
+  if (Array.isArray(value)) return value.filter((item): item is string => typeof item === 'string');
+  return [];
+}
+
+function normalizeTag(tag: string): string {
+  return tag.replace(/^#/, '').toLowerCase();
+}
+
+/** Lowercase note key: path without the .md extension */
+function noteKey(path: string): string {
+  return path.replace(/\.md$/i, '').toLowerCase();
+}
+
+/**
+ * Parse a note's content into frontmatter, tags and links.
+ */
+export function parseNote(path: string, content: string, mtimeMs = 0): VaultNote {
+  let frontmatter: Record<string, unknown> = {};
+  let body = content;
+  try {
+    const parsed = matter(content);
+    frontmatter = parsed.data;
+    body = parsed.content;
+  } catch (error) {
+    debug(`[VaultIndex] Invalid frontmatter in ${path}:`, error);
+  }
+
+  // Tags and links inside code are not real tags and links
+  const text = body.replace(/```[\s\S]*?```/g, '').replace(/`[^`\n]*`/g, '');
+
+  const tags = new Set(toStringList(frontmatter.tags ?? frontmatter.tag).map(normalizeTag));
+  for (const match of text.matchAll(INLINE_TAG_REGEX)) {
+    const tag = match[1]!.replace(/\/+$/, '');
+    // Purely numeric tags (#123) are not tags in Obsidian
+    if (tag && !/^[\d/]+$/.test(tag)) tags.add(normalizeTag(tag));
+  }
+
+  const links = new Set<string>();
+  for (const match of text.matchAll(WIKI_LINK_REGEX)) {
+    const target = match[1]!.trim();
+    if (target) links.add(target);
+  }
+  for (const match of text.matchAll(MARKDOWN_LINK_REGEX)) {
+    const target = match[1]!;
+    if (/^[a-z]+:/i.test(target)) continue;
+    try {
+      links.add(decodeURI(target));
+    } catch {
+      links.add(target);
+    }
+  }
+
+  const fileName = posix.basename(path).replace(/\.md$/i, '');
+  return {
+    path,
+    title: typeof frontmatter.title === 'string' && frontmatter.title.trim() ? frontmatter.title.trim() : fileName,
+    aliases: toStringList(frontmatter.aliases ?? frontmatter.alias),
+    tags: [...tags].sort(),
+    links: [...links],
+    frontmatter,
+    body,
+    mtimeMs,
+  };
+}
+
+/**
+ * Index of the notes in one vault
+ */
+export class VaultIndex {
+  private notes = new Map<string, VaultNote>();
+  private searchText = new Map<string, string>();
+  // Lowercase file name / alias → note paths; rebuilt lazily after changes
+  private nameLookup: Map<string, string[]> | null = null;
+  private watcher: DirectoryWatcher | null = null;
+
+  constructor(readonly rootPath: string) {}
+
+  /** Number of indexed notes */
+  get size(): number {
+    return this.notes.size;
+  }
+
+  /**
+   * Index every note in the vault.
+   */
+  build(): void {
+    this.notes.clear();
+    this.searchText.clear();
+    this.scanDirectory('');
+    this.nameLookup = null;
+    debug(`[VaultIndex] Indexed ${this.notes.size} notes in ${this.rootPath}`);
+  }
+
+  /**
+   * Keep the index current as files change.
+   */
+  watch(): void {
+    if (this.watcher) return;
+    try {
+      this.watcher = watchDirectory(this.rootPath, relativePath => this.update(relativePath), {
+        ignore: isIgnoredVaultPath,
+      });
+    } catch (error) {
+      debug(`[VaultIndex] Could not watch ${this.rootPath}, index will not update:`, error);
+    }
+  }
+
+  close(): void {
+    this.watcher?.close();
+    this.watcher = null;
+  }
+
+  /**
+   * Re-index a changed path: a note is re-parsed, a folder re-scanned, and
+   * anything that no longer exists removed.
+   */
+  update(relativePath: string): void {
+    if (isIgnoredVaultPath(relativePath)) return;
+    const fullPath = join(this.rootPath, relativePath);
+
+    if (!existsSync(fullPath)) {
+      this.removeNote(relativePath);
+      const prefix = `${relativePath}/`;
+      for (const path of [...this.notes.keys()]) {
+        if (path.startsWith(prefix)) this.removeNote(path);
+      }
+      return;
+    }
+
+    const stats = statSync(fullPath);
+    if (stats.isDirectory()) {
+      this.scanDirectory(relativePath);
+    } else if (relativePath.toLowerCase().endsWith('.md')) {
+      this.indexNote(relativePath, fullPath);
+    }
+  }
+
+  getNote(path: string): VaultNote | undefined {
+    return this.notes.get(path);
+  }
+
+  /**
+   * Resolve a link target to a note path, or null if no note matches.
+   */
+  resolveLink(target: string, fromPath?: string): string | null {
+    const key = noteKey(target.replace(/\\/g, '/').replace(/^\/+/, ''));
+    if (!key) return fromPath ?? null;
+
+    if (key.includes('/')) {
+      // Relative to the linking note first (markdown links), then from the vault root
+      const candidates = fromPath ? [posix.normalize(posix.join(posix.dirname(fromPath).toLowerCase(), key)), key] : [key];
+      for (const candidate of candidates) {
+        const match = [...this.notes.keys()].find(path => noteKey(path) === candidate);
+        if (match) return match;
+      }
+      return [...this.notes.keys()].find(path => noteKey(path).endsWith(`/${key}`)) ?? null;
+    }
+
+    const matches = this.getNameLookup().get(key);
+    if (!matches || matches.length === 0) return null;
+    if (matches.length === 1 || !fromPath) return matches[0]!;
+    const folder = posix.dirname(fromPath);
+    return matches.find(path => posix.dirname(path) === folder) ?? matches[0]!;
+  }
+
+  /**
+   * Notes that link to the given note.
+   */
+  getBacklinks(path: string): VaultBacklink[] {
+    const backlinks: VaultBacklink[] = [];
+    for (const note of this.notes.values()) {
+      if (note.path === path) continue;
+      const target = note.links.find(link => this.resolveLink(link, note.path) === path);
+      if (!target) continue;
+      const context = note.body.split('\n').find(line => line.includes(target))?.trim() ?? '';
+      backlinks.push({ path: note.path, title: note.title, context });
+    }
+    return backlinks.sort((a, b) => a.path.localeCompare(b.path));
+  }
+
+  /**
+   * All tags with the number of notes using them, most used first.
+   */
+  getTags(): Array<{ tag: string; count: number }> {
+    const counts = new Map<string, number>();
+    for (const note of this.notes.values()) {
+      for (const tag of note.tags) counts.set(tag, (counts.get(tag) ?? 0) + 1);
+    }
+    return [...counts.entries()]
+      .map(([tag, count]) => ({ tag, count }))
+      .sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag));
+  }
+
+  /**
+   * Notes with a tag. Nested tags match their parent: "project" finds "project/alpha".
+   */
+  findByTag(tag: string): VaultNote[] {
+    const wanted = normalizeTag(tag);
+    return [...this.notes.values()]
+      .filter(note => note.tags.some(t => t === wanted || t.startsWith(`${wanted}/`)))
+      .sort((a, b) => a.path.localeCompare(b.path));
+  }
+
+  /**
+   * Full-text search. Every term (or "quoted phrase") must appear in the
+   * note's title, aliases or body; title matches rank higher.
+   */
+  search(query: string, options: { tag?: string; folder?: string; limit?: number } = {}): VaultSearchResult[] {
+    const terms = [...query.toLowerCase().matchAll(/"([^"]+)"|(\S+)/g)].map(match => (match[1] ?? match[2])!);
+    const tag = options.tag ? normalizeTag(options.tag) : undefined;
+    const folder = options.folder?.replace(/^\/+|\/+$/g, '');
+    const results: VaultSearchResult[] = [];
+
+    for (const note of this.notes.values()) {
+      if (folder && !note.path.startsWith(`${folder}/`)) continue;
+      if (tag && !note.tags.some(t => t === tag || t.startsWith(`${tag}/`))) continue;
+
+      const text = this.searchText.get(note.path) ?? '';
+      const title = note.title.toLowerCase();
+      let score = 0;
+      for (const term of terms) {
+        let count = 0;
+        for (let index = text.indexOf(term); index !== -1 && count < 20; index = text.indexOf(term, index + term.length)) {
+          count++;
+        }
+        if (count === 0) {
+          score = 0;
+          break;
+        }
+        score += count + (title.includes(term) ? 10 : 0);
+      }
+      if (terms.length > 0 && score === 0) continue;
+
+      results.push({ path: note.path, title: note.title, tags: note.tags, snippet: this.snippet(note, terms[0]), score });
+    }
+
+    return results
+      .sort((a, b) => b.score - a.score || a.path.localeCompare(b.path))
+      .slice(0, options.limit ?? 20);
+  }
+
+  private snippet(note: VaultNote, term: string | undefined): string {
+    const body = note.body.replace(/\s+/g, ' ').trim();
+    const index = term ? body.toLowerCase().indexOf(term) : -1;
+    if (index === -1) {
+      return body.length > SNIPPET_RADIUS * 2 ? `${body.slice(0, SNIPPET_RADIUS * 2)}…` : body;
+    }
+    const start = Math.max(0, index - SNIPPET_RADIUS);
+    const end = Math.min(body.length, index + term!.length + SNIPPET_RADIUS);
+    return `${start > 0 ? '…' : ''}${body.slice(start, end)}${end < body.length ? '…' : ''}`;
+  }
+
+  private scanDirectory(relativeDir: string): void {
+    let entries;
+    try {
+      entries = readdirSync(join(this.rootPath, relativeDir), { withFileTypes: true });
+    } catch (error) {
+      debug(`[VaultIndex] Could not read ${relativeDir || this.rootPath}:`, error);
+      return;
+    }
+
+    for (const entry of entries) {
+      const relativePath = relativeDir ? `${relativeDir}/${entry.name}` : entry.name;
+      if (isIgnoredVaultPath(relativePath)) continue;
+      if (entry.isDirectory()) {
+        this.scanDirectory(relativePath);
+      } else if (entry.isFile() && entry.name.toLowerCase().endsWith('.md')) {
+        this.indexNote(relativePath, join(this.rootPath, relativePath));
+      }
+    }
+  }
+
+  private indexNote(relativePath: string, fullPath: string): void {
+    try {
+      const stats = statSync(fullPath);
+      if (this.notes.get(relativePath)?.mtimeMs === stats.mtimeMs) return;
+      const content = stats.size > MAX_NOTE_BYTES ? '' : readFileSync(fullPath, 'utf-8');
+      const note = parseNote(relativePath, content, stats.mtimeMs);
+      this.notes.set(relativePath, note);
+      this.searchText.set(relativePath, [note.title, ...note.aliases, note.body].join('\n').toLowerCase());
+      this.nameLookup = null;
+    } catch (error) {
+      debug(`[VaultIndex] Could not index ${relativePath}:`, error);
+    }
+  }
+
+  private removeNote(relativePath: string): void {
+    if (this.notes.delete(relativePath)) {
+      this.searchText.delete(relativePath);
+      this.nameLookup = null;
+    }
+  }
+
+  private getNameLookup(): Map<string, string[]> {
+    if (this.nameLookup) return this.nameLookup;
+
+    const lookup = new Map<string, string[]>();
+    const add = (name: string, path: string) => {
+      const key = name.toLowerCase();
+      const paths = lookup.get(key) ?? [];
+      if (!paths.includes(path)) paths.push(path);
+      lookup.set(key, paths);
+    };
+    // Sorted by depth so that the shortest path wins between notes with the same name
+    const paths = [...this.notes.keys()].sort((a, b) => a.split('/').length - b.split('/').length || a.localeCompare(b));
+    for (const path of paths) {
+      add(posix.basename(path).replace(/\.md$/i, ''), path);
+      for (const alias of this.notes.get(path)!.aliases) add(alias, path);
+    }
+
+    this.nameLookup = lookup;
+    return lookup;
+  }
+}
+
+// ============================================================
+// Shared Indexes
+// ============================================================
+
+// One index per vault, shared by all sessions. Built on first use and kept
+// current by the watcher, so servers rebuilt each turn reuse it.
+const vaultIndexes = new Map<string, VaultIndex>();
+
+/**
+ * Get the index for a vault, building and watching it on first use.
+ */
+export function getVaultIndex(rootPath: string): VaultIndex {
+  let index = vaultIndexes.get(rootPath);
+  if (!index) {
+    index = new VaultIndex(rootPath);
+    index.build();
+    index.watch();
+    vaultIndexes.set(rootPath, index);
+  }
+  return index;
+}
+
+/**
+ * Stop watching a vault and drop its index. It is rebuilt on next use.
+ */
+export function closeVaultIndex(rootPath: string): void {
+  vaultIndexes.get(rootPath)?.close();
+  vaultIndexes.delete(rootPath);
+}
+
+/**
+ * Close the indexes of all vaults except the given ones
+ * (e.g. the vaults of sources that are still enabled).
+ */
+export function closeVaultIndexesExcept(rootPaths: Iterable<string>): void {
+  const keep = new Set(rootPaths);
+  for (const rootPath of [...vaultIndexes.keys()]) {
+    if (!keep.has(rootPath)) closeVaultIndex(rootPath);
+  }
+}
+
+/**
+ * Stop watching all vaults and drop their indexes.
+ */
+export function closeVaultIndexes(): void {
+  for (const index of vaultIndexes.values()) {
+    index.close();
+  }
+  vaultIndexes.clear();
+}
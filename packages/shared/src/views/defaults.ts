@@ -41,5 +41,23 @@ export function getDefaultViews(): ViewConfig[] {
       color: 'success',
       expression: 'isProcessing == true',
     },
+    {
+      id: 'view-waiting-on-me',
+      name: 'Waiting on me',
+      description: 'Open sessions where the agent has replied and is waiting for you',
+      color: 'info',
+      expression: 'statusCategory == "open" and not isProcessing and (lastMessageRole == "assistant" or hasPendingPlan)',
+      showInSidebar: true,
+      groupBy: { key: 'status' },
+    },
+    {
+      id: 'view-expensive-this-week',
+      name: 'Expensive this week',
+      description: 'Sessions active this week that cost more than $1',
+      color: 'destructive',
+      expression: 'isThisWeek(lastUsedAt) and tokenUsage.costUsd > 1',
+      showInSidebar: true,
+      sort: { key: 'cost' },
+    },
   ];
 }
@@ -13,7 +13,8 @@
 
 import { compileExpression, useDotAccessOperatorAndOptionalChaining } from 'filtrex';
 import type { ViewConfig, CompiledView, ViewEvaluationContext } from './types.ts';
-import { VIEW_FUNCTIONS } from './functions.ts';
+import { VIEW_FUNCTIONS, withViewContext } from './functions.ts';
+import { validateViewExpression } from './validation.ts';
 import { debug } from '../utils/debug.ts';
 
 /**
@@ -35,7 +36,8 @@ export function compileView(config: ViewConfig): CompiledView | null {
 
     return {
       config,
-      evaluate: fn as (context: ViewEvaluationContext) => unknown,
+      // Bind context-aware functions (labelValue) to the session being evaluated
+      evaluate: (context: ViewEvaluationContext) => withViewContext(context, () => fn(context)),
     };
   } catch (error) {
     debug(`[views] Failed to compile expression for "${config.id}": ${config.expression}`, error);
@@ -78,7 +80,9 @@ export function evaluateViews(
   for (const { config, evaluate } of compiled) {
     try {
       const result = evaluate(context);
-      if (result) {
+      // Filtrex returns runtime errors (e.g. comparing a missing label value) instead of
+      // throwing — an Error object is truthy, so it must not count as a match
+      if (result && !(result instanceof Error)) {
         matches.push(config);
       }
     } catch {
@@ -90,12 +94,64 @@ export function evaluateViews(
   return matches;
 }
 
+/**
+ * Result of previewing an expression against a set of sessions.
+ */
+export interface ViewExpressionPreview<T> {
+  /** Compile error, if the expression is invalid (no matches are computed) */
+  error?: string;
+  /** Items whose context matched the expression */
+  matches: T[];
+  /** Number of items the expression failed on at runtime (e.g. type errors) */
+  runtimeErrorCount: number;
+  /** First runtime error message, to explain runtimeErrorCount */
+  runtimeError?: string;
+}
+
+/**
+ * Evaluate an expression against a list of items (e.g. the current sessions)
+ * without saving it as a view. Used by the "test this expression" preview.
+ */
+export function previewViewExpression<T>(
+  expression: string,
+  items: T[],
+  getContext: (item: T) => ViewEvaluationContext
+): ViewExpressionPreview<T> {
+  const validation = validateViewExpression(expression);
+  if (!validation.valid) {
+    return { error: validation.error, matches: [], runtimeErrorCount: 0 };
+  }
+
+  const compiled = compileView({ id: '__preview__', name: 'Preview', expression: expression.trim() });
+  if (!compiled) {
+    return { error: 'Invalid expression', matches: [], runtimeErrorCount: 0 };
+  }
+
+  const preview: ViewExpressionPreview<T> = { matches: [], runtimeErrorCount: 0 };
+  for (const item of items) {
+    let result: unknown;
+    try {
+      result = compiled.evaluate(getContext(item));
+    } catch (error) {
+      result = error instanceof Error ? error : new Error(String(error));
+    }
+
+    if (result instanceof Error) {
+      preview.runtimeErrorCount++;
+      preview.runtimeError ??= result.message;
+    } else if (result) {
+      preview.matches.push(item);
+    }
+  }
+  return preview;
+}
+
 /**
  * Build an evaluation context from session metadata.
  * Maps the SessionMeta-shaped object to the flat context expected by expressions.
  *
  * This is called once per session per render cycle.
- * The context includes computed fields (hasPendingPlan) derived from raw session data.
+ * The context includes computed fields (hasPendingPlan, hasSharedUrl) derived from raw session data.
  */
 export function buildViewContext(meta: {
   name?: string;
@@ -104,6 +160,11 @@ export function buildViewContext(meta: {
   permissionMode?: string;
   model?: string;
   lastMessageRole?: string;
+  /** Category of the session's status, resolved by the caller from the status configs */
+  statusCategory?: string;
+  workingDirectory?: string;
+  enabledSourceSlugs?: string[];
+  sharedUrl?: string;
   lastMessageAt?: number;
   createdAt?: number;
   messageCount?: number;
@@ -127,6 +188,8 @@ export function buildViewContext(meta: {
     permissionMode: meta.permissionMode ?? '',
     model: meta.model ?? '',
     lastMessageRole: meta.lastMessageRole ?? '',
+    statusCategory: meta.statusCategory ?? '',
+    workingDirectory: meta.workingDirectory ?? '',
 
     // Numbers
     lastUsedAt: meta.lastMessageAt ?? 0,
@@ -140,6 +203,7 @@ export function buildViewContext(meta: {
     isProcessing: meta.isProcessing ?? false,
     // Derived: hasPendingPlan is true when last message is a plan
     hasPendingPlan: meta.lastMessageRole === 'plan',
+    hasSharedUrl: !!meta.sharedUrl,
 
     // Nested objects (safe defaults for dot access)
     tokenUsage: {
@@ -152,5 +216,6 @@ export function buildViewContext(meta: {
 
     // Arrays
     labels: meta.labels ?? [],
+    enabledSources: meta.enabledSourceSlugs ?? [],
   };
 }
@@ -6,7 +6,31 @@
  * All functions are safe, side-effect-free, and handle edge cases gracefully.
  */
 
-import { extractLabelId } from '../labels/values';
+import { extractLabelId, parseLabelEntry } from '../labels/values';
+import type { ViewEvaluationContext } from './types.ts';
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+/**
+ * Context of the session currently being evaluated.
+ * Filtrex passes only arguments to functions, so context-aware functions
+ * (labelValue, labelText) read it from here. Set by withViewContext for the duration
+ * of one synchronous evaluation.
+ */
+let currentContext: ViewEvaluationContext | null = null;
+
+/**
+ * Run a view evaluation with context-aware functions bound to the given context.
+ */
+export function withViewContext<T>(context: ViewEvaluationContext, evaluate: () => T): T {
+  const previous = currentContext;
+  currentContext = context;
+  try {
+    return evaluate();
+  } finally {
+    currentContext = previous;
+  }
+}
 
 /**
  * Days elapsed since a timestamp (in ms).
@@ -86,6 +110,118 @@ function lower(str: unknown): string {
   return '';
 }
 
+/**
+ * Find the parsed entry of a valued label on the current session.
+ */
+function findLabelEntry(labelId: unknown) {
+  if (typeof labelId !== 'string' || !currentContext) return undefined;
+  for (const entry of currentContext.labels) {
+    const parsed = parseLabelEntry(entry);
+    if (parsed.id === labelId && parsed.value !== undefined) return parsed;
+  }
+  return undefined;
+}
+
+/**
+ * Numeric value of a valued label on the current session (e.g. "priority::3" → 3).
+ * Dates become timestamps (ms) so they work with the date helpers.
+ * Returns NaN if the session doesn't have the label or its value isn't a number or
+ * date: comparisons with NaN are false, while Filtrex rejects comparing null or text
+ * with a number as an error, which would make a whole `or` expression fail.
+ * @example labelValue("priority") >= 3
+ * @example daysUntil(labelValue("due")) < 2
+ */
+function labelValue(labelId: unknown): number {
+  const value = findLabelEntry(labelId)?.value;
+  if (value instanceof Date) return value.getTime();
+  return typeof value === 'number' ? value : NaN;
+}
+
+/**
+ * Text value of a valued label on the current session, as written (e.g. "owner::sam" → "sam").
+ * Returns an empty string if the session doesn't have the label.
+ * @example labelText("owner") == "sam"
+ */
+function labelText(labelId: unknown): string {
+  return findLabelEntry(labelId)?.rawValue ?? '';
+}
+
+/**
+ * Test a string against a regular expression.
+ * Unlike the built-in ~= operator, supports flags and treats invalid patterns as no match.
+ * @example matches(name, "^(fix|bug)")
+ * @example matches(workingDirectory, "/repos/web", "i")
+ */
+function matches(str: unknown, pattern: unknown, flags?: unknown): boolean {
+  if (typeof str !== 'string' || typeof pattern !== 'string') return false;
+  try {
+    return new RegExp(pattern, typeof flags === 'string' ? flags : undefined).test(str);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Whether a timestamp (in ms) lies within the last N days.
+ * Future timestamps don't match.
+ * @example withinDays(createdAt, 3)
+ */
+function withinDays(timestamp: unknown, days: unknown): boolean {
+  if (!timestamp || typeof timestamp !== 'number' || typeof days !== 'number') return false;
+  const diff = Date.now() - timestamp;
+  return diff >= 0 && diff <= days * DAY_MS;
+}
+
+/**
+ * Whether a timestamp (in ms) lies within the last N hours.
+ * @example withinHours(lastUsedAt, 2)
+ */
+function withinHours(timestamp: unknown, hours: unknown): boolean {
+  if (typeof hours !== 'number') return false;
+  return withinDays(timestamp, hours / 24);
+}
+
+/**
+ * Whether a timestamp (in ms) falls on today's date (local time).
+ * @example isToday(lastUsedAt)
+ */
+function isToday(timestamp: unknown): boolean {
+  if (!timestamp || typeof timestamp !== 'number') return false;
+  return new Date(timestamp).toDateString() === new Date().toDateString();
+}
+
+/**
+ * Whether a timestamp (in ms) falls in the current week (local time, weeks start on Monday).
+ * @example isThisWeek(createdAt)
+ */
+function isThisWeek(timestamp: unknown): boolean {
+  if (!timestamp || typeof timestamp !== 'number') return false;
+  const weekStart = new Date();
+  weekStart.setHours(0, 0, 0, 0);
+  weekStart.setDate(weekStart.getDate() - ((weekStart.getDay() + 6) % 7));
+  return timestamp >= weekStart.getTime() && timestamp < weekStart.getTime() + 7 * DAY_MS;
+}
+
+/**
+ * Days remaining until a timestamp (in ms). Negative if it has passed.
+ * Returns NaN for missing timestamps so comparisons don't match.
+ * @example daysUntil(labelValue("due")) < 2
+ */
+function daysUntil(timestamp: unknown): number {
+  if (!timestamp || typeof timestamp !== 'number') return NaN;
+  return (timestamp - Date.now()) / DAY_MS;
+}
+
+/**
+ * Parse an ISO date string (e.g. "2026-01-30") into a timestamp (ms) for comparisons.
+ * Returns NaN for invalid dates so comparisons don't match.
+ * @example createdAt >= date("2026-01-01")
+ */
+function date(value: unknown): number {
+  if (typeof value !== 'string') return NaN;
+  return Date.parse(value);
+}
+
 /**
  * All custom functions to register with Filtrex.
  * Keys are the function names available in expressions.
@@ -97,4 +233,13 @@ export const VIEW_FUNCTIONS: Record<string, Function> = {
   length,
   startsWith,
   lower,
+  labelValue,
+  labelText,
+  matches,
+  withinDays,
+  withinHours,
+  isToday,
+  isThisWeek,
+  daysUntil,
+  date,
 };
@@ -5,8 +5,11 @@
  * Never persisted on sessions — purely runtime evaluation.
  */
 
-export type { ViewConfig, CompiledView, ViewEvaluationContext } from './types.ts';
-export { compileView, compileAllViews, evaluateViews, buildViewContext } from './evaluator.ts';
+export type { ViewConfig, CompiledView, ViewEvaluationContext, ViewSort, ViewSortKey, ViewGroupBy } from './types.ts';
+export { compileView, compileAllViews, evaluateViews, buildViewContext, previewViewExpression } from './evaluator.ts';
+export type { ViewExpressionPreview } from './evaluator.ts';
+export { sortViewSessions, groupViewSessions } from './organize.ts';
+export type { ViewSessionGroup, GroupViewSessionsOptions } from './organize.ts';
 export { validateViewExpression, AVAILABLE_FIELDS, AVAILABLE_FUNCTIONS } from './validation.ts';
 export { getDefaultViews } from './defaults.ts';
 export { VIEW_FUNCTIONS } from './functions.ts';
@@ -0,0 +1,179 @@
+/**
+ * View Sorting & Grouping
+ *
+ * Orders and sections the sessions matching a view, as configured by its
+ * `sort` and `groupBy` fields. Generic over the session type — callers pass a
+ * function that builds the evaluation context (same as previewViewExpression),
+ * so the session list and tests share one implementation.
+ */
+
+import { parseLabelEntry } from '../labels/values';
+import type { ParsedLabelEntry } from '../labels/types.ts';
+import type { ViewEvaluationContext, ViewGroupBy, ViewSort } from './types.ts';
+
+/**
+ * One section of sessions in a grouped view.
+ * Sessions without a value for the grouping (no labels, never active)
+ * are collected in a final group with an empty key.
+ */
+export interface ViewSessionGroup<T> {
+  /** Status ID, label ID, label value, or local day (YYYY-MM-DD); '' for the ungrouped rest */
+  key: string;
+  items: T[];
+}
+
+/**
+ * Options for groupViewSessions
+ */
+export interface GroupViewSessionsOptions {
+  /** Status IDs in display order (status groups follow it; unknown statuses come after) */
+  statusOrder?: string[];
+}
+
+/**
+ * First entry of a label on a session (labels are stored as "id" or "id::value")
+ */
+function findLabelEntry(labels: string[], labelId: string): ParsedLabelEntry | undefined {
+  for (const entry of labels) {
+    const parsed = parseLabelEntry(entry);
+    if (parsed.id === labelId) return parsed;
+  }
+  return undefined;
+}
+
+/**
+ * Comparable value of a label: numbers as-is, dates as timestamps, strings as-is.
+ * undefined if the session doesn't have the label or it has no value.
+ */
+function comparableLabelValue(labels: string[], labelId: string): number | string | undefined {
+  const value = findLabelEntry(labels, labelId)?.value;
+  return value instanceof Date ? value.getTime() : value;
+}
+
+/**
+ * Compare two comparable values ascending. Numbers before strings when mixed.
+ */
+function compareValues(a: number | string, b: number | string): number {
+  if (typeof a === 'number' && typeof b === 'number') return a - b;
+  if (typeof a === 'number') return -1;
+  if (typeof b === 'number') return 1;
+  return a.localeCompare(b);
+}
+
+/**
+ * Local calendar day of a timestamp as YYYY-MM-DD
+ */
+function localDayKey(timestamp: number): string {
+  const day = new Date(timestamp);
+  const month = String(day.getMonth() + 1).padStart(2, '0');
+  const date = String(day.getDate()).padStart(2, '0');
+  return `${day.getFullYear()}-${month}-${date}`;
+}
+
+/**
+ * Sort value of a session for a view's sort key (undefined = no value, sorts last)
+ */
+function sortValue(context: ViewEvaluationContext, sort: ViewSort): number | string | undefined {
+  switch (sort.key) {
+    case 'lastMessageAt':
+      return context.lastUsedAt || undefined;
+    case 'cost':
+      return context.tokenUsage.costUsd;
+    case 'labelValue':
+      return sort.labelId ? comparableLabelValue(context.labels, sort.labelId) : undefined;
+  }
+}
+
+/**
+ * Sort sessions by a view's sort config. Returns a new array; the sort is stable,
+ * so sessions with equal values keep their incoming order.
+ * Without a sort config, sessions are ordered by most recent activity.
+ */
+export function sortViewSessions<T>(
+  items: T[],
+  sort: ViewSort | undefined,
+  getContext: (item: T) => ViewEvaluationContext
+): T[] {
+  const effectiveSort: ViewSort = sort ?? { key: 'lastMessageAt' };
+  const direction = effectiveSort.direction === 'asc' ? 1 : -1;
+
+  return items
+    .map(item => ({ item, value: sortValue(getContext(item), effectiveSort) }))
+    .sort((a, b) => {
+      // Missing values last, regardless of direction
+      if (a.value === undefined) return b.value === undefined ? 0 : 1;
+      if (b.value === undefined) return -1;
+      return direction * compareValues(a.value, b.value);
+    })
+    .map(entry => entry.item);
+}
+
+/**
+ * Split (already sorted) sessions into sections by a view's groupBy config.
+ * Sessions keep their order within each group.
+ *
+ * Group order:
+ * - status: statusOrder, then other statuses in order of appearance
+ * - label: label IDs in order of appearance; label values highest first
+ * - day: newest day first
+ * The group of sessions without a value (key '') always comes last.
+ *
+ * Sessions with several labels are grouped under their first label, so each
+ * session appears exactly once.
+ */
+export function groupViewSessions<T>(
+  items: T[],
+  groupBy: ViewGroupBy,
+  getContext: (item: T) => ViewEvaluationContext,
+  options: GroupViewSessionsOptions = {}
+): ViewSessionGroup<T>[] {
+  const groups = new Map<string, { items: T[]; order: number | string }>();
+
+  items.forEach((item, index) => {
+    const context = getContext(item);
+    let key = '';
+    // Position of the group among the others (ascending)
+    let order: number | string = index;
+
+    if (groupBy.key === 'status') {
+      // Sessions without a status are shown as 'todo' throughout the app
+      key = context.todoState || 'todo';
+      const statusIndex = options.statusOrder?.indexOf(key) ?? -1;
+      order = statusIndex >= 0 ? statusIndex - (options.statusOrder?.length ?? 0) : index;
+    } else if (groupBy.key === 'label') {
+      if (groupBy.labelId) {
+        const entry = findLabelEntry(context.labels, groupBy.labelId);
+        if (entry?.rawValue !== undefined) {
+          key = entry.rawValue;
+          const value = comparableLabelValue(context.labels, groupBy.labelId)!;
+          // Highest value first: negate numbers; strings sort ascending
+          order = typeof value === 'number' ? -value : value;
+        }
+      } else if (context.labels.length > 0) {
+        key = parseLabelEntry(context.labels[0]!).id;
+      }
+    } else if (context.lastUsedAt) {
+      key = localDayKey(context.lastUsedAt);
+      order = -context.lastUsedAt;
+    }
+
+    const group = groups.get(key);
+    if (group) {
+      group.items.push(item);
+      // Day groups are ordered by their newest session
+      if (typeof order === 'number' && typeof group.order === 'number' && groupBy.key === 'day') {
+        group.order = Math.min(group.order, order);
+      }
+    } else {
+      groups.set(key, { items: [item], order });
+    }
+  });
+
+  return Array.from(groups.entries())
+    .sort(([keyA, a], [keyB, b]) => {
+      if (keyA === '') return keyB === '' ? 0 : 1;
+      if (keyB === '') return -1;
+      return compareValues(a.order, b.order);
+    })
+    .map(([key, group]) => ({ key, items: group.items }));
+}
@@ -33,8 +33,53 @@ export interface ViewConfig {
    * @example "hasUnread == true"
    * @example "tokenUsage.costUsd > 1"
    * @example "daysSince(lastUsedAt) > 7"
+   * @example 'labelValue("priority") >= 3'
    */
   expression: string;
+
+  /** Show the view as a saved filter in the left sidebar */
+  showInSidebar?: boolean;
+
+  /** How matching sessions are ordered in the session list (default: most recent activity first) */
+  sort?: ViewSort;
+
+  /**
+   * How matching sessions are sectioned in the session list.
+   * Default: by day; views with a custom sort show a single unsectioned list.
+   */
+  groupBy?: ViewGroupBy;
+}
+
+/**
+ * Session list sort key for a view.
+ * - lastMessageAt: last activity
+ * - cost: tokenUsage.costUsd
+ * - labelValue: value of the valued label `labelId` (e.g. "priority::3")
+ */
+export type ViewSortKey = 'lastMessageAt' | 'cost' | 'labelValue';
+
+/**
+ * Session list ordering for a view.
+ * Sessions without a value for the key (e.g. missing label) always sort last.
+ */
+export interface ViewSort {
+  key: ViewSortKey;
+  /** Label ID to read the value from (required for key 'labelValue') */
+  labelId?: string;
+  /** Sort direction (default: 'desc' - newest, most expensive, highest value first) */
+  direction?: 'asc' | 'desc';
+}
+
+/**
+ * Session list sections for a view.
+ * - status: one section per status
+ * - label: one section per label ID, or per value of `labelId` when set
+ * - day: one section per day of last activity
+ */
+export interface ViewGroupBy {
+  key: 'status' | 'label' | 'day';
+  /** For key 'label': section by this label's value instead of by label ID */
+  labelId?: string;
 }
 
 /**
@@ -69,6 +114,10 @@ export interface ViewEvaluationContext {
   model: string;
   /** Role of last message ('user', 'assistant', 'plan', 'tool', 'error') */
   lastMessageRole: string;
+  /** Category of the session's status ('open' or 'closed', empty if the status is unknown) */
+  statusCategory: string;
+  /** Working directory of the session (empty if none) */
+  workingDirectory: string;
 
   // === Numbers ===
   /** Timestamp (ms) of last activity */
@@ -89,6 +138,8 @@ export interface ViewEvaluationContext {
   isProcessing: boolean;
   /** Whether there's a pending plan to accept (lastMessageRole == 'plan') */
   hasPendingPlan: boolean;
+  /** Whether the session has been shared (has a share URL) */
+  hasSharedUrl: boolean;
 
   // === Nested Objects (accessed via dot notation) ===
   /** Token usage stats — access via tokenUsage.costUsd, tokenUsage.totalTokens, etc. */
@@ -103,4 +154,6 @@ export interface ViewEvaluationContext {
   // === Arrays ===
   /** Labels array (bare IDs for contains() checks) */
   labels: string[];
+  /** Slugs of the sources enabled for the session */
+  enabledSources: string[];
 }
@@ -20,6 +20,8 @@ export const AVAILABLE_FIELDS: Array<{ name: string; type: string; description:
   { name: 'permissionMode', type: 'string', description: 'Permission mode ("safe", "ask", "allow-all")' },
   { name: 'model', type: 'string', description: 'Model override string' },
   { name: 'lastMessageRole', type: 'string', description: 'Last message role ("user", "assistant", "plan", "tool", "error")' },
+  { name: 'statusCategory', type: 'string', description: 'Category of the status ("open" or "closed")' },
+  { name: 'workingDirectory', type: 'string', description: 'Working directory of the session' },
 
   // Numbers
   { name: 'lastUsedAt', type: 'number', description: 'Timestamp (ms) of last activity' },
@@ -37,9 +39,11 @@ export const AVAILABLE_FIELDS: Array<{ name: string; type: string; description:
   { name: 'hasUnread', type: 'boolean', description: 'Whether session has unread messages' },
   { name: 'isProcessing', type: 'boolean', description: 'Whether agent is currently running' },
   { name: 'hasPendingPlan', type: 'boolean', description: 'Whether there\'s a pending plan to accept' },
+  { name: 'hasSharedUrl', type: 'boolean', description: 'Whether the session has been shared' },
 
   // Arrays
   { name: 'labels', type: 'array', description: 'Labels array (for contains() checks)' },
+  { name: 'enabledSources', type: 'array', description: 'Slugs of sources enabled for the session' },
 ];
 
 /**
@@ -52,6 +56,15 @@ export const AVAILABLE_FUNCTIONS: Array<{ name: string; signature: string; descr
   { name: 'length', signature: 'length(arr)', description: 'Array or string length', example: 'length(labels) > 3' },
   { name: 'startsWith', signature: 'startsWith(str, prefix)', description: 'String starts with prefix', example: 'startsWith(name, "feat")' },
   { name: 'lower', signature: 'lower(str)', description: 'Lowercase string', example: 'lower(model) == "opus"' },
+  { name: 'labelValue', signature: 'labelValue(labelId)', description: 'Numeric value of a valued label (dates as timestamps), NaN if missing or not a number', example: 'labelValue("priority") >= 3' },
+  { name: 'labelText', signature: 'labelText(labelId)', description: 'Text value of a valued label, empty if missing', example: 'labelText("owner") == "sam"' },
+  { name: 'matches', signature: 'matches(str, pattern, flags?)', description: 'String matches regular expression', example: 'matches(name, "^(fix|bug)", "i")' },
+  { name: 'withinDays', signature: 'withinDays(timestamp, days)', description: 'Timestamp is within the last N days', example: 'withinDays(createdAt, 3)' },
+  { name: 'withinHours', signature: 'withinHours(timestamp, hours)', description: 'Timestamp is within the last N hours', example: 'withinHours(lastUsedAt, 2)' },
+  { name: 'isToday', signature: 'isToday(timestamp)', description: 'Timestamp is today (local time)', example: 'isToday(lastUsedAt)' },
+  { name: 'isThisWeek', signature: 'isThisWeek(timestamp)', description: 'Timestamp is in the current week (from Monday)', example: 'isThisWeek(createdAt)' },
+  { name: 'daysUntil', signature: 'daysUntil(timestamp)', description: 'Days until timestamp (negative if past)', example: 'daysUntil(labelValue("due")) < 2' },
+  { name: 'date', signature: 'date(isoString)', description: 'Timestamp of an ISO date', example: 'createdAt >= date("2026-01-01")' },
 ];
 
 /**
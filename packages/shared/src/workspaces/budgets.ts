@@ -0,0 +1,234 @@
+/**
+ * Workspace Budgets
+ *
+ * Spend tracking and budget evaluation for workspaces.
+ * Spend is recorded per calendar day (local time) in {workspaceRootPath}/spend.json
+ * so daily and monthly totals survive session deletion.
+ *
+ * Budgets are configured in WorkspaceConfig.budgets. The SDK reports cost once a turn
+ * completes, so limits are evaluated at turn boundaries: a hard limit blocks the next
+ * turn. While a turn runs, TurnCostEstimate prices each response from its token usage
+ * so a hard limit can also stop the turn in progress.
+ */
+
+import { existsSync, readFileSync } from 'fs';
+import { join } from 'path';
+import { atomicWriteFileSync } from '../utils/files.ts';
+import { debug } from '../utils/debug.ts';
+import { getModelPricing } from '../config/models.ts';
+import type { BudgetLimit, BudgetsConfig } from './types.ts';
+
+const SPEND_FILE = 'spend.json';
+
+/** Days of spend history kept in the ledger */
+const SPEND_RETENTION_DAYS = 400;
+
+/**
+ * Spend ledger file structure.
+ */
+interface SpendFile {
+  /** Schema version */
+  version: number;
+  /** Spend in USD keyed by local date (YYYY-MM-DD) */
+  days: Record<string, number>;
+}
+
+export type BudgetScope = 'session' | 'daily' | 'monthly';
+
+/**
+ * Current spend for each budget scope, in USD.
+ */
+export interface BudgetSpend {
+  sessionUsd: number;
+  dailyUsd: number;
+  monthlyUsd: number;
+}
+
+/**
+ * Result of evaluating budgets against current spend.
+ * When a limit is crossed, scope/spentUsd/limitUsd describe the most severe one.
+ */
+export interface BudgetStatus {
+  level: 'ok' | 'soft' | 'hard';
+  scope?: BudgetScope;
+  spentUsd?: number;
+  limitUsd?: number;
+}
+
+const SCOPE_LABELS: Record<BudgetScope, string> = {
+  session: 'Session',
+  daily: 'Daily workspace',
+  monthly: 'Monthly workspace',
+};
+
+// ============================================================
+// Spend Ledger
+// ============================================================
+
+/** Local date key (YYYY-MM-DD), used to bucket spend by calendar day */
+export function toLocalDateKey(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+function loadSpendFile(workspaceRootPath: string): SpendFile {
+  const filePath = join(workspaceRootPath, SPEND_FILE);
+  if (!existsSync(filePath)) {
+    return { version: 1, days: {} };
+  }
+
+  try {
+    const file = JSON.parse(readFileSync(filePath, 'utf-8')) as SpendFile;
+    return { version: file.version ?? 1, days: file.days ?? {} };
+  } catch (error) {
+    debug('[loadSpendFile] Failed to parse spend ledger:', error);
+    return { version: 1, days: {} };
+  }
+}
+
+/**
+ * Add a turn's cost to today's workspace spend.
+ * Prunes entries older than the retention window.
+ */
+export function recordWorkspaceSpend(
+  workspaceRootPath: string,
+  costUsd: number,
+  now: Date = new Date()
+): void {
+  if (!(costUsd > 0)) return;
+
+  const file = loadSpendFile(workspaceRootPath);
+  const today = toLocalDateKey(now);
+  file.days[today] = (file.days[today] ?? 0) + costUsd;
+
+  const cutoff = new Date(now);
+  cutoff.setDate(cutoff.getDate() - SPEND_RETENTION_DAYS);
+  const cutoffKey = toLocalDateKey(cutoff);
+  for (const day of Object.keys(file.days)) {
+    if (day < cutoffKey) delete file.days[day];
+  }
+
+  atomicWriteFileSync(join(workspaceRootPath, SPEND_FILE), JSON.stringify(file, null, 2));
+}
+
+/**
+ * Get workspace spend for the current day and month (local time).
+ */
+export function getWorkspaceSpend(
+  workspaceRootPath: string,
+  now: Date = new Date()
+): Pick<BudgetSpend, 'dailyUsd' | 'monthlyUsd'> {
+  const { days } = loadSpendFile(workspaceRootPath);
+  const today = toLocalDateKey(now);
+  const monthPrefix = today.slice(0, 8); // "YYYY-MM-"
+
+  let monthlyUsd = 0;
+  for (const [day, cost] of Object.entries(days)) {
+    if (day.startsWith(monthPrefix)) monthlyUsd += cost;
+  }
+
+  return { dailyUsd: days[today] ?? 0, monthlyUsd };
+}
+
+// ============================================================
+// Evaluation
+// ============================================================
+
+/**
+ * Evaluate budgets against current spend.
+ * Hard limits take precedence over soft limits; within a level, session is checked
+ * before daily and monthly.
+ */
+export function evaluateBudget(budgets: BudgetsConfig | undefined, spend: BudgetSpend): BudgetStatus {
+  if (!budgets) return { level: 'ok' };
+
+  const scopes: Array<[BudgetScope, BudgetLimit | undefined, number]> = [
+    ['session', budgets.session, spend.sessionUsd],
+    ['daily', budgets.daily, spend.dailyUsd],
+    ['monthly', budgets.monthly, spend.monthlyUsd],
+  ];
+
+  for (const [scope, limit, spentUsd] of scopes) {
+    if (typeof limit?.hardUsd === 'number' && spentUsd >= limit.hardUsd) {
+      return { level: 'hard', scope, spentUsd, limitUsd: limit.hardUsd };
+    }
+  }
+
+  for (const [scope, limit, spentUsd] of scopes) {
+    if (typeof limit?.softUsd === 'number' && spentUsd >= limit.softUsd) {
+      return { level: 'soft', scope, spentUsd, limitUsd: limit.softUsd };
+    }
+  }
+
+  return { level: 'ok' };
+}
+
+/**
+ * Add the cost of a turn in progress to every scope
+ * (it reaches the session total and the ledger only when the turn completes).
+ */
+export function addPendingSpend(spend: BudgetSpend, pendingUsd: number): BudgetSpend {
+  return {
+    sessionUsd: spend.sessionUsd + pendingUsd,
+    dailyUsd: spend.dailyUsd + pendingUsd,
+    monthlyUsd: spend.monthlyUsd + pendingUsd,
+  };
+}
+
+/**
+ * Token usage of one API response, as reported on SDK assistant messages
+ */
+export interface ResponseUsage {
+  input_tokens: number;
+  output_tokens: number;
+  cache_read_input_tokens?: number | null;
+  cache_creation_input_tokens?: number | null;
+}
+
+/** Cache reads and writes relative to the input price */
+const CACHE_READ_PRICE_FACTOR = 0.1;
+const CACHE_WRITE_PRICE_FACTOR = 1.25;
+
+/**
+ * Running cost estimate for the turn in progress, at list prices.
+ * Each response is counted once by message ID (the SDK repeats its usage on
+ * every content block). Responses of models without known pricing are skipped.
+ */
+export class TurnCostEstimate {
+  private countedMessageIds = new Set<string>();
+  costUsd = 0;
+  outputTokens = 0;
+
+  /**
+   * Add a response's usage.
+   * @returns true if the estimate changed
+   */
+  add(messageId: string, modelId: string, usage: ResponseUsage): boolean {
+    const pricing = getModelPricing(modelId);
+    if (!pricing || this.countedMessageIds.has(messageId)) return false;
+    this.countedMessageIds.add(messageId);
+
+    const inputUnits = usage.input_tokens +
+      (usage.cache_read_input_tokens ?? 0) * CACHE_READ_PRICE_FACTOR +
+      (usage.cache_creation_input_tokens ?? 0) * CACHE_WRITE_PRICE_FACTOR;
+    this.costUsd += (inputUnits * pricing.inputPerMTok + usage.output_tokens * pricing.outputPerMTok) / 1_000_000;
+    this.outputTokens += usage.output_tokens;
+    return true;
+  }
+}
+
+/**
+ * Format a budget status as a user-facing message.
+ */
+export function formatBudgetStatus(status: BudgetStatus): string {
+  if (status.level === 'ok' || !status.scope) return 'Within budget';
+
+  const label = SCOPE_LABELS[status.scope];
+  const spent = `$${(status.spentUsd ?? 0).toFixed(2)}`;
+  const limit = `$${(status.limitUsd ?? 0).toFixed(2)}`;
+
+  return status.level === 'hard'
+    ? `${label} budget reached: ${spent} spent of ${limit} limit. Raise the budget in workspace settings to continue.`
+    : `${label} budget warning: ${spent} spent, over the ${limit} soft limit.`;
+}
@@ -7,6 +7,9 @@
 // Types
 export type {
   WorkspaceConfig,
+  BashSandboxConfig,
+  BudgetLimit,
+  BudgetsConfig,
   CreateWorkspaceInput,
   LoadedWorkspace,
   WorkspaceSummary,
@@ -36,7 +39,25 @@ export {
   renameWorkspaceFolder,
   // Auto-discovery
   discoverWorkspacesInDefaultLocation,
+  // Bash sandbox
+  getWorkspaceBashSandbox,
+  // Session sharing
+  getWorkspaceViewerUrl,
   // Constants
   CONFIG_DIR,
   DEFAULT_WORKSPACES_DIR,
 } from './storage.ts';
+
+// Budgets
+export {
+  evaluateBudget,
+  addPendingSpend,
+  formatBudgetStatus,
+  getWorkspaceSpend,
+  recordWorkspaceSpend,
+  TurnCostEstimate,
+  type ResponseUsage,
+  type BudgetScope,
+  type BudgetSpend,
+  type BudgetStatus,
+} from './budgets.ts';
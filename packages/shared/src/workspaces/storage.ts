@@ -24,7 +24,9 @@ import { getDefaultStatusConfig, saveStatusConfig, ensureDefaultIconFiles } from
 import { getDefaultLabelConfig, saveLabelConfig } from '../labels/storage.ts';
 import { loadConfigDefaults } from '../config/storage.ts';
 import { DEFAULT_MODEL } from '../config/models.ts';
+import { VIEWER_URL } from '../branding.ts';
 import type {
+  BashSandboxConfig,
   WorkspaceConfig,
   CreateWorkspaceInput,
   LoadedWorkspace,
@@ -466,6 +468,36 @@ export function isLocalMcpEnabled(rootPath: string): boolean {
   return true;
 }
 
+// ============================================================
+// Bash Sandbox
+// ============================================================
+
+/**
+ * Get the Bash sandbox config for a workspace, or null if the sandbox is disabled.
+ *
+ * @param rootPath - Absolute path to workspace root folder
+ */
+export function getWorkspaceBashSandbox(rootPath: string): BashSandboxConfig | null {
+  const sandbox = loadWorkspaceConfig(rootPath)?.bashSandbox;
+  return sandbox?.enabled ? sandbox : null;
+}
+
+// ============================================================
+// Session Sharing
+// ============================================================
+
+/**
+ * Viewer base URL that new shares are uploaded to.
+ * Workspaces can point at a self-hosted viewer server; otherwise the hosted viewer is used.
+ *
+ * @param rootPath - Absolute path to workspace root folder
+ * @returns Base URL without trailing slash
+ */
+export function getWorkspaceViewerUrl(rootPath: string): string {
+  const viewerUrl = loadWorkspaceConfig(rootPath)?.viewerUrl?.trim();
+  return (viewerUrl || VIEWER_URL).replace(/\/+$/, '');
+}
+
 // ============================================================
 // Exports
 // ============================================================
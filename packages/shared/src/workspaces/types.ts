@@ -7,6 +7,7 @@
  * Directory structure:
  * ~/.craft-agent/workspaces/{slug}/
  *   ├── config.json      - Workspace settings
+ *   ├── spend.json       - Daily spend ledger (for budgets)
  *   ├── sources/         - Data sources (MCP, API, local)
  *   └── sessions/        - Conversation sessions
  */
@@ -27,6 +28,40 @@ export interface LocalMcpConfig {
   enabled: boolean;
 }
 
+/**
+ * Spending limit in USD.
+ * Crossing the soft limit shows a warning; reaching the hard limit blocks new turns
+ * and stops the running one.
+ */
+export interface BudgetLimit {
+  softUsd?: number;
+  hardUsd?: number;
+}
+
+/**
+ * Cost budgets for a workspace.
+ * Session limits apply to each session's total cost; daily and monthly limits
+ * apply to the workspace's combined spend in the current calendar day/month (local time).
+ */
+export interface BudgetsConfig {
+  session?: BudgetLimit;
+  daily?: BudgetLimit;
+  monthly?: BudgetLimit;
+}
+
+/**
+ * Sandbox for agent Bash commands (Linux only, uses bubblewrap).
+ * Commands see system directories and readOnlyPaths read-only, the working
+ * directory writable, and an empty home directory and /tmp.
+ */
+export interface BashSandboxConfig {
+  enabled: boolean;
+  /** Allow network access inside the sandbox. Default: false */
+  network?: boolean;
+  /** Extra host paths mounted read-only (e.g. "~/.gitconfig"). ~ is expanded. */
+  readOnlyPaths?: string[];
+}
+
 /**
  * Workspace configuration (stored in config.json)
  */
@@ -40,6 +75,7 @@ export interface WorkspaceConfig {
    */
   defaults?: {
     model?: string;
+    providerProfileId?: string; // Provider profile for sessions that don't select one (see config/provider-profiles.ts)
     enabledSourceSlugs?: string[]; // Sources to enable by default
     permissionMode?: PermissionMode; // Default permission mode ('safe', 'ask', 'allow-all')
     cyclablePermissionModes?: PermissionMode[]; // Which modes can be cycled with SHIFT+TAB (min 2, default: all 3)
@@ -55,6 +91,23 @@ export interface WorkspaceConfig {
    */
   localMcpServers?: LocalMcpConfig;
 
+  /**
+   * Cost budgets. Enforced at turn boundaries since the SDK reports cost per turn;
+   * hard limits also stop a running turn, using an estimate for models with known pricing.
+   */
+  budgets?: BudgetsConfig;
+
+  /**
+   * Viewer base URL for shared sessions (e.g. a self-hosted @craft-agent/viewer-server).
+   * Undefined = hosted viewer (VIEWER_URL).
+   */
+  viewerUrl?: string;
+
+  /**
+   * Run agent Bash commands in a sandbox. Undefined = disabled.
+   */
+  bashSandbox?: BashSandboxConfig;
+
   createdAt: number;
   updatedAt: number;
 }
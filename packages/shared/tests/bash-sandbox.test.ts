@@ -0,0 +1,51 @@
+/**
+ * Tests for the Bash sandbox command builder.
+ *
+ * Verifies that commands are quoted safely, that network and mount options
+ * map to the right bwrap flags, and that the home directory tmpfs is mounted
+ * before binds so paths inside it stay visible.
+ */
+import { describe, it, expect } from 'bun:test';
+import { execFileSync } from 'child_process';
+import { buildSandboxedCommand, quoteShellArg } from '../src/agent/bash-sandbox.ts';
+
+const baseOptions = {
+  bwrapPath: '/usr/bin/bwrap',
+  writablePaths: ['/home/me/project'],
+  homeDir: '/home/me',
+};
+
+describe('quoteShellArg', () => {
+  it('round-trips through the shell', () => {
+    const value = `it's "quoted" $HOME \`ls\``;
+    expect(execFileSync('bash', ['-c', `printf %s ${quoteShellArg(value)}`], { encoding: 'utf-8' })).toBe(value);
+  });
+});
+
+describe('buildSandboxedCommand', () => {
+  it('unshares the network unless enabled', () => {
+    const offline = buildSandboxedCommand('ls', baseOptions);
+    expect(offline).toStartWith(`'/usr/bin/bwrap' --die-with-parent --new-session --unshare-all --ro-bind-try /usr /usr`);
+    expect(offline).not.toContain('--share-net');
+    expect(buildSandboxedCommand('ls', { ...baseOptions, network: true })).toContain('--unshare-all --share-net');
+  });
+
+  it('hides the home directory and binds paths after it', () => {
+    const command = buildSandboxedCommand('ls', {
+      ...baseOptions,
+      writablePaths: ['/home/me/project', '/home/me/project'],
+      readOnlyPaths: ['/opt/tools', '  ', '/home/me/.gitconfig'],
+    });
+    const homeIndex = command.indexOf(`--tmpfs '/home/me'`);
+    expect(homeIndex).toBeGreaterThan(-1);
+    expect(command.indexOf(`--ro-bind-try '/home/me/.gitconfig' '/home/me/.gitconfig'`)).toBeGreaterThan(homeIndex);
+    expect(command.indexOf(`--bind '/home/me/project' '/home/me/project'`)).toBeGreaterThan(homeIndex);
+    expect(command.match(/--bind '/g)).toHaveLength(1);
+    expect(command).toContain(`--ro-bind-try '/opt/tools' '/opt/tools'`);
+  });
+
+  it('runs the command from the current directory with bash -c', () => {
+    expect(buildSandboxedCommand(`echo 'hi' && rm -rf x`, baseOptions))
+      .toEndWith(`--chdir "$PWD" -- bash -c 'echo '\\''hi'\\'' && rm -rf x'`);
+  });
+});
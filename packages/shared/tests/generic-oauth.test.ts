@@ -0,0 +1,140 @@
+/**
+ * Tests for generic OAuth 2.0 API sources.
+ *
+ * Verifies token endpoint requests for the client credentials and refresh grants,
+ * and that API sources with authType 'oauth' are stored and sent like the
+ * built-in OAuth providers.
+ */
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import {
+  refreshGenericOAuthToken,
+  requestClientCredentialsToken,
+  startGenericOAuth,
+} from '../src/auth/generic-oauth.ts';
+import { SourceCredentialManager } from '../src/sources/credential-manager.ts';
+import { SourceServerBuilder } from '../src/sources/server-builder.ts';
+import { isApiOAuthSource, type ApiOAuthConfig, type FolderSourceConfig, type LoadedSource } from '../src/sources/types.ts';
+
+const oauth: ApiOAuthConfig = {
+  grantType: 'client_credentials',
+  tokenUrl: 'https://idp.example.com/oauth/token',
+  clientId: 'client-1',
+  clientSecret: 'secret-1',
+  scopes: ['read', 'write'],
+};
+
+interface CapturedRequest {
+  url: string;
+  params: URLSearchParams;
+}
+
+describe('token endpoint requests', () => {
+  const originalFetch = globalThis.fetch;
+  let requests: CapturedRequest[];
+  let responseBody: string;
+  let responseStatus: number;
+
+  beforeEach(() => {
+    requests = [];
+    responseBody = '{}';
+    responseStatus = 200;
+    globalThis.fetch = (async (input: string | URL | Request, init?: RequestInit) => {
+      requests.push({ url: String(input), params: new URLSearchParams(String(init?.body ?? '')) });
+      return new Response(responseBody, { status: responseStatus });
+    }) as typeof fetch;
+  });
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+  });
+
+  it('requests client credentials tokens with scopes and the client secret', async () => {
+    responseBody = JSON.stringify({ access_token: 'at-1', token_type: 'Bearer', expires_in: 3600 });
+
+    const tokens = await requestClientCredentialsToken(oauth);
+
+    expect(tokens.accessToken).toBe('at-1');
+    expect(tokens.tokenType).toBe('Bearer');
+    expect(tokens.expiresAt).toBeGreaterThan(Date.now());
+    expect(requests[0]!.url).toBe(oauth.tokenUrl);
+    expect(Object.fromEntries(requests[0]!.params)).toEqual({
+      client_id: 'client-1',
+      client_secret: 'secret-1',
+      grant_type: 'client_credentials',
+      scope: 'read write',
+    });
+  });
+
+  it('refreshes tokens and parses form-encoded responses', async () => {
+    responseBody = 'access_token=at-2&refresh_token=rt-2&token_type=bearer';
+
+    const tokens = await refreshGenericOAuthToken({ ...oauth, grantType: 'authorization_code' }, 'rt-1');
+
+    expect(tokens).toEqual({ accessToken: 'at-2', refreshToken: 'rt-2', expiresAt: undefined, tokenType: 'bearer' });
+    expect(requests[0]!.params.get('grant_type')).toBe('refresh_token');
+    expect(requests[0]!.params.get('refresh_token')).toBe('rt-1');
+  });
+
+  it('reports token endpoint errors', async () => {
+    responseStatus = 400;
+    responseBody = JSON.stringify({ error: 'invalid_client', error_description: 'Unknown client' });
+
+    const result = await startGenericOAuth(oauth);
+
+    expect(result).toEqual({ success: false, error: 'invalid_client: Unknown client' });
+  });
+
+  it('rejects client credentials without a client secret', async () => {
+    await expect(requestClientCredentialsToken({ ...oauth, clientSecret: undefined })).rejects.toThrow('requires clientSecret');
+    expect(requests).toHaveLength(0);
+  });
+});
+
+describe('API sources with authType oauth', () => {
+  const config: FolderSourceConfig = {
+    id: 'crm_1',
+    name: 'CRM',
+    slug: 'crm',
+    enabled: true,
+    provider: 'crm',
+    type: 'api',
+    isAuthenticated: true,
+    api: {
+      baseUrl: 'https://crm.example.com/api/',
+      authType: 'oauth',
+      oauth,
+    },
+  };
+  const source: LoadedSource = {
+    config,
+    guide: null,
+    folderPath: '',
+    workspaceRootPath: '/tmp/workspace',
+    workspaceId: 'workspace',
+  };
+
+  it('is treated as an OAuth source', () => {
+    expect(isApiOAuthSource(config)).toBe(true);
+    expect(isApiOAuthSource({ ...config, api: { ...config.api!, authType: 'bearer' } })).toBe(false);
+    expect(isApiOAuthSource({ type: 'api', provider: 'google' })).toBe(true);
+  });
+
+  it('stores tokens as source_oauth credentials', () => {
+    expect(new SourceCredentialManager().getCredentialId(source)).toEqual({
+      type: 'source_oauth',
+      workspaceId: 'workspace',
+      sourceId: 'crm',
+    });
+  });
+
+  it('sends access tokens as bearer tokens', () => {
+    const apiConfig = new SourceServerBuilder().buildApiConfig(source);
+    expect(apiConfig.auth).toEqual({ type: 'bearer', authScheme: 'Bearer' });
+  });
+
+  it('needs a token getter to build the server', async () => {
+    const builder = new SourceServerBuilder();
+    expect(await builder.buildApiServer(source, null)).toBeNull();
+    expect(await builder.buildApiServer(source, null, async () => 'at-1')).not.toBeNull();
+  });
+});
@@ -0,0 +1,172 @@
+/**
+ * Tests for git local source tools.
+ *
+ * Verifies source detection, log filters, diff parsing (status, renames,
+ * patch budget), blame and file-at-revision output, branch listing, and
+ * that all git tools of a repository source are allowed in Explore mode.
+ */
+import { describe, it, expect, beforeAll, afterAll } from 'bun:test';
+import { mkdtempSync, mkdirSync, rmSync, writeFileSync } from 'fs';
+import { execFileSync } from 'child_process';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  createGitServer,
+  getGitBlame,
+  getGitBranches,
+  getGitCommit,
+  getGitDiff,
+  getGitFile,
+  getGitLog,
+  isGitLocalSource,
+  parseGitPatch,
+} from '../src/sources/git-tools.ts';
+import { shouldAllowToolInMode } from '../src/agent/mode-manager.ts';
+
+let repoPath: string;
+
+function git(...args: string[]): string {
+  return execFileSync('git', args, { cwd: repoPath, encoding: 'utf-8' });
+}
+
+function commit(message: string, author: string): void {
+  git('add', '-A');
+  git('-c', `user.name=${author}`, '-c', `user.email=${author.toLowerCase()}@example.com`, 'commit', '-q', '-m', message);
+}
+
+beforeAll(() => {
+  repoPath = mkdtempSync(join(tmpdir(), 'git-tools-test-'));
+  git('init', '-q', '-b', 'main');
+  writeFileSync(join(repoPath, 'readme.md'), 'one\ntwo\nthree\n');
+  commit('Initial commit', 'Alice');
+  writeFileSync(join(repoPath, 'readme.md'), 'one\n2\nthree\n');
+  mkdirSync(join(repoPath, 'src'));
+  writeFileSync(join(repoPath, 'src', 'app.ts'), 'export {};\n');
+  commit('Add app and fix readme', 'Bob');
+  git('branch', 'feature');
+});
+
+afterAll(() => {
+  rmSync(repoPath, { recursive: true, force: true });
+});
+
+describe('isGitLocalSource', () => {
+  it('uses the format hint, falling back to a .git folder', () => {
+    expect(isGitLocalSource({ path: '/code/app', format: 'git' })).toBe(true);
+    expect(isGitLocalSource({ path: repoPath, format: 'filesystem' })).toBe(false);
+    expect(isGitLocalSource({ path: repoPath })).toBe(true);
+    expect(isGitLocalSource({ path: tmpdir() })).toBe(false);
+    expect(isGitLocalSource(undefined)).toBe(false);
+  });
+});
+
+describe('getGitLog', () => {
+  it('lists commits newest first with filters', async () => {
+    const commits = await getGitLog(repoPath);
+    expect(commits.map(c => c.subject)).toEqual(['Add app and fix readme', 'Initial commit']);
+    expect(commits[0]!.author).toBe('Bob');
+    expect(commits[0]!.parents).toEqual([commits[1]!.hash]);
+
+    expect((await getGitLog(repoPath, { author: 'alice' })).map(c => c.subject)).toEqual(['Initial commit']);
+    expect((await getGitLog(repoPath, { path: 'src' })).map(c => c.subject)).toEqual(['Add app and fix readme']);
+    expect((await getGitLog(repoPath, { grep: 'INITIAL' })).length).toBe(1);
+    expect((await getGitLog(repoPath, { maxCount: 1 })).length).toBe(1);
+  });
+
+  it('rejects refs that look like options', async () => {
+    await expect(getGitLog(repoPath, { ref: '--output=/tmp/x' })).rejects.toThrow('Invalid ref');
+  });
+});
+
+describe('getGitDiff and getGitCommit', () => {
+  it('returns per-file patches between refs', async () => {
+    const diff = await getGitDiff(repoPath, 'HEAD~1', 'HEAD');
+    expect(diff.type).toBe('git_diff');
+    expect(diff.files.map(f => [f.path, f.status, f.additions, f.deletions])).toEqual([
+      ['readme.md', 'modified', 1, 1],
+      ['src/app.ts', 'added', 1, 0],
+    ]);
+    expect(diff.files[0]!.patch).toContain('-two\n+2');
+    expect(diff.truncated).toBe(false);
+  });
+
+  it('shows a commit with its message and changes', async () => {
+    const result = await getGitCommit(repoPath, 'HEAD~1');
+    expect(result.commit?.subject).toBe('Initial commit');
+    expect(result.commit?.body).toBe('Initial commit');
+    expect(result.files).toEqual([expect.objectContaining({ path: 'readme.md', status: 'added', additions: 3 })]);
+  });
+});
+
+describe('parseGitPatch', () => {
+  const patch = [
+    'diff --git a/old.ts b/new.ts',
+    'similarity index 90%',
+    'rename from old.ts',
+    'rename to new.ts',
+    '--- a/old.ts',
+    '+++ b/new.ts',
+    '@@ -1 +1 @@',
+    '-a',
+    '+b',
+    'diff --git a/big.ts b/big.ts',
+    '--- a/big.ts',
+    '+++ b/big.ts',
+    '@@ -1 +1 @@',
+    `-${'x'.repeat(200)}`,
+    `+${'y'.repeat(200)}`,
+    '',
+  ].join('\n');
+
+  it('detects renames and drops patches past the budget', () => {
+    const { files, truncated } = parseGitPatch(patch, 300);
+    expect(files[0]).toMatchObject({ path: 'new.ts', oldPath: 'old.ts', status: 'renamed', additions: 1, deletions: 1 });
+    expect(files[0]!.patch).toBeDefined();
+    expect(files[1]).toMatchObject({ path: 'big.ts', additions: 1, deletions: 1 });
+    expect(files[1]!.patch).toBeUndefined();
+    expect(truncated).toBe(true);
+  });
+});
+
+describe('getGitBlame and getGitFile', () => {
+  it('attributes each line to its last commit', async () => {
+    const { lines } = await getGitBlame(repoPath, 'readme.md');
+    expect(lines.map(l => [l.line, l.author, l.content])).toEqual([
+      [1, 'Alice', 'one'],
+      [2, 'Bob', '2'],
+      [3, 'Alice', 'three'],
+    ]);
+    expect((await getGitBlame(repoPath, 'readme.md', { startLine: 2, endLine: 2 })).lines.length).toBe(1);
+  });
+
+  it('reads a file at a revision', async () => {
+    expect((await getGitFile(repoPath, 'readme.md', 'HEAD~1')).content).toBe('one\ntwo\nthree\n');
+    await expect(getGitFile(repoPath, 'src/app.ts', 'HEAD~1')).rejects.toThrow();
+  });
+});
+
+describe('getGitBranches', () => {
+  it('lists branches and marks the current one', async () => {
+    const branches = await getGitBranches(repoPath);
+    expect(branches.map(b => [b.name, b.current, b.remote]).sort()).toEqual([
+      ['feature', false, false],
+      ['main', true, false],
+    ]);
+  });
+});
+
+describe('git tool permissions', () => {
+  it('allows all git tools in Explore mode', () => {
+    createGitServer({ name: 'repo', path: repoPath });
+
+    for (const tool of ['git_log', 'git_show', 'git_diff', 'git_blame', 'git_file', 'git_branches']) {
+      expect(shouldAllowToolInMode(`mcp__repo__${tool}`, {}, 'safe').allowed).toBe(true);
+    }
+    expect(shouldAllowToolInMode('mcp__github__git_push', {}, 'safe').allowed).toBe(false);
+  });
+
+  it('does not trust same-named tools of other MCP servers', () => {
+    expect(shouldAllowToolInMode('mcp__github__git_log', {}, 'safe').allowed).toBe(false);
+    expect(shouldAllowToolInMode('mcp__github__git_file', { path: 'x' }, 'safe').allowed).toBe(false);
+  });
+});
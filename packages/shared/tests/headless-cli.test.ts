@@ -0,0 +1,103 @@
+/**
+ * Tests for the craft CLI argument parsing and exit codes in headless/cli.ts
+ */
+import { describe, it, expect } from 'bun:test';
+import { parseCliArgs, exitCodeForResult, CliUsageError, CLI_EXIT_CODES } from '../src/headless/cli.ts';
+
+describe('parseCliArgs', () => {
+  it('parses a run command with all options', () => {
+    const command = parseCliArgs([
+      'run', 'Summarize open issues',
+      '--workspace', 'My Workspace',
+      '--model', 'claude-opus-4-5-20251101',
+      '--output', 'stream-json',
+      '--permission-policy', 'allow-safe',
+      '--session-resume',
+    ]);
+    expect(command).toEqual({
+      kind: 'run',
+      prompt: 'Summarize open issues',
+      workspace: 'My Workspace',
+      model: 'claude-opus-4-5-20251101',
+      outputFormat: 'stream-json',
+      permissionPolicy: 'allow-safe',
+      sessionId: undefined,
+      sessionResume: true,
+    });
+  });
+
+  it('applies defaults and supports short flags', () => {
+    const command = parseCliArgs(['run', '-w', 'ws', '-s', '260111-swift-river']);
+    expect(command).toMatchObject({
+      kind: 'run',
+      prompt: undefined,
+      workspace: 'ws',
+      outputFormat: 'text',
+      permissionPolicy: 'deny-all',
+      sessionId: '260111-swift-river',
+      sessionResume: false,
+    });
+  });
+
+  it('joins unquoted prompt words', () => {
+    const command = parseCliArgs(['run', 'list', 'my', 'sources']);
+    expect(command).toMatchObject({ kind: 'run', prompt: 'list my sources' });
+  });
+
+  it('returns help when no command is given', () => {
+    expect(parseCliArgs([])).toEqual({ kind: 'help' });
+    expect(parseCliArgs(['run', '--help'])).toEqual({ kind: 'help' });
+  });
+
+  it('rejects unknown commands, flags and values', () => {
+    expect(() => parseCliArgs(['chat', 'hi'])).toThrow(CliUsageError);
+    expect(() => parseCliArgs(['run', 'hi', '--bogus'])).toThrow(CliUsageError);
+    expect(() => parseCliArgs(['run', 'hi', '--output', 'xml'])).toThrow(CliUsageError);
+    expect(() => parseCliArgs(['run', 'hi', '--permission-policy', 'yolo'])).toThrow(CliUsageError);
+  });
+
+  it('rejects --session together with --session-resume', () => {
+    expect(() => parseCliArgs(['run', 'hi', '--session', 'abc', '--session-resume'])).toThrow(CliUsageError);
+  });
+
+  it('parses an export command', () => {
+    expect(parseCliArgs(['export', '260111-swift-river', '-w', 'ws', '--file', 'out.md', '--no-tools'])).toEqual({
+      kind: 'export',
+      sessionId: '260111-swift-river',
+      workspace: 'ws',
+      file: 'out.md',
+      options: { includeToolCalls: false, includeThinking: true, includeAttachments: true },
+    });
+  });
+
+  it('rejects export without a session ID and flags for the other command', () => {
+    expect(() => parseCliArgs(['export'])).toThrow(CliUsageError);
+    expect(() => parseCliArgs(['export', 'a', 'b'])).toThrow(CliUsageError);
+    expect(() => parseCliArgs(['export', 'abc', '--model', 'x'])).toThrow(CliUsageError);
+    expect(() => parseCliArgs(['run', 'hi', '--no-tools'])).toThrow(CliUsageError);
+  });
+
+  it('parses an import command with several paths', () => {
+    expect(parseCliArgs(['import', 'a.jsonl', 'export.zip', '-w', 'ws'])).toEqual({
+      kind: 'import',
+      paths: ['a.jsonl', 'export.zip'],
+      workspace: 'ws',
+    });
+    expect(() => parseCliArgs(['import'])).toThrow(CliUsageError);
+    expect(() => parseCliArgs(['import', 'a.jsonl', '--file', 'out.md'])).toThrow(CliUsageError);
+    expect(() => parseCliArgs(['import', 'a.jsonl', '--model', 'x'])).toThrow(CliUsageError);
+  });
+});
+
+describe('exitCodeForResult', () => {
+  it('maps results to documented exit codes', () => {
+    expect(exitCodeForResult({ success: true })).toBe(CLI_EXIT_CODES.success);
+    expect(exitCodeForResult({ success: false, error: { code: 'execution_error', message: '' } })).toBe(1);
+    expect(exitCodeForResult({ success: false, error: { code: 'config_missing', message: '' } })).toBe(3);
+    expect(exitCodeForResult({ success: false, error: { code: 'auth_required', message: '' } })).toBe(4);
+  });
+
+  it('treats failures without an error code as execution errors', () => {
+    expect(exitCodeForResult({ success: false })).toBe(CLI_EXIT_CODES.execution_error);
+  });
+});
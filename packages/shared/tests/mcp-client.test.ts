@@ -0,0 +1,36 @@
+/**
+ * Tests for MCP client result formatting.
+ *
+ * Verifies that resource contents and prompt messages are flattened into
+ * text for attachments and the chat input.
+ */
+import { describe, it, expect } from 'bun:test';
+import { formatPromptMessages, formatResourceContents } from '../src/mcp/client.ts';
+
+describe('formatResourceContents', () => {
+  it('joins text contents and summarizes binary ones', () => {
+    const text = formatResourceContents({
+      contents: [
+        { uri: 'file:///a.md', mimeType: 'text/markdown', text: '# A' },
+        { uri: 'file:///b.bin', mimeType: 'application/zip', blob: 'AAAA' },
+        { uri: 'file:///c.md', text: 'C' },
+      ],
+    });
+    expect(text).toBe('# A\n\n[binary content: application/zip, 3 bytes]\n\nC');
+  });
+});
+
+describe('formatPromptMessages', () => {
+  it('flattens messages, inlining embedded resources', () => {
+    const text = formatPromptMessages({
+      messages: [
+        { role: 'user', content: { type: 'text', text: 'Review {{file}}' } },
+        { role: 'user', content: { type: 'resource', resource: { uri: 'file:///style.md', text: 'Use tabs.' } } },
+        { role: 'user', content: { type: 'resource', resource: { uri: 'file:///logo.png', blob: 'AAAA' } } },
+        { role: 'assistant', content: { type: 'text', text: 'Sure.' } },
+        { role: 'user', content: { type: 'image', data: 'AAAA', mimeType: 'image/png' } },
+      ],
+    });
+    expect(text).toBe('Review {{file}}\n\nUse tabs.\n\n[resource: file:///logo.png]\n\nAssistant: Sure.\n\n[image]');
+  });
+});
@@ -0,0 +1,72 @@
+/**
+ * Tests for rebuilding user message content and badges after an edit.
+ */
+import { describe, it, expect } from 'bun:test';
+import { applyMessageEdit } from '../src/sessions/message-edit.ts';
+import type { ContentBadge } from '@craft-agent/core/types';
+
+const EDIT_REQUEST = '<edit_request>\n<label>Permissions</label>\n<file>/tmp/permissions.json</file>\n</edit_request>\n\n';
+
+describe('applyMessageEdit', () => {
+  it('returns the edited text when there are no badges', () => {
+    expect(applyMessageEdit(undefined, 'new prompt')).toEqual({ content: 'new prompt', badges: undefined });
+  });
+
+  it('re-positions inline badges that are still present', () => {
+    const badges: ContentBadge[] = [
+      { type: 'source', label: 'Linear', rawText: '@linear', start: 6, end: 13 },
+    ];
+    const result = applyMessageEdit(badges, 'Please check @linear for open issues');
+
+    expect(result.content).toBe('Please check @linear for open issues');
+    expect(result.badges).toEqual([
+      { type: 'source', label: 'Linear', rawText: '@linear', start: 13, end: 20 },
+    ]);
+  });
+
+  it('drops inline badges whose text was removed', () => {
+    const badges: ContentBadge[] = [
+      { type: 'source', label: 'Linear', rawText: '@linear', start: 0, end: 7 },
+      { type: 'skill', label: 'Commit', rawText: '@commit', start: 8, end: 15 },
+    ];
+    const result = applyMessageEdit(badges, 'just @commit please');
+
+    expect(result.badges).toEqual([
+      { type: 'skill', label: 'Commit', rawText: '@commit', start: 5, end: 12 },
+    ]);
+  });
+
+  it('maps repeated mentions to successive occurrences', () => {
+    const badges: ContentBadge[] = [
+      { type: 'source', label: 'Linear', rawText: '@linear', start: 0, end: 7 },
+      { type: 'source', label: 'Linear', rawText: '@linear', start: 12, end: 19 },
+    ];
+    const result = applyMessageEdit(badges, '@linear and @linear');
+
+    expect(result.badges!.map(b => b.start)).toEqual([0, 12]);
+  });
+
+  it('keeps hidden edit request context ahead of the edited text', () => {
+    const badges: ContentBadge[] = [
+      { type: 'context', label: 'Permissions', rawText: EDIT_REQUEST, start: 0, end: EDIT_REQUEST.length, collapsedLabel: 'Permissions' },
+    ];
+    const result = applyMessageEdit(badges, 'Allow git push');
+
+    expect(result.content).toBe(EDIT_REQUEST + 'Allow git push');
+    expect(result.badges).toEqual([
+      { type: 'context', label: 'Permissions', rawText: EDIT_REQUEST, start: 0, end: EDIT_REQUEST.length, collapsedLabel: 'Permissions' },
+    ]);
+  });
+
+  it('does not match inline badges inside hidden context', () => {
+    const context = '<edit_request>\n@linear\n</edit_request>\n\n';
+    const badges: ContentBadge[] = [
+      { type: 'context', label: 'Edit', rawText: context, start: 0, end: context.length },
+      { type: 'source', label: 'Linear', rawText: '@linear', start: context.length, end: context.length + 7 },
+    ];
+    const result = applyMessageEdit(badges, 'no mention here');
+
+    expect(result.badges).toHaveLength(1);
+    expect(result.badges![0]!.type).toBe('context');
+  });
+});
@@ -0,0 +1,207 @@
+/**
+ * Tests for OpenAPI spec import.
+ *
+ * Verifies that OpenAPI 3 and Swagger 2 documents are parsed into operations,
+ * that test endpoints and Explore mode rules are derived from GET operations,
+ * and that typed operation tools expose their method and path to permission checks.
+ */
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  buildOpenApiDocumentation,
+  findOpenApiTestEndpoint,
+  getOpenApiReadEndpointRules,
+  loadOpenApiDocument,
+  openApiPathToPattern,
+  parseOpenApiSpec,
+} from '../src/sources/openapi.ts';
+import { SourceServerBuilder } from '../src/sources/server-builder.ts';
+import { listInProcessTools } from '../src/sources/tool-selection.ts';
+import { loadSource, saveSourceConfig } from '../src/sources/storage.ts';
+import { getApiCallTarget } from '../src/agent/mode-manager.ts';
+import type { FolderSourceConfig } from '../src/sources/types.ts';
+
+const petstore = {
+  openapi: '3.0.3',
+  info: { title: 'Petstore', version: '1.0.0' },
+  servers: [{ url: 'https://petstore.example.com/v1' }],
+  paths: {
+    '/pets': {
+      get: {
+        operationId: 'listPets',
+        summary: 'List all pets',
+        parameters: [{ name: 'limit', in: 'query', schema: { type: 'integer' } }],
+      },
+      post: {
+        operationId: 'createPet',
+        requestBody: {
+          required: true,
+          content: { 'application/json': { schema: { $ref: '#/components/schemas/Pet' } } },
+        },
+      },
+    },
+    '/pets/{petId}': {
+      parameters: [{ name: 'petId', in: 'path', required: true, schema: { type: 'string' } }],
+      get: { operationId: 'showPetById', summary: 'Info for a specific pet' },
+      delete: { summary: 'Delete a pet' },
+    },
+  },
+  components: {
+    schemas: {
+      Pet: {
+        type: 'object',
+        required: ['name'],
+        properties: {
+          name: { type: 'string' },
+          tag: { type: 'string', enum: ['cat', 'dog'] },
+        },
+      },
+    },
+  },
+};
+
+const swaggerYaml = `
+swagger: "2.0"
+info:
+  title: Legacy
+  version: "2"
+host: legacy.example.com
+basePath: /api
+schemes: [http]
+paths:
+  /me:
+    get:
+      operationId: getMe
+  /items:
+    post:
+      parameters:
+        - name: body
+          in: body
+          required: true
+          schema:
+            type: object
+            properties:
+              title: { type: string }
+`;
+
+describe('parseOpenApiSpec', () => {
+  it('parses OpenAPI 3 operations with path-level parameters and $refs', () => {
+    const doc = parseOpenApiSpec(JSON.stringify(petstore));
+
+    expect(doc.title).toBe('Petstore');
+    expect(doc.serverUrl).toBe('https://petstore.example.com/v1');
+    expect(doc.operations.map(op => `${op.method} ${op.path} ${op.name}`)).toEqual([
+      'GET /pets list_pets',
+      'POST /pets create_pet',
+      'GET /pets/{petId} show_pet_by_id',
+      'DELETE /pets/{petId} delete_pets_pet_id',
+    ]);
+
+    const show = doc.operations[2]!;
+    expect(show.parameters).toEqual([
+      { name: 'petId', in: 'path', required: true, description: undefined, schema: { type: 'string' } },
+    ]);
+    const create = doc.operations[1]!;
+    expect(create.requestBody?.required).toBe(true);
+    expect(create.requestBody?.schema?.properties?.name).toEqual({ type: 'string' });
+  });
+
+  it('parses Swagger 2 YAML with body parameters', () => {
+    const doc = parseOpenApiSpec(swaggerYaml);
+
+    expect(doc.serverUrl).toBe('http://legacy.example.com/api');
+    expect(doc.operations.map(op => op.name)).toEqual(['get_me', 'post_items']);
+    expect(doc.operations[1]!.requestBody?.schema?.properties?.title).toEqual({ type: 'string' });
+  });
+
+  it('rejects documents without a version field', () => {
+    expect(() => parseOpenApiSpec('{"paths": {}}')).toThrow('no "openapi" or "swagger"');
+  });
+});
+
+describe('derived config', () => {
+  it('picks a GET endpoint without required parameters as testEndpoint', () => {
+    expect(findOpenApiTestEndpoint(parseOpenApiSpec(JSON.stringify(petstore)))).toEqual({ method: 'GET', path: 'pets' });
+    expect(findOpenApiTestEndpoint(parseOpenApiSpec(swaggerYaml))).toEqual({ method: 'GET', path: 'me' });
+  });
+
+  it('builds allowedApiEndpoints rules for GET operations', () => {
+    const rules = getOpenApiReadEndpointRules(parseOpenApiSpec(JSON.stringify(petstore)));
+    expect(rules.map(r => r.path)).toEqual(['^/?pets/?(\\?.*)?$', '^/?pets/[^/]+/?(\\?.*)?$']);
+  });
+
+  it('matches concrete paths against path templates', () => {
+    const pattern = new RegExp(openApiPathToPattern('/pets/{petId}'));
+    expect(pattern.test('/pets/42')).toBe(true);
+    expect(pattern.test('pets/42?fields=name')).toBe(true);
+    expect(pattern.test('/pets/42/owners')).toBe(false);
+  });
+
+  it('documents parameters and body schemas', () => {
+    const docs = buildOpenApiDocumentation(parseOpenApiSpec(JSON.stringify(petstore)));
+    expect(docs).toContain('### GET /pets/{petId}');
+    expect(docs).toContain('- query `limit`?: number');
+    expect(docs).toContain('- body: { name: string, tag?: "cat" | "dog" }');
+  });
+});
+
+describe('API sources with an OpenAPI spec', () => {
+  let workspaceRoot: string;
+
+  const config: FolderSourceConfig = {
+    id: 'petstore_1',
+    name: 'Petstore',
+    slug: 'petstore',
+    enabled: true,
+    provider: 'petstore',
+    type: 'api',
+    api: {
+      baseUrl: 'https://petstore.example.com/v1/',
+      authType: 'none',
+      openApi: { spec: 'petstore.json', toolMode: 'operations' },
+    },
+  };
+
+  beforeEach(() => {
+    workspaceRoot = mkdtempSync(join(tmpdir(), 'openapi-test-'));
+    saveSourceConfig(workspaceRoot, config);
+    writeFileSync(join(workspaceRoot, 'sources', 'petstore', 'petstore.json'), JSON.stringify(petstore));
+  });
+
+  afterEach(() => {
+    rmSync(workspaceRoot, { recursive: true, force: true });
+  });
+
+  it('loads specs relative to the source folder', () => {
+    const source = loadSource(workspaceRoot, 'petstore')!;
+    expect(loadOpenApiDocument(source.folderPath, config.api!.openApi!)?.operations).toHaveLength(4);
+    expect(loadOpenApiDocument(source.folderPath, { spec: 'https://example.com/spec.json' })).toBeNull();
+  });
+
+  it('builds one typed tool per operation', async () => {
+    const source = loadSource(workspaceRoot, 'petstore')!;
+    const server = new SourceServerBuilder().buildServerForToolListing(source)!;
+    const tools = await listInProcessTools(server);
+
+    expect(tools.map(t => t.name)).toEqual([
+      'api_list_pets',
+      'api_create_pet',
+      'api_show_pet_by_id',
+      'api_delete_pets_pet_id',
+    ]);
+    const show = tools.find(t => t.name === 'api_show_pet_by_id')!;
+    expect(show.inputSchema.required).toContain('petId');
+  });
+
+  it('exposes the method and concrete path of typed tool calls', async () => {
+    const source = loadSource(workspaceRoot, 'petstore')!;
+    new SourceServerBuilder().buildServerForToolListing(source);
+
+    expect(getApiCallTarget('mcp__petstore__api_delete_pets_pet_id', { petId: 'a b' }))
+      .toEqual({ method: 'DELETE', path: '/pets/a%20b' });
+    expect(getApiCallTarget('mcp__other__api_other', { method: 'post', path: '/x' }))
+      .toEqual({ method: 'POST', path: '/x' });
+  });
+});
@@ -0,0 +1,81 @@
+/**
+ * Tests for the permission audit log.
+ *
+ * Verifies that decisions are appended to both the session and workspace logs,
+ * that corrupted lines are skipped when reading, and that tool inputs are
+ * summarized without UI-only metadata.
+ */
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import { appendFileSync, mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  appendPermissionAuditEntry,
+  getSessionPermissionAuditPath,
+  loadSessionPermissionAudit,
+  loadWorkspacePermissionAudit,
+  summarizeToolInput,
+} from '../src/agent/permission-audit.ts';
+import type { PermissionAuditEntry } from '../src/agent/mode-types.ts';
+
+let workspaceRoot: string;
+
+beforeEach(() => {
+  workspaceRoot = mkdtempSync(join(tmpdir(), 'permission-audit-test-'));
+});
+
+afterEach(() => {
+  rmSync(workspaceRoot, { recursive: true, force: true });
+});
+
+function entry(sessionId: string, overrides: Partial<PermissionAuditEntry> = {}): PermissionAuditEntry {
+  return {
+    timestamp: Date.now(),
+    sessionId,
+    mode: 'ask',
+    toolName: 'Bash',
+    input: 'git status',
+    decision: 'allowed',
+    ...overrides,
+  };
+}
+
+describe('appendPermissionAuditEntry', () => {
+  it('writes to the session log and the workspace log', () => {
+    appendPermissionAuditEntry(workspaceRoot, entry('a', { rule: '^git\\s+status', reason: 'Matches read-only rule' }));
+    appendPermissionAuditEntry(workspaceRoot, entry('b', { decision: 'denied' }));
+
+    expect(loadSessionPermissionAudit(workspaceRoot, 'a')).toEqual([
+      expect.objectContaining({ sessionId: 'a', rule: '^git\\s+status', decision: 'allowed' }),
+    ]);
+    expect(loadWorkspacePermissionAudit(workspaceRoot).map(e => e.sessionId)).toEqual(['a', 'b']);
+  });
+
+  it('truncates long reasons', () => {
+    appendPermissionAuditEntry(workspaceRoot, entry('a', { decision: 'blocked', reason: 'x'.repeat(2000) }));
+    expect(loadSessionPermissionAudit(workspaceRoot, 'a')[0]!.reason!.length).toBe(500);
+  });
+});
+
+describe('loadSessionPermissionAudit', () => {
+  it('skips corrupted lines and returns the most recent entries', () => {
+    appendPermissionAuditEntry(workspaceRoot, entry('a', { input: 'first' }));
+    appendFileSync(getSessionPermissionAuditPath(workspaceRoot, 'a'), '{"truncated":\n');
+    appendPermissionAuditEntry(workspaceRoot, entry('a', { input: 'second' }));
+    appendPermissionAuditEntry(workspaceRoot, entry('a', { input: 'third' }));
+
+    expect(loadSessionPermissionAudit(workspaceRoot, 'a').map(e => e.input)).toEqual(['first', 'second', 'third']);
+    expect(loadSessionPermissionAudit(workspaceRoot, 'a', 2).map(e => e.input)).toEqual(['second', 'third']);
+    expect(loadSessionPermissionAudit(workspaceRoot, 'missing')).toEqual([]);
+  });
+});
+
+describe('summarizeToolInput', () => {
+  it('summarizes commands, paths, API calls and other inputs', () => {
+    expect(summarizeToolInput('Bash', { command: ' npm test ', description: 'Run tests' })).toBe('npm test');
+    expect(summarizeToolInput('Write', { file_path: '/tmp/a.txt', content: 'hello' })).toBe('/tmp/a.txt');
+    expect(summarizeToolInput('api_github', { method: 'post', path: '/issues' })).toBe('POST /issues');
+    expect(summarizeToolInput('mcp__linear__create_issue', { title: 'Bug', _intent: 'File a bug' })).toBe('{"title":"Bug"}');
+    expect(summarizeToolInput('Bash', { command: 'a'.repeat(1000) }).length).toBe(300);
+  });
+});
@@ -0,0 +1,100 @@
+/**
+ * Tests for explicit deny rules in permissions.json.
+ *
+ * Verifies that deny rules block bash commands (including commands nested in
+ * chains and substitutions), write paths (after resolving .. and symlinks), MCP
+ * tools and API endpoints in every permission mode, and that the rejection
+ * message names the matching rule.
+ */
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import { mkdirSync, mkdtempSync, realpathSync, rmSync, symlinkSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { findDeniedCommand } from '../src/agent/bash-validator.ts';
+import { shouldAllowToolInMode } from '../src/agent/mode-manager.ts';
+import { permissionsConfigCache } from '../src/agent/permissions-config.ts';
+import type { PermissionMode } from '../src/agent/mode-types.ts';
+
+let workspaceRoot: string;
+
+beforeEach(() => {
+  workspaceRoot = mkdtempSync(join(tmpdir(), 'permissions-deny-test-'));
+  writeFileSync(join(workspaceRoot, 'permissions.json'), JSON.stringify({
+    allowedBashPatterns: [{ pattern: '^git\\s', comment: 'Any git command' }],
+    deniedBashPatterns: [{ pattern: '^git\\s+push\\s+.*--force', comment: 'No force pushes' }, '^rm\\s+-rf'],
+    deniedWritePaths: [{ pattern: '/etc/**', comment: 'System config' }],
+    deniedMcpPatterns: ['delete'],
+    deniedApiEndpoints: [{ method: 'DELETE', path: '^/issues', comment: 'Keep issues' }],
+  }));
+});
+
+afterEach(() => {
+  permissionsConfigCache.clear();
+  rmSync(workspaceRoot, { recursive: true, force: true });
+});
+
+const ALL_MODES: PermissionMode[] = ['safe', 'ask', 'allow-all'];
+
+function check(toolName: string, toolInput: unknown, mode: PermissionMode) {
+  return shouldAllowToolInMode(toolName, toolInput, mode, {
+    permissionsContext: { workspaceRootPath: workspaceRoot },
+  });
+}
+
+describe('findDeniedCommand', () => {
+  const patterns = [{ regex: /^rm\s+-rf/, source: '^rm\\s+-rf' }];
+
+  it('finds denied commands nested in chains, pipes and substitutions', () => {
+    expect(findDeniedCommand('rm -rf /', patterns)?.command).toBe('rm -rf /');
+    expect(findDeniedCommand('ls && rm -rf ~', patterns)?.command).toBe('rm -rf ~');
+    expect(findDeniedCommand('echo $(rm -rf ~)', patterns)).not.toBeNull();
+    expect(findDeniedCommand('if true; then rm -rf /tmp/x; fi', patterns)).not.toBeNull();
+    expect(findDeniedCommand('ls -la | grep rm', patterns)).toBeNull();
+  });
+});
+
+describe('deny rules', () => {
+  it('block bash commands in every mode, even when allowed by another rule', () => {
+    for (const mode of ALL_MODES) {
+      const result = check('Bash', { command: 'git status && git push origin main --force' }, mode);
+      expect(result.allowed).toBe(false);
+      if (!result.allowed) {
+        expect(result.reason).toContain('No force pushes');
+        expect(result.reason).not.toContain('Switch to');
+      }
+    }
+    expect(check('Bash', { command: 'git push origin main' }, 'allow-all').allowed).toBe(true);
+  });
+
+  it('block writes to denied paths in every mode', () => {
+    for (const mode of ALL_MODES) {
+      expect(check('Write', { file_path: '/etc/hosts', content: '' }, mode).allowed).toBe(false);
+    }
+    expect(check('Write', { file_path: join(workspaceRoot, 'notes.md'), content: '' }, 'allow-all').allowed).toBe(true);
+  });
+
+  it('resolve .. segments and symlinks before matching denied paths', () => {
+    const privateDir = join(realpathSync(workspaceRoot), 'private');
+    mkdirSync(privateDir);
+    symlinkSync(privateDir, join(workspaceRoot, 'shortcut'));
+    writeFileSync(join(workspaceRoot, 'permissions.json'), JSON.stringify({
+      deniedWritePaths: ['/etc/**', `${privateDir}/**`],
+    }));
+
+    for (const mode of ALL_MODES) {
+      expect(check('Write', { file_path: '/tmp/../etc/hosts', content: '' }, mode).allowed).toBe(false);
+      expect(check('Edit', { file_path: join(workspaceRoot, 'notes', '..', 'private', 'key.pem') }, mode).allowed).toBe(false);
+      expect(check('Write', { file_path: join(workspaceRoot, 'shortcut', 'new', 'key.pem'), content: '' }, mode).allowed).toBe(false);
+    }
+    expect(check('Write', { file_path: join(workspaceRoot, 'private-notes.md'), content: '' }, 'allow-all').allowed).toBe(true);
+  });
+
+  it('block MCP tools and API endpoints in every mode', () => {
+    for (const mode of ALL_MODES) {
+      expect(check('mcp__linear__delete_issue', {}, mode).allowed).toBe(false);
+      expect(check('api_github', { method: 'DELETE', path: '/issues/1' }, mode).allowed).toBe(false);
+    }
+    expect(check('mcp__linear__create_issue', {}, 'allow-all').allowed).toBe(true);
+    expect(check('api_github', { method: 'GET', path: '/issues/1' }, 'allow-all').allowed).toBe(true);
+  });
+});
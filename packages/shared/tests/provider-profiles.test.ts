@@ -0,0 +1,105 @@
+/**
+ * Tests for model provider profiles.
+ *
+ * Verifies profile validation, model and environment overrides, the fallback
+ * chain order, which errors trigger a fallback (and that a turn already under
+ * way does not fall back), and credential storage keys.
+ */
+import { describe, it, expect } from 'bun:test';
+import {
+  applyProviderProfileEnv,
+  resolveProviderProfileModel,
+  selectNextFallbackProfile,
+  validateProviderProfile,
+} from '../src/config/provider-profiles.ts';
+import type { ProviderProfile } from '../src/config/types.ts';
+import { canFallBackToNextProvider, isProviderOutage, parseError } from '../src/agent/errors.ts';
+import { accountToCredentialId, credentialIdToAccount } from '../src/credentials/types.ts';
+
+const direct: ProviderProfile = { id: 'anthropic', name: 'Anthropic', kind: 'anthropic' };
+const openrouter: ProviderProfile = {
+  id: 'openrouter',
+  name: 'OpenRouter',
+  kind: 'openrouter',
+  models: ['anthropic/claude-sonnet-4.5', 'openai/gpt-5'],
+};
+const gateway: ProviderProfile = { id: 'local', name: 'Local', kind: 'gateway', baseUrl: 'http://localhost:4000' };
+
+describe('validateProviderProfile', () => {
+  it('accepts valid profiles', () => {
+    expect(validateProviderProfile(direct)).toBeNull();
+    expect(validateProviderProfile(openrouter)).toBeNull();
+    expect(validateProviderProfile(gateway)).toBeNull();
+  });
+
+  it('rejects invalid IDs, missing names and kind mismatches', () => {
+    expect(validateProviderProfile({ ...direct, id: 'Has Spaces' })).toContain('Invalid profile ID');
+    expect(validateProviderProfile({ ...direct, name: '  ' })).toContain('name is required');
+    expect(validateProviderProfile({ ...gateway, baseUrl: undefined })).toContain('base URL');
+    expect(validateProviderProfile({ id: 'max', name: 'Max', kind: 'claude_oauth', baseUrl: 'https://x.test' })).not.toBeNull();
+  });
+});
+
+describe('resolveProviderProfileModel', () => {
+  it('keeps the requested model when the profile allows it', () => {
+    expect(resolveProviderProfileModel(direct, 'claude-opus-4-5-20251101')).toBe('claude-opus-4-5-20251101');
+    expect(resolveProviderProfileModel(openrouter, 'openai/gpt-5')).toBe('openai/gpt-5');
+  });
+
+  it("falls back to the profile's first model", () => {
+    expect(resolveProviderProfileModel(openrouter, 'claude-sonnet-4-5-20250929')).toBe('anthropic/claude-sonnet-4.5');
+  });
+});
+
+describe('applyProviderProfileEnv', () => {
+  it('overrides provider keys and removes the ones the profile does not set', () => {
+    const base = { PATH: '/usr/bin', ANTHROPIC_API_KEY: 'legacy-key', CLAUDE_CODE_OAUTH_TOKEN: 'legacy-token' };
+
+    const env = applyProviderProfileEnv(base, { ANTHROPIC_API_KEY: 'or-key', ANTHROPIC_BASE_URL: 'https://openrouter.ai/api' });
+
+    expect(env).toEqual({ PATH: '/usr/bin', ANTHROPIC_API_KEY: 'or-key', ANTHROPIC_BASE_URL: 'https://openrouter.ai/api' });
+    expect(base.ANTHROPIC_API_KEY).toBe('legacy-key');
+  });
+});
+
+describe('selectNextFallbackProfile', () => {
+  const profiles = [direct, openrouter, gateway];
+
+  it('returns untried profiles in chain order, skipping unknown IDs', () => {
+    const chain = ['deleted', 'openrouter', 'local'];
+
+    expect(selectNextFallbackProfile(chain, profiles, ['anthropic'])?.id).toBe('openrouter');
+    expect(selectNextFallbackProfile(chain, profiles, ['anthropic', 'openrouter'])?.id).toBe('local');
+    expect(selectNextFallbackProfile(chain, profiles, ['openrouter', 'local'])).toBeNull();
+  });
+});
+
+describe('isProviderOutage', () => {
+  it('falls back on rate limits and outages only', () => {
+    expect(isProviderOutage(parseError(new Error('429 Too Many Requests')))).toBe(true);
+    expect(isProviderOutage(parseError(new Error('503 Service Unavailable')))).toBe(true);
+    expect(isProviderOutage(parseError(new Error('401 Unauthorized')))).toBe(false);
+    expect(isProviderOutage(parseError(new Error('402 Payment Required')))).toBe(false);
+  });
+});
+
+describe('canFallBackToNextProvider', () => {
+  it('only falls back before the model produced output', () => {
+    const rateLimited = parseError(new Error('429 Too Many Requests'));
+
+    expect(canFallBackToNextProvider(rateLimited, false)).toBe(true);
+    // Mid-turn failure: tools may already have run, so the turn is not re-sent elsewhere
+    expect(canFallBackToNextProvider(rateLimited, true)).toBe(false);
+    expect(canFallBackToNextProvider(parseError(new Error('503 Service Unavailable')), true)).toBe(false);
+    expect(canFallBackToNextProvider(parseError(new Error('401 Unauthorized')), false)).toBe(false);
+  });
+});
+
+describe('provider API key credentials', () => {
+  it('stores keys per profile', () => {
+    const account = credentialIdToAccount({ type: 'provider_api_key', name: 'openrouter' });
+
+    expect(account).toBe('provider_api_key::openrouter');
+    expect(accountToCredentialId(account)).toEqual({ type: 'provider_api_key', name: 'openrouter' });
+  });
+});
@@ -0,0 +1,112 @@
+/**
+ * Tests for local session export (sessions/export.ts).
+ *
+ * Verifies message filtering by export options and the Markdown transcript.
+ */
+import { describe, it, expect } from 'bun:test';
+import {
+  filterSessionForExport,
+  getSessionExportFileName,
+  sessionToMarkdown,
+} from '../src/sessions/export.ts';
+import type { StoredSession } from '../src/sessions/types.ts';
+
+const session: StoredSession = {
+  id: '260111-swift-river',
+  name: 'Fix login: "redirect" loop',
+  workspaceRootPath: '/tmp/workspace',
+  createdAt: Date.UTC(2026, 9, 18, 9),
+  lastUsedAt: Date.UTC(2026, 9, 18, 10),
+  model: 'claude-sonnet-4-5',
+  tokenUsage: { inputTokens: 0, outputTokens: 0, totalTokens: 0, contextTokens: 0, costUsd: 0 },
+  messages: [
+    {
+      id: 'm1',
+      type: 'user',
+      content: 'Why does login loop?',
+      attachments: [{ id: 'a1', type: 'image', name: 'screen.png', mimeType: 'image/png', size: 10, storedPath: '/tmp/screen.png' }],
+    },
+    { id: 'm2', type: 'assistant', content: 'Let me check the middleware.', isIntermediate: true, turnId: 't1' },
+    {
+      id: 'm3',
+      type: 'tool',
+      content: '',
+      toolName: 'Read',
+      toolIntent: 'Reading auth middleware',
+      toolInput: { file_path: 'src/auth.ts' },
+      toolResult: 'const a = ```nested```;',
+      toolStatus: 'completed',
+      turnId: 't1',
+    },
+    { id: 'm4', type: 'assistant', content: 'The cookie path is wrong.', turnId: 't1' },
+    { id: 'm5', type: 'status', content: 'Compacting...' },
+  ],
+};
+
+describe('filterSessionForExport', () => {
+  it('keeps everything by default', () => {
+    expect(filterSessionForExport(session).messages).toHaveLength(5);
+  });
+
+  it('drops tool calls, thinking and attachments when excluded', () => {
+    const filtered = filterSessionForExport(session, {
+      includeToolCalls: false,
+      includeThinking: false,
+      includeAttachments: false,
+    });
+    expect(filtered.messages.map(m => m.id)).toEqual(['m1', 'm4', 'm5']);
+    expect(filtered.messages[0]!.attachments).toBeUndefined();
+    // Source session is untouched
+    expect(session.messages[0]!.attachments).toHaveLength(1);
+  });
+});
+
+describe('sessionToMarkdown', () => {
+  it('renders messages, tool calls and attachments', () => {
+    const markdown = sessionToMarkdown(session);
+    expect(markdown).toStartWith('# Fix login: "redirect" loop\n\n- Created: 2026-10-18T09:00:00.000Z\n- Model: claude-sonnet-4-5');
+    expect(markdown).toContain('## User\n\nWhy does login loop?\n\n**Attachments:** screen.png');
+    expect(markdown).toContain('> Let me check the middleware.');
+    expect(markdown).toContain('<summary>Read: Reading auth middleware</summary>');
+    // Fence is longer than any backtick run in the content
+    expect(markdown).toContain('````\nconst a = ```nested```;\n````');
+    expect(markdown).toContain('## Assistant\n\nThe cookie path is wrong.');
+    expect(markdown).not.toContain('Compacting');
+  });
+
+  it('escapes HTML in tool call summaries', () => {
+    const markdown = sessionToMarkdown({
+      ...session,
+      messages: [{
+        id: 't',
+        type: 'tool',
+        content: '',
+        toolName: 'Edit',
+        toolDisplayName: 'Edit <b>',
+        toolIntent: 'Remove `</details>` wrapper & <img src=x onerror=alert(1)>',
+        toolStatus: 'completed',
+      }],
+    });
+
+    expect(markdown).toContain('<summary>Edit &lt;b&gt;: Remove `&lt;/details&gt;` wrapper &amp; &lt;img src=x onerror=alert(1)&gt;</summary>');
+    expect(markdown.match(/<\/details>/g)).toHaveLength(1);
+  });
+
+  it('respects export options', () => {
+    const markdown = sessionToMarkdown(session, {
+      includeToolCalls: false,
+      includeThinking: false,
+      includeAttachments: false,
+    });
+    expect(markdown).not.toContain('<details>');
+    expect(markdown).not.toContain('middleware');
+    expect(markdown).not.toContain('screen.png');
+  });
+});
+
+describe('getSessionExportFileName', () => {
+  it('derives a safe file name from the session name', () => {
+    expect(getSessionExportFileName(session, 'pdf')).toBe('Fix login redirect loop.pdf');
+    expect(getSessionExportFileName({ ...session, name: undefined }, 'markdown')).toBe('260111-swift-river.md');
+  });
+});
@@ -0,0 +1,138 @@
+/**
+ * Tests for session forking (branch from any message).
+ *
+ * Verifies that a fork copies session settings and the message prefix,
+ * records lineage in the header, and gets its own copy of session files.
+ */
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import { existsSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  createSession,
+  forkSession,
+  getSessionAttachmentsPath,
+  listSessions,
+  loadSession,
+  saveSession,
+} from '../src/sessions/storage.ts';
+import type { StoredMessage } from '../src/sessions/types.ts';
+
+let workspaceRoot: string;
+
+beforeEach(() => {
+  workspaceRoot = mkdtempSync(join(tmpdir(), 'session-fork-test-'));
+});
+
+afterEach(() => {
+  rmSync(workspaceRoot, { recursive: true, force: true });
+});
+
+async function createParentSession(): Promise<string> {
+  const config = await createSession(workspaceRoot, {
+    name: 'Refactor parser',
+    permissionMode: 'ask',
+    enabledSourceSlugs: ['github'],
+    model: 'claude-opus-4-5-20251101',
+    labels: ['bug', 'priority::high'],
+  });
+
+  const attachmentPath = join(getSessionAttachmentsPath(workspaceRoot, config.id), 'notes.txt');
+  writeFileSync(attachmentPath, 'hello');
+
+  const messages: StoredMessage[] = [
+    {
+      id: 'm1',
+      type: 'user',
+      content: 'First question',
+      attachments: [{
+        id: 'a1',
+        type: 'text',
+        name: 'notes.txt',
+        mimeType: 'text/plain',
+        size: 5,
+        storedPath: attachmentPath,
+      }],
+    },
+    { id: 'm2', type: 'assistant', content: 'First answer', turnId: 't1' },
+    { id: 'm3', type: 'user', content: 'Second question' },
+    { id: 'm4', type: 'assistant', content: 'Second answer', turnId: 't2' },
+  ];
+
+  const parent = loadSession(workspaceRoot, config.id)!;
+  await saveSession({
+    ...parent,
+    thinkingLevel: 'max',
+    sdkSessionId: 'sdk-parent',
+    messages,
+    tokenUsage: { inputTokens: 10, outputTokens: 20, totalTokens: 30, contextTokens: 10, costUsd: 0.5 },
+  });
+  return config.id;
+}
+
+describe('forkSession', () => {
+  it('copies settings and messages up to the fork point', async () => {
+    const parentId = await createParentSession();
+    const fork = await forkSession(workspaceRoot, parentId, 'm2');
+
+    expect(fork).not.toBeNull();
+    expect(fork!.id).not.toBe(parentId);
+    expect(fork!.messages.map(m => m.id)).toEqual(['m1', 'm2']);
+    expect(fork!.name).toBe('Refactor parser (fork)');
+    expect(fork!.permissionMode).toBe('ask');
+    expect(fork!.enabledSourceSlugs).toEqual(['github']);
+    expect(fork!.model).toBe('claude-opus-4-5-20251101');
+    expect(fork!.thinkingLevel).toBe('max');
+    expect(fork!.labels).toEqual(['bug', 'priority::high']);
+  });
+
+  it('starts a fresh SDK conversation with zero token usage', async () => {
+    const parentId = await createParentSession();
+    const fork = await forkSession(workspaceRoot, parentId, 'm4');
+
+    expect(fork!.sdkSessionId).toBeUndefined();
+    expect(fork!.tokenUsage.totalTokens).toBe(0);
+    expect(fork!.tokenUsage.costUsd).toBe(0);
+  });
+
+  it('excludes the fork point message when includeMessage is false', async () => {
+    const parentId = await createParentSession();
+    const fork = await forkSession(workspaceRoot, parentId, 'm3', { includeMessage: false });
+
+    expect(fork!.messages.map(m => m.id)).toEqual(['m1', 'm2']);
+  });
+
+  it('records lineage in the session header', async () => {
+    const parentId = await createParentSession();
+    const fork = await forkSession(workspaceRoot, parentId, 'm2');
+
+    const loaded = loadSession(workspaceRoot, fork!.id);
+    expect(loaded!.parentSessionId).toBe(parentId);
+    expect(loaded!.forkedFromMessageId).toBe('m2');
+
+    const meta = listSessions(workspaceRoot).find(s => s.id === fork!.id);
+    expect(meta!.parentSessionId).toBe(parentId);
+    expect(meta!.forkedFromMessageId).toBe('m2');
+  });
+
+  it('copies session files and rewrites paths to the fork folder', async () => {
+    const parentId = await createParentSession();
+    const fork = await forkSession(workspaceRoot, parentId, 'm2');
+
+    const storedPath = fork!.messages[0]!.attachments![0]!.storedPath;
+    expect(storedPath).toBe(join(getSessionAttachmentsPath(workspaceRoot, fork!.id), 'notes.txt'));
+    expect(readFileSync(storedPath, 'utf-8')).toBe('hello');
+
+    // Parent's messages are untouched
+    const parent = loadSession(workspaceRoot, parentId);
+    expect(parent!.messages).toHaveLength(4);
+    expect(existsSync(parent!.messages[0]!.attachments![0]!.storedPath)).toBe(true);
+  });
+
+  it('returns null for unknown sessions or messages', async () => {
+    const parentId = await createParentSession();
+
+    expect(await forkSession(workspaceRoot, 'missing-session', 'm1')).toBeNull();
+    expect(await forkSession(workspaceRoot, parentId, 'missing-message')).toBeNull();
+  });
+});
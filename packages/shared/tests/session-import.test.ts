@@ -0,0 +1,204 @@
+/**
+ * Tests for importing transcripts from Claude Code, ChatGPT and Claude.ai.
+ *
+ * Verifies that each format is converted to stored messages with tool calls
+ * matched to their results, and that importing into a workspace skips
+ * conversations imported before.
+ */
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import JSZip from 'jszip';
+import {
+  importConversations,
+  parseChatGptConversation,
+  parseClaudeAiConversation,
+  parseClaudeCodeTranscript,
+  readImportFile,
+} from '../src/sessions/import/index.ts';
+import { listSessions, loadSession } from '../src/sessions/storage.ts';
+
+let tempDir: string;
+
+beforeEach(() => {
+  tempDir = mkdtempSync(join(tmpdir(), 'session-import-test-'));
+});
+
+afterEach(() => {
+  rmSync(tempDir, { recursive: true, force: true });
+});
+
+function claudeCodeTranscript(sessionId = 'cc-session-1'): string {
+  const base = { sessionId, cwd: '/home/dev/project', isSidechain: false };
+  return [
+    { type: 'summary', summary: 'Fix failing tests', leafUuid: 'x' },
+    { ...base, type: 'user', isMeta: true, timestamp: '2025-06-01T10:00:00.000Z', message: { role: 'user', content: 'Caveat: ...' } },
+    { ...base, type: 'user', timestamp: '2025-06-01T10:00:01.000Z', message: { role: 'user', content: '<command-name>/clear</command-name>' } },
+    { ...base, type: 'user', timestamp: '2025-06-01T10:00:02.000Z', message: { role: 'user', content: 'Why do the tests fail?' } },
+    { ...base, type: 'assistant', timestamp: '2025-06-01T10:00:03.000Z', message: { id: 'msg_1', role: 'assistant', content: [{ type: 'text', text: 'Let me run them.' }] } },
+    { ...base, type: 'assistant', timestamp: '2025-06-01T10:00:03.000Z', message: { id: 'msg_1', role: 'assistant', content: [{ type: 'tool_use', id: 'toolu_1', name: 'Bash', input: { command: 'bun test', description: 'Run tests' } }] } },
+    { ...base, type: 'assistant', isSidechain: true, timestamp: '2025-06-01T10:00:04.000Z', message: { id: 'msg_sub', role: 'assistant', content: [{ type: 'text', text: 'Subagent chatter' }] } },
+    { ...base, type: 'user', timestamp: '2025-06-01T10:00:05.000Z', message: { role: 'user', content: [{ type: 'tool_result', tool_use_id: 'toolu_1', content: [{ type: 'text', text: '1 fail' }] }] } },
+    { ...base, type: 'assistant', timestamp: '2025-06-01T10:00:06.000Z', message: { id: 'msg_2', role: 'assistant', content: [{ type: 'text', text: 'One test fails.' }] } },
+  ].map(entry => JSON.stringify(entry)).join('\n') + '\n{"truncated":';
+}
+
+const chatGptConversation = {
+  conversation_id: 'gpt-1',
+  title: 'Plot data',
+  create_time: 1_700_000_000,
+  current_node: 'n5',
+  mapping: {
+    root: { id: 'root', parent: null, message: null },
+    n1: { id: 'n1', parent: 'root', message: { id: 'n1', author: { role: 'system' }, content: { content_type: 'text', parts: [''] }, metadata: { is_visually_hidden_from_conversation: true } } },
+    n2: { id: 'n2', parent: 'n1', message: { id: 'n2', author: { role: 'user' }, create_time: 1_700_000_001, content: { content_type: 'text', parts: ['Plot y = x^2'] } } },
+    old: { id: 'old', parent: 'n1', message: { id: 'old', author: { role: 'user' }, content: { content_type: 'text', parts: ['Abandoned branch'] } } },
+    n3: { id: 'n3', parent: 'n2', message: { id: 'n3', author: { role: 'assistant' }, recipient: 'python', create_time: 1_700_000_002, content: { content_type: 'code', text: 'plt.plot(x, x**2)' } } },
+    n4: { id: 'n4', parent: 'n3', message: { id: 'n4', author: { role: 'tool', name: 'python' }, recipient: 'all', create_time: 1_700_000_003, content: { content_type: 'execution_output', text: '<Figure>' } } },
+    n5: { id: 'n5', parent: 'n4', message: { id: 'n5', author: { role: 'assistant' }, recipient: 'all', create_time: 1_700_000_004, content: { content_type: 'text', parts: ['Here is the plot.'] } } },
+  },
+};
+
+const claudeAiConversation = {
+  uuid: 'claude-1',
+  name: 'Weather',
+  created_at: '2025-05-01T09:00:00Z',
+  chat_messages: [
+    { uuid: 'h1', sender: 'human', created_at: '2025-05-01T09:00:00Z', text: 'Weather in Paris?', content: [{ type: 'text', text: 'Weather in Paris?' }] },
+    {
+      uuid: 'a1',
+      sender: 'assistant',
+      created_at: '2025-05-01T09:00:05Z',
+      content: [
+        { type: 'text', text: 'Searching.' },
+        { type: 'tool_use', name: 'web_search', input: { query: 'Paris weather' } },
+        { type: 'tool_result', name: 'web_search', content: [{ type: 'text', text: 'Sunny, 21C' }], is_error: false },
+        { type: 'text', text: 'It is sunny.' },
+      ],
+    },
+  ],
+};
+
+describe('parseClaudeCodeTranscript', () => {
+  it('converts entries to messages and matches tool results', () => {
+    const conversation = parseClaudeCodeTranscript(claudeCodeTranscript(), 'file-name')!;
+
+    expect(conversation.format).toBe('claude-code');
+    expect(conversation.sourceId).toBe('cc-session-1');
+    expect(conversation.name).toBe('Fix failing tests');
+    expect(conversation.workingDirectory).toBe('/home/dev/project');
+    expect(conversation.createdAt).toBe(Date.parse('2025-06-01T10:00:00.000Z'));
+
+    const messages = conversation.messages;
+    expect(messages.map(m => m.type)).toEqual(['user', 'assistant', 'tool', 'assistant']);
+    expect(messages[0]!.content).toBe('Why do the tests fail?');
+    expect(messages[1]).toMatchObject({ content: 'Let me run them.', isIntermediate: true, turnId: 'msg_1' });
+    expect(messages[2]).toMatchObject({
+      toolName: 'Bash',
+      toolUseId: 'toolu_1',
+      toolIntent: 'Run tests',
+      toolResult: '1 fail',
+      toolStatus: 'completed',
+      isError: false,
+    });
+    expect(messages[3]!.isIntermediate).toBeUndefined();
+
+    const timestamps = messages.map(m => m.timestamp!);
+    expect([...timestamps].sort((a, b) => a - b)).toEqual(timestamps);
+    expect(new Set(timestamps).size).toBe(timestamps.length);
+  });
+
+  it('returns null for transcripts without messages', () => {
+    expect(parseClaudeCodeTranscript('{"type":"summary","summary":"x"}\n', 'empty')).toBeNull();
+  });
+});
+
+describe('parseChatGptConversation', () => {
+  it('follows the current branch and converts tool calls', () => {
+    const conversation = parseChatGptConversation(chatGptConversation)!;
+
+    expect(conversation.sourceId).toBe('gpt-1');
+    expect(conversation.name).toBe('Plot data');
+    expect(conversation.createdAt).toBe(1_700_000_000_000);
+    expect(conversation.messages.map(m => m.type)).toEqual(['user', 'tool', 'assistant']);
+    expect(conversation.messages[1]).toMatchObject({
+      toolName: 'python',
+      toolInput: { code: 'plt.plot(x, x**2)' },
+      toolResult: '<Figure>',
+      toolStatus: 'completed',
+    });
+    expect(conversation.messages[2]!.content).toBe('Here is the plot.');
+  });
+});
+
+describe('parseClaudeAiConversation', () => {
+  it('pairs tool results with calls that have no IDs', () => {
+    const conversation = parseClaudeAiConversation(claudeAiConversation)!;
+
+    expect(conversation.messages.map(m => m.type)).toEqual(['user', 'assistant', 'tool', 'assistant']);
+    expect(conversation.messages[1]!.isIntermediate).toBe(true);
+    expect(conversation.messages[2]).toMatchObject({
+      toolName: 'web_search',
+      toolInput: { query: 'Paris weather' },
+      toolResult: 'Sunny, 21C',
+    });
+    expect(conversation.messages[3]!.content).toBe('It is sunny.');
+    expect(conversation.messages[3]!.isIntermediate).toBeUndefined();
+  });
+});
+
+describe('readImportFile', () => {
+  it('reads a directory of Claude Code transcripts', async () => {
+    const project = join(tempDir, 'projects', '-home-dev-project');
+    mkdirSync(project, { recursive: true });
+    writeFileSync(join(project, 'a.jsonl'), claudeCodeTranscript('a'));
+    writeFileSync(join(project, 'b.jsonl'), claudeCodeTranscript('b'));
+    writeFileSync(join(project, 'notes.txt'), 'ignored');
+
+    const conversations = await readImportFile(join(tempDir, 'projects'));
+    expect(conversations.map(c => c.sourceId)).toEqual(['a', 'b']);
+  });
+
+  it('reads conversations.json from an export archive', async () => {
+    const zip = new JSZip();
+    zip.file('conversations.json', JSON.stringify([chatGptConversation]));
+    const zipPath = join(tempDir, 'export.zip');
+    writeFileSync(zipPath, await zip.generateAsync({ type: 'nodebuffer' }));
+
+    const conversations = await readImportFile(zipPath);
+    expect(conversations.map(c => c.format)).toEqual(['chatgpt']);
+  });
+
+  it('rejects missing files and unknown formats', async () => {
+    const jsonPath = join(tempDir, 'other.json');
+    writeFileSync(jsonPath, JSON.stringify([{ hello: 'world' }]));
+
+    await expect(readImportFile(join(tempDir, 'missing.jsonl'))).rejects.toThrow('File not found');
+    await expect(readImportFile(jsonPath)).rejects.toThrow('Unrecognized export format');
+  });
+});
+
+describe('importConversations', () => {
+  it('creates sessions and skips conversations imported before', async () => {
+    const workspaceRoot = join(tempDir, 'workspace');
+    const conversations = [parseClaudeAiConversation(claudeAiConversation)!];
+
+    const first = await importConversations(workspaceRoot, conversations);
+    expect(first.imported).toHaveLength(1);
+    expect(first.skipped).toHaveLength(0);
+
+    const session = loadSession(workspaceRoot, first.imported[0]!.id)!;
+    expect(session.name).toBe('Weather');
+    expect(session.importSource).toBe('claude-ai:claude-1');
+    expect(session.createdAt).toBe(Date.parse('2025-05-01T09:00:00Z'));
+    expect(session.sdkSessionId).toBeUndefined();
+    expect(session.messages).toHaveLength(4);
+    expect(session.lastReadMessageId).toBe(session.messages[3]!.id);
+
+    const second = await importConversations(workspaceRoot, conversations);
+    expect(second.imported).toHaveLength(0);
+    expect(second.skipped).toHaveLength(1);
+    expect(listSessions(workspaceRoot)).toHaveLength(1);
+  });
+});
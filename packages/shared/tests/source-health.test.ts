@@ -0,0 +1,152 @@
+/**
+ * Tests for source health checks.
+ *
+ * Verifies which sources are checked, how connectivity results map to
+ * connection statuses, and that results are recorded in config.json.
+ */
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { checkSourceHealth, isSourceHealthCheckable, recordSourceHealth } from '../src/sources/health.ts';
+import { loadSource, loadSourceConfig, saveSourceConfig } from '../src/sources/storage.ts';
+import type { FolderSourceConfig, LoadedSource } from '../src/sources/types.ts';
+
+const publicApi: FolderSourceConfig = {
+  id: 'weather_1',
+  name: 'Weather',
+  slug: 'weather',
+  enabled: true,
+  provider: 'weather',
+  type: 'api',
+  api: {
+    baseUrl: 'https://weather.example.com/v1/',
+    authType: 'none',
+    testEndpoint: { method: 'GET', path: 'status' },
+  },
+};
+
+describe('source health checks', () => {
+  const originalFetch = globalThis.fetch;
+  let workspaceRoot: string;
+  let requestedUrls: string[];
+  let responseStatus: number;
+
+  const load = (config: FolderSourceConfig): LoadedSource => {
+    saveSourceConfig(workspaceRoot, config);
+    return loadSource(workspaceRoot, config.slug)!;
+  };
+
+  beforeEach(() => {
+    workspaceRoot = mkdtempSync(join(tmpdir(), 'source-health-test-'));
+    requestedUrls = [];
+    responseStatus = 200;
+    globalThis.fetch = (async (input: string | URL | Request) => {
+      requestedUrls.push(String(input));
+      return new Response('{}', { status: responseStatus });
+    }) as typeof fetch;
+  });
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+    rmSync(workspaceRoot, { recursive: true, force: true });
+  });
+
+  it('checks enabled API and remote MCP sources only', () => {
+    expect(isSourceHealthCheckable(load(publicApi))).toBe(true);
+    expect(isSourceHealthCheckable(load({ ...publicApi, slug: 'off', enabled: false }))).toBe(false);
+    expect(isSourceHealthCheckable(load({
+      ...publicApi,
+      slug: 'local-mcp',
+      type: 'mcp',
+      api: undefined,
+      mcp: { transport: 'stdio', command: 'node' },
+    }))).toBe(false);
+    expect(isSourceHealthCheckable(load({
+      ...publicApi,
+      slug: 'notes',
+      type: 'local',
+      api: undefined,
+      local: { path: workspaceRoot },
+    }))).toBe(false);
+  });
+
+  it('calls the test endpoint of public APIs', async () => {
+    const result = await checkSourceHealth(load(publicApi));
+
+    expect(result).toEqual({ status: 'connected', refreshed: false });
+    expect(requestedUrls).toEqual(['https://weather.example.com/v1/status']);
+  });
+
+  it('reports probe errors as failed, including auth errors', async () => {
+    responseStatus = 401;
+    const rejected = await checkSourceHealth(load(publicApi));
+    expect(rejected.status).toBe('failed');
+    expect(rejected.error).toContain('HTTP 401');
+
+    responseStatus = 503;
+    const result = await checkSourceHealth(load(publicApi));
+    expect(result.status).toBe('failed');
+    expect(result.error).toContain('HTTP 503');
+  });
+
+  it('reports unauthenticated sources without calling them', async () => {
+    const source = load({
+      ...publicApi,
+      slug: 'crm',
+      isAuthenticated: false,
+      api: { ...publicApi.api!, authType: 'bearer' },
+    });
+
+    expect((await checkSourceHealth(source)).status).toBe('needs_auth');
+    expect(requestedUrls).toHaveLength(0);
+  });
+
+  it('records the result and returns the previous status', () => {
+    const source = load({ ...publicApi, connectionStatus: 'connected', isAuthenticated: true });
+
+    const previous = recordSourceHealth(source, { status: 'needs_auth', error: 'HTTP 401', refreshed: false });
+
+    expect(previous).toBe('connected');
+    const saved = loadSourceConfig(workspaceRoot, 'weather')!;
+    expect(saved.connectionStatus).toBe('needs_auth');
+    expect(saved.connectionError).toBe('HTTP 401');
+    expect(saved.isAuthenticated).toBe(false);
+    expect(saved.lastTestedAt).toBeGreaterThan(0);
+  });
+
+  it('leaves isAuthenticated alone for failed checks', () => {
+    const source = load({ ...publicApi, connectionStatus: 'connected', isAuthenticated: true });
+
+    recordSourceHealth(source, { status: 'failed', error: 'HTTP 403', refreshed: false });
+
+    const saved = loadSourceConfig(workspaceRoot, 'weather')!;
+    expect(saved.connectionStatus).toBe('failed');
+    expect(saved.isAuthenticated).toBe(true);
+  });
+
+  it('only writes config.json when the status or error changes', () => {
+    const testedAt = Date.now() - 60_000;
+    const source = load({ ...publicApi, connectionStatus: 'failed', connectionError: 'HTTP 503', lastTestedAt: testedAt });
+
+    expect(recordSourceHealth(source, { status: 'failed', error: 'HTTP 503', refreshed: false })).toBe('failed');
+    expect(loadSourceConfig(workspaceRoot, 'weather')!.lastTestedAt).toBe(testedAt);
+
+    recordSourceHealth(source, { status: 'connected', refreshed: false });
+    const saved = loadSourceConfig(workspaceRoot, 'weather')!;
+    expect(saved.connectionStatus).toBe('connected');
+    expect(saved.connectionError).toBeUndefined();
+    expect(saved.lastTestedAt).toBeGreaterThan(testedAt);
+  });
+
+  it('refreshes an hour-old lastTestedAt while the status stays the same', () => {
+    const testedAt = Date.now() - 2 * 60 * 60 * 1000;
+    const source = load({ ...publicApi, connectionStatus: 'connected', lastTestedAt: testedAt });
+
+    recordSourceHealth(source, { status: 'connected', refreshed: false });
+
+    const saved = loadSourceConfig(workspaceRoot, 'weather')!;
+    expect(saved.connectionStatus).toBe('connected');
+    expect(saved.lastTestedAt).toBeGreaterThan(testedAt);
+  });
+});
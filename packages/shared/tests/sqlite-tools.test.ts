@@ -0,0 +1,112 @@
+/**
+ * Tests for SQLite local source tools.
+ *
+ * Verifies source detection, read-only enforcement, row limits, value
+ * conversion, schema output, and that writes are only allowed outside
+ * Explore mode (and only for tools of a database source's own server).
+ */
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { DatabaseSync } from 'node:sqlite';
+import {
+  createSqliteServer,
+  describeSqliteSchema,
+  isSqliteLocalSource,
+  runReadOnlyQuery,
+  runWriteStatement,
+} from '../src/sources/sqlite-tools.ts';
+import { shouldAllowToolInMode } from '../src/agent/mode-manager.ts';
+
+let tempDir: string;
+let dbPath: string;
+
+beforeEach(() => {
+  tempDir = mkdtempSync(join(tmpdir(), 'sqlite-tools-test-'));
+  dbPath = join(tempDir, 'data.db');
+  const db = new DatabaseSync(dbPath);
+  db.exec(`
+    CREATE TABLE users (id INTEGER PRIMARY KEY, name TEXT NOT NULL, avatar BLOB);
+    CREATE INDEX idx_users_name ON users (name);
+    CREATE VIEW user_names AS SELECT name FROM users;
+  `);
+  const insert = db.prepare('INSERT INTO users (name, avatar) VALUES (?, ?)');
+  for (let i = 1; i <= 5; i++) {
+    insert.run(`user${i}`, i === 1 ? new Uint8Array([1, 2, 3]) : null);
+  }
+  db.close();
+});
+
+afterEach(() => {
+  rmSync(tempDir, { recursive: true, force: true });
+});
+
+describe('isSqliteLocalSource', () => {
+  it('uses the format hint, falling back to the file extension', () => {
+    expect(isSqliteLocalSource({ path: '/data/app', format: 'sqlite' })).toBe(true);
+    expect(isSqliteLocalSource({ path: '/data/app.db', format: 'filesystem' })).toBe(false);
+    expect(isSqliteLocalSource({ path: '/data/app.SQLITE3' })).toBe(true);
+    expect(isSqliteLocalSource({ path: '/data/notes' })).toBe(false);
+    expect(isSqliteLocalSource(undefined)).toBe(false);
+  });
+});
+
+describe('runReadOnlyQuery', () => {
+  it('returns columns and rows with bound parameters', () => {
+    const result = runReadOnlyQuery(dbPath, 'SELECT u.id, v.id, u.name, u.avatar FROM users u JOIN users v ON v.id = u.id WHERE u.id = ?', [1]);
+    expect(result).toEqual({
+      type: 'query_result',
+      columns: ['id', 'id', 'name', 'avatar'],
+      rows: [[1, 1, 'user1', '<blob 3 bytes>']],
+      rowCount: 1,
+      truncated: false,
+    });
+  });
+
+  it('stops at the row limit and reports truncation', () => {
+    const result = runReadOnlyQuery(dbPath, 'SELECT id FROM users ORDER BY id', [], 2);
+    expect(result.rows).toEqual([[1], [2]]);
+    expect(result.truncated).toBe(true);
+    expect(runReadOnlyQuery(dbPath, 'SELECT id FROM users', [], 5).truncated).toBe(false);
+  });
+
+  it('rejects writes', () => {
+    expect(() => runReadOnlyQuery(dbPath, "INSERT INTO users (name) VALUES ('x')")).toThrow();
+    expect(() => runReadOnlyQuery(dbPath, 'DROP TABLE users')).toThrow();
+    expect(runReadOnlyQuery(dbPath, 'SELECT count(*) AS n FROM users').rows).toEqual([[5]]);
+  });
+});
+
+describe('runWriteStatement', () => {
+  it('applies changes on a read-write connection', () => {
+    expect(runWriteStatement(dbPath, 'DELETE FROM users WHERE id > ?', [3])).toEqual({ changes: 2, lastInsertRowid: 0 });
+    expect(runReadOnlyQuery(dbPath, 'SELECT count(*) FROM users').rows).toEqual([[3]]);
+  });
+});
+
+describe('describeSqliteSchema', () => {
+  it('lists tables, views and indexes', () => {
+    const schema = describeSqliteSchema(dbPath);
+    expect(schema).toContain('table users\n  id INTEGER PRIMARY KEY\n  name TEXT NOT NULL\n  avatar BLOB');
+    expect(schema).toContain('view user_names\n  name TEXT');
+    expect(schema).toContain('index idx_users_name on users');
+    expect(describeSqliteSchema(dbPath, 'missing')).toBe('No table or view named "missing".');
+  });
+});
+
+describe('SQLite tool permissions', () => {
+  it('allows schema and queries in Explore mode but blocks writes', () => {
+    createSqliteServer({ name: 'analytics', path: dbPath });
+
+    expect(shouldAllowToolInMode('mcp__analytics__sqlite_schema', {}, 'safe').allowed).toBe(true);
+    expect(shouldAllowToolInMode('mcp__analytics__sqlite_query', { sql: 'SELECT 1' }, 'safe').allowed).toBe(true);
+    expect(shouldAllowToolInMode('mcp__analytics__sqlite_execute', { sql: 'DELETE FROM users' }, 'safe').allowed).toBe(false);
+    expect(shouldAllowToolInMode('mcp__analytics__sqlite_execute', { sql: 'DELETE FROM users' }, 'allow-all').allowed).toBe(true);
+  });
+
+  it('does not trust same-named tools of other MCP servers', () => {
+    expect(shouldAllowToolInMode('mcp__remote__sqlite_query', { sql: 'SELECT 1' }, 'safe').allowed).toBe(false);
+    expect(shouldAllowToolInMode('mcp__remote__sqlite_schema', {}, 'safe').allowed).toBe(false);
+  });
+});
@@ -0,0 +1,88 @@
+/**
+ * Tests for per-source tool selection.
+ *
+ * Verifies that toggling tools updates the source config, that built servers
+ * report disabled tools under their SDK names, and that in-process tools can
+ * be listed with a schema token estimate.
+ */
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { loadSource, loadSourceConfig, saveSourceConfig } from '../src/sources/storage.ts';
+import { SourceServerBuilder } from '../src/sources/server-builder.ts';
+import {
+  estimateToolSchemaTokens,
+  isSourceToolEnabled,
+  listInProcessTools,
+  setSourceToolEnabled,
+} from '../src/sources/tool-selection.ts';
+import type { FolderSourceConfig } from '../src/sources/types.ts';
+
+let workspaceRoot: string;
+
+const apiConfig: FolderSourceConfig = {
+  id: 'weather_1',
+  name: 'Weather',
+  slug: 'weather',
+  enabled: true,
+  provider: 'weather',
+  type: 'api',
+  api: { baseUrl: 'https://api.example.com/', authType: 'none' },
+};
+
+beforeEach(() => {
+  workspaceRoot = mkdtempSync(join(tmpdir(), 'tool-selection-test-'));
+  saveSourceConfig(workspaceRoot, apiConfig);
+});
+
+afterEach(() => {
+  rmSync(workspaceRoot, { recursive: true, force: true });
+});
+
+describe('setSourceToolEnabled', () => {
+  it('adds and removes tools from disabledTools', () => {
+    setSourceToolEnabled(workspaceRoot, 'weather', 'forecast', false);
+    setSourceToolEnabled(workspaceRoot, 'weather', 'alerts', false);
+    expect(loadSourceConfig(workspaceRoot, 'weather')?.disabledTools).toEqual(['alerts', 'forecast']);
+
+    setSourceToolEnabled(workspaceRoot, 'weather', 'alerts', true);
+    setSourceToolEnabled(workspaceRoot, 'weather', 'forecast', true);
+    const config = loadSourceConfig(workspaceRoot, 'weather')!;
+    expect(config.disabledTools).toBeUndefined();
+    expect(isSourceToolEnabled(config, 'forecast')).toBe(true);
+  });
+
+  it('returns null for unknown sources', () => {
+    expect(setSourceToolEnabled(workspaceRoot, 'missing', 'x', false)).toBeNull();
+  });
+});
+
+describe('SourceServerBuilder', () => {
+  it('reports disabled tools of built sources under their SDK names', async () => {
+    setSourceToolEnabled(workspaceRoot, 'weather', 'api_weather', false);
+    const source = loadSource(workspaceRoot, 'weather')!;
+    const { apiServers, disabledTools } = await new SourceServerBuilder().buildAll([{ source }]);
+    expect(Object.keys(apiServers)).toEqual(['weather']);
+    expect(disabledTools).toEqual(['mcp__weather__api_weather']);
+  });
+
+  it('skips disabled tools of sources that failed to build', async () => {
+    const source = loadSource(workspaceRoot, 'weather')!;
+    source.config.disabledTools = ['api_weather'];
+    source.config.api = { baseUrl: 'https://api.example.com/', authType: 'bearer' };
+    const { disabledTools } = await new SourceServerBuilder().buildAll([{ source }]);
+    expect(disabledTools).toEqual([]);
+  });
+});
+
+describe('listInProcessTools', () => {
+  it('lists tools with their schemas without credentials', async () => {
+    const source = loadSource(workspaceRoot, 'weather')!;
+    const server = new SourceServerBuilder().buildServerForToolListing(source)!;
+    const tools = await listInProcessTools(server);
+    expect(tools.map(t => t.name)).toEqual(['api_weather']);
+    expect(tools[0]!.inputSchema.properties).toHaveProperty('path');
+    expect(estimateToolSchemaTokens(tools[0]!)).toBeGreaterThan(50);
+  });
+});
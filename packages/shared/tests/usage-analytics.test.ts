@@ -0,0 +1,167 @@
+/**
+ * Tests for usage analytics.
+ *
+ * Verifies per-turn usage recording, flattening session headers into
+ * records, aggregation by dimension and CSV export.
+ */
+import { describe, it, expect } from 'bun:test';
+import {
+  aggregateUsage,
+  buildUsageRecords,
+  recordSessionUsage,
+  usageRecordsToCsv,
+} from '../src/analytics/index.ts';
+import type { SessionMetadata } from '../src/sessions/types.ts';
+
+function session(overrides: Partial<SessionMetadata>): SessionMetadata {
+  return {
+    id: 'session-1',
+    workspaceRootPath: '/tmp/workspace',
+    createdAt: new Date(2026, 9, 1).getTime(),
+    lastUsedAt: new Date(2026, 9, 1).getTime(),
+    messageCount: 2,
+    ...overrides,
+  } as SessionMetadata;
+}
+
+describe('recordSessionUsage', () => {
+  it('merges turns on the same day and model', () => {
+    const day = new Date(2026, 9, 18, 10);
+    let history = recordSessionUsage(undefined, { model: 'sonnet', inputTokens: 100, outputTokens: 10, costUsd: 0.5 }, day);
+    history = recordSessionUsage(history, { model: 'sonnet', inputTokens: 50, outputTokens: 5, costUsd: 0.25 }, day);
+    history = recordSessionUsage(history, { model: 'opus', inputTokens: 10, outputTokens: 1, costUsd: 1 }, day);
+    history = recordSessionUsage(history, { model: 'sonnet', inputTokens: 1, outputTokens: 1, costUsd: 0.1 }, new Date(2026, 9, 19));
+
+    expect(history).toEqual([
+      { date: '2026-10-18', model: 'sonnet', turns: 2, inputTokens: 150, outputTokens: 15, costUsd: 0.75 },
+      { date: '2026-10-18', model: 'opus', turns: 1, inputTokens: 10, outputTokens: 1, costUsd: 1 },
+      { date: '2026-10-19', model: 'sonnet', turns: 1, inputTokens: 1, outputTokens: 1, costUsd: 0.1 },
+    ]);
+  });
+
+  it('does not mutate the input history', () => {
+    const history = recordSessionUsage(undefined, { inputTokens: 1, outputTokens: 1, costUsd: 1 });
+    const next = recordSessionUsage(history, { inputTokens: 1, outputTokens: 1, costUsd: 1 });
+    expect(history[0]!.turns).toBe(1);
+    expect(next[0]!.turns).toBe(2);
+  });
+});
+
+describe('buildUsageRecords', () => {
+  it('creates one record per usage history entry with session dimensions', () => {
+    const records = buildUsageRecords([
+      session({
+        name: 'Research',
+        model: 'sonnet',
+        todoState: 'done',
+        labels: ['bug', 'priority::high', 'bug'],
+        enabledSourceSlugs: ['github'],
+        usageHistory: [
+          { date: '2026-10-17', turns: 1, inputTokens: 10, outputTokens: 2, costUsd: 0.1 },
+          { date: '2026-10-18', model: 'opus', turns: 2, inputTokens: 20, outputTokens: 4, costUsd: 0.4 },
+        ],
+        tokenUsage: { inputTokens: 30, outputTokens: 6, totalTokens: 36, contextTokens: 0, costUsd: 0.5 },
+      }),
+    ], { id: 'ws-1', name: 'Work' });
+
+    expect(records).toHaveLength(2);
+    expect(records[0]).toMatchObject({
+      date: '2026-10-17',
+      workspaceName: 'Work',
+      sessionName: 'Research',
+      model: 'sonnet',
+      status: 'done',
+      labels: ['bug', 'priority'],
+      sources: ['github'],
+    });
+    expect(records[1]!.model).toBe('opus');
+  });
+
+  it('attributes usage missing from history to the last activity date', () => {
+    const records = buildUsageRecords([
+      session({
+        lastMessageAt: new Date(2026, 9, 5, 12).getTime(),
+        tokenUsage: { inputTokens: 300, outputTokens: 30, totalTokens: 330, contextTokens: 0, costUsd: 2 },
+      }),
+    ]);
+
+    expect(records).toEqual([expect.objectContaining({
+      date: '2026-10-05',
+      model: '(none)',
+      status: '(none)',
+      turns: 0,
+      inputTokens: 300,
+      outputTokens: 30,
+      costUsd: 2,
+    })]);
+  });
+});
+
+describe('aggregateUsage', () => {
+  const records = buildUsageRecords([
+    session({
+      id: 'a',
+      labels: ['bug', 'docs'],
+      todoState: 'done',
+      usageHistory: [
+        { date: '2026-10-01', model: 'sonnet', turns: 1, inputTokens: 10, outputTokens: 1, costUsd: 1 },
+        { date: '2026-10-02', model: 'opus', turns: 1, inputTokens: 20, outputTokens: 2, costUsd: 3 },
+      ],
+    }),
+    session({
+      id: 'b',
+      todoState: 'todo',
+      usageHistory: [
+        { date: '2026-10-02', model: 'sonnet', turns: 2, inputTokens: 30, outputTokens: 3, costUsd: 2 },
+      ],
+    }),
+  ]);
+
+  it('totals usage and breaks it down by dimension', () => {
+    const report = aggregateUsage(records);
+
+    expect(report.totals).toEqual({ costUsd: 6, inputTokens: 60, outputTokens: 6, turns: 4, sessionCount: 2 });
+    expect(report.byDay.map(b => [b.key, b.costUsd])).toEqual([['2026-10-01', 1], ['2026-10-02', 5]]);
+    expect(report.byModel.map(b => [b.key, b.costUsd, b.sessionCount])).toEqual([['opus', 3, 1], ['sonnet', 3, 2]]);
+    expect(report.byStatus.map(b => b.key)).toEqual(['done', 'todo']);
+    // Multi-label sessions count towards each label
+    expect(report.byLabel.map(b => [b.key, b.costUsd])).toEqual([['bug', 4], ['docs', 4], ['(none)', 2]]);
+  });
+
+  it('filters by inclusive date range', () => {
+    const report = aggregateUsage(records, { from: '2026-10-02', to: '2026-10-02' });
+    expect(report.totals.costUsd).toBe(5);
+    expect(report.byDay.map(b => b.key)).toEqual(['2026-10-02']);
+  });
+});
+
+describe('usageRecordsToCsv', () => {
+  it('writes a header and escapes fields', () => {
+    const csv = usageRecordsToCsv(buildUsageRecords([
+      session({
+        name: 'Fix "login", again',
+        labels: ['bug', 'auth'],
+        usageHistory: [{ date: '2026-10-01', model: 'sonnet', turns: 1, inputTokens: 10, outputTokens: 1, costUsd: 0.5 }],
+      }),
+    ], { id: 'ws', name: 'Work' }));
+
+    expect(csv).toBe(
+      'date,workspace,session_id,session_name,model,status,labels,sources,turns,input_tokens,output_tokens,cost_usd\n' +
+      '2026-10-01,Work,session-1,"Fix ""login"", again",sonnet,(none),bug;auth,,1,10,1,0.500000\n'
+    );
+  });
+
+  it('neutralizes fields that spreadsheets would run as formulas', () => {
+    const csv = usageRecordsToCsv(buildUsageRecords([
+      session({
+        name: '=HYPERLINK("https://evil.example","click")',
+        labels: ['@sum(A1)', 'ok'],
+        usageHistory: [{ date: '2026-10-01', model: '+cmd', turns: 1, inputTokens: 10, outputTokens: 1, costUsd: 0.5 }],
+      }),
+    ], { id: 'ws', name: '-Work' }));
+
+    expect(csv.split('\n')[1]).toBe(
+      `2026-10-01,'-Work,session-1,"'=HYPERLINK(""https://evil.example"",""click"")",'+cmd,(none),'@sum(A1);ok,,1,10,1,0.500000`
+    );
+  });
+});
@@ -0,0 +1,206 @@
+/**
+ * Tests for the Obsidian vault index and tools.
+ *
+ * Verifies frontmatter, tag and link parsing, link resolution, search,
+ * backlinks and tag queries, incremental updates (direct and via the file
+ * watcher), closing shared indexes, note creation, and that note creation
+ * is checked like Write (only for tools registered by a vault source).
+ */
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import { existsSync, mkdirSync, mkdtempSync, readFileSync, rmSync, unlinkSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { VaultIndex, closeVaultIndexes, closeVaultIndexesExcept, getVaultIndex, parseNote } from '../src/sources/vault-index.ts';
+import { createObsidianServer, createVaultNote, isObsidianLocalSource } from '../src/sources/obsidian-tools.ts';
+import { shouldAllowToolInMode } from '../src/agent/mode-manager.ts';
+import { permissionsConfigCache } from '../src/agent/permissions-config.ts';
+
+let vaultPath: string;
+let index: VaultIndex;
+
+function writeNote(path: string, content: string): void {
+  mkdirSync(join(vaultPath, path, '..'), { recursive: true });
+  writeFileSync(join(vaultPath, path), content);
+}
+
+beforeEach(() => {
+  vaultPath = mkdtempSync(join(tmpdir(), 'vault-index-test-'));
+  writeNote('.obsidian/app.json', '{}');
+  writeNote('Projects/Alpha.md', '---\ntags: [project/alpha]\naliases: [A]\n---\nThe alpha launch plan. See [[Meeting Notes#Agenda|notes]].\n');
+  writeNote('Meeting Notes.md', 'Discussed [[Alpha]] and ![[diagram.png]]. #meeting\n\n```\n#not-a-tag [[Not A Link]]\n```\n');
+  writeNote('Daily/2024-01-01.md', 'Worked on [alpha](../Projects/Alpha.md) #project #123\n');
+  writeNote('.trash/Old.md', 'alpha');
+  index = new VaultIndex(vaultPath);
+  index.build();
+});
+
+afterEach(() => {
+  index.close();
+  permissionsConfigCache.clear();
+  rmSync(vaultPath, { recursive: true, force: true });
+});
+
+describe('isObsidianLocalSource', () => {
+  it('uses the format hint, falling back to an .obsidian folder', () => {
+    expect(isObsidianLocalSource({ path: '/notes', format: 'obsidian' })).toBe(true);
+    expect(isObsidianLocalSource({ path: vaultPath, format: 'filesystem' })).toBe(false);
+    expect(isObsidianLocalSource({ path: vaultPath })).toBe(true);
+    expect(isObsidianLocalSource({ path: tmpdir() })).toBe(false);
+  });
+});
+
+describe('parseNote', () => {
+  it('reads frontmatter, tags and links but ignores code', () => {
+    const note = parseNote('Notes/Plan.md', '---\ntitle: The Plan\ntags: "#Work, todo"\n---\n# Heading\nSee [[Other|alias]] and [x](https://example.com/a.md) #Work/Q1 #42\n`#inline`\n');
+    expect(note.title).toBe('The Plan');
+    expect(note.tags).toEqual(['todo', 'work', 'work/q1']);
+    expect(note.links).toEqual(['Other']);
+    expect(note.frontmatter.title).toBe('The Plan');
+  });
+
+  it('tolerates invalid frontmatter', () => {
+    const note = parseNote('Broken.md', '---\ntags: [unclosed\n---\nbody');
+    expect(note.title).toBe('Broken');
+  });
+});
+
+describe('VaultIndex', () => {
+  it('skips hidden folders', () => {
+    expect(index.size).toBe(3);
+    expect(index.getNote('.trash/Old.md')).toBeUndefined();
+  });
+
+  it('resolves links by name, alias and relative path', () => {
+    expect(index.resolveLink('alpha')).toBe('Projects/Alpha.md');
+    expect(index.resolveLink('A')).toBe('Projects/Alpha.md');
+    expect(index.resolveLink('Projects/Alpha')).toBe('Projects/Alpha.md');
+    expect(index.resolveLink('../Projects/Alpha.md', 'Daily/2024-01-01.md')).toBe('Projects/Alpha.md');
+    expect(index.resolveLink('Missing')).toBeNull();
+  });
+
+  it('finds backlinks from wiki-links and markdown links', () => {
+    expect(index.getBacklinks('Projects/Alpha.md').map(b => b.path)).toEqual(['Daily/2024-01-01.md', 'Meeting Notes.md']);
+    expect(index.getBacklinks('Meeting Notes.md')).toEqual([
+      { path: 'Projects/Alpha.md', title: 'Alpha', context: 'The alpha launch plan. See [[Meeting Notes#Agenda|notes]].' },
+    ]);
+  });
+
+  it('queries tags, including nested tags', () => {
+    expect(index.getTags()).toEqual([
+      { tag: 'meeting', count: 1 },
+      { tag: 'project', count: 1 },
+      { tag: 'project/alpha', count: 1 },
+    ]);
+    expect(index.findByTag('#project').map(n => n.path)).toEqual(['Daily/2024-01-01.md', 'Projects/Alpha.md']);
+  });
+
+  it('searches text with title boost and filters', () => {
+    const results = index.search('alpha');
+    expect(results.map(r => r.path)).toEqual(['Projects/Alpha.md', 'Daily/2024-01-01.md', 'Meeting Notes.md']);
+    expect(results[0]!.snippet).toContain('alpha launch plan');
+    expect(index.search('"launch plan"').length).toBe(1);
+    expect(index.search('alpha missing').length).toBe(0);
+    expect(index.search('alpha', { folder: 'Daily' }).map(r => r.path)).toEqual(['Daily/2024-01-01.md']);
+    expect(index.search('alpha', { tag: 'meeting' }).map(r => r.path)).toEqual(['Meeting Notes.md']);
+  });
+
+  it('updates changed, added and removed notes incrementally', () => {
+    writeNote('Projects/Beta.md', 'Links to [[Alpha]]');
+    index.update('Projects/Beta.md');
+    expect(index.getBacklinks('Projects/Alpha.md').map(b => b.path)).toContain('Projects/Beta.md');
+
+    unlinkSync(join(vaultPath, 'Meeting Notes.md'));
+    index.update('Meeting Notes.md');
+    expect(index.resolveLink('Meeting Notes')).toBeNull();
+
+    rmSync(join(vaultPath, 'Projects'), { recursive: true });
+    index.update('Projects');
+    expect(index.size).toBe(1);
+  });
+
+  it('picks up changes through the file watcher', async () => {
+    index.watch();
+    writeNote('Watched.md', 'a watched note #watched');
+    for (let i = 0; i < 40 && !index.getNote('Watched.md'); i++) {
+      await new Promise(resolve => setTimeout(resolve, 50));
+    }
+    expect(index.findByTag('watched').map(n => n.path)).toEqual(['Watched.md']);
+  });
+});
+
+describe('createVaultNote', () => {
+  it('creates a note with frontmatter and indexes it', () => {
+    const path = createVaultNote(index, join(vaultPath, 'Inbox', 'Idea'), 'Relates to [[Alpha]]', { tags: ['idea'] });
+    expect(path).toBe('Inbox/Idea.md');
+    expect(readFileSync(join(vaultPath, path), 'utf-8')).toBe('---\ntags:\n  - idea\n---\nRelates to [[Alpha]]\n');
+    expect(index.findByTag('idea').map(n => n.path)).toEqual(['Inbox/Idea.md']);
+  });
+
+  it('refuses existing notes and paths outside the vault', () => {
+    expect(() => createVaultNote(index, join(vaultPath, 'Meeting Notes.md'), 'x')).toThrow('already exists');
+    expect(() => createVaultNote(index, join(vaultPath, '..', 'escape.md'), 'x')).toThrow('outside the vault');
+    expect(() => createVaultNote(index, 'relative.md', 'x')).toThrow('must be absolute');
+    expect(existsSync(join(vaultPath, '..', 'escape.md'))).toBe(false);
+  });
+});
+
+describe('shared vault indexes', () => {
+  afterEach(() => {
+    closeVaultIndexes();
+  });
+
+  it('reuses an open index and rebuilds it after it is closed', () => {
+    const shared = getVaultIndex(vaultPath);
+    expect(getVaultIndex(vaultPath)).toBe(shared);
+
+    closeVaultIndexesExcept([vaultPath]);
+    expect(getVaultIndex(vaultPath)).toBe(shared);
+
+    closeVaultIndexesExcept([]);
+    const rebuilt = getVaultIndex(vaultPath);
+    expect(rebuilt).not.toBe(shared);
+    expect(rebuilt.size).toBe(shared.size);
+  });
+});
+
+describe('vault tool permissions', () => {
+  it('allows reads in Explore mode and checks note creation like Write', () => {
+    createObsidianServer({ name: 'notes', path: vaultPath });
+
+    expect(shouldAllowToolInMode('mcp__notes__vault_search', { query: 'x' }, 'safe').allowed).toBe(true);
+    expect(shouldAllowToolInMode('mcp__notes__vault_backlinks', { note: 'x' }, 'safe').allowed).toBe(true);
+    expect(shouldAllowToolInMode('mcp__notes__vault_tags', {}, 'safe').allowed).toBe(true);
+
+    const input = { file_path: join(vaultPath, 'Inbox', 'New.md'), content: 'x' };
+    expect(shouldAllowToolInMode('mcp__notes__vault_create_note', input, 'safe').allowed).toBe(false);
+    expect(shouldAllowToolInMode('mcp__notes__vault_create_note', input, 'allow-all').allowed).toBe(true);
+
+    const workspaceRoot = mkdtempSync(join(tmpdir(), 'vault-permissions-test-'));
+    try {
+      writeFileSync(join(workspaceRoot, 'permissions.json'), JSON.stringify({
+        allowedWritePaths: [`${vaultPath}/Inbox/**`],
+        deniedWritePaths: [`${vaultPath}/Private/**`],
+      }));
+      const options = { permissionsContext: { workspaceRootPath: workspaceRoot } };
+      expect(shouldAllowToolInMode('mcp__notes__vault_create_note', input, 'safe', options).allowed).toBe(true);
+      const denied = { file_path: join(vaultPath, 'Private', 'New.md'), content: 'x' };
+      expect(shouldAllowToolInMode('mcp__notes__vault_create_note', denied, 'allow-all', options).allowed).toBe(false);
+    } finally {
+      rmSync(workspaceRoot, { recursive: true, force: true });
+    }
+  });
+
+  it('does not trust same-named tools of other MCP servers', () => {
+    expect(shouldAllowToolInMode('mcp__remote__vault_search', { query: 'x' }, 'safe').allowed).toBe(false);
+
+    const workspaceRoot = mkdtempSync(join(tmpdir(), 'vault-permissions-test-'));
+    try {
+      writeFileSync(join(workspaceRoot, 'permissions.json'), JSON.stringify({ allowedWritePaths: [`${vaultPath}/**`] }));
+      const options = { permissionsContext: { workspaceRootPath: workspaceRoot } };
+      const input = { file_path: join(vaultPath, 'New.md'), content: 'x' };
+      expect(shouldAllowToolInMode('mcp__remote__vault_create_note', input, 'safe', options).allowed).toBe(false);
+    } finally {
+      rmSync(workspaceRoot, { recursive: true, force: true });
+    }
+  });
+});
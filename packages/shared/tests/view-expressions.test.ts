@@ -0,0 +1,124 @@
+/**
+ * Tests for view expressions.
+ *
+ * Verifies the typed context fields and helper functions available to views,
+ * that runtime errors never count as matches, and the expression preview.
+ */
+import { describe, it, expect } from 'bun:test';
+import {
+  buildViewContext,
+  compileAllViews,
+  evaluateViews,
+  previewViewExpression,
+  validateViewExpression,
+} from '../src/views/index.ts';
+import type { ViewConfig } from '../src/views/index.ts';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function matchesExpression(expression: string, meta: Parameters<typeof buildViewContext>[0]): boolean {
+  const view: ViewConfig = { id: 'test', name: 'Test', expression };
+  return evaluateViews(buildViewContext(meta), compileAllViews([view])).length === 1;
+}
+
+describe('view context fields', () => {
+  it('exposes status category, working directory, sources and sharing', () => {
+    const meta = {
+      todoState: 'in-progress',
+      statusCategory: 'open',
+      workingDirectory: '/Users/me/repos/web',
+      enabledSourceSlugs: ['github', 'linear'],
+      sharedUrl: 'https://share.example.com/abc',
+    };
+
+    expect(matchesExpression('statusCategory == "open"', meta)).toBe(true);
+    expect(matchesExpression('contains(enabledSources, "linear")', meta)).toBe(true);
+    expect(matchesExpression('hasSharedUrl', meta)).toBe(true);
+    expect(matchesExpression('hasSharedUrl', {})).toBe(false);
+    expect(matchesExpression('workingDirectory == ""', {})).toBe(true);
+  });
+});
+
+describe('view functions', () => {
+  it('reads typed label values', () => {
+    const labels = ['bug', 'priority::3', 'owner::sam'];
+
+    expect(matchesExpression('labelValue("priority") >= 3', { labels })).toBe(true);
+    expect(matchesExpression('labelValue("priority") > 3', { labels })).toBe(false);
+    expect(matchesExpression('labelText("owner") == "sam"', { labels })).toBe(true);
+    expect(matchesExpression('labelText("priority") == "3"', { labels })).toBe(true);
+  });
+
+  it('does not match when a label value is missing', () => {
+    expect(matchesExpression('labelValue("priority") >= 3', { labels: ['bug'] })).toBe(false);
+    expect(matchesExpression('labelValue("owner") >= 3', { labels: ['owner::sam'] })).toBe(false);
+    expect(matchesExpression('labelText("owner") == "sam"', { labels: ['bug'] })).toBe(false);
+  });
+
+  it('keeps evaluating "or" when a label value is missing', () => {
+    const meta = { labels: ['bug'], lastMessageAt: Date.now() };
+
+    expect(matchesExpression('labelValue("priority") >= 3 or isToday(lastUsedAt)', meta)).toBe(true);
+    expect(matchesExpression('labelValue("owner") >= 3 or isToday(lastUsedAt)', { ...meta, labels: ['owner::sam'] })).toBe(true);
+    expect(matchesExpression('daysUntil(labelValue("due")) < 2 or isToday(lastUsedAt)', meta)).toBe(true);
+    expect(matchesExpression('createdAt >= date("not a date") or isToday(lastUsedAt)', meta)).toBe(true);
+  });
+
+  it('converts date label values to timestamps', () => {
+    const tomorrow = new Date(Date.now() + DAY_MS).toISOString().split('T')[0];
+    expect(matchesExpression('daysUntil(labelValue("due")) < 2', { labels: [`due::${tomorrow}`] })).toBe(true);
+  });
+
+  it('matches regular expressions with flags and ignores invalid patterns', () => {
+    expect(matchesExpression('matches(name, "^(fix|bug)", "i")', { name: 'Fix login' })).toBe(true);
+    expect(matchesExpression('matches(name, "^feat")', { name: 'Fix login' })).toBe(false);
+    expect(matchesExpression('matches(name, "(")', { name: 'Fix login' })).toBe(false);
+  });
+
+  it('checks date windows', () => {
+    const now = Date.now();
+    expect(matchesExpression('withinDays(createdAt, 3)', { createdAt: now - 2 * DAY_MS })).toBe(true);
+    expect(matchesExpression('withinDays(createdAt, 3)', { createdAt: now - 4 * DAY_MS })).toBe(false);
+    expect(matchesExpression('withinHours(lastUsedAt, 1)', { lastMessageAt: now - 10 * 60 * 1000 })).toBe(true);
+    expect(matchesExpression('isToday(lastUsedAt)', { lastMessageAt: now })).toBe(true);
+    expect(matchesExpression('isThisWeek(lastUsedAt)', { lastMessageAt: now })).toBe(true);
+    expect(matchesExpression('createdAt >= date("2020-01-01")', { createdAt: now })).toBe(true);
+  });
+
+  it('validates expressions using the new functions', () => {
+    expect(validateViewExpression('labelValue("priority") >= 3 and withinDays(lastUsedAt, 7)').valid).toBe(true);
+  });
+});
+
+describe('previewViewExpression', () => {
+  const sessions = [
+    { id: 'a', labels: ['priority::5'] },
+    { id: 'b', labels: ['priority::1'] },
+    { id: 'c', labels: [] },
+  ];
+
+  it('returns the matching sessions', () => {
+    const preview = previewViewExpression('labelValue("priority") >= 3', sessions, s => buildViewContext(s));
+
+    expect(preview.error).toBeUndefined();
+    expect(preview.matches.map(s => s.id)).toEqual(['a']);
+    expect(preview.runtimeErrorCount).toBe(0);
+  });
+
+  it('counts runtime errors', () => {
+    // Comparing text with a number is a Filtrex type error, returned rather than thrown
+    const preview = previewViewExpression('labelText("priority") >= 3', sessions, s => buildViewContext(s));
+
+    expect(preview.error).toBeUndefined();
+    expect(preview.matches).toHaveLength(0);
+    expect(preview.runtimeErrorCount).toBe(3);
+    expect(preview.runtimeError).toBeDefined();
+  });
+
+  it('reports invalid expressions', () => {
+    const preview = previewViewExpression('labelValue(', sessions, s => buildViewContext(s));
+
+    expect(preview.error).toContain('Invalid expression');
+    expect(preview.matches).toHaveLength(0);
+  });
+});
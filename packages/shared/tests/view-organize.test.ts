@@ -0,0 +1,103 @@
+/**
+ * Tests for view sorting and grouping.
+ *
+ * Verifies the sort keys (activity, cost, label value), that sessions without
+ * a value sort last, and the status/label/day groupings used by the session list.
+ */
+import { describe, it, expect } from 'bun:test';
+import { buildViewContext, groupViewSessions, sortViewSessions } from '../src/views/index.ts';
+
+type Meta = Parameters<typeof buildViewContext>[0] & { id: string };
+
+const ids = (items: Meta[]) => items.map(item => item.id);
+
+describe('sortViewSessions', () => {
+  const sessions: Meta[] = [
+    { id: 'a', lastMessageAt: 100, tokenUsage: { costUsd: 0.5 }, labels: ['priority::2'] },
+    { id: 'b', lastMessageAt: 300, tokenUsage: { costUsd: 4 }, labels: [] },
+    { id: 'c', lastMessageAt: 200, tokenUsage: { costUsd: 1.25 }, labels: ['priority::5'] },
+  ];
+
+  it('defaults to most recent activity first', () => {
+    expect(ids(sortViewSessions(sessions, undefined, buildViewContext))).toEqual(['b', 'c', 'a']);
+  });
+
+  it('sorts by cost in either direction', () => {
+    expect(ids(sortViewSessions(sessions, { key: 'cost' }, buildViewContext))).toEqual(['b', 'c', 'a']);
+    expect(ids(sortViewSessions(sessions, { key: 'cost', direction: 'asc' }, buildViewContext))).toEqual(['a', 'c', 'b']);
+  });
+
+  it('sorts by label value with missing values last', () => {
+    const byPriority = { key: 'labelValue' as const, labelId: 'priority' };
+    expect(ids(sortViewSessions(sessions, byPriority, buildViewContext))).toEqual(['c', 'a', 'b']);
+    expect(ids(sortViewSessions(sessions, { ...byPriority, direction: 'asc' }, buildViewContext))).toEqual(['a', 'c', 'b']);
+  });
+});
+
+describe('groupViewSessions', () => {
+  it('groups by status in the configured status order', () => {
+    const sessions: Meta[] = [
+      { id: 'a', todoState: 'done' },
+      { id: 'b' },
+      { id: 'c', todoState: 'custom' },
+      { id: 'd', todoState: 'in-progress' },
+    ];
+
+    const groups = groupViewSessions(sessions, { key: 'status' }, buildViewContext, {
+      statusOrder: ['todo', 'in-progress', 'done'],
+    });
+
+    expect(groups.map(g => g.key)).toEqual(['todo', 'in-progress', 'done', 'custom']);
+  });
+
+  it('groups by first label, with unlabeled sessions last', () => {
+    const sessions: Meta[] = [
+      { id: 'a', labels: [] },
+      { id: 'b', labels: ['bug', 'ui'] },
+      { id: 'c', labels: ['priority::3'] },
+      { id: 'd', labels: ['bug'] },
+    ];
+
+    const groups = groupViewSessions(sessions, { key: 'label' }, buildViewContext);
+
+    expect(groups.map(g => [g.key, ids(g.items)])).toEqual([
+      ['bug', ['b', 'd']],
+      ['priority', ['c']],
+      ['', ['a']],
+    ]);
+  });
+
+  it('groups by label value, highest first', () => {
+    const sessions: Meta[] = [
+      { id: 'a', labels: ['priority::1'] },
+      { id: 'b', labels: ['priority::5'] },
+      { id: 'c', labels: ['bug'] },
+      { id: 'd', labels: ['priority::1'] },
+    ];
+
+    const groups = groupViewSessions(sessions, { key: 'label', labelId: 'priority' }, buildViewContext);
+
+    expect(groups.map(g => [g.key, ids(g.items)])).toEqual([
+      ['5', ['b']],
+      ['1', ['a', 'd']],
+      ['', ['c']],
+    ]);
+  });
+
+  it('groups by day of last activity, newest first', () => {
+    const today = new Date();
+    today.setHours(12, 0, 0, 0);
+    const yesterday = today.getTime() - 24 * 60 * 60 * 1000;
+    const sessions: Meta[] = [
+      { id: 'a', lastMessageAt: yesterday },
+      { id: 'b', lastMessageAt: today.getTime() },
+      { id: 'c' },
+      { id: 'd', lastMessageAt: yesterday + 60_000 },
+    ];
+
+    const groups = groupViewSessions(sessions, { key: 'day' }, buildViewContext);
+
+    expect(groups.map(g => ids(g.items))).toEqual([['b'], ['a', 'd'], ['c']]);
+    expect(groups[0]!.key).toMatch(/^\d{4}-\d{2}-\d{2}$/);
+  });
+});
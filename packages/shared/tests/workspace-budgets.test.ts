@@ -0,0 +1,133 @@
+/**
+ * Tests for workspace cost budgets.
+ *
+ * Verifies the daily spend ledger, how budgets are evaluated against
+ * session, daily and monthly spend, and the running cost estimate that stops
+ * a turn once it crosses a hard limit.
+ */
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import { mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  TurnCostEstimate,
+  addPendingSpend,
+  evaluateBudget,
+  formatBudgetStatus,
+  getWorkspaceSpend,
+  recordWorkspaceSpend,
+} from '../src/workspaces/budgets.ts';
+
+let workspaceRoot: string;
+
+beforeEach(() => {
+  workspaceRoot = mkdtempSync(join(tmpdir(), 'workspace-budgets-test-'));
+});
+
+afterEach(() => {
+  rmSync(workspaceRoot, { recursive: true, force: true });
+});
+
+describe('workspace spend ledger', () => {
+  it('returns zero spend when nothing was recorded', () => {
+    expect(getWorkspaceSpend(workspaceRoot)).toEqual({ dailyUsd: 0, monthlyUsd: 0 });
+  });
+
+  it('sums spend per day and per month', () => {
+    recordWorkspaceSpend(workspaceRoot, 1.5, new Date(2026, 9, 1, 10));
+    recordWorkspaceSpend(workspaceRoot, 0.25, new Date(2026, 9, 18, 9));
+    recordWorkspaceSpend(workspaceRoot, 0.5, new Date(2026, 9, 18, 17));
+    recordWorkspaceSpend(workspaceRoot, 4, new Date(2026, 8, 30, 12));
+
+    const spend = getWorkspaceSpend(workspaceRoot, new Date(2026, 9, 18, 20));
+    expect(spend.dailyUsd).toBeCloseTo(0.75);
+    expect(spend.monthlyUsd).toBeCloseTo(2.25);
+  });
+
+  it('ignores zero and negative costs', () => {
+    recordWorkspaceSpend(workspaceRoot, 0);
+    recordWorkspaceSpend(workspaceRoot, -1);
+    expect(getWorkspaceSpend(workspaceRoot)).toEqual({ dailyUsd: 0, monthlyUsd: 0 });
+  });
+
+  it('prunes days outside the retention window', () => {
+    recordWorkspaceSpend(workspaceRoot, 1, new Date(2024, 0, 1));
+    recordWorkspaceSpend(workspaceRoot, 1, new Date(2026, 9, 18));
+
+    const ledger = JSON.parse(readFileSync(join(workspaceRoot, 'spend.json'), 'utf-8'));
+    expect(Object.keys(ledger.days)).toEqual(['2026-10-18']);
+  });
+});
+
+describe('evaluateBudget', () => {
+  const spend = { sessionUsd: 2, dailyUsd: 6, monthlyUsd: 40 };
+
+  it('is ok without budgets', () => {
+    expect(evaluateBudget(undefined, spend)).toEqual({ level: 'ok' });
+    expect(evaluateBudget({}, spend)).toEqual({ level: 'ok' });
+  });
+
+  it('reports a soft limit once spend reaches it', () => {
+    const status = evaluateBudget({ daily: { softUsd: 5, hardUsd: 10 } }, spend);
+    expect(status).toEqual({ level: 'soft', scope: 'daily', spentUsd: 6, limitUsd: 5 });
+  });
+
+  it('prefers hard limits over soft limits in other scopes', () => {
+    const status = evaluateBudget({
+      session: { softUsd: 1 },
+      monthly: { hardUsd: 40 },
+    }, spend);
+    expect(status).toEqual({ level: 'hard', scope: 'monthly', spentUsd: 40, limitUsd: 40 });
+  });
+
+  it('is ok while spend is below all limits', () => {
+    const status = evaluateBudget({ session: { softUsd: 3, hardUsd: 5 }, daily: { hardUsd: 20 } }, spend);
+    expect(status.level).toBe('ok');
+  });
+});
+
+describe('TurnCostEstimate', () => {
+  const usage = { input_tokens: 1_000, output_tokens: 2_000, cache_read_input_tokens: 100_000, cache_creation_input_tokens: 0 };
+
+  it('prices each response once, at list prices with discounted cache reads', () => {
+    const estimate = new TurnCostEstimate();
+
+    expect(estimate.add('msg_1', 'claude-sonnet-4-5-20250929', usage)).toBe(true);
+    // 1k input + 100k cache reads at 10% = 11k input units at $3/MTok, 2k output at $15/MTok
+    expect(estimate.costUsd).toBeCloseTo(0.033 + 0.03);
+
+    // The SDK repeats usage on every content block of a response
+    expect(estimate.add('msg_1', 'claude-sonnet-4-5-20250929', usage)).toBe(false);
+    expect(estimate.add('msg_2', 'claude-sonnet-4-5-20250929', usage)).toBe(true);
+    expect(estimate.costUsd).toBeCloseTo(0.126);
+    expect(estimate.outputTokens).toBe(4_000);
+  });
+
+  it('skips models without known pricing', () => {
+    const estimate = new TurnCostEstimate();
+    expect(estimate.add('msg_1', 'openai/gpt-5', usage)).toBe(false);
+    expect(estimate.costUsd).toBe(0);
+  });
+
+  it('reaches a hard limit mid-turn once the pending cost is added', () => {
+    const spend = { sessionUsd: 4.95, dailyUsd: 4.95, monthlyUsd: 4.95 };
+    const budgets = { session: { hardUsd: 5 } };
+    const estimate = new TurnCostEstimate();
+    estimate.add('msg_1', 'claude-opus-4-5-20251101', { input_tokens: 2_000, output_tokens: 1_000 });
+
+    expect(evaluateBudget(budgets, addPendingSpend(spend, estimate.costUsd)).level).toBe('ok');
+
+    estimate.add('msg_2', 'claude-opus-4-5-20251101', { input_tokens: 10_000, output_tokens: 2_000 });
+    const status = evaluateBudget(budgets, addPendingSpend(spend, estimate.costUsd));
+    expect(status).toMatchObject({ level: 'hard', scope: 'session' });
+  });
+});
+
+describe('formatBudgetStatus', () => {
+  it('describes hard and soft limits', () => {
+    expect(formatBudgetStatus({ level: 'hard', scope: 'session', spentUsd: 5.123, limitUsd: 5 }))
+      .toBe('Session budget reached: $5.12 spent of $5.00 limit. Raise the budget in workspace settings to continue.');
+    expect(formatBudgetStatus({ level: 'soft', scope: 'monthly', spentUsd: 41, limitUsd: 40 }))
+      .toBe('Monthly workspace budget warning: $41.00 spent, over the $40.00 soft limit.');
+  });
+});
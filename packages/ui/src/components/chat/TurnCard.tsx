@@ -20,6 +20,7 @@ import {
   ListTodo,
   Pencil,
   FilePenLine,
+  GitBranch,
 } from 'lucide-react'
 import * as ReactDOM from 'react-dom'
 import { cn } from '../../lib/utils'
@@ -231,6 +232,8 @@ export interface TurnCardProps {
   onOpenMultiFileDiff?: () => void
   /** Whether this turn has any Edit or Write activities */
   hasEditOrWriteActivities?: boolean
+  /** Callback to fork the session from this turn into a new session */
+  onFork?: () => void
   /** TodoWrite tool state - shown at bottom of turn */
   todos?: TodoItem[]
   /** Optional render prop for actions menu (Electron provides dropdown) */
@@ -1188,6 +1191,8 @@ export interface ResponseCardProps {
   onOpenUrl?: (url: string) => void
   /** Callback to open response in Monaco editor */
   onPopOut?: () => void
+  /** Callback to fork the session from this response into a new session */
+  onFork?: () => void
   /** Card variant - 'response' for AI messages, 'plan' for plan messages */
   variant?: 'response' | 'plan'
   /** Callback when user accepts the plan (plan variant only) */
@@ -1227,6 +1232,7 @@ export function ResponseCard({
   onOpenFile,
   onOpenUrl,
   onPopOut,
+  onFork,
   variant = 'response',
   onAccept,
   onAcceptWithCompact,
@@ -1403,6 +1409,19 @@ export function ResponseCard({
                     <span>View as Markdown</span>
                   </button>
                 )}
+                {onFork && (
+                  <button
+                    onClick={onFork}
+                    className={cn(
+                      "flex items-center gap-1.5 transition-colors select-none",
+                      "text-muted-foreground hover:text-foreground",
+                      "focus:outline-none focus-visible:underline"
+                    )}
+                  >
+                    <GitBranch className={SIZE_CONFIG.iconSize} />
+                    <span>Fork</span>
+                  </button>
+                )}
               </div>
 
               {/* Right side - Accept Plan dropdown (only shown for plan variant when it's the last response) */}
@@ -1589,6 +1608,7 @@ export const TurnCard = React.memo(function TurnCard({
   onOpenActivityDetails,
   onOpenMultiFileDiff,
   hasEditOrWriteActivities,
+  onFork,
   todos,
   renderActionsMenu,
   onAcceptPlan,
@@ -1774,6 +1794,7 @@ export const TurnCard = React.memo(function TurnCard({
                 onOpenDetails={onOpenDetails}
                 onOpenMultiFileDiff={onOpenMultiFileDiff}
                 hasEditOrWriteActivities={hasEditOrWriteActivities}
+                onFork={onFork}
               />
             )}
           </button>
@@ -1918,6 +1939,7 @@ export const TurnCard = React.memo(function TurnCard({
                 onOpenFile={onOpenFile}
                 onOpenUrl={onOpenUrl}
                 onPopOut={onPopOut ? () => onPopOut(response.text) : undefined}
+                onFork={response.isStreaming ? undefined : onFork}
                 variant={response.isPlan ? 'plan' : 'response'}
                 onAccept={onAcceptPlan}
                 onAcceptWithCompact={onAcceptPlanWithCompact}
@@ -1938,6 +1960,7 @@ export const TurnCard = React.memo(function TurnCard({
             onOpenFile={onOpenFile}
             onOpenUrl={onOpenUrl}
             onPopOut={onPopOut ? () => onPopOut(response.text) : undefined}
+            onFork={response.isStreaming ? undefined : onFork}
             variant={response.isPlan ? 'plan' : 'response'}
             onAccept={onAcceptPlan}
             onAcceptWithCompact={onAcceptPlanWithCompact}
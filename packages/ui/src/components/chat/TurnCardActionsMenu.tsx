@@ -1,5 +1,5 @@
 import * as React from 'react'
-import { MoreHorizontal, FileDiff, ArrowUpRight } from 'lucide-react'
+import { MoreHorizontal, FileDiff, ArrowUpRight, GitBranch } from 'lucide-react'
 import { SimpleDropdown, SimpleDropdownItem } from '../ui/SimpleDropdown'
 import { cn } from '../../lib/utils'
 
@@ -10,6 +10,8 @@ export interface TurnCardActionsMenuProps {
   onOpenMultiFileDiff?: () => void
   /** Whether this turn has any Edit or Write activities */
   hasEditOrWriteActivities?: boolean
+  /** Callback to fork the session from this turn into a new session */
+  onFork?: () => void
   /** Additional className for the trigger button */
   className?: string
 }
@@ -20,17 +22,19 @@ export interface TurnCardActionsMenuProps {
  * Shows:
  * - "View file changes" when turn has Edit/Write activities
  * - "View turn details" always
+ * - "Fork from here" when forking is supported
  */
 export function TurnCardActionsMenu({
   onOpenDetails,
   onOpenMultiFileDiff,
   hasEditOrWriteActivities,
+  onFork,
   className,
 }: TurnCardActionsMenuProps) {
   const [isOpen, setIsOpen] = React.useState(false)
 
   // Don't render if no actions available
-  if (!onOpenDetails && !onOpenMultiFileDiff) {
+  if (!onOpenDetails && !onOpenMultiFileDiff && !onFork) {
     return null
   }
 
@@ -77,6 +81,14 @@ export function TurnCardActionsMenu({
           View turn details
         </SimpleDropdownItem>
       )}
+      {onFork && (
+        <SimpleDropdownItem
+          onClick={onFork}
+          icon={<GitBranch />}
+        >
+          Fork from here
+        </SimpleDropdownItem>
+      )}
     </SimpleDropdown>
   )
 }
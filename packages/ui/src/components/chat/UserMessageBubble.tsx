@@ -9,9 +9,11 @@
  * - Optional file attachments with thumbnails
  * - Content badges for @mentions (sources, skills)
  * - Pending/queued states (Electron only)
+ * - Fork and inline edit & resend actions (Electron only)
  */
 
-import type { ReactNode } from 'react'
+import { useEffect, useRef, useState, type ReactNode } from 'react'
+import { GitBranch, Pencil } from 'lucide-react'
 import type { StoredAttachment, ContentBadge } from '@craft-agent/core'
 import { normalizePath } from '@craft-agent/core/utils'
 import { cn } from '../../lib/utils'
@@ -325,6 +327,84 @@ export interface UserMessageBubbleProps {
   ultrathink?: boolean
   /** Compact mode - reduces padding for popover embedding */
   compactMode?: boolean
+  /** Callback to fork the session from this message (shown on hover) */
+  onFork?: () => void
+  /**
+   * Callback to resend this message with edited text (shown on hover).
+   * Receives the text as displayed - hidden edit_request context is re-attached by the caller.
+   */
+  onEdit?: (content: string) => void
+}
+
+/**
+ * MessageEditor - Inline editor that replaces the bubble text while editing.
+ * Cmd/Ctrl+Enter resends, Escape cancels.
+ */
+function MessageEditor({
+  initialContent,
+  onSubmit,
+  onCancel,
+}: {
+  initialContent: string
+  onSubmit: (content: string) => void
+  onCancel: () => void
+}) {
+  const [value, setValue] = useState(initialContent)
+  const textareaRef = useRef<HTMLTextAreaElement>(null)
+  const canSubmit = value.trim().length > 0 && value !== initialContent
+
+  // Focus with the cursor at the end so the user can keep typing
+  useEffect(() => {
+    const textarea = textareaRef.current
+    if (!textarea) return
+    textarea.focus()
+    textarea.setSelectionRange(textarea.value.length, textarea.value.length)
+  }, [])
+
+  const handleSubmit = () => {
+    if (canSubmit) onSubmit(value.trim())
+  }
+
+  return (
+    <div className="w-[80%] flex flex-col gap-2 bg-foreground/5 rounded-[16px] px-4 py-3">
+      <textarea
+        ref={textareaRef}
+        value={value}
+        onChange={(e) => setValue(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === 'Escape') {
+            e.preventDefault()
+            onCancel()
+          } else if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) {
+            e.preventDefault()
+            handleSubmit()
+          }
+        }}
+        rows={Math.min(Math.max(value.split('\n').length, 2), 12)}
+        className="w-full resize-none bg-transparent text-sm outline-none placeholder:text-muted-foreground"
+      />
+      <div className="flex items-center justify-end gap-2">
+        <span className="mr-auto text-[11px] text-muted-foreground">
+          Resending discards everything after this message
+        </span>
+        <button
+          type="button"
+          onClick={onCancel}
+          className="h-[28px] px-2.5 text-xs font-medium rounded-[6px] text-muted-foreground hover:text-foreground hover:bg-foreground/5 transition-colors"
+        >
+          Cancel
+        </button>
+        <button
+          type="button"
+          onClick={handleSubmit}
+          disabled={!canSubmit}
+          className="h-[28px] px-2.5 text-xs font-medium rounded-[6px] bg-foreground text-background hover:bg-foreground/90 disabled:opacity-50 disabled:pointer-events-none transition-colors"
+        >
+          Send
+        </button>
+      </div>
+    </div>
+  )
 }
 
 export function UserMessageBubble({
@@ -338,7 +418,10 @@ export function UserMessageBubble({
   isQueued,
   ultrathink,
   compactMode,
+  onFork,
+  onEdit,
 }: UserMessageBubbleProps) {
+  const [isEditing, setIsEditing] = useState(false)
   const hasAttachments = attachments && attachments.length > 0
 
   // Separate edit_request badges (rendered above bubble) from other badges (rendered inline)
@@ -361,7 +444,7 @@ export function UserMessageBubble({
   }
 
   return (
-    <div className={cn("flex flex-col items-end gap-3 w-full", className)}>
+    <div className={cn("group/user-message flex flex-col items-end gap-3 w-full", className)}>
       {/* Attachment preview row - stored attachments with thumbnails */}
       {hasAttachments && (
         <div className="flex gap-2 justify-end max-w-[80%] flex-wrap">
@@ -431,28 +514,39 @@ export function UserMessageBubble({
         </div>
       )}
 
-      {/* Text content bubble */}
-      <div
-        className={cn(
-          "max-w-[80%] bg-foreground/5 rounded-[16px] break-words min-w-0 select-text [&_p]:m-0",
-          compactMode ? "px-4 py-2" : "px-5 py-3.5",
-          isPending && "animate-shimmer"
-        )}
-      >
-        {hasInlineBadges
-          ? renderContentWithBadges(displayContent, inlineBadges, onUrlClick, onFileClick)
-          : (
-            <Markdown
-              mode="minimal"
-              onUrlClick={onUrlClick}
-              onFileClick={onFileClick}
-              className="text-sm [&_a]:underline [&_code]:bg-foreground/10"
-            >
-              {displayContent}
-            </Markdown>
-          )
-        }
-      </div>
+      {/* Text content bubble (swapped for the inline editor while editing) */}
+      {isEditing && onEdit ? (
+        <MessageEditor
+          initialContent={displayContent}
+          onCancel={() => setIsEditing(false)}
+          onSubmit={(edited) => {
+            setIsEditing(false)
+            onEdit(edited)
+          }}
+        />
+      ) : (
+        <div
+          className={cn(
+            "max-w-[80%] bg-foreground/5 rounded-[16px] break-words min-w-0 select-text [&_p]:m-0",
+            compactMode ? "px-4 py-2" : "px-5 py-3.5",
+            isPending && "animate-shimmer"
+          )}
+        >
+          {hasInlineBadges
+            ? renderContentWithBadges(displayContent, inlineBadges, onUrlClick, onFileClick)
+            : (
+              <Markdown
+                mode="minimal"
+                onUrlClick={onUrlClick}
+                onFileClick={onFileClick}
+                className="text-sm [&_a]:underline [&_code]:bg-foreground/10"
+              >
+                {displayContent}
+              </Markdown>
+            )
+          }
+        </div>
+      )}
 
       {/* Queued badge */}
       {isQueued && (
@@ -460,6 +554,48 @@ export function UserMessageBubble({
           queued
         </span>
       )}
+
+      {/* Hover actions */}
+      {(onFork || onEdit) && !isPending && !isQueued && !isEditing && (
+        <div className="-mt-2 flex items-center opacity-0 group-hover/user-message:opacity-100 focus-within:opacity-100 transition-opacity">
+          <TooltipProvider>
+            {onEdit && (
+              <Tooltip>
+                <TooltipTrigger asChild>
+                  <button
+                    type="button"
+                    onClick={() => setIsEditing(true)}
+                    aria-label="Edit message"
+                    className="p-1 rounded-[6px] text-muted-foreground/50 hover:text-foreground hover:bg-foreground/5 focus:outline-none focus-visible:ring-1 focus-visible:ring-ring"
+                  >
+                    <Pencil className="w-3 h-3" />
+                  </button>
+                </TooltipTrigger>
+                <TooltipContent side="bottom">
+                  Edit and resend
+                </TooltipContent>
+              </Tooltip>
+            )}
+            {onFork && (
+              <Tooltip>
+                <TooltipTrigger asChild>
+                  <button
+                    type="button"
+                    onClick={onFork}
+                    aria-label="Fork from here"
+                    className="p-1 rounded-[6px] text-muted-foreground/50 hover:text-foreground hover:bg-foreground/5 focus:outline-none focus-visible:ring-1 focus-visible:ring-ring"
+                  >
+                    <GitBranch className="w-3 h-3" />
+                  </button>
+                </TooltipTrigger>
+                <TooltipContent side="bottom">
+                  Fork from here
+                </TooltipContent>
+              </Tooltip>
+            )}
+          </TooltipProvider>
+        </div>
+      )}
     </div>
   )
 }
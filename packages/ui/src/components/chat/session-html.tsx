@@ -0,0 +1,107 @@
+/**
+ * Session HTML export - renders a session transcript to a self-contained HTML document
+ *
+ * Uses SessionViewer (static markup, turns expanded) so exports look like the app.
+ * Mermaid blocks render client-side in the app, so they are converted to inline SVG
+ * before rendering. Styles are passed in by the caller (e.g. the app's stylesheets),
+ * keeping the output free of external references.
+ */
+
+import { renderToStaticMarkup } from 'react-dom/server'
+import type { StoredSession } from '@craft-agent/core'
+import { renderMermaid } from '@craft-agent/mermaid'
+import { SessionViewer } from './SessionViewer'
+
+export interface SessionHtmlOptions {
+  /** Document title (defaults to the session name) */
+  title?: string
+  /** CSS inlined into the document <head> */
+  css?: string
+  /** Class names for the <html> element (e.g. theme classes such as "dark") */
+  htmlClassName?: string
+}
+
+const MERMAID_FENCE_PATTERN = /^```mermaid[^\S\n]*\n([\s\S]*?)\n```[^\S\n]*$/gm
+
+// Undo the app's scroll container layout so the whole transcript flows (and prints)
+const EXPORT_LAYOUT_CSS = `
+html, body { height: auto; overflow: visible; }
+.session-export [style*="mask-image"] { mask-image: none !important; -webkit-mask-image: none !important; }
+.session-export .h-full { height: auto; }
+.session-export .overflow-y-auto { overflow: visible; }
+.session-export .mermaid-export { margin: 1em 0; overflow-x: auto; }
+`
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+/**
+ * Replace ```mermaid fences with inline SVG.
+ * Diagrams that fail to render are left as code blocks.
+ */
+export async function inlineMermaidDiagrams(markdown: string): Promise<string> {
+  const matches = [...markdown.matchAll(MERMAID_FENCE_PATTERN)]
+  if (matches.length === 0) return markdown
+
+  const rendered = await Promise.all(matches.map(async ([block, code]) => {
+    try {
+      const svg = await renderMermaid(code ?? '', {
+        bg: 'var(--background)',
+        fg: 'var(--foreground)',
+        accent: 'var(--accent)',
+        line: 'var(--foreground-30)',
+        muted: 'var(--muted-foreground)',
+        surface: 'var(--foreground-3)',
+        border: 'var(--foreground-20)',
+        transparent: true,
+      })
+      return { block, html: `<div class="mermaid-export">${svg}</div>` }
+    } catch {
+      return { block, html: block }
+    }
+  }))
+
+  let result = markdown
+  for (const { block, html } of rendered) {
+    result = result.replace(block, () => `\n${html}\n`)
+  }
+  return result
+}
+
+/**
+ * Render a session to a complete HTML document.
+ * Filter the session first to control which messages are included.
+ */
+export async function renderSessionHtml(session: StoredSession, options: SessionHtmlOptions = {}): Promise<string> {
+  const messages = await Promise.all(session.messages.map(async (message) => (
+    message.type === 'assistant' || message.type === 'plan'
+      ? { ...message, content: await inlineMermaidDiagrams(message.content) }
+      : message
+  )))
+
+  const body = renderToStaticMarkup(
+    <SessionViewer session={{ ...session, messages }} mode="readonly" defaultExpanded className="session-export" />
+  )
+  const title = options.title ?? session.name ?? 'Session'
+  const htmlClass = options.htmlClassName ? ` class="${escapeHtml(options.htmlClassName)}"` : ''
+
+  return `<!DOCTYPE html>
+<html lang="en"${htmlClass}>
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)}</title>
+<style>${options.css ?? ''}</style>
+<style>${EXPORT_LAYOUT_CSS}</style>
+</head>
+<body class="bg-background text-foreground">
+${body}
+</body>
+</html>
+`
+}
@@ -0,0 +1,79 @@
+/**
+ * QueryResultOverlay - Table view for database query results
+ *
+ * Renders the rows returned by a query tool (e.g. sqlite_query) inside
+ * DataTableOverlay. NULL values are shown dimmed to tell them apart from
+ * empty strings.
+ */
+
+import * as React from 'react'
+import { DataTableOverlay } from './DataTableOverlay'
+
+export interface QueryResultOverlayProps {
+  /** Whether the overlay is visible */
+  isOpen: boolean
+  /** Callback when the overlay should close */
+  onClose: () => void
+  /** Title for the overlay header (e.g., the tool or source name) */
+  title: string
+  /** Column names */
+  columns: string[]
+  /** Row values, one array per row in column order */
+  rows: unknown[][]
+  /** True if the query matched more rows than were returned */
+  truncated?: boolean
+  /** Theme mode for dark/light styling (defaults to 'light') */
+  theme?: 'light' | 'dark'
+}
+
+function formatCell(value: unknown): string {
+  if (typeof value === 'string') return value
+  if (typeof value === 'object') return JSON.stringify(value)
+  return String(value)
+}
+
+export function QueryResultOverlay({
+  isOpen,
+  onClose,
+  title,
+  columns,
+  rows,
+  truncated,
+  theme,
+}: QueryResultOverlayProps) {
+  const subtitle = `${rows.length}${truncated ? '+' : ''} ${rows.length === 1 && !truncated ? 'row' : 'rows'}`
+
+  return (
+    <DataTableOverlay isOpen={isOpen} onClose={onClose} title={title} subtitle={subtitle} theme={theme}>
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="border-b border-border">
+            {columns.map((column, index) => (
+              <th key={index} className="text-left py-2 px-4 font-medium text-muted-foreground whitespace-nowrap">
+                {column}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((row, rowIndex) => (
+            <tr key={rowIndex} className="border-b border-border/50 last:border-0">
+              {row.map((value, columnIndex) => (
+                <td key={columnIndex} className="py-2 px-4 align-top font-mono text-xs whitespace-pre-wrap break-words">
+                  {value === null || value === undefined
+                    ? <span className="text-muted-foreground/60">NULL</span>
+                    : formatCell(value)}
+                </td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      {truncated && (
+        <p className="py-3 px-4 text-xs text-muted-foreground">
+          More rows matched the query. Only the first {rows.length} were returned.
+        </p>
+      )}
+    </DataTableOverlay>
+  )
+}
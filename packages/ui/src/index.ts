@@ -28,6 +28,8 @@ export {
 // Chat components
 export {
   SessionViewer,
+  renderSessionHtml,
+  inlineMermaidDiagrams,
   TurnCard,
   TurnCardActionsMenu,
   ResponseCard,
@@ -42,6 +44,7 @@ export {
   ActivityStatusIcon,
   type SessionViewerProps,
   type SessionViewerMode,
+  type SessionHtmlOptions,
   type TurnCardProps,
   type TurnCardActionsMenuProps,
   type ResponseCardProps,
@@ -148,6 +151,7 @@ export {
   GenericOverlay,
   JSONPreviewOverlay,
   DataTableOverlay,
+  QueryResultOverlay,
   DocumentFormattedMarkdownOverlay,
   ImagePreviewOverlay,
   PDFPreviewOverlay,
@@ -161,6 +165,7 @@ export {
   type GenericOverlayProps,
   type JSONPreviewOverlayProps,
   type DataTableOverlayProps,
+  type QueryResultOverlayProps,
   type DocumentFormattedMarkdownOverlayProps,
   type ImagePreviewOverlayProps,
   type PDFPreviewOverlayProps,
@@ -192,6 +197,7 @@ export {
   parseGrepResult,
   parseGlobResult,
   extractOverlayData,
+  parseUnifiedDiffHunks,
   type ReadResult,
   type BashResult,
   type GrepResult,
@@ -201,6 +207,8 @@ export {
   type GenericOverlayData,
   type JSONOverlayData,
   type DocumentOverlayData,
+  type TableOverlayData,
+  type DiffOverlayData,
   type OverlayData,
 } from './lib/tool-parsers'
 
@@ -7,6 +7,7 @@
 
 import type { ActivityItem } from '../components/chat/TurnCard'
 import type { ToolType } from '../components/terminal/TerminalOutput'
+import type { FileChange } from '../components/overlay/MultiDiffPreviewOverlay'
 
 // ============================================================================
 // Individual Tool Parsers
@@ -219,7 +220,88 @@ export interface DocumentOverlayData {
   error?: string
 }
 
-export type OverlayData = CodeOverlayData | TerminalOverlayData | GenericOverlayData | JSONOverlayData | DocumentOverlayData
+/** Rows returned by a database query tool (e.g. sqlite_query) */
+export interface TableOverlayData {
+  type: 'table'
+  title: string
+  columns: string[]
+  rows: unknown[][]
+  /** True if the query matched more rows than were returned */
+  truncated: boolean
+  error?: string
+}
+
+/** Changes returned by a diff tool (e.g. git_diff), one change per hunk */
+export interface DiffOverlayData {
+  type: 'diff'
+  title: string
+  changes: FileChange[]
+  error?: string
+}
+
+export type OverlayData = CodeOverlayData | TerminalOverlayData | GenericOverlayData | JSONOverlayData | DocumentOverlayData | TableOverlayData | DiffOverlayData
+
+/**
+ * Check for the query result shape returned by database tools:
+ * { type: 'query_result', columns: string[], rows: unknown[][] }
+ */
+function isQueryResult(value: unknown): value is { columns: string[]; rows: unknown[][]; truncated?: boolean } {
+  const result = value as Record<string, unknown> | null
+  return !!result && result.type === 'query_result' &&
+    Array.isArray(result.columns) && Array.isArray(result.rows) && result.rows.every(Array.isArray)
+}
+
+/**
+ * Check for the diff result shape returned by git tools:
+ * { type: 'git_diff', files: [{ path, patch? }] }
+ */
+function isGitDiffResult(value: unknown): value is { files: Array<{ path: string; patch?: string }> } {
+  const result = value as Record<string, unknown> | null
+  return !!result && result.type === 'git_diff' && Array.isArray(result.files)
+}
+
+/**
+ * Split a file's unified diff into one change per hunk. Each hunk's context and
+ * removed lines form the original text, its context and added lines the modified text.
+ */
+export function parseUnifiedDiffHunks(filePath: string, patch: string): FileChange[] {
+  const changes: FileChange[] = []
+  let original: string[] | null = null
+  let modified: string[] = []
+
+  const flush = () => {
+    if (original) {
+      changes.push({
+        id: `${filePath}:${changes.length}`,
+        filePath,
+        toolType: 'Edit',
+        original: original.join('\n'),
+        modified: modified.join('\n'),
+      })
+    }
+  }
+
+  for (const line of patch.split('\n')) {
+    if (line.startsWith('@@')) {
+      flush()
+      original = []
+      modified = []
+      continue
+    }
+    if (!original) continue
+    if (line.startsWith('-')) {
+      original.push(line.slice(1))
+    } else if (line.startsWith('+')) {
+      modified.push(line.slice(1))
+    } else if (line.startsWith(' ')) {
+      original.push(line.slice(1))
+      modified.push(line.slice(1))
+    }
+  }
+  flush()
+
+  return changes
+}
 
 // ============================================================================
 // Main Extraction Function
@@ -343,6 +425,29 @@ export function extractOverlayData(activity: ActivityItem): OverlayData | null {
       (trimmedContent.startsWith('[') && trimmedContent.endsWith(']'))) {
     try {
       const parsed = JSON.parse(trimmedContent)
+      // Database query results → table overlay
+      if (isQueryResult(parsed)) {
+        return {
+          type: 'table',
+          title: activity.displayName || activity.toolName || 'Query Result',
+          columns: parsed.columns,
+          rows: parsed.rows,
+          truncated: parsed.truncated === true,
+          error: activity.error,
+        }
+      }
+      // Git diffs → diff overlay (files without a patch, e.g. binaries, are skipped)
+      if (isGitDiffResult(parsed)) {
+        const changes = parsed.files.flatMap(file => file.patch ? parseUnifiedDiffHunks(file.path, file.patch) : [])
+        if (changes.length > 0) {
+          return {
+            type: 'diff',
+            title: activity.displayName || activity.toolName || 'Diff',
+            changes,
+            error: activity.error,
+          }
+        }
+      }
       return {
         type: 'json',
         data: parsed,
@@ -0,0 +1,153 @@
+/**
+ * Tests for the /s/api contract against both storage backends.
+ */
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { createViewerHandler } from '../handler.ts';
+import { FileShareStorage, SqliteShareStorage } from '../storage/index.ts';
+import type { ShareStorage } from '../types.ts';
+
+const BASE = 'http://viewer.test';
+const SESSION = { id: 'session-1', name: 'Test', messages: [{ id: 'm1', type: 'user', content: 'Hello' }] };
+
+function request(method: string, path: string, body?: unknown, headers: Record<string, string> = {}): Request {
+  return new Request(`${BASE}${path}`, {
+    method,
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+}
+
+const backends: [string, (dir: string) => ShareStorage][] = [
+  ['filesystem', dir => new FileShareStorage(join(dir, 'shares'))],
+  ['sqlite', () => new SqliteShareStorage(':memory:')],
+];
+
+for (const [name, createStorage] of backends) {
+  describe(`viewer handler (${name})`, () => {
+    let dir: string;
+    let now: number;
+    let handle: (request: Request) => Promise<Response>;
+
+    beforeEach(() => {
+      dir = mkdtempSync(join(tmpdir(), 'viewer-server-'));
+      now = 1_700_000_000_000;
+      handle = createViewerHandler({ storage: createStorage(dir), now: () => now, maxBodyBytes: 10_000 });
+    });
+
+    afterEach(() => {
+      rmSync(dir, { recursive: true, force: true });
+    });
+
+    type Created = { id: string; url: string; editToken: string; passwordProtected: boolean; expiresAt?: number };
+
+    async function share(headers: Record<string, string> = {}): Promise<Created> {
+      const response = await handle(request('POST', '/s/api', SESSION, headers));
+      expect(response.status).toBe(200);
+      return response.json() as Promise<Created>;
+    }
+
+    it('creates, reads, updates and deletes a share', async () => {
+      const { id, url, editToken, passwordProtected, expiresAt } = await share();
+      expect(id).toMatch(/^[a-zA-Z0-9_-]{15}$/);
+      expect(url).toBe(`${BASE}/s/${id}`);
+      expect(passwordProtected).toBe(false);
+      expect(expiresAt).toBeUndefined();
+      const auth = { 'X-Share-Edit-Token': editToken };
+
+      expect(await (await handle(request('GET', `/s/api/${id}`))).json()).toEqual(SESSION);
+
+      const updated = { ...SESSION, name: 'Renamed' };
+      expect((await handle(request('PUT', `/s/api/${id}`, updated, auth))).status).toBe(200);
+      expect(await (await handle(request('GET', `/s/api/${id}`))).json()).toEqual(updated);
+
+      expect((await handle(request('DELETE', `/s/api/${id}`, undefined, auth))).status).toBe(200);
+      expect((await handle(request('GET', `/s/api/${id}`))).status).toBe(404);
+      expect((await handle(request('DELETE', `/s/api/${id}`, undefined, auth))).status).toBe(404);
+    });
+
+    it('requires the edit token to update or delete a share', async () => {
+      const { id } = await share({ 'X-Share-Password': 'open sesame' });
+      const other = await share();
+      const hijacked = { ...SESSION, name: 'Hijacked' };
+
+      expect((await handle(request('PUT', `/s/api/${id}`, hijacked))).status).toBe(401);
+      expect((await handle(request('PUT', `/s/api/${id}`, hijacked, {
+        'X-Share-Edit-Token': other.editToken,
+        'X-Share-Password': 'new password',
+      }))).status).toBe(403);
+      expect((await handle(request('DELETE', `/s/api/${id}`))).status).toBe(401);
+      expect((await handle(request('DELETE', `/s/api/${id}`, undefined, { 'X-Share-Edit-Token': 'guess' }))).status).toBe(403);
+
+      // Unchanged: still readable with the original password only
+      const read = await handle(request('GET', `/s/api/${id}`, undefined, { 'X-Share-Password': 'open sesame' }));
+      expect(await read.json()).toEqual(SESSION);
+    });
+
+    it('rejects bodies that are not sessions or are too large', async () => {
+      expect((await handle(request('POST', '/s/api', { hello: 'world' }))).status).toBe(400);
+      const large = { ...SESSION, messages: [{ type: 'user', content: 'x'.repeat(20_000) }] };
+      expect((await handle(request('POST', '/s/api', large))).status).toBe(413);
+    });
+
+    it('requires the password for protected shares, and keeps it across updates', async () => {
+      const { id, editToken, passwordProtected } = await share({ 'X-Share-Password': 'open sesame' });
+      expect(passwordProtected).toBe(true);
+
+      const missing = await handle(request('GET', `/s/api/${id}`));
+      expect(missing.status).toBe(401);
+      expect(await missing.json()).toEqual({ error: 'Password required' });
+      expect((await handle(request('GET', `/s/api/${id}`, undefined, { 'X-Share-Password': 'wrong' }))).status).toBe(401);
+      expect((await handle(request('GET', `/s/api/${id}`, undefined, { 'X-Share-Password': 'open sesame' }))).status).toBe(200);
+
+      const updated = await handle(request('PUT', `/s/api/${id}`, SESSION, { 'X-Share-Edit-Token': editToken }));
+      expect((await updated.json() as Created).passwordProtected).toBe(true);
+      expect((await handle(request('GET', `/s/api/${id}`))).status).toBe(401);
+    });
+
+    it('expires shares and removes them from storage', async () => {
+      expect((await handle(request('POST', '/s/api', SESSION, { 'X-Share-Expires-At': String(now - 1) }))).status).toBe(400);
+
+      const { id, expiresAt } = await share({ 'X-Share-Expires-At': String(now + 1000) });
+      expect(expiresAt).toBe(now + 1000);
+      expect((await handle(request('GET', `/s/api/${id}`))).status).toBe(200);
+
+      now += 1000;
+      expect((await handle(request('GET', `/s/api/${id}`))).status).toBe(410);
+      expect((await handle(request('GET', `/s/api/${id}`))).status).toBe(404);
+    });
+
+    it('sweeps expired shares', async () => {
+      const storage = createStorage(dir);
+      const base = { data: '{}', createdAt: now, updatedAt: now };
+      await storage.put({ ...base, id: 'expired', expiresAt: now - 1 });
+      await storage.put({ ...base, id: 'live', expiresAt: now + 1 });
+      await storage.put({ ...base, id: 'forever' });
+
+      expect(await storage.deleteExpired(now)).toBe(1);
+      expect(await storage.get('expired')).toBeNull();
+      expect(await storage.get('live')).not.toBeNull();
+      expect(await storage.get('forever')).not.toBeNull();
+    });
+  });
+}
+
+describe('viewer handler routing', () => {
+  it('rejects invalid IDs and unsupported methods', async () => {
+    const handle = createViewerHandler({ storage: new SqliteShareStorage(':memory:') });
+    expect((await handle(request('GET', '/s/api/..%2Fsecret'))).status).toBe(404);
+    expect((await handle(request('GET', '/s/api'))).status).toBe(405);
+    expect((await handle(request('PATCH', '/s/api/abc', SESSION))).status).toBe(405);
+  });
+
+  it('uses the configured public URL for share links', async () => {
+    const handle = createViewerHandler({
+      storage: new SqliteShareStorage(':memory:'),
+      publicUrl: 'https://share.internal/',
+    });
+    const { id, url } = await (await handle(request('POST', '/s/api', SESSION))).json() as { id: string; url: string };
+    expect(url).toBe(`https://share.internal/s/${id}`);
+  });
+});
@@ -0,0 +1,229 @@
+/**
+ * Viewer request handler
+ *
+ * Implements the /s/api contract (see protocol.ts) as a fetch-style handler so it
+ * can run under Bun.serve or be mounted in another server. Optionally serves the
+ * built viewer app (apps/viewer/dist) so one process hosts links end to end.
+ */
+
+import { resolve, sep } from 'node:path';
+import {
+  SHARE_EDIT_TOKEN_HEADER,
+  SHARE_EXPIRES_AT_HEADER,
+  SHARE_PASSWORD_HEADER,
+  generateEditToken,
+  generateShareId,
+  isValidShareId,
+} from './protocol.ts';
+import { hashEditToken, hashPassword, verifyEditToken, verifyPassword } from './password.ts';
+import type { ShareRecord, ShareStorage } from './types.ts';
+
+export interface ViewerHandlerOptions {
+  storage: ShareStorage;
+  /** Base URL used in returned share links. Defaults to the request origin. */
+  publicUrl?: string;
+  /** Maximum session upload size in bytes (default 50 MB) */
+  maxBodyBytes?: number;
+  /** Built viewer app to serve under /s/ (apps/viewer/dist) */
+  staticDir?: string;
+  /** Clock override for tests */
+  now?: () => number;
+}
+
+const DEFAULT_MAX_BODY_BYTES = 50 * 1024 * 1024;
+
+function json(body: unknown, status = 200): Response {
+  return Response.json(body, { status });
+}
+
+function error(status: number, message: string): Response {
+  return json({ error: message }, status);
+}
+
+class RequestError extends Error {
+  constructor(readonly status: number, message: string) {
+    super(message);
+  }
+}
+
+/** Parse the optional expiry header. Missing → undefined; invalid or past → 400. */
+function parseExpiresAt(request: Request, now: number): number | undefined {
+  const header = request.headers.get(SHARE_EXPIRES_AT_HEADER);
+  if (header === null || header === '') return undefined;
+  const expiresAt = Number(header);
+  if (!Number.isSafeInteger(expiresAt) || expiresAt <= now) {
+    throw new RequestError(400, `${SHARE_EXPIRES_AT_HEADER} must be a future Unix timestamp in milliseconds`);
+  }
+  return expiresAt;
+}
+
+/**
+ * Check the edit token sent with PUT/DELETE.
+ * Shares created before edit tokens existed have no hash and cannot be changed.
+ */
+function requireEditToken(request: Request, record: ShareRecord): void {
+  const token = request.headers.get(SHARE_EDIT_TOKEN_HEADER);
+  if (!token) throw new RequestError(401, 'Edit token required');
+  if (!record.editTokenHash || !verifyEditToken(token, record.editTokenHash)) {
+    throw new RequestError(403, 'Invalid edit token');
+  }
+}
+
+/** Read and shape-check the uploaded session. Stored as the original text. */
+async function readSessionBody(request: Request, maxBodyBytes: number): Promise<string> {
+  const declaredLength = Number(request.headers.get('Content-Length') ?? 0);
+  if (declaredLength > maxBodyBytes) {
+    throw new RequestError(413, 'Session is too large');
+  }
+  const body = await request.text();
+  if (Buffer.byteLength(body) > maxBodyBytes) {
+    throw new RequestError(413, 'Session is too large');
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(body);
+  } catch {
+    throw new RequestError(400, 'Body must be session JSON');
+  }
+  if (!parsed || typeof parsed !== 'object' || !Array.isArray((parsed as { messages?: unknown }).messages)) {
+    throw new RequestError(400, 'Body must be a session with a messages array');
+  }
+  return body;
+}
+
+/**
+ * Create the request handler.
+ */
+export function createViewerHandler(options: ViewerHandlerOptions): (request: Request) => Promise<Response> {
+  const { storage } = options;
+  const maxBodyBytes = options.maxBodyBytes ?? DEFAULT_MAX_BODY_BYTES;
+  const now = options.now ?? Date.now;
+  const staticRoot = options.staticDir ? resolve(options.staticDir) : undefined;
+
+  function shareUrl(request: Request, id: string): string {
+    const base = (options.publicUrl ?? new URL(request.url).origin).replace(/\/+$/, '');
+    return `${base}/s/${id}`;
+  }
+
+  /** Load a live share, removing it if it has expired */
+  async function loadShare(id: string): Promise<ShareRecord> {
+    const record = await storage.get(id);
+    if (!record) throw new RequestError(404, 'Share not found');
+    if (record.expiresAt !== undefined && record.expiresAt <= now()) {
+      await storage.delete(id);
+      throw new RequestError(410, 'Share has expired');
+    }
+    return record;
+  }
+
+  async function create(request: Request): Promise<Response> {
+    const expiresAt = parseExpiresAt(request, now());
+    const password = request.headers.get(SHARE_PASSWORD_HEADER);
+    const data = await readSessionBody(request, maxBodyBytes);
+
+    const id = generateShareId();
+    // Only the hash is stored; the token is returned once to the creator
+    const editToken = generateEditToken();
+    const timestamp = now();
+    await storage.put({
+      id,
+      data,
+      passwordHash: password ? await hashPassword(password) : undefined,
+      editTokenHash: hashEditToken(editToken),
+      expiresAt,
+      createdAt: timestamp,
+      updatedAt: timestamp,
+    });
+    // Echo the applied access rules so clients can tell this server supports them
+    return json({ id, url: shareUrl(request, id), editToken, passwordProtected: Boolean(password), expiresAt });
+  }
+
+  async function read(request: Request, id: string): Promise<Response> {
+    const record = await loadShare(id);
+    if (record.passwordHash) {
+      const password = request.headers.get(SHARE_PASSWORD_HEADER);
+      if (!password) return error(401, 'Password required');
+      if (!(await verifyPassword(password, record.passwordHash))) return error(401, 'Incorrect password');
+    }
+    return new Response(record.data, {
+      headers: { 'Content-Type': 'application/json', 'Cache-Control': 'no-store' },
+    });
+  }
+
+  async function update(request: Request, id: string): Promise<Response> {
+    const existing = await loadShare(id);
+    requireEditToken(request, existing);
+    const expiresAt = parseExpiresAt(request, now());
+    const password = request.headers.get(SHARE_PASSWORD_HEADER);
+    const data = await readSessionBody(request, maxBodyBytes);
+
+    const record: ShareRecord = {
+      ...existing,
+      data,
+      passwordHash: password ? await hashPassword(password) : existing.passwordHash,
+      expiresAt: expiresAt ?? existing.expiresAt,
+      updatedAt: now(),
+    };
+    await storage.put(record);
+    return json({ id, url: shareUrl(request, id), passwordProtected: Boolean(record.passwordHash), expiresAt: record.expiresAt });
+  }
+
+  async function remove(request: Request, id: string): Promise<Response> {
+    requireEditToken(request, await loadShare(id));
+    if (!(await storage.delete(id))) return error(404, 'Share not found');
+    return json({ success: true });
+  }
+
+  async function api(request: Request, path: string): Promise<Response> {
+    if (path === '') {
+      return request.method === 'POST' ? create(request) : error(405, 'Method not allowed');
+    }
+
+    const id = path.slice(1);
+    if (!path.startsWith('/') || !isValidShareId(id)) return error(404, 'Share not found');
+
+    switch (request.method) {
+      case 'GET':
+        return read(request, id);
+      case 'PUT':
+        return update(request, id);
+      case 'DELETE':
+        return remove(request, id);
+      default:
+        return error(405, 'Method not allowed');
+    }
+  }
+
+  /** Serve viewer assets; unknown paths fall back to index.html (client-side routes) */
+  async function serveStatic(pathname: string): Promise<Response> {
+    if (!staticRoot) return error(404, 'Not found');
+
+    const relative = decodeURIComponent(pathname.replace(/^\/s\/?/, '').replace(/^\/+/, ''));
+    const filePath = resolve(staticRoot, relative);
+    if (relative && (filePath === staticRoot || filePath.startsWith(staticRoot + sep))) {
+      const file = Bun.file(filePath);
+      if (await file.exists()) return new Response(file);
+    }
+
+    const index = Bun.file(resolve(staticRoot, 'index.html'));
+    return (await index.exists()) ? new Response(index) : error(404, 'Not found');
+  }
+
+  return async (request) => {
+    const { pathname } = new URL(request.url);
+    try {
+      if (pathname === '/s/api' || pathname.startsWith('/s/api/')) {
+        return await api(request, pathname.slice('/s/api'.length));
+      }
+      if (request.method !== 'GET' && request.method !== 'HEAD') {
+        return error(405, 'Method not allowed');
+      }
+      return await serveStatic(pathname);
+    } catch (err) {
+      if (err instanceof RequestError) return error(err.status, err.message);
+      console.error('Viewer request failed:', err);
+      return error(500, 'Internal server error');
+    }
+  };
+}
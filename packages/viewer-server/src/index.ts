@@ -0,0 +1,20 @@
+/**
+ * @craft-agent/viewer-server
+ *
+ * Self-hostable backend for shared sessions. Implements the /s/api contract used
+ * by the app's Share action, with pluggable storage and optional per-share
+ * password and expiry. Run `bun run start` or mount createViewerHandler().
+ */
+
+export { createViewerHandler, type ViewerHandlerOptions } from './handler.ts';
+export {
+  SHARE_EDIT_TOKEN_HEADER,
+  SHARE_EXPIRES_AT_HEADER,
+  SHARE_PASSWORD_HEADER,
+  generateEditToken,
+  generateShareId,
+  isValidShareId,
+} from './protocol.ts';
+export { hashEditToken, hashPassword, verifyEditToken, verifyPassword } from './password.ts';
+export { FileShareStorage, SqliteShareStorage } from './storage/index.ts';
+export type { ShareRecord, ShareStorage } from './types.ts';
@@ -0,0 +1,45 @@
+/**
+ * Share password hashing (scrypt) and edit token hashing (SHA-256).
+ *
+ * Hashes are stored as `scrypt:<salt>:<hash>` / `sha256:<hash>` (hex) so the
+ * format can change later without breaking existing shares.
+ */
+
+import { createHash, randomBytes, scrypt, timingSafeEqual } from 'node:crypto';
+
+const KEY_LENGTH = 32;
+
+function derive(password: string, salt: Buffer): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    scrypt(password, salt, KEY_LENGTH, (error, key) => (error ? reject(error) : resolve(key)));
+  });
+}
+
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16);
+  const key = await derive(password, salt);
+  return `scrypt:${salt.toString('hex')}:${key.toString('hex')}`;
+}
+
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [scheme, saltHex, keyHex] = stored.split(':');
+  if (scheme !== 'scrypt' || !saltHex || !keyHex) return false;
+
+  const expected = Buffer.from(keyHex, 'hex');
+  const actual = await derive(password, Buffer.from(saltHex, 'hex'));
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+/**
+ * Hash an edit token for storage. Tokens are random 256-bit values,
+ * so a fast hash is enough (unlike user-chosen passwords).
+ */
+export function hashEditToken(token: string): string {
+  return `sha256:${createHash('sha256').update(token).digest('hex')}`;
+}
+
+export function verifyEditToken(token: string, stored: string): boolean {
+  const expected = Buffer.from(stored);
+  const actual = Buffer.from(hashEditToken(token));
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
@@ -0,0 +1,53 @@
+/**
+ * /s/api contract
+ *
+ * POST   /s/api        Create a share from a session JSON body → { id, url, editToken, passwordProtected, expiresAt }
+ * GET    /s/api/{id}   Session JSON
+ * PUT    /s/api/{id}   Replace the session JSON (access rules are kept unless given) → { id, url, passwordProtected, expiresAt }
+ * DELETE /s/api/{id}   Remove the share
+ *
+ * PUT and DELETE require the edit token returned by POST in X-Share-Edit-Token,
+ * so knowing a share link (or its password) is not enough to change the share.
+ *
+ * Access rules are optional request headers on POST/PUT:
+ * - X-Share-Password: viewers must send the same header to GET the share
+ * - X-Share-Expires-At: Unix ms after which the share returns 410 Gone
+ *
+ * POST/PUT responses echo the rules in effect (`passwordProtected`, `expiresAt`),
+ * so clients can detect servers that ignore these headers.
+ *
+ * Errors are JSON `{ error }` with status 400, 401 (password or edit token missing),
+ * 403 (edit token wrong), 404, 410 (expired) or 413 (body too large).
+ */
+
+import { randomBytes } from 'node:crypto';
+
+export const SHARE_PASSWORD_HEADER = 'X-Share-Password';
+export const SHARE_EXPIRES_AT_HEADER = 'X-Share-Expires-At';
+export const SHARE_EDIT_TOKEN_HEADER = 'X-Share-Edit-Token';
+
+/** Same ID shape the viewer app accepts in /s/{id} */
+export const SHARE_ID_PATTERN = /^[a-zA-Z0-9_-]+$/;
+
+const ID_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789_-';
+const ID_LENGTH = 15;
+
+/**
+ * Random URL-safe share ID (15 chars, ~90 bits).
+ * Share links are the only capability for unprotected shares, so IDs must not be guessable.
+ */
+export function generateShareId(): string {
+  // 64-char alphabet, so masking each byte keeps the distribution uniform
+  return Array.from(randomBytes(ID_LENGTH), byte => ID_ALPHABET[byte & 63]).join('');
+}
+
+/**
+ * Random edit token (256 bits, base64url) returned once when a share is created
+ */
+export function generateEditToken(): string {
+  return randomBytes(32).toString('base64url');
+}
+
+export function isValidShareId(id: string): boolean {
+  return id.length <= 64 && SHARE_ID_PATTERN.test(id);
+}
@@ -0,0 +1,64 @@
+#!/usr/bin/env bun
+/**
+ * Viewer server entry point.
+ *
+ * Environment:
+ * - PORT                 Listen port (default 8080)
+ * - VIEWER_STORAGE       'fs' (default) or 'sqlite'
+ * - VIEWER_DATA_DIR      Share directory, or the database's directory for sqlite (default ./data)
+ * - VIEWER_PUBLIC_URL    Base URL for share links (default: request origin)
+ * - VIEWER_STATIC_DIR    Built viewer app to serve (default: apps/viewer/dist when present)
+ * - VIEWER_MAX_UPLOAD_MB Maximum session size (default 50)
+ */
+
+import { existsSync, mkdirSync } from 'node:fs';
+import { join, resolve } from 'node:path';
+import { createViewerHandler } from './handler.ts';
+import { FileShareStorage, SqliteShareStorage } from './storage/index.ts';
+import type { ShareStorage } from './types.ts';
+
+const EXPIRED_SWEEP_INTERVAL_MS = 60 * 60 * 1000;
+
+function createStorage(): ShareStorage {
+  const kind = process.env.VIEWER_STORAGE ?? 'fs';
+  const dataDir = resolve(process.env.VIEWER_DATA_DIR ?? 'data');
+
+  switch (kind) {
+    case 'fs':
+      return new FileShareStorage(dataDir);
+    case 'sqlite':
+      mkdirSync(dataDir, { recursive: true });
+      return new SqliteShareStorage(join(dataDir, 'shares.db'));
+    default:
+      throw new Error(`Unknown VIEWER_STORAGE "${kind}" (expected "fs" or "sqlite")`);
+  }
+}
+
+function resolveStaticDir(): string | undefined {
+  if (process.env.VIEWER_STATIC_DIR) return resolve(process.env.VIEWER_STATIC_DIR);
+  const bundled = resolve(import.meta.dir, '../../../apps/viewer/dist');
+  return existsSync(bundled) ? bundled : undefined;
+}
+
+const storage = createStorage();
+const staticDir = resolveStaticDir();
+const maxUploadMb = Number(process.env.VIEWER_MAX_UPLOAD_MB ?? 50);
+
+const server = Bun.serve({
+  port: Number(process.env.PORT ?? 8080),
+  // Leave headroom over the upload limit so oversized bodies get a JSON 413
+  maxRequestBodySize: (maxUploadMb + 1) * 1024 * 1024,
+  fetch: createViewerHandler({
+    storage,
+    publicUrl: process.env.VIEWER_PUBLIC_URL,
+    maxBodyBytes: maxUploadMb * 1024 * 1024,
+    staticDir,
+  }),
+});
+
+setInterval(() => {
+  storage.deleteExpired(Date.now()).catch(error => console.error('Expired share cleanup failed:', error));
+}, EXPIRED_SWEEP_INTERVAL_MS);
+
+console.log(`Viewer server listening on ${server.url}`);
+console.log(staticDir ? `Serving viewer app from ${staticDir}` : 'Viewer app not built - serving /s/api only');
@@ -0,0 +1,69 @@
+/**
+ * Filesystem share storage - one `<id>.json` file per share.
+ *
+ * Writes go through a temp file and rename so readers never see a partial share.
+ */
+
+import { mkdir, readFile, readdir, rename, rm, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { isValidShareId } from '../protocol.ts';
+import type { ShareRecord, ShareStorage } from '../types.ts';
+
+export class FileShareStorage implements ShareStorage {
+  private ready: Promise<unknown>;
+
+  constructor(private readonly dir: string) {
+    this.ready = mkdir(dir, { recursive: true });
+  }
+
+  private pathFor(id: string): string {
+    // Handler validates IDs too; checked again here since the ID becomes a file name
+    if (!isValidShareId(id)) {
+      throw new Error(`Invalid share ID: ${id}`);
+    }
+    return join(this.dir, `${id}.json`);
+  }
+
+  async get(id: string): Promise<ShareRecord | null> {
+    await this.ready;
+    try {
+      return JSON.parse(await readFile(this.pathFor(id), 'utf-8')) as ShareRecord;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  async put(record: ShareRecord): Promise<void> {
+    await this.ready;
+    const path = this.pathFor(record.id);
+    const tmpPath = `${path}.${process.pid}.tmp`;
+    await writeFile(tmpPath, JSON.stringify(record), 'utf-8');
+    await rename(tmpPath, path);
+  }
+
+  async delete(id: string): Promise<boolean> {
+    await this.ready;
+    const path = this.pathFor(id);
+    try {
+      await rm(path);
+      return true;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return false;
+      throw error;
+    }
+  }
+
+  async deleteExpired(now: number): Promise<number> {
+    await this.ready;
+    let removed = 0;
+    for (const file of await readdir(this.dir)) {
+      if (!file.endsWith('.json')) continue;
+      const record = await this.get(file.slice(0, -'.json'.length)).catch(() => null);
+      if (record?.expiresAt !== undefined && record.expiresAt <= now && await this.delete(record.id)) {
+        removed++;
+      }
+    }
+    return removed;
+  }
+}
@@ -0,0 +1,6 @@
+/**
+ * Share storage backends
+ */
+
+export { FileShareStorage } from './filesystem.ts';
+export { SqliteShareStorage } from './sqlite.ts';
@@ -0,0 +1,89 @@
+/**
+ * SQLite share storage (bun:sqlite) - a single database file, suited to many shares.
+ */
+
+import { Database } from 'bun:sqlite';
+import type { ShareRecord, ShareStorage } from '../types.ts';
+
+interface ShareRow {
+  id: string;
+  data: string;
+  password_hash: string | null;
+  edit_token_hash: string | null;
+  expires_at: number | null;
+  created_at: number;
+  updated_at: number;
+}
+
+function fromRow(row: ShareRow): ShareRecord {
+  return {
+    id: row.id,
+    data: row.data,
+    passwordHash: row.password_hash ?? undefined,
+    editTokenHash: row.edit_token_hash ?? undefined,
+    expiresAt: row.expires_at ?? undefined,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+export class SqliteShareStorage implements ShareStorage {
+  private readonly db: Database;
+
+  /** @param path Database file, or ':memory:' */
+  constructor(path: string) {
+    this.db = new Database(path, { create: true });
+    this.db.exec('PRAGMA journal_mode = WAL');
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS shares (
+        id TEXT PRIMARY KEY,
+        data TEXT NOT NULL,
+        password_hash TEXT,
+        edit_token_hash TEXT,
+        expires_at INTEGER,
+        created_at INTEGER NOT NULL,
+        updated_at INTEGER NOT NULL
+      )
+    `);
+    this.db.exec('CREATE INDEX IF NOT EXISTS shares_expires_at ON shares (expires_at)');
+    // Databases created before edit tokens existed
+    const columns = this.db.query<{ name: string }, []>('PRAGMA table_info(shares)').all();
+    if (!columns.some(column => column.name === 'edit_token_hash')) {
+      this.db.exec('ALTER TABLE shares ADD COLUMN edit_token_hash TEXT');
+    }
+  }
+
+  async get(id: string): Promise<ShareRecord | null> {
+    const row = this.db.query<ShareRow, [string]>('SELECT * FROM shares WHERE id = ?').get(id);
+    return row ? fromRow(row) : null;
+  }
+
+  async put(record: ShareRecord): Promise<void> {
+    this.db
+      .query(`
+        INSERT OR REPLACE INTO shares (id, data, password_hash, edit_token_hash, expires_at, created_at, updated_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?)
+      `)
+      .run(
+        record.id,
+        record.data,
+        record.passwordHash ?? null,
+        record.editTokenHash ?? null,
+        record.expiresAt ?? null,
+        record.createdAt,
+        record.updatedAt
+      );
+  }
+
+  async delete(id: string): Promise<boolean> {
+    return this.db.query('DELETE FROM shares WHERE id = ?').run(id).changes > 0;
+  }
+
+  async deleteExpired(now: number): Promise<number> {
+    return this.db.query('DELETE FROM shares WHERE expires_at IS NOT NULL AND expires_at <= ?').run(now).changes;
+  }
+
+  close(): void {
+    this.db.close();
+  }
+}
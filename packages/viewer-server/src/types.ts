@@ -0,0 +1,39 @@
+/**
+ * Viewer Server Types
+ *
+ * A share is an uploaded session transcript plus its access rules. The session
+ * JSON is stored as uploaded (the server never needs to understand it beyond a
+ * basic shape check), so storage backends only deal with opaque strings.
+ */
+
+/**
+ * A stored share.
+ */
+export interface ShareRecord {
+  /** Share ID used in /s/{id} links */
+  id: string;
+  /** Session JSON as uploaded */
+  data: string;
+  /** Password hash (see password.ts) when the share is password protected */
+  passwordHash?: string;
+  /** Edit token hash (see password.ts), required to update or delete the share */
+  editTokenHash?: string;
+  /** Unix ms after which the share is no longer served */
+  expiresAt?: number;
+  createdAt: number;
+  updatedAt: number;
+}
+
+/**
+ * Storage backend for shares.
+ * Implementations: FileShareStorage (one JSON file per share), SqliteShareStorage.
+ */
+export interface ShareStorage {
+  get(id: string): Promise<ShareRecord | null>;
+  /** Create or replace a share */
+  put(record: ShareRecord): Promise<void>;
+  /** @returns false if the share did not exist */
+  delete(id: string): Promise<boolean>;
+  /** Remove shares that expired before `now`. @returns Number of shares removed */
+  deleteExpired(now: number): Promise<number>;
+}